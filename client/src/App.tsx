@@ -14,17 +14,25 @@ import RegisterPage from "@/pages/register";
 import OrdersPage from "@/pages/orders";
 import FinancePage from "@/pages/finance";
 import WarehousePage from "@/pages/warehouse";
+import PurchaseOrdersPage from "@/pages/purchase-orders";
 import ListsPage from "@/pages/lists";
 import DDSReportPage from "@/pages/reports/dds";
 import ProfitReportPage from "@/pages/reports/profit";
 import ARAPReportPage from "@/pages/reports/ar-ap";
 import CashTotalReportPage from "@/pages/reports/cash-total";
+import StockRevaluationReportPage from "@/pages/reports/stock-revaluation";
 import ProfilePage from "@/pages/profile";
 import DashboardPage from "@/pages/dashboard";
 import KanbanPage from "@/pages/kanban";
+import WorkshopPage from "@/pages/workshop";
+import ProductionCalendarPage from "@/pages/production-calendar";
+import InstallationsPage from "@/pages/installations";
 import AuditLogPage from "@/pages/audit-log";
 import NotificationsPage from "@/pages/notifications";
+import NotificationSettingsPage from "@/pages/notification-settings";
 import AppNotificationsPage from "@/pages/app-notifications";
+import StaffPage from "@/pages/staff";
+import JobsPage from "@/pages/jobs";
 import { Loader2 } from "lucide-react";
 
 function ProtectedRoute({ component: Component }: { component: React.ComponentType }) {
@@ -87,12 +95,24 @@ function Router() {
       <Route path="/kanban">
         <ProtectedRoute component={KanbanPage} />
       </Route>
+      <Route path="/workshop">
+        <ProtectedRoute component={WorkshopPage} />
+      </Route>
+      <Route path="/production-calendar">
+        <ProtectedRoute component={ProductionCalendarPage} />
+      </Route>
+      <Route path="/installations">
+        <ProtectedRoute component={InstallationsPage} />
+      </Route>
       <Route path="/finance">
         <ProtectedRoute component={FinancePage} />
       </Route>
       <Route path="/warehouse">
         <ProtectedRoute component={WarehousePage} />
       </Route>
+      <Route path="/purchase-orders">
+        <ProtectedRoute component={PurchaseOrdersPage} />
+      </Route>
       <Route path="/lists">
         <ProtectedRoute component={ListsPage} />
       </Route>
@@ -108,15 +128,27 @@ function Router() {
       <Route path="/reports/cash-total">
         <ProtectedRoute component={CashTotalReportPage} />
       </Route>
+      <Route path="/reports/stock-revaluation">
+        <ProtectedRoute component={StockRevaluationReportPage} />
+      </Route>
       <Route path="/audit-log">
         <ProtectedRoute component={AuditLogPage} />
       </Route>
+      <Route path="/notifications/settings">
+        <ProtectedRoute component={NotificationSettingsPage} />
+      </Route>
       <Route path="/notifications">
         <ProtectedRoute component={NotificationsPage} />
       </Route>
       <Route path="/app-notifications">
         <ProtectedRoute component={AppNotificationsPage} />
       </Route>
+      <Route path="/staff">
+        <ProtectedRoute component={StaffPage} />
+      </Route>
+      <Route path="/jobs">
+        <ProtectedRoute component={JobsPage} />
+      </Route>
       <Route path="/profile">
         <ProtectedRoute component={ProfilePage} />
       </Route>
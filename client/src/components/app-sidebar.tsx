@@ -17,6 +17,14 @@ import {
   Search,
   History,
   Bell,
+  UserCog,
+  Scale,
+  ClipboardList,
+  ScanLine,
+  CalendarDays,
+  Wrench,
+  Lock,
+  Timer,
 } from "lucide-react";
 import {
   Sidebar,
@@ -34,29 +42,47 @@ import {
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/lib/auth";
 import { useTheme } from "@/lib/theme";
+import { useReportAccess } from "@/contexts/report-access-context";
+import { STAFF_ROLE_LABELS } from "@shared/permissions";
+import type { PermissionResource } from "@shared/schema";
 
-const mainNavItems = [
-  { title: "Заказы", url: "/orders", icon: ShoppingCart },
-  { title: "Канбан", url: "/kanban", icon: KanbanSquare },
-  { title: "Финансы", url: "/finance", icon: Wallet },
-  { title: "Склад", url: "/warehouse", icon: Warehouse },
-  { title: "Справочники", url: "/lists", icon: ListTodo },
-  { title: "История действий", url: "/audit-log", icon: History },
-  { title: "Уведомления в приложение", url: "/app-notifications", icon: Bell },
+interface NavItem {
+  title: string;
+  url: string;
+  icon: React.ElementType;
+  resource: PermissionResource;
+}
+
+const mainNavItems: NavItem[] = [
+  { title: "Заказы", url: "/orders", icon: ShoppingCart, resource: "orders" },
+  { title: "Канбан", url: "/kanban", icon: KanbanSquare, resource: "orders" },
+  { title: "Цех", url: "/workshop", icon: ScanLine, resource: "production" },
+  { title: "Календарь цеха", url: "/production-calendar", icon: CalendarDays, resource: "production" },
+  { title: "Монтаж", url: "/installations", icon: Wrench, resource: "installations" },
+  { title: "Финансы", url: "/finance", icon: Wallet, resource: "finance" },
+  { title: "Склад", url: "/warehouse", icon: Warehouse, resource: "warehouse" },
+  { title: "Заказы поставщикам", url: "/purchase-orders", icon: ClipboardList, resource: "warehouse" },
+  { title: "Справочники", url: "/lists", icon: ListTodo, resource: "references" },
+  { title: "История действий", url: "/audit-log", icon: History, resource: "audit" },
+  { title: "Уведомления в приложение", url: "/app-notifications", icon: Bell, resource: "dealers" },
+  { title: "Сотрудники", url: "/staff", icon: UserCog, resource: "staff" },
+  { title: "Фоновые задачи", url: "/jobs", icon: Timer, resource: "settings" },
 ];
 
-const reportNavItems = [
-  { title: "ДДС", url: "/reports/dds", icon: BarChart3 },
-  { title: "Прибыль", url: "/reports/profit", icon: TrendingUp },
-  { title: "Дебиторка/Кредиторка", url: "/reports/ar-ap", icon: Users },
-  { title: "Остатки касс", url: "/reports/cash-total", icon: Building2 },
-  { title: "Сводка", url: "/dashboard", icon: LayoutDashboard },
+const reportNavItems: NavItem[] = [
+  { title: "ДДС", url: "/reports/dds", icon: BarChart3, resource: "reports" },
+  { title: "Прибыль", url: "/reports/profit", icon: TrendingUp, resource: "reports" },
+  { title: "Дебиторка/Кредиторка", url: "/reports/ar-ap", icon: Users, resource: "reports" },
+  { title: "Остатки касс", url: "/reports/cash-total", icon: Building2, resource: "reports" },
+  { title: "Переоценка склада", url: "/reports/stock-revaluation", icon: Scale, resource: "reports" },
+  { title: "Сводка", url: "/dashboard", icon: LayoutDashboard, resource: "dashboard" },
 ];
 
 export function AppSidebar() {
   const [location] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, can, logout } = useAuth();
   const { theme, toggleTheme } = useTheme();
+  const { hasReportPassword, isUnlocked, lock } = useReportAccess();
 
   return (
     <Sidebar>
@@ -70,7 +96,9 @@ export function AppSidebar() {
               {user?.name || user?.email || "Пользователь"}
             </span>
             <span className="text-xs text-muted-foreground">
-              Система управления
+              {user && user.role !== "owner"
+                ? `${user.organizationName ?? "Организация"} · ${STAFF_ROLE_LABELS[user.role]}`
+                : "Система управления"}
             </span>
           </div>
         </div>
@@ -96,7 +124,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Основное</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {mainNavItems.map((item) => (
+              {mainNavItems.filter((item) => can(item.resource)).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
@@ -125,7 +153,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Отчеты</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {reportNavItems.map((item) => {
+              {reportNavItems.filter((item) => can(item.resource)).map((item) => {
                 const testId = item.url.startsWith("/reports/")
                   ? item.url.replace("/reports/", "report-")
                   : item.url.slice(1);
@@ -141,6 +169,15 @@ export function AppSidebar() {
                   </SidebarMenuItem>
                 );
               })}
+              {/* Закрыть отчёты, не дожидаясь окончания срока доступа */}
+              {hasReportPassword && isUnlocked && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton onClick={() => lock()} data-testid="button-lock-reports">
+                    <Lock className="h-4 w-4" />
+                    <span>Заблокировать отчёты</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
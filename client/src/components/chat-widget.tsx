@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { apiRequest } from "@/lib/queryClient";
+import { useReportAccess } from "@/contexts/report-access-context";
 import { cn } from "@/lib/utils";
 
 interface Message {
@@ -17,6 +18,7 @@ export function ChatWidget() {
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const { requestAccess } = useReportAccess();
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -24,10 +26,14 @@ export function ChatWidget() {
     }
   }, [messages]);
 
-  async function handleSend() {
+  // Ассистент отвечает по финансовым данным — нужен доступ к отчётам
+  function handleSend() {
     const text = input.trim();
     if (!text || loading) return;
+    requestAccess(() => send(text));
+  }
 
+  async function send(text: string) {
     const userMessage: Message = { role: "user", content: text };
     const newMessages = [...messages, userMessage];
     setMessages(newMessages);
@@ -46,10 +52,16 @@ export function ChatWidget() {
         ...prev,
         { role: "assistant", content: data.reply },
       ]);
-    } catch {
+    } catch (error) {
       setMessages((prev) => [
         ...prev,
-        { role: "assistant", content: "Ошибка при получении ответа." },
+        {
+          role: "assistant",
+          content:
+            error instanceof Error && error.message
+              ? error.message
+              : "Ошибка при получении ответа.",
+        },
       ]);
     } finally {
       setLoading(false);
@@ -289,13 +289,15 @@ function SupplierQuickView({
 }) {
   // Загружаем статистику поставщика
   const { data: stats, isLoading } = useQuery<{
+    totalOrdered: number;
+    totalReceived: number;
     totalPayments: number;
     balance: number;
   }>({
     queryKey: ["/api/suppliers", supplier.id, "stats"],
     queryFn: async () => {
       const res = await fetch(`/api/suppliers/${supplier.id}/stats`, { credentials: "include" });
-      if (!res.ok) return { totalPayments: 0, balance: 0 };
+      if (!res.ok) return { totalOrdered: 0, totalReceived: 0, totalPayments: 0, balance: 0 };
       return res.json();
     },
   });
@@ -327,7 +329,7 @@ function SupplierQuickView({
 
       {isLoading ? (
         <div className="grid grid-cols-2 gap-4">
-          {[1, 2].map((i) => (
+          {[1, 2, 3, 4].map((i) => (
             <div key={i}>
               <Skeleton className="h-4 w-16 mb-1" />
               <Skeleton className="h-6 w-24" />
@@ -336,6 +338,14 @@ function SupplierQuickView({
         </div>
       ) : (
         <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Заказано</p>
+            <p className="text-xl font-semibold font-mono">{formatCurrency(stats?.totalOrdered || 0)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Получено</p>
+            <p className="text-xl font-semibold font-mono">{formatCurrency(stats?.totalReceived || 0)}</p>
+          </div>
           <div>
             <p className="text-sm text-muted-foreground">Всего оплачено</p>
             <p className="text-xl font-semibold font-mono">{formatCurrency(stats?.totalPayments || 0)}</p>
@@ -0,0 +1,163 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatCurrency } from "@/components/status-badge";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, ShoppingCart, FilePlus } from "lucide-react";
+
+interface PurchaseSuggestionItem {
+  itemType: "fabric" | "component";
+  itemId: string;
+  name: string;
+  unit: string;
+  quantity: number;
+  reserved: number;
+  available: number;
+  incoming: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+  suggestedQuantity: number;
+  price: number;
+  total: number;
+}
+
+interface PurchaseSuggestionGroup {
+  supplierId: string | null;
+  supplierName: string | null;
+  items: PurchaseSuggestionItem[];
+  total: number;
+}
+
+// Предложения закупки по точкам заказа, сгруппированные по поставщикам
+export function PurchaseSuggestions() {
+  const { toast } = useToast();
+
+  const { data: groups = [], isLoading } = useQuery<PurchaseSuggestionGroup[]>({
+    queryKey: ["/api/warehouse/purchase-suggestions"],
+  });
+
+  const createDraftMutation = useMutation({
+    mutationFn: (group: PurchaseSuggestionGroup) =>
+      apiRequest("POST", "/api/warehouse/purchase-suggestions/receipt", {
+        supplierId: group.supplierId,
+        items: group.items.map((i) => ({
+          itemType: i.itemType,
+          itemId: i.itemId,
+          quantity: i.suggestedQuantity,
+          price: i.price,
+        })),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouse"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouse/purchase-suggestions"] });
+      toast({ title: "Успешно", description: "Черновик поступления создан" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (groups.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          <ShoppingCart className="h-8 w-8 mx-auto mb-2" />
+          Все остатки выше точки заказа
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => (
+        <Card key={group.supplierId || "none"} data-testid={`purchase-group-${group.supplierId || "none"}`}>
+          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+            <CardTitle className="text-base">
+              {group.supplierName || "Без поставщика"}
+              <span className="ml-3 font-mono text-sm text-muted-foreground">
+                {formatCurrency(group.total)}
+              </span>
+            </CardTitle>
+            {group.supplierId ? (
+              <Button
+                size="sm"
+                onClick={() => createDraftMutation.mutate(group)}
+                disabled={createDraftMutation.isPending}
+                data-testid={`button-create-draft-${group.supplierId}`}
+              >
+                {createDraftMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <FilePlus className="h-4 w-4 mr-2" />
+                )}
+                Создать черновик
+              </Button>
+            ) : (
+              <span className="text-sm text-muted-foreground">
+                Укажите основного поставщика в справочнике
+              </span>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-muted-foreground">
+                    <th className="text-left py-2 font-medium">Позиция</th>
+                    <th className="text-right py-2 font-medium">Доступно</th>
+                    <th className="text-right py-2 font-medium">В пути</th>
+                    <th className="text-right py-2 font-medium">Точка заказа</th>
+                    <th className="text-right py-2 font-medium">Заказать</th>
+                    <th className="text-right py-2 font-medium">Цена</th>
+                    <th className="text-right py-2 font-medium">Сумма</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.items.map((i) => (
+                    <tr key={`${i.itemType}:${i.itemId}`} className="border-b last:border-0">
+                      <td className="py-2">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{i.name}</span>
+                          <Badge variant="outline">
+                            {i.itemType === "fabric" ? "Ткань" : "Комплектующее"}
+                          </Badge>
+                        </div>
+                      </td>
+                      <td className={`py-2 text-right font-mono ${i.available < 0 ? "text-red-600" : ""}`}>
+                        {i.available.toFixed(2)} {i.unit}
+                      </td>
+                      <td className="py-2 text-right font-mono text-muted-foreground">
+                        {i.incoming > 0 ? `${i.incoming.toFixed(2)} ${i.unit}` : "-"}
+                      </td>
+                      <td className="py-2 text-right font-mono">{i.reorderPoint.toFixed(2)}</td>
+                      <td className="py-2 text-right font-mono font-semibold">
+                        {i.suggestedQuantity.toFixed(2)} {i.unit}
+                      </td>
+                      <td className="py-2 text-right font-mono">{formatCurrency(i.price)}</td>
+                      <td className="py-2 text-right font-mono">{formatCurrency(i.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -12,6 +12,8 @@ const statusStyles: Record<OrderStatus, string> = {
   "В производстве": "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
   "Готов": "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
   "Отгружен": "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300",
+  "Отменён": "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+  "Возврат": "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300",
 };
 
 export function StatusBadge({ status, className }: StatusBadgeProps) {
@@ -12,28 +12,45 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { AlertCircle, Lock, Eye, EyeOff } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, type Query } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Состояние доступа хранит сервер: после ввода пароля сессия получает
+// разрешение на срок из профиля, отчёты без него отвечают 403
+interface ReportAccessState {
+  required: boolean;
+  unlocked: boolean;
+  expiresAt: string | null;
+}
+
+const ACCESS_KEY = ["/api/report-access"];
+
+// Запросы с суммами, которые зависят от доступа
+const isFinancialQuery = (query: Query) => {
+  const key = query.queryKey[0];
+  return (
+    typeof key === "string" &&
+    (key.startsWith("/api/reports/") || key.startsWith("/api/dashboard"))
+  );
+};
 
-interface UserProfile {
-  hasReportPassword: boolean;
+function applyAccess(state: ReportAccessState) {
+  queryClient.setQueryData(ACCESS_KEY, state);
+  queryClient.invalidateQueries({ predicate: isFinancialQuery });
 }
 
 interface ReportAccessContextType {
   isUnlocked: boolean;
   hasReportPassword: boolean | null;
   isLoading: boolean;
+  expiresAt: string | null;
   requestAccess: (onSuccess?: () => void, onCancel?: () => void) => void;
-  lock: () => void;
+  lock: () => Promise<void>;
 }
 
 const ReportAccessContext = createContext<ReportAccessContextType | null>(null);
 
-const SESSION_KEY = "report_access_unlocked";
-
 export function ReportAccessProvider({ children }: { children: ReactNode }) {
-  const [isUnlocked, setIsUnlocked] = useState(() => {
-    return sessionStorage.getItem(SESSION_KEY) === "true";
-  });
   const [showDialog, setShowDialog] = useState(false);
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
@@ -42,24 +59,27 @@ export function ReportAccessProvider({ children }: { children: ReactNode }) {
   const [onSuccessCallback, setOnSuccessCallback] = useState<(() => void) | null>(null);
   const [onCancelCallback, setOnCancelCallback] = useState<(() => void) | null>(null);
 
-  // Проверяем, установлен ли пароль у пользователя
-  const { data: profile, isLoading } = useQuery<UserProfile>({
-    queryKey: ["/api/profile"],
+  const { data: access, isLoading } = useQuery<ReportAccessState>({
+    queryKey: ACCESS_KEY,
   });
 
-  const hasReportPassword = profile?.hasReportPassword ?? null;
+  const hasReportPassword = access ? access.required : null;
+  const isUnlocked = !!access?.unlocked;
+  const expiresAt = access?.expiresAt ?? null;
 
-  // Если пароль не установлен — автоматически разблокируем
+  // Разрешение истекает на сервере — к этому моменту перечитываем состояние
   useEffect(() => {
-    if (hasReportPassword === false && !isUnlocked) {
-      setIsUnlocked(true);
-      sessionStorage.setItem(SESSION_KEY, "true");
-    }
-  }, [hasReportPassword, isUnlocked]);
+    if (!expiresAt) return;
+    const timer = setTimeout(() => {
+      queryClient.invalidateQueries({ queryKey: ACCESS_KEY });
+      queryClient.invalidateQueries({ predicate: isFinancialQuery });
+    }, Math.max(new Date(expiresAt).getTime() - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [expiresAt]);
 
   const requestAccess = useCallback((onSuccess?: () => void, onCancel?: () => void) => {
     // Если уже разблокировано или пароль не установлен
-    if (isUnlocked || hasReportPassword === false) {
+    if (isUnlocked) {
       onSuccess?.();
       return;
     }
@@ -70,11 +90,11 @@ export function ReportAccessProvider({ children }: { children: ReactNode }) {
     setPassword("");
     setError("");
     setShowPassword(false);
-  }, [isUnlocked, hasReportPassword]);
+  }, [isUnlocked]);
 
-  const lock = useCallback(() => {
-    setIsUnlocked(false);
-    sessionStorage.removeItem(SESSION_KEY);
+  const lock = useCallback(async () => {
+    const response = await apiRequest("POST", "/api/report-access/lock");
+    applyAccess(await response.json());
   }, []);
 
   const handleSubmit = useCallback(async () => {
@@ -97,8 +117,7 @@ export function ReportAccessProvider({ children }: { children: ReactNode }) {
       const result = await response.json();
 
       if (result.valid) {
-        setIsUnlocked(true);
-        sessionStorage.setItem(SESSION_KEY, "true");
+        applyAccess({ required: true, unlocked: true, expiresAt: result.expiresAt });
         setShowDialog(false);
         setPassword("");
         onSuccessCallback?.();
@@ -133,9 +152,10 @@ export function ReportAccessProvider({ children }: { children: ReactNode }) {
   return (
     <ReportAccessContext.Provider
       value={{
-        isUnlocked: isUnlocked || hasReportPassword === false,
+        isUnlocked,
         hasReportPassword,
         isLoading,
+        expiresAt,
         requestAccess,
         lock,
       }}
@@ -1,10 +1,12 @@
 import { useCallback, useRef, useMemo } from "react";
+import type { CoefficientWarning } from "@shared/schema";
 
 interface CoefficientCache {
   [key: string]: {
     coefficient: number;
     isFallbackCategory: boolean;
     warning?: string;
+    warnings: CoefficientWarning[];
   };
 }
 
@@ -44,6 +46,7 @@ export function useCoefficientCalculator() {
         coefficient: number;
         isFallbackCategory: boolean;
         warning?: string;
+        warnings: CoefficientWarning[];
       }) => void,
       onError?: (error: Error) => void,
       debounceMs: number = 500,
@@ -110,7 +113,9 @@ export function useCoefficientCalculator() {
           });
 
           if (!response.ok) {
-            throw new Error("Не удалось получить коэффициент");
+            // Размер вне таблицы и т.п. — сервер объясняет причину
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.message || "Не удалось получить коэффициент");
           }
 
           const data = await response.json();
@@ -121,6 +126,7 @@ export function useCoefficientCalculator() {
               coefficient: data.coefficient,
               isFallbackCategory: data.isFallbackCategory || false,
               warning: data.warning,
+              warnings: data.warnings || [],
             };
 
             onSuccess(cacheRef.current[cacheKey]);
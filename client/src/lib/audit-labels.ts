@@ -7,6 +7,13 @@ export const ENTITY_TYPE_LABELS: Record<string, string> = {
   order: "Заказ",
   finance: "Финансы",
   warehouse_receipt: "Поступление",
+  purchase_order: "Заказ поставщику",
+  coefficient_version: "Коэффициенты",
+  price_tier: "Прайс-лист",
+  quote: "Расчёт",
+  shipment: "Накладная",
+  sash_stage: "Этап створки",
+  installation: "Монтаж",
   dealer: "Дилер",
   supplier: "Поставщик",
   color: "Цвет",
@@ -16,6 +23,8 @@ export const ENTITY_TYPE_LABELS: Record<string, string> = {
   cashbox: "Касса",
   expense_type: "Тип расхода",
   multiplier: "Множитель",
+  staff: "Сотрудник",
+  report_access: "Доступ к отчётам",
 };
 
 export const ACTION_CONFIG: Record<
@@ -42,6 +51,11 @@ export const ACTION_CONFIG: Record<
     color: "text-amber-600 dark:text-amber-400",
     bgColor: "bg-amber-100 dark:bg-amber-900/30",
   },
+  unlock: {
+    label: "Разблокировка",
+    color: "text-violet-600 dark:text-violet-400",
+    bgColor: "bg-violet-100 dark:bg-violet-900/30",
+  },
 };
 
 const FIELD_LABELS: Record<string, Record<string, string>> = {
@@ -56,6 +70,10 @@ const FIELD_LABELS: Record<string, Record<string, string>> = {
     cashboxId: "Касса",
     orderNumber: "Номер заказа",
     dealerDebt: "Долг дилера",
+    reversedAt: "Дата отмены/возврата",
+    reversalReason: "Причина отмены/возврата",
+    materialsDisposition: "Материалы",
+    dueDate: "Срок",
   },
   dealer: {
     fullName: "ФИО",
@@ -66,6 +84,7 @@ const FIELD_LABELS: Record<string, Record<string, string>> = {
     login: "Логин",
     workshopRateRulon: "Тариф рулонные",
     workshopRateZebra: "Тариф зебра",
+    priceTierId: "Прайс-лист",
   },
   supplier: {
     name: "Название",
@@ -87,6 +106,68 @@ const FIELD_LABELS: Record<string, Record<string, string>> = {
     totalAmount: "Сумма",
     comment: "Комментарий",
   },
+  purchase_order: {
+    number: "Номер",
+    supplierId: "Поставщик",
+    date: "Дата",
+    expectedDate: "Ожидаемая дата",
+    status: "Статус",
+    total: "Сумма",
+    comment: "Комментарий",
+  },
+  coefficient_version: {
+    name: "Название",
+    effectiveFrom: "Действует с",
+    comment: "Комментарий",
+  },
+  quote: {
+    number: "Номер",
+    dealerId: "Дилер",
+    status: "Статус",
+    orderId: "Заказ",
+    revision: "Редакция",
+    total: "Сумма",
+    validUntil: "Действует до",
+    comment: "Комментарий",
+  },
+  shipment: {
+    number: "Номер",
+    orderId: "Заказ",
+    date: "Дата",
+    driverName: "Водитель",
+    recipientName: "Получатель",
+    signature: "Подпись",
+    signedAt: "Подписана",
+    comment: "Комментарий",
+  },
+  sash_stage: {
+    stage: "Этап",
+    completedAt: "Отмечено",
+    workerId: "Сотрудник",
+  },
+  installation: {
+    orderId: "Заказ",
+    installerId: "Монтажник",
+    date: "Дата",
+    timeFrom: "С",
+    timeTo: "До",
+    address: "Адрес",
+    status: "Статус",
+    comment: "Комментарий",
+    clientName: "Клиент",
+    hasPhoto: "Фото",
+    hasSignature: "Подпись клиента",
+    completedAt: "Завершён",
+  },
+  price_tier: {
+    name: "Название",
+    baseRateRulon: "Тариф рулонные",
+    baseRateZebra: "Тариф зебра",
+    categorySurcharges: "Надбавки по категориям",
+    volumeDiscounts: "Скидки за объём",
+    promotions: "Акции",
+    comment: "Комментарий",
+  },
   fabric: {
     name: "Название",
     type: "Тип",
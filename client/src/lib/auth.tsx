@@ -1,9 +1,23 @@
 import { createContext, useContext, useState, useEffect, useCallback } from "react";
-import type { User } from "@shared/schema";
+import type {
+  StaffRole,
+  PermissionResource,
+  PermissionAction,
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: StaffRole;
+  organizationName: string | null;
+}
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   isLoading: boolean;
+  can: (resource: PermissionResource, action?: PermissionAction) => boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name?: string) => Promise<void>;
   logout: () => Promise<void>;
@@ -13,7 +27,7 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const checkAuth = useCallback(async () => {
@@ -74,8 +88,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setUser(null);
   };
 
+  const can = useCallback(
+    (resource: PermissionResource, action: PermissionAction = "view") =>
+      hasPermission(user?.role, resource, action),
+    [user]
+  );
+
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, register, logout, checkAuth }}>
+    <AuthContext.Provider value={{ user, isLoading, can, login, register, logout, checkAuth }}>
       {children}
     </AuthContext.Provider>
   );
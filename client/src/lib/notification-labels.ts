@@ -0,0 +1,22 @@
+/**
+ * Русские названия типов и каналов уведомлений: лента уведомлений и
+ * страница настроек.
+ */
+
+import type { NotificationChannel, NotificationType } from "@shared/schema";
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  order_status: "Статус заказа",
+  low_stock: "Низкий остаток",
+  overdue_order: "Просрочка заказа",
+  overdue_payment: "Просрочка оплаты",
+  measurement_sent: "Замер из приложения",
+  quote_decision: "Ответ по расчёту",
+  installation_completed: "Монтаж завершён",
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "Только в CRM",
+  email: "CRM и письмо",
+  digest: "CRM и ежедневная сводка",
+};
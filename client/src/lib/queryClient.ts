@@ -4,12 +4,19 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 export class ApiError extends Error {
   errors?: string[];
   stockError?: boolean;
+  coefficientWarning?: boolean;
   
-  constructor(message: string, errors?: string[], stockError?: boolean) {
+  constructor(
+    message: string,
+    errors?: string[],
+    stockError?: boolean,
+    coefficientWarning?: boolean
+  ) {
     super(message);
     this.name = "ApiError";
     this.errors = errors;
     this.stockError = stockError;
+    this.coefficientWarning = coefficientWarning;
   }
 }
 
@@ -19,15 +26,17 @@ async function throwIfResNotOk(res: Response) {
     let message = text;
     let errors: string[] | undefined;
     let stockError: boolean | undefined;
+    let coefficientWarning: boolean | undefined;
     try {
       const json = JSON.parse(text);
       message = json.message || text;
       errors = json.errors;
       stockError = json.stockError;
+      coefficientWarning = json.coefficientWarning;
     } catch {
       // Not JSON, use as-is
     }
-    throw new ApiError(message, errors, stockError);
+    throw new ApiError(message, errors, stockError, coefficientWarning);
   }
 }
 
@@ -20,7 +20,7 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Plus, Pencil, Trash2, ArrowRight } from "lucide-react";
+import { Loader2, Plus, Pencil, Trash2, ArrowRight, LockOpen } from "lucide-react";
 import {
   ENTITY_TYPE_LABELS,
   ACTION_CONFIG,
@@ -40,6 +40,8 @@ interface AuditLog {
   createdAt: string;
   entityDisplayName: string;
   resolvedIds: Record<string, string>;
+  actorId: string | null;
+  actorName: string | null;
 }
 
 interface PaginatedResult {
@@ -53,6 +55,7 @@ const ACTION_ICONS: Record<string, React.ElementType> = {
   update: Pencil,
   delete: Trash2,
   status_change: ArrowRight,
+  unlock: LockOpen,
 };
 
 function ChangesTable({
@@ -309,6 +312,7 @@ export default function AuditLogPage() {
                           </div>
                           <span className="text-xs text-muted-foreground">
                             {config.label}
+                            {log.actorName && ` · ${log.actorName}`}
                           </span>
                         </div>
 
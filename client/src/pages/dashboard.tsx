@@ -1,6 +1,7 @@
 import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Layout } from "@/components/layout";
+import { useReportAccess } from "@/contexts/report-access-context";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -22,6 +23,7 @@ import {
   ChevronLeft,
   ChevronRight,
   Layers,
+  Lock,
   Scissors,
   TrendingUp,
   Users,
@@ -44,7 +46,7 @@ type LowStockItem = {
   quantity: number;
   minQuantity: number;
   unit: string;
-  lastPrice: number;
+  lastPrice: number | null;
 };
 
 type OverdueOrder = {
@@ -53,10 +55,12 @@ type OverdueOrder = {
   date: string;
   dueDate: string;
   status: string;
-  amount: number;
+  amount: number | null;
 };
 
+// Суммы приходят null, пока отчёты заблокированы паролем (financialsLocked)
 type DashboardData = {
+  financialsLocked: boolean;
   lowStock: LowStockItem[];
   orders: {
     today: number;
@@ -65,14 +69,14 @@ type DashboardData = {
   };
   salesMonth: {
     ordersCount: number;
-    totalAmount: number;
+    totalAmount: number | null;
   };
   sashes: {
     created: number;
     sold: number;
   };
   overduePayments: {
-    totalAmount: number;
+    totalAmount: number | null;
     count: number;
   };
   overdueOrders: OverdueOrder[];
@@ -85,13 +89,14 @@ type DashboardData = {
 };
 
 type ChartData = {
+  financialsLocked: boolean;
   months: {
     month: string;
-    sales: number;
-    profit: number;
+    sales: number | null;
+    profit: number | null;
     orders: number;
-    income: number;
-    expense: number;
+    income: number | null;
+    expense: number | null;
   }[];
   topDealers: {
     name: string;
@@ -101,7 +106,7 @@ type ChartData = {
   topFabrics: {
     name: string;
     count: number;
-    sales: number;
+    sales: number | null;
   }[];
 };
 
@@ -120,7 +125,8 @@ const MONTH_NAMES = [
   "Декабрь",
 ];
 
-function formatCurrency(value: number) {
+function formatCurrency(value: number | null) {
+  if (value === null) return "•••";
   return new Intl.NumberFormat("ru-RU", {
     style: "currency",
     currency: "RUB",
@@ -162,6 +168,7 @@ export default function DashboardPage() {
   const [selectedMonth, setSelectedMonth] = useState(now.getMonth() + 1);
 
   const monthOptions = useMemo(() => getMonthOptions(), []);
+  const { requestAccess } = useReportAccess();
 
   const { data, isLoading, isError, refetch } = useQuery<DashboardData>({
     queryKey: ["/api/dashboard", selectedYear, selectedMonth],
@@ -265,7 +272,7 @@ export default function DashboardPage() {
         title: "Просроченные оплаты",
         value: formatCurrency(data.overduePayments.totalAmount),
         hint: `${data.overduePayments.count} дилеров`,
-        tone: data.overduePayments.totalAmount > 0 ? "warning" : "default",
+        tone: data.overduePayments.count > 0 ? "warning" : "default",
       },
       {
         title: "Створок создано",
@@ -341,6 +348,16 @@ export default function DashboardPage() {
     );
   };
 
+  const renderLockedFigures = (height: string) => (
+    <div className={`${height} flex flex-col items-center justify-center gap-3 text-muted-foreground`}>
+      <Lock className="h-5 w-5" />
+      <span className="text-sm">Суммы доступны после ввода пароля отчётов</span>
+      <Button variant="outline" size="sm" onClick={() => requestAccess()}>
+        Ввести пароль
+      </Button>
+    </div>
+  );
+
   const renderLowStock = () => {
     if (isLoading) {
       return <Skeleton className="h-40 w-full" />;
@@ -516,6 +533,19 @@ export default function DashboardPage() {
         </Alert>
       )}
 
+      {data?.financialsLocked && (
+        <Alert className="mb-4">
+          <Lock className="h-4 w-4" />
+          <AlertTitle>Суммы скрыты</AlertTitle>
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+            Финансовые показатели защищены паролем отчётов.
+            <Button variant="outline" size="sm" onClick={() => requestAccess()}>
+              Ввести пароль
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <section className="space-y-3">{renderKpiCards()}</section>
 
       <Separator className="my-5" />
@@ -554,6 +584,8 @@ export default function DashboardPage() {
           <CardContent>
             {chartsLoading ? (
               <Skeleton className="h-[300px] w-full" />
+            ) : chartData?.financialsLocked ? (
+              renderLockedFigures("h-[300px]")
             ) : chartData?.months ? (
               <ResponsiveContainer width="100%" height={300}>
                 <AreaChart data={chartData.months}>
@@ -622,6 +654,8 @@ export default function DashboardPage() {
           <CardContent>
             {chartsLoading ? (
               <Skeleton className="h-[300px] w-full" />
+            ) : chartData?.financialsLocked ? (
+              renderLockedFigures("h-[300px]")
             ) : chartData?.topDealers && chartData.topDealers.length > 0 ? (
               <ResponsiveContainer width="100%" height={300}>
                 <BarChart data={chartData.topDealers} layout="vertical">
@@ -0,0 +1,530 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { Camera, CheckCircle2, Loader2, MapPin, Plus, Route } from "lucide-react";
+import { Layout } from "@/components/layout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { InstallationJob, InstallationJobStatus } from "@shared/schema";
+import { SignaturePad } from "./orders/signature-pad";
+
+type JobListItem = Omit<InstallationJob, "photo" | "clientSignature"> & {
+  orderNumber: number;
+  installerName: string | null;
+  hasPhoto: boolean;
+  hasSignature: boolean;
+};
+
+interface Installer {
+  id: string;
+  name: string;
+}
+
+interface InstallableOrder {
+  id: string;
+  orderNumber: number;
+  status: string | null;
+  address: string | null;
+}
+
+interface JobFormState {
+  orderId: string;
+  installerId: string;
+  date: string;
+  timeFrom: string;
+  timeTo: string;
+  address: string;
+  comment: string;
+}
+
+const STATUS_LABELS: Record<InstallationJobStatus, string> = {
+  scheduled: "Назначен",
+  completed: "Смонтирован",
+  cancelled: "Снят",
+};
+
+const ALL = "all";
+// Фото монтажа ужимаем на устройстве — в базу уходит JPEG до 1600px
+const PHOTO_MAX_SIZE = 1600;
+
+const todayStr = () => new Date().toISOString().split("T")[0];
+
+const hasCoords = (job: JobListItem) => !!job.latitude && !!job.longitude;
+
+const pointOf = (job: JobListItem) =>
+  `${parseFloat(job.latitude!)},${parseFloat(job.longitude!)}`;
+
+// Маршрут по точкам в порядке слотов — открывается в Яндекс Картах
+function routeUrl(jobs: JobListItem[]): string {
+  return `https://yandex.ru/maps/?rtext=${jobs.map(pointOf).join("~")}&rtt=auto`;
+}
+
+function compressPhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(file);
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, PHOTO_MAX_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      canvas.getContext("2d")?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", 0.8));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Не удалось прочитать фото"));
+    };
+    img.src = url;
+  });
+}
+
+const emptyForm = (date: string): JobFormState => ({
+  orderId: "",
+  installerId: "",
+  date,
+  timeFrom: "09:00",
+  timeTo: "11:00",
+  address: "",
+  comment: "",
+});
+
+export default function InstallationsPage() {
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const canSchedule = can("orders", "edit");
+  const canComplete = can("installations", "edit");
+  const isInstaller = user?.role === "installer";
+
+  const [date, setDate] = useState(todayStr);
+  const [installerFilter, setInstallerFilter] = useState(ALL);
+  const [editingJob, setEditingJob] = useState<JobListItem | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<JobFormState>(() => emptyForm(todayStr()));
+  const [completingJob, setCompletingJob] = useState<JobListItem | null>(null);
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [clientName, setClientName] = useState("");
+  const [signature, setSignature] = useState<string | null>(null);
+
+  const listKey = ["/api/installations", date, installerFilter];
+  const { data: jobs = [], isLoading } = useQuery<JobListItem[]>({
+    queryKey: listKey,
+    queryFn: async () => {
+      const params = new URLSearchParams({ date, installerId: installerFilter });
+      const res = await fetch(`/api/installations?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Ошибка загрузки");
+      return res.json();
+    },
+  });
+
+  const { data: installers = [] } = useQuery<Installer[]>({
+    queryKey: ["/api/installations/installers"],
+    enabled: !isInstaller,
+  });
+
+  const { data: installableOrders = [] } = useQuery<InstallableOrder[]>({
+    queryKey: ["/api/installations/orders"],
+    enabled: canSchedule && formOpen,
+  });
+
+  const onError = (e: Error) =>
+    toast({ title: "Ошибка", description: e.message, variant: "destructive" });
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/installations"] });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editingJob
+        ? apiRequest("PATCH", `/api/installations/${editingJob.id}`, form)
+        : apiRequest("POST", "/api/installations", form),
+    onSuccess: () => {
+      invalidate();
+      setFormOpen(false);
+      toast({ title: editingJob ? "Выезд перенесён" : "Монтаж назначен" });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/installations/${id}/cancel`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Выезд снят с графика" });
+    },
+    onError,
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/installations/${completingJob!.id}/complete`, {
+        photo,
+        clientName,
+        clientSignature: signature,
+      }),
+    onSuccess: () => {
+      invalidate();
+      setCompletingJob(null);
+      toast({ title: "Монтаж завершён", description: "Дилер получил уведомление" });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditingJob(null);
+    setForm(emptyForm(date));
+    setFormOpen(true);
+  };
+
+  const openEdit = (job: JobListItem) => {
+    setEditingJob(job);
+    setForm({
+      orderId: job.orderId,
+      installerId: job.installerId,
+      date: job.date,
+      timeFrom: job.timeFrom,
+      timeTo: job.timeTo,
+      address: job.address || "",
+      comment: job.comment || "",
+    });
+    setFormOpen(true);
+  };
+
+  const openComplete = (job: JobListItem) => {
+    setPhoto(null);
+    setClientName("");
+    setSignature(null);
+    setCompletingJob(job);
+  };
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setPhoto(await compressPhoto(file));
+    } catch (err) {
+      onError(err as Error);
+    }
+  };
+
+  const selectOrder = (orderId: string) => {
+    const order = installableOrders.find((o) => o.id === orderId);
+    setForm((prev) => ({ ...prev, orderId, address: order?.address || prev.address }));
+  };
+
+  const routeJobs = jobs.filter((j) => j.status !== "cancelled" && hasCoords(j));
+
+  return (
+    <Layout title="Монтаж">
+      <div className="max-w-3xl space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="installation-date">Дата</Label>
+            <Input
+              id="installation-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value || todayStr())}
+              className="w-44"
+              data-testid="input-installation-date"
+            />
+          </div>
+          {!isInstaller && (
+            <div className="space-y-1 w-56">
+              <Label>Монтажник</Label>
+              <Select value={installerFilter} onValueChange={setInstallerFilter}>
+                <SelectTrigger data-testid="select-installer-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Все монтажники</SelectItem>
+                  {installers.map((i) => (
+                    <SelectItem key={i.id} value={i.id}>
+                      {i.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="flex gap-2 ml-auto">
+            {routeJobs.length > 0 && (
+              <Button variant="outline" asChild>
+                <a href={routeUrl(routeJobs)} target="_blank" rel="noreferrer">
+                  <Route className="h-4 w-4 mr-2" />
+                  Маршрут дня
+                </a>
+              </Button>
+            )}
+            {canSchedule && (
+              <Button onClick={openCreate} data-testid="button-add-installation">
+                <Plus className="h-4 w-4 mr-2" />
+                Назначить
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            На {format(new Date(date), "d MMMM", { locale: ru })} выездов нет
+          </p>
+        ) : (
+          jobs.map((job) => (
+            <Card key={job.id} className={job.status === "cancelled" ? "opacity-60" : ""}>
+              <CardContent className="pt-6 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="font-medium">
+                    {job.timeFrom}–{job.timeTo} · Заказ №{job.orderNumber}
+                  </div>
+                  <Badge variant={job.status === "completed" ? "default" : "secondary"}>
+                    {STATUS_LABELS[job.status as InstallationJobStatus] ?? job.status}
+                  </Badge>
+                </div>
+                <div className="text-sm text-muted-foreground space-y-1">
+                  {!isInstaller && <div>{job.installerName || "—"}</div>}
+                  <div className="flex items-center gap-1">
+                    <MapPin className="h-3.5 w-3.5 shrink-0" />
+                    {hasCoords(job) ? (
+                      <a
+                        href={`https://yandex.ru/maps/?pt=${parseFloat(job.longitude!)},${parseFloat(
+                          job.latitude!
+                        )}&z=17`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="underline"
+                      >
+                        {job.address || pointOf(job)}
+                      </a>
+                    ) : (
+                      <span>{job.address || "Адрес не указан"}</span>
+                    )}
+                  </div>
+                  {job.comment && <div className="italic">{job.comment}</div>}
+                  {job.status === "completed" && (
+                    <div className="flex items-center gap-1 text-green-700 dark:text-green-400">
+                      <CheckCircle2 className="h-3.5 w-3.5" />
+                      {job.clientName}
+                      {job.completedAt &&
+                        ` · ${format(new Date(job.completedAt), "dd.MM HH:mm")}`}
+                    </div>
+                  )}
+                </div>
+                {job.status === "scheduled" && (canComplete || canSchedule) && (
+                  <div className="flex gap-2 pt-1">
+                    {canComplete && (
+                      <Button
+                        size="sm"
+                        onClick={() => openComplete(job)}
+                        data-testid={`button-complete-installation-${job.id}`}
+                      >
+                        Завершить
+                      </Button>
+                    )}
+                    {canSchedule && (
+                      <>
+                        <Button size="sm" variant="outline" onClick={() => openEdit(job)}>
+                          Перенести
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => cancelMutation.mutate(job.id)}
+                          disabled={cancelMutation.isPending}
+                        >
+                          Снять
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingJob ? `Перенос выезда — заказ №${editingJob.orderNumber}` : "Назначить монтаж"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            {!editingJob && (
+              <div className="space-y-1">
+                <Label>Заказ</Label>
+                <Select value={form.orderId} onValueChange={selectOrder}>
+                  <SelectTrigger data-testid="select-installation-order">
+                    <SelectValue placeholder="Отгруженный заказ" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {installableOrders.map((o) => (
+                      <SelectItem key={o.id} value={o.id}>
+                        {`№${o.orderNumber}${o.address ? ` · ${o.address}` : ""}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Монтажник</Label>
+              <Select
+                value={form.installerId}
+                onValueChange={(installerId) => setForm((prev) => ({ ...prev, installerId }))}
+              >
+                <SelectTrigger data-testid="select-installation-installer">
+                  <SelectValue placeholder="Выберите монтажника" />
+                </SelectTrigger>
+                <SelectContent>
+                  {installers.map((i) => (
+                    <SelectItem key={i.id} value={i.id}>
+                      {i.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {installers.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Добавьте сотрудника с ролью «Монтажник» в разделе «Сотрудники»
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="job-date">Дата</Label>
+                <Input
+                  id="job-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm((prev) => ({ ...prev, date: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="job-time-from">С</Label>
+                <Input
+                  id="job-time-from"
+                  type="time"
+                  value={form.timeFrom}
+                  onChange={(e) => setForm((prev) => ({ ...prev, timeFrom: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="job-time-to">До</Label>
+                <Input
+                  id="job-time-to"
+                  type="time"
+                  value={form.timeTo}
+                  onChange={(e) => setForm((prev) => ({ ...prev, timeTo: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="job-address">Адрес</Label>
+              <Input
+                id="job-address"
+                value={form.address}
+                onChange={(e) => setForm((prev) => ({ ...prev, address: e.target.value }))}
+                placeholder="Из замера"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="job-comment">Комментарий</Label>
+              <Input
+                id="job-comment"
+                value={form.comment}
+                onChange={(e) => setForm((prev) => ({ ...prev, comment: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending}
+              data-testid="button-save-installation"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!completingJob} onOpenChange={(open) => !open && setCompletingJob(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Монтаж — заказ №{completingJob?.orderNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="installation-photo">Фото готового монтажа</Label>
+              <Input
+                id="installation-photo"
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={handlePhoto}
+                data-testid="input-installation-photo"
+              />
+              {photo ? (
+                <img src={photo} alt="Фото монтажа" className="max-h-48 rounded-md border" />
+              ) : (
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Camera className="h-3.5 w-3.5" />
+                  Сфотографируйте установленные шторы
+                </p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="installation-client">Клиент</Label>
+              <Input
+                id="installation-client"
+                value={clientName}
+                onChange={(e) => setClientName(e.target.value)}
+                placeholder="ФИО клиента"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Подпись клиента</Label>
+              <SignaturePad onChange={setSignature} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => completeMutation.mutate()}
+              disabled={!photo || !clientName.trim() || !signature || completeMutation.isPending}
+              data-testid="button-confirm-installation"
+            >
+              {completeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Монтаж завершён
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
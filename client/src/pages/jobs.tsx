@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Layout } from "@/components/layout";
+import { DataTable } from "@/components/data-table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Play } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { JobRun, JobRunStatus, JobRunTrigger } from "@shared/schema";
+
+interface JobRow {
+  name: string;
+  title: string;
+  description: string;
+  intervalMs: number;
+  maxAttempts: number;
+  enabled: boolean;
+  nextRunAt: string | null;
+  running: boolean;
+  lastRunAt: string | null;
+  lastStatus: JobRunStatus | null;
+  lastError: string | null;
+  failures: number;
+  lastRun: JobRun | null;
+}
+
+const STATUS_LABELS: Record<JobRunStatus, string> = {
+  running: "Выполняется",
+  succeeded: "Успешно",
+  failed: "Ошибка",
+};
+
+const TRIGGER_LABELS: Record<JobRunTrigger, string> = {
+  schedule: "По расписанию",
+  retry: "Повтор",
+  manual: "Вручную",
+};
+
+const RESULT_LABELS: Record<string, string> = {
+  notified: "уведомлений",
+  dealerNotified: "дилерам",
+  emails: "писем",
+  notifications: "уведомлений в письмах",
+  idempotencyKeys: "ключей повторов",
+  jobRuns: "записей истории",
+};
+
+const ALL_JOBS = "all";
+// Пока задача выполняется, список обновляется чаще
+const POLL_MS = 3000;
+
+const fmtDateTime = (v: string | Date | null) =>
+  v ? format(new Date(v), "dd.MM.yyyy HH:mm") : "—";
+
+function fmtInterval(ms: number) {
+  const minutes = Math.round(ms / 60000);
+  if (minutes % (24 * 60) === 0) return `раз в ${minutes / (24 * 60)} дн.`;
+  if (minutes % 60 === 0) return `раз в ${minutes / 60} ч`;
+  return `раз в ${minutes} мин`;
+}
+
+function fmtDuration(ms: number | null) {
+  if (ms == null) return "—";
+  return ms < 1000 ? `${ms} мс` : `${(ms / 1000).toFixed(1)} с`;
+}
+
+function fmtResult(result: string | null) {
+  if (!result) return "—";
+  try {
+    const counts = JSON.parse(result) as Record<string, number>;
+    return Object.entries(counts)
+      .map(([key, value]) => `${RESULT_LABELS[key] ?? key}: ${value}`)
+      .join(", ");
+  } catch {
+    return result;
+  }
+}
+
+function StatusBadge({ status }: { status: JobRunStatus | null }) {
+  if (!status) return <span className="text-muted-foreground">—</span>;
+  const variant =
+    status === "failed" ? "destructive" : status === "running" ? "secondary" : "default";
+  return <Badge variant={variant}>{STATUS_LABELS[status]}</Badge>;
+}
+
+export default function JobsPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canRun = can("settings", "edit");
+  const [jobFilter, setJobFilter] = useState(ALL_JOBS);
+
+  const { data: jobs = [], isLoading } = useQuery<JobRow[]>({
+    queryKey: ["/api/jobs"],
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => job.running) ? POLL_MS : false,
+  });
+
+  const runsUrl =
+    jobFilter === ALL_JOBS
+      ? "/api/jobs/runs"
+      : `/api/jobs/runs?job=${encodeURIComponent(jobFilter)}`;
+  const { data: runs = [], isLoading: runsLoading } = useQuery<JobRun[]>({
+    queryKey: [runsUrl],
+    refetchInterval: (query) =>
+      query.state.data?.some((run) => run.status === "running") ? POLL_MS : false,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    queryClient.invalidateQueries({
+      predicate: (q) => String(q.queryKey[0]).startsWith("/api/jobs/runs"),
+    });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: (name: string) => apiRequest("POST", `/api/jobs/${name}/run`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Задача запущена" });
+    },
+    onError: (e: Error) =>
+      toast({
+        title: "Ошибка",
+        description: e.message,
+        variant: "destructive",
+      }),
+  });
+
+  const jobTitle = (name: string) => jobs.find((job) => job.name === name)?.title ?? name;
+
+  return (
+    <Layout title="Фоновые задачи">
+      <div className="space-y-6">
+        <DataTable
+          columns={[
+            {
+              key: "title",
+              header: "Задача",
+              cell: (job: JobRow) => (
+                <div>
+                  <div className="font-medium">{job.title}</div>
+                  <div className="text-xs text-muted-foreground">{job.description}</div>
+                </div>
+              ),
+            },
+            {
+              key: "interval",
+              header: "Расписание",
+              cell: (job: JobRow) =>
+                job.enabled ? fmtInterval(job.intervalMs) : "Отключена",
+            },
+            {
+              key: "status",
+              header: "Последний запуск",
+              cell: (job: JobRow) => (
+                <div className="space-y-1">
+                  <StatusBadge status={job.running ? "running" : job.lastStatus} />
+                  <div className="text-xs text-muted-foreground">
+                    {fmtDateTime(job.lastRunAt)}
+                  </div>
+                  {job.lastError && (
+                    <div className="text-xs text-destructive">{job.lastError}</div>
+                  )}
+                  {job.failures > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      {`Попытка ${job.failures + 1} из ${job.maxAttempts}`}
+                    </div>
+                  )}
+                </div>
+              ),
+            },
+            {
+              key: "nextRunAt",
+              header: "Следующий запуск",
+              cell: (job: JobRow) => (job.enabled ? fmtDateTime(job.nextRunAt) : "—"),
+            },
+            {
+              key: "actions",
+              header: "",
+              className: "text-right",
+              cell: (job: JobRow) =>
+                canRun && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={job.running || runMutation.isPending}
+                    onClick={() => runMutation.mutate(job.name)}
+                    data-testid={`button-run-job-${job.name}`}
+                  >
+                    {job.running ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Play className="h-4 w-4 mr-2" />
+                    )}
+                    Запустить
+                  </Button>
+                ),
+            },
+          ]}
+          data={jobs}
+          isLoading={isLoading}
+          emptyMessage="Задачи не зарегистрированы"
+          getRowKey={(job) => job.name}
+        />
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-lg font-semibold">История запусков</h2>
+            <Select value={jobFilter} onValueChange={setJobFilter}>
+              <SelectTrigger className="w-[260px]" data-testid="select-job-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_JOBS}>Все задачи</SelectItem>
+                {jobs.map((job) => (
+                  <SelectItem key={job.name} value={job.name}>
+                    {job.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DataTable
+            columns={[
+              {
+                key: "startedAt",
+                header: "Начало",
+                cell: (run: JobRun) => fmtDateTime(run.startedAt),
+              },
+              {
+                key: "jobName",
+                header: "Задача",
+                cell: (run: JobRun) => jobTitle(run.jobName),
+              },
+              {
+                key: "trigger",
+                header: "Запуск",
+                cell: (run: JobRun) => {
+                  const label = TRIGGER_LABELS[run.trigger as JobRunTrigger] ?? run.trigger;
+                  return run.attempt > 1 ? `${label}, попытка ${run.attempt}` : label;
+                },
+              },
+              {
+                key: "status",
+                header: "Статус",
+                cell: (run: JobRun) => <StatusBadge status={run.status as JobRunStatus} />,
+              },
+              {
+                key: "durationMs",
+                header: "Длительность",
+                cell: (run: JobRun) => fmtDuration(run.durationMs),
+              },
+              {
+                key: "result",
+                header: "Результат",
+                cell: (run: JobRun) =>
+                  run.error ? (
+                    <span className="text-destructive">{run.error}</span>
+                  ) : (
+                    fmtResult(run.result)
+                  ),
+              },
+            ]}
+            data={runs}
+            isLoading={runsLoading}
+            emptyMessage="Запусков пока не было"
+            getRowKey={(run) => run.id}
+          />
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -10,17 +10,22 @@ import {
 } from "@dnd-kit/core";
 import { Layout } from "@/components/layout";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Scissors } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { ORDER_STATUSES, type OrderStatus } from "@shared/schema";
+import { ACTIVE_ORDER_STATUSES, type OrderStatus } from "@shared/schema";
+import { getOrderStatusRejection } from "@shared/order-status";
 import type { OrderWithRelations } from "../orders/types";
 import { ViewOrderDialog } from "../orders/view-order-dialog";
+import { CuttingDialog } from "../orders/cutting-dialog";
 import { KanbanColumn } from "./kanban-column";
 
 export default function KanbanPage() {
   const { toast } = useToast();
   const [viewingOrder, setViewingOrder] = useState<OrderWithRelations | null>(null);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
+  const [isBatchCuttingOpen, setIsBatchCuttingOpen] = useState(false);
 
   // Local optimistic state
   const [optimisticUpdates, setOptimisticUpdates] = useState<
@@ -50,6 +55,7 @@ export default function KanbanPage() {
       apiRequest("PATCH", `/api/orders/${id}/status`, { status }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/charts"] });
     },
@@ -75,6 +81,8 @@ export default function KanbanPage() {
       "В производстве": [],
       "Готов": [],
       "Отгружен": [],
+      "Отменён": [],
+      "Возврат": [],
     };
 
     for (const order of orders) {
@@ -101,6 +109,12 @@ export default function KanbanPage() {
       optimisticUpdates[orderId] || (order.status as OrderStatus) || "Новый";
     if (currentStatus === newStatus) return;
 
+    const rejection = getOrderStatusRejection(currentStatus, newStatus);
+    if (rejection) {
+      toast({ title: "Переход недоступен", description: rejection, variant: "destructive" });
+      return;
+    }
+
     // Optimistic update
     setOptimisticUpdates((prev) => ({ ...prev, [orderId]: newStatus }));
 
@@ -123,9 +137,20 @@ export default function KanbanPage() {
 
   return (
     <Layout title="Канбан">
+      <div className="flex justify-end mb-4">
+        <Button
+          variant="outline"
+          onClick={() => setIsBatchCuttingOpen(true)}
+          data-testid="button-batch-cutting"
+        >
+          <Scissors className="h-4 w-4 mr-2" />
+          Раскрой партии
+        </Button>
+      </div>
+
       {isLoading ? (
         <div className="flex gap-4 overflow-x-auto pb-4">
-          {ORDER_STATUSES.map((status) => (
+          {ACTIVE_ORDER_STATUSES.map((status) => (
             <div key={status} className="min-w-[280px] w-[280px] shrink-0 space-y-3">
               <Skeleton className="h-8 w-full rounded-lg" />
               <Skeleton className="h-24 w-full rounded-lg" />
@@ -137,7 +162,8 @@ export default function KanbanPage() {
       ) : (
         <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
           <div className="flex gap-4 overflow-x-auto pb-4">
-            {ORDER_STATUSES.map((status) => (
+            {/* Отменённые и возвраты на доске не показываются */}
+            {ACTIVE_ORDER_STATUSES.map((status) => (
               <KanbanColumn
                 key={status}
                 status={status}
@@ -154,6 +180,13 @@ export default function KanbanPage() {
         onOpenChange={setIsViewDialogOpen}
         order={viewingOrder}
       />
+
+      <CuttingDialog
+        open={isBatchCuttingOpen}
+        onOpenChange={setIsBatchCuttingOpen}
+        orderId={null}
+        batch
+      />
     </Layout>
   );
 }
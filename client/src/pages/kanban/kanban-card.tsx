@@ -3,9 +3,17 @@ import { CSS } from "@dnd-kit/utilities";
 import { Card, CardContent } from "@/components/ui/card";
 import { StatusBadge, formatCurrency } from "@/components/status-badge";
 import { format } from "date-fns";
-import type { OrderStatus } from "@shared/schema";
+import { SASH_STAGES, type OrderStatus, type SashStage } from "@shared/schema";
 import type { OrderWithRelations } from "../orders/types";
 
+// Прогресс цеха на карточке: "5/8 собрано"
+const STAGE_PROGRESS_LABELS: Record<SashStage, string> = {
+  cut: "раскроено",
+  assembled: "собрано",
+  qc_passed: "прошло ОТК",
+  packed: "упаковано",
+};
+
 interface KanbanCardProps {
   order: OrderWithRelations;
   onClick: (order: OrderWithRelations) => void;
@@ -27,6 +35,13 @@ export function KanbanCard({ order, onClick }: KanbanCardProps) {
 
   const isProduct = order.orderType === "product";
 
+  // Самый дальний этап, до которого дошла хоть одна створка
+  const progressStage = order.stageProgress
+    ? SASH_STAGES.slice()
+        .reverse()
+        .find((stage) => order.stageProgress![stage] > 0)
+    : undefined;
+
   return (
     <div
       ref={setNodeRef}
@@ -60,12 +75,22 @@ export function KanbanCard({ order, onClick }: KanbanCardProps) {
           </div>
 
           <div className="flex items-center justify-between text-xs text-muted-foreground">
-            <span>{format(new Date(order.date), "dd.MM.yyyy")}</span>
+            <span>
+              {format(new Date(order.date), "dd.MM.yyyy")}
+              {order.dueDate && ` · срок ${format(new Date(order.dueDate), "dd.MM")}`}
+            </span>
             {!isProduct && order.sashesCount != null && order.sashesCount > 0 && (
               <span>{order.sashesCount} шт.</span>
             )}
           </div>
 
+          {!isProduct && order.status === "В производстве" && progressStage && (
+            <div className="text-xs font-medium text-blue-600 dark:text-blue-400">
+              {order.stageProgress![progressStage]}/{order.sashesCount}{" "}
+              {STAGE_PROGRESS_LABELS[progressStage]}
+            </div>
+          )}
+
           <div className="text-sm font-medium text-right">
             {formatCurrency(order.salePrice)} ₸
           </div>
@@ -11,6 +11,8 @@ const columnColors: Record<OrderStatus, string> = {
   "В производстве": "bg-amber-500",
   "Готов": "bg-green-500",
   "Отгружен": "bg-gray-500",
+  "Отменён": "bg-red-500",
+  "Возврат": "bg-purple-500",
 };
 
 interface KanbanColumnProps {
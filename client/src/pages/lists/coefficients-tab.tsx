@@ -0,0 +1,526 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { DataTable } from "@/components/data-table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import {
+  Plus,
+  Trash2,
+  Loader2,
+  Pencil,
+  Table2,
+  Upload,
+  Save,
+  Lock,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  coefficientVersionFormSchema,
+  type CoefficientVersion,
+} from "@shared/schema";
+
+interface CoefficientVersionRow extends CoefficientVersion {
+  isActive: boolean;
+  ordersCount: number;
+}
+
+interface CoefficientGridRow {
+  id: string;
+  versionId: string;
+  systemKey: string;
+  sourceSheet: string | null;
+  category: string;
+  title: string | null;
+  widths: number[];
+  heights: number[];
+  values: number[][];
+}
+
+type VersionForm = { name: string; effectiveFrom: string; comment?: string | null };
+
+const VERSIONS_KEY = ["/api/coefficients/versions"];
+
+function versionStatus(v: CoefficientVersionRow) {
+  if (v.isActive) return <Badge>Действует</Badge>;
+  if (v.effectiveFrom > format(new Date(), "yyyy-MM-dd")) {
+    return <Badge variant="outline">Запланирована</Badge>;
+  }
+  return <Badge variant="secondary">Архив</Badge>;
+}
+
+// Таблицы коэффициентов: версии с датой начала действия, правка сеток
+// и импорт книги XLSX. Без версий считается по стандартной таблице.
+export function CoefficientsTab({ search }: { search: string }) {
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<"create" | "import" | null>(null);
+  const [editing, setEditing] = useState<CoefficientVersionRow | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const { data: versions = [], isLoading } = useQuery<CoefficientVersionRow[]>({
+    queryKey: VERSIONS_KEY,
+  });
+
+  const form = useForm<VersionForm>({
+    resolver: zodResolver(coefficientVersionFormSchema),
+    defaultValues: { name: "", effectiveFrom: "", comment: "" },
+  });
+
+  const closeDialog = () => {
+    setDialog(null);
+    setEditing(null);
+    form.reset({ name: "", effectiveFrom: "", comment: "" });
+  };
+
+  const onError = (e: Error) =>
+    toast({ title: "Ошибка", description: e.message, variant: "destructive" });
+
+  const createMutation = useMutation({
+    mutationFn: (data: VersionForm) =>
+      apiRequest("POST", "/api/coefficients/versions", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: VERSIONS_KEY });
+      closeDialog();
+      toast({ title: "Версия создана", description: "Скопирована действующая таблица" });
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async ({ data, file }: { data: VersionForm; file: File }) => {
+      const params = new URLSearchParams({
+        name: data.name,
+        effectiveFrom: data.effectiveFrom,
+        comment: data.comment || "",
+      });
+      const res = await fetch(`/api/coefficients/versions/import?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: file,
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.message || "Не удалось импортировать файл");
+      return body as { importedSystems: string[]; skippedSheets: string[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: VERSIONS_KEY });
+      closeDialog();
+      toast({
+        title: "Таблицы импортированы",
+        description:
+          `Системы: ${result.importedSystems.join(", ")}` +
+          (result.skippedSheets.length > 0
+            ? `. Пропущены листы: ${result.skippedSheets.join(", ")}`
+            : ""),
+      });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: VersionForm }) =>
+      apiRequest("PATCH", `/api/coefficients/versions/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: VERSIONS_KEY });
+      closeDialog();
+      toast({ title: "Версия обновлена" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      apiRequest("DELETE", `/api/coefficients/versions/${id}`),
+    onSuccess: (_res, id) => {
+      queryClient.invalidateQueries({ queryKey: VERSIONS_KEY });
+      if (selectedId === id) setSelectedId(null);
+      toast({ title: "Версия удалена" });
+    },
+    onError,
+  });
+
+  const onSubmit = (data: VersionForm) => {
+    if (editing) {
+      updateMutation.mutate({ id: editing.id, data });
+    } else if (dialog === "import") {
+      const file = fileRef.current?.files?.[0];
+      if (!file) {
+        toast({ title: "Выберите файл XLSX", variant: "destructive" });
+        return;
+      }
+      importMutation.mutate({ data, file });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const openEdit = (v: CoefficientVersionRow) => {
+    setEditing(v);
+    form.reset({ name: v.name, effectiveFrom: v.effectiveFrom, comment: v.comment || "" });
+    setDialog("create");
+  };
+
+  const isPending =
+    createMutation.isPending || importMutation.isPending || updateMutation.isPending;
+  const filtered = versions.filter((v) =>
+    v.name.toLowerCase().includes(search.toLowerCase())
+  );
+  const selected = versions.find((v) => v.id === selectedId) || null;
+
+  return (
+    <>
+      <div className="flex justify-between items-center gap-2 mb-4">
+        <p className="text-sm text-muted-foreground">
+          {versions.some((v) => v.isActive)
+            ? "Цены считаются по действующей версии"
+            : "Своих действующих таблиц нет — используется стандартная таблица"}
+        </p>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setDialog("import")}
+            data-testid="button-import-coefficients"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Импорт XLSX
+          </Button>
+          <Button onClick={() => setDialog("create")} data-testid="button-add-coefficient-version">
+            <Plus className="h-4 w-4 mr-2" />
+            Новая версия
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing
+                ? "Редактировать версию"
+                : dialog === "import"
+                  ? "Импорт таблиц из XLSX"
+                  : "Новая версия коэффициентов"}
+            </DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Название</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Прайс с 1 марта" {...field} data-testid="input-version-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="effectiveFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Действует с</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-version-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="comment"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Комментарий</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ""} data-testid="input-version-comment" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {dialog === "import" && !editing && (
+                <div className="space-y-1">
+                  <Input
+                    ref={fileRef}
+                    type="file"
+                    accept=".xlsx"
+                    data-testid="input-coefficients-file"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Листы книги — системы (как в исходной таблице), на листе блоки
+                    «E категория …» со строкой ширин и столбцом высот. Системы, которых
+                    нет в книге, копируются из действующей таблицы.
+                  </p>
+                </div>
+              )}
+              <Button type="submit" className="w-full" disabled={isPending}>
+                {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editing ? "Сохранить" : dialog === "import" ? "Импортировать" : "Создать"}
+              </Button>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <DataTable
+        columns={[
+          {
+            key: "name",
+            header: "Версия",
+            cell: (v: CoefficientVersionRow) => (
+              <div>
+                <div className="font-medium">{v.name}</div>
+                {v.comment && (
+                  <div className="text-xs text-muted-foreground">{v.comment}</div>
+                )}
+              </div>
+            ),
+          },
+          {
+            key: "effectiveFrom",
+            header: "Действует с",
+            cell: (v: CoefficientVersionRow) =>
+              format(new Date(v.effectiveFrom), "dd.MM.yyyy"),
+          },
+          {
+            key: "status",
+            header: "Статус",
+            cell: versionStatus,
+          },
+          {
+            key: "ordersCount",
+            header: "Заказов",
+            cell: (v: CoefficientVersionRow) => (
+              <span className="font-mono">{v.ordersCount}</span>
+            ),
+            className: "text-right",
+          },
+          {
+            key: "actions",
+            header: "",
+            cell: (v: CoefficientVersionRow) => (
+              <div className="flex gap-1 justify-end">
+                <Button
+                  size="icon"
+                  variant={selectedId === v.id ? "secondary" : "ghost"}
+                  title="Таблицы"
+                  onClick={() => setSelectedId(v.id)}
+                  data-testid={`button-version-grids-${v.id}`}
+                >
+                  <Table2 className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => openEdit(v)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="icon" variant="ghost" disabled={v.ordersCount > 0}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Удалить версию «{v.name}»?</AlertDialogTitle>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Отмена</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteMutation.mutate(v.id)}>
+                        Удалить
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ),
+          },
+        ]}
+        data={filtered}
+        isLoading={isLoading}
+        emptyMessage="Версий пока нет"
+        getRowKey={(v) => v.id}
+        onRowDoubleClick={(v) => setSelectedId(v.id)}
+      />
+
+      {selected && <CoefficientGridEditor version={selected} />}
+    </>
+  );
+}
+
+// Сетка одной системы и категории: строки — высоты, столбцы — ширины
+function CoefficientGridEditor({ version }: { version: CoefficientVersionRow }) {
+  const { toast } = useToast();
+  const [gridId, setGridId] = useState<string>("");
+  const [draft, setDraft] = useState<string[][]>([]);
+  const locked = version.ordersCount > 0;
+
+  const { data: grids = [], isLoading } = useQuery<CoefficientGridRow[]>({
+    queryKey: ["/api/coefficients/versions", version.id, "grids"],
+  });
+
+  const grid = grids.find((g) => g.id === gridId) || grids[0];
+
+  useEffect(() => {
+    setDraft(grid ? grid.values.map((row) => row.map(String)) : []);
+  }, [grid]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/coefficients/grids/${grid!.id}`, {
+        values: draft.map((row) => row.map((cell) => parseFloat(cell.replace(",", ".")))),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/coefficients/versions", version.id, "grids"],
+      });
+      toast({ title: "Таблица сохранена" });
+    },
+    onError: (e: Error) =>
+      toast({ title: "Ошибка", description: e.message, variant: "destructive" }),
+  });
+
+  const isDirty = (r: number, c: number) =>
+    !!grid && parseFloat(draft[r]?.[c]) !== grid.values[r][c];
+  const dirtyCount = grid
+    ? draft.reduce((sum, row, r) => sum + row.filter((_, c) => isDirty(r, c)).length, 0)
+    : 0;
+  const hasInvalid = draft.some((row) =>
+    row.some((cell) => !Number.isFinite(parseFloat(cell.replace(",", "."))))
+  );
+
+  const setCell = (r: number, c: number, value: string) =>
+    setDraft((prev) =>
+      prev.map((row, i) => (i === r ? row.map((cell, j) => (j === c ? value : cell)) : row))
+    );
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+        <CardTitle className="text-base">Таблицы версии «{version.name}»</CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={grid?.id || ""} onValueChange={setGridId}>
+            <SelectTrigger className="w-72" data-testid="select-coefficient-grid">
+              <SelectValue placeholder="Система и категория" />
+            </SelectTrigger>
+            <SelectContent>
+              {grids.map((g) => (
+                <SelectItem key={g.id} value={g.id}>
+                  {g.sourceSheet || g.systemKey} — {g.category}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!locked && (
+            <Button
+              size="sm"
+              onClick={() => saveMutation.mutate()}
+              disabled={!grid || dirtyCount === 0 || hasInvalid || saveMutation.isPending}
+              data-testid="button-save-grid"
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Сохранить{dirtyCount > 0 ? ` (${dirtyCount})` : ""}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {locked && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground mb-3">
+            <Lock className="h-4 w-4" />
+            По этой версии уже посчитаны заказы — для новых цен создайте новую версию
+          </p>
+        )}
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !grid ? (
+          <p className="text-sm text-muted-foreground">В версии нет таблиц</p>
+        ) : (
+          <div className="overflow-auto max-h-[60vh]">
+            {grid.title && <p className="text-sm font-medium mb-2">{grid.title}</p>}
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="sticky top-0 left-0 z-20 bg-muted px-2 py-1 border text-left">
+                    В \ Ш, м
+                  </th>
+                  {grid.widths.map((w) => (
+                    <th key={w} className="sticky top-0 z-10 bg-muted px-2 py-1 border font-mono">
+                      {w}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.heights.map((h, r) => (
+                  <tr key={h}>
+                    <th className="sticky left-0 z-10 bg-muted px-2 py-1 border font-mono">{h}</th>
+                    {grid.widths.map((w, c) => (
+                      <td key={w} className="border p-0">
+                        <input
+                          className={`w-16 px-1 py-1 text-right font-mono bg-transparent outline-none focus:bg-accent ${
+                            isDirty(r, c) ? "bg-yellow-100 dark:bg-yellow-900/40" : ""
+                          }`}
+                          value={draft[r]?.[c] ?? ""}
+                          readOnly={locked}
+                          onChange={(e) => setCell(r, c, e.target.value)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
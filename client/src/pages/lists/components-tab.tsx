@@ -42,6 +42,12 @@ import { Plus, Trash2, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Color, Component } from "@shared/schema";
+import {
+  ReorderFields,
+  reorderFieldsSchema,
+  reorderDefaults,
+  toReorderPayload,
+} from "./reorder-fields";
 
 export function ComponentsTab({ search }: { search: string }) {
   const { toast } = useToast();
@@ -61,9 +67,10 @@ export function ComponentsTab({ search }: { search: string }) {
         name: z.string().min(1),
         colorId: z.string().optional(),
         unit: z.string().optional(),
+        ...reorderFieldsSchema,
       })
     ),
-    defaultValues: { name: "", colorId: "", unit: "" },
+    defaultValues: { name: "", colorId: "", unit: "", ...reorderDefaults() },
   });
 
   const createMutation = useMutation({
@@ -120,7 +127,8 @@ export function ComponentsTab({ search }: { search: string }) {
       }),
   });
 
-  const onSubmit = (data: Record<string, unknown>) => {
+  const onSubmit = (values: Record<string, unknown>) => {
+    const data = toReorderPayload(values);
     if (editing) updateMutation.mutate({ id: editing.id, data });
     else createMutation.mutate(data);
   };
@@ -131,6 +139,7 @@ export function ComponentsTab({ search }: { search: string }) {
       name: item.name,
       colorId: item.colorId || "",
       unit: item.unit || "",
+      ...reorderDefaults(item),
     });
     setIsDialogOpen(true);
   };
@@ -226,6 +235,7 @@ export function ComponentsTab({ search }: { search: string }) {
                     </FormItem>
                   )}
                 />
+                <ReorderFields control={form.control} />
                 <Button
                   type="submit"
                   className="w-full"
@@ -19,6 +19,13 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -35,9 +42,12 @@ import { z } from "zod";
 import { Plus, Trash2, Loader2, Settings2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Dealer } from "@shared/schema";
+import type { Dealer, PriceTier } from "@shared/schema";
 import { BalanceBadge } from "@/components/status-badge";
 
+// Значение Select для дилера без прайс-листа (пустую строку Select не принимает)
+const NO_PRICE_TIER = "none";
+
 export function DealersTab({ search }: { search: string }) {
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -47,6 +57,9 @@ export function DealersTab({ search }: { search: string }) {
   const { data: dealers = [], isLoading } = useQuery<
     (Dealer & { balance?: number })[]
   >({ queryKey: ["/api/dealers"] });
+  const { data: priceTiers = [] } = useQuery<PriceTier[]>({
+    queryKey: ["/api/price-tiers"],
+  });
 
   const form = useForm({
     resolver: zodResolver(
@@ -59,9 +72,10 @@ export function DealersTab({ search }: { search: string }) {
         password: z.string().optional(),
         workshopRateRulon: z.string().optional(),
         workshopRateZebra: z.string().optional(),
+        priceTierId: z.string(),
       })
     ),
-    defaultValues: { fullName: "", city: "", phone: "", openingBalance: "0", login: "", password: "", workshopRateRulon: "28", workshopRateZebra: "28" },
+    defaultValues: { fullName: "", city: "", phone: "", openingBalance: "0", login: "", password: "", workshopRateRulon: "28", workshopRateZebra: "28", priceTierId: NO_PRICE_TIER },
   });
 
   const createMutation = useMutation({
@@ -69,6 +83,7 @@ export function DealersTab({ search }: { search: string }) {
       apiRequest("POST", "/api/dealers", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/dealers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/price-tiers"] });
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/charts"] });
@@ -89,6 +104,7 @@ export function DealersTab({ search }: { search: string }) {
       apiRequest("PATCH", `/api/dealers/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/dealers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/price-tiers"] });
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/finance"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
@@ -157,6 +173,8 @@ export function DealersTab({ search }: { search: string }) {
     if (!payload.password) {
       delete payload.password;
     }
+    payload.priceTierId =
+      payload.priceTierId === NO_PRICE_TIER ? null : payload.priceTierId;
     if (editing) updateMutation.mutate({ id: editing.id, data: payload });
     else createMutation.mutate(payload);
   };
@@ -172,6 +190,7 @@ export function DealersTab({ search }: { search: string }) {
       password: "",
       workshopRateRulon: (item as any).workshopRateRulon?.toString() || "28",
       workshopRateZebra: (item as any).workshopRateZebra?.toString() || "28",
+      priceTierId: item.priceTierId || NO_PRICE_TIER,
     });
     setIsDialogOpen(true);
   };
@@ -383,6 +402,33 @@ export function DealersTab({ search }: { search: string }) {
                     )}
                   />
                 </div>
+                <FormField
+                  control={form.control}
+                  name="priceTierId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Прайс-лист</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-dealer-price-tier">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_PRICE_TIER}>
+                            Без прайс-листа (по ценам цеха)
+                          </SelectItem>
+                          {priceTiers.map((tier) => (
+                            <SelectItem key={tier.id} value={tier.id}>
+                              {tier.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <Button
                   type="submit"
                   className="w-full"
@@ -414,6 +460,12 @@ export function DealersTab({ search }: { search: string }) {
             header: "Телефон",
             cell: (d: Dealer) => d.phone || "-",
           },
+          {
+            key: "priceTier",
+            header: "Прайс-лист",
+            cell: (d: Dealer) =>
+              priceTiers.find((t) => t.id === d.priceTierId)?.name || "-",
+          },
           {
             key: "balance",
             header: "Баланс",
@@ -8,6 +8,8 @@ export type ListEntity =
   | "components"
   | "multipliers"
   | "suppliers"
+  | "coefficients"
+  | "priceTiers"
 ;
 
 export const entityConfig: Record<
@@ -39,6 +41,16 @@ export const entityConfig: Record<
     apiPath: "/api/suppliers",
     plural: "поставщиков",
   },
+  coefficients: {
+    label: "Коэффициенты",
+    apiPath: "/api/coefficients/versions",
+    plural: "версий коэффициентов",
+  },
+  priceTiers: {
+    label: "Прайс-листы",
+    apiPath: "/api/price-tiers",
+    plural: "прайс-листов",
+  },
 };
 
 
@@ -43,6 +43,12 @@ import { Plus, Trash2, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { FABRIC_CATEGORIES, type Color, type Fabric } from "@shared/schema";
+import {
+  ReorderFields,
+  reorderFieldsSchema,
+  reorderDefaults,
+  toReorderPayload,
+} from "./reorder-fields";
 
 export function FabricsTab({ search }: { search: string }) {
   const { toast } = useToast();
@@ -65,6 +71,7 @@ export function FabricsTab({ search }: { search: string }) {
         fabricType: z.string().optional(),
         colorId: z.string().optional(),
         category: z.string().optional(),
+        ...reorderFieldsSchema,
       })
     ),
     defaultValues: {
@@ -74,6 +81,7 @@ export function FabricsTab({ search }: { search: string }) {
       fabricType: "roll",
       colorId: "",
       category: "",
+      ...reorderDefaults(),
     },
   });
 
@@ -133,7 +141,8 @@ export function FabricsTab({ search }: { search: string }) {
       }),
   });
 
-  const onSubmit = (data: Record<string, unknown>) => {
+  const onSubmit = (values: Record<string, unknown>) => {
+    const data = toReorderPayload(values);
     console.log("Fabric submit:", data);
     if (editing) updateMutation.mutate({ id: editing.id, data });
     else createMutation.mutate(data);
@@ -148,6 +157,7 @@ export function FabricsTab({ search }: { search: string }) {
       fabricType: (item as any).fabricType || "roll",
       colorId: item.colorId || "",
       category: item.category || "",
+      ...reorderDefaults(item),
     });
     setIsDialogOpen(true);
   };
@@ -335,6 +345,7 @@ export function FabricsTab({ search }: { search: string }) {
                     </FormItem>
                   )}
                 />
+                <ReorderFields control={form.control} />
                 <Button
                   type="submit"
                   className="w-full h-9"
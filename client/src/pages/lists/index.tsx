@@ -12,6 +12,8 @@ import { ExpenseTypesTab } from "./expense-types-tab";
 import { ComponentsTab } from "./components-tab";
 import { MultipliersTab } from "./multipliers-tab";
 import { SuppliersTab } from "./suppliers-tab";
+import { CoefficientsTab } from "./coefficients-tab";
+import { PriceTiersTab } from "./price-tiers-tab";
 
 
 export default function ListsPage() {
@@ -66,6 +68,13 @@ export default function ListsPage() {
         <TabsContent value="suppliers">
           <SuppliersTab search={search} />
         </TabsContent>
+        <TabsContent value="coefficients">
+          <CoefficientsTab search={search} />
+        </TabsContent>
+
+        <TabsContent value="priceTiers">
+          <PriceTiersTab search={search} />
+        </TabsContent>
       </Tabs>
     </Layout>
   );
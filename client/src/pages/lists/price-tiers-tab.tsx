@@ -0,0 +1,490 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { DataTable } from "@/components/data-table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Plus, Trash2, Loader2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FABRIC_CATEGORIES, type PriceTier } from "@shared/schema";
+import { parsePriceTier } from "@shared/pricing";
+
+interface PriceTierRow extends PriceTier {
+  dealersCount: number;
+}
+
+// Поля формы — строки инпутов; числа проверяет сервер (priceTierFormSchema)
+const formSchema = z.object({
+  name: z.string().min(1, "Укажите название"),
+  baseRateRulon: z.string().min(1, "Обязательное поле"),
+  baseRateZebra: z.string().min(1, "Обязательное поле"),
+  surcharges: z.record(z.string(), z.string()),
+  volumeDiscounts: z.array(
+    z.object({ minQuantity: z.string().min(1), percent: z.string().min(1) })
+  ),
+  promotions: z.array(
+    z.object({
+      name: z.string().min(1, "Название акции"),
+      dateFrom: z.string().min(1),
+      dateTo: z.string().min(1),
+      percent: z.string().min(1),
+    })
+  ),
+  comment: z.string().optional(),
+});
+type PriceTierFormValues = z.infer<typeof formSchema>;
+
+const emptyForm: PriceTierFormValues = {
+  name: "",
+  baseRateRulon: "28",
+  baseRateZebra: "28",
+  surcharges: {},
+  volumeDiscounts: [],
+  promotions: [],
+  comment: "",
+};
+
+function toFormValues(tier: PriceTier): PriceTierFormValues {
+  const rules = parsePriceTier(tier);
+  return {
+    name: tier.name,
+    baseRateRulon: rules.baseRateRulon.toString(),
+    baseRateZebra: rules.baseRateZebra.toString(),
+    surcharges: Object.fromEntries(
+      Object.entries(rules.categorySurcharges).map(([c, v]) => [c, v.toString()])
+    ),
+    volumeDiscounts: rules.volumeDiscounts.map((d) => ({
+      minQuantity: d.minQuantity.toString(),
+      percent: d.percent.toString(),
+    })),
+    promotions: rules.promotions.map((p) => ({ ...p, percent: p.percent.toString() })),
+    comment: tier.comment || "",
+  };
+}
+
+function toPayload(values: PriceTierFormValues) {
+  return {
+    name: values.name,
+    baseRateRulon: values.baseRateRulon,
+    baseRateZebra: values.baseRateZebra,
+    // Пустая надбавка — категории без надбавки
+    categorySurcharges: Object.fromEntries(
+      Object.entries(values.surcharges).filter(([, v]) => v !== "" && Number(v) !== 0)
+    ),
+    volumeDiscounts: values.volumeDiscounts,
+    promotions: values.promotions,
+    comment: values.comment || null,
+  };
+}
+
+function activePromotion(tier: PriceTier) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  return parsePriceTier(tier).promotions.find(
+    (p) => p.dateFrom <= today && today <= p.dateTo
+  );
+}
+
+// Прайс-листы дилеров: базовые тарифы, надбавки по категориям ткани,
+// скидки за объём и акции. Дилер без прайс-листа считается по ценам цеха.
+export function PriceTiersTab({ search }: { search: string }) {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<PriceTierRow | null>(null);
+
+  const { data: tiers = [], isLoading } = useQuery<PriceTierRow[]>({
+    queryKey: ["/api/price-tiers"],
+  });
+
+  const form = useForm<PriceTierFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyForm,
+  });
+  const volumeDiscounts = useFieldArray({ control: form.control, name: "volumeDiscounts" });
+  const promotions = useFieldArray({ control: form.control, name: "promotions" });
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditing(null);
+    form.reset(emptyForm);
+  };
+
+  const onError = (e: Error) =>
+    toast({ title: "Ошибка", description: e.message, variant: "destructive" });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/price-tiers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dealers"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: ReturnType<typeof toPayload>) =>
+      apiRequest("POST", "/api/price-tiers", data),
+    onSuccess: () => {
+      invalidate();
+      closeDialog();
+      toast({ title: "Прайс-лист добавлен" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ReturnType<typeof toPayload> }) =>
+      apiRequest("PATCH", `/api/price-tiers/${id}`, data),
+    onSuccess: () => {
+      invalidate();
+      closeDialog();
+      toast({ title: "Прайс-лист обновлен" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/price-tiers/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Прайс-лист удален" });
+    },
+    onError,
+  });
+
+  const onSubmit = (values: PriceTierFormValues) => {
+    const data = toPayload(values);
+    if (editing) updateMutation.mutate({ id: editing.id, data });
+    else createMutation.mutate(data);
+  };
+
+  const openEdit = (tier: PriceTierRow) => {
+    setEditing(tier);
+    form.reset(toFormValues(tier));
+    setIsDialogOpen(true);
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+  const filtered = tiers.filter((t) =>
+    t.name.toLowerCase().includes(search.toLowerCase())
+  );
+
+  return (
+    <>
+      <div className="flex justify-end mb-4">
+        <Dialog
+          open={isDialogOpen}
+          onOpenChange={(open) => (open ? setIsDialogOpen(true) : closeDialog())}
+        >
+          <DialogTrigger asChild>
+            <Button data-testid="button-add-price-tier">
+              <Plus className="h-4 w-4 mr-2" />
+              Добавить
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editing ? "Редактировать прайс-лист" : "Новый прайс-лист"}
+              </DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Название</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Опт, Розница…" data-testid="input-price-tier-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="baseRateRulon"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Тариф (рулон)</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" step="0.01" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="baseRateZebra"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Тариф (зебра)</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" step="0.01" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium mb-2">
+                    Надбавка по категории ткани, %
+                  </p>
+                  <div className="grid grid-cols-6 gap-2">
+                    {FABRIC_CATEGORIES.map((category) => (
+                      <FormField
+                        key={category}
+                        control={form.control}
+                        name={`surcharges.${category}`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs">{category}</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                value={field.value ?? ""}
+                                type="number"
+                                step="0.1"
+                                placeholder="0"
+                                className="h-8"
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-medium">Скидки за объём</p>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => volumeDiscounts.append({ minQuantity: "", percent: "" })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Скидка
+                    </Button>
+                  </div>
+                  {volumeDiscounts.fields.map((item, index) => (
+                    <div key={item.id} className="flex items-center gap-2 mb-2">
+                      <span className="text-sm text-muted-foreground">от</span>
+                      <FormField
+                        control={form.control}
+                        name={`volumeDiscounts.${index}.minQuantity`}
+                        render={({ field }) => (
+                          <Input {...field} type="number" min="1" className="h-8 w-24" />
+                        )}
+                      />
+                      <span className="text-sm text-muted-foreground">створок —</span>
+                      <FormField
+                        control={form.control}
+                        name={`volumeDiscounts.${index}.percent`}
+                        render={({ field }) => (
+                          <Input {...field} type="number" step="0.1" className="h-8 w-24" />
+                        )}
+                      />
+                      <span className="text-sm text-muted-foreground">%</span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => volumeDiscounts.remove(index)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-medium">Акции</p>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        promotions.append({ name: "", dateFrom: "", dateTo: "", percent: "" })
+                      }
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Акция
+                    </Button>
+                  </div>
+                  {promotions.fields.map((item, index) => (
+                    <div key={item.id} className="flex items-center gap-2 mb-2">
+                      <FormField
+                        control={form.control}
+                        name={`promotions.${index}.name`}
+                        render={({ field }) => (
+                          <Input {...field} placeholder="Название" className="h-8 flex-1" />
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`promotions.${index}.dateFrom`}
+                        render={({ field }) => (
+                          <Input {...field} type="date" className="h-8 w-36" />
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`promotions.${index}.dateTo`}
+                        render={({ field }) => (
+                          <Input {...field} type="date" className="h-8 w-36" />
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`promotions.${index}.percent`}
+                        render={({ field }) => (
+                          <Input {...field} type="number" step="0.1" placeholder="%" className="h-8 w-20" />
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => promotions.remove(index)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="comment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Комментарий</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={isPending}>
+                  {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editing ? "Сохранить" : "Добавить"}
+                </Button>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+      <DataTable
+        columns={[
+          {
+            key: "name",
+            header: "Название",
+            cell: (t: PriceTierRow) => t.name,
+          },
+          {
+            key: "rates",
+            header: "Тариф рулон / зебра",
+            cell: (t: PriceTierRow) => (
+              <span className="font-mono">
+                {t.baseRateRulon} / {t.baseRateZebra}
+              </span>
+            ),
+          },
+          {
+            key: "promotion",
+            header: "Акция",
+            cell: (t: PriceTierRow) => {
+              const promo = activePromotion(t);
+              return promo ? (
+                <Badge variant="secondary">
+                  {promo.name} −{promo.percent}%
+                </Badge>
+              ) : (
+                "-"
+              );
+            },
+          },
+          {
+            key: "dealersCount",
+            header: "Дилеров",
+            cell: (t: PriceTierRow) => t.dealersCount,
+            className: "text-right",
+          },
+          {
+            key: "actions",
+            header: "",
+            cell: (t: PriceTierRow) => (
+              <div className="flex gap-1 justify-end">
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="icon" variant="ghost">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>
+                        Удалить прайс-лист?
+                        {t.dealersCount > 0 &&
+                          ` Его дилеры (${t.dealersCount}) перейдут на цены цеха.`}
+                      </AlertDialogTitle>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Отмена</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteMutation.mutate(t.id)}>
+                        Удалить
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ),
+          },
+        ]}
+        data={filtered}
+        isLoading={isLoading}
+        emptyMessage="Прайс-листы не найдены"
+        getRowKey={(t) => t.id}
+        onRowDoubleClick={openEdit}
+      />
+    </>
+  );
+}
@@ -0,0 +1,127 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Control } from "react-hook-form";
+import { z } from "zod";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Supplier } from "@shared/schema";
+
+// Точка заказа, партия заказа и основной поставщик — общие поля для
+// тканей и комплектующих (используются в предложениях закупки)
+
+export const reorderFieldsSchema = {
+  reorderPoint: z.string().optional(),
+  reorderQuantity: z.string().optional(),
+  preferredSupplierId: z.string().optional(),
+};
+
+interface ReorderSource {
+  reorderPoint?: string | null;
+  reorderQuantity?: string | null;
+  preferredSupplierId?: string | null;
+}
+
+export function reorderDefaults(item?: ReorderSource) {
+  return {
+    reorderPoint: item?.reorderPoint?.toString() || "",
+    reorderQuantity: item?.reorderQuantity?.toString() || "",
+    preferredSupplierId: item?.preferredSupplierId || "",
+  };
+}
+
+// Пустые строки из формы → null (decimal и FK не принимают "")
+export function toReorderPayload<T extends Record<string, unknown>>(data: T) {
+  return {
+    ...data,
+    reorderPoint: data.reorderPoint || null,
+    reorderQuantity: data.reorderQuantity || null,
+    preferredSupplierId: data.preferredSupplierId || null,
+  };
+}
+
+export function ReorderFields({ control }: { control: Control<any> }) {
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-2">
+        <FormField
+          control={control}
+          name="reorderPoint"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Точка заказа</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="Мин. остаток"
+                  {...field}
+                  data-testid="input-reorder-point"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="reorderQuantity"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Партия заказа</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="Кол-во"
+                  {...field}
+                  data-testid="input-reorder-quantity"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={control}
+        name="preferredSupplierId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Основной поставщик</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl>
+                <SelectTrigger data-testid="select-preferred-supplier">
+                  <SelectValue placeholder="Не указан" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {suppliers.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
@@ -41,7 +41,27 @@ import { z } from "zod";
 import { Plus, Trash2, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Color, System, Component, Multiplier } from "@shared/schema";
+import {
+  COEFFICIENT_LOOKUP_MODES,
+  COEFFICIENT_OUT_OF_RANGE_MODES,
+  type CoefficientLookupMode,
+  type CoefficientOutOfRangeMode,
+  type Color,
+  type System,
+  type Component,
+  type Multiplier,
+} from "@shared/schema";
+
+const LOOKUP_MODE_LABELS: Record<string, string> = {
+  nearest: "Ближайший узел",
+  round_up: "Узел вверх",
+  interpolate: "Интерполяция",
+};
+
+const OUT_OF_RANGE_LABELS: Record<string, string> = {
+  reject: "Больше таблицы: не считать",
+  extrapolate: "Больше таблицы: экстраполировать",
+};
 
 type SystemComponentItem = {
   componentId: string;
@@ -82,6 +102,8 @@ export function SystemsTab({ search }: { search: string }) {
         systemKey: z.string().optional(),
         formula: z.string().optional(),
         multiplierId: z.string().optional(),
+        coefficientLookup: z.enum(COEFFICIENT_LOOKUP_MODES),
+        coefficientOutOfRange: z.enum(COEFFICIENT_OUT_OF_RANGE_MODES),
       })
     ),
     defaultValues: {
@@ -90,6 +112,8 @@ export function SystemsTab({ search }: { search: string }) {
       systemKey: "",
       formula: "",
       multiplierId: "",
+      coefficientLookup: "nearest" as CoefficientLookupMode,
+      coefficientOutOfRange: "reject" as CoefficientOutOfRangeMode,
     },
   });
 
@@ -193,6 +217,8 @@ export function SystemsTab({ search }: { search: string }) {
       systemKey: (item as any).systemKey || "",
       formula: item.formula || "",
       multiplierId: (item as any).multiplierId || "",
+      coefficientLookup: item.coefficientLookup as CoefficientLookupMode,
+      coefficientOutOfRange: item.coefficientOutOfRange as CoefficientOutOfRangeMode,
     });
     try {
       const res = await apiRequest("GET", `/api/systems/${item.id}/components`);
@@ -355,6 +381,60 @@ export function SystemsTab({ search }: { search: string }) {
                     )}
                   />
                 </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <FormField
+                    control={form.control}
+                    name="coefficientLookup"
+                    render={({ field }) => (
+                      <FormItem>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger
+                              className="h-8 text-sm"
+                              data-testid="select-system-coefficient-lookup"
+                            >
+                              <SelectValue placeholder="Поиск по таблице" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {COEFFICIENT_LOOKUP_MODES.map((mode) => (
+                              <SelectItem key={mode} value={mode}>
+                                {LOOKUP_MODE_LABELS[mode]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="coefficientOutOfRange"
+                    render={({ field }) => (
+                      <FormItem>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger
+                              className="h-8 text-sm"
+                              data-testid="select-system-coefficient-out-of-range"
+                            >
+                              <SelectValue placeholder="Вне таблицы" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {COEFFICIENT_OUT_OF_RANGE_MODES.map((mode) => (
+                              <SelectItem key={mode} value={mode}>
+                                {OUT_OF_RANGE_LABELS[mode]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
                 <FormField
                   control={form.control}
                   name="formula"
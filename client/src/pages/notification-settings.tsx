@@ -0,0 +1,332 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Layout } from "@/components/layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Mail } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  NOTIFICATION_TYPE_LABELS,
+  NOTIFICATION_CHANNEL_LABELS,
+} from "@/lib/notification-labels";
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_THRESHOLDS,
+  type NotificationChannel,
+  type NotificationRule,
+  type NotificationType,
+  type NotificationPreferencesForm,
+} from "@shared/schema";
+
+interface NotificationSettingsResponse {
+  rules: Record<NotificationType, NotificationRule>;
+  email: string | null;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  digestHour: number;
+  // Пороги напоминаний общие для рабочего пространства — их меняет владелец
+  thresholdsEditable: boolean;
+  accountEmail: string | null;
+  emailAvailable: boolean;
+}
+
+interface FormState {
+  rules: Record<NotificationType, NotificationRule>;
+  email: string;
+  quietHours: boolean;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  digestHour: number;
+}
+
+const QUERY_KEY = ["/api/notification-settings"];
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+const toForm = (data: NotificationSettingsResponse): FormState => ({
+  rules: data.rules,
+  email: data.email ?? "",
+  quietHours: !!data.quietHoursStart,
+  quietHoursStart: data.quietHoursStart ?? "22:00",
+  quietHoursEnd: data.quietHoursEnd ?? "08:00",
+  digestHour: data.digestHour,
+});
+
+export default function NotificationSettingsPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("notifications", "edit");
+
+  const { data, isLoading } = useQuery<NotificationSettingsResponse>({
+    queryKey: QUERY_KEY,
+  });
+
+  const [form, setForm] = useState<FormState | null>(null);
+  useEffect(() => {
+    if (data) setForm(toForm(data));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (body: NotificationPreferencesForm) =>
+      apiRequest("PUT", "/api/notification-settings", body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      toast({ title: "Настройки уведомлений сохранены" });
+    },
+    onError: (e: Error) =>
+      toast({
+        title: "Ошибка",
+        description: e.message,
+        variant: "destructive",
+      }),
+  });
+
+  const setRule = (type: NotificationType, patch: Partial<NotificationRule>) =>
+    setForm((prev) =>
+      prev && { ...prev, rules: { ...prev.rules, [type]: { ...prev.rules[type], ...patch } } }
+    );
+
+  const handleSave = () => {
+    if (!form) return;
+    saveMutation.mutate({
+      rules: form.rules,
+      email: form.email.trim() || null,
+      quietHoursStart: form.quietHours ? form.quietHoursStart : null,
+      quietHoursEnd: form.quietHours ? form.quietHoursEnd : null,
+      digestHour: form.digestHour,
+    });
+  };
+
+  const usesEmail =
+    !!form && Object.values(form.rules).some((rule) => rule.enabled && rule.channel !== "in_app");
+
+  return (
+    <Layout title="Настройки уведомлений">
+      {isLoading || !form || !data ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="space-y-6 max-w-3xl">
+          {usesEmail && !data.emailAvailable && (
+            <Alert>
+              <Mail className="h-4 w-4" />
+              <AlertDescription>
+                Отправка писем на сервере не настроена — уведомления будут только в CRM.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Типы уведомлений</CardTitle>
+              <CardDescription>
+                Настройки ваши: выключенный тип не приходит вам ни письмом, ни push. Письмо, сводка
+                и push на телефон дублируют уведомление в CRM
+                {!data.thresholdsEditable && ". Пороги напоминаний задаёт владелец"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {NOTIFICATION_TYPES.map((type) => {
+                const rule = form.rules[type];
+                const limits = NOTIFICATION_THRESHOLDS[type];
+                return (
+                  <div
+                    key={type}
+                    className="flex flex-wrap items-end gap-4 border-b pb-4 last:border-b-0 last:pb-0"
+                  >
+                    <div className="flex items-center gap-3 min-w-[220px] flex-1 pb-2">
+                      <Switch
+                        id={`rule-${type}`}
+                        checked={rule.enabled}
+                        disabled={!canEdit}
+                        onCheckedChange={(enabled) => setRule(type, { enabled })}
+                        data-testid={`switch-notification-${type}`}
+                      />
+                      <Label htmlFor={`rule-${type}`}>{NOTIFICATION_TYPE_LABELS[type]}</Label>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Канал</Label>
+                      <Select
+                        value={rule.channel}
+                        onValueChange={(channel) =>
+                          setRule(type, { channel: channel as NotificationChannel })
+                        }
+                      >
+                        <SelectTrigger className="w-[240px]" data-testid={`select-channel-${type}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {NOTIFICATION_CHANNELS.map((channel) => (
+                            <SelectItem key={channel} value={channel}>
+                              {NOTIFICATION_CHANNEL_LABELS[channel]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2 pb-2">
+                      <Switch
+                        id={`push-${type}`}
+                        checked={rule.push}
+                        disabled={!canEdit || !rule.enabled}
+                        onCheckedChange={(push) => setRule(type, { push })}
+                        data-testid={`switch-push-${type}`}
+                      />
+                      <Label htmlFor={`push-${type}`}>Push</Label>
+                    </div>
+                    {limits && (
+                      <div className="space-y-1">
+                        <Label
+                          htmlFor={`threshold-${type}`}
+                          className="text-xs text-muted-foreground"
+                        >
+                          {limits.label}
+                        </Label>
+                        <Input
+                          id={`threshold-${type}`}
+                          type="number"
+                          className="w-[120px]"
+                          min={limits.min}
+                          max={limits.max}
+                          value={rule.threshold ?? limits.default}
+                          disabled={!canEdit || !data.thresholdsEditable}
+                          onChange={(e) =>
+                            setRule(type, {
+                              threshold:
+                                e.target.value === "" ? limits.default : Number(e.target.value),
+                            })
+                          }
+                          data-testid={`input-threshold-${type}`}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Письма</CardTitle>
+              <CardDescription>Время — московское</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="notification-email">Адрес для писем</Label>
+                <Input
+                  id="notification-email"
+                  type="email"
+                  className="max-w-sm"
+                  placeholder={data.accountEmail ?? ""}
+                  value={form.email}
+                  disabled={!canEdit}
+                  onChange={(e) => setForm((prev) => prev && { ...prev, email: e.target.value })}
+                  data-testid="input-notification-email"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Пусто — письма уходят на email аккаунта
+                </p>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Ежедневная сводка</Label>
+                <Select
+                  value={String(form.digestHour)}
+                  onValueChange={(hour) =>
+                    setForm((prev) => prev && { ...prev, digestHour: Number(hour) })
+                  }
+                >
+                  <SelectTrigger className="w-[160px]" data-testid="select-digest-hour">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOURS.map((hour) => (
+                      <SelectItem key={hour} value={String(hour)}>
+                        {`в ${String(hour).padStart(2, "0")}:00`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id="quiet-hours"
+                    checked={form.quietHours}
+                    disabled={!canEdit}
+                    onCheckedChange={(quietHours) =>
+                      setForm((prev) => prev && { ...prev, quietHours })
+                    }
+                    data-testid="switch-quiet-hours"
+                  />
+                  <Label htmlFor="quiet-hours">Тихие часы</Label>
+                </div>
+                {form.quietHours && (
+                  <div className="flex items-end gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="quiet-from">С</Label>
+                      <Input
+                        id="quiet-from"
+                        type="time"
+                        value={form.quietHoursStart}
+                        disabled={!canEdit}
+                        onChange={(e) =>
+                          setForm((prev) => prev && { ...prev, quietHoursStart: e.target.value })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="quiet-to">До</Label>
+                      <Input
+                        id="quiet-to"
+                        type="time"
+                        value={form.quietHoursEnd}
+                        disabled={!canEdit}
+                        onChange={(e) =>
+                          setForm((prev) => prev && { ...prev, quietHoursEnd: e.target.value })
+                        }
+                      />
+                    </div>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  В тихие часы письма и сводка откладываются, push не отправляются, уведомления в CRM
+                  приходят как обычно
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {canEdit && (
+            <div className="flex justify-end">
+              <Button
+                onClick={handleSave}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-notification-settings"
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Сохранить
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </Layout>
+  );
+}
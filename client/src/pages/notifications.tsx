@@ -12,7 +12,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Link } from "wouter";
-import { Bell, CheckCheck, Loader2 } from "lucide-react";
+import { Bell, CheckCheck, Loader2, Settings } from "lucide-react";
+import { NOTIFICATION_TYPE_LABELS } from "@/lib/notification-labels";
+import type { NotificationType } from "@shared/schema";
 
 interface Notification {
   id: string;
@@ -25,14 +27,6 @@ interface Notification {
   createdAt: string;
 }
 
-const typeLabels: Record<string, string> = {
-  order_status: "Статус заказа",
-  low_stock: "Низкий остаток",
-  overdue_order: "Просрочка заказа",
-  overdue_payment: "Просрочка оплаты",
-  measurement_sent: "Замер из приложения",
-};
-
 function getEntityLink(entityType?: string): string | null {
   if (!entityType) return null;
   switch (entityType) {
@@ -45,7 +39,10 @@ function getEntityLink(entityType?: string): string | null {
     case "fabric":
       return "/warehouse";
     case "measurement":
+    case "quote":
       return "/orders";
+    case "installation":
+      return "/installations";
     default:
       return null;
   }
@@ -99,7 +96,7 @@ export default function NotificationsPage() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">Все типы</SelectItem>
-              {Object.entries(typeLabels).map(([key, label]) => (
+              {Object.entries(NOTIFICATION_TYPE_LABELS).map(([key, label]) => (
                 <SelectItem key={key} value={key}>
                   {label}
                 </SelectItem>
@@ -129,6 +126,13 @@ export default function NotificationsPage() {
               Прочитать все ({unreadCount})
             </Button>
           )}
+
+          <Button variant="outline" size="sm" className="ml-auto" asChild>
+            <Link href="/notifications/settings">
+              <Settings className="h-4 w-4 mr-2" />
+              Настройки
+            </Link>
+          </Button>
         </div>
 
         {isLoading ? (
@@ -160,7 +164,7 @@ export default function NotificationsPage() {
                       )}
                       <span className="font-medium text-sm">{n.title}</span>
                       <span className="text-xs text-muted-foreground rounded-md bg-muted px-2 py-0.5">
-                        {typeLabels[n.type] || n.type}
+                        {NOTIFICATION_TYPE_LABELS[n.type as NotificationType] || n.type}
                       </span>
                     </div>
                     <p className="text-sm text-muted-foreground">{n.message}</p>
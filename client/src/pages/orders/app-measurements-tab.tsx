@@ -19,7 +19,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ApiError, apiRequest, queryClient } from "@/lib/queryClient";
 import {
   ArrowRight,
   Eye,
@@ -29,16 +29,46 @@ import {
   Phone,
   MessageSquare,
   Loader2,
+  PenLine,
 } from "lucide-react";
 import { format } from "date-fns";
 import { parseMoscow } from "@/lib/date";
-import type { Measurement, MeasurementSash } from "@shared/schema";
+import type { Measurement, MeasurementPhoto, MeasurementSash } from "@shared/schema";
+import { CoefficientWarningsDialog } from "./coefficient-warnings-dialog";
 
+// Ссылки на файлы приходят с сервера уже подписанными, вместе с миниатюрами
 type MeasurementWithSashes = Measurement & {
-  sashes: MeasurementSash[];
+  sashes: (MeasurementSash & { photoThumbnailUrl?: string | null })[];
+  photos?: (MeasurementPhoto & { thumbnailUrl: string })[];
   dealerName?: string;
 };
 
+interface GalleryItem {
+  key: string;
+  url: string;
+  thumbnailUrl: string;
+  caption: string;
+}
+
+// Галерея замера: общие фото и фото створок
+function galleryItems(m: MeasurementWithSashes): GalleryItem[] {
+  const photos = (m.photos || []).map((p) => ({
+    key: p.id,
+    url: p.url,
+    thumbnailUrl: p.thumbnailUrl || p.url,
+    caption: p.sashIndex != null ? `Створка ${p.sashIndex + 1}` : "Замер",
+  }));
+  const sashPhotos = m.sashes
+    .filter((s) => s.photoUrl)
+    .map((s, i) => ({
+      key: s.id || `sash-${i}`,
+      url: s.photoUrl!,
+      thumbnailUrl: s.photoThumbnailUrl || s.photoUrl!,
+      caption: `${fmtNum(s.width)}×${fmtNum(s.height)}`,
+    }));
+  return [...photos, ...sashPhotos];
+}
+
 // Strip trailing ".00"/".0" from PG decimal strings: "150.00" → "150",
 // "1.50" → "1.5". MeasurementSash width/height/coefficient are decimal(10,2)
 // so whole numbers arrive padded with zeros.
@@ -74,6 +104,12 @@ export function AppMeasurementsTab({
     useState<MeasurementWithSashes | null>(null);
   const [isViewOpen, setIsViewOpen] = useState(false);
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [previewItem, setPreviewItem] = useState<GalleryItem | null>(null);
+  // Замер, который сервер не преобразовал из-за предупреждений по коэффициентам
+  const [pendingOverride, setPendingOverride] = useState<{
+    id: string;
+    warnings: string[];
+  } | null>(null);
 
   const { data: measurements = [], isLoading } = useQuery<
     MeasurementWithSashes[]
@@ -82,22 +118,36 @@ export function AppMeasurementsTab({
   });
 
   const convertMutation = useMutation({
-    mutationFn: (id: string) =>
-      apiRequest("POST", `/api/app-measurements/${id}/convert`),
-    onSuccess: (_, id) => {
+    mutationFn: ({
+      id,
+      skipCoefficientValidation,
+    }: {
+      id: string;
+      skipCoefficientValidation?: boolean;
+    }) =>
+      apiRequest("POST", `/api/app-measurements/${id}/convert`, {
+        skipCoefficientValidation,
+      }),
+    onSuccess: () => {
       queryClient.invalidateQueries({
         queryKey: ["/api/app-measurements"],
       });
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       toast({ title: "Замер преобразован в заказ" });
+      setPendingOverride(null);
       setIsViewOpen(false);
     },
-    onError: (e: Error) =>
+    onError: (e: Error, { id }) => {
+      if (e instanceof ApiError && e.coefficientWarning && e.errors) {
+        setPendingOverride({ id, warnings: e.errors });
+        return;
+      }
       toast({
         title: "Ошибка",
         description: e.message,
         variant: "destructive",
-      }),
+      });
+    },
   });
 
   const deleteMutation = useMutation({
@@ -250,7 +300,7 @@ export function AppMeasurementsTab({
                   <Button
                     size="icon"
                     variant="ghost"
-                    onClick={() => convertMutation.mutate(m.id)}
+                    onClick={() => convertMutation.mutate({ id: m.id })}
                     title="Принять и создать заказ"
                     disabled={convertMutation.isPending}
                   >
@@ -370,6 +420,51 @@ export function AppMeasurementsTab({
                 </div>
               </div>
 
+              {/* Photos */}
+              {galleryItems(viewingMeasurement).length > 0 && (
+                <div className="rounded-lg border p-3">
+                  <h4 className="font-semibold text-sm mb-2">
+                    Фото ({galleryItems(viewingMeasurement).length})
+                  </h4>
+                  <div className="grid grid-cols-3 gap-2">
+                    {galleryItems(viewingMeasurement).map((item) => (
+                      <button
+                        key={item.key}
+                        type="button"
+                        onClick={() => setPreviewItem(item)}
+                        className="space-y-1 text-left"
+                        data-testid={`gallery-item-${item.key}`}
+                      >
+                        <img
+                          src={item.thumbnailUrl}
+                          alt={item.caption}
+                          loading="lazy"
+                          className="aspect-square w-full rounded-md border object-cover"
+                        />
+                        <div className="text-xs text-muted-foreground truncate">
+                          {item.caption}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Client signature */}
+              {viewingMeasurement.signatureUrl && (
+                <div className="rounded-lg border p-3">
+                  <h4 className="font-semibold text-sm mb-2 flex items-center gap-2">
+                    <PenLine className="h-3.5 w-3.5 text-muted-foreground" />
+                    Подпись клиента
+                  </h4>
+                  <img
+                    src={viewingMeasurement.signatureUrl}
+                    alt="Подпись клиента"
+                    className="max-h-24 rounded-md border bg-white"
+                  />
+                </div>
+              )}
+
               {/* Approve / convert button */}
               {!viewingMeasurement.orderId && (
                   <Button
@@ -379,7 +474,7 @@ export function AppMeasurementsTab({
                         setIsViewOpen(false);
                         onConvertToOrder(viewingMeasurement);
                       } else {
-                        convertMutation.mutate(viewingMeasurement.id);
+                        convertMutation.mutate({ id: viewingMeasurement.id });
                       }
                     }}
                     disabled={convertMutation.isPending}
@@ -401,6 +496,35 @@ export function AppMeasurementsTab({
         </DialogContent>
       </Dialog>
 
+      {/* Full-size photo */}
+      <Dialog open={!!previewItem} onOpenChange={(open) => !open && setPreviewItem(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{previewItem?.caption}</DialogTitle>
+          </DialogHeader>
+          {previewItem && (
+            <a href={previewItem.url} target="_blank" rel="noreferrer">
+              <img
+                src={previewItem.url}
+                alt={previewItem.caption}
+                className="max-h-[70vh] w-full rounded-md object-contain"
+              />
+            </a>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <CoefficientWarningsDialog
+        open={!!pendingOverride}
+        onOpenChange={(open) => !open && setPendingOverride(null)}
+        warnings={pendingOverride?.warnings || []}
+        onConfirm={() =>
+          pendingOverride &&
+          convertMutation.mutate({ id: pendingOverride.id, skipCoefficientValidation: true })
+        }
+        isPending={convertMutation.isPending}
+      />
+
       {/* Delete confirmation */}
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent>
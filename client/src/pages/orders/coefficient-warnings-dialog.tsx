@@ -0,0 +1,57 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+interface CoefficientWarningsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  warnings: string[];
+  onConfirm: () => void;
+  isPending: boolean;
+}
+
+export function CoefficientWarningsDialog({
+  open,
+  onOpenChange,
+  warnings,
+  onConfirm,
+  isPending,
+}: CoefficientWarningsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Проверьте коэффициенты</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Цена части створок посчитана не по таблице напрямую. Сохранить заказ
+          с этими коэффициентами?
+        </p>
+        <ul className="list-disc pl-5 text-sm space-y-1">
+          {warnings.map((warning, i) => (
+            <li key={i}>{warning}</li>
+          ))}
+        </ul>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Отмена
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={isPending}
+            data-testid="button-confirm-coefficient-warnings"
+          >
+            {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Сохранить
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,6 +19,8 @@ interface CuttingPiece {
   sashIndex: number;
   width: number;
   height: number;
+  orderNumber?: number;
+  rotated?: boolean;
 }
 
 interface CuttingRow {
@@ -28,11 +30,12 @@ interface CuttingRow {
   pieces: CuttingPiece[];
   usedWidth: string;
   wasteWidth: string;
+  remnantId: string | null;
 }
 
 interface CuttingLayoutResult {
   id: string;
-  orderId: string;
+  orderId: string | null;
   fabricId: string;
   fabricName?: string;
   rollWidth: string;
@@ -46,115 +49,53 @@ interface CuttingDialogProps {
   onOpenChange: (open: boolean) => void;
   orderId: string | null;
   orderNumber?: number;
+  // Раскрой партии: все заказы «В производстве» вместе
+  batch?: boolean;
 }
 
+// Подпись куска: размер, заказ (в партии) и отметка поворота
+const pieceLabel = (p: CuttingPiece) =>
+  `${p.orderNumber ? `#${p.orderNumber} ` : ""}${p.width}x${p.height}${p.rotated ? " ↻" : ""}`;
+
+// Ширина ряда: рулон или сохранённый обрезок
+const rowWidth = (row: CuttingRow) =>
+  parseFloat(row.usedWidth) + parseFloat(row.wasteWidth);
+
 export function CuttingDialog({
   open,
   onOpenChange,
   orderId,
   orderNumber,
+  batch = false,
 }: CuttingDialogProps) {
   const { toast } = useToast();
 
+  const url = batch ? "/api/cutting/batch" : `/api/orders/${orderId}/cutting`;
+  const queryKey = batch ? ["/api/cutting/batch"] : ["/api/orders", orderId, "cutting"];
+  const title = batch ? "Раскрой партии" : `Раскрой заказа #${orderNumber || ""}`;
+
   const { data: layouts = [], isLoading } = useQuery<CuttingLayoutResult[]>({
-    queryKey: ["/api/orders", orderId, "cutting"],
+    queryKey,
     queryFn: () =>
-      fetch(`/api/orders/${orderId}/cutting`, { credentials: "include" }).then(
-        (r) => r.json()
-      ),
-    enabled: !!orderId && open,
+      fetch(url, { credentials: "include" }).then((r) => r.json()),
+    enabled: (batch || !!orderId) && open,
   });
 
   const calculateMutation = useMutation({
-    mutationFn: () => apiRequest("POST", `/api/orders/${orderId}/cutting`),
+    mutationFn: () => apiRequest("POST", url),
     onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: ["/api/orders", orderId, "cutting"],
-      });
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouse/remnants"] });
       toast({ title: "Раскрой рассчитан" });
     },
     onError: (e: Error) =>
       toast({ title: "Ошибка", description: e.message, variant: "destructive" }),
   });
 
+  // Карты раскроя в PDF: по карте на ряд, формируются на сервере
   const handlePrint = () => {
     if (layouts.length === 0) return;
-
-    const win = window.open("", "_blank");
-    if (!win) return;
-
-    const layoutsHtml = layouts
-      .map((layout) => {
-        const rollW = parseFloat(layout.rollWidth);
-        const totalLen = parseFloat(layout.totalLength);
-        const waste = parseFloat(layout.wastePercent);
-
-        const rowsHtml = layout.rows
-          .map((row) => {
-            const cutLen = parseFloat(row.cutLength);
-            const usedW = parseFloat(row.usedWidth);
-            const scale = 600 / rollW; // масштаб для визуализации
-
-            const maxH = 80;
-            const piecesVisual = row.pieces
-              .map((p) => {
-                const w = p.width * scale;
-                const h = Math.round((p.height / cutLen) * maxH);
-                const bgColor = p.height < cutLen ? "#fef3c7" : "#dcfce7";
-                return `<div style="width:${w}px;height:${h}px;background:${bgColor};border:1px solid #6b7280;display:flex;align-items:center;justify-content:center;font-size:11px;flex-shrink:0;align-self:flex-end">${p.width}x${p.height}</div>`;
-              })
-              .join("");
-
-            const wasteW = rollW - usedW;
-            const wasteVisual =
-              wasteW > 0
-                ? `<div style="width:${wasteW * scale}px;height:${maxH}px;background:#fee2e2;border:1px dashed #ef4444;display:flex;align-items:center;justify-content:center;font-size:10px;color:#ef4444;flex-shrink:0;align-self:flex-end">${wasteW.toFixed(0)} см</div>`
-                : "";
-
-            return `
-              <div style="margin-bottom:12px">
-                <div style="font-size:12px;font-weight:600;margin-bottom:4px">
-                  Ряд ${row.rowIndex} — отрез ${cutLen} см
-                  <span style="color:#6b7280;font-weight:400"> (занято ${usedW.toFixed(0)} из ${rollW} см)</span>
-                </div>
-                <div style="display:flex;align-items:flex-end;border:2px solid #374151;width:${rollW * scale}px;height:${maxH}px">${piecesVisual}${wasteVisual}</div>
-              </div>
-            `;
-          })
-          .join("");
-
-        return `
-          <div style="margin-bottom:24px">
-            <h3 style="margin:0 0 8px">${layout.fabricName || "Ткань"}</h3>
-            <p style="margin:0 0 4px;font-size:13px">Ширина рулона: <strong>${rollW} см</strong></p>
-            <p style="margin:0 0 12px;font-size:13px">Итого: <strong>${(totalLen / 100).toFixed(2)} п.м.</strong> | Отходы: <strong>${waste.toFixed(1)}%</strong></p>
-            ${rowsHtml}
-          </div>
-        `;
-      })
-      .join('<hr style="margin:16px 0">');
-
-    win.document.write(`
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta charset="UTF-8" />
-          <title>Раскрой заказа #${orderNumber || ""}</title>
-          <style>body { font-family: Arial, sans-serif; padding: 24px; }</style>
-        </head>
-        <body>
-          <h2>Раскрой заказа #${orderNumber || ""}</h2>
-          ${layoutsHtml}
-        </body>
-      </html>
-    `);
-
-    win.document.close();
-    win.focus();
-    setTimeout(() => {
-      win.print();
-      win.close();
-    }, 200);
+    window.open(`${url}/pdf`, "_blank");
   };
 
   return (
@@ -163,7 +104,7 @@ export function CuttingDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Scissors className="h-5 w-5" />
-            Раскрой заказа #{orderNumber}
+            {title}
           </DialogTitle>
         </DialogHeader>
 
@@ -174,7 +115,9 @@ export function CuttingDialog({
         ) : layouts.length === 0 ? (
           <div className="text-center py-8 space-y-3">
             <p className="text-muted-foreground text-sm">
-              Раскрой ещё не рассчитан для этого заказа
+              {batch
+                ? "Раскрой партии ещё не рассчитан"
+                : "Раскрой ещё не рассчитан для этого заказа"}
             </p>
             <Button
               onClick={() => calculateMutation.mutate()}
@@ -223,8 +166,8 @@ export function CuttingDialog({
                     {layout.rows.map((row) => {
                       const cutLen = parseFloat(row.cutLength);
                       const usedW = parseFloat(row.usedWidth);
-                      const wasteW = rollW - usedW;
-                      const usedPercent = (usedW / rollW) * 100;
+                      const rowW = rowWidth(row);
+                      const wasteW = rowW - usedW;
 
                       return (
                         <div
@@ -232,14 +175,19 @@ export function CuttingDialog({
                           className="rounded border bg-muted/20 p-2"
                         >
                           <div className="flex items-center justify-between text-xs text-muted-foreground mb-1.5">
-                            <span>
+                            <span className="flex items-center gap-1">
                               Ряд {row.rowIndex} — отрез{" "}
                               <strong className="text-foreground">
                                 {cutLen} см
                               </strong>
+                              {row.remnantId && (
+                                <Badge variant="outline" className="text-[10px] px-1 py-0">
+                                  из обрезка
+                                </Badge>
+                              )}
                             </span>
                             <span>
-                              {usedW.toFixed(0)}/{rollW} см занято
+                              {usedW.toFixed(0)}/{rowW} см занято
                             </span>
                           </div>
 
@@ -255,7 +203,7 @@ export function CuttingDialog({
                                       key={pi}
                                       className="flex items-center justify-center text-[10px] font-mono border-r last:border-r-0"
                                       style={{
-                                        width: `${(piece.width / rollW) * 100}%`,
+                                        width: `${(piece.width / rowW) * 100}%`,
                                         height: h,
                                         backgroundColor:
                                           piece.height < cutLen
@@ -263,7 +211,7 @@ export function CuttingDialog({
                                             : "#dcfce7",
                                       }}
                                     >
-                                      {piece.width}x{piece.height}
+                                      {pieceLabel(piece)}
                                     </div>
                                   );
                                 })}
@@ -271,7 +219,7 @@ export function CuttingDialog({
                                   <div
                                     className="flex items-center justify-center text-[10px] text-red-500 bg-red-50 border-l border-dashed border-red-300"
                                     style={{
-                                      width: `${((rollW - usedW) / rollW) * 100}%`,
+                                      width: `${(wasteW / rowW) * 100}%`,
                                       height: maxH,
                                     }}
                                   >
@@ -30,10 +30,13 @@ import {
   type Dealer,
   type Fabric,
   type Cashbox,
+  type PriceTier,
+  type MaterialsDisposition,
 } from "@shared/schema";
 import { format } from "date-fns";
 
 import type { Measurement, MeasurementSash } from "@shared/schema";
+import { isZebraSystem, parsePriceTier, priceSashes } from "@shared/pricing";
 import type {
   OrderWithRelations,
   FabricWithStock,
@@ -50,18 +53,28 @@ import {
 import { getOrderColumns } from "./order-columns";
 import { ViewOrderDialog } from "./view-order-dialog";
 import { DeleteOrderDialog } from "./delete-order-dialog";
+import { ReverseOrderDialog } from "./reverse-order-dialog";
+import { ShipmentsDialog } from "./shipments-dialog";
+import { CoefficientWarningsDialog } from "./coefficient-warnings-dialog";
 import { CostCalculationDialog } from "./cost-calculation-dialog";
 import { CuttingDialog } from "./cutting-dialog";
 import { OrderForm } from "./order-form";
 import { ProductForm } from "./product-form";
 import {
   calculateCostPrice,
+  calculateSalePrices,
   printInvoice,
   printCustomerInvoice,
+  printJobSheet,
+  printSashLabels,
 } from "./utils";
 import { AppMeasurementsTab } from "./app-measurements-tab";
+import { QuotesTab } from "./quotes-tab";
 import { normalizeSashRooms } from "./normalize-sash-rooms";
 
+// Повторная отправка с подтверждёнными предупреждениями по коэффициентам
+type OrderSubmitValues = OrderFormValues & { skipCoefficientValidation?: boolean };
+
 export default function OrdersPage() {
   const { toast } = useToast();
   const coefficientCalculator = useCoefficientCalculator();
@@ -85,7 +98,7 @@ export default function OrdersPage() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [dealerFilter, setDealerFilter] = useState("all");
   const [orderTypeFilter, setOrderTypeFilter] = useState<
-    "all" | "sash" | "product" | "app"
+    "all" | "sash" | "product" | "app" | "quotes"
   >("all");
   const [convertingMeasurementId, setConvertingMeasurementId] = useState<string | null>(null);
   const [showCostCalculation, setShowCostCalculation] = useState(false);
@@ -97,6 +110,20 @@ export default function OrdersPage() {
   const [calculatingSashes, setCalculatingSashes] = useState<Set<number>>(
     new Set()
   );
+  // Предупреждения по коэффициентам створок (индекс створки → тексты)
+  const [sashWarnings, setSashWarnings] = useState<Record<number, string[]>>({});
+  // Заказ, который сервер не сохранил из-за предупреждений по коэффициентам
+  const [pendingOverride, setPendingOverride] = useState<{
+    data: OrderSubmitValues;
+    warnings: string[];
+  } | null>(null);
+  // Заказ, открытый в диалоге отгрузок
+  const [shipmentsOrder, setShipmentsOrder] = useState<OrderWithRelations | null>(null);
+  // Отмена или возврат, ждущие причины и решения по материалам
+  const [pendingReversal, setPendingReversal] = useState<{
+    order: OrderWithRelations;
+    status: "Отменён" | "Возврат";
+  } | null>(null);
   const [isManualSalePrice, setIsManualSalePrice] = useState(false);
   const [resetToken, setResetToken] = useState(0);
   const [showProfit, setShowProfit] = useState(() => sessionStorage.getItem("forsa-show-profit") === "true");
@@ -166,6 +193,9 @@ export default function OrdersPage() {
   const { data: fabrics = [] } = useQuery<Fabric[]>({
     queryKey: ["/api/fabrics"],
   });
+  const { data: priceTiers = [] } = useQuery<PriceTier[]>({
+    queryKey: ["/api/price-tiers"],
+  });
   const { data: stockData } = useQuery<{
     fabrics: FabricWithStock[];
     components: ComponentWithStock[];
@@ -212,7 +242,6 @@ export default function OrdersPage() {
     defaultValues: {
       date: format(new Date(), "yyyy-MM-dd"),
       dealerId: "",
-      status: "Новый",
       salePrice: "",
       costPrice: "",
       comment: "",
@@ -246,7 +275,6 @@ export default function OrdersPage() {
     defaultValues: {
       date: format(new Date(), "yyyy-MM-dd"),
       dealerId: "",
-      status: "Новый",
       salePrice: "",
       costPrice: "",
       comment: "",
@@ -261,11 +289,22 @@ export default function OrdersPage() {
     name: "components",
   });
 
+  // Заказ сохранён, но по календарю цеха к сроку не успевает
+  const showScheduleWarnings = (warnings?: string[]) => {
+    if (!warnings?.length) return;
+    toast({
+      title: "Срок под угрозой",
+      description: warnings.join("\n"),
+      variant: "destructive",
+      duration: 10000,
+    });
+  };
+
   // Mutations
   const createMutation = useMutation({
-    mutationFn: async (data: OrderFormValues) => {
+    mutationFn: async (data: OrderSubmitValues) => {
       const res = await apiRequest("POST", "/api/orders", data);
-      return (await res.json()) as { id: string };
+      return (await res.json()) as { id: string; scheduleWarnings?: string[] };
     },
     onSuccess: (createdOrder, variables) => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
@@ -291,9 +330,12 @@ export default function OrdersPage() {
       setIsDialogOpen(false);
       form.reset();
       toast({ title: "Успешно", description: "Заказ создан" });
+      showScheduleWarnings(createdOrder.scheduleWarnings);
     },
-    onError: (error: Error | ApiError) => {
-      if (error instanceof ApiError && error.stockError && error.errors) {
+    onError: (error: Error | ApiError, variables) => {
+      if (error instanceof ApiError && error.coefficientWarning && error.errors) {
+        setPendingOverride({ data: variables, warnings: error.errors });
+      } else if (error instanceof ApiError && error.stockError && error.errors) {
         toast({
           title: "Недостаточно материалов на складе",
           description: error.errors.join("\n"),
@@ -311,9 +353,11 @@ export default function OrdersPage() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: OrderFormValues }) =>
-      apiRequest("PATCH", `/api/orders/${id}`, data),
-    onSuccess: () => {
+    mutationFn: async ({ id, data }: { id: string; data: OrderSubmitValues }) => {
+      const res = await apiRequest("PATCH", `/api/orders/${id}`, data);
+      return (await res.json()) as { scheduleWarnings?: string[] };
+    },
+    onSuccess: (updatedOrder) => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
       queryClient.invalidateQueries({ queryKey: ["/api/finance"] });
@@ -325,9 +369,12 @@ export default function OrdersPage() {
       setEditingOrder(null);
       form.reset();
       toast({ title: "Успешно", description: "Заказ обновлен" });
+      showScheduleWarnings(updatedOrder.scheduleWarnings);
     },
-    onError: (error: Error | ApiError) => {
-      if (error instanceof ApiError && error.stockError && error.errors) {
+    onError: (error: Error | ApiError, variables) => {
+      if (error instanceof ApiError && error.coefficientWarning && error.errors) {
+        setPendingOverride({ data: variables.data, warnings: error.errors });
+      } else if (error instanceof ApiError && error.stockError && error.errors) {
         toast({
           title: "Недостаточно материалов на складе",
           description: error.errors.join("\n"),
@@ -368,9 +415,17 @@ export default function OrdersPage() {
   });
 
   const updateStatusMutation = useMutation({
-    mutationFn: ({ id, status }: { id: string; status: string }) =>
-      apiRequest("PATCH", `/api/orders/${id}/status`, { status }),
+    mutationFn: ({
+      id,
+      ...body
+    }: {
+      id: string;
+      status: string;
+      disposition?: MaterialsDisposition;
+      reason?: string;
+    }) => apiRequest("PATCH", `/api/orders/${id}/status`, body),
     onSuccess: () => {
+      setPendingReversal(null);
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
@@ -423,6 +478,51 @@ export default function OrdersPage() {
   });
 
   // Handlers
+  // Цены створок и сумма заказа по прайс-листу выбранного дилера
+  const repriceSashes = useCallback(() => {
+    const values = form.getValues();
+    const dealer = dealers.find((d) => d.id === values.dealerId);
+    const tier = priceTiers.find((t) => t.id === dealer?.priceTierId);
+    const { prices, pricing } = calculateSalePrices(
+      values.sashes,
+      systems,
+      fabrics,
+      dealer,
+      tier,
+      values.date
+    );
+
+    // Створки без коэффициента сохраняют свою цену
+    let totalPrice = pricing.total;
+    prices.forEach((price, i) => {
+      const sash = values.sashes[i];
+      if (price === null) {
+        totalPrice +=
+          parseFloat(sash.sashPrice || "0") * parseFloat(sash.quantity || "1");
+        return;
+      }
+      form.setValue(`sashes.${i}.sashPrice`, price.toFixed(2), {
+        shouldValidate: false,
+      });
+    });
+
+    if (totalPrice > 0) {
+      form.setValue("salePrice", totalPrice.toFixed(2), {
+        shouldValidate: false,
+      });
+    }
+  }, [form, dealers, priceTiers, systems, fabrics]);
+
+  const setSashWarning = useCallback((index: number, warnings: string[]) => {
+    setSashWarnings((prev) => {
+      if (warnings.length === 0 && !prev[index]) return prev;
+      const next = { ...prev };
+      if (warnings.length > 0) next[index] = warnings;
+      else delete next[index];
+      return next;
+    });
+  }, []);
+
   const handleSashRemove = useCallback(
     (index: number) => {
       // Очищаем состояние калькулятора для удалённой створки и всех последующих
@@ -431,6 +531,14 @@ export default function OrdersPage() {
       for (let i = index; i < sashes.length; i++) {
         coefficientCalculator.cleanupSash(`sash-${i}`);
       }
+      setSashWarnings((prev) => {
+        const next: Record<number, string[]> = {};
+        for (const [key, warnings] of Object.entries(prev)) {
+          const i = Number(key);
+          if (i !== index) next[i > index ? i - 1 : i] = warnings;
+        }
+        return next;
+      });
     },
     [form, coefficientCalculator]
   );
@@ -548,6 +656,17 @@ export default function OrdersPage() {
     }
   };
 
+  const confirmCoefficientOverride = () => {
+    if (!pendingOverride) return;
+    const data = { ...pendingOverride.data, skipCoefficientValidation: true };
+    if (editingOrder) {
+      updateMutation.mutate({ id: editingOrder.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+    setPendingOverride(null);
+  };
+
   const onProductSubmit = (data: ProductFormValues) => {
     createProductMutation.mutate(data);
   };
@@ -607,8 +726,8 @@ export default function OrdersPage() {
 
       form.reset({
         date: fullOrder.date,
+        dueDate: fullOrder.dueDate || "",
         dealerId: fullOrder.dealerId || "",
-        status: fullOrder.status || "Новый",
         salePrice: fullOrder.salePrice != null ? parseFloat(fullOrder.salePrice.toString()).toString() : "",
         costPrice: fullOrder.costPrice != null ? parseFloat(fullOrder.costPrice.toString()).toString() : "",
         comment: fullOrder.comment || "",
@@ -670,6 +789,7 @@ export default function OrdersPage() {
                     data.coefficient.toFixed(2),
                     { shouldValidate: false }
                   );
+                  setSashWarning(index, data.warnings.map((w) => w.message));
 
                   setCalculatingSashes((prev) => {
                     const next = new Set(prev);
@@ -682,6 +802,7 @@ export default function OrdersPage() {
                 },
                 (error) => {
                   console.error("Ошибка при расчете коэффициента:", error);
+                  setSashWarning(index, [error.message]);
                   setCalculatingSashes((prev) => {
                     const next = new Set(prev);
                     next.delete(index);
@@ -730,12 +851,12 @@ export default function OrdersPage() {
 
   const resetForms = () => {
     setEditingOrder(null);
+    setSashWarnings({});
     setActiveTab("order");
     setIsManualSalePrice(false);
     form.reset({
       date: format(new Date(), "yyyy-MM-dd"),
       dealerId: "",
-      status: "Новый",
       salePrice: "",
       costPrice: "",
       comment: "",
@@ -761,7 +882,6 @@ export default function OrdersPage() {
     productForm.reset({
       date: format(new Date(), "yyyy-MM-dd"),
       dealerId: "",
-      status: "Новый",
       salePrice: "",
       costPrice: "",
       comment: "",
@@ -828,15 +948,27 @@ export default function OrdersPage() {
       return "";
     };
 
-    // Calculate actual sale price: coefficient × dealer's workshop rate
+    // Calculate actual sale price through the dealer's price tier
+    // (coefficient × dealer's workshop rate without one) — same as the server
     const dealer = dealers.find((d) => d.id === measurement.dealerId);
-    const rateRulon = parseFloat(dealer?.workshopRateRulon?.toString() || "28");
-    const rateZebra = parseFloat(dealer?.workshopRateZebra?.toString() || "28");
+    const tier = priceTiers.find((t) => t.id === dealer?.priceTierId);
+    const pricing = priceSashes(
+      tier ? parsePriceTier(tier) : null,
+      (measurement.sashes || []).map((s) => {
+        const isZebra = isZebraSystem(s.systemType);
+        const rate = isZebra ? dealer?.workshopRateZebra : dealer?.workshopRateRulon;
+        return {
+          coefficient: s.coefficient != null ? parseFloat(s.coefficient.toString()) : 0,
+          isZebra,
+          category: s.category,
+          fallbackRate: parseFloat(rate?.toString() || "28"),
+        };
+      })
+    );
 
-    const rawSashes = (measurement.sashes || []).map((s) => {
+    const rawSashes = (measurement.sashes || []).map((s, i) => {
       const coef = s.coefficient != null ? parseFloat(s.coefficient.toString()) : 0;
-      const isZebra = (s.systemType || "").includes("zebra");
-      const price = coef * (isZebra ? rateZebra : rateRulon);
+      const price = pricing.sashes[i].price;
       return {
         width: s.width != null ? parseFloat(s.width.toString()).toString() : "",
         height: s.height != null ? parseFloat(s.height.toString()).toString() : "",
@@ -853,12 +985,7 @@ export default function OrdersPage() {
     });
     const sashes = normalizeSashRooms(rawSashes);
 
-    let calculatedPrice = 0;
-    for (const s of measurement.sashes || []) {
-      const coef = parseFloat(s.coefficient?.toString() || "0");
-      const isZebra = (s.systemType || "").includes("zebra");
-      calculatedPrice += coef * (isZebra ? rateZebra : rateRulon);
-    }
+    const calculatedPrice = pricing.total;
 
     // Считаем себестоимость заранее: watch-эффект ниже игнорирует form.reset
     // (name === undefined), иначе поле "Себестоимость" осталось бы пустым до
@@ -874,7 +1001,6 @@ export default function OrdersPage() {
     form.reset({
       date: format(new Date(), "yyyy-MM-dd"),
       dealerId: measurement.dealerId || "",
-      status: "Новый",
       salePrice: calculatedPrice > 0 ? calculatedPrice.toFixed(2) : "",
       costPrice: totalCost > 0 ? totalCost.toFixed(2) : "",
       comment: commentLines,
@@ -995,6 +1121,12 @@ export default function OrdersPage() {
     const subscription = form.watch((value, { name }) => {
       console.log("[DEBUG] watch triggered, name:", name);
 
+      // Прайс-лист дилера и акции на дату заказа меняют цены всех створок
+      if (name === "dealerId" || name === "date") {
+        repriceSashes();
+        return;
+      }
+
       if (!name || !name.includes("sashes")) return;
 
       // Проверяем, что изменилось одно из полей, влияющих на расчёт
@@ -1084,13 +1216,6 @@ export default function OrdersPage() {
               const currentSashes = form.getValues("sashes");
               if (!currentSashes[index]) return;
 
-              // Успешно получен коэффициент
-              const multiplier = system.multiplier;
-              const multiplierValue = multiplier
-                ? parseFloat(multiplier.value?.toString() || "1")
-                : 1;
-              const sashPrice = data.coefficient * multiplierValue;
-
               // Сохраняем коэффициент
               form.setValue(
                 `sashes.${index}.coefficient`,
@@ -1098,11 +1223,6 @@ export default function OrdersPage() {
                 { shouldValidate: false }
               );
 
-              // Сохраняем цену
-              form.setValue(`sashes.${index}.sashPrice`, sashPrice.toFixed(2), {
-                shouldValidate: false,
-              });
-
               // Убираем состояние загрузки
               setCalculatingSashes((prev) => {
                 const next = new Set(prev);
@@ -1110,27 +1230,13 @@ export default function OrdersPage() {
                 return next;
               });
 
-              // Показываем предупреждение только один раз при fallback
-              if (data.isFallbackCategory && data.warning) {
-                console.warn(`[Заказ] ${data.warning}`);
-              }
+              // Размер вне таблицы, подмена категории — показываем у створки
+              setSashWarning(index, data.warnings.map((w) => w.message));
 
-              // Пересчитываем общую цену всегда при изменении коэффициента
+              // Пересчитываем цены створок и общую цену всегда при изменении
+              // коэффициента: скидка за объём зависит от всех створок заказа
               // (isManualSalePrice не блокирует — ручной режим только для редактирования поля)
-              {
-                const allSashes = form.getValues("sashes");
-                const totalPrice = allSashes.reduce((sum, s) => {
-                  const price = parseFloat(s.sashPrice || "0");
-                  const qty = parseFloat(s.quantity || "1");
-                  return sum + price * qty;
-                }, 0);
-
-                if (totalPrice > 0) {
-                  form.setValue("salePrice", totalPrice.toFixed(2), {
-                    shouldValidate: false,
-                  });
-                }
-              }
+              repriceSashes();
             },
             (error) => {
               // Проверяем, что створка ещё существует
@@ -1139,6 +1245,7 @@ export default function OrdersPage() {
 
               // Ошибка при расчете
               console.error("Ошибка при расчете коэффициента:", error);
+              setSashWarning(index, [error.message]);
               setCalculatingSashes((prev) => {
                 const next = new Set(prev);
                 next.delete(index);
@@ -1169,6 +1276,8 @@ export default function OrdersPage() {
     fabricStock,
     componentStock,
     coefficientCalculator,
+    setSashWarning,
+    repriceSashes,
   ]);
 
   // Filtering
@@ -1203,13 +1312,23 @@ export default function OrdersPage() {
   const columns = getOrderColumns({
     onWorkshopPrint: printInvoice,
     onCustomerPrint: printCustomerInvoice,
+    onJobSheetPrint: printJobSheet,
+    onLabelsPrint: printSashLabels,
     onCutting: (order: OrderWithRelations) => {
       setCuttingOrderId(order.id);
       setCuttingOrderNumber(order.orderNumber);
       setShowCuttingDialog(true);
     },
+    onShipments: setShipmentsOrder,
     onDelete: openDeleteDialog,
-    onStatusChange: (id, status) => updateStatusMutation.mutate({ id, status }),
+    onStatusChange: (id, status) => {
+      const order = orders.find((o) => o.id === id);
+      if (order && (status === "Отменён" || status === "Возврат")) {
+        setPendingReversal({ order, status });
+        return;
+      }
+      updateStatusMutation.mutate({ id, status });
+    },
     showProfit,
     fabricStock,
   });
@@ -1271,6 +1390,7 @@ export default function OrdersPage() {
                     }}
                     onSashRemove={handleSashRemove}
                     calculatingSashes={calculatingSashes}
+                    sashWarnings={sashWarnings}
                     isManualSalePrice={isManualSalePrice}
                     onManualSalePriceChange={setIsManualSalePrice}
                   />
@@ -1312,6 +1432,7 @@ export default function OrdersPage() {
                 }}
                 onSashRemove={handleSashRemove}
                 calculatingSashes={calculatingSashes}
+                sashWarnings={sashWarnings}
                 isManualSalePrice={isManualSalePrice}
                 onManualSalePriceChange={setIsManualSalePrice}
               />
@@ -1368,7 +1489,7 @@ export default function OrdersPage() {
       <Tabs
         value={orderTypeFilter}
         onValueChange={(v) =>
-          setOrderTypeFilter(v as "all" | "sash" | "product" | "app")
+          setOrderTypeFilter(v as "all" | "sash" | "product" | "app" | "quotes")
         }
         className="w-full"
       >
@@ -1385,6 +1506,7 @@ export default function OrdersPage() {
                 </span>
               )}
             </TabsTrigger>
+            <TabsTrigger value="quotes">Расчёты</TabsTrigger>
           </TabsList>
           <Button
             variant="outline"
@@ -1403,6 +1525,8 @@ export default function OrdersPage() {
 
         {orderTypeFilter === "app" ? (
           <AppMeasurementsTab onConvertToOrder={openFromMeasurement} />
+        ) : orderTypeFilter === "quotes" ? (
+          <QuotesTab />
         ) : (
           <>
             <FilterBar
@@ -1471,6 +1595,36 @@ export default function OrdersPage() {
         isPending={deleteMutation.isPending}
       />
 
+      <ShipmentsDialog
+        open={!!shipmentsOrder}
+        onOpenChange={(open) => !open && setShipmentsOrder(null)}
+        order={orders.find((o) => o.id === shipmentsOrder?.id) ?? shipmentsOrder}
+      />
+
+      <ReverseOrderDialog
+        open={!!pendingReversal}
+        onOpenChange={(open) => !open && setPendingReversal(null)}
+        order={pendingReversal?.order ?? null}
+        status={pendingReversal?.status ?? "Отменён"}
+        onConfirm={(values) =>
+          pendingReversal &&
+          updateStatusMutation.mutate({
+            id: pendingReversal.order.id,
+            status: pendingReversal.status,
+            ...values,
+          })
+        }
+        isPending={updateStatusMutation.isPending}
+      />
+
+      <CoefficientWarningsDialog
+        open={!!pendingOverride}
+        onOpenChange={(open) => !open && setPendingOverride(null)}
+        warnings={pendingOverride?.warnings || []}
+        onConfirm={confirmCoefficientOverride}
+        isPending={createMutation.isPending || updateMutation.isPending}
+      />
+
       <CostCalculationDialog
         open={showCostCalculation}
         onOpenChange={setShowCostCalculation}
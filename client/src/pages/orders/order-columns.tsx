@@ -11,15 +11,19 @@ import {
   formatCurrency,
   BalanceBadge,
 } from "@/components/status-badge";
-import { ClipboardList, FileText, Trash2, Scissors, AlertTriangle } from "lucide-react";
+import { ClipboardList, FileText, Trash2, Scissors, AlertTriangle, Wrench, Tag, Truck } from "lucide-react";
 import { ORDER_STATUSES, type OrderStatus } from "@shared/schema";
+import { isReversedOrderStatus } from "@shared/order-status";
 import { format } from "date-fns";
 import type { OrderWithRelations, FabricWithStock } from "./types";
 
 interface ColumnActions {
   onWorkshopPrint: (order: OrderWithRelations) => void | Promise<void>;
   onCustomerPrint: (order: OrderWithRelations) => void | Promise<void>;
+  onJobSheetPrint: (order: OrderWithRelations) => void;
+  onLabelsPrint: (order: OrderWithRelations) => void;
   onCutting: (order: OrderWithRelations) => void;
+  onShipments: (order: OrderWithRelations) => void;
   onDelete: (order: OrderWithRelations) => void;
   onStatusChange: (id: string, status: string) => void;
   showProfit?: boolean;
@@ -74,7 +78,14 @@ export function getOrderColumns(actions: ColumnActions) {
       key: "sashesCount",
       header: "Створок",
       cell: (order: OrderWithRelations) => (
-        <Badge variant="secondary">{order.sashesCount || 0}</Badge>
+        <Badge
+          variant="secondary"
+          title={order.shippedSashesCount ? "Отгружено / всего" : undefined}
+        >
+          {order.shippedSashesCount
+            ? `${order.shippedSashesCount}/${order.sashesCount || 0}`
+            : order.sashesCount || 0}
+        </Badge>
       ),
     },
     {
@@ -98,11 +109,14 @@ export function getOrderColumns(actions: ColumnActions) {
               <SelectContent>
                 {ORDER_STATUSES.map((status) => {
                   const disabled = status === "Отгружен" && blockShipping;
+                  // Отменённый или возвращённый заказ закрыт
+                  const closed =
+                    isReversedOrderStatus(order.status) && status !== order.status;
                   return (
                     <SelectItem
                       key={status}
                       value={status}
-                      disabled={disabled}
+                      disabled={disabled || closed}
                       title={
                         disabled
                           ? `Укажите цену ткани: ${missingFabrics.join(", ")}`
@@ -186,6 +200,33 @@ export function getOrderColumns(actions: ColumnActions) {
           >
             <ClipboardList className="h-4 w-4" />
           </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            title="Задание в цех (PDF)"
+            onClick={() => actions.onJobSheetPrint(order)}
+            data-testid={`button-job-sheet-${order.id}`}
+          >
+            <Wrench className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            title="Этикетки на створки (PDF)"
+            onClick={() => actions.onLabelsPrint(order)}
+            data-testid={`button-labels-${order.id}`}
+          >
+            <Tag className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            title="Отгрузки и накладные"
+            onClick={() => actions.onShipments(order)}
+            data-testid={`button-shipments-${order.id}`}
+          >
+            <Truck className="h-4 w-4" />
+          </Button>
           <Button
             size="icon"
             variant="ghost"
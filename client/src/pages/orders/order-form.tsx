@@ -41,7 +41,6 @@ import {
 } from "lucide-react";
 import { formatCurrency } from "@/components/status-badge";
 import {
-  ORDER_STATUSES,
   type Dealer,
   type Fabric,
   type Cashbox,
@@ -74,6 +73,7 @@ interface OrderFormProps {
   onShowCostCalculation: (details: CostCalculationDetails) => void;
   onSashRemove?: (index: number) => void;
   calculatingSashes?: Set<number>;
+  sashWarnings?: Record<number, string[]>;
   isManualSalePrice?: boolean;
   onManualSalePriceChange?: (isManual: boolean) => void;
 }
@@ -95,6 +95,7 @@ export function OrderForm({
   onShowCostCalculation,
   onSashRemove,
   calculatingSashes,
+  sashWarnings,
   isManualSalePrice = false,
   onManualSalePriceChange,
 }: OrderFormProps) {
@@ -213,6 +214,19 @@ export function OrderForm({
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="dueDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Срок</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} value={field.value ?? ""} data-testid="input-due-date" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             <FormField
               control={form.control}
               name="dealerId"
@@ -299,30 +313,6 @@ export function OrderForm({
                 );
               }}
             />
-            <FormField
-              control={form.control}
-              name="status"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Статус</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Выберите статус" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {ORDER_STATUSES.map((status) => (
-                        <SelectItem key={status} value={status}>
-                          {status}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
           </div>
 
           {/* Компактная кнопка "Оплачено" в правом верхнем углу */}
@@ -463,6 +453,7 @@ export function OrderForm({
                   }}
                   onAutoEditConsumed={clearAutoEdit}
                   calculatingSashes={calculatingSashes}
+                  sashWarnings={sashWarnings}
                 />
               ))}
               <Button
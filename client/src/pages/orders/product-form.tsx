@@ -28,7 +28,7 @@ import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 import { Plus, Loader2, X, Check, Wallet } from "lucide-react";
 import { formatCurrency } from "@/components/status-badge";
-import { ORDER_STATUSES, type Dealer, type Cashbox } from "@shared/schema";
+import type { Dealer, Cashbox } from "@shared/schema";
 import type { ProductFormValues } from "./schemas";
 import type { ComponentWithStock } from "./types";
 
@@ -65,7 +65,7 @@ export function ProductForm({
       <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col min-h-0 flex-1">
         <div className="flex-1 overflow-y-auto space-y-4 pr-1">
         <div className="flex items-start gap-3">
-          <div className="grid grid-cols-3 gap-3 flex-1">
+          <div className="grid grid-cols-2 gap-3 flex-1">
             <FormField
               control={form.control}
               name="date"
@@ -125,30 +125,6 @@ export function ProductForm({
                 );
               }}
             />
-            <FormField
-              control={form.control}
-              name="status"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Статус</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Выберите статус" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {ORDER_STATUSES.map((status) => (
-                        <SelectItem key={status} value={status}>
-                          {status}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
           </div>
 
           {/* Компактная кнопка "Оплачено" в правом верхнем углу */}
@@ -0,0 +1,333 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { addDays, format } from "date-fns";
+import { Plus, X, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Dealer, Fabric, System } from "@shared/schema";
+import type { QuoteWithRevisions } from "./types";
+
+// Поля формы — строки инпутов; числа и полноту проверяет сервер
+const formSchema = z.object({
+  dealerId: z.string().min(1, "Выберите дилера"),
+  comment: z.string().optional(),
+  sashes: z
+    .array(
+      z.object({
+        width: z.string().min(1, "Ширина"),
+        height: z.string().min(1, "Высота"),
+        systemId: z.string().min(1, "Система"),
+        fabricId: z.string().min(1, "Ткань"),
+        controlSide: z.string().optional(),
+      })
+    )
+    .min(1, "Добавьте хотя бы одну створку"),
+  discountPercent: z.string(),
+  validUntil: z.string().min(1, "Укажите срок действия"),
+  revisionComment: z.string().optional(),
+});
+type QuoteFormValues = z.infer<typeof formSchema>;
+
+const emptySash = { width: "", height: "", systemId: "", fabricId: "", controlSide: "" };
+
+// Расчёт действует две недели, если не указано иное
+const defaultValidUntil = () => format(addDays(new Date(), 14), "yyyy-MM-dd");
+
+function toFormValues(quote: QuoteWithRevisions | null): QuoteFormValues {
+  const current = quote?.current;
+  return {
+    dealerId: quote?.dealerId || "",
+    comment: quote?.comment || "",
+    sashes: current
+      ? current.sashes.map((s) => ({
+          width: parseFloat(s.width).toString(),
+          height: parseFloat(s.height).toString(),
+          systemId: s.systemId || "",
+          fabricId: s.fabricId || "",
+          controlSide: s.controlSide || "",
+        }))
+      : [emptySash],
+    discountPercent: current ? parseFloat(current.discountPercent || "0").toString() : "0",
+    validUntil: defaultValidUntil(),
+    revisionComment: "",
+  };
+}
+
+interface QuoteEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // null — новый расчёт, иначе новая редакция на основе текущей
+  quote: QuoteWithRevisions | null;
+}
+
+export function QuoteEditorDialog({ open, onOpenChange, quote }: QuoteEditorDialogProps) {
+  const { toast } = useToast();
+  const { data: dealers = [] } = useQuery<Dealer[]>({ queryKey: ["/api/dealers"] });
+  const { data: systems = [] } = useQuery<System[]>({ queryKey: ["/api/systems"] });
+  const { data: fabrics = [] } = useQuery<Fabric[]>({ queryKey: ["/api/fabrics"] });
+
+  const form = useForm<QuoteFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(quote),
+  });
+  const sashes = useFieldArray({ control: form.control, name: "sashes" });
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(quote));
+  }, [open, quote, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: (values: QuoteFormValues) => {
+      const revision = {
+        sashes: values.sashes.map((s) => ({ ...s, controlSide: s.controlSide || null })),
+        discountPercent: values.discountPercent || "0",
+        validUntil: values.validUntil,
+        comment: values.revisionComment || null,
+      };
+      return quote
+        ? apiRequest("POST", `/api/quotes/${quote.id}/revisions`, revision)
+        : apiRequest("POST", "/api/quotes", {
+            dealerId: values.dealerId,
+            comment: values.comment || null,
+            revision,
+          });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({ title: quote ? "Новая редакция отправлена дилеру" : "Расчёт отправлен дилеру" });
+      onOpenChange(false);
+    },
+    onError: (e: Error) =>
+      toast({ title: "Ошибка", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {quote
+              ? `Расчёт №${quote.number}: редакция ${(quote.current?.revision ?? 0) + 1}`
+              : "Новый расчёт"}
+          </DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))}
+            className="space-y-4"
+          >
+            {!quote && (
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="dealerId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Дилер</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-quote-dealer">
+                            <SelectValue placeholder="Выберите дилера" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {dealers.map((d) => (
+                            <SelectItem key={d.id} value={d.id}>
+                              {d.fullName}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="comment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Клиент / адрес</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-medium">Створки</p>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => sashes.append(emptySash)}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Створка
+                </Button>
+              </div>
+              {sashes.fields.map((item, index) => (
+                <div key={item.id} className="flex items-center gap-2 mb-2">
+                  <FormField
+                    control={form.control}
+                    name={`sashes.${index}.width`}
+                    render={({ field }) => (
+                      <Input {...field} type="number" placeholder="Ширина, см" className="h-8 w-28" />
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`sashes.${index}.height`}
+                    render={({ field }) => (
+                      <Input {...field} type="number" placeholder="Высота, см" className="h-8 w-28" />
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`sashes.${index}.systemId`}
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger className="h-8 flex-1">
+                          <SelectValue placeholder="Система" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {systems.map((s) => (
+                            <SelectItem key={s.id} value={s.id}>
+                              {s.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`sashes.${index}.fabricId`}
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger className="h-8 flex-1">
+                          <SelectValue placeholder="Ткань" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {fabrics.map((f) => (
+                            <SelectItem key={f.id} value={f.id}>
+                              {f.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`sashes.${index}.controlSide`}
+                    render={({ field }) => (
+                      <Select value={field.value || undefined} onValueChange={field.onChange}>
+                        <SelectTrigger className="h-8 w-20">
+                          <SelectValue placeholder="Упр." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ЛР">ЛР</SelectItem>
+                          <SelectItem value="ПР">ПР</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={sashes.fields.length === 1}
+                    onClick={() => sashes.remove(index)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Цены считаются на сервере по прайс-листу дилера
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="discountPercent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Скидка, %</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="0.1" min="0" max="100" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="validUntil"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Действует до</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="revisionComment"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Комментарий к редакции</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Отправить дилеру
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
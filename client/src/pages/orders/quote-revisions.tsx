@@ -0,0 +1,97 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { formatCurrency } from "@/components/status-badge";
+import type { QuoteWithRevisions } from "./types";
+
+function fmtNum(v: string | null | undefined): string {
+  if (v == null || v === "") return "—";
+  const n = parseFloat(v);
+  return Number.isNaN(n) ? v : n.toString();
+}
+
+// Редакции расчёта колонками, последняя — справа. Размеры и цены,
+// изменившиеся относительно предыдущей редакции, подсвечены.
+export function QuoteRevisions({ quote }: { quote: QuoteWithRevisions }) {
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {quote.revisions.map((revision, index) => {
+        const previous = quote.revisions[index - 1];
+        const isCurrent = revision.id === quote.current?.id;
+        const changed = (a: string | null, b: string | null | undefined) =>
+          !!previous && fmtNum(a) !== fmtNum(b ?? null);
+
+        return (
+          <div
+            key={revision.id}
+            className={`min-w-[240px] flex-1 rounded-md border p-3 text-sm ${
+              isCurrent ? "border-primary" : ""
+            }`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium">Редакция {revision.revision}</span>
+              {isCurrent && <Badge variant="secondary">текущая</Badge>}
+            </div>
+            <p className="text-xs text-muted-foreground mb-2">
+              {revision.createdAt &&
+                format(new Date(revision.createdAt), "dd.MM.yyyy")}
+              {" · до "}
+              {format(new Date(revision.validUntil), "dd.MM.yyyy")}
+            </p>
+            <div className="space-y-1">
+              {revision.sashes.map((sash, i) => {
+                const before = previous?.sashes[i];
+                const sizeChanged =
+                  changed(sash.width, before?.width) ||
+                  changed(sash.height, before?.height);
+                return (
+                  <div key={sash.id} className="flex justify-between gap-2">
+                    <span className={sizeChanged ? "text-amber-600" : ""}>
+                      {fmtNum(sash.width)}×{fmtNum(sash.height)}{" "}
+                      <span className="text-xs text-muted-foreground">
+                        {sash.systemName || "-"} / {sash.fabricName || "-"}
+                      </span>
+                    </span>
+                    <span
+                      className={
+                        changed(sash.sashPrice, before?.sashPrice)
+                          ? "text-amber-600"
+                          : ""
+                      }
+                    >
+                      {formatCurrency(sash.sashPrice)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="mt-2 border-t pt-2 space-y-0.5">
+              <div className="flex justify-between text-muted-foreground">
+                <span>Сумма</span>
+                <span>{formatCurrency(revision.subtotal)}</span>
+              </div>
+              {parseFloat(revision.discountPercent || "0") > 0 && (
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Скидка</span>
+                  <span>{fmtNum(revision.discountPercent)}%</span>
+                </div>
+              )}
+              <div className="flex justify-between font-medium">
+                <span>Итого</span>
+                <span
+                  className={
+                    changed(revision.total, previous?.total) ? "text-amber-600" : ""
+                  }
+                >
+                  {formatCurrency(revision.total)}
+                </span>
+              </div>
+            </div>
+            {revision.comment && (
+              <p className="mt-2 text-xs text-muted-foreground">{revision.comment}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, FilePlus2, Plus, Trash2, X } from "lucide-react";
+import { DataTable } from "@/components/data-table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { formatCurrency } from "@/components/status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest, queryClient } from "@/lib/queryClient";
+import type { QuoteStatus } from "@shared/schema";
+import type { QuoteWithRevisions } from "./types";
+import { QuoteRevisions } from "./quote-revisions";
+import { QuoteEditorDialog } from "./quote-editor-dialog";
+import { CoefficientWarningsDialog } from "./coefficient-warnings-dialog";
+
+const statusLabels: Record<QuoteStatus, string> = {
+  open: "Ждёт ответа",
+  accepted: "Принят",
+  rejected: "Отклонён",
+};
+
+function QuoteStatusBadge({ quote }: { quote: QuoteWithRevisions }) {
+  if (quote.isExpired) return <Badge variant="outline">Истёк срок</Badge>;
+  const variant =
+    quote.status === "accepted"
+      ? "default"
+      : quote.status === "rejected"
+        ? "destructive"
+        : "secondary";
+  return <Badge variant={variant}>{statusLabels[quote.status as QuoteStatus]}</Badge>;
+}
+
+// Расчёты для дилеров: дилер торгуется, цех выпускает новые редакции,
+// принятый расчёт превращается в заказ
+export function QuotesTab() {
+  const { toast } = useToast();
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [editor, setEditor] = useState<{ quote: QuoteWithRevisions | null } | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  // Расчёт, который сервер не принял из-за предупреждений по коэффициентам
+  const [pendingOverride, setPendingOverride] = useState<{
+    id: string;
+    warnings: string[];
+  } | null>(null);
+
+  const { data: quotes = [], isLoading } = useQuery<QuoteWithRevisions[]>({
+    queryKey: ["/api/quotes"],
+  });
+  const viewing = quotes.find((q) => q.id === viewingId) || null;
+
+  const onError = (e: Error) =>
+    toast({ title: "Ошибка", description: e.message, variant: "destructive" });
+
+  const acceptMutation = useMutation({
+    mutationFn: ({
+      id,
+      skipCoefficientValidation,
+    }: {
+      id: string;
+      skipCoefficientValidation?: boolean;
+    }) =>
+      apiRequest("POST", `/api/quotes/${id}/accept`, { skipCoefficientValidation }),
+    onSuccess: async (res) => {
+      const { orderNumber } = await res.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({ title: `Создан заказ №${orderNumber}` });
+      setPendingOverride(null);
+      setViewingId(null);
+    },
+    onError: (error: Error, { id }) => {
+      if (error instanceof ApiError && error.coefficientWarning && error.errors) {
+        setPendingOverride({ id, warnings: error.errors });
+      } else {
+        onError(error);
+      }
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/quotes/${id}/reject`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({ title: "Расчёт отклонён" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/quotes/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({ title: "Расчёт удалён" });
+      setDeleteId(null);
+      setViewingId(null);
+    },
+    onError,
+  });
+
+  return (
+    <>
+      <div className="flex justify-end mb-4">
+        <Button onClick={() => setEditor({ quote: null })} data-testid="button-add-quote">
+          <Plus className="h-4 w-4 mr-2" />
+          Новый расчёт
+        </Button>
+      </div>
+
+      <DataTable
+        columns={[
+          {
+            key: "number",
+            header: "№",
+            cell: (q: QuoteWithRevisions) => q.number,
+          },
+          {
+            key: "dealer",
+            header: "Дилер",
+            cell: (q: QuoteWithRevisions) => q.dealerName || "-",
+          },
+          {
+            key: "comment",
+            header: "Клиент",
+            cell: (q: QuoteWithRevisions) => q.comment || "-",
+          },
+          {
+            key: "revision",
+            header: "Редакция",
+            cell: (q: QuoteWithRevisions) => q.current?.revision ?? "-",
+          },
+          {
+            key: "total",
+            header: "Сумма",
+            cell: (q: QuoteWithRevisions) => formatCurrency(q.current?.total),
+            className: "text-right",
+          },
+          {
+            key: "validUntil",
+            header: "Действует до",
+            cell: (q: QuoteWithRevisions) =>
+              q.current ? format(new Date(q.current.validUntil), "dd.MM.yyyy") : "-",
+          },
+          {
+            key: "status",
+            header: "Статус",
+            cell: (q: QuoteWithRevisions) => <QuoteStatusBadge quote={q} />,
+          },
+          {
+            key: "order",
+            header: "Заказ",
+            cell: (q: QuoteWithRevisions) => (q.orderNumber ? `№${q.orderNumber}` : "-"),
+          },
+        ]}
+        data={quotes}
+        isLoading={isLoading}
+        emptyMessage="Расчётов пока нет"
+        getRowKey={(q) => q.id}
+        onRowDoubleClick={(q) => setViewingId(q.id)}
+      />
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewingId(null)}>
+        <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <div className="flex items-center justify-between pr-8 gap-2">
+              <DialogTitle>
+                Расчёт №{viewing?.number} · {viewing?.dealerName}
+              </DialogTitle>
+              {viewing && <QuoteStatusBadge quote={viewing} />}
+            </div>
+          </DialogHeader>
+          {viewing && (
+            <div className="space-y-4">
+              {viewing.comment && (
+                <p className="text-sm text-muted-foreground">{viewing.comment}</p>
+              )}
+              <QuoteRevisions quote={viewing} />
+              <div className="flex flex-wrap justify-end gap-2">
+                {viewing.status !== "accepted" && (
+                  <Button variant="ghost" onClick={() => setDeleteId(viewing.id)}>
+                    <Trash2 className="h-4 w-4 mr-1.5" />
+                    Удалить
+                  </Button>
+                )}
+                {viewing.status === "open" && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={() => rejectMutation.mutate(viewing.id)}
+                      disabled={rejectMutation.isPending}
+                    >
+                      <X className="h-4 w-4 mr-1.5" />
+                      Отклонить
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => setEditor({ quote: viewing })}
+                    >
+                      <FilePlus2 className="h-4 w-4 mr-1.5" />
+                      Новая редакция
+                    </Button>
+                    <Button
+                      onClick={() => acceptMutation.mutate({ id: viewing.id })}
+                      disabled={viewing.isExpired || acceptMutation.isPending}
+                    >
+                      <Check className="h-4 w-4 mr-1.5" />
+                      Принять и создать заказ
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <QuoteEditorDialog
+        open={!!editor}
+        onOpenChange={(open) => !open && setEditor(null)}
+        quote={editor?.quote ?? null}
+      />
+
+      <CoefficientWarningsDialog
+        open={!!pendingOverride}
+        onOpenChange={(open) => !open && setPendingOverride(null)}
+        warnings={pendingOverride?.warnings || []}
+        onConfirm={() =>
+          pendingOverride &&
+          acceptMutation.mutate({ id: pendingOverride.id, skipCoefficientValidation: true })
+        }
+        isPending={acceptMutation.isPending}
+      />
+
+      <AlertDialog open={!!deleteId} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Удалить расчёт со всеми редакциями?</AlertDialogTitle>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteId && deleteMutation.mutate(deleteId)}>
+              Удалить
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2 } from "lucide-react";
+import type { MaterialsDisposition } from "@shared/schema";
+import type { OrderWithRelations } from "./types";
+
+interface ReverseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: OrderWithRelations | null;
+  status: "Отменён" | "Возврат";
+  onConfirm: (values: { disposition?: MaterialsDisposition; reason: string }) => void;
+  isPending: boolean;
+}
+
+// Отмена или возврат заказа: причина уходит дилеру, а по уже списанным
+// материалам нужно решить — вернуть на склад или списать в брак
+export function ReverseOrderDialog({
+  open,
+  onOpenChange,
+  order,
+  status,
+  onConfirm,
+  isPending,
+}: ReverseOrderDialogProps) {
+  const [reason, setReason] = useState("");
+  const [disposition, setDisposition] = useState<MaterialsDisposition>("restock");
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setDisposition("restock");
+    }
+  }, [open]);
+
+  // Материалы списываются при переходе в "Готов" или "Отгружен"
+  const materialsWrittenOff = order?.status === "Готов" || order?.status === "Отгружен";
+  const isReturn = status === "Возврат";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {isReturn ? "Оформить возврат" : "Отменить заказ"} №{order?.orderNumber}?
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Долг дилера по заказу будет снят, рассрочка закрыта. Заказ
+            останется в отчётах{isReturn ? " — с возвратом в дату оформления" : ""}.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="reversal-reason">Причина</Label>
+            <Textarea
+              id="reversal-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={isReturn ? "Брак, не подошёл размер…" : "Клиент отказался…"}
+              data-testid="input-reversal-reason"
+            />
+          </div>
+          {materialsWrittenOff && (
+            <div className="space-y-2">
+              <Label>Материалы заказа</Label>
+              <RadioGroup
+                value={disposition}
+                onValueChange={(value) => setDisposition(value as MaterialsDisposition)}
+                className="flex gap-4"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="restock" id="disposition-restock" />
+                  <Label htmlFor="disposition-restock" className="cursor-pointer text-sm">
+                    Вернуть на склад
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="scrap" id="disposition-scrap" />
+                  <Label htmlFor="disposition-scrap" className="cursor-pointer text-sm">
+                    Списать в брак
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Назад
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() =>
+              onConfirm({
+                disposition: materialsWrittenOff ? disposition : undefined,
+                reason,
+              })
+            }
+            disabled={isPending}
+            data-testid="button-confirm-reversal"
+          >
+            {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isReturn ? "Оформить возврат" : "Отменить заказ"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -28,6 +28,7 @@ interface RoomContainerProps {
   onAddSash: () => void;
   onAutoEditConsumed: () => void;
   calculatingSashes?: Set<number>;
+  sashWarnings?: Record<number, string[]>;
 }
 
 export function RoomContainer({
@@ -47,6 +48,7 @@ export function RoomContainer({
   onAddSash,
   onAutoEditConsumed,
   calculatingSashes,
+  sashWarnings,
 }: RoomContainerProps) {
   const [collapsed, setCollapsed] = useState(false);
   const [editing, setEditing] = useState(false);
@@ -179,6 +181,7 @@ export function RoomContainer({
               fieldId={fields[sashIndex]?.id || String(sashIndex)}
               onRemove={onRemoveSash}
               isCalculating={calculatingSashes?.has(sashIndex) || false}
+              warnings={sashWarnings?.[sashIndex]}
             />
           ))}
           <Button
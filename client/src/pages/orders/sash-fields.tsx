@@ -23,7 +23,7 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Button } from "@/components/ui/button";
-import { X, Loader2, Pin, Plus, GripVertical } from "lucide-react";
+import { X, Loader2, Pin, Plus, GripVertical, AlertTriangle } from "lucide-react";
 import { CONTROL_SIDES, type Fabric } from "@shared/schema";
 import { usePinnedSystems } from "@/hooks/use-pinned-systems";
 import { useMutation } from "@tanstack/react-query";
@@ -40,6 +40,7 @@ interface SashFieldsProps {
   fieldId: string;
   onRemove: (index: number) => void;
   isCalculating?: boolean;
+  warnings?: string[];
 }
 
 export function SashFields({
@@ -51,6 +52,7 @@ export function SashFields({
   fieldId,
   onRemove,
   isCalculating = false,
+  warnings,
 }: SashFieldsProps) {
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
     id: fieldId,
@@ -327,6 +329,15 @@ export function SashFields({
                     <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
                   </div>
                 )}
+                {!isCalculating && warnings && warnings.length > 0 && (
+                  <div
+                    className="absolute right-2 top-1/2 -translate-y-1/2"
+                    title={warnings.join("\n")}
+                    data-testid={`warning-coefficient-${index}`}
+                  >
+                    <AlertTriangle className="h-4 w-4 text-amber-500" />
+                  </div>
+                )}
               </div>
             </FormControl>
           </FormItem>
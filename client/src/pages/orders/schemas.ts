@@ -17,8 +17,8 @@ export const sashSchema = z.object({
 
 export const orderFormSchema = z.object({
   date: z.string().min(1, "Обязательное поле"),
+  dueDate: z.string().optional(), // срок, обещанный дилеру
   dealerId: z.string().optional(),
-  status: z.string().default("Новый"),
   salePrice: z.string().optional(),
   costPrice: z.string().optional(),
   comment: z.string().optional(),
@@ -35,7 +35,6 @@ export const productComponentSchema = z.object({
 export const productFormSchema = z.object({
   date: z.string().min(1, "Обязательное поле"),
   dealerId: z.string().optional(),
-  status: z.string().default("Новый"),
   salePrice: z.string().optional(),
   costPrice: z.string().optional(),
   comment: z.string().optional(),
@@ -0,0 +1,302 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FileText, Loader2, PenLine, Trash2, Truck } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { formatCurrency } from "@/components/status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { OrderShipments, OrderWithRelations, ShipmentWithSashes } from "./types";
+import { SignaturePad } from "./signature-pad";
+
+interface ShipmentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: OrderWithRelations | null;
+}
+
+const fmtNum = (v: string | null) => (v ? parseFloat(v).toString() : "—");
+
+// Отгрузка по комнатам: накладные на часть створок и подпись получателя.
+// Когда уезжает последняя створка, заказ становится "Отгружен"
+export function ShipmentsDialog({ open, onOpenChange, order }: ShipmentsDialogProps) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [driverName, setDriverName] = useState("");
+  const [signing, setSigning] = useState<ShipmentWithSashes | null>(null);
+  const [recipientName, setRecipientName] = useState("");
+  const [signature, setSignature] = useState<string | null>(null);
+
+  const queryKey = [`/api/orders/${order?.id}/shipments`];
+  const { data, isLoading } = useQuery<OrderShipments>({
+    queryKey,
+    enabled: open && !!order,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setSelected(new Set());
+      setDate(format(new Date(), "yyyy-MM-dd"));
+      setDriverName("");
+    }
+  }, [open]);
+
+  // Неотгруженные створки по комнатам
+  const rooms = useMemo(() => {
+    const grouped = new Map<string, OrderShipments["sashes"]>();
+    for (const sash of data?.sashes ?? []) {
+      if (sash.shipmentId) continue;
+      const room = sash.roomName || `Комната ${sash.room ?? 1}`;
+      grouped.set(room, [...(grouped.get(room) ?? []), sash]);
+    }
+    return Array.from(grouped.entries());
+  }, [data]);
+
+  const canShip = order?.status === "В производстве" || order?.status === "Готов";
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+  };
+  const onError = (e: Error) =>
+    toast({ title: "Ошибка", description: e.message, variant: "destructive" });
+
+  const shipMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/orders/${order!.id}/shipments`, {
+        date,
+        driverName: driverName || null,
+        sashIds: Array.from(selected),
+      }),
+    onSuccess: async (res) => {
+      const { shipment } = await res.json();
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+      setSelected(new Set());
+      toast({ title: `Накладная №${shipment.number} оформлена` });
+    },
+    onError,
+  });
+
+  const signMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PATCH", `/api/shipments/${signing!.id}/signature`, {
+        recipientName,
+        signature,
+      }),
+    onSuccess: () => {
+      invalidate();
+      setSigning(null);
+      toast({ title: "Подпись сохранена" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/shipments/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Накладная удалена" });
+    },
+    onError,
+  });
+
+  const toggle = (ids: string[], checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+
+  const openSigning = (shipment: ShipmentWithSashes) => {
+    setRecipientName(shipment.recipientName || "");
+    setSignature(null);
+    setSigning(shipment);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Отгрузки заказа №{order?.orderNumber}
+              {data && (
+                <span className="ml-2 text-sm font-normal text-muted-foreground">
+                  отгружено {data.shippedCount} из {data.totalCount}
+                </span>
+              )}
+            </DialogTitle>
+          </DialogHeader>
+
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+          ) : (
+            <div className="space-y-4">
+              {data?.shipments.map((shipment) => (
+                <div
+                  key={shipment.id}
+                  className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm"
+                >
+                  <div>
+                    <div className="font-medium">
+                      Накладная №{shipment.number} от{" "}
+                      {format(new Date(shipment.date), "dd.MM.yyyy")}
+                    </div>
+                    <div className="text-muted-foreground">
+                      Створок: {shipment.sashIds.length} · {formatCurrency(shipment.amount)}
+                      {shipment.driverName && ` · водитель ${shipment.driverName}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {shipment.signedAt ? (
+                      <Badge variant="secondary">Подписана: {shipment.recipientName}</Badge>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => openSigning(shipment)}>
+                        <PenLine className="h-4 w-4 mr-1" />
+                        Подпись
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Накладная (PDF)"
+                      onClick={() => window.open(`/api/shipments/${shipment.id}/pdf`, "_blank")}
+                    >
+                      <FileText className="h-4 w-4" />
+                    </Button>
+                    {canShip && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(shipment.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {canShip && rooms.length > 0 && (
+                <div className="space-y-3 rounded-md border p-3">
+                  <p className="text-sm font-medium">Новая отгрузка</p>
+                  {rooms.map(([room, sashes]) => {
+                    const ids = sashes.map((s) => s.id);
+                    const allChecked = ids.every((id) => selected.has(id));
+                    return (
+                      <div key={room} className="space-y-1">
+                        <label className="flex items-center gap-2 text-sm font-medium">
+                          <Checkbox
+                            checked={allChecked}
+                            onCheckedChange={(checked) => toggle(ids, !!checked)}
+                          />
+                          {room}
+                        </label>
+                        {sashes.map((sash) => (
+                          <label
+                            key={sash.id}
+                            className="flex items-center gap-2 pl-6 text-sm text-muted-foreground"
+                          >
+                            <Checkbox
+                              checked={selected.has(sash.id)}
+                              onCheckedChange={(checked) => toggle([sash.id], !!checked)}
+                            />
+                            {fmtNum(sash.width)}×{fmtNum(sash.height)}
+                            {sash.controlSide && ` · ${sash.controlSide}`}
+                          </label>
+                        ))}
+                      </div>
+                    );
+                  })}
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="shipment-date">Дата</Label>
+                      <Input
+                        id="shipment-date"
+                        type="date"
+                        value={date}
+                        onChange={(e) => setDate(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="shipment-driver">Водитель</Label>
+                      <Input
+                        id="shipment-driver"
+                        value={driverName}
+                        onChange={(e) => setDriverName(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <Button
+                    className="w-full"
+                    onClick={() => shipMutation.mutate()}
+                    disabled={selected.size === 0 || shipMutation.isPending}
+                    data-testid="button-create-shipment"
+                  >
+                    {shipMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Truck className="h-4 w-4 mr-2" />
+                    )}
+                    Отгрузить створок: {selected.size}
+                  </Button>
+                </div>
+              )}
+
+              {!canShip && data?.shipments.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Отгрузка по накладным — для заказов в производстве или готовых
+                </p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!signing} onOpenChange={(open) => !open && setSigning(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Подпись получателя — накладная №{signing?.number}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="recipient-name">Получатель</Label>
+              <Input
+                id="recipient-name"
+                value={recipientName}
+                onChange={(e) => setRecipientName(e.target.value)}
+              />
+            </div>
+            <SignaturePad onChange={setSignature} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSigning(null)}>
+              Отмена
+            </Button>
+            <Button
+              onClick={() => signMutation.mutate()}
+              disabled={!signature || !recipientName.trim() || signMutation.isPending}
+            >
+              {signMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -6,6 +6,11 @@ import type {
   Color,
   Multiplier,
   Component,
+  Quote,
+  QuoteRevision,
+  QuoteSash,
+  Shipment,
+  SashStage,
 } from "@shared/schema";
 
 export interface OrderSash {
@@ -20,6 +25,8 @@ export interface OrderSash {
   controlSide: string | null;
   sashPrice: string | null;
   sashCost: string | null;
+  room?: number | null;
+  roomName?: string | null;
   // Mobile-app fallback fields: populated when an order is created from a
   // mobile measurement and the dealer's selection doesn't map to a catalogue
   // entry (systemId/fabricId stay NULL).
@@ -40,6 +47,10 @@ export interface OrderWithRelations extends Order {
   dealerBalance?: number;
   dealerShippedDebt?: number;
   sashesCount?: number;
+  // Створок, уехавших по накладным (частичные отгрузки)
+  shippedSashesCount?: number;
+  // Сколько створок прошли каждый этап цеха
+  stageProgress?: Record<SashStage, number>;
   sashes?: OrderSash[];
   orderType?: OrderType;
   isPaid?: boolean;
@@ -49,11 +60,41 @@ export interface OrderWithRelations extends Order {
   fabricIds?: string[];
 }
 
+// Расчёт для дилера с редакциями (GET /api/quotes)
+export interface QuoteRevisionWithSashes extends QuoteRevision {
+  sashes: (QuoteSash & { systemName: string | null; fabricName: string | null })[];
+}
+
+export interface QuoteWithRevisions extends Quote {
+  dealerName: string | null;
+  orderNumber: number | null;
+  revisions: QuoteRevisionWithSashes[];
+  current: QuoteRevisionWithSashes | null;
+  isExpired: boolean;
+}
+
+// Накладные заказа (GET /api/orders/:id/shipments)
+export interface ShipmentWithSashes extends Shipment {
+  sashIds: string[];
+  amount: number;
+}
+
+export interface OrderShipments {
+  shipments: ShipmentWithSashes[];
+  sashes: (OrderSash & { shipmentId: string | null })[];
+  shippedCount: number;
+  totalCount: number;
+}
+
 export interface StockItem {
   quantity: number;
+  reserved?: number;
+  available?: number;
   lastPrice: number;
   avgPrice: number;
   totalValue: number;
+  // Цена единицы по методу учёта рабочего пространства
+  unitCost?: number;
 }
 
 export interface FabricWithStock extends Fabric {
@@ -1,5 +1,13 @@
 import { format } from "date-fns";
 import { formatCurrency } from "@/components/status-badge";
+import {
+  fallbackSashRate,
+  isZebraSystem,
+  parsePriceTier,
+  priceSashes,
+  type PricingResult,
+} from "@shared/pricing";
+import type { Dealer, Fabric, PriceTier } from "@shared/schema";
 import type {
   OrderWithRelations,
   FabricWithStock,
@@ -56,9 +64,11 @@ export function calculateCostPrice(
         if (fabric) {
           fabricName = fabric.name;
           fabricType = fabric.fabricType || "roll";
-          // Use warehouse avgPrice, fall back to manual fabric.price when no
+          // Use the warehouse unit cost (FIFO or moving average, per the
+          // workspace costing method), fall back to manual fabric.price when no
           // receipts exist yet (e.g. dealer set price from "Подробности заказа").
-          const stockPrice = fabric.stock?.avgPrice || 0;
+          const stockPrice =
+            fabric.stock?.unitCost || fabric.stock?.avgPrice || 0;
           const manualPrice = parseFloat(fabric.price?.toString() || "0") || 0;
           fabricAvgPrice = stockPrice > 0 ? stockPrice : manualPrice;
           fabricMultiplier = fabricType === "zebra" ? 2 : 1;
@@ -81,7 +91,8 @@ export function calculateCostPrice(
               component.sizeMultiplier || "1"
             );
             const unit = compStock?.unit || component.unit || "шт";
-            const avgPrice = compStock?.stock?.avgPrice || 0;
+            const avgPrice =
+              compStock?.stock?.unitCost || compStock?.stock?.avgPrice || 0;
 
             let sizeValue = 1;
             let componentPrice = 0;
@@ -185,6 +196,51 @@ export function calculateCostPrice(
   return { totalCost, sashDetails };
 }
 
+/**
+ * Цены створок формы заказа через прайс-лист дилера (shared/pricing).
+ * Без прайс-листа — коэффициент × тариф дилера (без дилера — множитель
+ * системы), как на сервере. Возвращает цену для каждой створки (null —
+ * коэффициента ещё нет) и итог заказа.
+ */
+export function calculateSalePrices(
+  sashes: (SashData & { coefficient?: string })[],
+  systems: SystemWithComponents[],
+  fabrics: Fabric[],
+  dealer: Dealer | null | undefined,
+  priceTier: PriceTier | null | undefined,
+  date?: string
+): { prices: (number | null)[]; pricing: PricingResult } {
+  const indices: number[] = [];
+  const input = sashes.flatMap((sash, i) => {
+    const coefficient = parseFloat(sash.coefficient || "0");
+    if (!(coefficient > 0)) return [];
+    const system = systems.find((s) => s.id === sash.systemId);
+    const multiplier = parseFloat(system?.multiplier?.value?.toString() || "1");
+    const isZebra = isZebraSystem(system?.systemKey);
+    indices.push(i);
+    return [
+      {
+        coefficient,
+        isZebra,
+        category: fabrics.find((f) => f.id === sash.fabricId)?.category,
+        quantity: parseFloat(sash.quantity || "1"),
+        fallbackRate: fallbackSashRate(dealer, isZebra, multiplier),
+      },
+    ];
+  });
+
+  const pricing = priceSashes(
+    priceTier ? parsePriceTier(priceTier) : null,
+    input,
+    date
+  );
+  const prices: (number | null)[] = sashes.map(() => null);
+  indices.forEach((sashIndex, i) => {
+    prices[sashIndex] = pricing.sashes[i].price;
+  });
+  return { prices, pricing };
+}
+
 const CONTROL_SIDE_LABELS: Record<string, string> = {
   лр: "Левое",
   лево: "Левое",
@@ -632,6 +688,15 @@ async function buildCuttingHtml(orderId: string): Promise<string> {
   }
 }
 
+// Задание в цех и этикетки на створки — PDF формируется на сервере
+export function printJobSheet(order: OrderWithRelations): void {
+  window.open(`/api/orders/${order.id}/job-sheet/pdf`, "_blank");
+}
+
+export function printSashLabels(order: OrderWithRelations): void {
+  window.open(`/api/orders/${order.id}/labels/pdf`, "_blank");
+}
+
 export async function printCustomerInvoice(
   order: OrderWithRelations
 ): Promise<void> {
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -24,8 +25,10 @@ import type {
   FabricWithStock,
   ComponentWithStock,
   SystemWithComponents,
+  QuoteWithRevisions,
 } from "./types";
 import { calculateCostPrice } from "./utils";
+import { QuoteRevisions } from "./quote-revisions";
 
 interface ViewOrderDialogProps {
   open: boolean;
@@ -73,6 +76,12 @@ export function ViewOrderDialog({
   const { toast } = useToast();
   const [isRecalculating, setIsRecalculating] = useState(false);
 
+  // Расчёт, из которого создан заказ, — все редакции для сравнения
+  const { data: quote } = useQuery<QuoteWithRevisions | null>({
+    queryKey: [`/api/orders/${order?.id}/quote`],
+    enabled: open && !!order,
+  });
+
   // Ткани заказа без цены за м² — себестоимость по ним считается как 0,
   // поэтому показываем предупреждение и блокируем отгрузку на сервере.
   // Цена «есть», если она либо из поступлений (avgPrice), либо вбита вручную
@@ -305,6 +314,17 @@ export function ViewOrderDialog({
                 </div>
               </>
             )}
+            {quote && (
+              <>
+                <Separator />
+                <div>
+                  <h4 className="font-medium mb-2">
+                    Расчёт №{quote.number}: редакции ({quote.revisions.length})
+                  </h4>
+                  <QuoteRevisions quote={quote} />
+                </div>
+              </>
+            )}
           </div>
         )}
       </DialogContent>
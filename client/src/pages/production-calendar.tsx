@@ -0,0 +1,391 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { Loader2 } from "lucide-react";
+import { Layout } from "@/components/layout";
+import { DataTable } from "@/components/data-table";
+import { StatusBadge } from "@/components/status-badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CapacityUnit, OrderStatus } from "@shared/schema";
+
+interface ScheduleDay {
+  date: string;
+  capacity: number;
+  planned: number;
+  due: number;
+  overbooked: boolean;
+  exception: boolean;
+  comment: string | null;
+}
+
+interface ScheduledOrder {
+  orderId: string;
+  orderNumber: number;
+  status: string | null;
+  dueDate: string | null;
+  load: number;
+  startDate: string | null;
+  readyDate: string | null;
+  late: boolean;
+}
+
+interface ProductionSchedule {
+  configured: boolean;
+  capacityUnit: CapacityUnit;
+  dailyCapacity: number | null;
+  workingDays: number[];
+  days: ScheduleDay[];
+  orders: ScheduledOrder[];
+}
+
+const UNIT_LABELS: Record<CapacityUnit, string> = {
+  sashes: "створок",
+  coefficient: "ед. коэффициента",
+};
+
+const WEEKDAYS = [
+  { value: 1, label: "Пн" },
+  { value: 2, label: "Вт" },
+  { value: 3, label: "Ср" },
+  { value: 4, label: "Чт" },
+  { value: 5, label: "Пт" },
+  { value: 6, label: "Сб" },
+  { value: 7, label: "Вс" },
+];
+
+const DAYS_AHEAD = 28;
+const QUERY_KEY = ["/api/production/calendar"];
+
+const fmtLoad = (v: number) => (Math.round(v * 10) / 10).toString();
+const fmtDate = (v: string | null) => (v ? format(new Date(v), "dd.MM.yyyy") : "—");
+
+export default function ProductionCalendarPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("production", "edit");
+
+  const [capacityUnit, setCapacityUnit] = useState<CapacityUnit>("sashes");
+  const [dailyCapacity, setDailyCapacity] = useState("");
+  const [workingDays, setWorkingDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [editingDay, setEditingDay] = useState<ScheduleDay | null>(null);
+  const [dayCapacity, setDayCapacity] = useState("");
+  const [dayComment, setDayComment] = useState("");
+
+  const { data, isLoading } = useQuery<ProductionSchedule>({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const res = await fetch(`/api/production/calendar?days=${DAYS_AHEAD}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Ошибка загрузки");
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setCapacityUnit(data.capacityUnit);
+    setDailyCapacity(data.dailyCapacity != null ? String(data.dailyCapacity) : "");
+    setWorkingDays(data.workingDays);
+  }, [data]);
+
+  const onError = (e: Error) =>
+    toast({ title: "Ошибка", description: e.message, variant: "destructive" });
+
+  const capacityMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", "/api/production/calendar/capacity", {
+        capacityUnit,
+        dailyCapacity: dailyCapacity ? dailyCapacity : null,
+        workingDays,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      toast({ title: "Мощность цеха сохранена" });
+    },
+    onError,
+  });
+
+  const dayMutation = useMutation({
+    mutationFn: (reset: boolean) =>
+      reset
+        ? apiRequest("DELETE", `/api/production/calendar/days/${editingDay!.date}`)
+        : apiRequest("PUT", `/api/production/calendar/days/${editingDay!.date}`, {
+            capacity: dayCapacity || "0",
+            comment: dayComment || null,
+          }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      setEditingDay(null);
+    },
+    onError,
+  });
+
+  const openDay = (day: ScheduleDay) => {
+    if (!canEdit) return;
+    setDayCapacity(String(day.capacity));
+    setDayComment(day.comment || "");
+    setEditingDay(day);
+  };
+
+  const toggleWeekday = (value: number, checked: boolean) =>
+    setWorkingDays((prev) =>
+      checked ? [...prev, value].sort((a, b) => a - b) : prev.filter((d) => d !== value)
+    );
+
+  // Сетка по неделям: первая строка начинается с понедельника
+  const leadingBlanks = data?.days.length
+    ? (new Date(data.days[0].date).getDay() || 7) - 1
+    : 0;
+  const overbookedCount = data?.days.filter((d) => d.overbooked).length ?? 0;
+  const unit = UNIT_LABELS[data?.capacityUnit ?? "sashes"];
+
+  const columns = [
+    {
+      key: "orderNumber",
+      header: "Заказ",
+      cell: (o: ScheduledOrder) => <span className="font-mono">№{o.orderNumber}</span>,
+    },
+    {
+      key: "status",
+      header: "Статус",
+      cell: (o: ScheduledOrder) => (
+        <StatusBadge status={(o.status as OrderStatus) || "Новый"} />
+      ),
+    },
+    {
+      key: "load",
+      header: "Объём",
+      cell: (o: ScheduledOrder) => fmtLoad(o.load),
+    },
+    {
+      key: "dueDate",
+      header: "Срок",
+      cell: (o: ScheduledOrder) => fmtDate(o.dueDate),
+    },
+    {
+      key: "startDate",
+      header: "Начало",
+      cell: (o: ScheduledOrder) => fmtDate(o.startDate),
+    },
+    {
+      key: "readyDate",
+      header: "Готовность",
+      cell: (o: ScheduledOrder) =>
+        o.late ? (
+          <Badge variant="destructive">{o.readyDate ? fmtDate(o.readyDate) : "не успевает"}</Badge>
+        ) : (
+          fmtDate(o.readyDate)
+        ),
+    },
+  ];
+
+  return (
+    <Layout title="Календарь цеха">
+      <div className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Мощность цеха</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1 w-48">
+                <Label>Единица</Label>
+                <Select
+                  value={capacityUnit}
+                  onValueChange={(v) => setCapacityUnit(v as CapacityUnit)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sashes">Створки, шт.</SelectItem>
+                    <SelectItem value="coefficient">Коэффициент</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 w-40">
+                <Label htmlFor="daily-capacity">В день</Label>
+                <Input
+                  id="daily-capacity"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={dailyCapacity}
+                  onChange={(e) => setDailyCapacity(e.target.value)}
+                  data-testid="input-daily-capacity"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Рабочие дни</Label>
+                <div className="flex gap-3 h-9 items-center">
+                  {WEEKDAYS.map((day) => (
+                    <label key={day.value} className="flex items-center gap-1 text-sm">
+                      <Checkbox
+                        checked={workingDays.includes(day.value)}
+                        onCheckedChange={(checked) => toggleWeekday(day.value, !!checked)}
+                      />
+                      {day.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              {canEdit && (
+                <Button
+                  onClick={() => capacityMutation.mutate()}
+                  disabled={capacityMutation.isPending}
+                  data-testid="button-save-capacity"
+                >
+                  {capacityMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Сохранить
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+        ) : !data?.configured ? (
+          <p className="text-sm text-muted-foreground">
+            Укажите дневную мощность цеха — заказы встанут в план по срокам
+          </p>
+        ) : (
+          <>
+            {overbookedCount > 0 && (
+              <p className="text-sm font-medium text-destructive">
+                Перегружено дней: {overbookedCount} — заказы со сроком на эти дни не успевают
+              </p>
+            )}
+            <div className="grid grid-cols-7 gap-2">
+              {WEEKDAYS.map((day) => (
+                <div key={day.value} className="text-xs text-center text-muted-foreground">
+                  {day.label}
+                </div>
+              ))}
+              {Array.from({ length: leadingBlanks }, (_, i) => (
+                <div key={`blank-${i}`} />
+              ))}
+              {data.days.map((day) => (
+                <button
+                  key={day.date}
+                  type="button"
+                  onClick={() => openDay(day)}
+                  className={`rounded-md border p-2 text-left text-xs space-y-1 ${
+                    day.overbooked
+                      ? "border-destructive bg-red-50 dark:bg-red-900/20"
+                      : day.capacity === 0
+                      ? "bg-muted"
+                      : ""
+                  }`}
+                  data-testid={`calendar-day-${day.date}`}
+                >
+                  <div className="flex justify-between font-medium">
+                    <span>{format(new Date(day.date), "d MMM", { locale: ru })}</span>
+                    {day.overbooked && <span className="text-destructive">Перегруз</span>}
+                  </div>
+                  {day.capacity > 0 ? (
+                    <>
+                      <Progress
+                        value={Math.min((day.planned / day.capacity) * 100, 100)}
+                        className="h-1.5"
+                      />
+                      <div className="text-muted-foreground">
+                        {fmtLoad(day.planned)} / {fmtLoad(day.capacity)}
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-muted-foreground">Выходной</div>
+                  )}
+                  {day.due > 0 && (
+                    <div className="text-muted-foreground">К сроку: {fmtLoad(day.due)}</div>
+                  )}
+                  {day.comment && <div className="truncate italic">{day.comment}</div>}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Загрузка и мощность — в {unit}</p>
+
+            <DataTable
+              columns={columns}
+              data={data.orders}
+              emptyMessage="Нет заказов в работе"
+              getRowKey={(o) => o.orderId}
+            />
+          </>
+        )}
+      </div>
+
+      <Dialog open={!!editingDay} onOpenChange={(open) => !open && setEditingDay(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingDay && format(new Date(editingDay.date), "d MMMM yyyy", { locale: ru })}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="day-capacity">Мощность ({unit}), 0 — выходной</Label>
+              <Input
+                id="day-capacity"
+                type="number"
+                min="0"
+                step="0.1"
+                value={dayCapacity}
+                onChange={(e) => setDayCapacity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="day-comment">Комментарий</Label>
+              <Input
+                id="day-comment"
+                value={dayComment}
+                onChange={(e) => setDayComment(e.target.value)}
+                placeholder="Праздник, инвентаризация…"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            {editingDay?.exception && (
+              <Button
+                variant="outline"
+                onClick={() => dayMutation.mutate(true)}
+                disabled={dayMutation.isPending}
+              >
+                Как обычно
+              </Button>
+            )}
+            <Button onClick={() => dayMutation.mutate(false)} disabled={dayMutation.isPending}>
+              {dayMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
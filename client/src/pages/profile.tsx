@@ -15,15 +15,39 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { PasswordStrength, PasswordHint } from "@/components/password-strength";
 import { format } from "date-fns";
 import { ru } from "date-fns/locale";
+import { useAuth } from "@/lib/auth";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  COSTING_METHODS,
+  REPORT_ACCESS_MINUTES,
+  type CostingMethod,
+} from "@shared/schema";
 
 interface UserProfile {
   id: string;
   email: string;
   name: string | null;
   hasReportPassword: boolean;
+  reportAccessMinutes: number;
+  costingMethod: CostingMethod;
   createdAt: string | null;
 }
 
+const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  fifo: "FIFO — по партиям поступления",
+  average: "Скользящая средняя",
+};
+
+function formatAccessMinutes(minutes: number) {
+  return minutes < 60 ? `${minutes} минут` : `${minutes / 60} ч`;
+}
+
 const profileSchema = z.object({
   email: z.string().email("Некорректный email"),
   name: z.string().optional(),
@@ -85,6 +109,7 @@ function PasswordInput({
 
 export default function ProfilePage() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [showEmailPassword, setShowEmailPassword] = useState(false);
 
   const { data: profile, isLoading } = useQuery<UserProfile>({
@@ -169,6 +194,7 @@ export default function ProfilePage() {
       apiRequest("POST", "/api/profile/report-password", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/report-access"] });
       reportPasswordForm.reset();
       toast({ 
         title: "Пароль для отчётов обновлён",
@@ -182,6 +208,31 @@ export default function ProfilePage() {
     },
   });
 
+  const updateCostingMethodMutation = useMutation({
+    mutationFn: (costingMethod: CostingMethod) =>
+      apiRequest("PATCH", "/api/profile/costing-method", { costingMethod }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+      toast({ title: "Метод учёта себестоимости обновлён" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateReportAccessMinutesMutation = useMutation({
+    mutationFn: (reportAccessMinutes: number) =>
+      apiRequest("PATCH", "/api/profile/report-access-minutes", { reportAccessMinutes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      toast({ title: "Срок доступа к отчётам обновлён" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+    },
+  });
+
   const onSubmitProfile = (data: ProfileFormValues) => {
     // Если email изменён, проверяем что пароль введён
     if (emailChanged && !data.currentPassword) {
@@ -381,12 +432,13 @@ export default function ProfilePage() {
           </CardContent>
         </Card>
 
-        {/* Пароль для отчётов */}
+        {/* Пароль для отчётов — настройка рабочего пространства, только владельцу */}
+        {can("settings", "edit") && (
         <Card>
           <CardHeader>
             <CardTitle>Пароль для отчётов</CardTitle>
             <CardDescription>
-              Защитите отчёты ДДС и Прибыль дополнительным паролем.
+              Защитите отчёты и суммы на сводке дополнительным паролем.
               {profile?.hasReportPassword && (
                 <span className="flex items-center gap-1 text-green-600 dark:text-green-400 mt-1">
                   <CheckCircle2 className="h-4 w-4" />
@@ -442,8 +494,63 @@ export default function ProfilePage() {
                 </Button>
               </form>
             </Form>
+            <div className="mt-6 space-y-2">
+              <p className="text-sm font-medium">Доступ после ввода пароля</p>
+              <Select
+                value={String(profile?.reportAccessMinutes ?? 30)}
+                onValueChange={(value) =>
+                  updateReportAccessMinutesMutation.mutate(Number(value))
+                }
+              >
+                <SelectTrigger className="w-full sm:w-[320px]" data-testid="select-report-access-minutes">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_ACCESS_MINUTES.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {formatAccessMinutes(minutes)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                Потом отчёты снова запросят пароль
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+        )}
+
+        {/* Метод учёта себестоимости — настройка рабочего пространства */}
+        {can("settings", "edit") && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Учёт себестоимости</CardTitle>
+            <CardDescription>
+              Как оцениваются материалы при списании по заказу и в расчёте себестоимости
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Select
+              value={profile?.costingMethod ?? "average"}
+              onValueChange={(value) =>
+                updateCostingMethodMutation.mutate(value as CostingMethod)
+              }
+            >
+              <SelectTrigger className="w-full sm:w-[320px]" data-testid="select-costing-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COSTING_METHODS.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {COSTING_METHOD_LABELS[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </CardContent>
         </Card>
+        )}
       </div>
     </Layout>
   );
@@ -0,0 +1,657 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Layout } from "@/components/layout";
+import { DataTable } from "@/components/data-table";
+import { formatCurrency } from "@/components/status-badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SearchableSelect } from "@/components/ui/searchable-select";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, Loader2, Eye, Trash2, X, Send, PackageCheck, Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+  Supplier,
+  Fabric,
+  Component,
+  WarehouseReceipt,
+} from "@shared/schema";
+import { format } from "date-fns";
+
+const lineSchema = z.object({
+  itemType: z.enum(["fabric", "component"]),
+  fabricId: z.string().optional(),
+  componentId: z.string().optional(),
+  quantity: z.string().min(1, "Обязательное поле"),
+  price: z.string().min(1, "Обязательное поле"),
+});
+
+const purchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, "Укажите поставщика"),
+  date: z.string().min(1, "Обязательное поле"),
+  expectedDate: z.string().optional(),
+  comment: z.string().optional(),
+  items: z.array(lineSchema).min(1, "Добавьте минимум одну позицию"),
+});
+
+type PurchaseOrderFormValues = z.infer<typeof purchaseOrderSchema>;
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Черновик",
+  sent: "Отправлен",
+  partially_received: "Частично получен",
+  closed: "Закрыт",
+};
+
+const STATUS_VARIANTS: Record<PurchaseOrderStatus, "secondary" | "default" | "outline"> = {
+  draft: "outline",
+  sent: "default",
+  partially_received: "default",
+  closed: "secondary",
+};
+
+interface PurchaseOrderRow extends PurchaseOrder {
+  supplier?: Supplier;
+  itemsCount: number;
+  receivedTotal: number;
+}
+
+interface PurchaseOrderLine extends PurchaseOrderItem {
+  receivedQuantity: number;
+  remainingQuantity: number;
+  fabric?: Fabric;
+  component?: Component;
+}
+
+interface PurchaseOrderDetails extends PurchaseOrder {
+  supplier?: Supplier;
+  items: PurchaseOrderLine[];
+  receipts: WarehouseReceipt[];
+}
+
+const emptyLine = {
+  itemType: "fabric" as const,
+  fabricId: "",
+  componentId: "",
+  quantity: "",
+  price: "",
+};
+
+function StatusBadge({ status }: { status: string }) {
+  const key = status as PurchaseOrderStatus;
+  return <Badge variant={STATUS_VARIANTS[key] || "outline"}>{STATUS_LABELS[key] || status}</Badge>;
+}
+
+export default function PurchaseOrdersPage() {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [receiveQuantities, setReceiveQuantities] = useState<Record<string, string>>({});
+  const [receiveDate, setReceiveDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const { data: orders = [], isLoading } = useQuery<PurchaseOrderRow[]>({
+    queryKey: ["/api/purchase-orders"],
+  });
+  const { data: suppliers = [] } = useQuery<Supplier[]>({ queryKey: ["/api/suppliers"] });
+  const { data: fabrics = [] } = useQuery<Fabric[]>({ queryKey: ["/api/fabrics"] });
+  const { data: components = [] } = useQuery<Component[]>({ queryKey: ["/api/components"] });
+
+  const { data: viewing } = useQuery<PurchaseOrderDetails>({
+    queryKey: ["/api/purchase-orders", viewingId],
+    enabled: !!viewingId,
+  });
+
+  const form = useForm<PurchaseOrderFormValues>({
+    resolver: zodResolver(purchaseOrderSchema),
+    defaultValues: {
+      supplierId: "",
+      date: format(new Date(), "yyyy-MM-dd"),
+      expectedDate: "",
+      comment: "",
+      items: [emptyLine],
+    },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/warehouse"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/warehouse/purchase-suggestions"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Ошибка", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: PurchaseOrderFormValues) =>
+      editingId
+        ? apiRequest("PUT", `/api/purchase-orders/${editingId}`, data)
+        : apiRequest("POST", "/api/purchase-orders", data),
+    onSuccess: () => {
+      invalidate();
+      setIsFormOpen(false);
+      toast({ title: "Успешно", description: editingId ? "Заказ сохранён" : "Заказ создан" });
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: "send" | "close" }) =>
+      apiRequest("POST", `/api/purchase-orders/${id}/${action}`),
+    onSuccess: () => invalidate(),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/purchase-orders/${id}`),
+    onSuccess: () => {
+      invalidate();
+      setViewingId(null);
+      toast({ title: "Успешно", description: "Заказ удалён" });
+    },
+    onError,
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: (order: PurchaseOrderDetails) =>
+      apiRequest("POST", `/api/purchase-orders/${order.id}/receive`, {
+        date: receiveDate,
+        items: order.items.map((line) => ({
+          purchaseOrderItemId: line.id,
+          quantity: receiveQuantities[line.id] || "0",
+        })),
+      }),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      setReceiveQuantities({});
+      toast({ title: "Успешно", description: "Поступление по заказу проведено" });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    form.reset({
+      supplierId: "",
+      date: format(new Date(), "yyyy-MM-dd"),
+      expectedDate: "",
+      comment: "",
+      items: [emptyLine],
+    });
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (order: PurchaseOrderDetails) => {
+    setEditingId(order.id);
+    form.reset({
+      supplierId: order.supplierId,
+      date: order.date,
+      expectedDate: order.expectedDate || "",
+      comment: order.comment || "",
+      items: order.items.map((line) => ({
+        itemType: line.itemType as "fabric" | "component",
+        fabricId: line.fabricId || "",
+        componentId: line.componentId || "",
+        quantity: line.quantity,
+        price: line.price,
+      })),
+    });
+    setViewingId(null);
+    setIsFormOpen(true);
+  };
+
+  const openView = (order: PurchaseOrderRow) => {
+    setReceiveQuantities({});
+    setReceiveDate(format(new Date(), "yyyy-MM-dd"));
+    setViewingId(order.id);
+  };
+
+  const columns = [
+    {
+      key: "number",
+      header: "№",
+      cell: (o: PurchaseOrderRow) => <span className="font-mono">{o.number}</span>,
+    },
+    {
+      key: "date",
+      header: "Дата",
+      cell: (o: PurchaseOrderRow) => format(new Date(o.date), "dd.MM.yyyy"),
+    },
+    {
+      key: "supplier",
+      header: "Поставщик",
+      cell: (o: PurchaseOrderRow) => o.supplier?.name || "-",
+    },
+    {
+      key: "expectedDate",
+      header: "Ожидается",
+      cell: (o: PurchaseOrderRow) =>
+        o.expectedDate ? format(new Date(o.expectedDate), "dd.MM.yyyy") : "-",
+    },
+    {
+      key: "status",
+      header: "Статус",
+      cell: (o: PurchaseOrderRow) => <StatusBadge status={o.status} />,
+    },
+    {
+      key: "total",
+      header: "Заказано",
+      cell: (o: PurchaseOrderRow) => <span className="font-mono">{formatCurrency(o.total)}</span>,
+      className: "text-right",
+    },
+    {
+      key: "receivedTotal",
+      header: "Получено",
+      cell: (o: PurchaseOrderRow) => (
+        <span className="font-mono">{formatCurrency(o.receivedTotal)}</span>
+      ),
+      className: "text-right",
+    },
+    {
+      key: "actions",
+      header: "",
+      cell: (o: PurchaseOrderRow) => (
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={() => openView(o)}
+          data-testid={`button-view-po-${o.id}`}
+        >
+          <Eye className="h-4 w-4" />
+        </Button>
+      ),
+    },
+  ];
+
+  const itemName = (line: PurchaseOrderLine) =>
+    line.fabric?.name || line.component?.name || "-";
+
+  const isOpen = viewing && (viewing.status === "sent" || viewing.status === "partially_received");
+
+  return (
+    <Layout title="Заказы поставщикам">
+      <div className="flex justify-end mb-4">
+        <Button onClick={openCreate} data-testid="button-add-purchase-order">
+          <Plus className="h-4 w-4 mr-2" />
+          Новый заказ
+        </Button>
+      </div>
+
+      <DataTable
+        columns={columns}
+        data={orders}
+        isLoading={isLoading}
+        emptyMessage="Нет заказов поставщикам"
+        getRowKey={(o) => o.id}
+        onRowDoubleClick={openView}
+      />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Редактировать заказ" : "Новый заказ поставщику"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="supplierId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Поставщик</FormLabel>
+                      <FormControl>
+                        <SearchableSelect
+                          options={suppliers.map((s) => ({ value: s.id, label: s.name }))}
+                          value={field.value}
+                          onValueChange={field.onChange}
+                          placeholder="Выберите поставщика"
+                          searchPlaceholder="Поиск поставщика..."
+                          emptyText="Поставщик не найден"
+                          data-testid="select-po-supplier"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Дата</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-po-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expectedDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ожидаемая дата</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-po-expected-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                {fields.map((item, index) => {
+                  const itemType = form.watch(`items.${index}.itemType`);
+                  return (
+                    <div key={item.id} className="grid grid-cols-12 gap-2 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.itemType`}
+                        render={({ field }) => (
+                          <FormItem className="col-span-3">
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid={`select-po-item-type-${index}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="fabric">Ткань</SelectItem>
+                                <SelectItem value="component">Комплектующее</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={itemType === "fabric" ? `items.${index}.fabricId` : `items.${index}.componentId`}
+                        render={({ field }) => (
+                          <FormItem className="col-span-4">
+                            <FormControl>
+                              <SearchableSelect
+                                options={(itemType === "fabric" ? fabrics : components).map((i) => ({
+                                  value: i.id,
+                                  label: i.name,
+                                }))}
+                                value={field.value || ""}
+                                onValueChange={field.onChange}
+                                placeholder={itemType === "fabric" ? "Выберите ткань" : "Выберите комплектующее"}
+                                data-testid={`select-po-item-${index}`}
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.quantity`}
+                        render={({ field }) => (
+                          <FormItem className="col-span-2">
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                placeholder="Кол-во"
+                                {...field}
+                                data-testid={`input-po-quantity-${index}`}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.price`}
+                        render={({ field }) => (
+                          <FormItem className="col-span-2">
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                placeholder="Цена"
+                                {...field}
+                                data-testid={`input-po-price-${index}`}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        className="col-span-1"
+                        onClick={() => remove(index)}
+                        disabled={fields.length === 1}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <Button type="button" variant="outline" size="sm" onClick={() => append(emptyLine)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Добавить позицию
+                </Button>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="comment"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Комментарий</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} data-testid="input-po-comment" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-submit-po">
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editingId ? "Сохранить" : "Создать"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewingId} onOpenChange={(open) => !open && setViewingId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              Заказ поставщику №{viewing?.number}
+              {viewing && <StatusBadge status={viewing.status} />}
+            </DialogTitle>
+          </DialogHeader>
+          {!viewing ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Поставщик</p>
+                  <p className="font-medium">{viewing.supplier?.name || "-"}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Дата</p>
+                  <p>{format(new Date(viewing.date), "dd.MM.yyyy")}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Ожидается</p>
+                  <p>{viewing.expectedDate ? format(new Date(viewing.expectedDate), "dd.MM.yyyy") : "-"}</p>
+                </div>
+              </div>
+              {viewing.comment && <p className="text-sm text-muted-foreground">{viewing.comment}</p>}
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-muted-foreground">
+                    <th className="text-left py-2 font-medium">Позиция</th>
+                    <th className="text-right py-2 font-medium">Заказано</th>
+                    <th className="text-right py-2 font-medium">Получено</th>
+                    <th className="text-right py-2 font-medium">Осталось</th>
+                    <th className="text-right py-2 font-medium">Цена</th>
+                    {isOpen && <th className="text-right py-2 font-medium w-28">Принять</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {viewing.items.map((line) => (
+                    <tr key={line.id} className="border-b last:border-0">
+                      <td className="py-2">{itemName(line)}</td>
+                      <td className="py-2 text-right font-mono">{parseFloat(line.quantity).toFixed(2)}</td>
+                      <td className="py-2 text-right font-mono">{line.receivedQuantity.toFixed(2)}</td>
+                      <td className="py-2 text-right font-mono">{line.remainingQuantity.toFixed(2)}</td>
+                      <td className="py-2 text-right font-mono">{formatCurrency(line.price)}</td>
+                      {isOpen && (
+                        <td className="py-1 pl-2">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            className="h-8 text-right"
+                            placeholder={line.remainingQuantity.toFixed(2)}
+                            value={receiveQuantities[line.id] ?? ""}
+                            onChange={(e) =>
+                              setReceiveQuantities((prev) => ({ ...prev, [line.id]: e.target.value }))
+                            }
+                            data-testid={`input-receive-${line.id}`}
+                          />
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {viewing.receipts.length > 0 && (
+                <>
+                  <Separator />
+                  <div className="space-y-1 text-sm">
+                    <p className="font-medium">Поступления по заказу</p>
+                    {viewing.receipts.map((r) => (
+                      <div key={r.id} className="flex justify-between text-muted-foreground">
+                        <span>
+                          {format(new Date(r.date), "dd.MM.yyyy")}
+                          {r.isDraft && " · черновик"}
+                        </span>
+                        <span className="font-mono">{formatCurrency(r.total)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              <DialogFooter className="flex-wrap gap-2">
+                {viewing.status === "draft" && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate(viewing.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid="button-delete-po"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Удалить
+                    </Button>
+                    <Button variant="outline" onClick={() => openEdit(viewing)} data-testid="button-edit-po">
+                      Редактировать
+                    </Button>
+                    <Button
+                      onClick={() => actionMutation.mutate({ id: viewing.id, action: "send" })}
+                      disabled={actionMutation.isPending}
+                      data-testid="button-send-po"
+                    >
+                      <Send className="h-4 w-4 mr-2" />
+                      Отправить поставщику
+                    </Button>
+                  </>
+                )}
+                {isOpen && (
+                  <>
+                    <Input
+                      type="date"
+                      className="w-40"
+                      value={receiveDate}
+                      onChange={(e) => setReceiveDate(e.target.value)}
+                      data-testid="input-receive-date"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => actionMutation.mutate({ id: viewing.id, action: "close" })}
+                      disabled={actionMutation.isPending}
+                      data-testid="button-close-po"
+                    >
+                      <Lock className="h-4 w-4 mr-2" />
+                      Закрыть
+                    </Button>
+                    <Button
+                      onClick={() => receiveMutation.mutate(viewing)}
+                      disabled={receiveMutation.isPending}
+                      data-testid="button-receive-po"
+                    >
+                      {receiveMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <PackageCheck className="h-4 w-4 mr-2" />
+                      )}
+                      Принять
+                    </Button>
+                  </>
+                )}
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Layout } from "@/components/layout";
+import { ProtectedReport } from "@/components/protected-report";
 import { FilterBar } from "@/components/filter-bar";
 import { formatCurrency, BalanceBadge } from "@/components/status-badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -112,126 +113,128 @@ export default function ARAPReportPage() {
   const currentDebtDealers = (report?.dealers || []).filter((d) => getBalance(d) < 0).length;
 
   return (
-    <Layout
-      title="Дебиторка и Кредиторка"
-      breadcrumbs={[{ label: "Отчеты", href: "/reports/ar-ap" }, { label: "Дебиторка/Кредиторка" }]}
-    >
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">
-              {debtMode === "shipped" ? "Дебиторка (факт.)" : "Дебиторка (с ожид.)"}
-            </CardTitle>
-            <TrendingUp className="h-4 w-4 text-green-600" />
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-mono font-bold text-green-600" data-testid="text-total-ar">
-              {formatCurrency(Math.abs(currentTotalAR || 0))}
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Кредиторка (мы должны)</CardTitle>
-            <TrendingDown className="h-4 w-4 text-orange-600" />
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-mono font-bold text-orange-600" data-testid="text-total-ap">
-              {formatCurrency(Math.abs(report?.totalAP || 0))}
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Дилеров с долгом</CardTitle>
-            <Users className="h-4 w-4 text-blue-600" />
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-mono font-bold" data-testid="text-dealers-with-debt">
-              {currentDebtDealers}
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Поставщиков с долгом</CardTitle>
-            <Building2 className="h-4 w-4 text-purple-600" />
-          </CardHeader>
-          <CardContent>
-            <p className="text-2xl font-mono font-bold" data-testid="text-suppliers-with-debt">
-              {(report?.suppliers || []).filter(s => s.balance > 0).length}
-            </p>
-          </CardContent>
-        </Card>
-      </div>
-
-      <FilterBar
-        search={search}
-        onSearchChange={setSearch}
-        searchPlaceholder="Поиск..."
-        onReset={() => setSearch("")}
-      />
-
-      <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
-          <TabsList>
-            <TabsTrigger value="dealers" className="gap-2" data-testid="tab-dealers">
-              <Users className="h-4 w-4" />
-              Дилеры ({filteredDealers.length})
-            </TabsTrigger>
-            <TabsTrigger value="suppliers" className="gap-2" data-testid="tab-suppliers">
-              <Building2 className="h-4 w-4" />
-              Поставщики ({filteredSuppliers.length})
-            </TabsTrigger>
-          </TabsList>
-
-          {activeTab === "dealers" && (
-            <div className="flex gap-1 rounded-lg border p-0.5">
-              <Button
-                variant={debtMode === "shipped" ? "default" : "ghost"}
-                size="sm"
-                className="h-7 text-xs gap-1.5"
-                onClick={() => setDebtMode("shipped")}
-              >
-                <Truck className="h-3.5 w-3.5" />
-                Фактический долг
-              </Button>
-              <Button
-                variant={debtMode === "all" ? "default" : "ghost"}
-                size="sm"
-                className="h-7 text-xs gap-1.5"
-                onClick={() => setDebtMode("all")}
-              >
-                <Package className="h-3.5 w-3.5" />
-                С ожидаемыми
-              </Button>
-            </div>
-          )}
+    <ProtectedReport title="Дебиторка и Кредиторка" fallbackUrl="/dashboard">
+      <Layout
+        title="Дебиторка и Кредиторка"
+        breadcrumbs={[{ label: "Отчеты", href: "/reports/ar-ap" }, { label: "Дебиторка/Кредиторка" }]}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {debtMode === "shipped" ? "Дебиторка (факт.)" : "Дебиторка (с ожид.)"}
+              </CardTitle>
+              <TrendingUp className="h-4 w-4 text-green-600" />
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-mono font-bold text-green-600" data-testid="text-total-ar">
+                {formatCurrency(Math.abs(currentTotalAR || 0))}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Кредиторка (мы должны)</CardTitle>
+              <TrendingDown className="h-4 w-4 text-orange-600" />
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-mono font-bold text-orange-600" data-testid="text-total-ap">
+                {formatCurrency(Math.abs(report?.totalAP || 0))}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Дилеров с долгом</CardTitle>
+              <Users className="h-4 w-4 text-blue-600" />
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-mono font-bold" data-testid="text-dealers-with-debt">
+                {currentDebtDealers}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Поставщиков с долгом</CardTitle>
+              <Building2 className="h-4 w-4 text-purple-600" />
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-mono font-bold" data-testid="text-suppliers-with-debt">
+                {(report?.suppliers || []).filter(s => s.balance > 0).length}
+              </p>
+            </CardContent>
+          </Card>
         </div>
 
-        <TabsContent value="dealers">
-          <DataTable
-            columns={dealerColumns}
-            data={filteredDealers}
-            isLoading={isLoading}
-            emptyMessage="Дилеры не найдены"
-            getRowKey={(d) => d.id}
-          />
-        </TabsContent>
-
-        <TabsContent value="suppliers">
-          <DataTable
-            columns={supplierColumns}
-            data={filteredSuppliers}
-            isLoading={isLoading}
-            emptyMessage="Поставщики не найдены"
-            getRowKey={(s) => s.id}
-          />
-        </TabsContent>
-      </Tabs>
-    </Layout>
+        <FilterBar
+          search={search}
+          onSearchChange={setSearch}
+          searchPlaceholder="Поиск..."
+          onReset={() => setSearch("")}
+        />
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+            <TabsList>
+              <TabsTrigger value="dealers" className="gap-2" data-testid="tab-dealers">
+                <Users className="h-4 w-4" />
+                Дилеры ({filteredDealers.length})
+              </TabsTrigger>
+              <TabsTrigger value="suppliers" className="gap-2" data-testid="tab-suppliers">
+                <Building2 className="h-4 w-4" />
+                Поставщики ({filteredSuppliers.length})
+              </TabsTrigger>
+            </TabsList>
+
+            {activeTab === "dealers" && (
+              <div className="flex gap-1 rounded-lg border p-0.5">
+                <Button
+                  variant={debtMode === "shipped" ? "default" : "ghost"}
+                  size="sm"
+                  className="h-7 text-xs gap-1.5"
+                  onClick={() => setDebtMode("shipped")}
+                >
+                  <Truck className="h-3.5 w-3.5" />
+                  Фактический долг
+                </Button>
+                <Button
+                  variant={debtMode === "all" ? "default" : "ghost"}
+                  size="sm"
+                  className="h-7 text-xs gap-1.5"
+                  onClick={() => setDebtMode("all")}
+                >
+                  <Package className="h-3.5 w-3.5" />
+                  С ожидаемыми
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <TabsContent value="dealers">
+            <DataTable
+              columns={dealerColumns}
+              data={filteredDealers}
+              isLoading={isLoading}
+              emptyMessage="Дилеры не найдены"
+              getRowKey={(d) => d.id}
+            />
+          </TabsContent>
+
+          <TabsContent value="suppliers">
+            <DataTable
+              columns={supplierColumns}
+              data={filteredSuppliers}
+              isLoading={isLoading}
+              emptyMessage="Поставщики не найдены"
+              getRowKey={(s) => s.id}
+            />
+          </TabsContent>
+        </Tabs>
+      </Layout>
+    </ProtectedReport>
   );
 }
@@ -10,12 +10,25 @@ import { TrendingUp, ShoppingCart, DollarSign, Percent } from "lucide-react";
 import { ORDER_STATUSES, type Order, type OrderStatus, type Dealer } from "@shared/schema";
 import { format } from "date-fns";
 
+// Строка отчёта: продажа, сторно возврата или брак отменённого заказа.
+// Суммы приходят уже со знаком, дата — дата строки
+type ProfitReportLine = Order & {
+  dealer?: Dealer;
+  lineKind: "sale" | "return" | "scrap";
+};
+
+const lineKindLabels: Record<ProfitReportLine["lineKind"], string | null> = {
+  sale: null,
+  return: "сторно",
+  scrap: "брак",
+};
+
 interface ProfitReport {
   totalSales: number;
   totalCost: number;
   grossProfit: number;
   profitMargin: number;
-  orders: (Order & { dealer?: Dealer })[];
+  orders: ProfitReportLine[];
 }
 
 export default function ProfitReportPage() {
@@ -70,7 +83,16 @@ export default function ProfitReportPage() {
     {
       key: "status",
       header: "Статус",
-      cell: (order: Order) => <StatusBadge status={order.status as OrderStatus || "Новый"} />,
+      cell: (order: ProfitReportLine) => (
+        <div className="flex items-center gap-1.5">
+          <StatusBadge status={order.status as OrderStatus || "Новый"} />
+          {lineKindLabels[order.lineKind] && (
+            <span className="text-xs text-muted-foreground">
+              {lineKindLabels[order.lineKind]}
+            </span>
+          )}
+        </div>
+      ),
     },
     {
       key: "salePrice",
@@ -100,7 +122,7 @@ export default function ProfitReportPage() {
         const salePrice = parseFloat(order.salePrice?.toString() || "0");
         const costPrice = parseFloat(order.costPrice?.toString() || "0");
         const profit = salePrice - costPrice;
-        const margin = salePrice > 0 ? (profit / salePrice) * 100 : 0;
+        const margin = salePrice !== 0 ? (profit / Math.abs(salePrice)) * 100 : 0;
         return (
           <span className={`font-mono ${margin >= 0 ? "text-green-600" : "text-red-600"}`}>
             {margin.toFixed(1)}%
@@ -203,7 +225,7 @@ export default function ProfitReportPage() {
           data={report?.orders || []}
           isLoading={isLoading}
           emptyMessage="Заказы не найдены"
-          getRowKey={(order) => order.id}
+          getRowKey={(order) => `${order.id}-${order.lineKind}`}
         />
       </Layout>
     </ProtectedReport>
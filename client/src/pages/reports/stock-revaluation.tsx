@@ -0,0 +1,174 @@
+import { useQuery } from "@tanstack/react-query";
+import { Layout } from "@/components/layout";
+import { ProtectedReport } from "@/components/protected-report";
+import { formatCurrency } from "@/components/status-badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataTable } from "@/components/data-table";
+import { Badge } from "@/components/ui/badge";
+import { Scale, Package, ArrowUpDown } from "lucide-react";
+import type { CostingMethod } from "@shared/schema";
+
+interface RevaluationItem {
+  itemType: "fabric" | "component";
+  itemId: string;
+  name: string;
+  unit: string;
+  quantity: number;
+  legacyUnitCost: number;
+  legacyValue: number;
+  fifoValue: number;
+  averageValue: number;
+  value: number;
+  difference: number;
+}
+
+interface StockRevaluationReport {
+  method: CostingMethod;
+  items: RevaluationItem[];
+  totals: {
+    legacyValue: number;
+    fifoValue: number;
+    averageValue: number;
+    value: number;
+    difference: number;
+  };
+}
+
+const METHOD_LABELS: Record<CostingMethod, string> = {
+  fifo: "FIFO",
+  average: "Скользящая средняя",
+};
+
+function DifferenceCell({ value }: { value: number }) {
+  if (Math.abs(value) < 0.005) {
+    return <span className="font-mono text-muted-foreground">0</span>;
+  }
+  return (
+    <span className={`font-mono font-semibold ${value > 0 ? "text-green-600" : "text-red-600"}`}>
+      {value > 0 ? "+" : ""}
+      {formatCurrency(value)}
+    </span>
+  );
+}
+
+export default function StockRevaluationReportPage() {
+  const { data: report, isLoading } = useQuery<StockRevaluationReport>({
+    queryKey: ["/api/reports/stock-revaluation"],
+  });
+
+  const columns = [
+    {
+      key: "name",
+      header: "Позиция",
+      cell: (i: RevaluationItem) => (
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{i.name}</span>
+          <Badge variant="outline">{i.itemType === "fabric" ? "Ткань" : "Комплектующее"}</Badge>
+        </div>
+      ),
+    },
+    {
+      key: "quantity",
+      header: "Остаток",
+      cell: (i: RevaluationItem) => (
+        <span className="font-mono">
+          {formatCurrency(i.quantity)} {i.unit}
+        </span>
+      ),
+      className: "text-right",
+    },
+    {
+      key: "legacyValue",
+      header: "По средней за всё время",
+      cell: (i: RevaluationItem) => (
+        <span className="font-mono text-muted-foreground">{formatCurrency(i.legacyValue)}</span>
+      ),
+      className: "text-right",
+    },
+    {
+      key: "fifoValue",
+      header: "FIFO",
+      cell: (i: RevaluationItem) => (
+        <span className={`font-mono ${report?.method === "fifo" ? "font-semibold" : ""}`}>
+          {formatCurrency(i.fifoValue)}
+        </span>
+      ),
+      className: "text-right",
+    },
+    {
+      key: "averageValue",
+      header: "Скользящая средняя",
+      cell: (i: RevaluationItem) => (
+        <span className={`font-mono ${report?.method === "average" ? "font-semibold" : ""}`}>
+          {formatCurrency(i.averageValue)}
+        </span>
+      ),
+      className: "text-right",
+    },
+    {
+      key: "difference",
+      header: "Разница",
+      cell: (i: RevaluationItem) => <DifferenceCell value={i.difference} />,
+      className: "text-right",
+    },
+  ];
+
+  return (
+    <ProtectedReport title="Переоценка склада" fallbackUrl="/dashboard">
+      <Layout
+        title="Переоценка склада"
+        breadcrumbs={[{ label: "Отчеты", href: "/reports/stock-revaluation" }, { label: "Переоценка склада" }]}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                По средней за всё время
+              </CardTitle>
+              <Package className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-mono font-bold" data-testid="text-legacy-value">
+                {formatCurrency(report?.totals.legacyValue || 0)}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {report ? METHOD_LABELS[report.method] : "Текущий метод"}
+              </CardTitle>
+              <Scale className="h-4 w-4 text-blue-600" />
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-mono font-bold text-blue-600" data-testid="text-method-value">
+                {formatCurrency(report?.totals.value || 0)}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Разница</CardTitle>
+              <ArrowUpDown className="h-4 w-4 text-purple-600" />
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold" data-testid="text-revaluation-difference">
+                <DifferenceCell value={report?.totals.difference || 0} />
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <DataTable
+          columns={columns}
+          data={report?.items || []}
+          isLoading={isLoading}
+          emptyMessage="Нет остатков на складе"
+          getRowKey={(i) => `${i.itemType}:${i.itemId}`}
+        />
+      </Layout>
+    </ProtectedReport>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Layout } from "@/components/layout";
+import { DataTable } from "@/components/data-table";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  staffMemberFormSchema,
+  STAFF_ROLES,
+  type StaffMember,
+  type StaffRole,
+} from "@shared/schema";
+import { STAFF_ROLE_LABELS } from "@shared/permissions";
+import { z } from "zod";
+
+type StaffRow = StaffMember & { email: string; name: string | null };
+type StaffFormValues = z.infer<typeof staffMemberFormSchema>;
+
+const ASSIGNABLE_ROLES = STAFF_ROLES.filter((r) => r !== "owner");
+
+export default function StaffPage() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: staff = [], isLoading } = useQuery<StaffRow[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  const form = useForm<StaffFormValues>({
+    resolver: zodResolver(staffMemberFormSchema),
+    defaultValues: { email: "", password: "", name: "", role: "manager" },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: StaffFormValues) => apiRequest("POST", "/api/staff", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      setIsDialogOpen(false);
+      form.reset();
+      toast({ title: "Сотрудник добавлен" });
+    },
+    onError: (e: Error) =>
+      toast({
+        title: "Ошибка",
+        description: e.message,
+        variant: "destructive",
+      }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: { role?: StaffRole; isActive?: boolean };
+    }) => apiRequest("PATCH", `/api/staff/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      toast({ title: "Сотрудник обновлен" });
+    },
+    onError: (e: Error) =>
+      toast({
+        title: "Ошибка",
+        description: e.message,
+        variant: "destructive",
+      }),
+  });
+
+  return (
+    <Layout title="Сотрудники">
+      <div className="flex justify-end mb-4">
+        <Dialog
+          open={isDialogOpen}
+          onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) form.reset();
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button data-testid="button-add-staff">
+              <Plus className="h-4 w-4 mr-2" />
+              Добавить
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Новый сотрудник</DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((data) => createMutation.mutate(data))}
+                className="space-y-4"
+              >
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Имя</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-staff-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} data-testid="input-staff-email" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Пароль</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} data-testid="input-staff-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="role"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Роль</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-staff-role">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ASSIGNABLE_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {STAFF_ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={createMutation.isPending}
+                >
+                  {createMutation.isPending && (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  )}
+                  Добавить
+                </Button>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+      <DataTable
+        columns={[
+          {
+            key: "name",
+            header: "Имя",
+            cell: (s: StaffRow) => s.name || "—",
+          },
+          { key: "email", header: "Email", cell: (s: StaffRow) => s.email },
+          {
+            key: "role",
+            header: "Роль",
+            cell: (s: StaffRow) => (
+              <Select
+                value={s.role}
+                onValueChange={(role) =>
+                  updateMutation.mutate({ id: s.id, data: { role: role as StaffRole } })
+                }
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASSIGNABLE_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {STAFF_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ),
+          },
+          {
+            key: "isActive",
+            header: "Активен",
+            cell: (s: StaffRow) => (
+              <Switch
+                checked={s.isActive ?? true}
+                onCheckedChange={(isActive) =>
+                  updateMutation.mutate({ id: s.id, data: { isActive } })
+                }
+              />
+            ),
+            className: "text-right",
+          },
+        ]}
+        data={staff}
+        isLoading={isLoading}
+        emptyMessage="Сотрудники не добавлены"
+        getRowKey={(s) => s.id}
+      />
+    </Layout>
+  );
+}
@@ -47,6 +47,8 @@ import {
   X,
   Package,
   History,
+  CheckCircle,
+  Scissors,
 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
@@ -57,8 +59,10 @@ import {
   type Supplier,
   type Fabric,
   type Component,
+  type FabricRemnant,
 } from "@shared/schema";
 import { format } from "date-fns";
+import { PurchaseSuggestions } from "@/components/purchase-suggestions";
 
 const itemSchema = z.object({
   itemType: z.enum(["fabric", "component"]),
@@ -71,6 +75,7 @@ const itemSchema = z.object({
   pricePerLinearMeter: z.string().optional(), // цена за пог. метр (только ткани)
   total: z.string().optional(),
   price: z.string().optional(),
+  purchaseOrderItemId: z.string().optional(), // строка заказа поставщику
 });
 
 const warehouseSchema = z.object({
@@ -100,6 +105,7 @@ interface ReceiptItem {
   quantity: string | null;
   price: string | null;
   total: string | null;
+  purchaseOrderItemId: string | null;
   fabric?: Fabric;
   component?: Component;
 }
@@ -113,6 +119,8 @@ interface WarehouseReceiptWithRelations extends WarehouseReceipt {
 
 interface StockItem {
   quantity: number;
+  reserved: number;
+  available: number;
   lastPrice: number;
   avgPrice: number;
   totalValue: number;
@@ -247,6 +255,13 @@ export default function WarehousePage() {
     queryKey: ["/api/stock/adjustments"],
   });
 
+  // Деловые обрезки тканей после раскроя
+  const { data: remnants = [] } = useQuery<
+    (FabricRemnant & { fabricName?: string })[]
+  >({
+    queryKey: ["/api/warehouse/remnants"],
+  });
+
   const form = useForm<WarehouseFormValues>({
     resolver: zodResolver(warehouseSchema),
     defaultValues: {
@@ -389,6 +404,7 @@ export default function WarehousePage() {
           quantity: item.quantity,
           price: item.price,
           total: item.total,
+          purchaseOrderItemId: item.purchaseOrderItemId,
         })),
       };
       return apiRequest("PUT", `/api/warehouse/${id}`, payload);
@@ -437,6 +453,7 @@ export default function WarehousePage() {
       queryClient.invalidateQueries({ queryKey: ["/api/components"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouse/purchase-suggestions"] });
       setIsDeleteDialogOpen(false);
       setReceiptToDelete(null);
       toast({ title: "Успешно", description: "Поступление удалено" });
@@ -450,6 +467,40 @@ export default function WarehousePage() {
     },
   });
 
+  const postMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/warehouse/${id}/post`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouse"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouse/purchase-suggestions"] });
+      toast({ title: "Успешно", description: "Поступление проведено" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRemnantMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/warehouse/remnants/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/warehouse/remnants"] });
+      toast({ title: "Успешно", description: "Обрезок списан" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Inventory adjustment mutation
   const inventoryAdjustmentMutation = useMutation({
     mutationFn: (data: {
@@ -524,6 +575,7 @@ export default function WarehousePage() {
           quantity: item.quantity || "",
           price: item.price || "",
           total: item.total || "",
+          purchaseOrderItemId: item.purchaseOrderItemId || undefined,
         })) || [
           {
             itemType: firstItemType,
@@ -589,8 +641,12 @@ export default function WarehousePage() {
     {
       key: "date",
       header: "Дата",
-      cell: (r: WarehouseReceiptWithRelations) =>
-        format(new Date(r.date), "dd.MM.yyyy"),
+      cell: (r: WarehouseReceiptWithRelations) => (
+        <div className="flex items-center gap-2">
+          {format(new Date(r.date), "dd.MM.yyyy")}
+          {r.isDraft && <Badge variant="outline">Черновик</Badge>}
+        </div>
+      ),
     },
     {
       key: "supplier",
@@ -642,6 +698,18 @@ export default function WarehousePage() {
           >
             <Eye className="h-4 w-4" />
           </Button>
+          {r.isDraft && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => postMutation.mutate(r.id)}
+              disabled={postMutation.isPending}
+              title="Провести"
+              data-testid={`button-post-${r.id}`}
+            >
+              <CheckCircle className="h-4 w-4" />
+            </Button>
+          )}
           <Button
             size="icon"
             variant="ghost"
@@ -1127,6 +1195,9 @@ export default function WarehousePage() {
           <TabsTrigger value="stock" data-testid="tab-stock">
             Остатки
           </TabsTrigger>
+          <TabsTrigger value="purchase" data-testid="tab-purchase">
+            Закупка
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="receipts" className="space-y-4">
@@ -1192,7 +1263,13 @@ export default function WarehousePage() {
                             Категория
                           </th>
                           <th className="text-right py-2 px-3 font-medium w-24">
-                            Остаток
+                            На складе
+                          </th>
+                          <th className="text-right py-2 px-3 font-medium w-24">
+                            Резерв
+                          </th>
+                          <th className="text-right py-2 px-3 font-medium w-24">
+                            Доступно
                           </th>
                           <th className="text-right py-2 px-3 font-medium w-28">
                             Цена
@@ -1235,6 +1312,20 @@ export default function WarehousePage() {
                             >
                               {fabric.stock.quantity.toFixed(2)}
                             </td>
+                            <td className="py-1.5 px-3 text-right font-mono text-muted-foreground">
+                              {fabric.stock.reserved > 0
+                                ? fabric.stock.reserved.toFixed(2)
+                                : "—"}
+                            </td>
+                            <td
+                              className={`py-1.5 px-3 text-right font-mono ${
+                                fabric.stock.available < 0
+                                  ? "text-destructive"
+                                  : ""
+                              }`}
+                            >
+                              {fabric.stock.available.toFixed(2)}
+                            </td>
                             <td className="py-1.5 px-3 text-right font-mono">
                               {formatCurrency(fabric.stock.lastPrice)}
                             </td>
@@ -1252,7 +1343,7 @@ export default function WarehousePage() {
                       <tfoot className="bg-muted/50 border-t">
                         <tr>
                           <td
-                            colSpan={4}
+                            colSpan={6}
                             className="py-2 px-3 text-right font-medium"
                           >
                             Итого:
@@ -1296,7 +1387,13 @@ export default function WarehousePage() {
                             Ед.
                           </th>
                           <th className="text-right py-2 px-3 font-medium w-24">
-                            Остаток
+                            На складе
+                          </th>
+                          <th className="text-right py-2 px-3 font-medium w-24">
+                            Резерв
+                          </th>
+                          <th className="text-right py-2 px-3 font-medium w-24">
+                            Доступно
                           </th>
                           <th className="text-right py-2 px-3 font-medium w-28">
                             Цена
@@ -1332,6 +1429,20 @@ export default function WarehousePage() {
                             >
                               {component.stock.quantity.toFixed(2)}
                             </td>
+                            <td className="py-1.5 px-3 text-right font-mono text-muted-foreground">
+                              {component.stock.reserved > 0
+                                ? component.stock.reserved.toFixed(2)
+                                : "—"}
+                            </td>
+                            <td
+                              className={`py-1.5 px-3 text-right font-mono ${
+                                component.stock.available < 0
+                                  ? "text-destructive"
+                                  : ""
+                              }`}
+                            >
+                              {component.stock.available.toFixed(2)}
+                            </td>
                             <td className="py-1.5 px-3 text-right font-mono">
                               {formatCurrency(component.stock.lastPrice)}
                             </td>
@@ -1349,7 +1460,7 @@ export default function WarehousePage() {
                       <tfoot className="bg-muted/50 border-t">
                         <tr>
                           <td
-                            colSpan={4}
+                            colSpan={6}
                             className="py-2 px-3 text-right font-medium"
                           >
                             Итого:
@@ -1372,6 +1483,69 @@ export default function WarehousePage() {
                 )}
               </div>
 
+              {/* Fabric remnants left after cutting */}
+              {remnants.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium mb-2 flex items-center gap-2 text-muted-foreground">
+                    <Scissors className="h-4 w-4" />
+                    Обрезки тканей ({remnants.length})
+                  </h3>
+                  <div className="border rounded-md overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/50">
+                        <tr className="border-b">
+                          <th className="text-left py-2 px-3 font-medium">
+                            Ткань
+                          </th>
+                          <th className="text-right py-2 px-3 font-medium w-32">
+                            Ширина × длина
+                          </th>
+                          <th className="text-right py-2 px-3 font-medium w-24">
+                            Площадь
+                          </th>
+                          <th className="text-left py-2 px-3 font-medium w-28">
+                            Дата
+                          </th>
+                          <th className="w-12"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {remnants.map((r) => {
+                          const w = parseFloat(r.width);
+                          const l = parseFloat(r.length);
+                          return (
+                            <tr key={r.id} className="border-b last:border-0">
+                              <td className="py-1.5 px-3">{r.fabricName || "-"}</td>
+                              <td className="py-1.5 px-3 text-right font-mono">
+                                {w.toFixed(0)} × {l.toFixed(0)} см
+                              </td>
+                              <td className="py-1.5 px-3 text-right font-mono">
+                                {((w * l) / 10000).toFixed(2)} м²
+                              </td>
+                              <td className="py-1.5 px-3 text-muted-foreground">
+                                {r.createdAt ? format(new Date(r.createdAt), "dd.MM.yyyy") : "-"}
+                              </td>
+                              <td className="py-1 px-2">
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  onClick={() => deleteRemnantMutation.mutate(r.id)}
+                                  disabled={deleteRemnantMutation.isPending}
+                                  title="Списать обрезок"
+                                  data-testid={`button-delete-remnant-${r.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {/* Adjustments History */}
               {adjustments.length > 0 && (
                 <div>
@@ -1442,6 +1616,10 @@ export default function WarehousePage() {
             </>
           )}
         </TabsContent>
+
+        <TabsContent value="purchase" className="space-y-4">
+          <PurchaseSuggestions />
+        </TabsContent>
       </Tabs>
 
       <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
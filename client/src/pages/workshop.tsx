@@ -0,0 +1,274 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { CheckCircle2, Circle, ExternalLink, Loader2, ScanLine, Undo2 } from "lucide-react";
+import { Layout } from "@/components/layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  SASH_STAGES,
+  SASH_STAGE_LABELS,
+  type Order,
+  type SashStage,
+  type SashStageEvent,
+} from "@shared/schema";
+import type { OrderSash } from "./orders/types";
+
+interface SashStagesView {
+  sash: OrderSash;
+  order: Pick<Order, "id" | "orderNumber" | "status">;
+  events: (SashStageEvent & { workerName: string | null })[];
+  nextStage: SashStage | null;
+  progress: Record<SashStage, number>;
+  totalCount: number;
+  system: string;
+  fabric: string;
+  statusError?: string;
+}
+
+// Этап участка хранится на устройстве: планшет стоит на одном месте цеха
+const STATION_KEY = "workshop-station";
+const ANY_STAGE = "any";
+
+const fmtNum = (v: string | null) => (v ? parseFloat(v).toString() : "—");
+
+// Сканер этикеток вводит URL из QR (…/workshop?sash=<id>) как с клавиатуры;
+// вручную можно ввести и сам id створки
+function parseSashCode(code: string): string {
+  const trimmed = code.trim();
+  try {
+    return new URL(trimmed).searchParams.get("sash") || trimmed;
+  } catch {
+    return trimmed;
+  }
+}
+
+export default function WorkshopPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState("");
+  const [sashId, setSashId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("sash")
+  );
+  const [station, setStation] = useState<string>(
+    () => localStorage.getItem(STATION_KEY) || ANY_STAGE
+  );
+
+  const canEdit = can("production", "edit");
+  const queryKey = [`/api/sashes/${sashId}/stages`];
+
+  const { data, isLoading, error } = useQuery<SashStagesView>({
+    queryKey,
+    enabled: !!sashId,
+    retry: false,
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STATION_KEY, station);
+  }, [station]);
+
+  const onSuccess = async (res: Response) => {
+    const view: SashStagesView = await res.json();
+    queryClient.setQueryData([`/api/sashes/${view.sash.id}/stages`], view);
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    if (view.statusError) {
+      toast({
+        title: "Заказ не переведён в «Готов»",
+        description: view.statusError,
+        variant: "destructive",
+      });
+    } else if (view.order.status === "Готов" && view.nextStage === null) {
+      toast({ title: `Заказ №${view.order.orderNumber} готов` });
+    }
+    inputRef.current?.focus();
+  };
+  const onError = (e: Error) => {
+    toast({ title: "Ошибка", description: e.message, variant: "destructive" });
+    inputRef.current?.focus();
+  };
+
+  const advanceMutation = useMutation({
+    mutationFn: ({ id, stage }: { id: string; stage?: SashStage }) =>
+      apiRequest("POST", `/api/sashes/${id}/stages`, { stage }),
+    onSuccess: async (res) => {
+      await onSuccess(res);
+      toast({ title: "Этап отмечен" });
+    },
+    onError,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/sashes/${id}/stages/last`),
+    onSuccess,
+    onError,
+  });
+
+  // На участке с выбранным этапом скан сразу отмечает этап
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = parseSashCode(code);
+    setCode("");
+    if (!id) return;
+    setSashId(id);
+    if (station !== ANY_STAGE && canEdit) {
+      advanceMutation.mutate({ id, stage: station as SashStage });
+    }
+  };
+
+  const eventFor = (stage: SashStage) => data?.events.find((e) => e.stage === stage);
+
+  return (
+    <Layout title="Цех">
+      <div className="max-w-2xl space-y-4">
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleScan} className="grid gap-3 sm:grid-cols-[1fr_200px]">
+              <div className="space-y-1">
+                <Label htmlFor="sash-code">Этикетка створки</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="sash-code"
+                    ref={inputRef}
+                    autoFocus
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="Отсканируйте QR этикетки"
+                    data-testid="input-sash-code"
+                  />
+                  <Button type="submit" variant="outline" size="icon" title="Найти">
+                    <ScanLine className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Участок</Label>
+                <Select value={station} onValueChange={setStation}>
+                  <SelectTrigger data-testid="select-station">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_STAGE}>Любой этап</SelectItem>
+                    {SASH_STAGES.map((stage) => (
+                      <SelectItem key={stage} value={stage}>
+                        {SASH_STAGE_LABELS[stage]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {sashId && isLoading && <Loader2 className="h-5 w-5 animate-spin mx-auto" />}
+
+        {sashId && error && (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        )}
+
+        {data && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between gap-2 text-base">
+                <span>
+                  Заказ №{data.order.orderNumber} ·{" "}
+                  {data.sash.roomName || `Комната ${data.sash.room ?? 1}`}
+                </span>
+                <Badge variant="secondary">{data.order.status || "Новый"}</Badge>
+              </CardTitle>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  {fmtNum(data.sash.width)}×{fmtNum(data.sash.height)}
+                  {data.sash.controlSide && ` · ${data.sash.controlSide}`}
+                  {data.system && ` · ${data.system}`}
+                  {data.fabric && ` · ${data.fabric}`}
+                </p>
+                {/* С этикетки — и к заказу целиком, как до экрана цеха */}
+                {can("orders", "view") && (
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href={`/orders?edit=${data.order.id}`} data-testid="link-sash-order">
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Заказ
+                    </Link>
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                {SASH_STAGES.map((stage) => {
+                  const event = eventFor(stage);
+                  return (
+                    <div key={stage} className="flex items-center gap-3 text-sm">
+                      {event ? (
+                        <CheckCircle2 className="h-5 w-5 text-green-600" />
+                      ) : (
+                        <Circle className="h-5 w-5 text-muted-foreground" />
+                      )}
+                      <span className={event ? "font-medium" : "text-muted-foreground"}>
+                        {SASH_STAGE_LABELS[stage]}
+                      </span>
+                      <span className="ml-auto text-muted-foreground">
+                        {event &&
+                          `${format(new Date(event.completedAt), "dd.MM HH:mm")}${
+                            event.workerName ? ` · ${event.workerName}` : ""
+                          }`}
+                      </span>
+                      <span className="w-12 text-right text-xs text-muted-foreground">
+                        {data.progress[stage]}/{data.totalCount}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {canEdit && (
+                <div className="flex gap-2">
+                  {data.nextStage && (
+                    <Button
+                      className="flex-1"
+                      onClick={() => advanceMutation.mutate({ id: data.sash.id })}
+                      disabled={advanceMutation.isPending}
+                      data-testid="button-advance-stage"
+                    >
+                      {advanceMutation.isPending && (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      )}
+                      Отметить: {SASH_STAGE_LABELS[data.nextStage]}
+                    </Button>
+                  )}
+                  {data.events.length > 0 && (
+                    <Button
+                      variant="outline"
+                      onClick={() => revertMutation.mutate(data.sash.id)}
+                      disabled={revertMutation.isPending}
+                      title="Снять последнюю отметку"
+                    >
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Отменить
+                    </Button>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,30 @@
+-- Migration: Add organizations, staff members and audit actor
+-- Date: 2026-10-19
+-- Reason: Multi-user workspaces. Staff accounts log in with their own
+--         credentials but work inside the owner's data (all tables stay
+--         scoped by the owner's user_id). Roles drive the permission matrix;
+--         audit_logs.actor_id records which staff member made each change.
+
+CREATE TABLE IF NOT EXISTS "organizations" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name" text NOT NULL,
+  "owner_id" varchar NOT NULL UNIQUE REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "staff_members" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+  "user_id" varchar NOT NULL UNIQUE REFERENCES "users"("id"),
+  "role" text NOT NULL,
+  "is_active" boolean DEFAULT true,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "staff_members_organization_idx"
+  ON "staff_members" ("organization_id");
+
+ALTER TABLE "audit_logs" ADD COLUMN IF NOT EXISTS "actor_id" varchar REFERENCES "users"("id");
+
+-- Existing entries were all made by the workspace owner
+UPDATE "audit_logs" SET "actor_id" = "user_id" WHERE "actor_id" IS NULL;
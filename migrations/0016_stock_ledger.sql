@@ -0,0 +1,115 @@
+-- Migration: Add stock movement ledger and materialized stock balances
+-- Date: 2026-10-19
+-- Reason: /api/stock, order status checks and periodic notifications rebuilt
+--         balances from every receipt item and write-off on each request.
+--         Movements are now journaled and stock_balances keeps the running
+--         quantity and average-cost totals per item.
+
+CREATE TABLE IF NOT EXISTS "stock_movements" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "item_type" text NOT NULL,
+  "item_id" varchar NOT NULL,
+  "kind" text NOT NULL,
+  "quantity" numeric(12, 4) NOT NULL,
+  "price" numeric(12, 2) DEFAULT '0',
+  "total" numeric(12, 2) DEFAULT '0',
+  "receipt_id" varchar,
+  "writeoff_id" varchar,
+  "order_id" varchar,
+  "date" date NOT NULL,
+  "comment" text,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "stock_movements_item_idx"
+  ON "stock_movements" ("user_id", "item_type", "item_id");
+CREATE INDEX IF NOT EXISTS "stock_movements_receipt_idx"
+  ON "stock_movements" ("receipt_id");
+CREATE INDEX IF NOT EXISTS "stock_movements_order_idx"
+  ON "stock_movements" ("order_id");
+
+CREATE TABLE IF NOT EXISTS "stock_balances" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "item_type" text NOT NULL,
+  "item_id" varchar NOT NULL,
+  "quantity" numeric(12, 4) NOT NULL DEFAULT '0',
+  "total_received" numeric(12, 4) NOT NULL DEFAULT '0',
+  "total_value" numeric(14, 2) NOT NULL DEFAULT '0',
+  "last_price" numeric(12, 2) NOT NULL DEFAULT '0',
+  "updated_at" timestamp DEFAULT now()
+);
+
+-- Target of the ON CONFLICT upsert in server/stock.ts
+CREATE UNIQUE INDEX IF NOT EXISTS "stock_balances_item_unique"
+  ON "stock_balances" ("user_id", "item_type", "item_id");
+
+-- Backfill the journal from existing documents (only on first run)
+INSERT INTO "stock_movements"
+  ("user_id", "item_type", "item_id", "kind", "quantity", "price", "total",
+   "receipt_id", "date", "comment", "created_at")
+SELECT
+  r."user_id",
+  CASE WHEN i."fabric_id" IS NOT NULL THEN 'fabric' ELSE 'component' END,
+  COALESCE(i."fabric_id", i."component_id"),
+  CASE WHEN r."supplier_id" IS NULL THEN 'adjustment' ELSE 'receipt' END,
+  i."quantity",
+  i."price",
+  i."total",
+  r."id",
+  r."date",
+  r."comment",
+  r."created_at"
+FROM "warehouse_receipt_items" i
+JOIN "warehouse_receipts" r ON r."id" = i."receipt_id"
+WHERE COALESCE(i."fabric_id", i."component_id") IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "stock_movements");
+
+-- Write-offs have no created_at: they take the end of their date, so the
+-- FIFO/average replay (ordered by created_at) issues them after that day's
+-- receipts instead of after everything at migration time
+INSERT INTO "stock_movements"
+  ("user_id", "item_type", "item_id", "kind", "quantity", "price", "total",
+   "writeoff_id", "order_id", "date", "comment", "created_at")
+SELECT
+  w."user_id",
+  CASE WHEN w."fabric_id" IS NOT NULL THEN 'fabric' ELSE 'component' END,
+  COALESCE(w."fabric_id", w."component_id"),
+  CASE WHEN w."order_id" IS NULL THEN 'adjustment' ELSE 'writeoff' END,
+  -w."quantity",
+  w."price",
+  w."total",
+  w."id",
+  w."order_id",
+  w."date",
+  w."comment",
+  w."date" + interval '1 day' - interval '1 second'
+FROM "warehouse_writeoffs" w
+WHERE COALESCE(w."fabric_id", w."component_id") IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "stock_movements" WHERE "writeoff_id" IS NOT NULL);
+
+-- Balances: quantity from all movements, average-cost totals from receipts,
+-- last price from the latest receipt line
+INSERT INTO "stock_balances"
+  ("user_id", "item_type", "item_id", "quantity", "total_received", "total_value", "last_price")
+SELECT
+  m."user_id",
+  m."item_type",
+  m."item_id",
+  SUM(m."quantity"),
+  SUM(CASE WHEN m."receipt_id" IS NOT NULL THEN m."quantity" ELSE 0 END),
+  SUM(CASE WHEN m."receipt_id" IS NOT NULL THEN m."total" ELSE 0 END),
+  COALESCE(MAX(lp."price"), 0)
+FROM "stock_movements" m
+LEFT JOIN (
+  SELECT DISTINCT ON ("user_id", "item_type", "item_id")
+    "user_id", "item_type", "item_id", "price"
+  FROM "stock_movements"
+  WHERE "receipt_id" IS NOT NULL AND "quantity" > 0
+  ORDER BY "user_id", "item_type", "item_id", "date" DESC, "created_at" DESC
+) lp ON lp."user_id" = m."user_id"
+    AND lp."item_type" = m."item_type"
+    AND lp."item_id" = m."item_id"
+GROUP BY m."user_id", m."item_type", m."item_id"
+ON CONFLICT ("user_id", "item_type", "item_id") DO NOTHING;
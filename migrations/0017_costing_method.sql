@@ -0,0 +1,8 @@
+-- Migration: Add per-workspace costing method
+-- Date: 2026-10-19
+-- Reason: Write-offs were priced at the last purchase price or the average
+--         over all receipts ever, including stock already consumed. The
+--         workspace owner now picks FIFO lots or a moving weighted average;
+--         both are computed from stock_movements.
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "costing_method" text NOT NULL DEFAULT 'average';
@@ -0,0 +1,23 @@
+-- Migration: Add stock reservations for orders in production
+-- Date: 2026-10-19
+-- Reason: Stock was checked only when an order moved to "Готов", so two
+--         orders in production could count on the same last roll. Materials
+--         are now reserved when an order enters "В производстве" and released
+--         on write-off, rollback to "Новый" or order deletion.
+--         Orders already in production are reserved by
+--         0038_backfill_production_reservations.sql.
+
+CREATE TABLE IF NOT EXISTS "stock_reservations" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "order_id" varchar NOT NULL REFERENCES "orders"("id") ON DELETE CASCADE,
+  "item_type" text NOT NULL,
+  "item_id" varchar NOT NULL,
+  "quantity" numeric(12, 4) NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "stock_reservations_item_idx"
+  ON "stock_reservations" ("user_id", "item_type", "item_id");
+CREATE INDEX IF NOT EXISTS "stock_reservations_order_idx"
+  ON "stock_reservations" ("order_id");
@@ -0,0 +1,18 @@
+-- Migration: Add reorder points, preferred suppliers and draft receipts
+-- Date: 2026-10-19
+-- Reason: Purchase suggestions compare available stock with a per-item
+--         reorder point and group shortfalls by preferred supplier. Draft
+--         receipts created from suggestions do not move stock or supplier
+--         balances until they are posted.
+
+ALTER TABLE "fabrics" ADD COLUMN IF NOT EXISTS "reorder_point" numeric(12, 2);
+ALTER TABLE "fabrics" ADD COLUMN IF NOT EXISTS "reorder_quantity" numeric(12, 2);
+ALTER TABLE "fabrics" ADD COLUMN IF NOT EXISTS "preferred_supplier_id" varchar
+  REFERENCES "suppliers"("id") ON DELETE SET NULL;
+
+ALTER TABLE "components" ADD COLUMN IF NOT EXISTS "reorder_point" numeric(12, 2);
+ALTER TABLE "components" ADD COLUMN IF NOT EXISTS "reorder_quantity" numeric(12, 2);
+ALTER TABLE "components" ADD COLUMN IF NOT EXISTS "preferred_supplier_id" varchar
+  REFERENCES "suppliers"("id") ON DELETE SET NULL;
+
+ALTER TABLE "warehouse_receipts" ADD COLUMN IF NOT EXISTS "is_draft" boolean DEFAULT false;
@@ -0,0 +1,42 @@
+-- Migration: Add purchase orders to suppliers with partial receiving
+-- Date: 2026-10-19
+-- Reason: Warehouse receipts only recorded goods already delivered. Purchase
+--         orders track what was ordered from a supplier; receipt lines link
+--         to order lines so partial deliveries update the order status.
+
+CREATE TABLE IF NOT EXISTS "purchase_orders" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "number" integer NOT NULL,
+  "supplier_id" varchar NOT NULL REFERENCES "suppliers"("id"),
+  "date" date NOT NULL,
+  "expected_date" date,
+  "status" text NOT NULL DEFAULT 'draft',
+  "total" numeric(12, 2) DEFAULT '0',
+  "comment" text,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "purchase_orders_user_idx"
+  ON "purchase_orders" ("user_id");
+
+CREATE TABLE IF NOT EXISTS "purchase_order_items" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "purchase_order_id" varchar NOT NULL
+    REFERENCES "purchase_orders"("id") ON DELETE CASCADE,
+  "item_type" text NOT NULL,
+  "component_id" varchar REFERENCES "components"("id") ON DELETE SET NULL,
+  "fabric_id" varchar REFERENCES "fabrics"("id") ON DELETE SET NULL,
+  "quantity" numeric(12, 2) NOT NULL,
+  "price" numeric(12, 2) NOT NULL,
+  "total" numeric(12, 2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "purchase_order_items_order_idx"
+  ON "purchase_order_items" ("purchase_order_id");
+
+ALTER TABLE "warehouse_receipts" ADD COLUMN IF NOT EXISTS "purchase_order_id" varchar
+  REFERENCES "purchase_orders"("id") ON DELETE SET NULL;
+
+ALTER TABLE "warehouse_receipt_items" ADD COLUMN IF NOT EXISTS "purchase_order_item_id" varchar
+  REFERENCES "purchase_order_items"("id") ON DELETE SET NULL;
@@ -0,0 +1,24 @@
+-- Migration: Batch cutting layouts and fabric remnants
+-- Date: 2026-10-19
+-- Reason: Cutting can now be planned for all orders in production together
+--         (layout without a single order), and usable leftover strips of the
+--         roll are kept as remnants that later layouts consume first.
+
+ALTER TABLE "cutting_layouts" ALTER COLUMN "order_id" DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "fabric_remnants" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "fabric_id" varchar NOT NULL REFERENCES "fabrics"("id") ON DELETE CASCADE,
+  "width" numeric(10, 2) NOT NULL,
+  "length" numeric(10, 2) NOT NULL,
+  "source_layout_id" varchar REFERENCES "cutting_layouts"("id") ON DELETE SET NULL,
+  "used_layout_id" varchar REFERENCES "cutting_layouts"("id") ON DELETE SET NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "fabric_remnants_fabric_idx"
+  ON "fabric_remnants" ("user_id", "fabric_id");
+
+ALTER TABLE "cutting_layout_rows" ADD COLUMN IF NOT EXISTS "remnant_id" varchar
+  REFERENCES "fabric_remnants"("id") ON DELETE SET NULL;
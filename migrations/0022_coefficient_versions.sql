@@ -0,0 +1,36 @@
+-- Migration: Coefficient tables in the database
+-- Date: 2026-10-19
+-- Reason: Price coefficient grids were bundled as server/data/coefficients.json,
+--         so any change required a redeploy. Grids are now stored per workspace
+--         in versions with an effective date; orders remember the version that
+--         priced them. Workspaces without versions keep using the bundled table.
+
+CREATE TABLE IF NOT EXISTS "coefficient_versions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name" text NOT NULL,
+  "effective_from" date NOT NULL,
+  "comment" text,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "coefficient_versions_user_idx"
+  ON "coefficient_versions" ("user_id", "effective_from");
+
+CREATE TABLE IF NOT EXISTS "coefficient_grids" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "version_id" varchar NOT NULL REFERENCES "coefficient_versions"("id") ON DELETE CASCADE,
+  "system_key" text NOT NULL,
+  "source_sheet" text,
+  "category" text NOT NULL,
+  "title" text,
+  "widths" text NOT NULL,
+  "heights" text NOT NULL,
+  "values" text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "coefficient_grids_version_idx"
+  ON "coefficient_grids" ("version_id");
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "coefficient_version_id" varchar
+  REFERENCES "coefficient_versions"("id") ON DELETE SET NULL;
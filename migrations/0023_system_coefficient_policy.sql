@@ -0,0 +1,10 @@
+-- Migration: Coefficient lookup policy per system
+-- Date: 2026-10-19
+-- Reason: The coefficient lookup snapped to the nearest grid node and silently
+--         clamped oversized blinds to the table edge. Each system now chooses
+--         how sizes between nodes are priced (nearest / round_up / interpolate)
+--         and what happens above the table (reject / extrapolate). Existing
+--         systems keep nearest-node pricing; oversized sizes are rejected.
+
+ALTER TABLE "systems" ADD COLUMN IF NOT EXISTS "coefficient_lookup" text NOT NULL DEFAULT 'nearest';
+ALTER TABLE "systems" ADD COLUMN IF NOT EXISTS "coefficient_out_of_range" text NOT NULL DEFAULT 'reject';
@@ -0,0 +1,23 @@
+-- Migration: Dealer price tiers
+-- Date: 2026-10-19
+-- Reason: Dealers were priced only by their own workshop rates. Price tiers
+--         add base rates, fabric category surcharges, volume discounts and
+--         dated promotions; a dealer without a tier keeps the old pricing.
+
+CREATE TABLE IF NOT EXISTS "price_tiers" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "name" text NOT NULL,
+  "base_rate_rulon" decimal(12, 2) NOT NULL,
+  "base_rate_zebra" decimal(12, 2) NOT NULL,
+  "category_surcharges" text NOT NULL DEFAULT '{}',
+  "volume_discounts" text NOT NULL DEFAULT '[]',
+  "promotions" text NOT NULL DEFAULT '[]',
+  "comment" text,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "price_tiers_user_idx" ON "price_tiers" ("user_id");
+
+ALTER TABLE "dealers" ADD COLUMN IF NOT EXISTS "price_tier_id" varchar
+  REFERENCES "price_tiers"("id") ON DELETE SET NULL;
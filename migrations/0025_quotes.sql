@@ -0,0 +1,53 @@
+-- Migration: Dealer quotes with revisions
+-- Date: 2026-10-19
+-- Reason: Orders were created directly with status "Новый" while dealers were
+--         still haggling over sizes and prices. A quote keeps every revision
+--         (sashes, prices, discount, validity date); when the dealer accepts
+--         the latest revision it becomes an order.
+
+CREATE TABLE IF NOT EXISTS "quotes" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "number" integer NOT NULL,
+  "dealer_id" varchar NOT NULL REFERENCES "dealers"("id"),
+  "status" text NOT NULL DEFAULT 'open',
+  "order_id" varchar REFERENCES "orders"("id") ON DELETE SET NULL,
+  "comment" text,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now(),
+  "decided_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "quotes_user_idx" ON "quotes" ("user_id");
+CREATE INDEX IF NOT EXISTS "quotes_dealer_idx" ON "quotes" ("dealer_id");
+
+CREATE TABLE IF NOT EXISTS "quote_revisions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "quote_id" varchar NOT NULL REFERENCES "quotes"("id") ON DELETE CASCADE,
+  "revision" integer NOT NULL,
+  "subtotal" decimal(12, 2) NOT NULL,
+  "discount_percent" decimal(5, 2) DEFAULT '0',
+  "total" decimal(12, 2) NOT NULL,
+  "valid_until" date NOT NULL,
+  "comment" text,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "quote_revisions_quote_idx"
+  ON "quote_revisions" ("quote_id", "revision");
+
+CREATE TABLE IF NOT EXISTS "quote_sashes" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "revision_id" varchar NOT NULL REFERENCES "quote_revisions"("id") ON DELETE CASCADE,
+  "width" decimal(10, 2) NOT NULL,
+  "height" decimal(10, 2) NOT NULL,
+  "system_id" varchar REFERENCES "systems"("id") ON DELETE SET NULL,
+  "fabric_id" varchar REFERENCES "fabrics"("id") ON DELETE SET NULL,
+  "control_side" text,
+  "coefficient" decimal(12, 2),
+  "sash_price" decimal(12, 2) DEFAULT '0',
+  "room" integer DEFAULT 1,
+  "room_name" text
+);
+
+CREATE INDEX IF NOT EXISTS "quote_sashes_revision_idx"
+  ON "quote_sashes" ("revision_id");
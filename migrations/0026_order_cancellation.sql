@@ -0,0 +1,10 @@
+-- Migration: Order cancellation and returns
+-- Date: 2026-10-19
+-- Reason: The only way to drop an order was DELETE, which cascaded write-offs
+--         and rewrote sales history. Orders now move to "Отменён" or
+--         "Возврат": dealer debt is released, installments are closed, and
+--         written-off materials are either restocked or kept as scrap.
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "reversed_at" date;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "reversal_reason" text;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "materials_disposition" text;
@@ -0,0 +1,29 @@
+-- Migration: Partial shipments with delivery notes
+-- Date: 2026-10-19
+-- Reason: Large apartment orders are delivered room by room, but an order
+--         could only be shipped all at once. A shipment is a delivery note
+--         for a subset of the order's sashes with date, driver and the
+--         recipient's signature; the order becomes "Отгружен" when its last
+--         sash ships.
+
+CREATE TABLE IF NOT EXISTS "shipments" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "order_id" varchar NOT NULL REFERENCES "orders"("id") ON DELETE CASCADE,
+  "number" integer NOT NULL,
+  "date" date NOT NULL,
+  "driver_name" text,
+  "recipient_name" text,
+  "signature" text,
+  "signed_at" timestamp,
+  "comment" text,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "shipments_order_idx" ON "shipments" ("order_id");
+
+CREATE TABLE IF NOT EXISTS "shipment_sashes" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "shipment_id" varchar NOT NULL REFERENCES "shipments"("id") ON DELETE CASCADE,
+  "sash_id" varchar NOT NULL UNIQUE REFERENCES "order_sashes"("id") ON DELETE CASCADE
+);
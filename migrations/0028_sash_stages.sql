@@ -0,0 +1,21 @@
+-- Migration: Per-sash production stages
+-- Date: 2026-10-19
+-- Reason: Production status lived only on the order, so the workshop could
+--         not tell how far a large order had got. Each sash now records the
+--         stages it has passed (cut, assembled, QC passed, packed) with the
+--         time and the worker who scanned its label; the order becomes
+--         "Готов" once every sash is packed.
+
+CREATE TABLE IF NOT EXISTS "sash_stage_events" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "sash_id" varchar NOT NULL REFERENCES "order_sashes"("id") ON DELETE CASCADE,
+  "stage" text NOT NULL,
+  "completed_at" timestamp NOT NULL DEFAULT now(),
+  "worker_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id")
+);
+
+-- A stage is recorded once per sash: a double scan is a no-op
+-- (ON CONFLICT DO NOTHING in server/storage.ts)
+CREATE UNIQUE INDEX IF NOT EXISTS "sash_stage_events_sash_stage_uq"
+  ON "sash_stage_events" ("sash_id", "stage");
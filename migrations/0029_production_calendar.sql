@@ -0,0 +1,25 @@
+-- Migration: Production calendar and order due dates
+-- Date: 2026-10-19
+-- Reason: The only time signal was the 14-day overdue check. The workshop
+--         now has a daily capacity (sashes or coefficient units) with a
+--         working week and per-day exceptions; orders carry the due date
+--         promised to the dealer and are scheduled against that capacity,
+--         so overbooked days and a ready-date estimate can be shown.
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "capacity_unit" text NOT NULL DEFAULT 'sashes';
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "daily_capacity" numeric(10, 2);
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "working_days" text NOT NULL DEFAULT '[1,2,3,4,5]';
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "due_date" date;
+
+CREATE TABLE IF NOT EXISTS "production_calendar_days" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "date" date NOT NULL,
+  "capacity" numeric(10, 2) NOT NULL,
+  "comment" text,
+  "user_id" varchar NOT NULL REFERENCES "users"("id")
+);
+
+-- Target of the ON CONFLICT upsert in server/storage.ts: one exception per day
+CREATE UNIQUE INDEX IF NOT EXISTS "production_calendar_days_user_date_uq"
+  ON "production_calendar_days" ("user_id", "date");
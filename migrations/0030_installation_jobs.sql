@@ -0,0 +1,35 @@
+-- Migration: Installation jobs and the installer staff role
+-- Date: 2026-10-19
+-- Reason: 0011_remove_installers.sql dropped the old installer table, and
+--         measurements could only reach "installed" by hand. Shipped orders
+--         now get installation jobs: a staff member with the "installer"
+--         role, a date and time slot, the address and coordinates taken from
+--         the measurement, and on completion a photo and the client's
+--         signature. Staff roles are plain text, so the new role needs no
+--         schema change.
+
+CREATE TABLE IF NOT EXISTS "installation_jobs" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "order_id" varchar NOT NULL REFERENCES "orders"("id") ON DELETE CASCADE,
+  "measurement_id" varchar REFERENCES "measurements"("id") ON DELETE SET NULL,
+  "installer_id" varchar NOT NULL REFERENCES "users"("id"),
+  "date" date NOT NULL,
+  "time_from" text NOT NULL,
+  "time_to" text NOT NULL,
+  "address" text,
+  "latitude" numeric(12, 8),
+  "longitude" numeric(12, 8),
+  "status" text NOT NULL DEFAULT 'scheduled',
+  "comment" text,
+  "photo" text,
+  "client_name" text,
+  "client_signature" text,
+  "completed_at" timestamp,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "installation_jobs_user_date_idx"
+  ON "installation_jobs" ("user_id", "date");
+CREATE INDEX IF NOT EXISTS "installation_jobs_installer_date_idx"
+  ON "installation_jobs" ("installer_id", "date");
@@ -0,0 +1,22 @@
+-- Migration: Uploaded files for measurement photos and signatures
+-- Date: 2026-10-19
+-- Reason: measurement_photos.url, measurement_sashes.photo_url and
+--         measurements.signature_url were plain strings and the server had no
+--         upload endpoint, so the mobile app had to host files elsewhere.
+--         Files are now uploaded to /api/mobile/dealer/files and kept in a
+--         pluggable storage backend (local disk or S3-compatible); this table
+--         holds the storage keys, thumbnail key and metadata, and the URL
+--         columns reference files as "/api/files/<id>".
+
+CREATE TABLE IF NOT EXISTS "uploaded_files" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "kind" text NOT NULL,
+  "storage_key" text NOT NULL,
+  "thumbnail_key" text,
+  "mime_type" text NOT NULL,
+  "size" integer NOT NULL,
+  "original_name" text,
+  "dealer_id" varchar REFERENCES "dealers"("id"),
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,36 @@
+-- Migration: Offline sync for the dealer mobile app
+-- Date: 2026-10-19
+-- Reason: Dealers measure without signal and the app retries uploads when it
+--         gets back online. Measurements now carry the id generated on the
+--         device plus a hash of the accepted payload, so a retried send is
+--         recognised instead of creating a duplicate; mutating mobile
+--         requests can carry an Idempotency-Key whose stored response is
+--         replayed; orders get updated_at for the change feed since a cursor.
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now();
+
+ALTER TABLE "measurements" ADD COLUMN IF NOT EXISTS "client_id" text;
+ALTER TABLE "measurements" ADD COLUMN IF NOT EXISTS "sync_hash" text;
+
+-- One measurement per device id per dealer; target of the duplicate check
+-- in server/mobile-sync.ts
+CREATE UNIQUE INDEX IF NOT EXISTS "measurements_dealer_client_id_uq"
+  ON "measurements" ("dealer_id", "client_id");
+
+CREATE INDEX IF NOT EXISTS "orders_dealer_updated_at_idx"
+  ON "orders" ("dealer_id", "updated_at");
+
+CREATE TABLE IF NOT EXISTS "mobile_idempotency_keys" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "dealer_id" varchar NOT NULL REFERENCES "dealers"("id") ON DELETE CASCADE,
+  "key" text NOT NULL,
+  "method" text NOT NULL,
+  "path" text NOT NULL,
+  "status_code" integer,
+  "response" text,
+  "created_at" timestamp NOT NULL DEFAULT now()
+);
+
+-- Target of the ON CONFLICT claim in server/storage.ts
+CREATE UNIQUE INDEX IF NOT EXISTS "mobile_idempotency_keys_dealer_key_uq"
+  ON "mobile_idempotency_keys" ("dealer_id", "key");
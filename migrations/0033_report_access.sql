@@ -0,0 +1,9 @@
+-- Migration: Report access expiry
+-- Date: 2026-10-19
+-- Reason: Unlocking reports with the report password used to be a flag in
+--         the browser's sessionStorage, and the report endpoints did not
+--         check anything. The server now issues a session grant that
+--         expires after this many minutes; the owner picks the value in the
+--         profile (see REPORT_ACCESS_MINUTES in shared/schema.ts).
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "report_access_minutes" integer NOT NULL DEFAULT 30;
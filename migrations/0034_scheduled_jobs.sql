@@ -0,0 +1,38 @@
+-- Migration: DB-backed scheduler for background jobs
+-- Date: 2026-10-19
+-- Reason: Periodic reminders ran from a setInterval in every server process:
+--         each instance sent them on its own, a restart reset the timer, and
+--         nothing recorded whether a run succeeded. scheduled_jobs keeps the
+--         next run time and a lock per job so one instance runs it;
+--         job_runs keeps the history with duration, result and error.
+
+CREATE TABLE IF NOT EXISTS "scheduled_jobs" (
+  "name" text PRIMARY KEY,
+  "enabled" boolean NOT NULL DEFAULT true,
+  "next_run_at" timestamp NOT NULL DEFAULT now(),
+  "locked_by" text,
+  "locked_until" timestamp,
+  "failures" integer NOT NULL DEFAULT 0,
+  "last_run_at" timestamp,
+  "last_status" text,
+  "last_error" text
+);
+
+CREATE TABLE IF NOT EXISTS "job_runs" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "job_name" text NOT NULL,
+  "status" text NOT NULL DEFAULT 'running',
+  "trigger" text NOT NULL,
+  "attempt" integer NOT NULL DEFAULT 1,
+  "instance_id" text NOT NULL,
+  "user_id" varchar REFERENCES "users"("id") ON DELETE CASCADE,
+  "actor_id" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "started_at" timestamp NOT NULL DEFAULT now(),
+  "finished_at" timestamp,
+  "duration_ms" integer,
+  "result" text,
+  "error" text
+);
+
+CREATE INDEX IF NOT EXISTS "job_runs_job_started_idx"
+  ON "job_runs" ("job_name", "started_at" DESC);
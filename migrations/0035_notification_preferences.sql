@@ -0,0 +1,26 @@
+-- Migration: Notification preferences and email delivery
+-- Date: 2026-10-19
+-- Reason: Reminder thresholds were hard-coded (14 days overdue, negative
+--         stock, payments due within 3 days) and every notification type was
+--         always on. Each user now keeps per-type rules (on/off, channel,
+--         threshold), quiet hours and a daily digest hour; notifications
+--         remember whether they still owe an email so the delivery job can
+--         send them after quiet hours or in the digest.
+
+CREATE TABLE IF NOT EXISTS "notification_preferences" (
+  "user_id" varchar PRIMARY KEY REFERENCES "users"("id") ON DELETE CASCADE,
+  "rules" text NOT NULL DEFAULT '{}',
+  "email" text,
+  "quiet_hours_start" text,
+  "quiet_hours_end" text,
+  "digest_hour" integer NOT NULL DEFAULT 9,
+  "last_digest_at" timestamp,
+  "updated_at" timestamp DEFAULT now()
+);
+
+ALTER TABLE "notifications" ADD COLUMN IF NOT EXISTS "email_status" text;
+
+-- Delivery job scans only notifications that still owe an email
+CREATE INDEX IF NOT EXISTS "notifications_email_status_idx"
+  ON "notifications" ("user_id", "email_status")
+  WHERE "email_status" IN ('pending', 'digest', 'sending');
@@ -0,0 +1,19 @@
+-- Migration: Date backfilled write-off movements by the write-off date
+-- Date: 2026-10-19
+-- Reason: 0016 backfilled write-off movements without created_at, so they all
+--         got the migration timestamp and the FIFO/average-cost replay in
+--         server/costing.ts (ordered by created_at) issued every historical
+--         write-off after all receipts. Moves them to the end of their
+--         write-off date, as 0016 now does on fresh databases.
+
+UPDATE "stock_movements" m
+SET "created_at" = w."date" + interval '1 day' - interval '1 second'
+FROM "warehouse_writeoffs" w
+WHERE m."writeoff_id" = w."id"
+  AND m."kind" IN ('writeoff', 'adjustment')
+  -- Only the backfill: one INSERT, so one shared timestamp, and the earliest
+  -- of all write-off movements
+  AND m."created_at" = (
+    SELECT MIN("created_at") FROM "stock_movements" WHERE "writeoff_id" IS NOT NULL
+  )
+  AND m."created_at" > w."date" + interval '1 day';
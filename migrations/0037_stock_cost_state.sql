@@ -0,0 +1,11 @@
+-- Migration: Persist costing state on stock balances
+-- Date: 2026-10-19
+-- Reason: FIFO layers and the moving-average value were rebuilt by replaying
+--         an item's whole stock_movements history on every order form load,
+--         valuation report and write-off, so the cost grew with history.
+--         stock_balances now keeps the state and each movement updates it.
+--         NULL means not computed yet: the first read replays the journal
+--         once and stores the result.
+
+ALTER TABLE "stock_balances" ADD COLUMN IF NOT EXISTS "cost_layers" text;
+ALTER TABLE "stock_balances" ADD COLUMN IF NOT EXISTS "average_value" numeric(16, 4);
@@ -0,0 +1,48 @@
+-- Migration: Reserve materials for orders that were already in production
+-- Date: 2026-10-19
+-- Reason: 0018 added stock_reservations but left orders already "В производстве"
+--         unreserved until their next edit, so available stock was overstated
+--         after deploy. Reserves them with the same rules as
+--         getSashMaterialRequirements in server/stock.ts: fabric by area (zebra
+--         x2), system components (metric units by width or height x multiplier)
+--         and the direct component of product orders.
+
+INSERT INTO "stock_reservations" ("user_id", "order_id", "item_type", "item_id", "quantity")
+SELECT o."user_id", o."id", r."item_type", r."item_id", SUM(r."quantity")
+FROM "orders" o
+JOIN LATERAL (
+  SELECT
+    'fabric' AS "item_type",
+    s."fabric_id" AS "item_id",
+    (s."width" / 100) * (s."height" / 100)
+      * CASE WHEN f."fabric_type" = 'zebra' THEN 2 ELSE 1 END AS "quantity"
+  FROM "order_sashes" s
+  JOIN "fabrics" f ON f."id" = s."fabric_id"
+  WHERE s."order_id" = o."id"
+  UNION ALL
+  SELECT
+    'component',
+    sc."component_id",
+    CASE
+      WHEN LOWER(COALESCE(c."unit", 'шт')) IN ('м', 'пм', 'п.м.', 'м.п.') THEN
+        (CASE WHEN sc."size_source" = 'height' THEN s."height" ELSE s."width" END) / 100
+          * COALESCE(sc."size_multiplier", 1) * COALESCE(sc."quantity", 1)
+      ELSE COALESCE(sc."quantity", 1)
+    END
+  FROM "order_sashes" s
+  JOIN "system_components" sc ON sc."system_id" = s."system_id"
+  JOIN "components" c ON c."id" = sc."component_id"
+  WHERE s."order_id" = o."id"
+  UNION ALL
+  SELECT 'component', s."component_id", 1
+  FROM "order_sashes" s
+  WHERE s."order_id" = o."id"
+    AND s."component_id" IS NOT NULL
+    AND s."system_id" IS NULL
+) r ON true
+WHERE o."status" = 'В производстве'
+  -- Skip orders that are already reserved or already written off
+  AND NOT EXISTS (SELECT 1 FROM "stock_reservations" sr WHERE sr."order_id" = o."id")
+  AND NOT EXISTS (SELECT 1 FROM "warehouse_writeoffs" w WHERE w."order_id" = o."id")
+GROUP BY o."user_id", o."id", r."item_type", r."item_id"
+HAVING SUM(r."quantity") > 0;
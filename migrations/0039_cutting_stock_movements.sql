@@ -0,0 +1,9 @@
+-- Migration: Link stock movements to cutting layouts
+-- Date: 2026-10-19
+-- Reason: fabric remnants lived only in fabric_remnants, outside stock and
+--         valuation. Saving a layout now writes the roll trim off and books
+--         remnants in and out of the fabric's stock; deleting the layout
+--         reverses its movements by layout_id. No FK: layouts are deleted,
+--         the journal stays. Layouts saved before this have no movements.
+
+ALTER TABLE "stock_movements" ADD COLUMN IF NOT EXISTS "layout_id" varchar;
@@ -0,0 +1,8 @@
+-- Migration: Change stamp on coefficient versions
+-- Date: 2026-10-19
+-- Reason: the grid cache was keyed by version id and reset only in the
+--         process that edited a grid, so other instances kept serving old
+--         coefficients. Every grid write now bumps updated_at and the
+--         cache key includes it; lookups already read the version row.
+
+ALTER TABLE "coefficient_versions" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now();
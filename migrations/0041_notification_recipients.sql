@@ -0,0 +1,33 @@
+-- Migration: Per-recipient notification emails
+-- Date: 2026-10-19
+-- Reason: notification preferences were read and written for the workspace
+--         owner only, so one staff member could switch a type off for
+--         everyone. Preferences are now kept per account and each recipient
+--         gets emails by their own channel, so the queue moves from
+--         notifications.email_status to one row per notification and
+--         recipient. Emails queued so far belong to the workspace owner.
+
+CREATE TABLE IF NOT EXISTS "notification_emails" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "notification_id" varchar NOT NULL REFERENCES "notifications"("id") ON DELETE CASCADE,
+  "recipient_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "status" text NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "notification_emails_notification_recipient_idx"
+  ON "notification_emails" ("notification_id", "recipient_id");
+
+-- Delivery job scans only emails still waiting to be sent
+CREATE INDEX IF NOT EXISTS "notification_emails_queue_idx"
+  ON "notification_emails" ("recipient_id", "status")
+  WHERE "status" IN ('pending', 'digest', 'sending');
+
+-- An email caught mid-send goes back to the queue
+INSERT INTO "notification_emails" ("notification_id", "recipient_id", "status")
+SELECT "id", "user_id", CASE WHEN "email_status" = 'sending' THEN 'pending' ELSE "email_status" END
+FROM "notifications"
+WHERE "email_status" IN ('pending', 'digest', 'sending')
+ON CONFLICT DO NOTHING;
+
+DROP INDEX IF EXISTS "notifications_email_status_idx";
+ALTER TABLE "notifications" DROP COLUMN IF EXISTS "email_status";
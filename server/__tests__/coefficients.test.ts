@@ -0,0 +1,124 @@
+// Unit tests for the coefficient grid lookup against a loaded table.
+// Verifies lookupCoefficientDetailed:
+// - "nearest" rounds to the nearest grid node (half a step goes down)
+// - "round_up" takes the next node up, "interpolate" is bilinear
+// - a size past the last node is rejected or extrapolated by policy
+// - an unknown category falls back to the first one with a warning
+// - the system key is matched regardless of case and spaces
+//
+// Run with: npx tsx --test server/__tests__/coefficients.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  lookupCoefficientDetailed,
+  type CoefficientData,
+  type CoefficientPolicy,
+} from "../coefficients";
+
+// values[строка по высоте][столбец по ширине]
+const data: CoefficientData = {
+  products: {
+    uni1_zebra: {
+      categories: {
+        E: {
+          widths: [0.4, 0.5, 0.6],
+          heights: [1.0, 1.1, 1.2],
+          values: [
+            [10, 20, 30],
+            [40, 50, 60],
+            [70, 80, 90],
+          ],
+        },
+        B: {
+          widths: [0.4],
+          heights: [1.0],
+          values: [[5]],
+        },
+      },
+    },
+  },
+};
+
+const lookup = (
+  width: number,
+  height: number,
+  policy: CoefficientPolicy,
+  category = "E",
+  systemKey = "uni1_zebra"
+) => lookupCoefficientDetailed(data, "v1", systemKey, category, width, height, policy);
+
+test("nearest: half a step rounds down, more rounds up", () => {
+  const policy: CoefficientPolicy = { lookup: "nearest", outOfRange: "reject" };
+
+  assert.equal(lookup(0.45, 1.05, policy).coefficient, 10);
+  assert.equal(lookup(0.46, 1.04, policy).coefficient, 20);
+  assert.equal(lookup(0.56, 1.16, policy).coefficient, 90);
+  // Меньше первого узла — по первому узлу
+  assert.equal(lookup(0.2, 0.5, policy).coefficient, 10);
+
+  const result = lookup(0.5, 1.1, policy);
+  assert.equal(result.coefficient, 50);
+  assert.equal(result.versionId, "v1");
+  assert.deepEqual(result.warnings, []);
+});
+
+test("round_up: the next node up", () => {
+  const policy: CoefficientPolicy = { lookup: "round_up", outOfRange: "reject" };
+
+  assert.equal(lookup(0.41, 1.01, policy).coefficient, 50);
+  assert.equal(lookup(0.5, 1.0, policy).coefficient, 20);
+});
+
+test("interpolate: bilinear between nodes", () => {
+  const policy: CoefficientPolicy = { lookup: "interpolate", outOfRange: "reject" };
+
+  assert.ok(Math.abs(lookup(0.45, 1.05, policy).coefficient! - 30) < 1e-9);
+  assert.ok(Math.abs(lookup(0.6, 1.15, policy).coefficient! - 75) < 1e-9);
+});
+
+test("out of range: reject returns no coefficient with a warning", () => {
+  const result = lookup(0.8, 1.0, { lookup: "nearest", outOfRange: "reject" });
+
+  assert.equal(result.coefficient, null);
+  assert.deepEqual(
+    result.warnings.map((w) => w.code),
+    ["out_of_range"]
+  );
+});
+
+test("out of range: extrapolate continues the last grid step", () => {
+  const result = lookup(0.7, 1.0, { lookup: "interpolate", outOfRange: "extrapolate" });
+
+  assert.ok(Math.abs(result.coefficient! - 40) < 1e-9);
+  assert.deepEqual(
+    result.warnings.map((w) => w.code),
+    ["extrapolated"]
+  );
+});
+
+test("unknown category falls back to the first one", () => {
+  const result = lookup(0.4, 1.0, { lookup: "nearest", outOfRange: "reject" }, "9");
+
+  assert.equal(result.coefficient, 10);
+  assert.equal(result.usedCategory, "E");
+  assert.equal(result.isFallbackCategory, true);
+  assert.deepEqual(
+    result.warnings.map((w) => w.code),
+    ["fallback_category"]
+  );
+});
+
+test("system key and category match regardless of case and spaces", () => {
+  const policy: CoefficientPolicy = { lookup: "nearest", outOfRange: "reject" };
+
+  const result = lookup(0.4, 1.0, policy, "e", " UNI1_Zebra ");
+  assert.equal(result.usedSystemKey, "uni1_zebra");
+  assert.equal(result.usedCategory, "E");
+  assert.equal(result.coefficient, 10);
+
+  const missing = lookup(0.4, 1.0, policy, "E", "mini");
+  assert.equal(missing.coefficient, null);
+  assert.equal(missing.usedSystemKey, null);
+});
@@ -0,0 +1,72 @@
+// Unit tests for the issue cost of stock by costing method.
+// Verifies issueFromValuation and getUnitCost:
+// - FIFO takes the earliest lots first and leaves the rest in order
+// - the moving average issues at the current average and keeps it
+// - a shortfall past the stock on hand is priced at the last purchase price
+// - several issues of one item consume the lots one after another
+//
+// Run with: npx tsx --test server/__tests__/costing.test.ts
+
+import "./test-env";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { getUnitCost, issueFromValuation, type ItemValuation } from "../costing";
+
+const lots = (...layers: Array<[number, number]>): ItemValuation => ({
+  quantity: layers.reduce((sum, [q]) => sum + q, 0),
+  layers: layers.map(([quantity, price]) => ({ quantity, price, receiptId: null })),
+  averageValue: layers.reduce((sum, [q, p]) => sum + q * p, 0),
+  lastPrice: layers[layers.length - 1]?.[1] ?? 0,
+});
+
+test("fifo: earliest lots first", () => {
+  const v = lots([5, 10], [5, 20]);
+
+  assert.equal(getUnitCost(v, "fifo"), 10);
+  assert.equal(issueFromValuation(v, "fifo", 7), 90 / 7);
+  assert.deepEqual(v.layers, [{ quantity: 3, price: 20, receiptId: null }]);
+  assert.equal(v.quantity, 3);
+
+  // Следующая строка того же заказа — с оставшейся партии
+  assert.equal(issueFromValuation(v, "fifo", 2), 20);
+  assert.equal(v.quantity, 1);
+});
+
+test("fifo: shortfall at the last purchase price", () => {
+  const v = lots([2, 10], [1, 30]);
+
+  // 2 × 10 + 1 × 30 + 2 × 30
+  assert.equal(issueFromValuation(v, "fifo", 5), 22);
+  assert.deepEqual(v.layers, []);
+  assert.equal(v.quantity, -2);
+
+  const empty: ItemValuation = { quantity: 0, layers: [], averageValue: 0, lastPrice: 15 };
+  assert.equal(issueFromValuation(empty, "fifo", 4), 15);
+});
+
+test("average: issues at the current average", () => {
+  const v = lots([4, 10], [6, 20]);
+
+  assert.equal(getUnitCost(v, "average"), 16);
+  assert.equal(issueFromValuation(v, "average", 5), 16);
+  assert.equal(v.quantity, 5);
+  assert.equal(v.averageValue, 80);
+  assert.equal(getUnitCost(v, "average"), 16);
+});
+
+test("average: no stock on hand — the last purchase price", () => {
+  const v: ItemValuation = { quantity: 0, layers: [], averageValue: 0, lastPrice: 12 };
+
+  assert.equal(getUnitCost(v, "average"), 12);
+  assert.equal(issueFromValuation(v, "average", 3), 12);
+  assert.equal(v.averageValue, 0);
+});
+
+test("zero quantity does not change the valuation", () => {
+  const v = lots([5, 10], [5, 20]);
+
+  assert.equal(issueFromValuation(v, "fifo", 0), 10);
+  assert.equal(v.quantity, 10);
+  assert.equal(v.layers.length, 2);
+});
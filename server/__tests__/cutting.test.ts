@@ -0,0 +1,98 @@
+// Unit tests for the roll cutting plan.
+// Verifies calculateOptimalCutting:
+// - adds the hem allowance (zebra: double height) and rotates roller
+//   pieces to save roll length
+// - never rotates zebra pieces
+// - fills a row across the roll before starting a new one
+// - cuts from remnants first, smallest that fits, one row each
+// - keeps usable strips right of a row as new remnants, the rest is waste
+//
+// Run with: npx tsx --test server/__tests__/cutting.test.ts
+
+import "./test-env";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { calculateOptimalCutting } from "../cutting";
+
+test("roller: rotated to the shorter cut, the strip left over becomes a remnant", () => {
+  const plan = calculateOptimalCutting(
+    [{ index: 0, width: 100, height: 130, quantity: 1 }],
+    200
+  );
+
+  assert.equal(plan.rows.length, 1);
+  assert.deepEqual(plan.rows[0].pieces, [
+    { sashIndex: 0, width: 150, height: 100, rotated: true },
+  ]);
+  assert.equal(plan.rows[0].cutLength, 100);
+  assert.equal(plan.rows[0].wasteWidth, 50);
+  assert.equal(plan.totalLength, 100);
+  assert.deepEqual(plan.newRemnants, [{ width: 50, length: 100 }]);
+  assert.equal(plan.wastePercent, 0);
+});
+
+test("zebra: double height plus allowance, never rotated", () => {
+  const plan = calculateOptimalCutting(
+    [{ index: 0, width: 100, height: 130, quantity: 1 }],
+    200,
+    "zebra"
+  );
+
+  assert.deepEqual(plan.rows[0].pieces, [{ sashIndex: 0, width: 100, height: 280 }]);
+  assert.equal(plan.totalLength, 280);
+  assert.deepEqual(plan.newRemnants, [{ width: 100, length: 280 }]);
+});
+
+test("pieces share a row across the roll", () => {
+  const plan = calculateOptimalCutting(
+    [{ index: 0, width: 90, height: 80, quantity: 2, orderId: "o1", orderNumber: 7 }],
+    200
+  );
+
+  assert.equal(plan.rows.length, 1);
+  assert.equal(plan.rows[0].usedWidth, 200);
+  assert.equal(plan.rows[0].pieces.length, 2);
+  assert.equal(plan.rows[0].pieces[0].orderNumber, 7);
+  assert.equal(plan.totalLength, 90);
+  assert.deepEqual(plan.newRemnants, []);
+  assert.equal(plan.wastePercent, 0);
+});
+
+test("remnants first: the smallest that fits, the rest from the roll", () => {
+  const plan = calculateOptimalCutting(
+    [{ index: 0, width: 100, height: 130, quantity: 2 }],
+    200,
+    "roll",
+    [
+      { id: "big", width: "150", length: "300" },
+      { id: "small", width: "110", length: "160" },
+    ]
+  );
+
+  assert.deepEqual(
+    plan.rows.map((r) => [r.rowIndex, r.remnantId]),
+    [
+      [1, "small"],
+      [2, "big"],
+    ]
+  );
+  assert.deepEqual(plan.rows[0].pieces, [{ sashIndex: 0, width: 100, height: 150 }]);
+  // Рулон не тронут — длина и новые обрезки только по рядам рулона
+  assert.equal(plan.totalLength, 0);
+  assert.deepEqual(plan.newRemnants, []);
+  assert.equal(plan.wastePercent, 0);
+});
+
+test("a piece that fits no remnant goes to the roll", () => {
+  const plan = calculateOptimalCutting(
+    [{ index: 0, width: 100, height: 130, quantity: 1 }],
+    200,
+    "roll",
+    [{ id: "narrow", width: "60", length: "400" }]
+  );
+
+  assert.equal(plan.rows.length, 1);
+  assert.equal(plan.rows[0].remnantId, undefined);
+  assert.equal(plan.totalLength, 100);
+});
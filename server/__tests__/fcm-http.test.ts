@@ -0,0 +1,472 @@
+// HTTP round-trip tests for sendFcm.
+//
+// Spins up a local HTTP server that plays both Google endpoints — the OAuth2
+// token_uri and the FCM v1 messages:send API — with the response shapes FCM
+// uses: 200 OK, 404 UNREGISTERED, 403 SENDER_ID_MISMATCH, 401, 429, 5xx.
+// Verifies sendFcm:
+// - exchanges a signed RS256 assertion for an access token and caches it
+// - shares one token request between parallel sends, refreshes when expired
+// - parses the FcmError errorCode from the error body
+// - invokes the dead-token cleanup hook only for "dead" reasons
+//
+// Run with: npx tsx --test server/__tests__/fcm-http.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { generateKeyPairSync } from "node:crypto";
+
+import {
+  sendFcm,
+  setFcmDeadTokenCleanup,
+  __resetFcmForTests,
+  __setFcmConfigForTests,
+  __setFcmHostForTests,
+  __expireFcmTokenForTests,
+  __getFcmTokenCache,
+  type FcmConfig,
+} from "../fcm";
+
+interface MockResponse {
+  status: number;
+  errorCode?: string; // FcmError detail
+  errorStatus?: string; // google.rpc status
+  rawBody?: string; // override for non-JSON tests
+}
+
+interface CapturedSend {
+  path: string;
+  authorization: string | undefined;
+  body: {
+    message: {
+      token: string;
+      notification: { title: string; body: string };
+      data?: Record<string, string>;
+      android: { priority: string; notification: Record<string, unknown> };
+    };
+  };
+}
+
+interface MockServer {
+  url: string;
+  tokenRequests: URLSearchParams[];
+  sends: CapturedSend[];
+  close: () => Promise<void>;
+}
+
+// One RSA key for the whole file — generating 2048-bit keys is slow
+const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const PRIVATE_KEY_PEM = privateKey.export({ format: "pem", type: "pkcs8" }).toString();
+
+function testConfig(baseUrl: string): FcmConfig {
+  return {
+    projectId: "forsa-test",
+    clientEmail: "push@forsa-test.iam.gserviceaccount.com",
+    privateKey: PRIVATE_KEY_PEM,
+    tokenUri: `${baseUrl}/token`,
+  };
+}
+
+async function startMockFcm(
+  responder: (send: CapturedSend) => MockResponse,
+  tokenResponder: (n: number) => { status: number; body: unknown } = (n) => ({
+    status: 200,
+    body: { access_token: `access-${n}`, expires_in: 3600, token_type: "Bearer" },
+  })
+): Promise<MockServer> {
+  const tokenRequests: URLSearchParams[] = [];
+  const sends: CapturedSend[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8");
+
+      if (req.url === "/token") {
+        tokenRequests.push(new URLSearchParams(text));
+        const reply = tokenResponder(tokenRequests.length);
+        res.writeHead(reply.status, { "content-type": "application/json" });
+        res.end(JSON.stringify(reply.body));
+        return;
+      }
+
+      const send: CapturedSend = {
+        path: req.url ?? "",
+        authorization: req.headers["authorization"],
+        body: JSON.parse(text),
+      };
+      sends.push(send);
+
+      const reply = responder(send);
+      res.writeHead(reply.status, { "content-type": "application/json" });
+      if (reply.rawBody !== undefined) {
+        res.end(reply.rawBody);
+      } else if (reply.status === 200) {
+        res.end(JSON.stringify({ name: `projects/forsa-test/messages/${sends.length}` }));
+      } else {
+        res.end(
+          JSON.stringify({
+            error: {
+              code: reply.status,
+              message: "error",
+              status: reply.errorStatus ?? "INTERNAL",
+              details: reply.errorCode
+                ? [
+                    {
+                      "@type": "type.googleapis.com/google.firebase.fcm.v1.FcmError",
+                      errorCode: reply.errorCode,
+                    },
+                  ]
+                : [],
+            },
+          })
+        );
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    tokenRequests,
+    sends,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+async function withServer<T>(
+  responder: (send: CapturedSend) => MockResponse,
+  fn: (mock: MockServer) => Promise<T>,
+  tokenResponder?: (n: number) => { status: number; body: unknown }
+): Promise<T> {
+  const mock = await startMockFcm(responder, tokenResponder);
+  __resetFcmForTests();
+  __setFcmConfigForTests(testConfig(mock.url));
+  __setFcmHostForTests(mock.url);
+  try {
+    return await fn(mock);
+  } finally {
+    __resetFcmForTests();
+    await mock.close();
+  }
+}
+
+async function flushAsync() {
+  await new Promise((r) => setImmediate(r));
+  await new Promise((r) => setImmediate(r));
+}
+
+test("sendFcm: 200 OK — OAuth exchange, then message with correct headers and body", async () => {
+  await withServer(
+    () => ({ status: 200 }),
+    async (mock) => {
+      const results = await sendFcm(
+        [{ token: "android-tok-1", platform: "android" }],
+        { title: "Привет", body: "test", data: { entityType: "order", entityId: "abc" } }
+      );
+
+      assert.equal(results.length, 1);
+      assert.equal(results[0].ok, true);
+      assert.equal(results[0].status, 200);
+      assert.equal(results[0].token, "android-tok-1");
+
+      // OAuth: JWT bearer grant with an RS256 assertion for the FCM scope
+      assert.equal(mock.tokenRequests.length, 1);
+      const form = mock.tokenRequests[0];
+      assert.equal(form.get("grant_type"), "urn:ietf:params:oauth:grant-type:jwt-bearer");
+      const parts = form.get("assertion")!.split(".");
+      assert.equal(parts.length, 3, "JWT shape: header.payload.signature");
+      const header = JSON.parse(Buffer.from(parts[0], "base64url").toString());
+      assert.equal(header.alg, "RS256");
+      const claims = JSON.parse(Buffer.from(parts[1], "base64url").toString());
+      assert.equal(claims.iss, "push@forsa-test.iam.gserviceaccount.com");
+      assert.equal(claims.scope, "https://www.googleapis.com/auth/firebase.messaging");
+      assert.equal(claims.aud, `${mock.url}/token`);
+      assert.equal(claims.exp - claims.iat, 3600);
+
+      // Message
+      assert.equal(mock.sends.length, 1);
+      const send = mock.sends[0];
+      assert.equal(send.path, "/v1/projects/forsa-test/messages:send");
+      assert.equal(send.authorization, "Bearer access-1");
+      assert.equal(send.body.message.token, "android-tok-1");
+      assert.deepEqual(send.body.message.notification, { title: "Привет", body: "test" });
+      assert.deepEqual(send.body.message.data, { entityType: "order", entityId: "abc" });
+      assert.equal(send.body.message.android.priority, "HIGH");
+      assert.equal(send.body.message.android.notification.sound, "default");
+    }
+  );
+});
+
+test("sendFcm: data values are stringified and nulls dropped (FCM accepts strings only)", async () => {
+  await withServer(
+    () => ({ status: 200 }),
+    async (mock) => {
+      await sendFcm(
+        [{ token: "tok", platform: "android" }],
+        {
+          title: "t",
+          body: "b",
+          data: { entityType: null, entityId: null, count: 3, nested: { a: 1 } },
+        }
+      );
+
+      assert.deepEqual(mock.sends[0].body.message.data, {
+        count: "3",
+        nested: '{"a":1}',
+      });
+    }
+  );
+});
+
+test("sendFcm: iOS tokens are ignored (they go to APNs)", async () => {
+  await withServer(
+    () => ({ status: 200 }),
+    async (mock) => {
+      const results = await sendFcm(
+        [
+          { token: "ios-1", platform: "ios" },
+          { token: "android-1", platform: "android" },
+        ],
+        { title: "t", body: "b" }
+      );
+
+      assert.equal(results.length, 1);
+      assert.equal(results[0].token, "android-1");
+      assert.equal(mock.sends.length, 1);
+    }
+  );
+});
+
+test("sendFcm: no Android tokens — no OAuth request at all", async () => {
+  await withServer(
+    () => ({ status: 200 }),
+    async (mock) => {
+      const results = await sendFcm([{ token: "ios-1", platform: "ios" }], {
+        title: "t",
+        body: "b",
+      });
+      assert.deepEqual(results, []);
+      assert.equal(mock.tokenRequests.length, 0);
+    }
+  );
+});
+
+test("sendFcm: access token is cached across calls", async () => {
+  await withServer(
+    () => ({ status: 200 }),
+    async (mock) => {
+      await sendFcm([{ token: "t1", platform: "android" }], { title: "a", body: "b" });
+      await sendFcm([{ token: "t2", platform: "android" }], { title: "a", body: "b" });
+      await sendFcm([{ token: "t3", platform: "android" }], { title: "a", body: "b" });
+
+      assert.equal(mock.tokenRequests.length, 1, "token must be reused within its lifetime");
+      assert.equal(mock.sends.length, 3);
+      for (const send of mock.sends) assert.equal(send.authorization, "Bearer access-1");
+    }
+  );
+});
+
+test("sendFcm: parallel batch and concurrent calls share one token request", async () => {
+  await withServer(
+    () => ({ status: 200 }),
+    async (mock) => {
+      const tokens = Array.from({ length: 5 }, (_, i) => ({
+        token: `dev-${i}`,
+        platform: "android" as const,
+      }));
+      const [a, b] = await Promise.all([
+        sendFcm(tokens, { title: "t", body: "b" }),
+        sendFcm([{ token: "other", platform: "android" }], { title: "t", body: "b" }),
+      ]);
+
+      assert.equal(a.length, 5);
+      assert.equal(b.length, 1);
+      for (const r of [...a, ...b]) assert.equal(r.ok, true);
+      assert.equal(mock.tokenRequests.length, 1, "no race — one OAuth exchange");
+      assert.equal(mock.sends.length, 6);
+    }
+  );
+});
+
+test("sendFcm: expired access token is refreshed on next send", async () => {
+  await withServer(
+    () => ({ status: 200 }),
+    async (mock) => {
+      await sendFcm([{ token: "t1", platform: "android" }], { title: "a", body: "b" });
+      assert.equal(__getFcmTokenCache().token, "access-1");
+
+      __expireFcmTokenForTests();
+      await sendFcm([{ token: "t2", platform: "android" }], { title: "a", body: "b" });
+
+      assert.equal(mock.tokenRequests.length, 2);
+      assert.equal(mock.sends[1].authorization, "Bearer access-2");
+      assert.equal(__getFcmTokenCache().token, "access-2");
+    }
+  );
+});
+
+test("sendFcm: token expiring within the refresh margin is refreshed early", async () => {
+  await withServer(
+    () => ({ status: 200 }),
+    async (mock) => {
+      await sendFcm([{ token: "t1", platform: "android" }], { title: "a", body: "b" });
+      await sendFcm([{ token: "t2", platform: "android" }], { title: "a", body: "b" });
+
+      assert.equal(mock.tokenRequests.length, 2, "expires_in=60s is inside the 5-minute margin");
+    },
+    (n) => ({ status: 200, body: { access_token: `short-${n}`, expires_in: 60 } })
+  );
+});
+
+test("sendFcm: 401 drops the cached token so the next send re-authenticates", async () => {
+  let calls = 0;
+  await withServer(
+    () => (++calls === 1 ? { status: 401, errorStatus: "UNAUTHENTICATED" } : { status: 200 }),
+    async (mock) => {
+      const first = await sendFcm([{ token: "t1", platform: "android" }], {
+        title: "a",
+        body: "b",
+      });
+      assert.equal(first[0].ok, false);
+      assert.equal(first[0].reason, "UNAUTHENTICATED");
+      assert.equal(__getFcmTokenCache().token, null);
+
+      const second = await sendFcm([{ token: "t1", platform: "android" }], {
+        title: "a",
+        body: "b",
+      });
+      assert.equal(second[0].ok, true);
+      assert.equal(mock.tokenRequests.length, 2);
+    }
+  );
+});
+
+test("sendFcm: OAuth failure fails every token without calling messages:send", async () => {
+  await withServer(
+    () => ({ status: 200 }),
+    async (mock) => {
+      const results = await sendFcm(
+        [
+          { token: "a", platform: "android" },
+          { token: "b", platform: "android" },
+        ],
+        { title: "t", body: "b" }
+      );
+
+      assert.equal(results.length, 2);
+      for (const r of results) {
+        assert.equal(r.ok, false);
+        assert.equal(r.reason, "OAuthError");
+      }
+      assert.equal(mock.sends.length, 0);
+      assert.equal(__getFcmTokenCache().token, null);
+    },
+    () => ({ status: 400, body: { error: "invalid_grant" } })
+  );
+});
+
+test("sendFcm: 404 UNREGISTERED triggers cleanup callback", async () => {
+  const cleaned: string[] = [];
+  setFcmDeadTokenCleanup(async (t) => {
+    cleaned.push(t);
+  });
+
+  await withServer(
+    () => ({ status: 404, errorStatus: "NOT_FOUND", errorCode: "UNREGISTERED" }),
+    async () => {
+      const results = await sendFcm([{ token: "uninstalled", platform: "android" }], {
+        title: "t",
+        body: "b",
+      });
+
+      assert.equal(results[0].ok, false);
+      assert.equal(results[0].status, 404);
+      assert.equal(results[0].reason, "UNREGISTERED");
+
+      await flushAsync();
+      assert.deepEqual(cleaned, ["uninstalled"]);
+    }
+  );
+});
+
+test("sendFcm: mixed batch — only dead reasons are cleaned up", async () => {
+  const cleaned: string[] = [];
+  setFcmDeadTokenCleanup(async (t) => {
+    cleaned.push(t);
+  });
+
+  await withServer(
+    (send) => {
+      const token = send.body.message.token;
+      if (token === "dead-1") return { status: 404, errorStatus: "NOT_FOUND", errorCode: "UNREGISTERED" };
+      if (token === "dead-2") {
+        return { status: 403, errorStatus: "PERMISSION_DENIED", errorCode: "SENDER_ID_MISMATCH" };
+      }
+      if (token === "quota") {
+        return { status: 429, errorStatus: "RESOURCE_EXHAUSTED", errorCode: "QUOTA_EXCEEDED" };
+      }
+      if (token === "transient") return { status: 503, errorStatus: "UNAVAILABLE" };
+      return { status: 200 };
+    },
+    async () => {
+      const results = await sendFcm(
+        ["alive-1", "dead-1", "quota", "dead-2", "transient"].map((token) => ({
+          token,
+          platform: "android" as const,
+        })),
+        { title: "t", body: "b" }
+      );
+
+      const byToken = Object.fromEntries(results.map((r) => [r.token, r]));
+      assert.equal(byToken["alive-1"].ok, true);
+      assert.equal(byToken["dead-1"].reason, "UNREGISTERED");
+      assert.equal(byToken["dead-2"].reason, "SENDER_ID_MISMATCH");
+      assert.equal(byToken["quota"].reason, "QUOTA_EXCEEDED");
+      // No FcmError detail — the rpc status is the reason
+      assert.equal(byToken["transient"].reason, "UNAVAILABLE");
+
+      await flushAsync();
+      assert.deepEqual(cleaned.sort(), ["dead-1", "dead-2"]);
+    }
+  );
+});
+
+test("sendFcm: non-JSON error body is captured as raw reason", async () => {
+  await withServer(
+    () => ({ status: 502, rawBody: "<html>Bad Gateway</html>" }),
+    async () => {
+      const results = await sendFcm([{ token: "tok", platform: "android" }], {
+        title: "t",
+        body: "b",
+      });
+      assert.equal(results[0].ok, false);
+      assert.equal(results[0].status, 502);
+      assert.equal(results[0].reason, "<html>Bad Gateway</html>");
+    }
+  );
+});
+
+test("sendFcm: disabled when FCM_SERVICE_ACCOUNT_PATH is missing", async () => {
+  __resetFcmForTests();
+  const saved = process.env.FCM_SERVICE_ACCOUNT_PATH;
+  delete process.env.FCM_SERVICE_ACCOUNT_PATH;
+  try {
+    const results = await sendFcm([{ token: "tok", platform: "android" }], {
+      title: "t",
+      body: "b",
+    });
+    assert.deepEqual(results, []);
+  } finally {
+    if (saved !== undefined) process.env.FCM_SERVICE_ACCOUNT_PATH = saved;
+    __resetFcmForTests();
+  }
+});
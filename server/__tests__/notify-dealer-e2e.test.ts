@@ -366,7 +366,7 @@ test("E2E: APNs disabled (no env config) — DB still writes, no network call",
   }
 });
 
-test("E2E: Android tokens silently skipped (current iOS-only direct APNs path)", async () => {
+test("E2E: Android tokens never reach APNs (FCM path, disabled here)", async () => {
   reset();
   const { keyPath, cleanup } = makeTestKey();
   const mockServer = await startMockApns(() => ({ status: 200 }));
@@ -388,7 +388,7 @@ test("E2E: Android tokens silently skipped (current iOS-only direct APNs path)",
 
     state.tokensByDealer.set("dealer-mixed", [
       { token: "ios-real", platform: "ios" },
-      { token: "android-skipped", platform: "android" },
+      { token: "android-to-fcm", platform: "android" },
     ]);
 
     await notifyDealer({
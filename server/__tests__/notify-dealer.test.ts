@@ -1,11 +1,11 @@
 // Integration tests for notifyDealer — verifies it both writes the in-app
-// notification to the DB and triggers an APNs push to the dealer's registered
-// device tokens.
+// notification to the DB and triggers a push to the dealer's registered
+// device tokens: iOS through APNs, Android through FCM.
 //
 // Run with: npx tsx --experimental-test-module-mocks --test \
 //             server/__tests__/notify-dealer.test.ts
 //
-// We mock both ./storage (no DB) and ./apns (no real APNs HTTP/2 calls). The
+// We mock ./storage (no DB), ./apns and ./fcm (no real provider calls). The
 // mocks read behavior from a shared `state` object so individual tests can
 // vary their behavior without re-mocking modules.
 
@@ -31,6 +31,10 @@ const state = {
     tokens: Array<{ token: string; platform: string }>;
     payload: { title: string; body: string; data?: Record<string, unknown> };
   }>,
+  sentFcm: [] as Array<{
+    tokens: Array<{ token: string; platform: string }>;
+    payload: { title: string; body: string; data?: Record<string, unknown> };
+  }>,
   insertShouldThrow: false,
 };
 
@@ -65,10 +69,24 @@ mock.module("../apns", {
   },
 });
 
+mock.module("../fcm", {
+  namedExports: {
+    sendFcm: async (
+      tokens: Array<{ token: string; platform: string }>,
+      payload: { title: string; body: string; data?: Record<string, unknown> }
+    ) => {
+      state.sentFcm.push({ tokens, payload });
+      return tokens.map((t) => ({ token: t.token, ok: true, status: 200 }));
+    },
+    setFcmDeadTokenCleanup: () => undefined,
+  },
+});
+
 function reset() {
   state.inserted.length = 0;
   state.tokensByDealer.clear();
   state.sent.length = 0;
+  state.sentFcm.length = 0;
   state.insertShouldThrow = false;
 }
 
@@ -193,7 +211,7 @@ test("notifyDealer DB-insert failure prevents push send (no orphan banner)", asy
     "if DB insert fails the user has no in-app row to deep-link to, so push is suppressed");
 });
 
-test("notifyDealer for dealer with android-only tokens still passes them through to sendApns", async () => {
+test("notifyDealer for dealer with android-only tokens sends through FCM, not APNs", async () => {
   reset();
   state.tokensByDealer.set("dealer-android", [
     { token: "android-tok", platform: "android" },
@@ -208,14 +226,14 @@ test("notifyDealer for dealer with android-only tokens still passes them through
   });
   await flushAsync();
 
-  // notifyDealer hands all tokens to sendApns; sendApns is responsible for
-  // filtering by platform. We verify the contract: tokens passed through.
-  assert.equal(state.sent.length, 1);
-  assert.equal(state.sent[0].tokens.length, 1);
-  assert.equal(state.sent[0].tokens[0].platform, "android");
+  // The push dispatcher routes by platform: APNs can only talk to Apple.
+  assert.equal(state.sent.length, 0, "android token must never reach sendApns");
+  assert.equal(state.sentFcm.length, 1);
+  assert.equal(state.sentFcm[0].tokens.length, 1);
+  assert.equal(state.sentFcm[0].tokens[0].platform, "android");
 });
 
-test("notifyDealer for dealer with mixed platform tokens passes all through", async () => {
+test("notifyDealer for dealer with mixed platform tokens splits them by provider", async () => {
   reset();
   state.tokensByDealer.set("dealer-mixed", [
     { token: "ios-1", platform: "ios" },
@@ -233,9 +251,10 @@ test("notifyDealer for dealer with mixed platform tokens passes all through", as
   await flushAsync();
 
   assert.equal(state.sent.length, 1);
-  assert.equal(state.sent[0].tokens.length, 3);
-  const platforms = state.sent[0].tokens.map((t) => t.platform).sort();
-  assert.deepEqual(platforms, ["android", "ios", "ios"]);
+  assert.deepEqual(state.sent[0].tokens.map((t) => t.token), ["ios-1", "ios-2"]);
+  assert.equal(state.sentFcm.length, 1);
+  assert.deepEqual(state.sentFcm[0].tokens.map((t) => t.token), ["android-1"]);
+  assert.deepEqual(state.sentFcm[0].payload, state.sent[0].payload);
 });
 
 test("notifyDealer doesn't await push (returns even if sendApns is slow)", async () => {
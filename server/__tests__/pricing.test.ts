@@ -0,0 +1,154 @@
+// Unit tests for the shared sash pricing used by the order form, CRM quotes
+// and the dealer app.
+// Verifies priceSashes:
+// - picks the tier base rate by system type and adds the fabric category
+//   surcharge
+// - applies the largest matching volume discount and the best promotion
+//   active on the order date, one after the other
+// - without a tier prices by the sash fallbackRate with no discounts
+// - rounds each sash price, the subtotal and the total to kopecks
+// and fallbackSashRate (the no-tier rate shared by client and server).
+//
+// Run with: npx tsx --test server/__tests__/pricing.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  DEFAULT_WORKSHOP_RATE,
+  fallbackSashRate,
+  priceSashes,
+  type PriceTierRules,
+} from "@shared/pricing";
+
+const tier: PriceTierRules = {
+  baseRateRulon: 30,
+  baseRateZebra: 40,
+  categorySurcharges: { "2": 10, "3": 25 },
+  volumeDiscounts: [
+    { minQuantity: 5, percent: 5 },
+    { minQuantity: 10, percent: 10 },
+  ],
+  promotions: [
+    { name: "Весна", dateFrom: "2026-03-01", dateTo: "2026-03-31", percent: 3 },
+    { name: "8 марта", dateFrom: "2026-03-07", dateTo: "2026-03-08", percent: 8 },
+  ],
+};
+
+test("tier: base rate by system type, category surcharge on top", () => {
+  const result = priceSashes(
+    tier,
+    [
+      { coefficient: 2, isZebra: false, category: "2", fallbackRate: 99 },
+      { coefficient: 2, isZebra: true, category: "E", fallbackRate: 99 },
+    ],
+    "2026-01-15"
+  );
+
+  assert.deepEqual(result.sashes, [
+    { rate: 30, surchargePercent: 10, price: 66 },
+    { rate: 40, surchargePercent: 0, price: 80 },
+  ]);
+  assert.equal(result.subtotal, 146);
+  assert.equal(result.volumeDiscountPercent, 0);
+  assert.equal(result.promotion, null);
+  assert.equal(result.total, 146);
+});
+
+test("tier: the largest volume discount by total quantity", () => {
+  const result = priceSashes(
+    tier,
+    [
+      { coefficient: 1, isZebra: false, quantity: 6, fallbackRate: 0 },
+      { coefficient: 1, isZebra: false, quantity: 4, fallbackRate: 0 },
+    ],
+    "2026-01-15"
+  );
+
+  assert.equal(result.volumeDiscountPercent, 10);
+  assert.equal(result.sashes[0].price, 27);
+  assert.equal(result.subtotal, 300);
+  assert.equal(result.total, 270);
+});
+
+test("tier: the best promotion active on the date, after the volume discount", () => {
+  const sashes = Array.from({ length: 5 }, () => ({
+    coefficient: 1,
+    isZebra: false,
+    fallbackRate: 0,
+  }));
+
+  const holiday = priceSashes(tier, sashes, "2026-03-08");
+  assert.deepEqual(holiday.promotion, { name: "8 марта", percent: 8 });
+  // 30 × 0.95 × 0.92
+  assert.equal(holiday.sashes[0].price, 26.22);
+  assert.equal(holiday.total, 131.1);
+
+  // Границы акции включительно
+  assert.deepEqual(priceSashes(tier, sashes, "2026-03-31").promotion, {
+    name: "Весна",
+    percent: 3,
+  });
+  assert.equal(priceSashes(tier, sashes, "2026-04-01").promotion, null);
+});
+
+test("no tier: fallbackRate without surcharges or discounts", () => {
+  const result = priceSashes(
+    null,
+    Array.from({ length: 12 }, () => ({
+      coefficient: 1.5,
+      isZebra: true,
+      category: "3",
+      fallbackRate: 28,
+    })),
+    "2026-03-08"
+  );
+
+  assert.deepEqual(result.sashes[0], { rate: 28, surchargePercent: 0, price: 42 });
+  assert.equal(result.volumeDiscountPercent, 0);
+  assert.equal(result.promotion, null);
+  assert.equal(result.subtotal, 504);
+  assert.equal(result.total, 504);
+});
+
+test("rounding: the total sums rounded sash prices, the subtotal is rounded once", () => {
+  const result = priceSashes(
+    { ...tier, volumeDiscounts: [], promotions: [] },
+    [
+      { coefficient: 1.111, isZebra: false, quantity: 3, fallbackRate: 0 },
+      { coefficient: 0.337, isZebra: true, category: "3", fallbackRate: 0 },
+    ],
+    "2026-01-15"
+  );
+
+  // 1.111 × 30 = 33.33; 0.337 × 40 × 1.25 = 16.85
+  assert.deepEqual(
+    result.sashes.map((s) => s.price),
+    [33.33, 16.85]
+  );
+  assert.equal(result.subtotal, 116.84);
+  assert.equal(result.total, 116.84);
+
+  const discounted = priceSashes(
+    { ...tier, volumeDiscounts: [{ minQuantity: 1, percent: 7 }], promotions: [] },
+    [{ coefficient: 1, isZebra: false, quantity: 3, fallbackRate: 0 }],
+    "2026-01-15"
+  );
+  // 30 × 0.93 = 27.9 за створку, итог — по округлённой цене
+  assert.equal(discounted.sashes[0].price, 27.9);
+  assert.equal(discounted.subtotal, 90);
+  assert.equal(discounted.total, 83.7);
+});
+
+test("fallbackSashRate: dealer rate by system type, else system multiplier", () => {
+  const dealer = { workshopRateRulon: "31.5", workshopRateZebra: "45" };
+
+  assert.equal(fallbackSashRate(dealer, false, 12), 31.5);
+  assert.equal(fallbackSashRate(dealer, true, 12), 45);
+  assert.equal(
+    fallbackSashRate({ workshopRateRulon: "", workshopRateZebra: "45" }, false),
+    DEFAULT_WORKSHOP_RATE
+  );
+  assert.equal(fallbackSashRate(null, true, 12), 12);
+  assert.equal(fallbackSashRate(undefined, false), DEFAULT_WORKSHOP_RATE);
+});
@@ -64,7 +64,6 @@ mock.module("../notifications", {
   namedExports: {
     notify: async () => undefined,
     notifyDealer: async () => undefined,
-    generatePeriodicNotifications: async () => undefined,
   },
 });
 mock.module("../audit", {
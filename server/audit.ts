@@ -2,6 +2,8 @@ import { storage } from "./storage";
 
 export async function logAudit(params: {
   userId: string;
+  // Сотрудник, выполнивший действие; по умолчанию — сам владелец
+  actorId?: string;
   action: string;
   entityType: string;
   entityId: string;
@@ -17,6 +19,7 @@ export async function logAudit(params: {
 
     await storage.createAuditLog({
       userId: params.userId,
+      actorId: params.actorId ?? params.userId,
       action: params.action,
       entityType: params.entityType,
       entityId: params.entityId,
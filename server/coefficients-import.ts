@@ -0,0 +1,147 @@
+import ExcelJS from "exceljs";
+import type { CoefficientData } from "./coefficients";
+
+// Импорт таблиц коэффициентов из XLSX в формате исходной книги:
+// лист на систему (имя листа = source_sheet), на листе — блоки категорий.
+// Блок: строка с заголовком «<категория> категория ...», под ней строка
+// ширин (со столбца B), далее строки «высота | коэффициенты».
+
+export interface CoefficientImportResult {
+  data: CoefficientData;
+  errors: string[];
+  skippedSheets: string[];
+}
+
+type Cell = string | number | null;
+
+const CATEGORY_TITLE = /^\s*(\S+)\s+категория/i;
+
+function normalizeSheetName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function readCell(value: ExcelJS.CellValue): Cell {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return value;
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (trimmed === "") return null;
+    const n = Number(trimmed.replace(",", "."));
+    return Number.isFinite(n) ? n : trimmed;
+  }
+  if (typeof value === "object") {
+    if ("result" in value) return readCell(value.result as ExcelJS.CellValue);
+    if ("richText" in value) return readCell(value.richText.map((t) => t.text).join(""));
+    if ("text" in value) return readCell(value.text);
+  }
+  return null;
+}
+
+// Размеры в книге могут быть в сантиметрах — в таблицах храним метры
+function toMeters(sizes: number[]): number[] {
+  const inCm = Math.max(...sizes) > 10;
+  return sizes.map((v) => Math.round((inCm ? v / 100 : v) * 1000) / 1000);
+}
+
+function readSheet(sheet: ExcelJS.Worksheet): Cell[][] {
+  const rows: Cell[][] = [];
+  for (let r = 1; r <= sheet.rowCount; r++) {
+    const row = sheet.getRow(r);
+    const cells: Cell[] = [];
+    for (let c = 1; c <= sheet.columnCount; c++) {
+      cells.push(readCell(row.getCell(c).value));
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+function parseBlocks(
+  rows: Cell[][],
+  sheetName: string,
+  errors: string[]
+): CoefficientData["products"][string]["categories"] {
+  const categories: CoefficientData["products"][string]["categories"] = {};
+
+  for (let i = 0; i < rows.length; i++) {
+    const first = rows[i].find((cell) => cell !== null);
+    const match = typeof first === "string" ? first.match(CATEGORY_TITLE) : null;
+    if (!match) continue;
+
+    const category = match[1];
+    const where = `Лист «${sheetName}», категория ${category}`;
+    const widths = (rows[i + 1] || [])
+      .slice(1)
+      .filter((cell): cell is number => typeof cell === "number");
+    if (widths.length === 0) {
+      errors.push(`${where}: нет строки ширин под заголовком`);
+      continue;
+    }
+
+    const heights: number[] = [];
+    const values: number[][] = [];
+    let r = i + 2;
+    for (; r < rows.length && typeof rows[r][0] === "number"; r++) {
+      const line = rows[r].slice(1, widths.length + 1);
+      if (line.length < widths.length || line.some((cell) => typeof cell !== "number")) {
+        errors.push(`${where}: строка ${r + 1} заполнена не полностью`);
+        break;
+      }
+      heights.push(rows[r][0] as number);
+      values.push(line as number[]);
+    }
+    if (heights.length === 0) {
+      errors.push(`${where}: нет строк высот`);
+      continue;
+    }
+
+    categories[category] = {
+      title: first as string,
+      widths: toMeters(widths),
+      heights: toMeters(heights),
+      values,
+    };
+    i = r - 1;
+  }
+
+  return categories;
+}
+
+/**
+ * Разобрать книгу. Листы сопоставляются с системами по source_sheet из
+ * known (действующая таблица); незнакомые листы пропускаются.
+ */
+export async function parseCoefficientWorkbook(
+  buffer: Buffer,
+  known: CoefficientData
+): Promise<CoefficientImportResult> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  const sheetToKey = new Map<string, string>();
+  for (const [key, product] of Object.entries(known.products)) {
+    if (product.source_sheet) sheetToKey.set(normalizeSheetName(product.source_sheet), key);
+  }
+
+  const data: CoefficientData = { products: {} };
+  const errors: string[] = [];
+  const skippedSheets: string[] = [];
+
+  workbook.eachSheet((sheet) => {
+    const systemKey = sheetToKey.get(normalizeSheetName(sheet.name));
+    if (!systemKey) {
+      skippedSheets.push(sheet.name);
+      return;
+    }
+    const categories = parseBlocks(readSheet(sheet), sheet.name, errors);
+    if (Object.keys(categories).length > 0) {
+      data.products[systemKey] = { source_sheet: sheet.name, categories };
+    }
+  });
+
+  if (Object.keys(data.products).length === 0 && errors.length === 0) {
+    errors.push("В книге не найдено листов с известными системами");
+  }
+
+  return { data, errors, skippedSheets };
+}
@@ -1,29 +1,161 @@
-// Импортируем JSON напрямую - esbuild заинлайнит его в бандл
+// Стандартная таблица из поставки — esbuild заинлайнит её в бандл.
+// Используется, пока у рабочего пространства нет своих версий в БД.
 import coefficientsJsonData from "./data/coefficients.json";
+import type {
+  CoefficientGrid,
+  CoefficientLookupMode,
+  CoefficientOutOfRangeMode,
+  CoefficientVersion,
+  CoefficientWarning,
+  InsertCoefficientGrid,
+  System,
+} from "@shared/schema";
+
+export interface CoefficientCategoryData {
+  title?: string;
+  widths: number[];
+  heights: number[];
+  values: number[][];
+}
 
-interface CoefficientData {
+export interface CoefficientData {
   products: {
     [productKey: string]: {
+      source_sheet?: string;
       categories: {
-        [category: string]: {
-          widths: number[];
-          heights: number[];
-          values: number[][];
-        };
+        [category: string]: CoefficientCategoryData;
       };
     };
   };
 }
 
-// Данные уже загружены при импорте
-const coefficientsData: CoefficientData =
+export interface CoefficientPolicy {
+  lookup: CoefficientLookupMode;
+  outOfRange: CoefficientOutOfRangeMode;
+}
+
+export interface CoefficientLookupResult {
+  coefficient: number | null;
+  usedSystemKey: string | null;
+  usedCategory: string | null;
+  isFallbackCategory: boolean;
+  versionId: string | null;
+  warnings: CoefficientWarning[];
+}
+
+// Правило для публичных запросов и систем, которых нет в справочнике
+export const DEFAULT_COEFFICIENT_POLICY: CoefficientPolicy = {
+  lookup: "nearest",
+  outOfRange: "reject",
+};
+
+const defaultCoefficients: CoefficientData =
   coefficientsJsonData as CoefficientData;
 
+// Сетки версии собираются из БД один раз на отметку updatedAt: запись
+// сеток меняет отметку, и любой инстанс перечитает их при следующем поиске
+const versionCache = new Map<string, { stamp: number; data: CoefficientData }>();
+
+const versionStamp = (version: CoefficientVersion) =>
+  (version.updatedAt ?? version.createdAt)?.getTime() ?? 0;
+
+export function getDefaultCoefficients(): CoefficientData {
+  return defaultCoefficients;
+}
+
 /**
- * Возвращает данные коэффициентов (уже загружены при старте)
+ * Действующая версия: последняя с датой начала не позже date.
+ * versions — в порядке storage.getCoefficientVersions (новые первыми).
  */
-function loadCoefficients(): CoefficientData {
-  return coefficientsData;
+export function pickActiveVersion(
+  versions: CoefficientVersion[],
+  date: string = new Date().toISOString().split("T")[0]
+): CoefficientVersion | null {
+  return versions.find((v) => v.effectiveFrom <= date) ?? null;
+}
+
+export async function getActiveCoefficientVersion(
+  userId: string
+): Promise<CoefficientVersion | null> {
+  // storage подключаем лениво: утилиты проверки коэффициентов работают без БД
+  const { storage } = await import("./storage");
+  return pickActiveVersion(await storage.getCoefficientVersions(userId));
+}
+
+export function gridsToCoefficientData(grids: CoefficientGrid[]): CoefficientData {
+  const data: CoefficientData = { products: {} };
+  for (const grid of grids) {
+    const product = (data.products[grid.systemKey] ??= {
+      source_sheet: grid.sourceSheet ?? undefined,
+      categories: {},
+    });
+    product.categories[grid.category] = {
+      title: grid.title ?? undefined,
+      widths: JSON.parse(grid.widths),
+      heights: JSON.parse(grid.heights),
+      values: JSON.parse(grid.values),
+    };
+  }
+  return data;
+}
+
+export function coefficientDataToGrids(
+  data: CoefficientData,
+  versionId: string
+): InsertCoefficientGrid[] {
+  return Object.entries(data.products).flatMap(([systemKey, product]) =>
+    Object.entries(product.categories).map(([category, grid]) => ({
+      versionId,
+      systemKey,
+      sourceSheet: product.source_sheet ?? null,
+      category,
+      title: grid.title ?? null,
+      widths: JSON.stringify(grid.widths),
+      heights: JSON.stringify(grid.heights),
+      values: JSON.stringify(grid.values),
+    }))
+  );
+}
+
+/**
+ * Коэффициенты рабочего пространства по действующей версии.
+ * Без userId (публичные запросы) и без версий — стандартная таблица.
+ */
+export async function loadCoefficients(
+  userId?: string
+): Promise<{ data: CoefficientData; versionId: string | null }> {
+  if (!userId) return { data: defaultCoefficients, versionId: null };
+
+  const version = await getActiveCoefficientVersion(userId);
+  if (!version) return { data: defaultCoefficients, versionId: null };
+
+  const stamp = versionStamp(version);
+  const cached = versionCache.get(version.id);
+  if (cached?.stamp === stamp) return { data: cached.data, versionId: version.id };
+
+  const { storage } = await import("./storage");
+  const data = gridsToCoefficientData(await storage.getCoefficientGrids(version.id));
+  versionCache.set(version.id, { stamp, data });
+  return { data, versionId: version.id };
+}
+
+/**
+ * Поиск по таблице, загруженной один раз на запрос: для заказа или
+ * редакции со многими створками. Правило поиска передаёт вызывающий —
+ * из справочника систем, который у него уже загружен.
+ */
+export async function createCoefficientLookup(userId?: string): Promise<
+  (
+    systemKey: string,
+    category: string,
+    width: number,
+    height: number,
+    policy: CoefficientPolicy
+  ) => CoefficientLookupResult
+> {
+  const { data, versionId } = await loadCoefficients(userId);
+  return (systemKey, category, width, height, policy) =>
+    lookupCoefficientDetailed(data, versionId, systemKey, category, width, height, policy);
 }
 
 /**
@@ -48,70 +180,91 @@ function roundToGridStep(value: number, step: number = 0.1): number {
 }
 
 /**
- * Находит ближайший индекс в массиве для заданного значения
+ * Узел сетки «вверх»: 0.41 м при шаге 0.1 → 0.5 м
  */
-function findNearestIndex(value: number, arr: number[]): number {
-  // Округляем значение до шага сетки
-  const step =
-    arr.length > 1 ? Math.round((arr[1] - arr[0]) * 1000) / 1000 : 0.1;
-  const rounded = roundToGridStep(value, step);
+function roundUpToGridStep(value: number, step: number = 0.1): number {
+  return Math.round(Math.ceil(value / step - 1e-6) * step * 1000) / 1000;
+}
 
-  // Ищем точное совпадение
-  for (let i = 0; i < arr.length; i++) {
-    if (Math.abs(arr[i] - rounded) < 0.0001) {
-      return i;
+/**
+ * Дробная позиция значения на оси: 1.5 — посередине между узлами 1 и 2.
+ * За последним узлом позиция продолжается с последним шагом оси.
+ */
+function axisPosition(value: number, arr: number[]): number {
+  if (arr.length === 1 || value <= arr[0]) return 0;
+  for (let i = 0; i < arr.length - 1; i++) {
+    if (value <= arr[i + 1]) {
+      return i + (value - arr[i]) / (arr[i + 1] - arr[i]);
     }
   }
+  const last = arr.length - 1;
+  return last + (value - arr[last]) / (arr[last] - arr[last - 1]);
+}
 
-  // Если точного совпадения нет, ограничиваем диапазоном
-  if (rounded <= arr[0]) return 0;
-  if (rounded >= arr[arr.length - 1]) return arr.length - 1;
-
-  // Ищем ближайший
-  let nearestIndex = 0;
-  let minDiff = Math.abs(arr[0] - rounded);
-  for (let i = 1; i < arr.length; i++) {
-    const diff = Math.abs(arr[i] - rounded);
-    if (diff < minDiff) {
-      minDiff = diff;
-      nearestIndex = i;
-    }
+interface AxisLookup {
+  position: number;
+  outOfRange: boolean;
+}
+
+/**
+ * Позиция размера на оси по правилу системы. Размер меньше первого узла
+ * считается по первому узлу (минимальный размер из прайса); больше
+ * последнего — outOfRange, позиция — за краем сетки.
+ */
+function locateOnAxis(
+  value: number,
+  arr: number[],
+  mode: CoefficientLookupMode
+): AxisLookup {
+  const step =
+    arr.length > 1 ? Math.round((arr[1] - arr[0]) * 1000) / 1000 : 0.1;
+  const target =
+    mode === "nearest"
+      ? roundToGridStep(value, step)
+      : mode === "round_up"
+        ? roundUpToGridStep(value, step)
+        : value;
+  const max = arr[arr.length - 1];
+  const outOfRange = target > max + 0.0001;
+
+  let position = axisPosition(target, arr);
+  // Вне интерполяции берём точный узел: сетка не всегда равномерная
+  if (mode !== "interpolate" && !outOfRange) {
+    position = Math.round(position);
   }
-  return nearestIndex;
+  return { position, outOfRange };
 }
 
 /**
- * Поиск коэффициента по округлённым координатам (без интерполяции)
+ * Отрезок оси для позиции: индексы соседних узлов и доля между ними.
+ * За краем сетки берём последний отрезок с долей > 1 — это и есть
+ * линейная экстраполяция.
+ */
+function axisSegment(position: number, length: number): [number, number, number] {
+  if (length === 1) return [0, 0, 0];
+  const i0 = Math.min(Math.floor(position), length - 2);
+  return [i0, i0 + 1, position - i0];
+}
+
+/**
+ * Коэффициент по дробным позициям на осях (билинейно)
  */
 function lookupCoefficient(
-  x: number,
-  y: number,
+  xPosition: number,
+  yPosition: number,
   xArr: number[],
   yArr: number[],
   values: number[][]
 ): number {
-  const xIndex = findNearestIndex(x, xArr);
-  const yIndex = findNearestIndex(y, yArr);
-
-  // Проверяем границы
-  const safeXIndex = Math.max(0, Math.min(xIndex, xArr.length - 1));
-  const safeYIndex = Math.max(0, Math.min(yIndex, yArr.length - 1));
-
-  const coefficient = values[safeYIndex][safeXIndex];
-
-  // Логируем для отладки
-  const step =
-    xArr.length > 1 ? Math.round((xArr[1] - xArr[0]) * 1000) / 1000 : 0.1;
-  console.log(
-    `[Coefficients] Lookup: ${x.toFixed(3)}м×${y.toFixed(3)}м → ` +
-      `округлено до ${roundToGridStep(x, step).toFixed(1)}м×${roundToGridStep(
-        y,
-        step
-      ).toFixed(1)}м ` +
-      `[${safeXIndex}][${safeYIndex}] = ${coefficient}`
+  const [x0, x1, tx] = axisSegment(xPosition, xArr.length);
+  const [y0, y1, ty] = axisSegment(yPosition, yArr.length);
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+  return lerp(
+    lerp(values[y0][x0], values[y0][x1], tx),
+    lerp(values[y1][x0], values[y1][x1], tx),
+    ty
   );
-
-  return coefficient;
 }
 
 /**
@@ -155,10 +308,10 @@ function findSystemKey(
 function findCategory(
   categories: Record<string, any>,
   category: string
-): string | null {
+): { key: string; isFallback: boolean } | null {
   // 1. Точное совпадение
   if (categories[category]) {
-    return category;
+    return { key: category, isFallback: false };
   }
 
   // 2. Поиск без учета регистра
@@ -171,7 +324,7 @@ function findCategory(
     console.log(
       `[Coefficients] Найдена категория "${foundKey}" вместо "${category}" (без учета регистра)`
     );
-    return foundKey;
+    return { key: foundKey, isFallback: false };
   }
 
   // 3. Поиск без пробелов
@@ -184,7 +337,7 @@ function findCategory(
     console.log(
       `[Coefficients] Найдена категория "${foundKey}" вместо "${category}" (нормализация)`
     );
-    return foundKey;
+    return { key: foundKey, isFallback: false };
   }
 
   // 4. Fallback: берем первую доступную категорию
@@ -195,32 +348,94 @@ function findCategory(
       `[Coefficients] Категория "${category}" не найдена. Используется fallback: "${fallbackCategory}". ` +
         `Доступные категории: ${availableCategories.join(", ")}`
     );
-    return fallbackCategory;
+    return { key: fallbackCategory, isFallback: true };
   }
 
   return null;
 }
 
+/**
+ * Правило поиска из справочника систем
+ */
+export function systemCoefficientPolicy(
+  system: Pick<System, "coefficientLookup" | "coefficientOutOfRange">
+): CoefficientPolicy {
+  return {
+    lookup: system.coefficientLookup as CoefficientLookupMode,
+    outOfRange: system.coefficientOutOfRange as CoefficientOutOfRangeMode,
+  };
+}
+
+/**
+ * Правило системы рабочего пространства с данным ключом таблицы
+ */
+async function loadCoefficientPolicy(
+  systemKey: string,
+  userId?: string
+): Promise<CoefficientPolicy> {
+  if (!userId) return DEFAULT_COEFFICIENT_POLICY;
+
+  const { storage } = await import("./storage");
+  const normalizedKey = normalizeString(systemKey);
+  const system = (await storage.getSystems(userId)).find(
+    (s) => s.systemKey && normalizeString(s.systemKey) === normalizedKey
+  );
+  return system ? systemCoefficientPolicy(system) : DEFAULT_COEFFICIENT_POLICY;
+}
+
+const formatMeters = (value: number) => String(Math.round(value * 100) / 100);
+
 /**
  * Получает коэффициент для заданных параметров с детальной информацией
  * @param systemKey - Ключ системы (например, "uni1_zebra")
  * @param category - Категория (например, "E", "1", "2", и т.д.)
  * @param width - Ширина в метрах
  * @param height - Высота в метрах
- * @returns Объект с коэффициентом и информацией о поиске
+ * @param userId - Рабочее пространство (для таблиц из БД и правила системы)
+ * @param policy - Правило поиска; по умолчанию — из справочника систем
+ * @returns Объект с коэффициентом, информацией о поиске, версией таблиц
+ *          и предупреждениями (размер вне сетки, подмена категории)
  */
-export function getCoefficientDetailed(
+export async function getCoefficientDetailed(
   systemKey: string,
   category: string,
   width: number,
-  height: number
-): {
-  coefficient: number | null;
-  usedSystemKey: string | null;
-  usedCategory: string | null;
-  isFallbackCategory: boolean;
-} {
-  const data = loadCoefficients();
+  height: number,
+  userId?: string,
+  policy?: CoefficientPolicy
+): Promise<CoefficientLookupResult> {
+  const { data, versionId } = await loadCoefficients(userId);
+  return lookupCoefficientDetailed(
+    data,
+    versionId,
+    systemKey,
+    category,
+    width,
+    height,
+    policy ?? (await loadCoefficientPolicy(systemKey, userId))
+  );
+}
+
+/**
+ * Поиск коэффициента в загруженной таблице (без обращений к БД)
+ */
+export function lookupCoefficientDetailed(
+  data: CoefficientData,
+  versionId: string | null,
+  systemKey: string,
+  category: string,
+  width: number,
+  height: number,
+  policy: CoefficientPolicy
+): CoefficientLookupResult {
+  const result: CoefficientLookupResult = {
+    coefficient: null,
+    usedSystemKey: null,
+    usedCategory: null,
+    isFallbackCategory: false,
+    versionId,
+    warnings: [],
+  };
 
   // Ищем систему с учетом различных вариантов написания
   const foundSystemKey = findSystemKey(data, systemKey);
@@ -230,13 +445,9 @@ export function getCoefficientDetailed(
         data.products
       ).join(", ")}`
     );
-    return {
-      coefficient: null,
-      usedSystemKey: null,
-      usedCategory: null,
-      isFallbackCategory: false,
-    };
+    return result;
   }
+  result.usedSystemKey = foundSystemKey;
 
   const product = data.products[foundSystemKey];
 
@@ -246,15 +457,18 @@ export function getCoefficientDetailed(
     console.warn(
       `[Coefficients] Категория "${category}" не найдена для системы "${foundSystemKey}" и fallback недоступен`
     );
-    return {
-      coefficient: null,
-      usedSystemKey: foundSystemKey,
-      usedCategory: null,
-      isFallbackCategory: false,
-    };
+    return result;
+  }
+  result.usedCategory = foundCategory.key;
+  result.isFallbackCategory = foundCategory.isFallback;
+  if (foundCategory.isFallback) {
+    result.warnings.push({
+      code: "fallback_category",
+      message: `Категория "${category}" не найдена, использована "${foundCategory.key}"`,
+    });
   }
 
-  const categoryData = product.categories[foundCategory];
+  const categoryData = product.categories[foundCategory.key];
   const { widths, heights, values } = categoryData;
 
   // Проверяем, что данные корректны
@@ -266,140 +480,129 @@ export function getCoefficientDetailed(
     heights.length === 0
   ) {
     console.warn(
-      `[Coefficients] Некорректные данные для системы "${foundSystemKey}", категории "${foundCategory}"`
+      `[Coefficients] Некорректные данные для системы "${foundSystemKey}", категории "${foundCategory.key}"`
     );
-    return {
-      coefficient: null,
-      usedSystemKey: foundSystemKey,
-      usedCategory: foundCategory,
-      isFallbackCategory: foundCategory !== category,
-    };
+    return result;
   }
 
   try {
-    const coefficient = lookupCoefficient(
-      width,
-      height,
+    const { lookup, outOfRange } = policy;
+    const x = locateOnAxis(width, widths, lookup);
+    const y = locateOnAxis(height, heights, lookup);
+
+    if (x.outOfRange || y.outOfRange) {
+      const size =
+        `Размер ${formatMeters(width)}×${formatMeters(height)} м больше таблицы ` +
+        `(до ${formatMeters(widths[widths.length - 1])}×${formatMeters(
+          heights[heights.length - 1]
+        )} м)`;
+      if (outOfRange === "reject") {
+        result.warnings.push({ code: "out_of_range", message: size });
+        return result;
+      }
+      result.warnings.push({
+        code: "extrapolated",
+        message: `${size} — коэффициент экстраполирован`,
+      });
+    }
+
+    result.coefficient = lookupCoefficient(
+      x.position,
+      y.position,
       widths,
       heights,
       values
     );
 
-    const isFallbackCategory = foundCategory !== category;
-
     // Логируем если использовали fallback
-    if (isFallbackCategory) {
+    if (result.isFallbackCategory) {
       console.log(
-        `[Coefficients] Рассчитан коэффициент ${coefficient.toFixed(
+        `[Coefficients] Рассчитан коэффициент ${result.coefficient.toFixed(
           4
         )} для системы "${foundSystemKey}", ` +
-          `категория "${foundCategory}" (запрошена: "${category}"), размер ${width}×${height}м`
+          `категория "${foundCategory.key}" (запрошена: "${category}"), размер ${width}×${height}м`
       );
     }
 
-    return {
-      coefficient,
-      usedSystemKey: foundSystemKey,
-      usedCategory: foundCategory,
-      isFallbackCategory,
-    };
+    return result;
   } catch (error) {
     console.error("[Coefficients] Ошибка при вычислении коэффициента:", error);
-    return {
-      coefficient: null,
-      usedSystemKey: foundSystemKey,
-      usedCategory: foundCategory,
-      isFallbackCategory: foundCategory !== category,
-    };
+    return result;
   }
 }
 
-export function getCoefficient(
+export async function getCoefficient(
   systemKey: string,
   category: string,
   width: number,
-  height: number
-): number | null {
-  const data = loadCoefficients();
-
-  // Ищем систему с учетом различных вариантов написания
-  const foundSystemKey = findSystemKey(data, systemKey);
-  if (!foundSystemKey) {
-    console.warn(
-      `[Coefficients] Система "${systemKey}" не найдена. Доступные системы: ${Object.keys(
-        data.products
-      ).join(", ")}`
-    );
-    return null;
-  }
-
-  const product = data.products[foundSystemKey];
-
-  // Ищем категорию с учетом различных вариантов написания
-  const foundCategory = findCategory(product.categories, category);
-  if (!foundCategory) {
-    console.warn(
-      `[Coefficients] Категория "${category}" не найдена для системы "${foundSystemKey}" и fallback недоступен`
-    );
-    return null;
-  }
-
-  const categoryData = product.categories[foundCategory];
-  const { widths, heights, values } = categoryData;
+  height: number,
+  userId?: string
+): Promise<number | null> {
+  const result = await getCoefficientDetailed(systemKey, category, width, height, userId);
+  return result.coefficient;
+}
 
-  // Проверяем, что данные корректны
-  if (
-    !widths ||
-    !heights ||
-    !values ||
-    widths.length === 0 ||
-    heights.length === 0
-  ) {
-    console.warn(
-      `[Coefficients] Некорректные данные для системы "${foundSystemKey}", категории "${foundCategory}"`
-    );
-    return null;
-  }
+/**
+ * Проверка створок заказа перед сохранением: размеры вне сетки и подмена
+ * категории должны быть подтверждены явно. Размеры створок — в сантиметрах.
+ */
+export async function validateSashCoefficients(
+  userId: string,
+  sashes: {
+    width?: string;
+    height?: string;
+    systemId?: string;
+    fabricId?: string;
+  }[]
+): Promise<{ valid: boolean; errors: string[] }> {
+  const { storage } = await import("./storage");
+  const [systemList, fabricList, lookup] = await Promise.all([
+    storage.getSystems(userId),
+    storage.getFabrics(userId),
+    createCoefficientLookup(userId),
+  ]);
+
+  const errors: string[] = [];
+  for (const [index, sash] of Array.from(sashes.entries())) {
+    const system = systemList.find((s) => s.id === sash.systemId);
+    const fabric = fabricList.find((f) => f.id === sash.fabricId);
+    const width = parseFloat(sash.width || "0");
+    const height = parseFloat(sash.height || "0");
+    if (!system?.systemKey || !fabric?.category || width <= 0 || height <= 0) {
+      continue;
+    }
 
-  try {
-    const coefficient = lookupCoefficient(
-      width,
-      height,
-      widths,
-      heights,
-      values
+    const { warnings } = lookup(
+      system.systemKey,
+      fabric.category,
+      width / 100,
+      height / 100,
+      systemCoefficientPolicy(system)
     );
-
-    // Логируем если использовали fallback
-    if (foundCategory !== category) {
-      console.log(
-        `[Coefficients] Рассчитан коэффициент ${coefficient.toFixed(
-          4
-        )} для системы "${foundSystemKey}", ` +
-          `категория "${foundCategory}" (запрошена: "${category}"), размер ${width}×${height}м`
-      );
+    for (const warning of warnings) {
+      errors.push(`Створка ${index + 1}: ${warning.message}`);
     }
-
-    return coefficient;
-  } catch (error) {
-    console.error("[Coefficients] Ошибка при вычислении коэффициента:", error);
-    return null;
   }
+
+  return { valid: errors.length === 0, errors };
 }
 
 /**
  * Получает все доступные системы
  */
-export function getAvailableSystems(): string[] {
-  const data = loadCoefficients();
+export async function getAvailableSystems(userId?: string): Promise<string[]> {
+  const { data } = await loadCoefficients(userId);
   return Object.keys(data.products);
 }
 
 /**
  * Получает все категории для заданной системы
  */
-export function getSystemCategories(systemKey: string): string[] {
-  const data = loadCoefficients();
+export async function getSystemCategories(
+  systemKey: string,
+  userId?: string
+): Promise<string[]> {
+  const { data } = await loadCoefficients(userId);
   const product = data.products[systemKey];
 
   if (!product) {
@@ -412,14 +615,15 @@ export function getSystemCategories(systemKey: string): string[] {
 /**
  * Получает диапазоны ширины и высоты для системы и категории
  */
-export function getCoefficientRanges(
+export async function getCoefficientRanges(
   systemKey: string,
-  category: string
-): {
+  category: string,
+  userId?: string
+): Promise<{
   widthRange: { min: number; max: number } | null;
   heightRange: { min: number; max: number } | null;
-} {
-  const data = loadCoefficients();
+}> {
+  const { data } = await loadCoefficients(userId);
   const product = data.products[systemKey];
 
   if (!product || !product.categories[category]) {
@@ -0,0 +1,258 @@
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import type { StockExecutor } from "./stock";
+import {
+  stockMovements,
+  stockBalances,
+  COSTING_METHODS,
+  type CostingMethod,
+  type StockBalance,
+  type StockMovement,
+} from "@shared/schema";
+
+// Оценка себестоимости по журналу движений: FIFO-партии и скользящая
+// средняя. Состояние хранится в stock_balances и обновляется каждым
+// движением; журнал проигрывается только для позиций, где его ещё нет.
+
+interface CostLayer {
+  quantity: number;
+  price: number;
+  receiptId: string | null;
+}
+
+export interface ItemValuation {
+  quantity: number;
+  // FIFO: неизрасходованные партии, от самой ранней к последней
+  layers: CostLayer[];
+  // Скользящая средняя: стоимость текущего остатка
+  averageValue: number;
+  lastPrice: number;
+}
+
+export const itemKey = (itemType: string, itemId: string) => `${itemType}:${itemId}`;
+
+export async function getCostingMethod(userId: string): Promise<CostingMethod> {
+  const user = await storage.getUser(userId);
+  const method = user?.costingMethod as CostingMethod | undefined;
+  return method && COSTING_METHODS.includes(method) ? method : "average";
+}
+
+function applyMovement(v: ItemValuation, m: StockMovement) {
+  const qty = parseFloat(m.quantity);
+  const price = parseFloat(m.price?.toString() || "0");
+
+  if (qty > 0) {
+    // Поступление или возврат списания на склад — новая партия
+    v.layers.push({ quantity: qty, price, receiptId: m.receiptId });
+    v.averageValue += qty * price;
+    v.quantity += qty;
+    if (m.receiptId) v.lastPrice = price;
+    return;
+  }
+
+  let remaining = -qty;
+  const avg = v.quantity > 0 ? v.averageValue / v.quantity : price;
+
+  if (m.receiptId) {
+    // Сторно поступления — убираем остаток именно этой партии
+    for (const layer of v.layers) {
+      if (remaining <= 0) break;
+      if (layer.receiptId !== m.receiptId) continue;
+      const take = Math.min(layer.quantity, remaining);
+      layer.quantity -= take;
+      remaining -= take;
+    }
+    v.averageValue -= -qty * price;
+  } else {
+    v.averageValue -= -qty * avg;
+  }
+
+  // Расход (или недостающая часть сторно) — с самых ранних партий
+  for (const layer of v.layers) {
+    if (remaining <= 0) break;
+    const take = Math.min(layer.quantity, remaining);
+    layer.quantity -= take;
+    remaining -= take;
+  }
+  v.layers = v.layers.filter((l) => l.quantity > 1e-9);
+  v.quantity += qty;
+  if (v.quantity <= 1e-9) v.averageValue = 0;
+}
+
+const emptyValuation = (): ItemValuation => ({
+  quantity: 0,
+  layers: [],
+  averageValue: 0,
+  lastPrice: 0,
+});
+
+// Проигрывание всех движений позиции в порядке записи
+async function replayItem(
+  executor: StockExecutor,
+  balance: StockBalance
+): Promise<ItemValuation> {
+  const movements = await executor
+    .select()
+    .from(stockMovements)
+    .where(
+      and(
+        eq(stockMovements.userId, balance.userId),
+        eq(stockMovements.itemType, balance.itemType),
+        eq(stockMovements.itemId, balance.itemId)
+      )
+    )
+    .orderBy(asc(stockMovements.createdAt));
+  const v = emptyValuation();
+  for (const m of movements) applyMovement(v, m);
+  return v;
+}
+
+const costStateColumns = (v: ItemValuation) => ({
+  costLayers: JSON.stringify(v.layers),
+  averageValue: v.averageValue.toFixed(4),
+});
+
+function fromBalance(balance: StockBalance): ItemValuation {
+  return {
+    quantity: parseFloat(balance.quantity),
+    layers: JSON.parse(balance.costLayers!) as CostLayer[],
+    averageValue: parseFloat(balance.averageValue || "0"),
+    lastPrice: parseFloat(balance.lastPrice),
+  };
+}
+
+/**
+ * Учитывает движение в сохранённом состоянии оценки. Вызывается из
+ * recordStockMovements после обновления остатка — строка остатка уже
+ * заблокирована транзакцией записи и включает это движение.
+ */
+export async function applyCostMovement(
+  executor: StockExecutor,
+  movement: StockMovement
+): Promise<void> {
+  const [balance] = await executor
+    .select()
+    .from(stockBalances)
+    .where(
+      and(
+        eq(stockBalances.userId, movement.userId),
+        eq(stockBalances.itemType, movement.itemType),
+        eq(stockBalances.itemId, movement.itemId)
+      )
+    );
+  if (!balance) return;
+
+  let v: ItemValuation;
+  if (balance.costLayers === null) {
+    v = await replayItem(executor, balance);
+  } else {
+    v = fromBalance(balance);
+    // Остаток уже с этим движением; состояние до него — без
+    v.quantity -= parseFloat(movement.quantity);
+    applyMovement(v, movement);
+  }
+  await executor
+    .update(stockBalances)
+    .set(costStateColumns(v))
+    .where(eq(stockBalances.id, balance.id));
+}
+
+/**
+ * Состояние оценки по позициям (ключ — itemKey). itemIds ограничивает
+ * расчёт набором тканей/комплектующих; без него — все позиции.
+ */
+export async function getInventoryValuation(
+  userId: string,
+  itemIds?: string[],
+  executor: StockExecutor = db
+): Promise<Map<string, ItemValuation>> {
+  const conditions = [eq(stockBalances.userId, userId)];
+  if (itemIds) {
+    if (itemIds.length === 0) return new Map();
+    conditions.push(inArray(stockBalances.itemId, itemIds));
+  }
+
+  const balances = await executor
+    .select()
+    .from(stockBalances)
+    .where(and(...conditions));
+
+  const result = new Map<string, ItemValuation>();
+  for (const balance of balances) {
+    let v: ItemValuation;
+    if (balance.costLayers === null) {
+      // Первое обращение после миграции: считаем один раз и сохраняем.
+      // Если движение успело записать своё состояние, оно не затирается
+      v = await replayItem(executor, balance);
+      await executor
+        .update(stockBalances)
+        .set(costStateColumns(v))
+        .where(and(eq(stockBalances.id, balance.id), isNull(stockBalances.costLayers)));
+    } else {
+      v = fromBalance(balance);
+    }
+    result.set(itemKey(balance.itemType, balance.itemId), v);
+  }
+  return result;
+}
+
+export function getFifoValue(v: ItemValuation): number {
+  return v.layers.reduce((sum, l) => sum + l.quantity * l.price, 0);
+}
+
+// Цена единицы текущего остатка по методу (для предварительного расчёта)
+export function getUnitCost(v: ItemValuation, method: CostingMethod): number {
+  if (method === "fifo") {
+    return v.layers[0]?.price ?? v.lastPrice;
+  }
+  return v.quantity > 0 ? v.averageValue / v.quantity : v.lastPrice;
+}
+
+/**
+ * Цена списания quantity единиц по методу. Состояние v меняется — несколько
+ * строк одной позиции в одном заказе расходуют партии последовательно.
+ * Нехватка остатка оценивается по последней цене закупки.
+ */
+export function issueFromValuation(
+  v: ItemValuation,
+  method: CostingMethod,
+  quantity: number
+): number {
+  if (quantity <= 0) return getUnitCost(v, method);
+
+  if (method === "average") {
+    const unit = getUnitCost(v, method);
+    v.averageValue = Math.max(0, v.averageValue - quantity * unit);
+    v.quantity -= quantity;
+    return unit;
+  }
+
+  let remaining = quantity;
+  let total = 0;
+  const fallbackPrice = v.layers[v.layers.length - 1]?.price ?? v.lastPrice;
+  for (const layer of v.layers) {
+    if (remaining <= 0) break;
+    const take = Math.min(layer.quantity, remaining);
+    total += take * layer.price;
+    layer.quantity -= take;
+    remaining -= take;
+  }
+  total += remaining * fallbackPrice;
+  v.layers = v.layers.filter((l) => l.quantity > 1e-9);
+  v.quantity -= quantity;
+  return total / quantity;
+}
+
+// Цены единицы по методу рабочего пространства для всех позиций
+export async function getUnitCosts(
+  userId: string
+): Promise<{ method: CostingMethod; unitCosts: Map<string, number> }> {
+  const [method, valuation] = await Promise.all([
+    getCostingMethod(userId),
+    getInventoryValuation(userId),
+  ]);
+  const unitCosts = new Map<string, number>();
+  valuation.forEach((v, key) => unitCosts.set(key, getUnitCost(v, method)));
+  return { method, unitCosts };
+}
@@ -0,0 +1,470 @@
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { getCostingMethod, getInventoryValuation, getUnitCost, itemKey } from "./costing";
+import {
+  recordStockMovements,
+  reverseCuttingLayoutMovements,
+  type StockExecutor,
+} from "./stock";
+import {
+  cuttingLayouts,
+  cuttingLayoutRows,
+  fabricRemnants,
+  type CuttingLayout,
+  type CuttingLayoutRow,
+  type Fabric,
+  type FabricRemnant,
+  type InsertStockMovement,
+  type StockMovementKind,
+} from "@shared/schema";
+
+// Раскрой рулона: полосовая упаковка (ряды поперёк рулона) с выбором
+// лучшего ряда, поворотом кусков для рулонных тканей и учётом деловых
+// обрезков — сначала кроим из них, новые годные обрезки сохраняем.
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Припуск на подгиб по высоте, см
+const HEIGHT_ALLOWANCE = 20;
+// Обрезок меньше этого размера считается отходом, см
+export const MIN_REMNANT_WIDTH = 30;
+export const MIN_REMNANT_LENGTH = 50;
+
+export interface CuttingPieceInput {
+  index: number;
+  width: number;
+  height: number;
+  quantity: number;
+  orderId?: string;
+  orderNumber?: number;
+}
+
+// width — поперёк рулона, height — вдоль (длина отреза)
+export interface CuttingPiece {
+  sashIndex: number;
+  width: number;
+  height: number;
+  orderId?: string;
+  orderNumber?: number;
+  rotated?: boolean;
+}
+
+export interface CuttingRowPlan {
+  rowIndex: number;
+  cutLength: number;
+  pieces: CuttingPiece[];
+  usedWidth: number;
+  wasteWidth: number;
+  remnantId?: string;
+}
+
+export interface CuttingPlan {
+  rows: CuttingRowPlan[];
+  // Длина рулона без учёта рядов из обрезков, см
+  totalLength: number;
+  wastePercent: number;
+  newRemnants: Array<{ width: number; length: number }>;
+}
+
+interface Orientation {
+  width: number;
+  height: number;
+  rotated: boolean;
+}
+
+interface ExpandedPiece {
+  sashIndex: number;
+  width: number;
+  height: number;
+  orderId?: string;
+  orderNumber?: number;
+}
+
+function expandPieces(pieces: CuttingPieceInput[], isZebra: boolean): ExpandedPiece[] {
+  const result: ExpandedPiece[] = [];
+  for (const piece of pieces) {
+    for (let i = 0; i < piece.quantity; i++) {
+      result.push({
+        sashIndex: piece.index,
+        width: piece.width,
+        height: (isZebra ? piece.height * 2 : piece.height) + HEIGHT_ALLOWANCE,
+        orderId: piece.orderId,
+        orderNumber: piece.orderNumber,
+      });
+    }
+  }
+  return result;
+}
+
+function getOrientations(piece: ExpandedPiece, allowRotation: boolean): Orientation[] {
+  const result = [{ width: piece.width, height: piece.height, rotated: false }];
+  if (allowRotation && piece.width !== piece.height) {
+    result.push({ width: piece.height, height: piece.width, rotated: true });
+  }
+  return result;
+}
+
+function toCuttingPiece(piece: ExpandedPiece, o: Orientation): CuttingPiece {
+  return {
+    sashIndex: piece.sashIndex,
+    width: o.width,
+    height: o.height,
+    ...(piece.orderId ? { orderId: piece.orderId, orderNumber: piece.orderNumber } : {}),
+    ...(o.rotated ? { rotated: true } : {}),
+  };
+}
+
+/**
+ * Рассчитать раскрой. Зебру не поворачиваем — полосы должны идти поперёк.
+ * Обрезки из remnants используются первыми (от меньшего к большему),
+ * каждый — одним рядом.
+ */
+export function calculateOptimalCutting(
+  pieces: CuttingPieceInput[],
+  rollWidth: number,
+  fabricType: string = "roll",
+  remnants: Array<Pick<FabricRemnant, "id" | "width" | "length">> = []
+): CuttingPlan {
+  const isZebra = fabricType === "zebra";
+  const allowRotation = !isZebra;
+
+  // Крупные куски — первыми
+  let queue = expandPieces(pieces, isZebra).sort(
+    (a, b) =>
+      Math.max(b.width, b.height) - Math.max(a.width, a.height) ||
+      b.width * b.height - a.width * a.height
+  );
+
+  // 1. Обрезки: самый маленький, куда помещается кусок
+  const remnantRows: CuttingRowPlan[] = [];
+  const freeRemnants = remnants
+    .map((r) => ({
+      id: r.id,
+      width: parseFloat(r.width),
+      length: parseFloat(r.length),
+    }))
+    .sort((a, b) => a.width * a.length - b.width * b.length);
+
+  for (const remnant of freeRemnants) {
+    const row: CuttingRowPlan = {
+      rowIndex: 0,
+      cutLength: 0,
+      pieces: [],
+      usedWidth: 0,
+      wasteWidth: remnant.width,
+      remnantId: remnant.id,
+    };
+    queue = queue.filter((piece) => {
+      const fit = getOrientations(piece, allowRotation).find(
+        (o) => o.width <= remnant.width - row.usedWidth && o.height <= remnant.length
+      );
+      if (!fit) return true;
+      row.pieces.push(toCuttingPiece(piece, fit));
+      row.usedWidth += fit.width;
+      row.wasteWidth = remnant.width - row.usedWidth;
+      row.cutLength = Math.max(row.cutLength, fit.height);
+      return false;
+    });
+    if (row.pieces.length > 0) remnantRows.push(row);
+  }
+
+  // 2. Рулон: куски кладём низкой стороной вдоль рулона и сортируем по длине
+  const oriented = queue
+    .map((piece) => {
+      const options = getOrientations(piece, allowRotation).filter((o) => o.width <= rollWidth);
+      const base = options.length > 0
+        ? options.reduce((best, o) => (o.height < best.height ? o : best))
+        : { width: piece.width, height: piece.height, rotated: false };
+      return { piece, base };
+    })
+    .sort((a, b) => b.base.height - a.base.height || b.base.width - a.base.width);
+
+  const rollRows: CuttingRowPlan[] = [];
+  for (const { piece, base } of oriented) {
+    // Лучший ряд — где после укладки останется меньше всего ширины
+    let best: { row: CuttingRowPlan; o: Orientation; slack: number } | null = null;
+    for (const row of rollRows) {
+      for (const o of getOrientations(piece, allowRotation)) {
+        if (o.width > row.wasteWidth || o.height > row.cutLength) continue;
+        const slack = row.wasteWidth - o.width;
+        if (!best || slack < best.slack) best = { row, o, slack };
+      }
+    }
+
+    if (best) {
+      best.row.pieces.push(toCuttingPiece(piece, best.o));
+      best.row.usedWidth += best.o.width;
+      best.row.wasteWidth = rollWidth - best.row.usedWidth;
+      continue;
+    }
+
+    rollRows.push({
+      rowIndex: 0,
+      cutLength: base.height,
+      pieces: [toCuttingPiece(piece, base)],
+      usedWidth: base.width,
+      wasteWidth: rollWidth - base.width,
+    });
+  }
+
+  const rows = [...remnantRows, ...rollRows];
+  rows.forEach((row, i) => (row.rowIndex = i + 1));
+
+  // Годные полосы справа от ряда становятся обрезками
+  const newRemnants = rollRows
+    .filter((r) => r.wasteWidth >= MIN_REMNANT_WIDTH && r.cutLength >= MIN_REMNANT_LENGTH)
+    .map((r) => ({ width: r.wasteWidth, length: r.cutLength }));
+
+  const totalLength = rollRows.reduce((sum, r) => sum + r.cutLength, 0);
+  const totalArea = rollWidth * totalLength;
+  const usedArea = rollRows.reduce(
+    (sum, r) => sum + r.pieces.reduce((s, p) => s + p.width * p.height, 0),
+    0
+  );
+  const remnantArea = newRemnants.reduce((sum, r) => sum + r.width * r.length, 0);
+  const wastePercent =
+    totalArea > 0 ? ((totalArea - usedArea - remnantArea) / totalArea) * 100 : 0;
+
+  return { rows, totalLength, wastePercent, newRemnants };
+}
+
+export type CuttingLayoutWithRows = CuttingLayout & {
+  fabricName?: string;
+  rows: Array<Omit<CuttingLayoutRow, "pieces"> & { pieces: CuttingPiece[] }>;
+};
+
+// Сохранённые раскрои со строками и названием ткани
+export async function loadCuttingLayouts(
+  layouts: CuttingLayout[],
+  userId: string
+): Promise<CuttingLayoutWithRows[]> {
+  const allFabrics = await storage.getFabrics(userId);
+  return Promise.all(
+    layouts.map(async (layout) => {
+      const rows = await storage.getCuttingLayoutRows(layout.id);
+      const fabric = allFabrics.find((f) => f.id === layout.fabricId);
+      return {
+        ...layout,
+        fabricName: fabric?.name,
+        rows: rows.map((r) => ({ ...r, pieces: JSON.parse(r.pieces) })),
+      };
+    })
+  );
+}
+
+/**
+ * Рассчитать и сохранить раскрой одной ткани: свободные обрезки этой ткани
+ * помечаются использованными, годные остатки рулона сохраняются.
+ * orderId = null — раскрой партии.
+ *
+ * В журнал склада (м², движения с layoutId): обрезь рулона списывается,
+ * новые обрезки приходуются, использованные — списываются за вычетом
+ * кусков. Сами куски уходят со списанием заказа.
+ */
+export async function buildCuttingLayout(
+  userId: string,
+  fabric: Fabric,
+  pieces: CuttingPieceInput[],
+  orderId: string | null
+): Promise<CuttingLayoutWithRows | null> {
+  const rollWidth = parseFloat(fabric.width?.toString() || "0");
+  if (rollWidth <= 0) return null; // ткань без указанной ширины рулона
+
+  return db.transaction(async (tx) => {
+    const remnants = await getAvailableRemnants(tx, userId, fabric.id);
+    const plan = calculateOptimalCutting(
+      pieces,
+      rollWidth,
+      fabric.fabricType || "roll",
+      remnants
+    );
+
+    const [layout] = await tx
+      .insert(cuttingLayouts)
+      .values({
+        orderId,
+        fabricId: fabric.id,
+        rollWidth: rollWidth.toFixed(2),
+        totalLength: plan.totalLength.toFixed(2),
+        wastePercent: plan.wastePercent.toFixed(2),
+        userId,
+      })
+      .returning();
+
+    const rows =
+      plan.rows.length > 0
+        ? await tx
+            .insert(cuttingLayoutRows)
+            .values(
+              plan.rows.map((r) => ({
+                layoutId: layout.id,
+                rowIndex: r.rowIndex,
+                cutLength: r.cutLength.toFixed(2),
+                pieces: JSON.stringify(r.pieces),
+                usedWidth: r.usedWidth.toFixed(2),
+                wasteWidth: r.wasteWidth.toFixed(2),
+                remnantId: r.remnantId ?? null,
+              }))
+            )
+            .returning()
+        : [];
+
+    const usedRemnantIds = plan.rows
+      .map((r) => r.remnantId)
+      .filter((id): id is string => !!id);
+    if (usedRemnantIds.length > 0) {
+      await tx
+        .update(fabricRemnants)
+        .set({ usedLayoutId: layout.id })
+        .where(inArray(fabricRemnants.id, usedRemnantIds));
+    }
+
+    if (plan.newRemnants.length > 0) {
+      await tx.insert(fabricRemnants).values(
+        plan.newRemnants.map((r) => ({
+          fabricId: fabric.id,
+          width: r.width.toFixed(2),
+          length: r.length.toFixed(2),
+          sourceLayoutId: layout.id,
+          userId,
+        }))
+      );
+    }
+
+    const unitCost = await getFabricUnitCost(tx, userId, fabric.id);
+    const movement = (kind: StockMovementKind, quantity: number, comment: string) =>
+      layoutMovement(layout, kind, quantity, unitCost, comment);
+
+    const rollTrim = plan.rows
+      .filter((r) => !r.remnantId)
+      .reduce((sum, r) => sum + areaM2(rollWidth, r.cutLength) - piecesAreaM2(r.pieces), 0);
+    const movements = [movement("cutting", -rollTrim, "Обрезь рулона по раскрою")];
+    for (const row of plan.rows) {
+      const remnant = remnants.find((r) => r.id === row.remnantId);
+      if (!remnant) continue;
+      const width = parseFloat(remnant.width);
+      const length = parseFloat(remnant.length);
+      movements.push(
+        movement(
+          "remnant",
+          -(areaM2(width, length) - piecesAreaM2(row.pieces)),
+          `Обрезок ${width}×${length} см использован в раскрое`
+        )
+      );
+    }
+    for (const r of plan.newRemnants) {
+      movements.push(
+        movement("remnant", areaM2(r.width, r.length), `Обрезок ${r.width}×${r.length} см`)
+      );
+    }
+    await recordStockMovements(tx, movements);
+
+    return {
+      ...layout,
+      fabricName: fabric.name,
+      rows: rows.map((r) => ({ ...r, pieces: JSON.parse(r.pieces) })),
+    };
+  });
+}
+
+const areaM2 = (width: number, length: number) => (width * length) / 10000;
+
+const piecesAreaM2 = (pieces: CuttingPiece[]) =>
+  pieces.reduce((sum, p) => sum + areaM2(p.width, p.height), 0);
+
+// Цена м² ткани по методу оценки — по ней обрезь и обрезки идут в стоимость
+async function getFabricUnitCost(
+  executor: StockExecutor,
+  userId: string,
+  fabricId: string
+): Promise<number> {
+  const method = await getCostingMethod(userId);
+  const valuation = await getInventoryValuation(userId, [fabricId], executor);
+  const v = valuation.get(itemKey("fabric", fabricId));
+  return v ? getUnitCost(v, method) : 0;
+}
+
+function layoutMovement(
+  layout: CuttingLayout,
+  kind: StockMovementKind,
+  quantity: number,
+  price: number,
+  comment: string
+): InsertStockMovement {
+  return {
+    userId: layout.userId,
+    itemType: "fabric",
+    itemId: layout.fabricId,
+    kind,
+    quantity: quantity.toFixed(4),
+    price: price.toFixed(2),
+    total: Math.abs(quantity * price).toFixed(2),
+    layoutId: layout.id,
+    date: new Date().toISOString().split("T")[0],
+    comment,
+  };
+}
+
+async function getAvailableRemnants(
+  executor: typeof db | Tx,
+  userId: string,
+  fabricId: string
+): Promise<FabricRemnant[]> {
+  return executor
+    .select()
+    .from(fabricRemnants)
+    .where(
+      and(
+        eq(fabricRemnants.userId, userId),
+        eq(fabricRemnants.fabricId, fabricId),
+        isNull(fabricRemnants.usedLayoutId)
+      )
+    );
+}
+
+/**
+ * Удалить раскрои. Обрезки, которые они использовали, освобождаются
+ * (FK set null), а обрезки от них — удаляются: этого раскроя не будет. Движения раскроев сторнируются. Если обрезок
+ * от раскроя уже взял другой раскрой, ничего не удаляется: сторно прихода
+ * обрезка увело бы остаток ткани в минус. executor — транзакция
+ * вызывающего (удаление заказа).
+ */
+export async function deleteCuttingLayouts(
+  layoutIds: string[],
+  executor: StockExecutor = db
+): Promise<{ valid: boolean; errors: string[] }> {
+  if (layoutIds.length === 0) return { valid: true, errors: [] };
+  return executor.transaction(async (tx) => {
+    const remnants = await tx
+      .select()
+      .from(fabricRemnants)
+      .where(inArray(fabricRemnants.sourceLayoutId, layoutIds))
+      .for("update");
+    const usedElsewhere = remnants.filter(
+      (r) => r.usedLayoutId && !layoutIds.includes(r.usedLayoutId)
+    );
+    if (usedElsewhere.length > 0) {
+      return {
+        valid: false,
+        errors: usedElsewhere.map(
+          (r) =>
+            `Обрезок ${parseFloat(r.width)}×${parseFloat(r.length)} см уже использован в другом раскрое`
+        ),
+      };
+    }
+
+    const layouts = await tx
+      .select()
+      .from(cuttingLayouts)
+      .where(inArray(cuttingLayouts.id, layoutIds));
+    for (const layout of layouts) {
+      await reverseCuttingLayoutMovements(tx, layout.userId, layout.id);
+    }
+
+    // Обрезки от удаляемых раскроев свободны или взяты ими же
+    await tx.delete(fabricRemnants).where(inArray(fabricRemnants.sourceLayoutId, layoutIds));
+    await tx.delete(cuttingLayouts).where(inArray(cuttingLayouts.id, layoutIds));
+    return { valid: true, errors: [] };
+  });
+}
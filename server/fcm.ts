@@ -0,0 +1,292 @@
+// Direct FCM (Firebase Cloud Messaging) HTTP v1 client for Android tokens.
+//
+// Same shape as apns.ts: no SDK, a cached credential, a dead-token cleanup
+// hook and a host override for tests. FCM v1 authenticates with a short-lived
+// OAuth2 access token obtained by signing an RS256 JWT with the Firebase
+// service account key (FCM_SERVICE_ACCOUNT_PATH — the JSON downloaded from the
+// Firebase console) and exchanging it at the account's token_uri.
+
+import fs from "node:fs";
+import jwt from "jsonwebtoken";
+import type { DevicePlatform } from "@shared/schema";
+
+interface FcmConfig {
+  projectId: string;
+  clientEmail: string;
+  privateKey: string;
+  tokenUri: string;
+}
+
+interface FcmPayload {
+  title: string;
+  body: string;
+  badge?: number;
+  sound?: string;
+  threadId?: string;
+  // Custom data passed through to the app's notification handler. FCM only
+  // accepts string values: objects are JSON-encoded, null/undefined dropped.
+  data?: Record<string, unknown>;
+}
+
+interface FcmSendResult {
+  token: string;
+  ok: boolean;
+  status?: number;
+  reason?: string; // FCM errorCode (UNREGISTERED, ...) or error status, if any
+}
+
+const FCM_SCOPE = "https://www.googleapis.com/auth/firebase.messaging";
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+
+// Google issues access tokens for an hour; refresh 5 minutes early so a send
+// never races the expiry.
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+let cachedAccessToken: string | null = null;
+let cachedAccessTokenExpiresAt = 0;
+// Concurrent sends share one token request instead of each fetching its own
+let pendingAccessToken: Promise<string> | null = null;
+let configCache: FcmConfig | null = null;
+let configChecked = false;
+
+function loadConfig(): FcmConfig | null {
+  if (configChecked) return configCache;
+  configChecked = true;
+
+  const accountPath = process.env.FCM_SERVICE_ACCOUNT_PATH;
+  if (!accountPath) {
+    console.warn("[fcm] disabled — missing env. Need FCM_SERVICE_ACCOUNT_PATH");
+    return null;
+  }
+  if (!fs.existsSync(accountPath)) {
+    console.warn(`[fcm] disabled — service account file not found at ${accountPath}`);
+    return null;
+  }
+
+  try {
+    const account = JSON.parse(fs.readFileSync(accountPath, "utf8"));
+    if (!account.project_id || !account.client_email || !account.private_key) {
+      console.warn(
+        "[fcm] disabled — service account JSON lacks project_id, client_email or private_key"
+      );
+      return null;
+    }
+    configCache = {
+      projectId: account.project_id,
+      clientEmail: account.client_email,
+      privateKey: account.private_key,
+      tokenUri: account.token_uri || DEFAULT_TOKEN_URI,
+    };
+  } catch (err) {
+    console.warn("[fcm] disabled — cannot read service account:", (err as Error).message);
+    return null;
+  }
+  return configCache;
+}
+
+function signAssertion(config: FcmConfig): string {
+  const iat = Math.floor(Date.now() / 1000);
+  return jwt.sign(
+    { iss: config.clientEmail, scope: FCM_SCOPE, aud: config.tokenUri, iat, exp: iat + 3600 },
+    config.privateKey,
+    { algorithm: "RS256" }
+  );
+}
+
+async function requestAccessToken(config: FcmConfig): Promise<string> {
+  const res = await fetch(config.tokenUri, {
+    method: "POST",
+    headers: { "content-type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion: signAssertion(config),
+    }).toString(),
+  });
+  const text = await res.text();
+  if (!res.ok) {
+    throw new Error(`[fcm] OAuth token request failed: ${res.status} ${text}`);
+  }
+  const json = JSON.parse(text) as { access_token?: string; expires_in?: number };
+  if (!json.access_token) {
+    throw new Error("[fcm] OAuth token response has no access_token");
+  }
+  cachedAccessToken = json.access_token;
+  cachedAccessTokenExpiresAt = Date.now() + (json.expires_in ?? 3600) * 1000;
+  return json.access_token;
+}
+
+async function getAccessToken(config: FcmConfig): Promise<string> {
+  if (cachedAccessToken && Date.now() < cachedAccessTokenExpiresAt - TOKEN_REFRESH_MARGIN_MS) {
+    return cachedAccessToken;
+  }
+  if (!pendingAccessToken) {
+    pendingAccessToken = requestAccessToken(config).finally(() => {
+      pendingAccessToken = null;
+    });
+  }
+  return pendingAccessToken;
+}
+
+// Test-only override — lets unit tests point sendFcm at a local HTTP stub
+// instead of Google's real endpoint. NEVER set in production.
+let hostOverride: string | null = null;
+
+function buildMessage(token: string, payload: FcmPayload): Record<string, unknown> {
+  const data: Record<string, string> = {};
+  for (const [key, value] of Object.entries(payload.data ?? {})) {
+    if (value === null || value === undefined) continue;
+    data[key] = typeof value === "string" ? value : JSON.stringify(value);
+  }
+  return {
+    message: {
+      token,
+      notification: { title: payload.title, body: payload.body },
+      ...(Object.keys(data).length > 0 ? { data } : {}),
+      android: {
+        priority: "HIGH",
+        notification: {
+          sound: payload.sound ?? "default",
+          ...(payload.badge !== undefined ? { notification_count: payload.badge } : {}),
+          ...(payload.threadId ? { tag: payload.threadId } : {}),
+        },
+      },
+    },
+  };
+}
+
+// FCM v1 error body: {"error": {"status": "NOT_FOUND", "details": [{"@type":
+// "...FcmError", "errorCode": "UNREGISTERED"}]}} — the errorCode is the
+// precise reason, status is the fallback.
+function parseReason(text: string): string | undefined {
+  if (!text) return undefined;
+  try {
+    const error = JSON.parse(text).error ?? {};
+    const fcmError = (error.details ?? []).find(
+      (d: { errorCode?: string }) => typeof d?.errorCode === "string"
+    );
+    return fcmError?.errorCode ?? error.status ?? text;
+  } catch {
+    return text;
+  }
+}
+
+async function sendOne(
+  config: FcmConfig,
+  accessToken: string,
+  token: string,
+  payload: FcmPayload
+): Promise<FcmSendResult> {
+  const host = hostOverride ?? "https://fcm.googleapis.com";
+  try {
+    const res = await fetch(`${host}/v1/projects/${config.projectId}/messages:send`, {
+      method: "POST",
+      headers: {
+        authorization: `Bearer ${accessToken}`,
+        "content-type": "application/json",
+      },
+      body: JSON.stringify(buildMessage(token, payload)),
+    });
+    const text = await res.text();
+    if (res.status === 401) {
+      // Access token revoked or expired early — fetch a fresh one next time
+      cachedAccessToken = null;
+    }
+    return {
+      token,
+      ok: res.ok,
+      status: res.status,
+      reason: res.ok ? undefined : parseReason(text),
+    };
+  } catch (err) {
+    return { token, ok: false, reason: (err as Error).message };
+  }
+}
+
+// Registration tokens that will never work again: the app was uninstalled or
+// the token belongs to another Firebase project.
+const DEAD_REASONS = new Set(["UNREGISTERED", "SENDER_ID_MISMATCH"]);
+
+// Cleanup hook injected via push.ts so fcm.ts has no dependency on the
+// storage layer (same reasoning as apns.ts).
+let deadTokenCleanup: ((token: string) => Promise<void>) | null = null;
+
+export function setFcmDeadTokenCleanup(fn: (token: string) => Promise<void>): void {
+  deadTokenCleanup = fn;
+}
+
+export async function sendFcm(
+  tokens: Array<{ token: string; platform: DevicePlatform }>,
+  payload: FcmPayload
+): Promise<FcmSendResult[]> {
+  const config = loadConfig();
+  if (!config) return [];
+
+  // Only Android goes through FCM; iOS tokens belong to APNs.
+  const androidTokens = tokens.filter((t) => t.platform === "android");
+  if (androidTokens.length === 0) return [];
+
+  let accessToken: string;
+  try {
+    accessToken = await getAccessToken(config);
+  } catch (err) {
+    console.error("[fcm] access token error:", (err as Error).message);
+    return androidTokens.map((t) => ({ token: t.token, ok: false, reason: "OAuthError" }));
+  }
+
+  const results = await Promise.all(
+    androidTokens.map((t) => sendOne(config, accessToken, t.token, payload))
+  );
+
+  // Cleanup dead tokens. Fire-and-forget — caller doesn't wait.
+  if (deadTokenCleanup) {
+    for (const r of results) {
+      if (!r.ok && r.reason && DEAD_REASONS.has(r.reason)) {
+        deadTokenCleanup(r.token).catch((err) => {
+          console.error("[fcm] failed to cleanup dead token:", err);
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+// Test-only — force the cached access token to count as expired so the next
+// send requests a new one.
+export function __expireFcmTokenForTests(): void {
+  cachedAccessTokenExpiresAt = 0;
+}
+
+// Test-only — point sendFcm at a custom HTTP endpoint (e.g. localhost stub).
+// Pass null to restore Google's host.
+export function __setFcmHostForTests(host: string | null): void {
+  hostOverride = host;
+}
+
+// Test-only — let unit tests reset module state between runs.
+export function __resetFcmForTests(): void {
+  cachedAccessToken = null;
+  cachedAccessTokenExpiresAt = 0;
+  pendingAccessToken = null;
+  configCache = null;
+  configChecked = false;
+  hostOverride = null;
+}
+
+// Test-only — let unit tests inspect the access token cache state.
+export function __getFcmTokenCache(): { token: string | null; expiresAt: number } {
+  return { token: cachedAccessToken, expiresAt: cachedAccessTokenExpiresAt };
+}
+
+// Test-only — let unit tests bypass env loading.
+export function __setFcmConfigForTests(cfg: FcmConfig | null): void {
+  configCache = cfg;
+  configChecked = true;
+}
+
+// Test-only — let unit tests build the message without sending.
+export function __buildFcmMessage(token: string, payload: FcmPayload): Record<string, unknown> {
+  return buildMessage(token, payload);
+}
+
+export type { FcmPayload, FcmSendResult, FcmConfig };
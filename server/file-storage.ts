@@ -0,0 +1,195 @@
+// Хранилище файлов из мобильного приложения: фото замеров и подписи.
+//
+// По умолчанию файлы лежат на диске сервера (UPLOADS_DIR, по умолчанию
+// ./uploads). С FILE_STORAGE=s3 — в S3-совместимом бакете (Yandex Object
+// Storage, Selectel, MinIO); запросы подписываются AWS Signature V4 напрямую,
+// без SDK. Бакет приватный: файлы отдаёт только наш сервер по подписанным
+// ссылкам (см. server/uploads.ts).
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import crypto from "node:crypto";
+
+export interface FileStorageBackend {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // null — файла нет
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+class LocalDiskBackend implements FileStorageBackend {
+  readonly name = "local";
+
+  constructor(private root: string) {}
+
+  // Ключи генерирует сервер, но выход за корень всё равно отсекаем
+  private resolve(key: string): string {
+    const full = path.resolve(this.root, key);
+    if (!full.startsWith(this.root + path.sep)) {
+      throw new Error(`[file-storage] invalid key: ${key}`);
+    }
+    return full;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const full = this.resolve(key);
+    await fs.mkdir(path.dirname(full), { recursive: true });
+    await fs.writeFile(full, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256 = (data: string | Buffer) =>
+  crypto.createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+class S3Backend implements FileStorageBackend {
+  readonly name = "s3";
+
+  constructor(private config: S3Config) {}
+
+  // Path-style адрес объекта: <endpoint>/<bucket>/<key>
+  private objectUrl(key: string): URL {
+    const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+    return new URL(
+      `${this.config.endpoint.replace(/\/+$/, "")}/${this.config.bucket}/${encodedKey}`
+    );
+  }
+
+  private signedHeaders(
+    method: string,
+    url: URL,
+    payload: Buffer | string
+  ): Record<string, string> {
+    const { region, accessKeyId, secretAccessKey } = this.config;
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(payload);
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      signedHeaderNames.map((h) => `${h}:${headers[h]}\n`).join(""),
+      signedHeaderNames.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256(canonicalRequest),
+    ].join("\n");
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), "s3"),
+      "aws4_request"
+    );
+    const signature = crypto
+      .createHmac("sha256", signingKey)
+      .update(stringToSign)
+      .digest("hex");
+
+    const { host: _host, ...rest } = headers;
+    return {
+      ...rest,
+      authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(";")}, Signature=${signature}`,
+    };
+  }
+
+  private async request(
+    method: "PUT" | "GET" | "DELETE",
+    key: string,
+    body?: Buffer,
+    contentType?: string
+  ): Promise<globalThis.Response> {
+    const url = this.objectUrl(key);
+    const headers = this.signedHeaders(method, url, body ?? "");
+    if (contentType) headers["content-type"] = contentType;
+    return fetch(url, { method, headers, body });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const res = await this.request("PUT", key, data, contentType);
+    if (!res.ok) {
+      throw new Error(`[file-storage] S3 PUT ${key} failed: ${res.status} ${await res.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const res = await this.request("GET", key);
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`[file-storage] S3 GET ${key} failed: ${res.status}`);
+    }
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const res = await this.request("DELETE", key);
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`[file-storage] S3 DELETE ${key} failed: ${res.status}`);
+    }
+  }
+}
+
+let backend: FileStorageBackend | null = null;
+
+function loadS3Config(): S3Config | null {
+  const endpoint = process.env.S3_ENDPOINT;
+  const bucket = process.env.S3_BUCKET;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+    console.warn(
+      "[file-storage] S3 disabled — missing env. Need S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY"
+    );
+    return null;
+  }
+  return {
+    endpoint,
+    bucket,
+    accessKeyId,
+    secretAccessKey,
+    region: process.env.S3_REGION || "us-east-1",
+  };
+}
+
+/** Хранилище по FILE_STORAGE; без настроек S3 — локальный диск */
+export function getFileStorage(): FileStorageBackend {
+  if (backend) return backend;
+  const s3 = process.env.FILE_STORAGE === "s3" ? loadS3Config() : null;
+  backend = s3
+    ? new S3Backend(s3)
+    : new LocalDiskBackend(path.resolve(process.env.UPLOADS_DIR || "uploads"));
+  return backend;
+}
@@ -20,6 +20,8 @@ declare module "http" {
 
 app.use(
   express.json({
+    // Фото монтажа и подписи приходят картинками в data URL
+    limit: "5mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
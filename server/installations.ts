@@ -0,0 +1,203 @@
+import { storage } from "./storage";
+import { notify, notifyDealer } from "./notifications";
+import type {
+  InstallationComplete,
+  InstallationJob,
+  InstallationJobForm,
+  Order,
+} from "@shared/schema";
+
+// Монтаж: отгруженный заказ назначается монтажнику на дату и время.
+// Адрес и координаты берутся из замера, по которому создан заказ; после
+// монтажа на объекте остаются фото и подпись клиента, замер переходит
+// в "installed", дилер получает уведомление.
+
+export interface Installer {
+  id: string;
+  name: string;
+}
+
+export type InstallationJobResult =
+  | { ok: true; job: InstallationJob }
+  | { ok: false; status: number; body: { message: string } & Record<string, unknown> };
+
+// Выезды, которые занимают время монтажника
+const ACTIVE_JOB_STATUSES = ["scheduled", "completed"];
+
+/** Монтаж назначается на отгруженный заказ — целиком или частью накладных */
+export async function isInstallableOrder(order: Order): Promise<boolean> {
+  if (order.status === "Отгружен") return true;
+  if (order.status !== "В производстве" && order.status !== "Готов") return false;
+  const shipments = await storage.getShipmentsByOrderId(order.id);
+  return shipments.length > 0;
+}
+
+/** Заказы, на которые можно назначить монтаж, с адресом из замера */
+export async function getInstallableOrders(
+  userId: string
+): Promise<(Pick<Order, "id" | "orderNumber" | "dealerId" | "status"> & { address: string | null })[]> {
+  const orderList = (await storage.getOrders(userId)).filter((o) =>
+    ["В производстве", "Готов", "Отгружен"].includes(o.status || "Новый")
+  );
+  const shipped = new Set(
+    (await storage.getShippedSashes(orderList.map((o) => o.id))).map((s) => s.orderId)
+  );
+  const installable = orderList.filter((o) => o.status === "Отгружен" || shipped.has(o.id));
+  return Promise.all(
+    installable.map(async (o) => {
+      const measurement = await storage.getMeasurementByOrderId(o.id);
+      return {
+        id: o.id,
+        orderNumber: o.orderNumber,
+        dealerId: o.dealerId,
+        status: o.status,
+        address: measurement?.address ?? null,
+      };
+    })
+  );
+}
+
+/** Активные сотрудники рабочего пространства с ролью монтажника */
+export async function getInstallers(userId: string): Promise<Installer[]> {
+  const members = await storage.getStaffMembers(userId);
+  return members
+    .filter((m) => m.role === "installer" && m.isActive)
+    .map((m) => ({ id: m.userId, name: m.name || m.email }));
+}
+
+/**
+ * Создаёт выезд или переносит существующий (job). Проверяет заказ,
+ * монтажника и пересечение со слотами того же монтажника в этот день.
+ */
+export async function saveInstallationJob(params: {
+  userId: string;
+  form: InstallationJobForm;
+  job?: InstallationJob;
+}): Promise<InstallationJobResult> {
+  const { userId, form, job } = params;
+
+  const order = await storage.getOrder(form.orderId);
+  if (!order || order.userId !== userId) {
+    return { ok: false, status: 404, body: { message: "Заказ не найден" } };
+  }
+  // Перенос уже назначенного выезда не зависит от статуса заказа
+  if (job?.orderId !== order.id && !(await isInstallableOrder(order))) {
+    return {
+      ok: false,
+      status: 400,
+      body: { message: "Монтаж назначается только на отгруженный заказ" },
+    };
+  }
+
+  const installers = await getInstallers(userId);
+  if (!installers.some((i) => i.id === form.installerId)) {
+    return { ok: false, status: 400, body: { message: "Монтажник не найден" } };
+  }
+
+  const sameDay = await storage.getInstallationJobs(userId, {
+    date: form.date,
+    installerId: form.installerId,
+  });
+  const overlap = sameDay.find(
+    (other) =>
+      other.id !== job?.id &&
+      ACTIVE_JOB_STATUSES.includes(other.status) &&
+      other.timeFrom < form.timeTo &&
+      form.timeFrom < other.timeTo
+  );
+  if (overlap) {
+    return {
+      ok: false,
+      status: 409,
+      body: {
+        message: `У монтажника уже есть выезд ${overlap.timeFrom}–${overlap.timeTo} (заказ №${overlap.orderNumber})`,
+        conflictJobId: overlap.id,
+      },
+    };
+  }
+
+  const measurement =
+    job?.orderId === order.id && job.measurementId
+      ? await storage.getMeasurement(job.measurementId)
+      : await storage.getMeasurementByOrderId(order.id);
+
+  const values = {
+    orderId: order.id,
+    measurementId: measurement?.id ?? null,
+    installerId: form.installerId,
+    date: form.date,
+    timeFrom: form.timeFrom,
+    timeTo: form.timeTo,
+    // Адрес можно уточнить вручную; координаты — только из замера
+    address: form.address || measurement?.address || null,
+    latitude: measurement?.latitude ?? null,
+    longitude: measurement?.longitude ?? null,
+    comment: form.comment || null,
+  };
+
+  const saved = job
+    ? await storage.updateInstallationJob(job.id, values)
+    : await storage.createInstallationJob({ ...values, status: "scheduled", userId });
+  if (!saved) {
+    return { ok: false, status: 404, body: { message: "Выезд не найден" } };
+  }
+  return { ok: true, job: saved };
+}
+
+/**
+ * Закрывает выезд с объекта: фото, подпись клиента, замер — в "installed",
+ * уведомления дилеру и рабочему пространству.
+ */
+export async function completeInstallationJob(params: {
+  job: InstallationJob;
+  form: InstallationComplete;
+}): Promise<InstallationJobResult> {
+  const { job, form } = params;
+  if (job.status !== "scheduled") {
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        message:
+          job.status === "completed" ? "Монтаж уже завершён" : "Выезд снят с графика",
+      },
+    };
+  }
+
+  const completed = await storage.updateInstallationJob(job.id, {
+    status: "completed",
+    photo: form.photo,
+    clientName: form.clientName,
+    clientSignature: form.clientSignature,
+    completedAt: new Date(),
+  });
+  if (!completed) {
+    return { ok: false, status: 404, body: { message: "Выезд не найден" } };
+  }
+
+  if (job.measurementId) {
+    await storage.updateMeasurement(job.measurementId, { status: "installed" });
+  }
+
+  const order = await storage.getOrder(job.orderId);
+  if (order?.dealerId) {
+    notifyDealer({
+      dealerId: order.dealerId,
+      userId: job.userId,
+      title: "Монтаж завершён",
+      message: `Заказ №${order.orderNumber} смонтирован, клиент ${form.clientName} подписал акт`,
+      entityType: "order",
+      entityId: order.id,
+    });
+  }
+  notify({
+    userId: job.userId,
+    type: "installation_completed",
+    title: "Монтаж завершён",
+    message: `Заказ №${order?.orderNumber ?? "—"}: монтаж ${job.date} ${job.timeFrom}–${job.timeTo} завершён`,
+    entityType: "installation",
+    entityId: job.id,
+  });
+
+  return { ok: true, job: completed };
+}
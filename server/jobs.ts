@@ -0,0 +1,258 @@
+import os from "node:os";
+import { storage } from "./storage";
+import {
+  deliverNotificationEmails,
+  remindInstallments,
+  remindLowStock,
+  remindOverdueOrders,
+} from "./notifications";
+import { IDEMPOTENCY_TTL_MS } from "./mobile-sync";
+import type { JobRun, JobRunTrigger, ScheduledJob } from "@shared/schema";
+
+// Фоновые задачи по расписанию. Состояние хранится в scheduled_jobs: каждый
+// экземпляр сервера раз в TICK_MS пытается захватить задачи, у которых
+// наступил срок, и выполняет только захваченные — так задача идёт на одном
+// экземпляре. Неудачный запуск повторяется с нарастающей паузой до
+// maxAttempts раз, потом задача ждёт следующего планового запуска.
+// Каждый запуск пишется в job_runs с длительностью, результатом и ошибкой.
+
+type JobResult = Record<string, number>;
+
+export interface JobDefinition {
+  name: string;
+  title: string;
+  description: string;
+  intervalMs: number;
+  maxAttempts: number;
+  retryDelayMs: number;
+  // Сколько держать блокировку: дольше задача считается оборвавшейся
+  timeoutMs: number;
+  // userId задан при ручном запуске — только это рабочее пространство
+  run: (userId?: string) => Promise<JobResult>;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const TICK_MS = MINUTE;
+const JOB_RUNS_TTL_MS = 30 * 24 * HOUR;
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+export const JOBS: JobDefinition[] = [
+  {
+    name: "overdue_orders",
+    title: "Просроченные заказы",
+    description: "Уведомления о заказах после срока или дольше порога из настроек уведомлений",
+    intervalMs: 30 * MINUTE,
+    maxAttempts: 3,
+    retryDelayMs: 2 * MINUTE,
+    timeoutMs: 10 * MINUTE,
+    run: (userId) => remindOverdueOrders(userId),
+  },
+  {
+    name: "low_stock",
+    title: "Остатки ниже точки заказа",
+    description: "Уведомления об отрицательных остатках и позициях, которые пора заказать",
+    intervalMs: 30 * MINUTE,
+    maxAttempts: 3,
+    retryDelayMs: 2 * MINUTE,
+    timeoutMs: 10 * MINUTE,
+    run: (userId) => remindLowStock(userId),
+  },
+  {
+    name: "installment_reminders",
+    title: "Платежи по рассрочке",
+    description: "Просроченные платежи — в CRM, просроченные и ближайшие — дилерам в приложение",
+    intervalMs: 30 * MINUTE,
+    maxAttempts: 3,
+    retryDelayMs: 2 * MINUTE,
+    timeoutMs: 10 * MINUTE,
+    run: (userId) => remindInstallments(userId),
+  },
+  {
+    name: "notification_emails",
+    title: "Письма с уведомлениями",
+    description: "Письма, отложенные тихими часами или ошибкой почты, и ежедневные сводки",
+    intervalMs: 10 * MINUTE,
+    maxAttempts: 3,
+    retryDelayMs: 2 * MINUTE,
+    timeoutMs: 10 * MINUTE,
+    run: (userId) => deliverNotificationEmails(userId),
+  },
+  {
+    name: "cleanup",
+    title: "Очистка служебных данных",
+    description: "Удаляет ключи повторов мобильного приложения старше недели и историю задач старше 30 дней",
+    intervalMs: 24 * HOUR,
+    maxAttempts: 3,
+    retryDelayMs: 10 * MINUTE,
+    timeoutMs: 10 * MINUTE,
+    run: async (userId) => {
+      // Данные общие для всех рабочих пространств — ручной запуск владельцем
+      // ничего не удаляет
+      if (userId) return { idempotencyKeys: 0, jobRuns: 0 };
+      const now = Date.now();
+      return {
+        idempotencyKeys: await storage.deleteIdempotencyKeysBefore(
+          new Date(now - IDEMPOTENCY_TTL_MS)
+        ),
+        jobRuns: await storage.deleteJobRunsBefore(new Date(now - JOB_RUNS_TTL_MS)),
+      };
+    },
+  },
+];
+
+export function getJobDefinition(name: string): JobDefinition | undefined {
+  return JOBS.find((job) => job.name === name);
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+async function startRun(
+  job: JobDefinition,
+  state: ScheduledJob,
+  trigger: JobRunTrigger,
+  manual?: { userId: string; actorId: string }
+): Promise<JobRun> {
+  return storage.createJobRun({
+    jobName: job.name,
+    trigger,
+    attempt: trigger === "retry" ? state.failures + 1 : 1,
+    instanceId: INSTANCE_ID,
+    userId: manual?.userId ?? null,
+    actorId: manual?.actorId ?? null,
+  });
+}
+
+async function release(
+  job: JobDefinition,
+  state: ScheduledJob,
+  data: Parameters<typeof storage.releaseScheduledJob>[1]
+) {
+  const released = await storage.releaseScheduledJob(state, data);
+  if (!released) {
+    console.warn(
+      `[jobs] ${job.name}: lock expired after ${job.timeoutMs} ms and was taken over, result not saved to schedule`
+    );
+  }
+}
+
+/**
+ * Выполняет захваченную задачу, записывает итог запуска и снимает
+ * блокировку. Плановый запуск переносит следующий срок: через интервал
+ * после успеха или через паузу повтора после неудачи. Ручной запуск
+ * расписание не трогает.
+ */
+async function execute(job: JobDefinition, state: ScheduledJob, run: JobRun) {
+  const startedAt = Date.now();
+  let result: JobResult | null = null;
+  let error: string | null = null;
+  try {
+    result = await job.run(run.userId ?? undefined);
+  } catch (err) {
+    console.error(`[jobs] ${job.name} failed:`, err);
+    error = errorMessage(err);
+  }
+  const finishedAt = new Date();
+  const status = error ? "failed" : "succeeded";
+
+  await storage.finishJobRun(run.id, {
+    status,
+    finishedAt,
+    durationMs: finishedAt.getTime() - startedAt,
+    result: result ? JSON.stringify(result) : null,
+    error,
+  });
+
+  if (run.trigger === "manual") {
+    await release(job, state, {});
+    return;
+  }
+  const failures = error ? state.failures + 1 : 0;
+  const retry = !!error && failures < job.maxAttempts;
+  await release(job, state, {
+    lastRunAt: finishedAt,
+    lastStatus: status,
+    lastError: error,
+    // После последней попытки счётчик сбрасывается до следующего планового запуска
+    failures: retry ? failures : 0,
+    nextRunAt: new Date(
+      finishedAt.getTime() + (retry ? job.retryDelayMs * failures : job.intervalMs)
+    ),
+  });
+}
+
+async function tick() {
+  for (const job of JOBS) {
+    try {
+      const state = await storage.lockScheduledJob(
+        job.name,
+        INSTANCE_ID,
+        new Date(Date.now() + job.timeoutMs),
+        true
+      );
+      if (!state) continue;
+      const run = await startRun(job, state, state.failures > 0 ? "retry" : "schedule");
+      await execute(job, state, run);
+    } catch (error) {
+      console.error(`[jobs] ${job.name} scheduler error:`, error);
+    }
+  }
+}
+
+/** Регистрирует задачи в БД и запускает опрос расписания */
+export async function startJobScheduler() {
+  await storage.ensureScheduledJobs(JOBS.map((job) => job.name));
+  let running = false;
+  const poll = () => {
+    // Следующий опрос не начинается, пока не закончился предыдущий
+    if (running) return;
+    running = true;
+    tick().finally(() => {
+      running = false;
+    });
+  };
+  setInterval(poll, TICK_MS);
+  poll();
+}
+
+export type RunJobNowResult =
+  | { ok: true; run: JobRun }
+  | { ok: false; status: number; body: { message: string } };
+
+/**
+ * Ручной запуск из админки для рабочего пространства userId. Не ждёт
+ * выполнения: возвращает запись запуска, пока задача идёт.
+ */
+export async function runJobNow(
+  name: string,
+  params: { userId: string; actorId: string }
+): Promise<RunJobNowResult> {
+  const job = getJobDefinition(name);
+  if (!job) {
+    return { ok: false, status: 404, body: { message: "Задача не найдена" } };
+  }
+  await storage.ensureScheduledJobs([job.name]);
+  const state = await storage.lockScheduledJob(
+    job.name,
+    INSTANCE_ID,
+    new Date(Date.now() + job.timeoutMs),
+    false
+  );
+  if (!state) {
+    return { ok: false, status: 409, body: { message: "Задача уже выполняется" } };
+  }
+
+  let run: JobRun;
+  try {
+    run = await startRun(job, state, "manual", params);
+  } catch (error) {
+    await release(job, state, {});
+    throw error;
+  }
+  execute(job, state, run).catch((error) => {
+    console.error(`[jobs] ${job.name} manual run error:`, error);
+  });
+  return { ok: true, run };
+}
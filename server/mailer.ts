@@ -0,0 +1,272 @@
+// Отправка писем для уведомлений CRM.
+//
+// Транспорт подключаемый: MAIL_TRANSPORT=smtp (по умолчанию, если задан
+// SMTP_HOST) — SMTP-сервер почты, MAIL_TRANSPORT=log — письма только
+// пишутся в лог (разработка). Без настроек письма выключены, уведомления
+// остаются только в CRM. Другой транспорт ставится через setMailTransport.
+// SMTP реализован напрямую на node:net/tls, без SDK: EHLO, STARTTLS,
+// AUTH PLAIN и одно письмо на соединение.
+
+import net from "node:net";
+import tls from "node:tls";
+import os from "node:os";
+import crypto from "node:crypto";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  // true — TLS с первого байта (обычно порт 465); иначе STARTTLS, если сервер умеет
+  secure: boolean;
+  user: string | null;
+  pass: string | null;
+  from: string;
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Построчное чтение ответов SMTP: ответ закончен строкой "NNN текст"
+class SmtpConnection {
+  private buffer = "";
+  private replies: SmtpReply[] = [];
+  private pending: string[] = [];
+  private waiter: ((reply: SmtpReply) => void) | null = null;
+  private failure: Error | null = null;
+  private onFailure: ((err: Error) => void) | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    socket.on("data", (chunk: Buffer) => this.onData(chunk.toString("utf8")));
+    socket.on("timeout", () => this.fail(new Error("SMTP timeout")));
+    socket.on("error", (err) => this.fail(err));
+  }
+
+  private fail(err: Error) {
+    if (this.failure) return;
+    this.failure = err;
+    this.socket.destroy();
+    this.onFailure?.(err);
+  }
+
+  private onData(data: string) {
+    this.buffer += data;
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.pending.push(line.slice(4));
+      if (/^\d{3} /.test(line) || /^\d{3}$/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.pending };
+        this.pending = [];
+        if (this.waiter) {
+          const waiter = this.waiter;
+          this.waiter = null;
+          this.onFailure = null;
+          waiter(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = resolve;
+      this.onFailure = reject;
+    });
+  }
+
+  /** Отправляет команду и ждёт ответ с одним из ожидаемых кодов */
+  async command(line: string, expected: number[], label = line): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label}: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  /** Переводит соединение на TLS после STARTTLS */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("timeout");
+    this.socket.removeAllListeners("error");
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", () => resolve());
+      secured.once("error", reject);
+    });
+    this.socket = secured;
+    this.buffer = "";
+    this.attach(secured);
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+// Адрес из "Имя <addr>" или просто addr
+const bareAddress = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+
+function buildMessage(config: SmtpConfig, message: MailMessage): string {
+  const body = Buffer.from(message.text, "utf8")
+    .toString("base64")
+    .replace(/.{1,76}/g, "$&\r\n");
+  const fromName = config.from.match(/^(.*?)\s*</)?.[1];
+  const from = fromName
+    ? `${encodeHeader(fromName.replace(/"/g, ""))} <${bareAddress(config.from)}>`
+    : config.from;
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${bareAddress(config.from).split("@")[1] ?? os.hostname()}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+  ];
+  return `${headers.join("\r\n")}\r\n\r\n${body}`;
+}
+
+class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+
+  constructor(private config: SmtpConfig) {}
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.config;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once("error", reject);
+      socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+        socket.destroy(new Error(`SMTP connect timeout ${host}:${port}`))
+      );
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const { config } = this;
+    const conn = new SmtpConnection(await this.connect());
+    try {
+      await conn.expect([220], "greeting");
+      let ehlo = await conn.command(`EHLO ${os.hostname()}`, [250], "EHLO");
+
+      const supports = (ext: string) =>
+        ehlo.lines.some((line) => line.toUpperCase().startsWith(ext));
+      if (!config.secure && supports("STARTTLS")) {
+        await conn.command("STARTTLS", [220]);
+        await conn.upgrade(config.host);
+        ehlo = await conn.command(`EHLO ${os.hostname()}`, [250], "EHLO");
+      }
+
+      if (config.user && config.pass) {
+        const token = Buffer.from(`\0${config.user}\0${config.pass}`, "utf8").toString("base64");
+        await conn.command(`AUTH PLAIN ${token}`, [235], "AUTH");
+      }
+
+      await conn.command(`MAIL FROM:<${bareAddress(config.from)}>`, [250], "MAIL FROM");
+      await conn.command(`RCPT TO:<${bareAddress(message.to)}>`, [250, 251], "RCPT TO");
+      await conn.command("DATA", [354]);
+      // Точка в начале строки удваивается (RFC 5321, 4.5.2)
+      const data = buildMessage(config, message).replace(/\r\n\./g, "\r\n..");
+      conn.write(`${data}\r\n.\r\n`);
+      await conn.expect([250], "DATA");
+      await conn.command("QUIT", [221]).catch(() => undefined);
+    } finally {
+      conn.close();
+    }
+  }
+}
+
+class LogTransport implements MailTransport {
+  readonly name = "log";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mailer] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+let transport: MailTransport | null | undefined;
+
+function loadSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM || process.env.SMTP_USER;
+  if (!host || !from) {
+    console.warn("[mailer] SMTP disabled — missing env. Need SMTP_HOST and SMTP_FROM (or SMTP_USER)");
+    return null;
+  }
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || (secure ? "465" : "587"), 10),
+    secure,
+    user: process.env.SMTP_USER || null,
+    pass: process.env.SMTP_PASS || null,
+    from,
+  };
+}
+
+/** Транспорт по MAIL_TRANSPORT; null — письма не настроены */
+export function getMailTransport(): MailTransport | null {
+  if (transport !== undefined) return transport;
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "");
+  if (kind === "log") {
+    transport = new LogTransport();
+  } else if (kind === "smtp") {
+    const smtp = loadSmtpConfig();
+    transport = smtp ? new SmtpTransport(smtp) : null;
+  } else {
+    transport = null;
+  }
+  return transport;
+}
+
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const current = getMailTransport();
+  if (!current) throw new Error("Отправка писем не настроена");
+  await current.send(message);
+}
@@ -0,0 +1,452 @@
+import crypto from "node:crypto";
+import type { Request, Response, NextFunction } from "express";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { storage } from "./storage";
+import { db } from "./db";
+import { notify } from "./notifications";
+import { logAudit } from "./audit";
+import { ownsFileUrls } from "./uploads";
+import {
+  measurements,
+  measurementSashes,
+  measurementPhotos,
+  type Dealer,
+  type Measurement,
+  type Order,
+} from "@shared/schema";
+
+// Офлайн-синхронизация мобильного приложения дилера. Замер получает id на
+// устройстве (clientId) и может отправляться сколько угодно раз: повтор с
+// тем же содержимым возвращает уже созданный замер, изменённая версия
+// заменяет его, пока он на рассмотрении, а после принятия в работу
+// отвечает конфликтом. Справочники и заказы приложение забирает лентой
+// изменений от курсора, который сервер выдаёт в каждом ответе.
+
+export const SYNC_TYPES = ["orders", "notifications", "fabrics", "systems"] as const;
+export type SyncType = (typeof SYNC_TYPES)[number];
+
+// Запас на часы и транзакции, которые закоммитились позже своей отметки:
+// лучше прислать запись дважды, чем потерять
+const CURSOR_OVERLAP_MS = 5_000;
+const NOTIFICATIONS_LIMIT = 200;
+const CLIENT_ID_RE = /^[\w-]{8,64}$/;
+
+interface SyncCursor {
+  t: string;
+  h: Partial<Record<"fabrics" | "systems", string>>;
+}
+
+const hashOf = (value: unknown) =>
+  crypto.createHash("sha256").update(JSON.stringify(value)).digest("hex");
+
+function encodeCursor(cursor: SyncCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/** null — курсора нет или он испорчен; тогда клиент получает полный снимок */
+function decodeCursor(raw: unknown): SyncCursor | null {
+  if (typeof raw !== "string" || !raw) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (typeof parsed?.t !== "string" || isNaN(Date.parse(parsed.t))) return null;
+    return { t: parsed.t, h: typeof parsed.h === "object" && parsed.h ? parsed.h : {} };
+  } catch {
+    return null;
+  }
+}
+
+/** Типы из ?types=orders,fabrics; пусто — все */
+export function parseSyncTypes(raw: unknown): SyncType[] {
+  if (typeof raw !== "string" || !raw.trim()) return [...SYNC_TYPES];
+  const requested = raw.split(",").map((t) => t.trim());
+  return SYNC_TYPES.filter((t) => requested.includes(t));
+}
+
+/** Заказы с именем клиента из связанного замера */
+export async function withClientNames<T extends Order>(
+  orderList: T[]
+): Promise<(T & { clientName: string | null })[]> {
+  const clientMap = new Map<string, string>();
+  const orderIds = orderList.map((o) => o.id);
+  if (orderIds.length > 0) {
+    const linked = await db
+      .select({ orderId: measurements.orderId, clientName: measurements.clientName })
+      .from(measurements)
+      .where(inArray(measurements.orderId, orderIds));
+    for (const m of linked) {
+      if (m.orderId && m.clientName) clientMap.set(m.orderId, m.clientName);
+    }
+  }
+  return orderList.map((o) => ({ ...o, clientName: clientMap.get(o.id) || null }));
+}
+
+/** Ткани рабочего пространства дилера с названием цвета */
+export async function dealerFabrics(userId: string) {
+  const allFabrics = await storage.getFabrics(userId);
+  const colors = await storage.getColors(userId);
+  const colorMap = new Map(colors.map((c) => [c.id, c.name]));
+  return allFabrics.map((f) => ({
+    ...f,
+    colorName: f.colorId ? colorMap.get(f.colorId) || null : null,
+  }));
+}
+
+/** Системы рабочего пространства дилера с множителем */
+export async function dealerSystems(userId: string) {
+  const allSystems = await storage.getSystems(userId);
+  const multipliers = await storage.getMultipliers(userId);
+  const multMap = new Map(multipliers.map((m) => [m.id, parseFloat(m.value?.toString() || "0")]));
+  return allSystems.map((s) => ({
+    id: s.id,
+    name: s.name,
+    systemKey: s.systemKey,
+    multiplierValue: s.multiplierId ? multMap.get(s.multiplierId) || null : null,
+  }));
+}
+
+/**
+ * Изменения с момента курсора. Заказы — изменённые плюс полный список id
+ * (по нему приложение убирает удалённые); уведомления — новые; справочники
+ * приходят целиком, только если изменились, иначе null.
+ */
+export async function loadChanges(dealer: Dealer, rawCursor: unknown, types: SyncType[]) {
+  const cursor = decodeCursor(rawCursor);
+  const now = new Date();
+  const since = cursor ? new Date(Date.parse(cursor.t) - CURSOR_OVERLAP_MS) : undefined;
+  const hashes: SyncCursor["h"] = { ...cursor?.h };
+  const changes: {
+    orders?: { updated: (Order & { clientName: string | null })[]; ids: string[] };
+    notifications?: { created: Awaited<ReturnType<typeof storage.getDealerNotifications>> };
+    fabrics?: Awaited<ReturnType<typeof dealerFabrics>> | null;
+    systems?: Awaited<ReturnType<typeof dealerSystems>> | null;
+  } = {};
+
+  if (types.includes("orders")) {
+    const updated = await storage.getDealerOrders(dealer.id, { updatedSince: since });
+    changes.orders = {
+      updated: await withClientNames(updated),
+      ids: await storage.getDealerOrderIds(dealer.id),
+    };
+  }
+  if (types.includes("notifications")) {
+    changes.notifications = {
+      created: since
+        ? await storage.getDealerNotifications(dealer.id, NOTIFICATIONS_LIMIT, since)
+        : await storage.getDealerNotifications(dealer.id),
+    };
+  }
+  if (types.includes("fabrics")) {
+    const items = await dealerFabrics(dealer.userId);
+    const hash = hashOf(items);
+    changes.fabrics = hash === hashes.fabrics ? null : items;
+    hashes.fabrics = hash;
+  }
+  if (types.includes("systems")) {
+    const items = await dealerSystems(dealer.userId);
+    const hash = hashOf(items);
+    changes.systems = hash === hashes.systems ? null : items;
+    hashes.systems = hash;
+  }
+
+  return {
+    cursor: encodeCursor({ t: now.toISOString(), h: hashes }),
+    full: !cursor,
+    serverTime: now.toISOString(),
+    ...changes,
+  };
+}
+
+// ===== Отправка замера =====
+
+export type MeasurementSubmitResult =
+  | {
+      ok: true;
+      result: "created" | "duplicate" | "updated";
+      measurement: Measurement;
+    }
+  | { ok: false; status: number; body: { message: string } & Record<string, unknown> };
+
+/** Поля замера в том виде, в каком они сохраняются и хешируются */
+function normalizeSubmission(body: any) {
+  const sashes: any[] = Array.isArray(body?.sashes) ? body.sashes : [];
+  // Общие фото замера (галерея): [{ url, sashIndex? }]
+  const photos: { url: string; sashIndex?: number | null }[] = Array.isArray(body?.photos)
+    ? body.photos.filter((p: any) => typeof p?.url === "string" && p.url)
+    : [];
+  return {
+    clientName: body?.clientName ?? null,
+    clientPhone: body?.clientPhone ?? null,
+    address: body?.address ?? null,
+    latitude: body?.latitude ?? null,
+    longitude: body?.longitude ?? null,
+    comment: body?.comment ?? null,
+    totalCoefficient: body?.totalCoefficient ?? null,
+    signatureUrl: body?.signatureUrl ?? null,
+    sashes: sashes.map((s) => ({
+      width: s.width ?? null,
+      height: s.height ?? null,
+      systemName: s.systemName ?? null,
+      systemType: s.systemType ?? null,
+      category: s.category ?? null,
+      control: s.control ?? null,
+      coefficient: s.coefficient ?? null,
+      room: s.room ?? null,
+      roomName: s.roomName ?? null,
+      photoUrl: s.photoUrl ?? null,
+      fabricName: s.fabricName ?? null,
+    })),
+    photos: photos.map((p) => ({
+      url: p.url,
+      sashIndex: Number.isInteger(p.sashIndex) ? (p.sashIndex as number) : null,
+    })),
+  };
+}
+
+type Submission = ReturnType<typeof normalizeSubmission>;
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Створки и фото — в транзакции замера: повтор с тем же хешем не должен
+// найти замер без них
+async function saveChildren(tx: Tx, measurementId: string, data: Submission) {
+  if (data.sashes.length > 0) {
+    await tx
+      .insert(measurementSashes)
+      .values(data.sashes.map((s) => ({ measurementId, ...s })));
+  }
+  if (data.photos.length > 0) {
+    await tx
+      .insert(measurementPhotos)
+      .values(data.photos.map((p) => ({ measurementId, ...p })));
+  }
+}
+
+const isUniqueViolation = (error: unknown) =>
+  (error as { code?: string } | null)?.code === "23505";
+
+/**
+ * Ответ на повторную отправку замера, уже известного по clientId: тот же
+ * хеш — дубль без побочных эффектов; другой — замена, пока замер ждёт
+ * рассмотрения, иначе конфликт с серверной версией.
+ */
+async function resolveExisting(
+  dealer: Dealer,
+  existing: Measurement,
+  data: Submission,
+  syncHash: string
+): Promise<MeasurementSubmitResult> {
+  if (existing.syncHash === syncHash) {
+    return { ok: true, result: "duplicate", measurement: existing };
+  }
+  const conflict: MeasurementSubmitResult = {
+    ok: false,
+    status: 409,
+    body: {
+      message: "Замер уже принят в работу — изменения не сохранены",
+      measurementId: existing.id,
+      serverStatus: existing.status,
+    },
+  };
+  if (existing.status !== "pending" || existing.orderId) return conflict;
+
+  // Замена — только пока замер на рассмотрении: CRM могла принять его
+  // между чтением и записью
+  const { sashes: _sashes, photos: _photos, ...fields } = data;
+  const updated = await db.transaction(async (tx) => {
+    const [row] = await tx
+      .update(measurements)
+      .set({ ...fields, syncHash })
+      .where(
+        and(
+          eq(measurements.id, existing.id),
+          eq(measurements.status, "pending"),
+          isNull(measurements.orderId)
+        )
+      )
+      .returning();
+    if (!row) return null;
+    await tx.delete(measurementSashes).where(eq(measurementSashes.measurementId, existing.id));
+    await tx.delete(measurementPhotos).where(eq(measurementPhotos.measurementId, existing.id));
+    await saveChildren(tx, existing.id, data);
+    return row;
+  });
+  if (!updated) return conflict;
+
+  try {
+    await logAudit({
+      userId: dealer.userId,
+      action: "update",
+      entityType: "measurement",
+      entityId: existing.id,
+      metadata: { source: "mobile", dealerName: dealer.fullName, sync: true },
+    });
+  } catch (auditError) {
+    console.error("logAudit failed for measurement resend:", auditError);
+  }
+  return { ok: true, result: "updated", measurement: updated };
+}
+
+/**
+ * Принимает замер из приложения: создаёт его со статусом "pending" или,
+ * если clientId уже встречался, разбирает повтор (см. resolveExisting).
+ */
+export async function submitMeasurement(
+  dealer: Dealer,
+  body: any
+): Promise<MeasurementSubmitResult> {
+  const clientId = body?.clientId ?? null;
+  if (clientId !== null && (typeof clientId !== "string" || !CLIENT_ID_RE.test(clientId))) {
+    return { ok: false, status: 400, body: { message: "Некорректный clientId" } };
+  }
+
+  const data = normalizeSubmission(body);
+  if (data.sashes.length === 0) {
+    return {
+      ok: false,
+      status: 400,
+      body: { message: "Замер должен содержать хотя бы одну створку" },
+    };
+  }
+  const fileUrls = [
+    data.signatureUrl,
+    ...data.sashes.map((s) => s.photoUrl),
+    ...data.photos.map((p) => p.url),
+  ];
+  if (!(await ownsFileUrls(dealer.id, fileUrls))) {
+    return { ok: false, status: 400, body: { message: "Файл замера не найден" } };
+  }
+
+  const syncHash = hashOf(data);
+  if (clientId) {
+    const existing = await storage.getMeasurementByClientId(dealer.id, clientId);
+    if (existing) return resolveExisting(dealer, existing, data, syncHash);
+  }
+
+  // Замер остаётся на рассмотрении, пока администратор не примет его в
+  // CRM — тогда convert создаёт заказ цеха
+  const { sashes: _sashes, photos: _photos, ...fields } = data;
+  let measurement: Measurement;
+  try {
+    measurement = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(measurements)
+        .values({
+          ...fields,
+          dealerId: dealer.id,
+          status: "pending",
+          clientId,
+          syncHash,
+        })
+        .returning();
+      await saveChildren(tx, created.id, data);
+      return created;
+    });
+  } catch (error) {
+    // Параллельный повтор успел создать замер первым
+    if (clientId && isUniqueViolation(error)) {
+      const existing = await storage.getMeasurementByClientId(dealer.id, clientId);
+      if (existing) return resolveExisting(dealer, existing, data, syncHash);
+    }
+    throw error;
+  }
+
+  const clientInfo = [data.clientName, data.clientPhone].filter(Boolean).join(", ");
+  try {
+    await notify({
+      userId: dealer.userId,
+      type: "measurement_sent",
+      title: "Новый замер на рассмотрение",
+      message: `${dealer.fullName} отправил замер: ${clientInfo || "без имени"}, ${data.address || "без адреса"}`,
+      entityType: "measurement",
+      entityId: measurement.id,
+    });
+  } catch (notifyError) {
+    console.error("notify failed for measurement send:", notifyError);
+  }
+
+  try {
+    await logAudit({
+      userId: dealer.userId,
+      action: "create",
+      entityType: "measurement",
+      entityId: measurement.id,
+      metadata: {
+        source: "mobile",
+        dealerName: dealer.fullName,
+      },
+    });
+  } catch (auditError) {
+    console.error("logAudit failed for measurement send:", auditError);
+  }
+
+  return { ok: true, result: "created", measurement };
+}
+
+// ===== Idempotency-Key =====
+
+const IDEMPOTENCY_KEY_RE = /^[\w.:-]{8,128}$/;
+// Запрос, не ответивший за это время, считается оборвавшимся
+const IDEMPOTENCY_STALE_MS = 60_000;
+export const IDEMPOTENCY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Middleware для изменяющих запросов приложения (после авторизации). С
+ * заголовком Idempotency-Key первый запрос выполняется и его ответ
+ * сохраняется, повтор получает тот же ответ с Idempotent-Replayed: true.
+ * Ответы 5xx не сохраняются — такой запрос можно повторить. Без заголовка
+ * запрос выполняется как обычно.
+ */
+export function idempotent(
+  req: Request & { dealerId?: string },
+  res: Response,
+  next: NextFunction
+) {
+  const key = req.header("Idempotency-Key");
+  if (!key) return next();
+  if (!IDEMPOTENCY_KEY_RE.test(key)) {
+    return res.status(400).json({ message: "Некорректный Idempotency-Key" });
+  }
+  const path = req.originalUrl.split("?")[0];
+
+  (async () => {
+    const { claimed, row } = await storage.claimIdempotencyKey({
+      dealerId: req.dealerId!,
+      key,
+      method: req.method,
+      path,
+    });
+    if (!claimed) {
+      if (row.method !== req.method || row.path !== path) {
+        return res
+          .status(422)
+          .json({ message: "Idempotency-Key уже использован для другого запроса" });
+      }
+      if (row.statusCode !== null) {
+        res.setHeader("Idempotent-Replayed", "true");
+        return res.status(row.statusCode).type("application/json").send(row.response ?? "null");
+      }
+      const staleBefore = new Date(Date.now() - IDEMPOTENCY_STALE_MS);
+      if (!(await storage.reclaimIdempotencyKey(row.id, staleBefore))) {
+        return res.status(409).json({ message: "Запрос с этим ключом ещё выполняется" });
+      }
+    }
+
+    // Ответ уходит после того, как сохранён: повтор сразу за ним уже
+    // получит его, а не "ещё выполняется"
+    const send = res.json.bind(res);
+    res.json = (body: unknown) => {
+      const saved =
+        res.statusCode >= 500
+          ? storage.releaseIdempotencyKey(row.id)
+          : storage.completeIdempotencyKey(row.id, res.statusCode, JSON.stringify(body));
+      saved
+        .catch((error) => console.error("[idempotency] save failed:", error))
+        .finally(() => send(body));
+      return res;
+    };
+    next();
+  })().catch((error) => {
+    console.error(`[${req.method} ${req.path}] idempotency:`, error);
+    res.status(500).json({ message: "Ошибка сервера" });
+  });
+}
@@ -1,14 +1,148 @@
 import { storage } from "./storage";
 import { db } from "./db";
-import { notifications, orders, users, dealerNotifications, dealers } from "@shared/schema";
+import {
+  notifications,
+  users,
+  dealerNotifications,
+  dealers,
+  NOTIFICATION_TYPES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_THRESHOLDS,
+  type Notification,
+  type NotificationEmailStatus,
+  type NotificationRule,
+  type NotificationType,
+  type DevicePlatform,
+  type PermissionResource,
+  type StaffRole,
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 import { eq, and, gte, sql } from "drizzle-orm";
-import { sendApns, setApnsDeadTokenCleanup } from "./apns";
+import { format } from "date-fns";
+import { sendPush, setPushDeadTokenCleanup } from "./push";
+import { getMailTransport, sendMail } from "./mailer";
+import { getStockSnapshot } from "./stock";
 
 // Wire the dead-token cleanup once at module load — when APNs reports a token
-// as BadDeviceToken/Unregistered, drop it from device_tokens so we don't keep
-// hammering Apple with stale tokens.
-setApnsDeadTokenCleanup((token) => storage.deleteDeviceToken(token, "ios"));
+// as BadDeviceToken/Unregistered (or FCM as UNREGISTERED), drop it from
+// device_tokens so we don't keep hammering the provider with stale tokens.
+setPushDeadTokenCleanup((token, platform) => storage.deleteDeviceToken(token, platform));
 
+// ===== Настройки уведомлений =====
+// Правила по типам (вкл/выкл, канал, порог), тихие часы и час ежедневной
+// сводки — у каждого аккаунта свои. Нет строки в notification_preferences —
+// всё по умолчанию: все типы включены, только в CRM, прежние пороги.
+// Пороги решают, создавать ли напоминание, поэтому общие для рабочего
+// пространства и берутся из настроек владельца.
+
+export interface NotificationSettings {
+  rules: Record<NotificationType, NotificationRule>;
+  email: string | null;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  digestHour: number;
+  lastDigestAt: Date | null;
+}
+
+function defaultRule(type: NotificationType): NotificationRule {
+  const threshold = NOTIFICATION_THRESHOLDS[type]?.default;
+  return threshold === undefined
+    ? { enabled: true, channel: "in_app", push: true }
+    : { enabled: true, channel: "in_app", push: true, threshold };
+}
+
+// Сохранённые правила поверх умолчаний; битые значения игнорируются
+function parseRules(json: string): Record<NotificationType, NotificationRule> {
+  let saved: Record<string, Partial<NotificationRule>> = {};
+  try {
+    saved = JSON.parse(json) ?? {};
+  } catch {
+    // остаются умолчания
+  }
+  const rules = {} as Record<NotificationType, NotificationRule>;
+  for (const type of NOTIFICATION_TYPES) {
+    const rule = defaultRule(type);
+    const stored = saved[type];
+    if (stored) {
+      if (typeof stored.enabled === "boolean") rule.enabled = stored.enabled;
+      if (typeof stored.push === "boolean") rule.push = stored.push;
+      if (NOTIFICATION_CHANNELS.includes(stored.channel as NotificationRule["channel"])) {
+        rule.channel = stored.channel as NotificationRule["channel"];
+      }
+      if (rule.threshold !== undefined && typeof stored.threshold === "number") {
+        rule.threshold = stored.threshold;
+      }
+    }
+    rules[type] = rule;
+  }
+  return rules;
+}
+
+export async function getNotificationSettings(userId: string): Promise<NotificationSettings> {
+  const row = await storage.getNotificationPreferences(userId);
+  return {
+    rules: parseRules(row?.rules ?? "{}"),
+    email: row?.email ?? null,
+    quietHoursStart: row?.quietHoursStart ?? null,
+    quietHoursEnd: row?.quietHoursEnd ?? null,
+    digestHour: row?.digestHour ?? 9,
+    lastDigestAt: row?.lastDigestAt ?? null,
+  };
+}
+
+/** Правила аккаунта с порогами из правил владельца рабочего пространства */
+export function withWorkspaceThresholds(
+  rules: Record<NotificationType, NotificationRule>,
+  workspaceRules: Record<NotificationType, NotificationRule>
+): Record<NotificationType, NotificationRule> {
+  const result = { ...rules };
+  for (const type of NOTIFICATION_TYPES) {
+    const { threshold } = workspaceRules[type];
+    result[type] = { ...rules[type], ...(threshold === undefined ? {} : { threshold }) };
+  }
+  return result;
+}
+
+// Время CRM — московское (UTC+3, без перехода на летнее время)
+const MSK_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+export function isQuietHours(settings: NotificationSettings, now = new Date()): boolean {
+  if (!settings.quietHoursStart || !settings.quietHoursEnd) return false;
+  const msk = new Date(now.getTime() + MSK_OFFSET_MS);
+  const minutes = msk.getUTCHours() * 60 + msk.getUTCMinutes();
+  const start = toMinutes(settings.quietHoursStart);
+  const end = toMinutes(settings.quietHoursEnd);
+  // Начало позже конца — интервал через полночь (22:00–08:00)
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+// Сводка уходит раз в сутки, как только наступил час сводки
+function isDigestDue(settings: NotificationSettings, now = new Date()): boolean {
+  const msk = new Date(now.getTime() + MSK_OFFSET_MS);
+  const digestAt =
+    Date.UTC(msk.getUTCFullYear(), msk.getUTCMonth(), msk.getUTCDate(), settings.digestHour) -
+    MSK_OFFSET_MS;
+  return (
+    now.getTime() >= digestAt &&
+    (!settings.lastDigestAt || settings.lastDigestAt.getTime() < digestAt)
+  );
+}
+
+/**
+ * Уведомление в CRM по настройкам получателей — владельца и сотрудников
+ * с доступом к разделу. Уведомление создаётся, если тип включён хотя бы у
+ * одного из них. Письма и push — только тем, у кого он включён: канал
+ * email/digest ставит письмо получателю в очередь, push уходит на его
+ * телефоны. Письмо сразу отправляется, если у получателя сейчас не тихие
+ * часы; отложенные письма отправляет задача notification_emails.
+ */
 export async function notify(params: {
   userId: string;
   type: string;
@@ -18,7 +152,12 @@ export async function notify(params: {
   entityId?: string;
 }): Promise<void> {
   try {
-    await storage.createNotification({
+    const recipients = (await notificationRecipients(params.userId, params.type)).filter(
+      (r) => !r.rule || r.rule.enabled
+    );
+    if (recipients.length === 0) return;
+
+    const created = await storage.createNotification({
       userId: params.userId,
       type: params.type,
       title: params.title,
@@ -26,11 +165,199 @@ export async function notify(params: {
       entityType: params.entityType || null,
       entityId: params.entityId || null,
     });
+
+    const emails = getMailTransport()
+      ? recipients.flatMap((recipient) => {
+          const channel = recipient.rule?.channel ?? "in_app";
+          if (channel === "in_app") return [];
+          const status: NotificationEmailStatus = channel === "email" ? "pending" : "digest";
+          return [{ recipient, status }];
+        })
+      : [];
+    await storage.queueNotificationEmails(
+      created.id,
+      emails.map(({ recipient, status }) => ({ recipientId: recipient.id, status }))
+    );
+    for (const { recipient, status } of emails) {
+      if (status !== "pending" || isQuietHours(recipient.settings)) continue;
+      sendQueuedEmails(recipient.id, recipient.settings, "pending").catch((err) => {
+        console.error("Notification email error:", err);
+      });
+    }
+
+    sendStaffPush(created, recipients).catch((err) => {
+      console.error("Staff push error:", err);
+    });
   } catch (error) {
     console.error("Notification error:", error);
   }
 }
 
+// Какое право нужно сотруднику, чтобы получать уведомления этого типа
+const NOTIFICATION_TYPE_RESOURCES: Record<NotificationType, PermissionResource> = {
+  order_status: "orders",
+  low_stock: "warehouse",
+  overdue_order: "orders",
+  overdue_payment: "finance",
+  measurement_sent: "measurements",
+  quote_decision: "orders",
+  installation_completed: "installations",
+};
+
+interface NotificationRecipient {
+  id: string;
+  settings: NotificationSettings;
+  // Нет правила — тип без настроек: включён, только в CRM, с push
+  rule: NotificationRule | undefined;
+}
+
+/**
+ * Получатели уведомления рабочего пространства: владелец и активные
+ * сотрудники с правом на уведомления и на раздел этого типа — каждый со
+ * своими настройками.
+ */
+async function notificationRecipients(
+  workspaceId: string,
+  type: string
+): Promise<NotificationRecipient[]> {
+  const resource = NOTIFICATION_TYPE_RESOURCES[type as NotificationType];
+  const staff = await storage.getStaffMembers(workspaceId);
+  const ids = staff
+    .filter(
+      (member) =>
+        member.isActive &&
+        hasPermission(member.role as StaffRole, "notifications", "view") &&
+        (!resource || hasPermission(member.role as StaffRole, resource, "view"))
+    )
+    .map((member) => member.userId);
+  const recipientIds = Array.from(new Set([workspaceId, ...ids]));
+
+  const settings = await Promise.all(recipientIds.map((id) => getNotificationSettings(id)));
+  return recipientIds.map((id, i) => ({
+    id,
+    settings: settings[i],
+    rule: settings[i].rules[type as NotificationType] as NotificationRule | undefined,
+  }));
+}
+
+/**
+ * Push на устройства получателей, у которых push этого типа не выключен и
+ * сейчас не тихие часы. Push в тихие часы не откладывается: уведомление
+ * уже есть в CRM. badge — непрочитанные уведомления CRM.
+ */
+async function sendStaffPush(
+  notification: Notification,
+  recipients: NotificationRecipient[]
+): Promise<void> {
+  const now = new Date();
+  const pushTo = recipients.filter(
+    (r) => (r.rule?.push ?? true) && !isQuietHours(r.settings, now)
+  );
+  const tokens = (
+    await Promise.all(pushTo.map((r) => storage.getDeviceTokensForUser(r.id)))
+  ).flat();
+  if (tokens.length === 0) return;
+
+  const badge = await storage.getUnreadNotificationCount(notification.userId);
+  await sendPush(
+    tokens.map((t) => ({ token: t.token, platform: t.platform as DevicePlatform })),
+    {
+      title: notification.title,
+      body: notification.message,
+      badge,
+      threadId: notification.type,
+      data: {
+        notificationId: notification.id,
+        type: notification.type,
+        entityType: notification.entityType,
+        entityId: notification.entityId,
+      },
+    }
+  );
+}
+
+function buildEmail(items: Notification[], kind: "pending" | "digest") {
+  if (kind === "pending" && items.length === 1) {
+    return { subject: items[0].title, text: items[0].message };
+  }
+  const subject =
+    kind === "digest"
+      ? `Сводка уведомлений CRM за ${format(new Date(Date.now() + MSK_OFFSET_MS), "dd.MM.yyyy")}`
+      : `Уведомления CRM (${items.length})`;
+  const text = items
+    .map((n) => {
+      const at = n.createdAt ? `${format(n.createdAt, "dd.MM HH:mm")} ` : "";
+      return `${at}${n.title}\n${n.message}`;
+    })
+    .join("\n\n");
+  return { subject, text };
+}
+
+/**
+ * Отправляет одним письмом все уведомления получателя в статусе kind.
+ * При ошибке письма возвращаются в очередь.
+ */
+async function sendQueuedEmails(
+  recipientId: string,
+  settings: NotificationSettings,
+  kind: "pending" | "digest"
+): Promise<number> {
+  const claimed = await storage.claimNotificationEmails(recipientId, kind);
+  if (claimed.length === 0) return 0;
+  const ids = claimed.map((n) => n.id);
+  try {
+    const to = settings.email ?? (await storage.getUser(recipientId))?.email;
+    if (!to) throw new Error(`Не найден адрес для писем пользователя ${recipientId}`);
+    await sendMail({ to, ...buildEmail(claimed, kind) });
+  } catch (error) {
+    await storage.setNotificationEmailStatus(recipientId, ids, kind);
+    throw error;
+  }
+  await storage.setNotificationEmailStatus(recipientId, ids, "sent");
+  return claimed.length;
+}
+
+/**
+ * Письма, отложенные тихими часами или ошибкой SMTP, и ежедневные сводки.
+ * Выполняется фоновой задачей по всем рабочим пространствам или по одному.
+ */
+export async function deliverNotificationEmails(
+  userId?: string
+): Promise<{ emails: number; notifications: number }> {
+  let emails = 0;
+  let sent = 0;
+  if (!getMailTransport()) return { emails, notifications: sent };
+
+  let failed = 0;
+  for (const id of await storage.getUsersWithQueuedEmails(userId)) {
+    try {
+      const settings = await getNotificationSettings(id);
+      if (isQuietHours(settings)) continue;
+
+      const pending = await sendQueuedEmails(id, settings, "pending");
+      if (pending > 0) {
+        emails++;
+        sent += pending;
+      }
+      if (isDigestDue(settings)) {
+        const digest = await sendQueuedEmails(id, settings, "digest");
+        await storage.upsertNotificationPreferences(id, { lastDigestAt: new Date() });
+        if (digest > 0) {
+          emails++;
+          sent += digest;
+        }
+      }
+    } catch (error) {
+      console.error(`Notification email error for ${id}:`, error);
+      failed++;
+    }
+  }
+  if (failed > 0) {
+    throw new Error(`Письма не отправлены ${failed} пользователям (отправлено: ${emails})`);
+  }
+  return { emails, notifications: sent };
+}
+
 async function hasDuplicateNotification(
   userId: string,
   type: string,
@@ -76,7 +403,7 @@ export async function notifyDealer(params: {
     return;
   }
 
-  // Best-effort APNs push. We intentionally do not await fully — the HTTP
+  // Best-effort push (APNs / FCM). We intentionally do not await fully — the HTTP
   // response to the original request shouldn't be held up by Apple's network,
   // and a failed push is not user-facing (the in-app notification is already
   // saved).
@@ -95,8 +422,8 @@ async function sendDealerPush(params: {
   const tokens = await storage.getDeviceTokensForDealer(params.dealerId);
   if (tokens.length === 0) return;
 
-  await sendApns(
-    tokens.map((t) => ({ token: t.token, platform: t.platform as "ios" | "android" })),
+  await sendPush(
+    tokens.map((t) => ({ token: t.token, platform: t.platform as DevicePlatform })),
     {
       title: params.title,
       body: params.message,
@@ -126,186 +453,238 @@ async function hasDuplicateDealerNotification(
   return Number(result[0]?.count || 0) > 0;
 }
 
-export async function generatePeriodicNotifications(): Promise<void> {
-  try {
-    const allUsers = await db.select().from(users);
-
-    for (const user of allUsers) {
-      // 1. Overdue orders (status "Новый" or "В производстве" older than 14 days)
-      const allOrders = await storage.getOrders(user.id);
-      const now = new Date();
-      const fourteenDaysAgo = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
-
-      for (const order of allOrders) {
-        if (
-          (order.status === "Новый" || order.status === "В производстве") &&
-          new Date(order.date) < fourteenDaysAgo
-        ) {
-          const isDuplicate = await hasDuplicateNotification(
-            user.id,
-            "overdue_order",
-            order.id
-          );
-          if (!isDuplicate) {
-            await notify({
-              userId: user.id,
-              type: "overdue_order",
-              title: "Просроченный заказ",
-              message: `Заказ №${order.orderNumber} находится в статусе "${order.status}" более 14 дней`,
-              entityType: "order",
-              entityId: order.id,
-            });
-          }
-        }
-      }
+// ===== Периодические напоминания =====
+// Выполняются фоновыми задачами (server/jobs.ts) по всем рабочим
+// пространствам или по одному — при ручном запуске. Повтор в течение суток
+// отсекается проверкой на дубль, поэтому повторный запуск задачи безопасен.
 
-      // 2. Low stock check
-      const receipts = await storage.getWarehouseReceipts(user.id);
-      const writeoffs = await storage.getWarehouseWriteoffs(user.id);
+async function workspaceIds(userId?: string): Promise<string[]> {
+  if (userId) return [userId];
+  const rows = await db.select({ id: users.id }).from(users);
+  return rows.map((u) => u.id);
+}
 
-      const componentStock: Record<string, number> = {};
-      const fabricStock: Record<string, number> = {};
+/**
+ * Заказы в статусе "Новый" или "В производстве" после срока, обещанного
+ * дилеру, или старше порога из настроек владельца (14 дней), если срока нет.
+ */
+export async function remindOverdueOrders(userId?: string): Promise<{ notified: number }> {
+  let notified = 0;
+  for (const id of await workspaceIds(userId)) {
+    const { rules } = await getNotificationSettings(id);
+    const days = rules.overdue_order.threshold ?? 14;
 
-      for (const receipt of receipts) {
-        const items = await storage.getWarehouseReceiptItems(receipt.id);
-        for (const item of items) {
-          const qty = parseFloat(item.quantity?.toString() || "0");
-          if (item.componentId) {
-            componentStock[item.componentId] = (componentStock[item.componentId] || 0) + qty;
-          }
-          if (item.fabricId) {
-            fabricStock[item.fabricId] = (fabricStock[item.fabricId] || 0) + qty;
-          }
-        }
-      }
+    const allOrders = await storage.getOrders(id);
+    const now = new Date();
+    const todayStr = now.toISOString().split("T")[0];
+    const thresholdDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
 
-      for (const wo of writeoffs) {
-        const qty = parseFloat(wo.quantity?.toString() || "0");
-        if (wo.componentId) {
-          componentStock[wo.componentId] = (componentStock[wo.componentId] || 0) - qty;
-        }
-        if (wo.fabricId) {
-          fabricStock[wo.fabricId] = (fabricStock[wo.fabricId] || 0) - qty;
+    for (const order of allOrders) {
+      const overdue = order.dueDate
+        ? order.dueDate < todayStr
+        : new Date(order.date) < thresholdDate;
+      if (
+        (order.status === "Новый" || order.status === "В производстве") &&
+        overdue
+      ) {
+        const isDuplicate = await hasDuplicateNotification(id, "overdue_order", order.id);
+        if (!isDuplicate) {
+          await notify({
+            userId: id,
+            type: "overdue_order",
+            title: "Просроченный заказ",
+            message: order.dueDate
+              ? `Заказ №${order.orderNumber} в статусе "${order.status}", а срок был ${order.dueDate}`
+              : `Заказ №${order.orderNumber} находится в статусе "${order.status}" более ${days} дн.`,
+            entityType: "order",
+            entityId: order.id,
+          });
+          notified++;
         }
       }
+    }
+  }
+  return { notified };
+}
 
-      const allComponents = await storage.getComponents(user.id);
-      for (const comp of allComponents) {
-        const stock = componentStock[comp.id] || 0;
-        if (stock < 0) {
-          const isDuplicate = await hasDuplicateNotification(
-            user.id,
-            "low_stock",
-            comp.id
-          );
-          if (!isDuplicate) {
-            await notify({
-              userId: user.id,
-              type: "low_stock",
-              title: "Отрицательный остаток",
-              message: `Комплектующая "${comp.name}" имеет отрицательный остаток: ${stock.toFixed(2)}`,
-              entityType: "component",
-              entityId: comp.id,
-            });
-          }
-        }
+/**
+ * Остаток ниже порога из настроек владельца (по умолчанию 0 — отрицательный) или
+ * свободный остаток ниже точки заказа.
+ */
+export async function remindLowStock(userId?: string): Promise<{ notified: number }> {
+  let notified = 0;
+  for (const id of await workspaceIds(userId)) {
+    const { rules } = await getNotificationSettings(id);
+    const minQuantity = rules.low_stock.threshold ?? 0;
+
+    const { componentStock, fabricStock } = await getStockSnapshot(id);
+    const [allComponents, allFabrics] = await Promise.all([
+      storage.getComponents(id),
+      storage.getFabrics(id),
+    ]);
+    const stockItems = [
+      ...allComponents.map((c) => ({
+        entityType: "component",
+        label: `Комплектующая "${c.name}"`,
+        item: c,
+        stock: componentStock[c.id],
+      })),
+      ...allFabrics.map((f) => ({
+        entityType: "fabric",
+        label: `Ткань "${f.name}"`,
+        item: f,
+        stock: fabricStock[f.id],
+      })),
+    ];
+
+    for (const { entityType, label, item, stock } of stockItems) {
+      const quantity = stock?.quantity ?? 0;
+      const available = stock?.available ?? 0;
+      const reorderPoint = parseFloat(item.reorderPoint?.toString() || "0");
+
+      let title: string | null = null;
+      let message = "";
+      if (quantity < 0) {
+        title = "Отрицательный остаток";
+        message = `${label} имеет отрицательный остаток: ${quantity.toFixed(2)}`;
+      } else if (quantity < minQuantity) {
+        title = "Остаток ниже порога";
+        message = `${label}: остаток ${quantity.toFixed(2)}, порог ${minQuantity}`;
+      } else if (reorderPoint > 0 && available < reorderPoint) {
+        title = "Пора заказать";
+        message = `${label}: свободно ${available.toFixed(2)}, точка заказа ${reorderPoint.toFixed(2)}`;
       }
+      if (!title) continue;
 
-      const allFabrics = await storage.getFabrics(user.id);
-      for (const fabric of allFabrics) {
-        const stock = fabricStock[fabric.id] || 0;
-        if (stock < 0) {
-          const isDuplicate = await hasDuplicateNotification(
-            user.id,
-            "low_stock",
-            fabric.id
-          );
-          if (!isDuplicate) {
-            await notify({
-              userId: user.id,
-              type: "low_stock",
-              title: "Отрицательный остаток",
-              message: `Ткань "${fabric.name}" имеет отрицательный остаток: ${stock.toFixed(2)}`,
-              entityType: "fabric",
-              entityId: fabric.id,
-            });
-          }
-        }
+      const isDuplicate = await hasDuplicateNotification(id, "low_stock", item.id);
+      if (!isDuplicate) {
+        await notify({
+          userId: id,
+          type: "low_stock",
+          title,
+          message,
+          entityType,
+          entityId: item.id,
+        });
+        notified++;
       }
+    }
+  }
+  return { notified };
+}
 
-      // 3. Overdue installment payments
-      const overduePayments = await storage.getOverdueInstallmentPayments(user.id);
-      for (const payment of overduePayments) {
-        const isDuplicate = await hasDuplicateNotification(user.id, "overdue_payment", payment.id);
-        if (!isDuplicate) {
-          const order = await storage.getOrder(payment.plan.orderId);
-          await notify({
-            userId: user.id,
-            type: "overdue_payment",
-            title: "Просроченный платёж по рассрочке",
-            message: `Платёж №${payment.paymentNumber} по заказу №${order?.orderNumber || "?"} (${parseFloat(payment.amount).toLocaleString("ru-RU")} ₽) просрочен — срок был ${payment.dueDate}`,
-            entityType: "order",
-            entityId: payment.plan.orderId,
-          });
-        }
+/**
+ * Рассрочки: просроченные платежи — в CRM рабочего пространства,
+ * просроченные и ближайшие (порог из настроек владельца, 3 дня) — дилеру
+ * в приложение.
+ */
+export async function remindInstallments(
+  userId?: string
+): Promise<{ notified: number; dealerNotified: number }> {
+  let notified = 0;
+  let dealerNotified = 0;
+
+  // Настройки владельцев: порог напоминаний дилерам
+  const settingsByUser = new Map<string, NotificationSettings>();
+  const settingsFor = async (id: string) => {
+    let settings = settingsByUser.get(id);
+    if (!settings) {
+      settings = await getNotificationSettings(id);
+      settingsByUser.set(id, settings);
+    }
+    return settings;
+  };
+
+  for (const id of await workspaceIds(userId)) {
+    const overduePayments = await storage.getOverdueInstallmentPayments(id);
+    for (const payment of overduePayments) {
+      const isDuplicate = await hasDuplicateNotification(id, "overdue_payment", payment.id);
+      if (!isDuplicate) {
+        const order = await storage.getOrder(payment.plan.orderId);
+        await notify({
+          userId: id,
+          type: "overdue_payment",
+          title: "Просроченный платёж по рассрочке",
+          message: `Платёж №${payment.paymentNumber} по заказу №${order?.orderNumber || "?"} (${parseFloat(payment.amount).toLocaleString("ru-RU")} ₽) просрочен — срок был ${payment.dueDate}`,
+          entityType: "order",
+          entityId: payment.plan.orderId,
+        });
+        notified++;
       }
     }
+  }
+
+  const activeDealers = await db
+    .select()
+    .from(dealers)
+    .where(
+      userId
+        ? and(eq(dealers.isActive, true), eq(dealers.userId, userId))
+        : eq(dealers.isActive, true)
+    );
+  const today = new Date();
+  const todayStr = today.toISOString().split("T")[0];
 
-    // Dealer notifications: installment payment reminders
+  // Ошибка по одному дилеру не останавливает остальных; запуск всё равно
+  // считается неудачным, чтобы задача повторилась
+  let failedDealers = 0;
+  for (const dealer of activeDealers) {
     try {
-      const allDealers = await db.select().from(dealers).where(eq(dealers.isActive, true));
-      const today = new Date();
-      const todayStr = today.toISOString().split("T")[0];
-      const threeDaysLater = new Date(today.getTime() + 3 * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
-
-      for (const dealer of allDealers) {
-        try {
-          const plans = await storage.getDealerInstallmentPlans(dealer.id);
-          for (const plan of plans) {
-            const order = plan.order;
-            for (const payment of plan.payments) {
-              if (payment.isPaid) continue;
-
-              // Overdue payment
-              if (payment.dueDate < todayStr) {
-                const isDup = await hasDuplicateDealerNotification(dealer.id, payment.id);
-                if (!isDup) {
-                  await notifyDealer({
-                    dealerId: dealer.id,
-                    userId: dealer.userId,
-                    title: "Просроченный платёж",
-                    message: `Платёж №${payment.paymentNumber} по заказу №${order?.orderNumber || "?"} (${parseFloat(payment.amount).toLocaleString("ru-RU")} ₽) просрочен — срок был ${payment.dueDate}`,
-                    entityType: "installment",
-                    entityId: plan.id,
-                  });
-                }
-              }
-              // Upcoming payment (within 3 days)
-              else if (payment.dueDate <= threeDaysLater && payment.dueDate >= todayStr) {
-                const isDup = await hasDuplicateDealerNotification(dealer.id, payment.id);
-                if (!isDup) {
-                  const daysLeft = Math.ceil((new Date(payment.dueDate).getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
-                  const dayWord = daysLeft === 0 ? "сегодня" : daysLeft === 1 ? "завтра" : `через ${daysLeft} дн.`;
-                  await notifyDealer({
-                    dealerId: dealer.id,
-                    userId: dealer.userId,
-                    title: "Предстоящий платёж",
-                    message: `Платёж №${payment.paymentNumber} по заказу №${order?.orderNumber || "?"} (${parseFloat(payment.amount).toLocaleString("ru-RU")} ₽) — ${dayWord}`,
-                    entityType: "installment",
-                    entityId: plan.id,
-                  });
-                }
-              }
+      const { rules } = await settingsFor(dealer.userId);
+      const daysAhead = rules.overdue_payment.threshold ?? 3;
+      const upcomingUntil = new Date(today.getTime() + daysAhead * 24 * 60 * 60 * 1000)
+        .toISOString()
+        .split("T")[0];
+      const plans = await storage.getDealerInstallmentPlans(dealer.id);
+      for (const plan of plans) {
+        const order = plan.order;
+        for (const payment of plan.payments) {
+          if (payment.isPaid) continue;
+
+          // Overdue payment
+          if (payment.dueDate < todayStr) {
+            const isDup = await hasDuplicateDealerNotification(dealer.id, payment.id);
+            if (!isDup) {
+              await notifyDealer({
+                dealerId: dealer.id,
+                userId: dealer.userId,
+                title: "Просроченный платёж",
+                message: `Платёж №${payment.paymentNumber} по заказу №${order?.orderNumber || "?"} (${parseFloat(payment.amount).toLocaleString("ru-RU")} ₽) просрочен — срок был ${payment.dueDate}`,
+                entityType: "installment",
+                entityId: plan.id,
+              });
+              dealerNotified++;
+            }
+          }
+          // Upcoming payment (within daysAhead)
+          else if (payment.dueDate <= upcomingUntil && payment.dueDate >= todayStr) {
+            const isDup = await hasDuplicateDealerNotification(dealer.id, payment.id);
+            if (!isDup) {
+              const daysLeft = Math.ceil((new Date(payment.dueDate).getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+              const dayWord = daysLeft === 0 ? "сегодня" : daysLeft === 1 ? "завтра" : `через ${daysLeft} дн.`;
+              await notifyDealer({
+                dealerId: dealer.id,
+                userId: dealer.userId,
+                title: "Предстоящий платёж",
+                message: `Платёж №${payment.paymentNumber} по заказу №${order?.orderNumber || "?"} (${parseFloat(payment.amount).toLocaleString("ru-RU")} ₽) — ${dayWord}`,
+                entityType: "installment",
+                entityId: plan.id,
+              });
+              dealerNotified++;
             }
           }
-        } catch (dealerErr) {
-          console.error(`Dealer notification error for ${dealer.id}:`, dealerErr);
         }
       }
-    } catch (dealerNotifErr) {
-      console.error("Dealer periodic notification error:", dealerNotifErr);
+    } catch (dealerErr) {
+      console.error(`Dealer notification error for ${dealer.id}:`, dealerErr);
+      failedDealers++;
     }
-  } catch (error) {
-    console.error("Periodic notification generation error:", error);
   }
+  if (failedDealers > 0) {
+    throw new Error(
+      `Напоминания не отправлены ${failedDealers} дилерам (отправлено: ${dealerNotified})`
+    );
+  }
+
+  return { notified, dealerNotified };
 }
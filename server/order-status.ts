@@ -0,0 +1,430 @@
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { notify, notifyDealer } from "./notifications";
+import {
+  getSashMaterialRequirements,
+  validateSashOrderStock,
+  getFabricAvgPrices,
+  lockStockItems,
+  recordWriteoffMovements,
+  reverseOrderWriteoffMovements,
+  reserveOrderMaterials,
+  releaseOrderReservation,
+  type MaterialRequirement,
+} from "./stock";
+import {
+  getCostingMethod,
+  getInventoryValuation,
+  issueFromValuation,
+  itemKey,
+} from "./costing";
+import {
+  orders,
+  orderSashes,
+  shipments,
+  warehouseWriteoffs,
+  installmentPlans,
+  auditLogs,
+  ORDER_STATUSES,
+  MATERIALS_DISPOSITIONS,
+  type MaterialsDisposition,
+  type Order,
+  type OrderSash,
+  type OrderStatus,
+  type InsertWarehouseWriteoff,
+  type InsertOrder,
+  type WarehouseWriteoff,
+} from "@shared/schema";
+import {
+  findOrderStatusTransition,
+  type OrderStatusGuard,
+  type OrderStatusEffect,
+} from "@shared/order-status";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface TransitionContext {
+  // Транзакция перехода: проверки читают данные под её блокировками
+  tx: Tx;
+  userId: string;
+  order: Order;
+  from: OrderStatus;
+  to: OrderStatus;
+  sashes: OrderSash[];
+  existingWriteoffs: WarehouseWriteoff[];
+  // Потребность в материалах — для переходов, которые проверяют или
+  // расходуют остатки
+  requirements: MaterialRequirement[];
+  // Для отмены и возврата
+  disposition?: MaterialsDisposition;
+  reason?: string;
+}
+
+// Тело ответа 400 при провале проверки — уходит клиенту как есть
+type GuardFailure = { message: string } & Record<string, unknown>;
+
+export type OrderStatusTransitionResult =
+  | { ok: true; order: Order; changed: boolean }
+  | { ok: false; status: number; body: GuardFailure };
+
+const GUARDS: Record<
+  OrderStatusGuard,
+  (ctx: TransitionContext) => Promise<GuardFailure | null>
+> = {
+  async stockAvailable(ctx) {
+    if (ctx.existingWriteoffs.length > 0) return null;
+    const validation = await validateSashOrderStock(
+      ctx.userId,
+      ctx.sashes,
+      ctx.order.id,
+      ctx.tx,
+      ctx.requirements
+    );
+    if (validation.valid) return null;
+    return {
+      message: `Невозможно изменить статус на '${ctx.to}'. Недостаточно материалов на складе`,
+      errors: validation.errors,
+      stockError: true,
+    };
+  },
+
+  // Блокируем отгрузку, если у любой ткани заказа нет средней цены
+  // (ткань была создана, но поступлений не было — себестоимость была
+  // бы занижена). Пользователь должен сначала оприходовать закупку.
+  async fabricPricesKnown(ctx) {
+    const orderFabricIds = Array.from(
+      new Set(
+        ctx.sashes.map((s) => s.fabricId).filter((id): id is string => !!id)
+      )
+    );
+    if (orderFabricIds.length === 0) return null;
+
+    const fabricAvgPrices = await getFabricAvgPrices(ctx.userId, ctx.tx);
+    const allFabrics = await storage.getFabrics(ctx.userId);
+    const missing = orderFabricIds
+      .filter((id) => !fabricAvgPrices[id] || fabricAvgPrices[id] === 0)
+      .map((id) => allFabrics.find((f) => f.id === id)?.name || id);
+    if (missing.length === 0) return null;
+
+    return {
+      message: `Невозможно отгрузить заказ: не указана цена за ткань (${missing.join(
+        ", "
+      )}). Оприходуйте закупку на складе.`,
+      missingFabricPrices: missing,
+      fabricPriceError: true,
+    };
+  },
+
+  // Материалы уже списаны — без явного выбора не решаем за пользователя,
+  // вернуть их на склад или признать браком
+  async dispositionChosen(ctx) {
+    if (ctx.existingWriteoffs.length === 0 || ctx.disposition) return null;
+    return {
+      message: "Укажите, вернуть материалы заказа на склад или списать в брак",
+      dispositionRequired: true,
+    };
+  },
+
+  async nothingShipped(ctx) {
+    const shipped = await ctx.tx
+      .select({ id: shipments.id })
+      .from(shipments)
+      .where(eq(shipments.orderId, ctx.order.id))
+      .limit(1);
+    if (shipped.length === 0) return null;
+    return {
+      message:
+        "Часть створок заказа уже отгружена по накладной — сначала удалите накладную",
+    };
+  },
+};
+
+// Строки списания по створкам заказа. Цена — по методу учёта рабочего
+// пространства: FIFO-партии или скользящая средняя
+async function buildMaterialWriteoffs(
+  ctx: TransitionContext
+): Promise<InsertWarehouseWriteoff[]> {
+  const method = await getCostingMethod(ctx.userId);
+  const valuation = await getInventoryValuation(
+    ctx.userId,
+    ctx.requirements.map((r) => (r.fabricId || r.componentId)!),
+    ctx.tx
+  );
+  const today = new Date().toISOString().split("T")[0];
+
+  return ctx.requirements.map((r) => {
+    const v = valuation.get(itemKey(r.itemType, (r.fabricId || r.componentId)!));
+    const price = v ? issueFromValuation(v, method, r.quantity) : 0;
+    return {
+      orderId: ctx.order.id,
+      itemType: r.itemType,
+      fabricId: r.fabricId ?? null,
+      componentId: r.componentId ?? null,
+      quantity: r.quantity.toFixed(4),
+      price: price.toFixed(2),
+      total: (r.quantity * price).toFixed(2),
+      date: today,
+      userId: ctx.userId,
+    };
+  });
+}
+
+// Данные для эффектов, вычисленные после проверок
+interface PreparedEffects {
+  writeoffs: InsertWarehouseWriteoff[];
+  reservations: MaterialRequirement[];
+}
+
+const EFFECTS: Record<
+  OrderStatusEffect,
+  (
+    tx: Tx,
+    ctx: TransitionContext,
+    patch: Partial<InsertOrder>,
+    prepared: PreparedEffects
+  ) => Promise<void>
+> = {
+  async chargeDealerDebt(_tx, ctx, patch) {
+    patch.dealerDebt = parseFloat(ctx.order.salePrice?.toString() || "0").toString();
+  },
+
+  async releaseDealerDebt(_tx, _ctx, patch) {
+    patch.dealerDebt = "0";
+  },
+
+  async writeOffMaterials(tx, ctx, _patch, prepared) {
+    if (ctx.existingWriteoffs.length > 0 || prepared.writeoffs.length === 0) return;
+    const created = await tx
+      .insert(warehouseWriteoffs)
+      .values(prepared.writeoffs)
+      .returning();
+    await recordWriteoffMovements(tx, created);
+  },
+
+  async reverseWriteOffs(tx, ctx) {
+    await reverseOrderWriteoffMovements(tx, ctx.userId, ctx.order.id);
+    await tx
+      .delete(warehouseWriteoffs)
+      .where(eq(warehouseWriteoffs.orderId, ctx.order.id));
+  },
+
+  async reserveMaterials(tx, ctx, _patch, prepared) {
+    await reserveOrderMaterials(tx, ctx.userId, ctx.order.id, prepared.reservations);
+  },
+
+  async releaseReservation(tx, ctx) {
+    await releaseOrderReservation(tx, ctx.order.id);
+  },
+
+  async disposeMaterials(tx, ctx, patch) {
+    if (ctx.existingWriteoffs.length === 0) return;
+    if (ctx.disposition === "restock") {
+      await EFFECTS.reverseWriteOffs(tx, ctx, patch, { writeoffs: [], reservations: [] });
+    } else {
+      // Списания остаются — себестоимость материалов становится убытком
+      await tx
+        .update(warehouseWriteoffs)
+        .set({ comment: `Брак: заказ №${ctx.order.orderNumber} (${ctx.to.toLowerCase()})` })
+        .where(eq(warehouseWriteoffs.orderId, ctx.order.id));
+    }
+    patch.materialsDisposition = ctx.disposition;
+  },
+
+  async deactivateInstallments(tx, ctx) {
+    await tx
+      .update(installmentPlans)
+      .set({ isActive: false })
+      .where(eq(installmentPlans.orderId, ctx.order.id));
+  },
+
+  async recordReversal(_tx, ctx, patch) {
+    patch.reversedAt = new Date().toISOString().split("T")[0];
+    patch.reversalReason = ctx.reason || null;
+  },
+};
+
+const DEALER_STATUS_LABELS: Record<string, string> = {
+  "Новый": "Новый",
+  "В производстве": "В производстве",
+  "Готов": "Готов к выдаче",
+  "Отгружен": "Отгружен",
+  "Отменён": "Отменён",
+  "Возврат": "Оформлен возврат",
+};
+
+/**
+ * Переводит заказ в новый статус по таблице ORDER_STATUS_TRANSITIONS.
+ * Проверки, эффекты, смена статуса и запись в аудит — в одной транзакции
+ * под блокировкой строки заказа и строк остатков его материалов.
+ * Уведомления отправляются только после коммита.
+ */
+export async function transitionOrderStatus(params: {
+  userId: string;
+  actorId?: string;
+  orderId: string;
+  to: string;
+  // Отмена и возврат: судьба списанных материалов и причина
+  disposition?: string;
+  reason?: string;
+  // Запись в той же транзакции после проверок, до эффектов и смены статуса
+  // (накладная на последние створки). Отказ возвращается до записи
+  before?: (tx: Tx) => Promise<GuardFailure | null>;
+}): Promise<OrderStatusTransitionResult> {
+  const { userId, actorId, orderId } = params;
+
+  if (!ORDER_STATUSES.includes(params.to as OrderStatus)) {
+    return { ok: false, status: 400, body: { message: "Некорректный статус" } };
+  }
+  const to = params.to as OrderStatus;
+  if (
+    params.disposition &&
+    !MATERIALS_DISPOSITIONS.includes(params.disposition as MaterialsDisposition)
+  ) {
+    return { ok: false, status: 400, body: { message: "Некорректное распоряжение материалами" } };
+  }
+
+  const order = await storage.getOrder(orderId);
+  if (!order || order.userId !== userId) {
+    return { ok: false, status: 404, body: { message: "Заказ не найден" } };
+  }
+
+  const from = (order.status || "Новый") as OrderStatus;
+  if (from === to) return { ok: true, order, changed: false };
+
+  const transition = findOrderStatusTransition(from, to);
+  if (!transition) {
+    return {
+      ok: false,
+      status: 400,
+      body: { message: `Переход «${from}» → «${to}» не предусмотрен` },
+    };
+  }
+  if (transition.rejectReason) {
+    return { ok: false, status: 400, body: { message: transition.rejectReason } };
+  }
+
+  const effects = transition.effects ?? [];
+  const guards = transition.guards ?? [];
+  const touchesStock =
+    guards.includes("stockAvailable") ||
+    effects.includes("writeOffMaterials") ||
+    effects.includes("reserveMaterials");
+
+  const outcome = await db.transaction(async (tx) => {
+    // Блокируем заказ: параллельный запрос увидит уже новый статус
+    const [locked] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderId))
+      .for("update");
+    if (!locked || (locked.status || "Новый") !== from) return null;
+
+    const ctx: TransitionContext = {
+      tx,
+      userId,
+      // Строка под блокировкой: сумма для долга дилера — актуальная
+      order: locked,
+      from,
+      to,
+      sashes: await tx.select().from(orderSashes).where(eq(orderSashes.orderId, orderId)),
+      existingWriteoffs: await tx
+        .select()
+        .from(warehouseWriteoffs)
+        .where(eq(warehouseWriteoffs.orderId, orderId)),
+      requirements: [],
+      disposition: params.disposition as MaterialsDisposition | undefined,
+      reason: params.reason?.trim() || undefined,
+    };
+
+    // Остатки проверяются и расходуются под блокировкой их строк — два
+    // заказа на один материал не пройдут проверку одновременно
+    if (touchesStock) {
+      ctx.requirements = await getSashMaterialRequirements(userId, ctx.sashes);
+      await lockStockItems(tx, userId, ctx.requirements);
+    }
+
+    for (const guard of guards) {
+      const failure = await GUARDS[guard](ctx);
+      if (failure) return { failure };
+    }
+    if (params.before) {
+      const failure = await params.before(tx);
+      if (failure) return { failure };
+    }
+
+    const prepared: PreparedEffects = {
+      writeoffs:
+        effects.includes("writeOffMaterials") && ctx.existingWriteoffs.length === 0
+          ? await buildMaterialWriteoffs(ctx)
+          : [],
+      reservations: effects.includes("reserveMaterials") ? ctx.requirements : [],
+    };
+
+    const patch: Partial<InsertOrder> = {};
+    for (const effect of effects) {
+      await EFFECTS[effect](tx, ctx, patch, prepared);
+    }
+
+    const [row] = await tx
+      .update(orders)
+      .set({ ...patch, status: to })
+      .where(eq(orders.id, orderId))
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      userId,
+      actorId: actorId ?? userId,
+      action: "status_change",
+      entityType: "order",
+      entityId: orderId,
+      changes: JSON.stringify({ before: { status: from }, after: { status: to } }),
+      metadata: JSON.stringify({
+        orderNumber: order.orderNumber,
+        effects,
+        ...(patch.reversedAt && {
+          reason: ctx.reason ?? null,
+          materialsDisposition: patch.materialsDisposition ?? null,
+        }),
+      }),
+    });
+
+    return { row };
+  });
+
+  if (outcome?.failure) {
+    return { ok: false, status: 400, body: outcome.failure };
+  }
+  const updated = outcome?.row;
+  if (!updated) {
+    return {
+      ok: false,
+      status: 409,
+      body: { message: "Статус заказа уже изменён. Обновите страницу" },
+    };
+  }
+
+  notify({
+    userId,
+    type: "order_status",
+    title: "Статус заказа изменен",
+    message: `Заказ №${order.orderNumber}: ${from} -> ${to}`,
+    entityType: "order",
+    entityId: order.id,
+  });
+
+  if (order.dealerId) {
+    notifyDealer({
+      dealerId: order.dealerId,
+      userId,
+      title: "Статус заказа изменён",
+      message: `Заказ №${order.orderNumber}: ${DEALER_STATUS_LABELS[to] || to}${
+        updated.reversalReason ? ` — ${updated.reversalReason}` : ""
+      }`,
+      entityType: "order",
+      entityId: order.id,
+    });
+  }
+
+  return { ok: true, order: updated, changed: true };
+}
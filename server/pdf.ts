@@ -0,0 +1,458 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import path from "path";
+import type { CuttingLayoutWithRows } from "./cutting";
+
+// Печатные формы для цеха: карты раскроя, задание в цех, этикетки
+// на створки и накладные. Стандартные шрифты PDF не содержат кириллицы —
+// берём DejaVu.
+
+const FONT_DIR = path.resolve(process.cwd(), "node_modules/dejavu-fonts-ttf/ttf");
+const FONT_REGULAR = path.join(FONT_DIR, "DejaVuSans.ttf");
+const FONT_BOLD = path.join(FONT_DIR, "DejaVuSans-Bold.ttf");
+
+// Размер этикетки термопринтера, мм
+const LABEL_WIDTH_MM = 58;
+const LABEL_HEIGHT_MM = 40;
+
+const mm = (value: number) => (value * 72) / 25.4;
+
+function createDocument(options: PDFKit.PDFDocumentOptions): PDFKit.PDFDocument {
+  const doc = new PDFDocument({ ...options, autoFirstPage: false });
+  doc.registerFont("regular", FONT_REGULAR);
+  doc.registerFont("bold", FONT_BOLD);
+  return doc;
+}
+
+function toBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+const formatSize = (value: number | string) => {
+  const n = typeof value === "string" ? parseFloat(value) : value;
+  return Number.isInteger(n) ? n.toString() : n.toFixed(1);
+};
+
+// ===== КАРТЫ РАСКРОЯ =====
+
+/**
+ * Карта на каждый ряд раскроя: схема ряда в масштабе и список кусков.
+ * Размеры кусков — с припуском, как их режут.
+ */
+export async function renderCuttingCards(
+  layouts: CuttingLayoutWithRows[],
+  title: string
+): Promise<Buffer> {
+  const margin = mm(15);
+  const doc = createDocument({ size: "A4", margin });
+  const left = margin;
+  let pages = 0;
+
+  for (const layout of layouts) {
+    const rollWidth = parseFloat(layout.rollWidth);
+
+    layout.rows.forEach((row) => {
+      doc.addPage();
+      pages++;
+      const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+      doc.font("bold").fontSize(16).text(title, left, doc.page.margins.top);
+      doc
+        .font("regular")
+        .fontSize(11)
+        .text(`Ткань: ${layout.fabricName || "—"}`)
+        .text(
+          `Ряд ${row.rowIndex} из ${layout.rows.length} · длина отреза ${formatSize(row.cutLength)} см`
+        )
+        .text(
+          row.remnantId
+            ? "Кроить из делового обрезка"
+            : `Ширина рулона ${formatSize(rollWidth)} см`
+        );
+      doc.moveDown();
+
+      // Схема: по горизонтали — ширина рулона, по вертикали — длина отреза
+      const sourceWidth = parseFloat(row.usedWidth) + parseFloat(row.wasteWidth);
+      const cutLength = parseFloat(row.cutLength);
+      const scale = Math.min(contentWidth / sourceWidth, mm(110) / cutLength);
+      const top = doc.y;
+
+      doc
+        .rect(left, top, sourceWidth * scale, cutLength * scale)
+        .fillAndStroke("#f3f4f6", "#111827");
+
+      let x = left;
+      row.pieces.forEach((piece) => {
+        const w = piece.width * scale;
+        const h = piece.height * scale;
+        doc.rect(x, top, w, h).fillAndStroke("#dbeafe", "#1d4ed8");
+        doc
+          .fillColor("#111827")
+          .font("bold")
+          .fontSize(9)
+          .text(`#${piece.sashIndex}${piece.rotated ? " ↻" : ""}`, x + 2, top + 2, {
+            width: Math.max(w - 4, 1),
+            lineBreak: false,
+          })
+          .font("regular")
+          .fontSize(8)
+          .text(`${formatSize(piece.width)}×${formatSize(piece.height)}`, x + 2, top + 13, {
+            width: Math.max(w - 4, 1),
+            lineBreak: false,
+          });
+        x += w;
+      });
+
+      doc.fillColor("#111827").font("regular").fontSize(10);
+      doc.y = top + cutLength * scale + mm(6);
+      doc.x = left;
+
+      // Список кусков
+      const columns = [
+        { label: "Створка", width: 60 },
+        { label: "Заказ", width: 70 },
+        { label: "Ширина, см", width: 90 },
+        { label: "Длина, см", width: 90 },
+        { label: "Поворот", width: 70 },
+      ];
+      let rowY = doc.y;
+      let colX = left;
+      doc.font("bold");
+      for (const col of columns) {
+        doc.text(col.label, colX, rowY, { width: col.width });
+        colX += col.width;
+      }
+      doc.font("regular");
+      for (const piece of row.pieces) {
+        rowY += 16;
+        colX = left;
+        const cells = [
+          `#${piece.sashIndex}`,
+          piece.orderNumber ? `№${piece.orderNumber}` : "",
+          formatSize(piece.width),
+          formatSize(piece.height),
+          piece.rotated ? "да" : "",
+        ];
+        cells.forEach((cell, i) => {
+          doc.text(cell, colX, rowY, { width: columns[i].width });
+          colX += columns[i].width;
+        });
+      }
+
+      doc.x = left;
+      doc.y = rowY + 24;
+      doc.text(
+        `Использовано ${formatSize(row.usedWidth)} см, остаток ширины ${formatSize(row.wasteWidth)} см`
+      );
+    });
+  }
+
+  if (pages === 0) {
+    doc.addPage();
+    doc.font("regular").fontSize(12).text("Раскрой не рассчитан");
+  }
+
+  return toBuffer(doc);
+}
+
+// ===== ЗАДАНИЕ В ЦЕХ =====
+
+export interface JobSheetSash {
+  room: string;
+  width: string;
+  height: string;
+  system: string;
+  systemColor: string;
+  fabric: string;
+  fabricColor: string;
+  controlSide: string;
+}
+
+export interface JobSheetData {
+  orderNumber: number;
+  date: string;
+  dealerName?: string;
+  comment?: string | null;
+  sashes: JobSheetSash[];
+}
+
+/**
+ * Задание в цех: таблица створок заказа на A4 (альбомная).
+ */
+export async function renderJobSheet(data: JobSheetData): Promise<Buffer> {
+  const doc = createDocument({ size: "A4", layout: "landscape", margin: mm(12) });
+  doc.addPage();
+  const left = doc.page.margins.left;
+  const bottom = doc.page.height - doc.page.margins.bottom;
+
+  doc
+    .font("bold")
+    .fontSize(16)
+    .text(`Задание в цех — заказ №${data.orderNumber} от ${data.date}`);
+  doc.font("regular").fontSize(11);
+  if (data.dealerName) doc.text(`Дилер: ${data.dealerName}`);
+  if (data.comment) doc.text(`Комментарий: ${data.comment}`);
+  doc.moveDown();
+
+  const columns = [
+    { label: "№", width: 28 },
+    { label: "Комната", width: 90 },
+    { label: "Ширина", width: 55 },
+    { label: "Высота", width: 55 },
+    { label: "Система", width: 130 },
+    { label: "Цвет системы", width: 90 },
+    { label: "Ткань", width: 130 },
+    { label: "Цвет ткани", width: 90 },
+    { label: "Упр.", width: 45 },
+  ];
+  const tableWidth = columns.reduce((sum, c) => sum + c.width, 0);
+  const rowHeight = 20;
+
+  const drawRow = (cells: string[], y: number, bold: boolean) => {
+    let x = left;
+    doc.font(bold ? "bold" : "regular").fontSize(9);
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + 3, y + 5, {
+        width: columns[i].width - 6,
+        height: rowHeight - 6,
+        ellipsis: true,
+        lineBreak: false,
+      });
+      x += columns[i].width;
+    });
+    doc.moveTo(left, y + rowHeight).lineTo(left + tableWidth, y + rowHeight).stroke("#9ca3af");
+  };
+
+  let y = doc.y;
+  drawRow(columns.map((c) => c.label), y, true);
+  data.sashes.forEach((sash, i) => {
+    y += rowHeight;
+    if (y + rowHeight > bottom) {
+      doc.addPage();
+      y = doc.page.margins.top;
+      drawRow(columns.map((c) => c.label), y, true);
+      y += rowHeight;
+    }
+    drawRow(
+      [
+        String(i + 1),
+        sash.room,
+        formatSize(sash.width),
+        formatSize(sash.height),
+        sash.system,
+        sash.systemColor,
+        sash.fabric,
+        sash.fabricColor,
+        sash.controlSide,
+      ],
+      y,
+      false
+    );
+  });
+
+  doc.font("regular").fontSize(10);
+  doc.text(`Всего створок: ${data.sashes.length}`, left, y + rowHeight + 10);
+
+  return toBuffer(doc);
+}
+
+// ===== ЭТИКЕТКИ =====
+
+export interface SashLabel {
+  orderNumber: number;
+  room: string;
+  width: string;
+  height: string;
+  controlSide: string;
+  system: string;
+  url: string;
+}
+
+/**
+ * Этикетки на створки: одна страница — одна этикетка размера термопринтера,
+ * QR ведёт на створку в экране цеха — по нему отмечают этапы, оттуда же
+ * открывается заказ.
+ */
+export async function renderSashLabels(labels: SashLabel[]): Promise<Buffer> {
+  const doc = createDocument({
+    size: [mm(LABEL_WIDTH_MM), mm(LABEL_HEIGHT_MM)],
+    margin: mm(2),
+  });
+  const qrSize = mm(20);
+
+  for (const label of labels) {
+    doc.addPage();
+    const left = doc.page.margins.left;
+    const top = doc.page.margins.top;
+    const textWidth = doc.page.width - left * 2 - qrSize - mm(1);
+
+    const qr = await QRCode.toBuffer(label.url, { margin: 0, width: 240 });
+    doc.image(qr, doc.page.width - left - qrSize, top, { width: qrSize });
+
+    doc.font("bold").fontSize(14).text(`№${label.orderNumber}`, left, top, {
+      width: textWidth,
+      lineBreak: false,
+    });
+    doc
+      .font("regular")
+      .fontSize(8)
+      .text(label.room, left, top + mm(7), { width: textWidth, lineBreak: false, ellipsis: true });
+    doc
+      .font("bold")
+      .fontSize(10)
+      .text(`${formatSize(label.width)} × ${formatSize(label.height)}`, left, top + mm(11), {
+        width: textWidth,
+        lineBreak: false,
+      });
+    doc
+      .font("regular")
+      .fontSize(8)
+      .text(`Упр.: ${label.controlSide || "—"}`, left, top + mm(16), {
+        width: textWidth,
+        lineBreak: false,
+      });
+    doc.fontSize(7).text(label.system, left, top + mm(23), {
+      width: doc.page.width - left * 2,
+      height: mm(12),
+      ellipsis: true,
+    });
+  }
+
+  if (labels.length === 0) {
+    doc.addPage();
+    doc.font("regular").fontSize(8).text("В заказе нет створок");
+  }
+
+  return toBuffer(doc);
+}
+
+// ===== НАКЛАДНАЯ =====
+
+export interface DeliveryNoteSash {
+  room: string;
+  width: string;
+  height: string;
+  system: string;
+  fabric: string;
+  controlSide: string;
+}
+
+export interface DeliveryNoteData {
+  number: number;
+  date: string;
+  orderNumber: number;
+  dealerName?: string;
+  driverName?: string | null;
+  recipientName?: string | null;
+  // PNG в data URL; без подписи — пустая строка под роспись
+  signature?: string | null;
+  comment?: string | null;
+  sashes: DeliveryNoteSash[];
+  // Сколько створок заказа уехало всего, включая эту накладную
+  shippedCount: number;
+  totalCount: number;
+}
+
+/**
+ * Накладная на часть створок заказа (A4, книжная): таблица створок,
+ * водитель и подпись получателя.
+ */
+export async function renderDeliveryNote(data: DeliveryNoteData): Promise<Buffer> {
+  const doc = createDocument({ size: "A4", margin: mm(15) });
+  doc.addPage();
+  const left = doc.page.margins.left;
+  const bottom = doc.page.height - doc.page.margins.bottom;
+
+  doc
+    .font("bold")
+    .fontSize(16)
+    .text(`Накладная №${data.number} от ${data.date}`);
+  doc.font("regular").fontSize(11);
+  doc.text(`Заказ №${data.orderNumber}`);
+  if (data.dealerName) doc.text(`Дилер: ${data.dealerName}`);
+  if (data.driverName) doc.text(`Водитель: ${data.driverName}`);
+  if (data.comment) doc.text(`Комментарий: ${data.comment}`);
+  doc.moveDown();
+
+  const columns = [
+    { label: "№", width: 25 },
+    { label: "Комната", width: 95 },
+    { label: "Ширина", width: 50 },
+    { label: "Высота", width: 50 },
+    { label: "Система", width: 130 },
+    { label: "Ткань", width: 130 },
+    { label: "Упр.", width: 35 },
+  ];
+  const tableWidth = columns.reduce((sum, c) => sum + c.width, 0);
+  const rowHeight = 20;
+
+  const drawRow = (cells: string[], y: number, bold: boolean) => {
+    let x = left;
+    doc.font(bold ? "bold" : "regular").fontSize(9);
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + 3, y + 5, {
+        width: columns[i].width - 6,
+        height: rowHeight - 6,
+        ellipsis: true,
+        lineBreak: false,
+      });
+      x += columns[i].width;
+    });
+    doc.moveTo(left, y + rowHeight).lineTo(left + tableWidth, y + rowHeight).stroke("#9ca3af");
+  };
+
+  let y = doc.y;
+  drawRow(columns.map((c) => c.label), y, true);
+  data.sashes.forEach((sash, i) => {
+    y += rowHeight;
+    if (y + rowHeight > bottom) {
+      doc.addPage();
+      y = doc.page.margins.top;
+      drawRow(columns.map((c) => c.label), y, true);
+      y += rowHeight;
+    }
+    drawRow(
+      [
+        String(i + 1),
+        sash.room,
+        formatSize(sash.width),
+        formatSize(sash.height),
+        sash.system,
+        sash.fabric,
+        sash.controlSide,
+      ],
+      y,
+      false
+    );
+  });
+
+  y += rowHeight + 10;
+  if (y + mm(40) > bottom) {
+    doc.addPage();
+    y = doc.page.margins.top;
+  }
+  doc.font("regular").fontSize(10);
+  doc.text(
+    `Створок по накладной: ${data.sashes.length}. Отгружено по заказу: ${data.shippedCount} из ${data.totalCount}`,
+    left,
+    y
+  );
+
+  y += 30;
+  doc.text(`Получатель: ${data.recipientName || "________________________"}`, left, y);
+  doc.text("Подпись:", left, y + 25);
+  if (data.signature) {
+    const image = Buffer.from(data.signature.split(",")[1] || "", "base64");
+    doc.image(image, left + 60, y + 15, { fit: [mm(50), mm(20)] });
+  } else {
+    doc.moveTo(left + 60, y + 37).lineTo(left + 220, y + 37).stroke("#000000");
+  }
+
+  return toBuffer(doc);
+}
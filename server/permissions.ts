@@ -0,0 +1,25 @@
+import type { Request, Response, NextFunction } from "express";
+import type {
+  StaffRole,
+  PermissionResource,
+  PermissionAction,
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+interface StaffRequest extends Request {
+  role?: StaffRole;
+}
+
+// Проверка прав по матрице ROLE_PERMISSIONS. Ставится после authMiddleware,
+// который заполняет req.role.
+export function requirePermission(
+  resource: PermissionResource,
+  action: PermissionAction
+) {
+  return (req: StaffRequest, res: Response, next: NextFunction) => {
+    if (!hasPermission(req.role, resource, action)) {
+      return res.status(403).json({ message: "Недостаточно прав" });
+    }
+    next();
+  };
+}
@@ -0,0 +1,14 @@
+import { storage } from "./storage";
+import { parsePriceTier, type PriceTierRules } from "@shared/pricing";
+import type { Dealer } from "@shared/schema";
+
+/**
+ * Прайс-лист дилера или null — тогда цена считается по тарифам дилера
+ */
+export async function getDealerPriceTier(
+  dealer: Dealer | null | undefined
+): Promise<PriceTierRules | null> {
+  if (!dealer?.priceTierId) return null;
+  const tier = await storage.getPriceTier(dealer.priceTierId);
+  return tier && tier.userId === dealer.userId ? parsePriceTier(tier) : null;
+}
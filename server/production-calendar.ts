@@ -0,0 +1,254 @@
+import { storage } from "./storage";
+import type {
+  CapacityUnit,
+  Order,
+  OrderSash,
+  ProductionCalendarDay,
+} from "@shared/schema";
+
+// Календарь цеха: дневная мощность и план по срокам. Заказы в работе
+// встают в очередь по обещанному дилеру сроку и заполняют рабочие дни,
+// начиная с сегодняшнего. Заказ, который по плану не успевает к сроку,
+// делает день своего срока перегруженным.
+
+export interface ScheduleDay {
+  date: string;
+  capacity: number;
+  // Запланировано на день по очереди
+  planned: number;
+  // Нагрузка заказов, срок которых приходится на этот день
+  due: number;
+  overbooked: boolean;
+  // День-исключение из обычной недели
+  exception: boolean;
+  comment: string | null;
+}
+
+export interface ScheduledOrder {
+  orderId: string;
+  orderNumber: number;
+  dealerId: string | null;
+  status: string | null;
+  dueDate: string | null;
+  load: number;
+  startDate: string | null;
+  // Оценка готовности; null — не помещается в горизонт планирования
+  readyDate: string | null;
+  late: boolean;
+}
+
+export interface ProductionSchedule {
+  configured: boolean;
+  capacityUnit: CapacityUnit;
+  dailyCapacity: number | null;
+  workingDays: number[];
+  days: ScheduleDay[];
+  orders: ScheduledOrder[];
+}
+
+// Статусы, которые ещё занимают мощность цеха
+const SCHEDULED_STATUSES = ["Новый", "В производстве"];
+// Дальше года не планируем — при нулевой мощности очередь не кончится
+const HORIZON_DAYS = 366;
+const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+const EPSILON = 1e-6;
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+// ISO-день недели: 1 — понедельник, 7 — воскресенье
+const isoWeekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay() || 7;
+
+export function parseWorkingDays(value: string | null | undefined): number[] {
+  try {
+    const days = JSON.parse(value || "");
+    if (Array.isArray(days) && days.every((d) => Number.isInteger(d) && d >= 1 && d <= 7)) {
+      return days;
+    }
+  } catch {
+    // битое значение — обычная пятидневка
+  }
+  return DEFAULT_WORKING_DAYS;
+}
+
+/**
+ * Нагрузка створки в единицах мощности. Товарные позиции в цех не идут;
+ * створка без коэффициента (заказ из мобильного приложения) считается
+ * за единицу.
+ */
+export function sashLoad(sash: OrderSash, unit: CapacityUnit): number {
+  if (sash.componentId && !sash.systemId && !sash.fabricId) return 0;
+  if (unit === "sashes") return 1;
+  return parseFloat(sash.coefficient?.toString() || "0") || 1;
+}
+
+/**
+ * Раскладывает очередь заказов по дням: сначала ближайшие сроки, заказы
+ * без срока — в конце, по дате заказа. Заказ может занять несколько дней.
+ */
+export function buildSchedule(params: {
+  from: string;
+  days: number;
+  dailyCapacity: number;
+  workingDays: number[];
+  exceptions: ProductionCalendarDay[];
+  orders: { order: Order; load: number }[];
+}): { days: ScheduleDay[]; orders: ScheduledOrder[] } {
+  const { from, dailyCapacity, workingDays, exceptions } = params;
+  const exceptionByDate = new Map(exceptions.map((e) => [e.date, e]));
+  const capacityOf = (date: string) => {
+    const exception = exceptionByDate.get(date);
+    if (exception) return parseFloat(exception.capacity);
+    return workingDays.includes(isoWeekday(date)) ? dailyCapacity : 0;
+  };
+
+  const planned = new Map<string, number>();
+  const due = new Map<string, number>();
+  const overbooked = new Set<string>();
+  const add = (map: Map<string, number>, date: string, value: number) =>
+    map.set(date, (map.get(date) || 0) + value);
+
+  const queue = params.orders.slice().sort(
+    (a, b) =>
+      (a.order.dueDate || "9999-12-31").localeCompare(b.order.dueDate || "9999-12-31") ||
+      a.order.date.localeCompare(b.order.date) ||
+      a.order.orderNumber - b.order.orderNumber
+  );
+
+  let dayIndex = 0;
+  let used = 0;
+  const orders: ScheduledOrder[] = queue.map(({ order, load }) => {
+    let remaining = load;
+    let startDate: string | null = null;
+    let endDate = from;
+    while (remaining > EPSILON && dayIndex < HORIZON_DAYS) {
+      const date = addDays(from, dayIndex);
+      const free = capacityOf(date) - used;
+      if (free <= EPSILON) {
+        dayIndex++;
+        used = 0;
+        continue;
+      }
+      const take = Math.min(free, remaining);
+      used += take;
+      remaining -= take;
+      add(planned, date, take);
+      if (!startDate) startDate = date;
+      endDate = date;
+    }
+    const readyDate = remaining > EPSILON ? null : endDate;
+    const late = !!order.dueDate && (readyDate === null || readyDate > order.dueDate);
+    if (order.dueDate) {
+      // Просроченный срок — уже сегодняшняя проблема
+      const dueDay = order.dueDate < from ? from : order.dueDate;
+      add(due, dueDay, load);
+      if (late) overbooked.add(dueDay);
+    }
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      dealerId: order.dealerId,
+      status: order.status,
+      dueDate: order.dueDate,
+      load,
+      startDate,
+      readyDate,
+      late,
+    };
+  });
+
+  const days = Array.from({ length: params.days }, (_, i) => {
+    const date = addDays(from, i);
+    const exception = exceptionByDate.get(date);
+    return {
+      date,
+      capacity: capacityOf(date),
+      planned: planned.get(date) || 0,
+      due: due.get(date) || 0,
+      overbooked: overbooked.has(date),
+      exception: !!exception,
+      comment: exception?.comment ?? null,
+    };
+  });
+
+  return { days, orders };
+}
+
+/**
+ * План цеха на days дней вперёд. Упакованные створки (этапы цеха) мощность
+ * уже не занимают.
+ */
+export async function loadProductionSchedule(
+  userId: string,
+  days = 28
+): Promise<ProductionSchedule> {
+  const owner = await storage.getUser(userId);
+  const capacityUnit = (owner?.capacityUnit as CapacityUnit) || "sashes";
+  const dailyCapacity = owner?.dailyCapacity ? parseFloat(owner.dailyCapacity) : null;
+  const workingDays = parseWorkingDays(owner?.workingDays);
+  if (!dailyCapacity) {
+    return { configured: false, capacityUnit, dailyCapacity, workingDays, days: [], orders: [] };
+  }
+
+  const from = today();
+  const orderList = (await storage.getOrders(userId)).filter((o) =>
+    SCHEDULED_STATUSES.includes(o.status || "Новый")
+  );
+  const [exceptions, stageEvents] = await Promise.all([
+    storage.getProductionCalendarDays(userId, from, addDays(from, HORIZON_DAYS)),
+    storage.getSashStageEvents(orderList.map((o) => o.id)),
+  ]);
+  const packed = new Set(
+    stageEvents.filter((e) => e.stage === "packed").map((e) => e.sashId)
+  );
+
+  const loads = await Promise.all(
+    orderList.map(async (order) => {
+      const sashes = await storage.getOrderSashes(order.id);
+      const load = sashes
+        .filter((s) => !packed.has(s.id))
+        .reduce((sum, s) => sum + sashLoad(s, capacityUnit), 0);
+      return { order, load };
+    })
+  );
+
+  const schedule = buildSchedule({
+    from,
+    days,
+    dailyCapacity,
+    workingDays,
+    exceptions,
+    orders: loads.filter(({ load }) => load > 0),
+  });
+  return { configured: true, capacityUnit, dailyCapacity, workingDays, ...schedule };
+}
+
+/** Оценка готовности заказа по календарю цеха или null */
+export async function estimateReadyDate(order: Order): Promise<string | null> {
+  if (!SCHEDULED_STATUSES.includes(order.status || "Новый")) return null;
+  const schedule = await loadProductionSchedule(order.userId, 0);
+  return schedule.orders.find((o) => o.orderId === order.id)?.readyDate ?? null;
+}
+
+/**
+ * Предупреждение при сохранении заказа со сроком: по плану цеха заказ
+ * к сроку не успевает.
+ */
+export async function getDueDateWarnings(order: Order): Promise<string[]> {
+  if (!order.dueDate || !SCHEDULED_STATUSES.includes(order.status || "Новый")) {
+    return [];
+  }
+  const schedule = await loadProductionSchedule(order.userId, 0);
+  const scheduled = schedule.orders.find((o) => o.orderId === order.id);
+  if (!scheduled?.late) return [];
+  return [
+    scheduled.readyDate
+      ? `Цех перегружен: к сроку ${order.dueDate} заказ не успевает, по плану готов ${scheduled.readyDate}`
+      : `Цех перегружен: к сроку ${order.dueDate} заказ не успевает`,
+  ];
+}
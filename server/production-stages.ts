@@ -0,0 +1,186 @@
+import { storage } from "./storage";
+import { transitionOrderStatus } from "./order-status";
+import {
+  SASH_STAGES,
+  SASH_STAGE_LABELS,
+  type Order,
+  type OrderSash,
+  type SashStage,
+  type SashStageEvent,
+} from "@shared/schema";
+
+// Этапы цеха по створкам: раскрой → сборка → ОТК → упаковка. Створку
+// продвигают сканом этикетки; когда упакована последняя створка, заказ
+// переходит в "Готов" по обычной таблице переходов.
+
+export type SashStageEventDetails = SashStageEvent & {
+  orderId: string;
+  workerName: string | null;
+};
+
+// Сколько створок заказа прошли каждый этап
+export type StageProgress = Record<SashStage, number>;
+
+export interface SashStages {
+  sash: OrderSash;
+  order: Pick<Order, "id" | "orderNumber" | "status">;
+  events: SashStageEventDetails[];
+  nextStage: SashStage | null;
+  progress: StageProgress;
+  totalCount: number;
+}
+
+export type StageResult =
+  | { ok: true; event: SashStageEvent; order: Order; statusError?: string }
+  | { ok: false; status: number; body: { message: string } & Record<string, unknown> };
+
+// Отмечать этапы можно, пока заказ в производстве
+const STAGED_STATUS = "В производстве";
+
+/** Первый неотмеченный этап створки или null, если она упакована */
+export function getNextSashStage(
+  events: Pick<SashStageEvent, "stage">[]
+): SashStage | null {
+  const done = new Set(events.map((e) => e.stage));
+  return SASH_STAGES.find((stage) => !done.has(stage)) ?? null;
+}
+
+export function getStageProgress(
+  events: Pick<SashStageEvent, "sashId" | "stage">[]
+): StageProgress {
+  const progress = Object.fromEntries(
+    SASH_STAGES.map((stage) => [stage, 0])
+  ) as StageProgress;
+  for (const event of events) {
+    if (event.stage in progress) progress[event.stage as SashStage]++;
+  }
+  return progress;
+}
+
+export async function loadSashStages(
+  order: Order,
+  sash: OrderSash
+): Promise<SashStages> {
+  const [sashes, events] = await Promise.all([
+    storage.getOrderSashes(order.id),
+    storage.getSashStageEvents([order.id]),
+  ]);
+  const sashEvents = events.filter((e) => e.sashId === sash.id);
+  return {
+    sash,
+    order: { id: order.id, orderNumber: order.orderNumber, status: order.status },
+    events: sashEvents,
+    nextStage: getNextSashStage(sashEvents),
+    progress: getStageProgress(events),
+    totalCount: sashes.length,
+  };
+}
+
+/**
+ * Отмечает следующий этап створки. Если станция цеха передала свой этап,
+ * он должен совпасть со следующим — пропускать этапы нельзя. Упаковка
+ * последней створки переводит заказ в "Готов"; если переход не прошёл
+ * (например, не хватает материалов на списание), отметка остаётся, а
+ * причина возвращается в statusError.
+ */
+export async function advanceSashStage(params: {
+  userId: string;
+  actorId?: string;
+  order: Order;
+  sash: OrderSash;
+  stage?: SashStage;
+}): Promise<StageResult> {
+  const { userId, actorId, order, sash, stage } = params;
+
+  if (order.status !== STAGED_STATUS) {
+    return {
+      ok: false,
+      status: 400,
+      body: { message: `Заказ №${order.orderNumber} не в производстве — этапы не отмечаются` },
+    };
+  }
+
+  const events = await storage.getSashStageEvents([order.id]);
+  const sashEvents = events.filter((e) => e.sashId === sash.id);
+  const next = getNextSashStage(sashEvents);
+  if (!next) {
+    return { ok: false, status: 400, body: { message: "Створка уже упакована" } };
+  }
+  if (stage && stage !== next) {
+    const done = sashEvents.some((e) => e.stage === stage);
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        message: done
+          ? `Этап «${SASH_STAGE_LABELS[stage]}» уже отмечен`
+          : `Сначала отметьте этап «${SASH_STAGE_LABELS[next]}»`,
+        nextStage: next,
+      },
+    };
+  }
+
+  const event = await storage.createSashStageEvent({
+    sashId: sash.id,
+    stage: next,
+    workerId: actorId ?? null,
+    userId,
+  });
+  if (!event) {
+    return {
+      ok: false,
+      status: 409,
+      body: { message: `Этап «${SASH_STAGE_LABELS[next]}» уже отмечен` },
+    };
+  }
+
+  if (next !== "packed") return { ok: true, event, order };
+
+  const sashes = await storage.getOrderSashes(order.id);
+  const packed = new Set(
+    events.filter((e) => e.stage === "packed").map((e) => e.sashId)
+  );
+  packed.add(sash.id);
+  if (!sashes.every((s) => packed.has(s.id))) return { ok: true, event, order };
+
+  const result = await transitionOrderStatus({
+    userId,
+    actorId,
+    orderId: order.id,
+    to: "Готов",
+  });
+  if (!result.ok) {
+    return { ok: true, event, order, statusError: result.body.message };
+  }
+  return { ok: true, event, order: result.order };
+}
+
+/** Снимает последнюю отметку створки — если отсканировали по ошибке */
+export async function revertSashStage(params: {
+  order: Order;
+  sash: OrderSash;
+}): Promise<StageResult> {
+  const { order, sash } = params;
+
+  if (order.status !== STAGED_STATUS) {
+    return {
+      ok: false,
+      status: 400,
+      body: { message: `Заказ №${order.orderNumber} не в производстве — отметку не снять` },
+    };
+  }
+
+  const events = (await storage.getSashStageEvents([order.id])).filter(
+    (e) => e.sashId === sash.id
+  );
+  const last = SASH_STAGES.slice()
+    .reverse()
+    .map((stage) => events.find((e) => e.stage === stage))
+    .find((e) => !!e);
+  if (!last) {
+    return { ok: false, status: 400, body: { message: "У створки нет отметок" } };
+  }
+
+  await storage.deleteSashStageEvent(last.id);
+  return { ok: true, event: last, order };
+}
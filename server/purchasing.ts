@@ -0,0 +1,227 @@
+import { storage } from "./storage";
+import { getStockSnapshot, type StockEntry } from "./stock";
+import type {
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+} from "@shared/schema";
+
+// Предложения закупки: позиции, у которых свободный остаток (с учётом уже
+// оформленных черновиков поступлений) опустился ниже точки заказа.
+
+export interface PurchaseSuggestionItem {
+  itemType: "fabric" | "component";
+  itemId: string;
+  name: string;
+  unit: string;
+  quantity: number;
+  reserved: number;
+  available: number;
+  incoming: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+  suggestedQuantity: number;
+  price: number;
+  total: number;
+}
+
+export interface PurchaseSuggestionGroup {
+  supplierId: string | null;
+  supplierName: string | null;
+  items: PurchaseSuggestionItem[];
+  total: number;
+}
+
+interface ReorderSettings {
+  reorderPoint: string | null;
+  reorderQuantity: string | null;
+  preferredSupplierId: string | null;
+}
+
+// Сколько заказать: не меньше партии заказа и не меньше, чем нужно до точки заказа
+function getShortfall(
+  settings: ReorderSettings,
+  stock: StockEntry | undefined,
+  incoming: number
+) {
+  const reorderPoint = parseFloat(settings.reorderPoint?.toString() || "0");
+  if (reorderPoint <= 0) return null;
+
+  const available = stock?.available ?? 0;
+  const projected = available + incoming;
+  if (projected >= reorderPoint) return null;
+
+  const reorderQuantity = parseFloat(settings.reorderQuantity?.toString() || "0");
+  return {
+    reorderPoint,
+    reorderQuantity,
+    suggestedQuantity: Math.max(reorderQuantity, reorderPoint - projected),
+  };
+}
+
+export async function getPurchaseSuggestions(
+  userId: string
+): Promise<PurchaseSuggestionGroup[]> {
+  const [snapshot, allFabrics, allComponents, allSuppliers, draftItems, openOrderItems] =
+    await Promise.all([
+      getStockSnapshot(userId),
+      storage.getFabrics(userId),
+      storage.getComponents(userId),
+      storage.getSuppliers(userId),
+      storage.getDraftReceiptItems(userId),
+      getOpenPurchaseOrderItems(userId),
+    ]);
+
+  const incoming: Record<string, number> = {};
+  const addIncoming = (
+    item: { fabricId: string | null; componentId: string | null },
+    quantity: number
+  ) => {
+    const key = item.fabricId ? `fabric:${item.fabricId}` : `component:${item.componentId}`;
+    incoming[key] = (incoming[key] || 0) + quantity;
+  };
+  // Черновик поступления по строке открытого заказа поставщику уже входит
+  // в её остаток к получению — второй раз его не считаем
+  const openLineIds = new Set(openOrderItems.map((line) => line.id));
+  for (const item of draftItems) {
+    if (item.purchaseOrderItemId && openLineIds.has(item.purchaseOrderItemId)) continue;
+    addIncoming(item, parseFloat(item.quantity?.toString() || "0"));
+  }
+  for (const item of openOrderItems) {
+    addIncoming(item, item.remainingQuantity);
+  }
+
+  const candidates = [
+    ...allFabrics.map((f) => ({
+      itemType: "fabric" as const,
+      item: f,
+      unit: "м²",
+      stock: snapshot.fabricStock[f.id],
+    })),
+    ...allComponents.map((c) => ({
+      itemType: "component" as const,
+      item: c,
+      unit: c.unit || "шт",
+      stock: snapshot.componentStock[c.id],
+    })),
+  ];
+
+  const shortfalls = candidates
+    .map((candidate) => {
+      const itemIncoming = incoming[`${candidate.itemType}:${candidate.item.id}`] || 0;
+      const shortfall = getShortfall(candidate.item, candidate.stock, itemIncoming);
+      return shortfall && { ...candidate, itemIncoming, shortfall };
+    })
+    .filter((c): c is NonNullable<typeof c> => !!c);
+  const previousPrices = await storage.getPreviousPrices(
+    userId,
+    shortfalls.map((c) => ({ itemType: c.itemType, itemId: c.item.id }))
+  );
+
+  const groups = new Map<string | null, PurchaseSuggestionGroup>();
+
+  for (const { itemType, item, unit, stock, itemIncoming, shortfall } of shortfalls) {
+    const previousPrice = previousPrices[`${itemType}:${item.id}`];
+    const price = parseFloat(previousPrice || "0") || stock?.lastPrice || 0;
+
+    const supplierId = item.preferredSupplierId ?? null;
+    let group = groups.get(supplierId);
+    if (!group) {
+      group = {
+        supplierId,
+        supplierName: allSuppliers.find((s) => s.id === supplierId)?.name ?? null,
+        items: [],
+        total: 0,
+      };
+      groups.set(supplierId, group);
+    }
+
+    const total = shortfall.suggestedQuantity * price;
+    group.items.push({
+      itemType,
+      itemId: item.id,
+      name: item.name,
+      unit,
+      quantity: stock?.quantity ?? 0,
+      reserved: stock?.reserved ?? 0,
+      available: stock?.available ?? 0,
+      incoming: itemIncoming,
+      ...shortfall,
+      price,
+      total,
+    });
+    group.total += total;
+  }
+
+  // Группа без поставщика — в конце
+  return Array.from(groups.values()).sort((a, b) => {
+    if (!a.supplierId) return 1;
+    if (!b.supplierId) return -1;
+    return (a.supplierName || "").localeCompare(b.supplierName || "");
+  });
+}
+
+// ===== Заказы поставщикам =====
+
+export interface PurchaseOrderLine extends PurchaseOrderItem {
+  receivedQuantity: number;
+  remainingQuantity: number;
+}
+
+export const OPEN_PURCHASE_ORDER_STATUSES: readonly PurchaseOrderStatus[] = [
+  "sent",
+  "partially_received",
+];
+
+// Строки заказа с количеством, уже полученным по проведённым поступлениям
+export async function getPurchaseOrderLines(
+  purchaseOrderId: string
+): Promise<PurchaseOrderLine[]> {
+  const [items, received] = await Promise.all([
+    storage.getPurchaseOrderItems(purchaseOrderId),
+    storage.getPurchaseOrderReceivedQuantities(purchaseOrderId),
+  ]);
+  return items.map((item) => {
+    const receivedQuantity = received[item.id] || 0;
+    return {
+      ...item,
+      receivedQuantity,
+      remainingQuantity: Math.max(0, parseFloat(item.quantity) - receivedQuantity),
+    };
+  });
+}
+
+// Ещё не поступившие строки отправленных заказов — учитываются как «в пути»
+async function getOpenPurchaseOrderItems(userId: string): Promise<PurchaseOrderLine[]> {
+  const orders = await storage.getPurchaseOrders(userId);
+  const open = orders.filter((o) =>
+    OPEN_PURCHASE_ORDER_STATUSES.includes(o.status as PurchaseOrderStatus)
+  );
+  const lines = await Promise.all(open.map((o) => getPurchaseOrderLines(o.id)));
+  return lines.flat().filter((l) => l.remainingQuantity > 0);
+}
+
+/**
+ * Пересчитать статус заказа поставщику по полученным количествам.
+ * Черновик и закрытый заказ не меняются: закрытие — окончательное,
+ * в том числе ручное закрытие с недопоставкой.
+ */
+export async function refreshPurchaseOrderStatus(
+  purchaseOrderId: string
+): Promise<PurchaseOrder | undefined> {
+  const order = await storage.getPurchaseOrder(purchaseOrderId);
+  if (!order || !OPEN_PURCHASE_ORDER_STATUSES.includes(order.status as PurchaseOrderStatus)) {
+    return order;
+  }
+
+  const lines = await getPurchaseOrderLines(order.id);
+  let status: PurchaseOrderStatus = "sent";
+  if (lines.length > 0 && lines.every((l) => l.remainingQuantity <= 1e-9)) {
+    status = "closed";
+  } else if (lines.some((l) => l.receivedQuantity > 0)) {
+    status = "partially_received";
+  }
+
+  if (status === order.status) return order;
+  return storage.updatePurchaseOrder(order.id, { status });
+}
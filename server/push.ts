@@ -0,0 +1,54 @@
+// Push dispatcher: routes every device token to its provider — iOS to APNs
+// (apns.ts), Android to FCM (fcm.ts) — and returns one result per token.
+// Callers (notifications.ts) don't need to know which provider a device uses.
+
+import { sendApns, setApnsDeadTokenCleanup, type ApnsPayload } from "./apns";
+import { sendFcm, setFcmDeadTokenCleanup } from "./fcm";
+import type { DevicePlatform } from "@shared/schema";
+
+export type PushPayload = ApnsPayload;
+
+export interface PushSendResult {
+  token: string;
+  platform: DevicePlatform;
+  ok: boolean;
+  status?: number;
+  reason?: string;
+}
+
+/** Dead-token cleanup for both providers; platform tells which row to drop */
+export function setPushDeadTokenCleanup(
+  fn: (token: string, platform: DevicePlatform) => Promise<void>
+): void {
+  setApnsDeadTokenCleanup((token) => fn(token, "ios"));
+  setFcmDeadTokenCleanup((token) => fn(token, "android"));
+}
+
+export async function sendPush(
+  tokens: Array<{ token: string; platform: DevicePlatform }>,
+  payload: PushPayload
+): Promise<PushSendResult[]> {
+  const ios = tokens.filter((t) => t.platform === "ios");
+  const android = tokens.filter((t) => t.platform === "android");
+
+  // One provider failing must not lose the other's results
+  const [apnsResults, fcmResults] = await Promise.all([
+    ios.length > 0
+      ? sendApns(ios, payload).catch((err) => {
+          console.error("[push] APNs error:", err);
+          return [];
+        })
+      : [],
+    android.length > 0
+      ? sendFcm(android, payload).catch((err) => {
+          console.error("[push] FCM error:", err);
+          return [];
+        })
+      : [],
+  ]);
+
+  return [
+    ...apnsResults.map((r) => ({ ...r, platform: "ios" as const })),
+    ...fcmResults.map((r) => ({ ...r, platform: "android" as const })),
+  ];
+}
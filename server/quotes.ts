@@ -0,0 +1,309 @@
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  createCoefficientLookup,
+  getActiveCoefficientVersion,
+  systemCoefficientPolicy,
+  validateSashCoefficients,
+} from "./coefficients";
+import { getDealerPriceTier } from "./pricing";
+import { logAudit } from "./audit";
+import { fallbackSashRate, isZebraSystem, priceSashes } from "@shared/pricing";
+import {
+  orders,
+  orderSashes,
+  quotes,
+  type Dealer,
+  type InsertQuoteRevision,
+  type InsertQuoteSash,
+  type Order,
+  type Quote,
+  type QuoteRevision,
+  type QuoteRevisionForm,
+  type QuoteSash,
+} from "@shared/schema";
+
+// Расчёты (КП) для дилеров: каждая правка — новая редакция со своими
+// створками и ценами; принятие последней редакции создаёт заказ.
+
+export interface QuoteSashDetails extends QuoteSash {
+  systemName: string | null;
+  fabricName: string | null;
+}
+
+export interface QuoteRevisionDetails extends QuoteRevision {
+  sashes: QuoteSashDetails[];
+}
+
+export interface QuoteDetails extends Quote {
+  dealerName: string | null;
+  orderNumber: number | null;
+  revisions: QuoteRevisionDetails[];
+  // Последняя редакция — её и принимает дилер
+  current: QuoteRevisionDetails | null;
+  isExpired: boolean;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export function isRevisionExpired(revision: QuoteRevision | null): boolean {
+  return !!revision && revision.validUntil < today();
+}
+
+/**
+ * Цены редакции: коэффициент по сетке системы, цена створки — по прайс-листу
+ * дилера (или его тарифам), затем скидка редакции на итог.
+ * Размер, для которого сетка не даёт коэффициента, — ошибка.
+ */
+export async function priceQuoteRevision(
+  userId: string,
+  dealer: Dealer,
+  form: QuoteRevisionForm
+): Promise<{
+  revision: Omit<InsertQuoteRevision, "quoteId" | "revision">;
+  sashes: Omit<InsertQuoteSash, "revisionId">[];
+  errors: string[];
+}> {
+  const [systemList, fabricList] = await Promise.all([
+    storage.getSystems(userId),
+    storage.getFabrics(userId),
+  ]);
+
+  const lookup = await createCoefficientLookup(userId);
+
+  const errors: string[] = [];
+  const lookups = [];
+  for (const [index, sash] of Array.from(form.sashes.entries())) {
+    const system = systemList.find((s) => s.id === sash.systemId);
+    const fabric = fabricList.find((f) => f.id === sash.fabricId);
+    if (!system?.systemKey || !fabric?.category) {
+      errors.push(`Створка ${index + 1}: для системы или ткани не задана таблица коэффициентов`);
+      continue;
+    }
+    const { coefficient, warnings } = lookup(
+      system.systemKey,
+      fabric.category,
+      sash.width / 100,
+      sash.height / 100,
+      systemCoefficientPolicy(system)
+    );
+    if (coefficient === null) {
+      errors.push(
+        `Створка ${index + 1}: ${warnings[0]?.message || "коэффициент не найден"}`
+      );
+      continue;
+    }
+    lookups.push({ sash, system, fabric, coefficient });
+  }
+  if (errors.length > 0) {
+    return { revision: { subtotal: "0", total: "0", validUntil: form.validUntil }, sashes: [], errors };
+  }
+
+  const pricing = priceSashes(
+    await getDealerPriceTier(dealer),
+    lookups.map(({ system, fabric, coefficient }) => {
+      const isZebra = isZebraSystem(system.systemKey);
+      return {
+        coefficient,
+        isZebra,
+        category: fabric.category,
+        fallbackRate: fallbackSashRate(dealer, isZebra),
+      };
+    })
+  );
+  const discountPercent = form.discountPercent ?? 0;
+  const total = pricing.total * (1 - discountPercent / 100);
+
+  return {
+    revision: {
+      subtotal: pricing.total.toFixed(2),
+      discountPercent: discountPercent.toString(),
+      total: total.toFixed(2),
+      validUntil: form.validUntil,
+      comment: form.comment || null,
+    },
+    sashes: lookups.map(({ sash, coefficient }, index) => ({
+      width: sash.width.toString(),
+      height: sash.height.toString(),
+      systemId: sash.systemId,
+      fabricId: sash.fabricId,
+      controlSide: sash.controlSide || null,
+      coefficient: coefficient.toFixed(2),
+      sashPrice: pricing.sashes[index].price.toFixed(2),
+      room: sash.room || 1,
+      roomName: sash.roomName || null,
+    })),
+    errors: [],
+  };
+}
+
+/**
+ * Расчёты с редакциями и створками; названия систем и тканей —
+ * из справочников рабочего пространства
+ */
+export async function loadQuoteDetails(
+  userId: string,
+  quoteList: Quote[]
+): Promise<QuoteDetails[]> {
+  if (quoteList.length === 0) return [];
+
+  const revisions = await storage.getQuoteRevisions(quoteList.map((q) => q.id));
+  const [sashes, dealerList, systemList, fabricList, orderList] = await Promise.all([
+    storage.getQuoteSashes(revisions.map((r) => r.id)),
+    storage.getDealers(userId),
+    storage.getSystems(userId),
+    storage.getFabrics(userId),
+    Promise.all(
+      quoteList
+        .filter((q) => q.orderId)
+        .map((q) => storage.getOrder(q.orderId!))
+    ),
+  ]);
+
+  return quoteList.map((quote) => {
+    const quoteRevisions = revisions
+      .filter((r) => r.quoteId === quote.id)
+      .map((revision) => ({
+        ...revision,
+        sashes: sashes
+          .filter((s) => s.revisionId === revision.id)
+          .map((s) => ({
+            ...s,
+            systemName: systemList.find((sys) => sys.id === s.systemId)?.name ?? null,
+            fabricName: fabricList.find((f) => f.id === s.fabricId)?.name ?? null,
+          })),
+      }));
+    const current = quoteRevisions[quoteRevisions.length - 1] ?? null;
+
+    return {
+      ...quote,
+      dealerName: dealerList.find((d) => d.id === quote.dealerId)?.fullName ?? null,
+      orderNumber: orderList.find((o) => o?.id === quote.orderId)?.orderNumber ?? null,
+      revisions: quoteRevisions,
+      current,
+      isExpired: quote.status === "open" && isRevisionExpired(current),
+    };
+  });
+}
+
+/**
+ * Коэффициенты створок редакции по действующей сетке: между выпуском
+ * редакции и принятием сетка могла смениться
+ */
+export async function validateQuoteCoefficients(quote: QuoteDetails): Promise<string[]> {
+  const sashes = quote.current?.sashes ?? [];
+  const { errors } = await validateSashCoefficients(
+    quote.userId,
+    sashes.map((s) => ({
+      width: s.width,
+      height: s.height,
+      systemId: s.systemId ?? undefined,
+      fabricId: s.fabricId ?? undefined,
+    }))
+  );
+  return errors;
+}
+
+/**
+ * Принятие расчёта: заказ "Новый" по последней редакции, скидка редакции
+ * разносится по ценам створок. Проверка срока — на вызывающем.
+ * Расчёт закрывается условно (status = 'open') в одной транзакции с
+ * созданием заказа: из CRM и из приложения дилера заказ создаётся один раз.
+ * null — расчёт уже закрыт.
+ */
+export async function acceptQuote(
+  quote: QuoteDetails,
+  actor: { actorId?: string; source: "crm" | "mobile" },
+  // Подтверждённые предупреждения по коэффициентам — в аудит заказа
+  coefficientWarnings: string[] = []
+): Promise<Order | null> {
+  const revision = quote.current!;
+  const discountFactor = 1 - parseFloat(revision.discountPercent || "0") / 100;
+  const coefficientVersionId =
+    (await getActiveCoefficientVersion(quote.userId))?.id ?? null;
+
+  const accepted = await db.transaction(async (tx) => {
+    const [closed] = await tx
+      .update(quotes)
+      .set({ status: "accepted", decidedAt: new Date() })
+      .where(and(eq(quotes.id, quote.id), eq(quotes.status, "open")))
+      .returning();
+    if (!closed) return null;
+
+    const [last] = await tx
+      .select({ maxNum: sql<number>`COALESCE(MAX(${orders.orderNumber}), 0)` })
+      .from(orders)
+      .where(eq(orders.userId, quote.userId));
+    const [order] = await tx
+      .insert(orders)
+      .values({
+        orderNumber: (last?.maxNum || 0) + 1,
+        date: today(),
+        status: "Новый",
+        dealerId: quote.dealerId,
+        salePrice: revision.total,
+        comment: [`Расчёт №${quote.number}`, quote.comment].filter(Boolean).join(" | "),
+        coefficientVersionId,
+        userId: quote.userId,
+      })
+      .returning();
+
+    if (revision.sashes.length > 0) {
+      await tx.insert(orderSashes).values(
+        revision.sashes.map((sash) => ({
+          orderId: order.id,
+          width: sash.width,
+          height: sash.height,
+          systemId: sash.systemId,
+          fabricId: sash.fabricId,
+          controlSide: sash.controlSide,
+          coefficient: sash.coefficient,
+          sashPrice: (parseFloat(sash.sashPrice || "0") * discountFactor).toFixed(2),
+          room: sash.room,
+          roomName: sash.roomName,
+        }))
+      );
+    }
+
+    const [updated] = await tx
+      .update(quotes)
+      .set({ orderId: order.id })
+      .where(eq(quotes.id, quote.id))
+      .returning();
+    return { order, updated };
+  });
+  if (!accepted) return null;
+  const { order, updated } = accepted;
+
+  logAudit({
+    userId: quote.userId,
+    actorId: actor.actorId,
+    action: "status_change",
+    entityType: "quote",
+    entityId: quote.id,
+    before: { status: quote.status },
+    after: { status: updated?.status, orderId: order.id },
+    metadata: {
+      source: actor.source,
+      revision: revision.revision,
+      orderNumber: order.orderNumber,
+    },
+  });
+  logAudit({
+    userId: quote.userId,
+    actorId: actor.actorId,
+    action: "create",
+    entityType: "order",
+    entityId: order.id,
+    after: order,
+    metadata: {
+      source: "quote_accept",
+      quoteId: quote.id,
+      orderNumber: order.orderNumber,
+      ...(coefficientWarnings.length > 0 && { coefficientWarnings }),
+    },
+  });
+
+  return order;
+}
@@ -0,0 +1,111 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { logAudit } from "./audit";
+import type { User } from "@shared/schema";
+
+// Доступ к финансовым отчётам по паролю отчётов. После ввода пароля
+// сессия получает разрешение на reportAccessMinutes минут (настройка
+// владельца); отчёты и финансовые цифры сводки проверяют его на сервере.
+// Если пароль отчётов не установлен, доступ открыт всегда.
+
+export interface ReportAccessGrant {
+  // Рабочее пространство, для которого введён пароль
+  userId: string;
+  expiresAt: number;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    reportAccess?: ReportAccessGrant;
+  }
+}
+
+interface ReportAccessRequest extends Request {
+  userId?: string;
+  actorId?: string;
+}
+
+export interface ReportAccessState {
+  required: boolean;
+  unlocked: boolean;
+  expiresAt: string | null;
+}
+
+function activeGrant(req: ReportAccessRequest): ReportAccessGrant | null {
+  const grant = req.session?.reportAccess;
+  if (!grant || grant.userId !== req.userId || grant.expiresAt <= Date.now()) {
+    return null;
+  }
+  return grant;
+}
+
+/** Состояние доступа для текущей сессии; owner — владелец рабочего пространства */
+export function reportAccessState(
+  req: ReportAccessRequest,
+  owner: Pick<User, "reportPassword"> | undefined
+): ReportAccessState {
+  if (!owner?.reportPassword) {
+    return { required: false, unlocked: true, expiresAt: null };
+  }
+  const grant = activeGrant(req);
+  return {
+    required: true,
+    unlocked: !!grant,
+    expiresAt: grant ? new Date(grant.expiresAt).toISOString() : null,
+  };
+}
+
+export async function getReportAccess(req: ReportAccessRequest): Promise<ReportAccessState> {
+  return reportAccessState(req, await storage.getUser(req.userId!));
+}
+
+/**
+ * Выдаёт сессии разрешение после проверки пароля и пишет разблокировку
+ * в историю изменений.
+ */
+export function grantReportAccess(req: ReportAccessRequest, owner: User): Date {
+  const expiresAt = new Date(Date.now() + owner.reportAccessMinutes * 60 * 1000);
+  req.session.reportAccess = { userId: owner.id, expiresAt: expiresAt.getTime() };
+  logAudit({
+    userId: owner.id,
+    actorId: req.actorId,
+    action: "unlock",
+    entityType: "report_access",
+    entityId: req.actorId ?? owner.id,
+    metadata: {
+      expiresAt: expiresAt.toISOString(),
+      minutes: owner.reportAccessMinutes,
+      ip: req.ip,
+    },
+  });
+  return expiresAt;
+}
+
+export function revokeReportAccess(req: ReportAccessRequest) {
+  delete req.session.reportAccess;
+}
+
+/**
+ * Пропускает запрос только с действующим разрешением. Ставится после
+ * authMiddleware и requirePermission; 403 с requiresPassword — клиент
+ * показывает ввод пароля.
+ */
+export async function requireReportAccess(
+  req: ReportAccessRequest,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const access = await getReportAccess(req);
+    if (!access.unlocked) {
+      return res.status(403).json({
+        message: "Отчёты заблокированы — введите пароль отчётов",
+        requiresPassword: true,
+      });
+    }
+    next();
+  } catch (error) {
+    console.error(`[${req.method} ${req.path}] report access:`, error);
+    res.status(500).json({ message: "Ошибка сервера" });
+  }
+}
@@ -9,6 +9,11 @@ import { storage } from "./storage";
 import {
   loginSchema,
   registerSchema,
+  type StaffRole,
+  COSTING_METHODS,
+  REPORT_ACCESS_MINUTES,
+  notificationPreferencesFormSchema,
+  DEVICE_PLATFORMS,
   colors,
   fabrics,
   dealers,
@@ -23,12 +28,56 @@ import { db } from "./db";
 import { eq, and, sql, desc, sum } from "drizzle-orm";
 import pg from "pg";
 import { logAudit } from "./audit";
-import { generatePeriodicNotifications, notifyDealer } from "./notifications";
+import { requirePermission } from "./permissions";
+import {
+  notifyDealer,
+  getNotificationSettings,
+  withWorkspaceThresholds,
+} from "./notifications";
+import { getMailTransport } from "./mailer";
+import { getStockSnapshot, getStockLevels } from "./stock";
+import {
+  getCostingMethod,
+  getInventoryValuation,
+  getFifoValue,
+  getUnitCosts,
+  itemKey,
+} from "./costing";
 import { createDealerMobileRouter } from "./routes/dealer-mobile";
+import { createFilesRouter } from "./routes/files";
+import { withSignedFileUrls } from "./uploads";
 import { createReferencesRouter } from "./routes/references";
+import { createCoefficientsRouter } from "./routes/coefficients";
+import { createPriceTiersRouter } from "./routes/price-tiers";
+import { createQuotesRouter } from "./routes/quotes";
+import { createShipmentsRouter } from "./routes/shipments";
+import { createProductionStagesRouter } from "./routes/production-stages";
+import { createProductionCalendarRouter } from "./routes/production-calendar";
+import { createInstallationsRouter } from "./routes/installations";
+import { getShippedSalesByDealer } from "./shipments";
+import { getActiveCoefficientVersion, validateSashCoefficients } from "./coefficients";
+import { getDealerPriceTier } from "./pricing";
+import { fallbackSashRate, priceSashes, isZebraSystem } from "@shared/pricing";
+import {
+  getOrderSalesLines,
+  isRecognizedSalesLine,
+  isReversedOrderStatus,
+} from "@shared/order-status";
 import { createFinanceRouter } from "./routes/finance";
 import { createWarehouseRouter } from "./routes/warehouse";
+import { createPurchaseOrdersRouter } from "./routes/purchase-orders";
 import { createOrdersRouter } from "./routes/orders";
+import { createPrintRouter } from "./routes/print";
+import { createStaffRouter } from "./routes/staff";
+import { createJobsRouter } from "./routes/jobs";
+import { startJobScheduler } from "./jobs";
+import {
+  getReportAccess,
+  grantReportAccess,
+  reportAccessState,
+  requireReportAccess,
+  revokeReportAccess,
+} from "./report-access";
 
 if (!process.env.SESSION_SECRET) {
   throw new Error("SESSION_SECRET environment variable is required");
@@ -43,28 +92,48 @@ const pgPool = new pg.Pool({
 
 interface AuthRequest extends Request {
   userId?: string;
+  actorId?: string;
+  role?: StaffRole;
 }
 
 declare module "express-session" {
   interface SessionData {
     token?: string;
-    reportAccessGranted?: boolean;
   }
 }
 
-// Authentication middleware
-function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+// Authentication middleware.
+// req.userId — владелец рабочего пространства (по нему скоупятся все таблицы),
+// req.actorId — вошедший пользователь, req.role — его роль в организации.
+async function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   const token = req.session?.token;
   if (!token) {
     return res.status(401).json({ message: "Не авторизован" });
   }
+  let decoded: { userId: string };
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    req.userId = decoded.userId;
-    next();
+    decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
   } catch {
     return res.status(401).json({ message: "Неверный токен" });
   }
+  try {
+    const membership = await storage.getStaffMembershipByUserId(decoded.userId);
+    if (membership) {
+      if (!membership.member.isActive) {
+        return res.status(403).json({ message: "Учётная запись отключена" });
+      }
+      req.userId = membership.organization.ownerId;
+      req.role = membership.member.role as StaffRole;
+    } else {
+      req.userId = decoded.userId;
+      req.role = "owner";
+    }
+    req.actorId = decoded.userId;
+    next();
+  } catch (error) {
+    console.error("Auth middleware error:", error);
+    res.status(500).json({ message: "Ошибка сервера" });
+  }
 }
 
 export async function registerRoutes(
@@ -122,7 +191,15 @@ export async function registerRoutes(
       });
       (req.session as any).token = token;
 
-      res.json({ user: { id: user.id, email: user.email, name: user.name } });
+      res.json({
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: "owner",
+          organizationName: null,
+        },
+      });
     } catch (error) {
       console.error("Register error:", error);
       res.status(500).json({ message: "Ошибка сервера" });
@@ -149,12 +226,25 @@ export async function registerRoutes(
         return res.status(401).json({ message: "Неверный email или пароль" });
       }
 
+      const membership = await storage.getStaffMembershipByUserId(user.id);
+      if (membership && !membership.member.isActive) {
+        return res.status(403).json({ message: "Учётная запись отключена" });
+      }
+
       const token = jwt.sign({ userId: user.id }, JWT_SECRET, {
         expiresIn: "7d",
       });
       (req.session as any).token = token;
 
-      res.json({ user: { id: user.id, email: user.email, name: user.name } });
+      res.json({
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: membership ? membership.member.role : "owner",
+          organizationName: membership?.organization.name ?? null,
+        },
+      });
     } catch (error) {
       console.error("Login error:", error);
       res.status(500).json({ message: "Ошибка сервера" });
@@ -171,11 +261,23 @@ export async function registerRoutes(
     authMiddleware,
     async (req: AuthRequest, res: Response) => {
       try {
-        const user = await storage.getUser(req.userId!);
+        const user = await storage.getUser(req.actorId!);
         if (!user) {
           return res.status(401).json({ message: "Пользователь не найден" });
         }
-        res.json({ user: { id: user.id, email: user.email, name: user.name } });
+        const organization =
+          req.actorId !== req.userId
+            ? await storage.getOrganizationByOwner(req.userId!)
+            : undefined;
+        res.json({
+          user: {
+            id: user.id,
+            email: user.email,
+            name: user.name,
+            role: req.role,
+            organizationName: organization?.name ?? null,
+          },
+        });
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -187,6 +289,7 @@ export async function registerRoutes(
   app.get(
     "/api/dealers",
     authMiddleware,
+    requirePermission("dealers", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const data = await storage.getDealers(req.userId!);
@@ -201,6 +304,7 @@ export async function registerRoutes(
   app.post(
     "/api/dealers",
     authMiddleware,
+    requirePermission("dealers", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const data = { ...req.body, userId: req.userId };
@@ -221,6 +325,7 @@ export async function registerRoutes(
   app.patch(
     "/api/dealers/bulk-rates",
     authMiddleware,
+    requirePermission("dealers", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const { workshopRateRulon, workshopRateZebra } = req.body;
@@ -243,6 +348,7 @@ export async function registerRoutes(
   app.patch(
     "/api/dealers/:id",
     authMiddleware,
+    requirePermission("dealers", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const data = { ...req.body };
@@ -263,6 +369,7 @@ export async function registerRoutes(
   app.delete(
     "/api/dealers/:id",
     authMiddleware,
+    requirePermission("dealers", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.deleteDealer(req.params.id);
@@ -278,6 +385,7 @@ export async function registerRoutes(
   app.get(
     "/api/dealers/:id/stats",
     authMiddleware,
+    requirePermission("dealers", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const orders = await storage.getOrders(req.userId!);
@@ -289,7 +397,9 @@ export async function registerRoutes(
         );
 
         const totalOrders = dealerOrders.length;
-        const totalSales = dealerOrders.reduce(
+        const totalSales = dealerOrders
+          .filter((o) => !isReversedOrderStatus(o.status))
+          .reduce(
           (sum, o) => sum + parseFloat(o.salePrice?.toString() || "0"),
           0
         );
@@ -330,6 +440,8 @@ export async function registerRoutes(
   app.get(
     "/api/reports/dds",
     authMiddleware,
+    requirePermission("reports", "view"),
+    requireReportAccess,
     async (req: AuthRequest, res: Response) => {
       try {
         const from =
@@ -441,6 +553,8 @@ export async function registerRoutes(
   app.get(
     "/api/reports/profit",
     authMiddleware,
+    requirePermission("reports", "view"),
+    requireReportAccess,
     async (req: AuthRequest, res: Response) => {
       try {
         const status =
@@ -464,29 +578,35 @@ export async function registerRoutes(
             ? req.query.search
             : undefined;
 
+        // Период фильтруется по дате строки: сторно возврата — в дату возврата
         const orderList = await storage.getOrders(req.userId!, {
-          status: status || "Отгружен", // по умолчанию считаем только отгруженные
           dealerId,
-          from,
-          to,
           search,
         });
         const dealerList = await storage.getDealers(req.userId!);
 
-        const enrichedOrders = orderList.map((order) => ({
-          ...order,
-          dealer: dealerList.find((d) => d.id === order.dealerId),
+        const lines = getOrderSalesLines(orderList).filter(
+          (line) =>
+            // по умолчанию — отгруженные, а также сторно возвратов и брак
+            (!status || status === "Отгружен"
+              ? isRecognizedSalesLine(line)
+              : line.order.status === status) &&
+            (!from || line.date >= from) &&
+            (!to || line.date <= to)
+        );
+        lines.sort((a, b) => b.date.localeCompare(a.date));
+
+        const enrichedOrders = lines.map((line) => ({
+          ...line.order,
+          dealer: dealerList.find((d) => d.id === line.order.dealerId),
+          lineKind: line.kind,
+          date: line.date,
+          salePrice: line.sale.toFixed(2),
+          costPrice: line.cost.toFixed(2),
         }));
 
-        const totalSales = orderList.reduce(
-          (sum, order) => sum + parseFloat(order.salePrice?.toString() || "0"),
-          0
-        );
-
-        const totalCost = orderList.reduce(
-          (sum, order) => sum + parseFloat(order.costPrice?.toString() || "0"),
-          0
-        );
+        const totalSales = lines.reduce((sum, line) => sum + line.sale, 0);
+        const totalCost = lines.reduce((sum, line) => sum + line.cost, 0);
 
         const grossProfit = totalSales - totalCost;
         const profitMargin =
@@ -510,25 +630,18 @@ export async function registerRoutes(
   app.get(
     "/api/reports/ar-ap",
     authMiddleware,
+    requirePermission("reports", "view"),
+    requireReportAccess,
     async (req: AuthRequest, res: Response) => {
       try {
         const dealerList = await storage.getDealers(req.userId!);
         const supplierList = await storage.getSuppliers(req.userId!);
 
         // Calculate shipped-only balance for each dealer
+        // (частичные отгрузки — по отгруженным створкам)
+        const shippedSales = await getShippedSalesByDealer(req.userId!);
         const dealersWithShipped = await Promise.all(
           dealerList.map(async (dealer) => {
-            const shippedTotals = await db
-              .select({ total: sum(orders.salePrice) })
-              .from(orders)
-              .where(
-                and(
-                  eq(orders.dealerId, dealer.id),
-                  eq(orders.userId, req.userId!),
-                  eq(orders.status, "Отгружен")
-                )
-              );
-
             const paymentTotals = await db
               .select({ total: sum(financeOperations.amount) })
               .from(financeOperations)
@@ -541,7 +654,7 @@ export async function registerRoutes(
               );
 
             const opening = parseFloat(dealer.openingBalance?.toString() || "0");
-            const shippedTotal = parseFloat(shippedTotals[0]?.total?.toString() || "0");
+            const shippedTotal = shippedSales.get(dealer.id) || 0;
             const paymentTotal = parseFloat(paymentTotals[0]?.total?.toString() || "0");
             const shippedBalance = -(opening + shippedTotal - paymentTotal);
 
@@ -582,6 +695,8 @@ export async function registerRoutes(
   app.get(
     "/api/reports/cash-total",
     authMiddleware,
+    requirePermission("reports", "view"),
+    requireReportAccess,
     async (req: AuthRequest, res: Response) => {
       try {
         const cashboxList = await storage.getCashboxes(req.userId!);
@@ -598,21 +713,103 @@ export async function registerRoutes(
     }
   );
 
+  // Переоценка склада: стоимость остатка по средней за всё время (как
+  // считалось раньше) против FIFO и скользящей средней
+  app.get(
+    "/api/reports/stock-revaluation",
+    authMiddleware,
+    requirePermission("reports", "view"),
+    requireReportAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const [method, valuation, snapshot, allFabrics, allComponents] =
+          await Promise.all([
+            getCostingMethod(req.userId!),
+            getInventoryValuation(req.userId!),
+            getStockSnapshot(req.userId!),
+            storage.getFabrics(req.userId!),
+            storage.getComponents(req.userId!),
+          ]);
+
+        const items = [
+          ...allFabrics.map((f) => ({
+            itemType: "fabric" as const,
+            itemId: f.id,
+            name: f.name,
+            unit: "м²",
+            stock: snapshot.fabricStock[f.id],
+          })),
+          ...allComponents.map((c) => ({
+            itemType: "component" as const,
+            itemId: c.id,
+            name: c.name,
+            unit: c.unit || "шт",
+            stock: snapshot.componentStock[c.id],
+          })),
+        ]
+          .filter((i) => i.stock && Math.abs(i.stock.quantity) > 1e-9)
+          .map(({ stock, ...i }) => {
+            const v = valuation.get(itemKey(i.itemType, i.itemId));
+            const quantity = stock!.quantity;
+            const legacyValue = quantity * stock!.avgPrice;
+            const fifoValue = v ? getFifoValue(v) : 0;
+            const averageValue = v?.averageValue ?? 0;
+            const value = method === "fifo" ? fifoValue : averageValue;
+            return {
+              ...i,
+              quantity,
+              legacyUnitCost: stock!.avgPrice,
+              legacyValue,
+              fifoValue,
+              averageValue,
+              value,
+              difference: value - legacyValue,
+            };
+          })
+          .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+
+        const sumOf = (key: "legacyValue" | "fifoValue" | "averageValue" | "value") =>
+          items.reduce((sum, i) => sum + i[key], 0);
+
+        res.json({
+          method,
+          items,
+          totals: {
+            legacyValue: sumOf("legacyValue"),
+            fifoValue: sumOf("fifoValue"),
+            averageValue: sumOf("averageValue"),
+            value: sumOf("value"),
+            difference: sumOf("value") - sumOf("legacyValue"),
+          },
+        });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
   // ===== PROFILE =====
   app.get(
     "/api/profile",
     authMiddleware,
     async (req: AuthRequest, res: Response) => {
       try {
-        const user = await storage.getUser(req.userId!);
+        const user = await storage.getUser(req.actorId!);
         if (!user) {
           return res.status(404).json({ message: "Пользователь не найден" });
         }
+        // Пароль отчётов общий для рабочего пространства — хранится у владельца
+        const owner =
+          req.actorId === req.userId ? user : await storage.getUser(req.userId!);
         res.json({
           id: user.id,
           email: user.email,
           name: user.name,
-          hasReportPassword: !!user.reportPassword,
+          role: req.role,
+          hasReportPassword: !!owner?.reportPassword,
+          reportAccessMinutes: owner?.reportAccessMinutes ?? 30,
+          costingMethod: owner?.costingMethod ?? "average",
           createdAt: user.createdAt,
         });
       } catch (error) {
@@ -628,7 +825,7 @@ export async function registerRoutes(
     async (req: AuthRequest, res: Response) => {
       try {
         const { email, name, currentPassword, newPassword } = req.body;
-        const user = await storage.getUser(req.userId!);
+        const user = await storage.getUser(req.actorId!);
         if (!user) {
           return res.status(404).json({ message: "Пользователь не найден" });
         }
@@ -660,12 +857,17 @@ export async function registerRoutes(
           updateData.password = await bcrypt.hash(newPassword, SALT_ROUNDS);
         }
 
-        const updated = await storage.updateUser(req.userId!, updateData);
+        const updated = await storage.updateUser(req.actorId!, updateData);
+        const owner =
+          req.actorId === req.userId ? updated : await storage.getUser(req.userId!);
         res.json({
           id: updated?.id,
           email: updated?.email,
           name: updated?.name,
-          hasReportPassword: !!updated?.reportPassword,
+          role: req.role,
+          hasReportPassword: !!owner?.reportPassword,
+          reportAccessMinutes: owner?.reportAccessMinutes ?? 30,
+          costingMethod: owner?.costingMethod ?? "average",
         });
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
@@ -677,6 +879,7 @@ export async function registerRoutes(
   app.post(
     "/api/profile/report-password",
     authMiddleware,
+    requirePermission("settings", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const { reportPassword, currentPassword } = req.body;
@@ -708,9 +911,59 @@ export async function registerRoutes(
     }
   );
 
+  // Метод оценки списаний — общий для рабочего пространства, хранится у владельца
+  app.patch(
+    "/api/profile/costing-method",
+    authMiddleware,
+    requirePermission("settings", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { costingMethod } = req.body;
+        if (!COSTING_METHODS.includes(costingMethod)) {
+          return res.status(400).json({ message: "Некорректный метод учёта" });
+        }
+        const updated = await storage.updateUser(req.userId!, { costingMethod });
+        if (!updated) {
+          return res.status(404).json({ message: "Пользователь не найден" });
+        }
+        res.json({ costingMethod: updated.costingMethod });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Срок разблокировки отчётов — общий для рабочего пространства, хранится у владельца
+  app.patch(
+    "/api/profile/report-access-minutes",
+    authMiddleware,
+    requirePermission("settings", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const minutes = Number(req.body?.reportAccessMinutes);
+        if (!(REPORT_ACCESS_MINUTES as readonly number[]).includes(minutes)) {
+          return res.status(400).json({ message: "Некорректный срок доступа" });
+        }
+        const updated = await storage.updateUser(req.userId!, {
+          reportAccessMinutes: minutes,
+        });
+        if (!updated) {
+          return res.status(404).json({ message: "Пользователь не найден" });
+        }
+        res.json({ reportAccessMinutes: updated.reportAccessMinutes });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Пароль отчётов открывает сессии доступ на reportAccessMinutes минут
   app.post(
     "/api/verify-report-password",
     authMiddleware,
+    requirePermission("reports", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const { password } = req.body;
@@ -719,14 +972,45 @@ export async function registerRoutes(
           return res.status(404).json({ message: "Пользователь не найден" });
         }
         if (!user.reportPassword) {
-          req.session.reportAccessGranted = true;
-          return res.json({ valid: true });
+          return res.json({ valid: true, expiresAt: null });
         }
-        const valid = await bcrypt.compare(password, user.reportPassword);
-        if (valid) {
-          req.session.reportAccessGranted = true;
+        const valid =
+          typeof password === "string" &&
+          (await bcrypt.compare(password, user.reportPassword));
+        if (!valid) {
+          return res.json({ valid: false });
         }
-        res.json({ valid });
+        const expiresAt = grantReportAccess(req, user);
+        res.json({ valid: true, expiresAt: expiresAt.toISOString() });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Состояние доступа к отчётам для текущей сессии
+  app.get(
+    "/api/report-access",
+    authMiddleware,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        res.json(await getReportAccess(req));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Заблокировать отчёты раньше срока
+  app.post(
+    "/api/report-access/lock",
+    authMiddleware,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        revokeReportAccess(req);
+        res.json(await getReportAccess(req));
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -738,6 +1022,7 @@ export async function registerRoutes(
   app.get(
     "/api/search",
     authMiddleware,
+    requirePermission("orders", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const query = (req.query.q as string || "").trim().toLowerCase();
@@ -797,6 +1082,7 @@ export async function registerRoutes(
   app.get(
     "/api/dashboard",
     authMiddleware,
+    requirePermission("dashboard", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const year =
@@ -813,21 +1099,23 @@ export async function registerRoutes(
 
         const today = new Date().toISOString().split("T")[0];
 
+        // Суммы показываются только при открытом доступе к отчётам
+        const { unlocked } = await getReportAccess(req);
+        const money = (value: number) => (unlocked ? value : null);
+
         // Get all necessary data
         const [
           allOrders,
           allDealers,
           allFabrics,
           allComponents,
-          receipts,
-          writeoffs,
+          { fabricStock, componentStock },
         ] = await Promise.all([
           storage.getOrders(req.userId!),
           storage.getDealers(req.userId!),
           storage.getFabrics(req.userId!),
           storage.getComponents(req.userId!),
-          storage.getWarehouseReceipts(req.userId!),
-          storage.getWarehouseWriteoffs(req.userId!),
+          getStockSnapshot(req.userId!),
         ]);
 
         // Filter orders for the selected month
@@ -851,14 +1139,16 @@ export async function registerRoutes(
         const overdueDate = sevenDaysAgo.toISOString().split("T")[0];
 
         const overdueOrders = allOrders.filter(
-          (order) => order.status !== "Отгружен" && order.date < overdueDate
+          (order) =>
+            order.status !== "Отгружен" &&
+            !isReversedOrderStatus(order.status) &&
+            order.date < overdueDate
         );
 
-        // Calculate monthly sales
-        const monthlySales = monthOrders.reduce(
-          (sum, order) => sum + parseFloat(order.salePrice?.toString() || "0"),
-          0
-        );
+        // Calculate monthly sales (возвраты месяца — с минусом, отмены не в счёт)
+        const monthlySales = getOrderSalesLines(allOrders)
+          .filter((line) => line.date >= startDate && line.date <= endDate)
+          .reduce((sum, line) => sum + line.sale, 0);
 
         // Calculate sashes count for the month
         let totalSashesCount = 0;
@@ -887,89 +1177,28 @@ export async function registerRoutes(
           0
         );
 
-        // Calculate stock levels and find low stock items
-        const receiptItems: {
-          fabricId?: string | null;
-          componentId?: string | null;
-          quantity: string;
-          price: string;
-        }[] = [];
-        for (const receipt of receipts) {
-          const items = await storage.getWarehouseReceiptItems(receipt.id);
-          receiptItems.push(
-            ...items.map((item) => ({
-              fabricId: item.fabricId,
-              componentId: item.componentId,
-              quantity: item.quantity?.toString() || "0",
-              price: item.price?.toString() || "0",
-            }))
-          );
-        }
-
-        // Calculate fabric stock
-        const fabricStock: Record<
-          string,
-          { quantity: number; lastPrice: number }
-        > = {};
-        for (const item of receiptItems.filter((i) => i.fabricId)) {
-          const fabricId = item.fabricId!;
-          if (!fabricStock[fabricId]) {
-            fabricStock[fabricId] = { quantity: 0, lastPrice: 0 };
-          }
-          fabricStock[fabricId].quantity += parseFloat(item.quantity);
-          fabricStock[fabricId].lastPrice = parseFloat(item.price);
-        }
-        // Subtract writeoffs
-        for (const wo of writeoffs.filter((w) => w.fabricId)) {
-          if (fabricStock[wo.fabricId!]) {
-            fabricStock[wo.fabricId!].quantity -= parseFloat(
-              wo.quantity?.toString() || "0"
-            );
-          }
-        }
-
-        // Calculate component stock
-        const componentStock: Record<
-          string,
-          { quantity: number; lastPrice: number }
-        > = {};
-        for (const item of receiptItems.filter((i) => i.componentId)) {
-          const componentId = item.componentId!;
-          if (!componentStock[componentId]) {
-            componentStock[componentId] = { quantity: 0, lastPrice: 0 };
-          }
-          componentStock[componentId].quantity += parseFloat(item.quantity);
-          componentStock[componentId].lastPrice = parseFloat(item.price);
-        }
-        // Subtract writeoffs
-        for (const wo of writeoffs.filter((w) => w.componentId)) {
-          if (componentStock[wo.componentId!]) {
-            componentStock[wo.componentId!].quantity -= parseFloat(
-              wo.quantity?.toString() || "0"
-            );
-          }
-        }
-
-        // Find low stock items (below minimum threshold of 5 for fabrics, 10 for components)
+        // Find low stock items (below reorder point; 5 for fabrics, 10 for components if not set)
         const lowStockItems: {
           name: string;
           quantity: number;
           minQuantity: number;
           unit: string;
-          lastPrice: number;
+          lastPrice: number | null;
         }[] = [];
 
         for (const fabric of allFabrics) {
           const stock = fabricStock[fabric.id];
           const quantity = stock?.quantity || 0;
-          const minQuantity = 5; // Default minimum for fabrics
+          // Точка заказа из справочника, иначе минимум по умолчанию
+          const minQuantity =
+            parseFloat(fabric.reorderPoint?.toString() || "0") || 5;
           if (quantity < minQuantity) {
             lowStockItems.push({
               name: fabric.name,
               quantity: Math.round(quantity * 100) / 100,
               minQuantity,
               unit: "м²",
-              lastPrice: stock?.lastPrice || 0,
+              lastPrice: money(stock?.lastPrice || 0),
             });
           }
         }
@@ -977,14 +1206,16 @@ export async function registerRoutes(
         for (const component of allComponents) {
           const stock = componentStock[component.id];
           const quantity = stock?.quantity || 0;
-          const minQuantity = 10; // Default minimum for components
+          // Точка заказа из справочника, иначе минимум по умолчанию
+          const minQuantity =
+            parseFloat(component.reorderPoint?.toString() || "0") || 10;
           if (quantity < minQuantity) {
             lowStockItems.push({
               name: component.name,
               quantity: Math.round(quantity * 100) / 100,
               minQuantity,
               unit: component.unit || "шт",
-              lastPrice: stock?.lastPrice || 0,
+              lastPrice: money(stock?.lastPrice || 0),
             });
           }
         }
@@ -1000,11 +1231,12 @@ export async function registerRoutes(
             date: order.date,
             dueDate: dueDate.toISOString().split("T")[0],
             status: order.status || "Новый",
-            amount: parseFloat(order.salePrice?.toString() || "0"),
+            amount: money(parseFloat(order.salePrice?.toString() || "0")),
           };
         });
 
         res.json({
+          financialsLocked: !unlocked,
           lowStock: lowStockItems.slice(0, 10),
           orders: {
             today: todayOrders.length,
@@ -1013,14 +1245,14 @@ export async function registerRoutes(
           },
           salesMonth: {
             ordersCount: monthOrders.length,
-            totalAmount: monthlySales,
+            totalAmount: money(monthlySales),
           },
           sashes: {
             created: totalSashesCount,
             sold: soldSashesCount,
           },
           overduePayments: {
-            totalAmount: totalOverduePayments,
+            totalAmount: money(totalOverduePayments),
             count: overduePayments.length,
           },
           overdueOrders: overdueOrdersList,
@@ -1042,10 +1274,12 @@ export async function registerRoutes(
   app.get(
     "/api/dashboard/charts",
     authMiddleware,
+    requirePermission("dashboard", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const allOrders = await storage.getOrders(req.userId!);
         const financeOperations = await storage.getFinanceOperations(req.userId!, false);
+        const salesLines = getOrderSalesLines(allOrders).filter(isRecognizedSalesLine);
 
         const now = new Date();
         const months: {
@@ -1071,10 +1305,12 @@ export async function registerRoutes(
           // Filter orders for this month
           const monthOrders = allOrders.filter((o) => o.date >= startDate && o.date <= endDate);
 
-          // Sales and profit (only shipped orders)
-          const shippedOrders = monthOrders.filter((o) => o.status === "Отгружен");
-          const sales = shippedOrders.reduce((sum, o) => sum + parseFloat(o.salePrice?.toString() || "0"), 0);
-          const cost = shippedOrders.reduce((sum, o) => sum + parseFloat(o.costPrice?.toString() || "0"), 0);
+          // Sales and profit (only shipped orders, минус возвраты и брак месяца)
+          const monthLines = salesLines.filter(
+            (line) => line.date >= startDate && line.date <= endDate
+          );
+          const sales = monthLines.reduce((sum, line) => sum + line.sale, 0);
+          const cost = monthLines.reduce((sum, line) => sum + line.cost, 0);
           const profit = sales - cost;
 
           // Finance operations for this month
@@ -1098,7 +1334,9 @@ export async function registerRoutes(
 
         // Top dealers by sales (current month)
         const currentMonthStart = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-01`;
-        const currentMonthOrders = allOrders.filter((o) => o.date >= currentMonthStart);
+        const currentMonthOrders = allOrders.filter(
+          (o) => o.date >= currentMonthStart && !isReversedOrderStatus(o.status)
+        );
 
         const dealerSales: Record<string, { name: string; sales: number; orders: number }> = {};
         const dealers = await storage.getDealers(req.userId!);
@@ -1150,7 +1388,25 @@ export async function registerRoutes(
           .slice(0, 5)
           .map((f) => ({ ...f, sales: Math.round(f.sales) }));
 
-        res.json({ months, topDealers, topFabrics });
+        // Без доступа к отчётам остаются только количества
+        const { unlocked } = await getReportAccess(req);
+        if (!unlocked) {
+          return res.json({
+            financialsLocked: true,
+            months: months.map((m) => ({
+              month: m.month,
+              orders: m.orders,
+              sales: null,
+              profit: null,
+              income: null,
+              expense: null,
+            })),
+            topDealers: [],
+            topFabrics: topFabrics.map((f) => ({ ...f, sales: null })),
+          });
+        }
+
+        res.json({ financialsLocked: false, months, topDealers, topFabrics });
       } catch (error) {
         console.error("Dashboard charts error:", error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -1209,44 +1465,6 @@ export async function registerRoutes(
     return gigaChatToken;
   }
 
-  // Helper function to calculate current stock levels (used by AI context builder)
-  async function getStockLevels(userId: string) {
-    const [receipts, writeoffs] = await Promise.all([
-      storage.getWarehouseReceipts(userId),
-      storage.getWarehouseWriteoffs(userId),
-    ]);
-
-    const fabricStock: Record<string, number> = {};
-    const componentStock: Record<string, number> = {};
-
-    for (const receipt of receipts) {
-      const items = await storage.getWarehouseReceiptItems(receipt.id);
-      for (const item of items) {
-        const qty = parseFloat(item.quantity?.toString() || "0");
-        if (item.fabricId) {
-          fabricStock[item.fabricId] = (fabricStock[item.fabricId] || 0) + qty;
-        }
-        if (item.componentId) {
-          componentStock[item.componentId] =
-            (componentStock[item.componentId] || 0) + qty;
-        }
-      }
-    }
-
-    for (const wo of writeoffs) {
-      const qty = parseFloat(wo.quantity?.toString() || "0");
-      if (wo.fabricId) {
-        fabricStock[wo.fabricId] = (fabricStock[wo.fabricId] || 0) - qty;
-      }
-      if (wo.componentId) {
-        componentStock[wo.componentId] =
-          (componentStock[wo.componentId] || 0) - qty;
-      }
-    }
-
-    return { fabricStock, componentStock };
-  }
-
   async function buildDbContext(userId: string): Promise<string> {
     const [
       userFabrics,
@@ -1445,6 +1663,9 @@ export async function registerRoutes(
   app.post(
     "/api/chat",
     authMiddleware,
+    requirePermission("reports", "view"),
+    // В контексте ассистента — продажи, себестоимость и касса
+    requireReportAccess,
     async (req: AuthRequest, res: Response) => {
       try {
         const { messages } = req.body;
@@ -1518,6 +1739,7 @@ ${dbContext}`,
   app.get(
     "/api/audit-logs",
     authMiddleware,
+    requirePermission("audit", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const limit = parseInt(req.query.limit as string) || 20;
@@ -1539,18 +1761,31 @@ ${dbContext}`,
           typeof req.query.to === "string" && req.query.to.length > 0
             ? req.query.to
             : undefined;
+        const actorId =
+          typeof req.query.actorId === "string" && req.query.actorId !== "all"
+            ? req.query.actorId
+            : undefined;
 
         const result = await storage.getAuditLogsPaginated(
           req.userId!,
           { limit, cursor },
-          { entityType, action, from, to }
+          { entityType, action, from, to, actorId }
         );
 
         const enrichedData = await storage.enrichAuditLogsWithEntityNames(
           result.data
         );
+        const actorNames = await storage.getUserNames(
+          Array.from(new Set(result.data.map((log) => log.actorId || log.userId)))
+        );
 
-        res.json({ ...result, data: enrichedData });
+        res.json({
+          ...result,
+          data: enrichedData.map((log) => ({
+            ...log,
+            actorName: actorNames.get(log.actorId || log.userId) || null,
+          })),
+        });
       } catch (error) {
         console.error("Audit logs error:", error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -1562,6 +1797,7 @@ ${dbContext}`,
   app.get(
     "/api/notifications",
     authMiddleware,
+    requirePermission("notifications", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const limit = parseInt(req.query.limit as string) || 50;
@@ -1577,6 +1813,7 @@ ${dbContext}`,
   app.get(
     "/api/notifications/unread-count",
     authMiddleware,
+    requirePermission("notifications", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const count = await storage.getUnreadNotificationCount(req.userId!);
@@ -1591,6 +1828,7 @@ ${dbContext}`,
   app.patch(
     "/api/notifications/read-all",
     authMiddleware,
+    requirePermission("notifications", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.markAllNotificationsRead(req.userId!);
@@ -1605,6 +1843,7 @@ ${dbContext}`,
   app.patch(
     "/api/notifications/:id/read",
     authMiddleware,
+    requirePermission("notifications", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const notification = await storage.markNotificationRead(req.params.id);
@@ -1616,12 +1855,128 @@ ${dbContext}`,
     }
   );
 
+  // ===== NOTIFICATION SETTINGS =====
+  // Настройки вошедшего аккаунта; пороги напоминаний меняет только владелец
+  async function notificationSettingsResponse(req: AuthRequest) {
+    const isOwner = req.actorId === req.userId;
+    const [settings, workspace, user] = await Promise.all([
+      getNotificationSettings(req.actorId!),
+      isOwner ? null : getNotificationSettings(req.userId!),
+      storage.getUser(req.actorId!),
+    ]);
+    const { lastDigestAt, ...rest } = settings;
+    return {
+      ...rest,
+      rules: workspace ? withWorkspaceThresholds(settings.rules, workspace.rules) : settings.rules,
+      thresholdsEditable: isOwner,
+      accountEmail: user?.email ?? null,
+      emailAvailable: !!getMailTransport(),
+    };
+  }
+
+  app.get(
+    "/api/notification-settings",
+    authMiddleware,
+    requirePermission("notifications", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        res.json(await notificationSettingsResponse(req));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  app.put(
+    "/api/notification-settings",
+    authMiddleware,
+    requirePermission("notifications", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const parsed = notificationPreferencesFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+        const { rules, ...data } = parsed.data;
+        const current = await getNotificationSettings(req.actorId!);
+        const merged = { ...current.rules, ...rules };
+        if (req.actorId !== req.userId) {
+          // У сотрудника пороги не хранятся — действуют пороги владельца
+          for (const rule of Object.values(merged)) delete rule.threshold;
+        }
+        await storage.upsertNotificationPreferences(req.actorId!, {
+          ...data,
+          // Правила, которых нет в запросе, сохраняются как были
+          rules: JSON.stringify(merged),
+        });
+        res.json(await notificationSettingsResponse(req));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // ===== STAFF PUSH TOKENS =====
+  // Телефон сотрудника: токен привязан к аккаунту, который вошёл, а не к
+  // владельцу — push получает тот, кто держит устройство
+
+  app.post(
+    "/api/push-token",
+    authMiddleware,
+    requirePermission("notifications", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { token, platform } = req.body ?? {};
+        if (typeof token !== "string" || token.length < 16 || token.length > 512) {
+          return res.status(400).json({ message: "Некорректный token" });
+        }
+        if (!DEVICE_PLATFORMS.includes(platform)) {
+          return res.status(400).json({ message: "Некорректный platform (ios|android)" });
+        }
+        await storage.upsertDeviceToken({
+          token,
+          platform,
+          dealerId: null,
+          userId: req.actorId!,
+        });
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/push-token",
+    authMiddleware,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { token, platform } = req.body ?? {};
+        if (typeof token !== "string" || !DEVICE_PLATFORMS.includes(platform)) {
+          return res.status(400).json({ message: "Некорректные параметры" });
+        }
+        // Только своё устройство — чужой токен остаётся как был
+        await storage.deleteDeviceToken(token, platform, req.actorId!);
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
   // ===== APP MEASUREMENTS (CRM admin view) =====
 
   // Get all measurements from all dealers belonging to this admin
   app.get(
     "/api/app-measurements",
     authMiddleware,
+    requirePermission("measurements", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const dealerList = await storage.getDealers(req.userId!);
@@ -1668,9 +2023,9 @@ ${dbContext}`,
               fabric: matchFabric(s.fabricName),
               system: matchSystem(s.systemName, s.systemType),
             }));
+            const photos = await storage.getMeasurementPhotos(m.id);
             allMeasurements.push({
-              ...m,
-              sashes,
+              ...withSignedFileUrls(m, sashes, photos),
               dealerName: dealer.fullName,
             });
           }
@@ -1696,6 +2051,7 @@ ${dbContext}`,
   app.post(
     "/api/app-measurements/:id/convert",
     authMiddleware,
+    requirePermission("measurements", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const measurement = await storage.getMeasurement(req.params.id);
@@ -1748,16 +2104,22 @@ ${dbContext}`,
         const orderComment =
           [clientInfo, measurement.address].filter(Boolean).join(" | ").trim() || "";
 
-        // Fetch sashes once and calculate actual sale price: coefficient × dealer's workshop rate
+        // Fetch sashes once and calculate actual sale price through the dealer's
+        // price tier (or coefficient × dealer's workshop rate without one)
         const mSashes = await storage.getMeasurementSashes(measurement.id);
-        const rateRulon = parseFloat(dealer?.workshopRateRulon?.toString() || "28");
-        const rateZebra = parseFloat(dealer?.workshopRateZebra?.toString() || "28");
-        let calculatedPrice = 0;
-        for (const s of mSashes) {
-          const coef = parseFloat(s.coefficient?.toString() || "0");
-          const isZebra = (s.systemType || "").includes("zebra");
-          calculatedPrice += coef * (isZebra ? rateZebra : rateRulon);
-        }
+        const pricing = priceSashes(
+          await getDealerPriceTier(dealer),
+          mSashes.map((s) => {
+            const isZebra = isZebraSystem(s.systemType);
+            return {
+              coefficient: parseFloat(s.coefficient?.toString() || "0"),
+              isZebra,
+              category: s.category,
+              fallbackRate: fallbackSashRate(dealer, isZebra),
+            };
+          })
+        );
+        const calculatedPrice = pricing.total;
 
         // Pre-load catalogues so we can match IDs AND compute cost price before creating the order.
         const allSystems = await storage.getSystems(req.userId!);
@@ -1802,45 +2164,49 @@ ${dbContext}`,
           return { sash: s, systemId, fabricId };
         });
 
-        // Build warehouse avgPrice maps for fabrics/components (totalValue / totalReceived).
-        // Mirrors the /warehouse/stock computation so server-side cost matches what the UI shows.
-        const fabricAvgPrice: Record<string, number> = {};
-        const componentAvgPrice: Record<string, number> = {};
+        // Коэффициенты — как при создании заказа в CRM: размеры вне сетки
+        // и подмена категории только с явным подтверждением
+        const coefficientWarnings = (
+          await validateSashCoefficients(
+            req.userId!,
+            matchedPerSash.map(({ sash: s, systemId, fabricId }) => ({
+              width: s.width?.toString(),
+              height: s.height?.toString(),
+              systemId,
+              fabricId,
+            }))
+          )
+        ).errors;
+        if (coefficientWarnings.length > 0 && !req.body?.skipCoefficientValidation) {
+          return res.status(400).json({
+            message: "Коэффициенты требуют подтверждения",
+            errors: coefficientWarnings,
+            coefficientWarning: true,
+          });
+        }
+
+        // Unit cost per the workspace costing method (FIFO or moving average),
+        // the same unitCost /api/stock gives the order form
+        const fabricUnitCost: Record<string, number> = {};
+        const componentUnitCost: Record<string, number> = {};
         try {
-          const receipts = await storage.getWarehouseReceipts(req.userId!);
-          const itemsArrays = await Promise.all(
-            receipts.map((r) => storage.getWarehouseReceiptItems(r.id))
-          );
-          const allItems = itemsArrays.flat();
-
-          const fabricAgg: Record<string, { totalValue: number; totalReceived: number }> = {};
-          const compAgg: Record<string, { totalValue: number; totalReceived: number }> = {};
-          for (const item of allItems) {
-            const qty = parseFloat(item.quantity?.toString() || "0");
-            const price = parseFloat(item.price?.toString() || "0");
-            if (item.fabricId) {
-              if (!fabricAgg[item.fabricId]) fabricAgg[item.fabricId] = { totalValue: 0, totalReceived: 0 };
-              fabricAgg[item.fabricId].totalReceived += qty;
-              fabricAgg[item.fabricId].totalValue += qty * price;
-            }
-            if (item.componentId) {
-              if (!compAgg[item.componentId]) compAgg[item.componentId] = { totalValue: 0, totalReceived: 0 };
-              compAgg[item.componentId].totalReceived += qty;
-              compAgg[item.componentId].totalValue += qty * price;
-            }
-          }
-          for (const id of Object.keys(fabricAgg)) {
-            if (fabricAgg[id].totalReceived > 0) {
-              fabricAvgPrice[id] = fabricAgg[id].totalValue / fabricAgg[id].totalReceived;
-            }
+          const [{ unitCosts }, { fabricStock, componentStock }] = await Promise.all([
+            getUnitCosts(req.userId!),
+            getStockSnapshot(req.userId!),
+          ]);
+          for (const fabric of allFabrics) {
+            const price =
+              unitCosts.get(itemKey("fabric", fabric.id)) ||
+              fabricStock[fabric.id]?.avgPrice ||
+              parseFloat(fabric.price?.toString() || "0");
+            if (price > 0) fabricUnitCost[fabric.id] = price;
           }
-          for (const id of Object.keys(compAgg)) {
-            if (compAgg[id].totalReceived > 0) {
-              componentAvgPrice[id] = compAgg[id].totalValue / compAgg[id].totalReceived;
-            }
+          for (const [id, entry] of Object.entries(componentStock)) {
+            const price = unitCosts.get(itemKey("component", id)) || entry.avgPrice;
+            if (price > 0) componentUnitCost[id] = price;
           }
         } catch (err) {
-          console.error("[convert] avgPrice computation failed", err);
+          console.error("[convert] unit cost computation failed", err);
         }
 
         // Cache system components per systemId (needed for componentsCost per sash).
@@ -1854,7 +2220,7 @@ ${dbContext}`,
           })
         );
 
-        // Cost formula: areaM2 × fabric.avgPrice × (zebra?2:1) + Σ components + 150 fixed per sash.
+        // Cost formula: areaM2 × fabric unit cost × (zebra?2:1) + Σ components + 150 fixed per sash.
         // Mirrors client/src/pages/orders/utils.ts::calculateCostPrice.
         let totalCost = 0;
         for (const { sash: s, systemId, fabricId } of matchedPerSash) {
@@ -1871,10 +2237,10 @@ ${dbContext}`,
 
           if (fabricId) {
             const fabric = allFabrics.find((f) => f.id === fabricId);
-            const avgPrice = fabricAvgPrice[fabricId] || 0;
-            if (fabric && avgPrice > 0) {
+            const unitCost = fabricUnitCost[fabricId] || 0;
+            if (fabric && unitCost > 0) {
               const multiplier = fabric.fabricType === "zebra" ? 2 : 1;
-              sashCost += areaM2 * avgPrice * multiplier;
+              sashCost += areaM2 * unitCost * multiplier;
             }
           }
 
@@ -1883,8 +2249,8 @@ ${dbContext}`,
             for (const comp of sysComps) {
               const compEntity = allComponents.find((c) => c.id === comp.componentId);
               const unit = (compEntity?.unit || "шт").toLowerCase();
-              const avgPrice = componentAvgPrice[comp.componentId] || 0;
-              if (avgPrice <= 0) continue;
+              const unitCost = componentUnitCost[comp.componentId] || 0;
+              if (unitCost <= 0) continue;
 
               const compQty = parseFloat(comp.quantity?.toString() || "1");
               const sizeMultiplier = parseFloat(comp.sizeMultiplier?.toString() || "1");
@@ -1897,9 +2263,9 @@ ${dbContext}`,
               else if (isMetric && !sizeSource) sizeValue = widthM;
 
               if (isMetric) {
-                sashCost += avgPrice * sizeValue * sizeMultiplier * compQty;
+                sashCost += unitCost * sizeValue * sizeMultiplier * compQty;
               } else {
-                sashCost += avgPrice * compQty;
+                sashCost += unitCost * compQty;
               }
             }
           }
@@ -1924,12 +2290,13 @@ ${dbContext}`,
           dealerId: measurement.dealerId,
           salePrice: salePriceStr,
           costPrice: costPriceStr,
+          coefficientVersionId: (await getActiveCoefficientVersion(req.userId!))?.id ?? null,
         });
 
-        for (const { sash: s, systemId, fabricId } of matchedPerSash) {
-          const sashCoef = parseFloat(s.coefficient?.toString() || "0");
-          const sashIsZebra = (s.systemType || "").includes("zebra");
-          const sashPrice = sashCoef * (sashIsZebra ? rateZebra : rateRulon);
+        for (const [index, { sash: s, systemId, fabricId }] of Array.from(
+          matchedPerSash.entries()
+        )) {
+          const sashPrice = pricing.sashes[index].price;
 
           await storage.createOrderSash({
             orderId: order.id,
@@ -1974,6 +2341,7 @@ ${dbContext}`,
         try {
           await logAudit({
             userId: req.userId!,
+            actorId: req.actorId,
             action: "create",
             entityType: "order",
             entityId: order.id,
@@ -1982,6 +2350,7 @@ ${dbContext}`,
               measurementId: measurement.id,
               dealerName: dealer?.fullName || "—",
               orderNumber,
+              ...(coefficientWarnings.length > 0 && { coefficientWarnings }),
             },
           });
         } catch (_) {}
@@ -2002,6 +2371,7 @@ ${dbContext}`,
   app.delete(
     "/api/app-measurements/:id",
     authMiddleware,
+    requirePermission("measurements", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.deleteMeasurement(req.params.id);
@@ -2019,6 +2389,7 @@ ${dbContext}`,
   app.post(
     "/api/dealer-notifications/send",
     authMiddleware,
+    requirePermission("dealers", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const { title, message, dealerIds, sendToAll } = req.body;
@@ -2075,6 +2446,7 @@ ${dbContext}`,
   app.get(
     "/api/dealer-notifications/history",
     authMiddleware,
+    requirePermission("dealers", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const { dealerNotifications } = await import("@shared/schema");
@@ -2095,24 +2467,58 @@ ${dbContext}`,
   // ===== MOBILE API (dealer sub-router) =====
   app.use("/api/mobile/dealer", createDealerMobileRouter());
 
+  // ===== UPLOADED FILES (signed download links) =====
+  app.use("/api", createFilesRouter());
+
   // ===== REFERENCE CRUD ROUTES (mounted as sub-router) =====
   app.use("/api", createReferencesRouter(authMiddleware));
 
+  // ===== COEFFICIENT TABLE ROUTES (versions, grids, XLSX import) =====
+  app.use("/api", createCoefficientsRouter(authMiddleware));
+
+  // ===== PRICE TIER ROUTES (dealer price lists) =====
+  app.use("/api", createPriceTiersRouter(authMiddleware));
+
+  // ===== QUOTE ROUTES (dealer quotes with revisions) =====
+  app.use("/api", createQuotesRouter(authMiddleware));
+
+  // ===== SHIPMENT ROUTES (partial shipments with delivery notes) =====
+  app.use("/api", createShipmentsRouter(authMiddleware));
+
+  // ===== PRODUCTION STAGE ROUTES (per-sash workshop stages) =====
+  app.use("/api", createProductionStagesRouter(authMiddleware));
+
+  // ===== PRODUCTION CALENDAR ROUTES (capacity and due-date scheduling) =====
+  app.use("/api", createProductionCalendarRouter(authMiddleware));
+
+  // ===== INSTALLATION ROUTES (installer jobs for shipped orders) =====
+  app.use("/api", createInstallationsRouter(authMiddleware));
+
   // ===== FINANCE ROUTES (mounted as sub-router) =====
   app.use("/api", createFinanceRouter(authMiddleware));
 
   // ===== WAREHOUSE & STOCK ROUTES (mounted as sub-router) =====
   app.use("/api", createWarehouseRouter(authMiddleware));
 
+  // ===== PURCHASE ORDER ROUTES (mounted as sub-router) =====
+  app.use("/api", createPurchaseOrdersRouter(authMiddleware));
+
   // ===== ORDER ROUTES (mounted as sub-router) =====
   app.use("/api", createOrdersRouter(authMiddleware));
 
-  // Periodic notification generation (every 30 minutes)
-  setInterval(() => {
-    generatePeriodicNotifications().catch((err) =>
-      console.error("Periodic notifications error:", err)
-    );
-  }, 30 * 60 * 1000);
+  // ===== PRINT ROUTES (PDF for the workshop) =====
+  app.use("/api", createPrintRouter(authMiddleware));
+
+  // ===== STAFF ROUTES (mounted as sub-router) =====
+  app.use("/api", createStaffRouter(authMiddleware));
+
+  // ===== JOB ROUTES (background jobs admin) =====
+  app.use("/api", createJobsRouter(authMiddleware));
+
+  // Reminders and cleanup run on the DB-backed scheduler (server/jobs.ts)
+  startJobScheduler().catch((err) =>
+    console.error("Job scheduler start error:", err)
+  );
 
   return httpServer;
 }
@@ -0,0 +1,343 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { requirePermission } from "../permissions";
+import { logAudit } from "../audit";
+import {
+  coefficientDataToGrids,
+  getDefaultCoefficients,
+  gridsToCoefficientData,
+  loadCoefficients,
+  pickActiveVersion,
+  type CoefficientData,
+} from "../coefficients";
+import { parseCoefficientWorkbook } from "../coefficients-import";
+import {
+  coefficientGridValuesSchema,
+  coefficientVersionFormSchema,
+  type CoefficientVersion,
+} from "@shared/schema";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  actorId?: string;
+}
+
+type AuthMiddleware = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => void;
+
+export function createCoefficientsRouter(authMiddleware: AuthMiddleware): Router {
+  const router = Router();
+
+  // Версия текущего рабочего пространства или 404
+  const loadVersion = async (
+    req: AuthRequest,
+    res: Response
+  ): Promise<CoefficientVersion | null> => {
+    const version = await storage.getCoefficientVersion(req.params.id);
+    if (!version || version.userId !== req.userId) {
+      res.status(404).json({ message: "Версия коэффициентов не найдена" });
+      return null;
+    }
+    return version;
+  };
+
+  // Версия, по которой уже посчитаны заказы, не меняется — иначе
+  // их цены перестанут совпадать с таблицей
+  const isUsedByOrders = async (version: CoefficientVersion) => {
+    const counts = await storage.getCoefficientVersionOrderCounts(version.userId);
+    return (counts[version.id] || 0) > 0;
+  };
+
+  const createVersionWithData = async (
+    req: AuthRequest,
+    form: { name: string; effectiveFrom: string; comment?: string | null },
+    data: CoefficientData
+  ) => {
+    const version = await storage.createCoefficientVersion({
+      name: form.name,
+      effectiveFrom: form.effectiveFrom,
+      comment: form.comment || null,
+      userId: req.userId!,
+    });
+    await storage.createCoefficientGrids(coefficientDataToGrids(data, version.id));
+    // Поиск мог закэшировать версию до записи сеток
+    await storage.touchCoefficientVersion(version.id);
+
+    logAudit({
+      userId: req.userId!,
+      actorId: req.actorId,
+      action: "create",
+      entityType: "coefficient_version",
+      entityId: version.id,
+      after: version,
+    });
+
+    return version;
+  };
+
+  // ===== COEFFICIENT VERSIONS =====
+  router.get(
+    "/coefficients/versions",
+    authMiddleware,
+    requirePermission("references", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const [versions, orderCounts] = await Promise.all([
+          storage.getCoefficientVersions(req.userId!),
+          storage.getCoefficientVersionOrderCounts(req.userId!),
+        ]);
+        const active = pickActiveVersion(versions);
+
+        res.json(
+          versions.map((v) => ({
+            ...v,
+            isActive: v.id === active?.id,
+            ordersCount: orderCounts[v.id] || 0,
+          }))
+        );
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Новая версия — копия действующей таблицы (или стандартной)
+  router.post(
+    "/coefficients/versions",
+    authMiddleware,
+    requirePermission("references", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const parsed = coefficientVersionFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const { data } = await loadCoefficients(req.userId!);
+        const version = await createVersionWithData(req, parsed.data, data);
+        res.json(version);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Импорт XLSX: тело запроса — файл книги, реквизиты версии — в query.
+  // Системы, которых нет в книге, переносятся из действующей таблицы.
+  router.post(
+    "/coefficients/versions/import",
+    authMiddleware,
+    requirePermission("references", "edit"),
+    express.raw({ type: "application/octet-stream", limit: "10mb" }),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const parsed = coefficientVersionFormSchema.safeParse(req.query);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Файл не передан" });
+        }
+
+        const { data: current } = await loadCoefficients(req.userId!);
+        const known: CoefficientData = {
+          products: { ...getDefaultCoefficients().products, ...current.products },
+        };
+
+        let result;
+        try {
+          result = await parseCoefficientWorkbook(req.body, known);
+        } catch {
+          return res.status(400).json({ message: "Не удалось прочитать файл XLSX" });
+        }
+        if (result.errors.length > 0) {
+          return res
+            .status(400)
+            .json({ message: result.errors[0], errors: result.errors });
+        }
+
+        const version = await createVersionWithData(req, parsed.data, {
+          products: { ...current.products, ...result.data.products },
+        });
+
+        res.json({
+          version,
+          importedSystems: Object.keys(result.data.products),
+          skippedSheets: result.skippedSheets,
+        });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.patch(
+    "/coefficients/versions/:id",
+    authMiddleware,
+    requirePermission("references", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const before = await loadVersion(req, res);
+        if (!before) return;
+
+        const parsed = coefficientVersionFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const version = await storage.updateCoefficientVersion(before.id, {
+          ...parsed.data,
+          comment: parsed.data.comment || null,
+        });
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "update",
+          entityType: "coefficient_version",
+          entityId: before.id,
+          before,
+          after: version,
+        });
+
+        res.json(version);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.delete(
+    "/coefficients/versions/:id",
+    authMiddleware,
+    requirePermission("references", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const before = await loadVersion(req, res);
+        if (!before) return;
+        if (await isUsedByOrders(before)) {
+          return res
+            .status(400)
+            .json({ message: "По этой версии уже посчитаны заказы" });
+        }
+
+        await storage.deleteCoefficientVersion(before.id);
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "delete",
+          entityType: "coefficient_version",
+          entityId: before.id,
+          before,
+        });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // ===== COEFFICIENT GRIDS =====
+  router.get(
+    "/coefficients/versions/:id/grids",
+    authMiddleware,
+    requirePermission("references", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const version = await loadVersion(req, res);
+        if (!version) return;
+
+        const grids = await storage.getCoefficientGrids(version.id);
+        res.json(
+          grids.map((g) => ({
+            ...g,
+            widths: JSON.parse(g.widths),
+            heights: JSON.parse(g.heights),
+            values: JSON.parse(g.values),
+          }))
+        );
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Правка значений сетки; размеры осей не меняются
+  router.put(
+    "/coefficients/grids/:id",
+    authMiddleware,
+    requirePermission("references", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const grid = await storage.getCoefficientGrid(req.params.id);
+        const version = grid && (await storage.getCoefficientVersion(grid.versionId));
+        if (!grid || !version || version.userId !== req.userId) {
+          return res.status(404).json({ message: "Таблица не найдена" });
+        }
+        if (await isUsedByOrders(version)) {
+          return res.status(400).json({
+            message: "По этой версии уже посчитаны заказы — создайте новую версию",
+          });
+        }
+
+        const parsed = coefficientGridValuesSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const { widths, heights } = gridsToCoefficientData([grid]).products[
+          grid.systemKey
+        ].categories[grid.category];
+        const { values } = parsed.data;
+        if (
+          values.length !== heights.length ||
+          values.some((row) => row.length !== widths.length)
+        ) {
+          return res
+            .status(400)
+            .json({ message: "Размер таблицы не совпадает с сеткой" });
+        }
+
+        const updated = await storage.updateCoefficientGrid(grid.id, {
+          values: JSON.stringify(values),
+        });
+        await storage.touchCoefficientVersion(version.id);
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "update",
+          entityType: "coefficient_version",
+          entityId: version.id,
+          metadata: { systemKey: grid.systemKey, category: grid.category },
+        });
+
+        res.json(updated);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  return router;
+}
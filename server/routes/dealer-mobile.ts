@@ -4,11 +4,39 @@ import jwt from "jsonwebtoken";
 import { storage } from "../storage";
 import { db } from "../db";
 import { eq, inArray } from "drizzle-orm";
-import { installmentPlans as installmentPlansTable, measurements, systems, fabrics, DEVICE_PLATFORMS } from "@shared/schema";
+import { installmentPlans as installmentPlansTable, measurements, systems, fabrics, DEVICE_PLATFORMS, UPLOADED_FILE_KINDS, type Dealer, type UploadedFileKind } from "@shared/schema";
 import { notify } from "../notifications";
 import { logAudit } from "../audit";
+import { getDealerPriceTier } from "../pricing";
+import { fallbackSashRate, priceSashes, isZebraSystem } from "@shared/pricing";
+import { isReversedOrderStatus } from "@shared/order-status";
+import {
+  acceptQuote,
+  loadQuoteDetails,
+  validateQuoteCoefficients,
+  type QuoteDetails,
+} from "../quotes";
+import { estimateReadyDate } from "../production-calendar";
+import {
+  fileUrl,
+  receiveUpload,
+  saveUploadedFile,
+  signFileUrl,
+  withSignedFileUrls,
+} from "../uploads";
+import {
+  dealerFabrics,
+  dealerSystems,
+  idempotent,
+  loadChanges,
+  parseSyncTypes,
+  submitMeasurement,
+  withClientNames,
+} from "../mobile-sync";
 
 const JWT_SECRET = process.env.SESSION_SECRET!;
+// Замеров в одном POST /sync/push
+const SYNC_PUSH_LIMIT = 50;
 
 interface DealerMobileAuthRequest extends Request {
   dealerId?: string;
@@ -151,21 +179,7 @@ export function createDealerMobileRouter(): Router {
         const search = typeof req.query.search === "string" ? req.query.search : undefined;
         // Fetch orders without search filter — we'll filter after enriching with clientName
         const orderList = await storage.getDealerOrders(req.dealerId!, { status, from, to });
-
-        // Enrich orders with clientName from linked measurements
-        const orderIds = orderList.map((o) => o.id);
-        let clientMap = new Map<string, string>();
-        if (orderIds.length > 0) {
-          const linked = await db
-            .select({ orderId: measurements.orderId, clientName: measurements.clientName })
-            .from(measurements)
-            .where(inArray(measurements.orderId, orderIds));
-          for (const m of linked) {
-            if (m.orderId && m.clientName) clientMap.set(m.orderId, m.clientName);
-          }
-        }
-
-        let enriched = orderList.map((o) => ({ ...o, clientName: clientMap.get(o.id) || null }));
+        let enriched = await withClientNames(orderList);
 
         // Filter by order number or client name
         if (search) {
@@ -219,7 +233,15 @@ export function createDealerMobileRouter(): Router {
           .select({ clientName: measurements.clientName })
           .from(measurements)
           .where(eq(measurements.orderId, order.id));
-        res.json({ ...order, sashes, clientName: linked?.clientName || null });
+        // Срок, обещанный дилеру, и оценка готовности по календарю цеха
+        const estimatedReadyDate = await estimateReadyDate(order);
+        res.json({
+          ...order,
+          sashes,
+          clientName: linked?.clientName || null,
+          dueDate: order.dueDate,
+          estimatedReadyDate,
+        });
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -301,12 +323,16 @@ export function createDealerMobileRouter(): Router {
   router.post(
     "/orders/:id/installment",
     dealerMobileAuthMiddleware,
+    idempotent,
     async (req: DealerMobileAuthRequest, res: Response) => {
       try {
         const order = await storage.getOrder(req.params.id);
         if (!order || order.dealerId !== req.dealerId) {
           return res.status(404).json({ message: "Заказ не найден" });
         }
+        if (isReversedOrderStatus(order.status)) {
+          return res.status(400).json({ message: "Заказ отменён или возвращён" });
+        }
         const { downPayment = 0, months, paymentDay } = req.body;
         const totalAmount = parseFloat(order.salePrice?.toString() || "0");
         const dp = parseFloat(downPayment.toString());
@@ -508,6 +534,208 @@ export function createDealerMobileRouter(): Router {
     }
   );
 
+  // ===== QUOTES =====
+
+  // Расчёт дилера с редакциями или 404
+  const loadDealerQuote = async (
+    req: DealerMobileAuthRequest,
+    res: Response
+  ): Promise<QuoteDetails | null> => {
+    const quote = await storage.getQuote(req.params.id);
+    if (!quote || quote.dealerId !== req.dealerId) {
+      res.status(404).json({ message: "Расчёт не найден" });
+      return null;
+    }
+    const [details] = await loadQuoteDetails(quote.userId, [quote]);
+    return details;
+  };
+
+  // GET /quotes — расчёты дилера, новые сверху
+  router.get(
+    "/quotes",
+    dealerMobileAuthMiddleware,
+    async (req: DealerMobileAuthRequest, res: Response) => {
+      try {
+        const dealer = await storage.getDealer(req.dealerId!);
+        if (!dealer) {
+          return res.status(401).json({ message: "Дилер не найден" });
+        }
+        const quoteList = await storage.getDealerQuotes(dealer.id);
+        res.json(await loadQuoteDetails(dealer.userId, quoteList));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // GET /quotes/:id — все редакции для сравнения
+  router.get(
+    "/quotes/:id",
+    dealerMobileAuthMiddleware,
+    async (req: DealerMobileAuthRequest, res: Response) => {
+      try {
+        const quote = await loadDealerQuote(req, res);
+        if (!quote) return;
+        res.json(quote);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // POST /quotes/:id/accept — принять последнюю редакцию; создаётся заказ
+  router.post(
+    "/quotes/:id/accept",
+    dealerMobileAuthMiddleware,
+    idempotent,
+    async (req: DealerMobileAuthRequest, res: Response) => {
+      try {
+        const quote = await loadDealerQuote(req, res);
+        if (!quote) return;
+        if (quote.status !== "open") {
+          return res.status(400).json({ message: "Расчёт уже закрыт" });
+        }
+        if (quote.isExpired) {
+          return res.status(400).json({
+            message: "Срок действия расчёта истёк — запросите новый",
+          });
+        }
+        // Дилер принимает то, что видел: редакция из запроса должна быть последней
+        const { revision } = req.body ?? {};
+        if (revision !== undefined && Number(revision) !== quote.current?.revision) {
+          return res.status(409).json({
+            message: "Расчёт обновлён — проверьте новую редакцию",
+          });
+        }
+
+        // Подтвердить размеры вне сетки может только цех — новой редакцией
+        const coefficientWarnings = await validateQuoteCoefficients(quote);
+        if (coefficientWarnings.length > 0) {
+          return res.status(400).json({
+            message: "Расчёт нужно пересчитать по новой сетке — запросите новый",
+            errors: coefficientWarnings,
+          });
+        }
+
+        const order = await acceptQuote(quote, { source: "mobile" });
+        if (!order) {
+          return res.status(409).json({ message: "Расчёт уже закрыт" });
+        }
+
+        notify({
+          userId: quote.userId,
+          type: "quote_decision",
+          title: "Расчёт принят",
+          message: `${quote.dealerName || "Дилер"} принял расчёт №${quote.number}, создан заказ №${order.orderNumber}`,
+          entityType: "order",
+          entityId: order.id,
+        });
+
+        res.json({ success: true, orderId: order.id, orderNumber: order.orderNumber });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // POST /quotes/:id/reject
+  router.post(
+    "/quotes/:id/reject",
+    dealerMobileAuthMiddleware,
+    idempotent,
+    async (req: DealerMobileAuthRequest, res: Response) => {
+      try {
+        const quote = await loadDealerQuote(req, res);
+        if (!quote) return;
+        if (quote.status !== "open") {
+          return res.status(400).json({ message: "Расчёт уже закрыт" });
+        }
+
+        const updated = await storage.updateQuote(quote.id, {
+          status: "rejected",
+          decidedAt: new Date(),
+        });
+
+        logAudit({
+          userId: quote.userId,
+          action: "status_change",
+          entityType: "quote",
+          entityId: quote.id,
+          before: { status: quote.status },
+          after: { status: updated?.status },
+          metadata: { source: "mobile", dealerName: quote.dealerName },
+        });
+        notify({
+          userId: quote.userId,
+          type: "quote_decision",
+          title: "Расчёт отклонён",
+          message: `${quote.dealerName || "Дилер"} отклонил расчёт №${quote.number}`,
+          entityType: "quote",
+          entityId: quote.id,
+        });
+
+        res.json(updated);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // ===== FILES =====
+
+  // POST /files — multipart: file (JPEG/PNG/WebP) и kind (photo | signature).
+  // Приложение загружает фото и подпись до отправки замера и кладёт
+  // вернувшийся url в photoUrl / signatureUrl / photos[].url.
+  router.post(
+    "/files",
+    dealerMobileAuthMiddleware,
+    idempotent,
+    receiveUpload,
+    async (req: DealerMobileAuthRequest, res: Response) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ message: "Файл не передан" });
+        }
+        const kind = (req.body?.kind || "photo") as UploadedFileKind;
+        if (!UPLOADED_FILE_KINDS.includes(kind)) {
+          return res.status(400).json({ message: "Некорректный тип файла" });
+        }
+
+        const dealer = await storage.getDealer(req.dealerId!);
+        if (!dealer) return res.status(401).json({ message: "Дилер не найден" });
+
+        const file = await saveUploadedFile({
+          userId: dealer.userId,
+          dealerId: dealer.id,
+          kind,
+          file: req.file,
+        });
+        if (!file) {
+          return res
+            .status(400)
+            .json({ message: "Содержимое файла не совпадает с его типом" });
+        }
+
+        const url = fileUrl(file.id);
+        res.json({
+          id: file.id,
+          url,
+          signedUrl: signFileUrl(url),
+          thumbnailUrl: signFileUrl(url, "thumbnail"),
+          mimeType: file.mimeType,
+          size: file.size,
+        });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
   // ===== MEASUREMENTS =====
 
   // GET /measurements
@@ -521,7 +749,7 @@ export function createDealerMobileRouter(): Router {
         const result = await Promise.all(
           list.map(async (m) => {
             const sashes = await storage.getMeasurementSashes(m.id);
-            return { ...m, sashes };
+            return withSignedFileUrls(m, sashes);
           })
         );
         res.json(result);
@@ -544,7 +772,7 @@ export function createDealerMobileRouter(): Router {
         }
         const sashes = await storage.getMeasurementSashes(measurement.id);
         const photos = await storage.getMeasurementPhotos(measurement.id);
-        res.json({ ...measurement, sashes, photos });
+        res.json(withSignedFileUrls(measurement, sashes, photos));
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -555,113 +783,115 @@ export function createDealerMobileRouter(): Router {
   // POST /measurements — atomic "send to workshop".
   //
   // The mobile app no longer pushes drafts to the server: drafts live in the
-  // device's SQLite, and a single POST creates the measurement, its sashes,
-  // the order and its sashes in one request. There is no draft state on the
-  // server anymore — everything that arrives here is final.
+  // device's SQLite, and a single POST creates the measurement with its
+  // sashes and photos. Offline the app queues the send and retries it:
+  // clientId (generated on the device) makes the retry return the same
+  // measurement instead of a duplicate — see server/mobile-sync.ts.
   router.post(
     "/measurements",
     dealerMobileAuthMiddleware,
+    idempotent,
     async (req: DealerMobileAuthRequest, res: Response) => {
       try {
-        const {
-          clientName,
-          clientPhone,
-          address,
-          latitude,
-          longitude,
-          comment,
-          totalCoefficient,
-          signatureUrl,
-          sashes,
-        } = req.body;
-
-        if (!Array.isArray(sashes) || sashes.length === 0) {
-          return res
-            .status(400)
-            .json({ message: "Замер должен содержать хотя бы одну створку" });
-        }
-
         const dealer = await storage.getDealer(req.dealerId!);
         if (!dealer) {
           return res.status(401).json({ message: "Дилер не найден" });
         }
 
-        // 1) Create the measurement with status "pending" — it stays on
-        //    review until the admin approves it in the CRM, at which point
-        //    the convert endpoint creates the workshop order.
-        const measurement = await storage.createMeasurement({
-          dealerId: req.dealerId!,
-          clientName,
-          clientPhone,
-          address,
-          latitude,
-          longitude,
-          comment,
-          totalCoefficient,
-          signatureUrl,
-          status: "pending",
+        const result = await submitMeasurement(dealer, req.body);
+        if (!result.ok) return res.status(result.status).json(result.body);
+
+        res.json({
+          measurementId: result.measurement.id,
+          clientId: result.measurement.clientId,
+          status: result.measurement.status,
+          result: result.result,
         });
+      } catch (error) {
+        console.error("Save measurement error:", error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
 
-        // 2) Persist sashes attached to the measurement.
-        for (const s of sashes) {
-          await storage.createMeasurementSash({
-            measurementId: measurement.id,
-            width: s.width,
-            height: s.height,
-            systemName: s.systemName,
-            systemType: s.systemType,
-            category: s.category,
-            control: s.control,
-            coefficient: s.coefficient,
-            room: s.room,
-            roomName: s.roomName,
-            photoUrl: s.photoUrl,
-            fabricName: s.fabricName,
+  // ===== SYNC =====
+
+  // POST /sync/push — очередь неотправленных замеров одним запросом:
+  // { measurements: [{ clientId, ...как в POST /measurements }] }. Каждый
+  // замер обрабатывается отдельно, ответ — результат по каждому clientId.
+  router.post(
+    "/sync/push",
+    dealerMobileAuthMiddleware,
+    idempotent,
+    async (req: DealerMobileAuthRequest, res: Response) => {
+      try {
+        const items = req.body?.measurements;
+        if (!Array.isArray(items) || items.length === 0 || items.length > SYNC_PUSH_LIMIT) {
+          return res.status(400).json({
+            message: `Передайте от 1 до ${SYNC_PUSH_LIMIT} замеров`,
           });
         }
+        if (items.some((m: any) => !m?.clientId)) {
+          return res.status(400).json({ message: "У каждого замера должен быть clientId" });
+        }
+        const dealer = await storage.getDealer(req.dealerId!);
+        if (!dealer) {
+          return res.status(401).json({ message: "Дилер не найден" });
+        }
 
-        // 3) Notify the admin (best-effort).
-        const clientInfo = [clientName, clientPhone].filter(Boolean).join(", ");
-        try {
-          await notify({
-            userId: dealer.userId,
-            type: "measurement_sent",
-            title: "Новый замер на рассмотрение",
-            message: `${dealer.fullName} отправил замер: ${clientInfo || "без имени"}, ${address || "без адреса"}`,
-            entityType: "measurement",
-            entityId: measurement.id,
-          });
-        } catch (notifyError) {
-          console.error("notify failed for measurement send:", notifyError);
-        }
-
-        try {
-          await logAudit({
-            userId: dealer.userId,
-            action: "create",
-            entityType: "measurement",
-            entityId: measurement.id,
-            metadata: {
-              source: "mobile",
-              dealerName: dealer.fullName,
-            },
-          });
-        } catch (auditError) {
-          console.error("logAudit failed for measurement send:", auditError);
+        const results = [];
+        for (const item of items) {
+          try {
+            const result = await submitMeasurement(dealer, item);
+            results.push(
+              result.ok
+                ? {
+                    clientId: item.clientId,
+                    result: result.result,
+                    measurementId: result.measurement.id,
+                    status: result.measurement.status,
+                  }
+                : {
+                    clientId: item.clientId,
+                    result: result.status === 409 ? "conflict" : "invalid",
+                    ...result.body,
+                  }
+            );
+          } catch (error) {
+            // Сбой одного замера не мешает остальным; приложение повторит его
+            console.error("Sync push measurement error:", error);
+            results.push({ clientId: item.clientId, result: "error", message: "Ошибка сервера" });
+          }
         }
+        res.json({ results });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
 
-        res.json({
-          measurementId: measurement.id,
-          status: "pending",
-        });
+  // GET /sync/changes?cursor=&types=orders,notifications,fabrics,systems —
+  // изменения с прошлого курсора; без курсора — полный снимок (full: true).
+  // Возвращённый cursor приложение хранит до следующего запроса.
+  router.get(
+    "/sync/changes",
+    dealerMobileAuthMiddleware,
+    async (req: DealerMobileAuthRequest, res: Response) => {
+      try {
+        const dealer = await storage.getDealer(req.dealerId!);
+        if (!dealer) {
+          return res.status(401).json({ message: "Дилер не найден" });
+        }
+        res.json(await loadChanges(dealer, req.query.cursor, parseSyncTypes(req.query.types)));
       } catch (error) {
-        console.error("Save measurement error:", error);
+        console.error(`[${req.method} ${req.path}]`, error);
         res.status(500).json({ message: "Ошибка сервера" });
       }
     }
   );
 
-  // POST /coefficients/calculate (public, no auth)
+  // POST /coefficients/calculate (public, dealer token optional)
   router.post(
     "/coefficients/calculate",
     async (req: Request, res: Response) => {
@@ -671,14 +901,47 @@ export function createDealerMobileRouter(): Router {
           return res.status(400).json({ message: "Все параметры обязательны" });
         }
 
+        // Токен дилера необязателен: с ним считаем по таблицам его
+        // рабочего пространства и по его прайс-листу, без него — по
+        // стандартной таблице и без цены
+        let dealer: Dealer | undefined;
+        const authHeader = req.headers.authorization;
+        if (authHeader?.startsWith("Bearer ")) {
+          try {
+            const decoded = jwt.verify(authHeader.slice(7), JWT_SECRET) as {
+              dealerId: string;
+              role: string;
+            };
+            if (decoded.role === "dealer") {
+              dealer = await storage.getDealer(decoded.dealerId);
+            }
+          } catch {
+            dealer = undefined;
+          }
+        }
+
         const { getCoefficientDetailed } = await import("../coefficients");
-        const result = getCoefficientDetailed(
+        const result = await getCoefficientDetailed(
           systemKey,
           category,
           parseFloat(width),
-          parseFloat(height)
+          parseFloat(height),
+          dealer?.userId
         );
-        res.json(result);
+
+        let price: number | null = null;
+        if (dealer && result.coefficient !== null) {
+          const isZebra = isZebraSystem(systemKey);
+          price = priceSashes(await getDealerPriceTier(dealer), [
+            {
+              coefficient: result.coefficient,
+              isZebra,
+              category,
+              fallbackRate: fallbackSashRate(dealer, isZebra),
+            },
+          ]).total;
+        }
+        res.json({ ...result, price });
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -697,15 +960,7 @@ export function createDealerMobileRouter(): Router {
         const dealer = await storage.getDealer(req.dealerId!);
         if (!dealer) return res.status(401).json({ message: "Дилер не найден" });
 
-        const allFabrics = await storage.getFabrics(dealer.userId);
-        const colors = await storage.getColors(dealer.userId);
-        const colorMap = new Map(colors.map((c) => [c.id, c.name]));
-
-        const result = allFabrics.map((f) => ({
-          ...f,
-          colorName: f.colorId ? colorMap.get(f.colorId) || null : null,
-        }));
-        res.json(result);
+        res.json(await dealerFabrics(dealer.userId));
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -722,17 +977,7 @@ export function createDealerMobileRouter(): Router {
         const dealer = await storage.getDealer(req.dealerId!);
         if (!dealer) return res.status(401).json({ message: "Дилер не найден" });
 
-        const allSystems = await storage.getSystems(dealer.userId);
-        const multipliers = await storage.getMultipliers(dealer.userId);
-        const multMap = new Map(multipliers.map((m) => [m.id, parseFloat(m.value?.toString() || "0")]));
-
-        const result = allSystems.map((s) => ({
-          id: s.id,
-          name: s.name,
-          systemKey: s.systemKey,
-          multiplierValue: s.multiplierId ? multMap.get(s.multiplierId) || null : null,
-        }));
-        res.json(result);
+        res.json(await dealerSystems(dealer.userId));
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -0,0 +1,49 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { getFileStorage } from "../file-storage";
+import { verifyFileSignature, type FileVariant } from "../uploads";
+
+// Выдача загруженных файлов по подписанным ссылкам. Авторизация — сама
+// подпись: её выдают только эндпоинты, которые уже проверили доступ к замеру.
+export function createFilesRouter(): Router {
+  const router = Router();
+
+  const serveFile = (variant: FileVariant) => async (req: Request, res: Response) => {
+    try {
+      if (!verifyFileSignature(req.params.id, variant, req.query.expires, req.query.sig)) {
+        return res
+          .status(403)
+          .json({ message: "Ссылка на файл недействительна или устарела" });
+      }
+      const file = await storage.getUploadedFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ message: "Файл не найден" });
+      }
+
+      const key =
+        variant === "thumbnail" && file.thumbnailKey ? file.thumbnailKey : file.storageKey;
+      const data = await getFileStorage().get(key);
+      if (!data) {
+        return res.status(404).json({ message: "Файл не найден" });
+      }
+
+      const contentType =
+        key === file.storageKey
+          ? file.mimeType
+          : key.endsWith(".png")
+            ? "image/png"
+            : "image/jpeg";
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Cache-Control", "private, max-age=86400, immutable");
+      res.send(data);
+    } catch (error) {
+      console.error(`[${req.method} ${req.path}]`, error);
+      res.status(500).json({ message: "Ошибка сервера" });
+    }
+  };
+
+  router.get("/files/:id", serveFile("original"));
+  router.get("/files/:id/thumbnail", serveFile("thumbnail"));
+
+  return router;
+}
@@ -1,10 +1,13 @@
 import { Router, Request, Response, NextFunction } from "express";
 import bcrypt from "bcrypt";
 import { storage } from "../storage";
+import { requirePermission } from "../permissions";
 import { logAudit } from "../audit";
+import { grantReportAccess, reportAccessState } from "../report-access";
 
 interface AuthRequest extends Request {
   userId?: string;
+  actorId?: string;
 }
 
 type AuthMiddleware = (
@@ -20,6 +23,7 @@ export function createFinanceRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/finance",
     authMiddleware,
+    requirePermission("finance", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const includeDrafts = req.query.includeDrafts === "true";
@@ -99,6 +103,7 @@ export function createFinanceRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/finance/:id",
     authMiddleware,
+    requirePermission("finance", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const operation = await storage.getFinanceOperation(req.params.id);
@@ -116,6 +121,7 @@ export function createFinanceRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/finance",
     authMiddleware,
+    requirePermission("finance", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const operation = await storage.createFinanceOperation({
@@ -125,6 +131,7 @@ export function createFinanceRouter(authMiddleware: AuthMiddleware): Router {
 
         logAudit({
           userId: req.userId!,
+          actorId: req.actorId,
           action: "create",
           entityType: "finance",
           entityId: operation.id,
@@ -142,6 +149,7 @@ export function createFinanceRouter(authMiddleware: AuthMiddleware): Router {
   router.patch(
     "/finance/:id",
     authMiddleware,
+    requirePermission("finance", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const before = await storage.getFinanceOperation(req.params.id);
@@ -152,6 +160,7 @@ export function createFinanceRouter(authMiddleware: AuthMiddleware): Router {
 
         logAudit({
           userId: req.userId!,
+          actorId: req.actorId,
           action: "update",
           entityType: "finance",
           entityId: req.params.id,
@@ -170,6 +179,7 @@ export function createFinanceRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/finance/:id",
     authMiddleware,
+    requirePermission("finance", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const before = await storage.getFinanceOperation(req.params.id);
@@ -177,6 +187,7 @@ export function createFinanceRouter(authMiddleware: AuthMiddleware): Router {
 
         logAudit({
           userId: req.userId!,
+          actorId: req.actorId,
           action: "delete",
           entityType: "finance",
           entityId: req.params.id,
@@ -194,6 +205,7 @@ export function createFinanceRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/finance/:id/restore",
     authMiddleware,
+    requirePermission("finance", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const operation = await storage.restoreFinanceOperation(req.params.id);
@@ -208,6 +220,7 @@ export function createFinanceRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/finance/:id/hard",
     authMiddleware,
+    requirePermission("finance", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const { password } = req.body;
@@ -217,24 +230,19 @@ export function createFinanceRouter(authMiddleware: AuthMiddleware): Router {
           return res.status(401).json({ message: "Пользователь не найден" });
         }
 
-        // Проверяем пароль отчётов если он установлен
-        if (user.reportPassword) {
-          // Если доступ уже разблокирован в сессии — пропускаем проверку
-          if (!req.session.reportAccessGranted) {
-            // Если передан пароль — проверяем его
-            if (password) {
-              const isValid = await bcrypt.compare(password, user.reportPassword);
-              if (!isValid) {
-                return res.status(403).json({ message: "Неверный пароль" });
-              }
-              // Разблокируем доступ в сессии
-              req.session.reportAccessGranted = true;
-            } else {
-              return res
-                .status(403)
-                .json({ message: "Требуется пароль", requiresPassword: true });
-            }
+        // Окончательное удаление — под паролем отчётов, если он установлен
+        const access = reportAccessState(req, user);
+        if (!access.unlocked) {
+          if (!password) {
+            return res
+              .status(403)
+              .json({ message: "Требуется пароль", requiresPassword: true });
           }
+          const isValid = await bcrypt.compare(password, user.reportPassword!);
+          if (!isValid) {
+            return res.status(403).json({ message: "Неверный пароль" });
+          }
+          grantReportAccess(req, user);
         }
 
         await storage.hardDeleteFinanceOperation(req.params.id);
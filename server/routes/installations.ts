@@ -0,0 +1,302 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { requirePermission } from "../permissions";
+import { logAudit } from "../audit";
+import {
+  completeInstallationJob,
+  getInstallableOrders,
+  getInstallers,
+  saveInstallationJob,
+} from "../installations";
+import {
+  installationCompleteSchema,
+  installationJobFormSchema,
+  type InstallationJob,
+  type StaffRole,
+} from "@shared/schema";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  actorId?: string;
+  role?: StaffRole;
+}
+
+type AuthMiddleware = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => void;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Фото и подпись — картинки, в списки и журнал их не тащим
+function withoutImages<T extends InstallationJob>(job: T) {
+  const { photo, clientSignature, ...rest } = job;
+  return { ...rest, hasPhoto: !!photo, hasSignature: !!clientSignature };
+}
+
+export function createInstallationsRouter(authMiddleware: AuthMiddleware): Router {
+  const router = Router();
+
+  // Монтажник работает только со своими выездами
+  const isInstaller = (req: AuthRequest) => req.role === "installer";
+
+  // Выезд текущего рабочего пространства или 404
+  const loadJob = async (
+    req: AuthRequest,
+    res: Response
+  ): Promise<InstallationJob | null> => {
+    const job = await storage.getInstallationJob(req.params.id);
+    if (
+      !job ||
+      job.userId !== req.userId ||
+      (isInstaller(req) && job.installerId !== req.actorId)
+    ) {
+      res.status(404).json({ message: "Выезд не найден" });
+      return null;
+    }
+    return job;
+  };
+
+  // Выезды за день (или все) — для графика и маршрута монтажника
+  router.get(
+    "/installations",
+    authMiddleware,
+    requirePermission("installations", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const date = typeof req.query.date === "string" ? req.query.date : undefined;
+        if (date && !DATE_RE.test(date)) {
+          return res.status(400).json({ message: "Некорректная дата" });
+        }
+        const installerId = isInstaller(req)
+          ? req.actorId
+          : typeof req.query.installerId === "string" && req.query.installerId !== "all"
+            ? req.query.installerId
+            : undefined;
+        const jobs = await storage.getInstallationJobs(req.userId!, { date, installerId });
+        res.json(jobs.map(withoutImages));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.get(
+    "/installations/installers",
+    authMiddleware,
+    requirePermission("installations", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        res.json(await getInstallers(req.userId!));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Отгруженные заказы, на которые можно назначить монтаж
+  router.get(
+    "/installations/orders",
+    authMiddleware,
+    requirePermission("orders", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        res.json(await getInstallableOrders(req.userId!));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Выезд целиком, с фото и подписью
+  router.get(
+    "/installations/:id",
+    authMiddleware,
+    requirePermission("installations", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const job = await loadJob(req, res);
+        if (!job) return;
+        res.json(job);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Назначение выезда — работа менеджера, не монтажника
+  router.post(
+    "/installations",
+    authMiddleware,
+    requirePermission("orders", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const parsed = installationJobFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const result = await saveInstallationJob({
+          userId: req.userId!,
+          form: parsed.data,
+        });
+        if (!result.ok) {
+          return res.status(result.status).json(result.body);
+        }
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "create",
+          entityType: "installation",
+          entityId: result.job.id,
+          after: withoutImages(result.job),
+        });
+
+        res.json(result.job);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Перенос: другой монтажник, дата или время
+  router.patch(
+    "/installations/:id",
+    authMiddleware,
+    requirePermission("orders", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const job = await loadJob(req, res);
+        if (!job) return;
+        if (job.status !== "scheduled") {
+          return res
+            .status(400)
+            .json({ message: "Перенести можно только назначенный выезд" });
+        }
+
+        const parsed = installationJobFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const result = await saveInstallationJob({
+          userId: req.userId!,
+          form: parsed.data,
+          job,
+        });
+        if (!result.ok) {
+          return res.status(result.status).json(result.body);
+        }
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "update",
+          entityType: "installation",
+          entityId: job.id,
+          before: withoutImages(job),
+          after: withoutImages(result.job),
+        });
+
+        res.json(result.job);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Снятие с графика — выезд остаётся в истории заказа
+  router.post(
+    "/installations/:id/cancel",
+    authMiddleware,
+    requirePermission("orders", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const job = await loadJob(req, res);
+        if (!job) return;
+        if (job.status !== "scheduled") {
+          return res
+            .status(400)
+            .json({ message: "Снять можно только назначенный выезд" });
+        }
+
+        const updated = await storage.updateInstallationJob(job.id, {
+          status: "cancelled",
+        });
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "status_change",
+          entityType: "installation",
+          entityId: job.id,
+          before: { status: job.status },
+          after: { status: updated?.status },
+        });
+
+        res.json(updated);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Закрытие выезда с объекта: фото монтажа и подпись клиента
+  router.post(
+    "/installations/:id/complete",
+    authMiddleware,
+    requirePermission("installations", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const job = await loadJob(req, res);
+        if (!job) return;
+
+        const parsed = installationCompleteSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const result = await completeInstallationJob({ job, form: parsed.data });
+        if (!result.ok) {
+          return res.status(result.status).json(result.body);
+        }
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "status_change",
+          entityType: "installation",
+          entityId: job.id,
+          before: { status: job.status },
+          after: {
+            status: result.job.status,
+            clientName: result.job.clientName,
+            completedAt: result.job.completedAt,
+          },
+        });
+
+        res.json(withoutImages(result.job));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  return router;
+}
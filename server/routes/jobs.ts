@@ -0,0 +1,106 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { requirePermission } from "../permissions";
+import { JOBS, getJobDefinition, runJobNow } from "../jobs";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  actorId?: string;
+}
+
+type AuthMiddleware = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => void;
+
+export function createJobsRouter(authMiddleware: AuthMiddleware): Router {
+  const router = Router();
+
+  // ===== JOBS =====
+  router.get(
+    "/jobs",
+    authMiddleware,
+    requirePermission("settings", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const [states, runs] = await Promise.all([
+          storage.getScheduledJobs(),
+          storage.getJobRuns({ userId: req.userId!, limit: 200 }),
+        ]);
+        const now = Date.now();
+        res.json(
+          JOBS.map((job) => {
+            const state = states.find((s) => s.name === job.name);
+            return {
+              name: job.name,
+              title: job.title,
+              description: job.description,
+              intervalMs: job.intervalMs,
+              maxAttempts: job.maxAttempts,
+              enabled: state?.enabled ?? true,
+              nextRunAt: state?.nextRunAt ?? null,
+              running: !!state?.lockedUntil && state.lockedUntil.getTime() > now,
+              lastRunAt: state?.lastRunAt ?? null,
+              lastStatus: state?.lastStatus ?? null,
+              lastError: state?.lastError ?? null,
+              failures: state?.failures ?? 0,
+              lastRun: runs.find((run) => run.jobName === job.name) ?? null,
+            };
+          })
+        );
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.get(
+    "/jobs/runs",
+    authMiddleware,
+    requirePermission("settings", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const jobName =
+          typeof req.query.job === "string" && req.query.job ? req.query.job : undefined;
+        if (jobName && !getJobDefinition(jobName)) {
+          return res.status(404).json({ message: "Задача не найдена" });
+        }
+        const runs = await storage.getJobRuns({
+          jobName,
+          userId: req.userId!,
+          limit: 100,
+        });
+        res.json(runs);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Запуск вне расписания: задача идёт в фоне, ответ — запись запуска
+  router.post(
+    "/jobs/:name/run",
+    authMiddleware,
+    requirePermission("settings", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const result = await runJobNow(req.params.name, {
+          userId: req.userId!,
+          actorId: req.actorId ?? req.userId!,
+        });
+        if (!result.ok) {
+          return res.status(result.status).json(result.body);
+        }
+        res.status(202).json(result.run);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  return router;
+}
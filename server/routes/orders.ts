@@ -1,13 +1,41 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
+import { requirePermission } from "../permissions";
 import { db } from "../db";
-import { installmentPlans as installmentPlansTable } from "@shared/schema";
+import {
+  installmentPlans as installmentPlansTable,
+  measurements,
+  orders,
+  orderSashes,
+  type OrderSash,
+} from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { logAudit } from "../audit";
-import { notify, notifyDealer } from "../notifications";
+import { transitionOrderStatus } from "../order-status";
+import { getStageProgress } from "../production-stages";
+import { getDueDateWarnings } from "../production-calendar";
+import { isReversedOrderStatus } from "@shared/order-status";
+import {
+  getActiveCoefficientVersion,
+  validateSashCoefficients,
+} from "../coefficients";
+import {
+  getSashMaterialRequirements,
+  validateSashOrderStock,
+  reverseOrderWriteoffMovements,
+  refreshOrderReservation,
+} from "../stock";
+import {
+  buildCuttingLayout,
+  deleteCuttingLayouts,
+  loadCuttingLayouts,
+  type CuttingLayoutWithRows,
+  type CuttingPieceInput,
+} from "../cutting";
 
 interface AuthRequest extends Request {
   userId?: string;
+  actorId?: string;
 }
 
 type AuthMiddleware = (
@@ -16,6 +44,15 @@ type AuthMiddleware = (
   next: NextFunction
 ) => void;
 
+// Статус меняется только через PATCH /orders/:id/status — там проверки
+// перехода, списания, резервы и долг дилера
+const STATUS_VIA_TRANSITION =
+  "Статус заказа меняется отдельно от редактирования — сменой статуса";
+
+// Обрезки раскроя уже взял другой раскрой — сначала его пересчитывают
+const REMNANTS_IN_USE =
+  "Обрезки этого раскроя уже использованы в другом раскрое — сначала удалите или пересчитайте его";
+
 export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   const router = Router();
 
@@ -58,246 +95,41 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
     fabricName: sash.fabricName || null,
   });
 
-  // Helper function to calculate current stock levels
-  async function getStockLevels(userId: string) {
-    const [receipts, writeoffs] = await Promise.all([
-      storage.getWarehouseReceipts(userId),
-      storage.getWarehouseWriteoffs(userId),
-    ]);
-
-    const fabricStock: Record<string, number> = {};
-    const componentStock: Record<string, number> = {};
-
-    // Add receipts
-    for (const receipt of receipts) {
-      const items = await storage.getWarehouseReceiptItems(receipt.id);
-      for (const item of items) {
-        const qty = parseFloat(item.quantity?.toString() || "0");
-        if (item.fabricId) {
-          fabricStock[item.fabricId] = (fabricStock[item.fabricId] || 0) + qty;
-        }
-        if (item.componentId) {
-          componentStock[item.componentId] =
-            (componentStock[item.componentId] || 0) + qty;
-        }
-      }
-    }
-
-    // Subtract writeoffs
-    for (const wo of writeoffs) {
-      const qty = parseFloat(wo.quantity?.toString() || "0");
-      if (wo.fabricId) {
-        fabricStock[wo.fabricId] = (fabricStock[wo.fabricId] || 0) - qty;
-      }
-      if (wo.componentId) {
-        componentStock[wo.componentId] =
-          (componentStock[wo.componentId] || 0) - qty;
-      }
-    }
-
-    return { fabricStock, componentStock };
-  }
-
-  // Compute current weighted-avg price per fabric from warehouse receipts.
-  // When no receipts exist, fall back to the manual `fabrics.price` column
-  // (set via "Пересчитать себестоимость" before a buy-in is recorded).
-  // Fabrics with neither receipts nor manual price get 0 — blocks shipping
-  // so costPrice isn't understated.
-  async function getFabricAvgPrices(
-    userId: string
-  ): Promise<Record<string, number>> {
-    const receipts = await storage.getWarehouseReceipts(userId);
-    const totals: Record<string, { value: number; qty: number }> = {};
-    for (const receipt of receipts) {
-      const items = await storage.getWarehouseReceiptItems(receipt.id);
-      for (const item of items) {
-        if (!item.fabricId) continue;
-        const qty = parseFloat(item.quantity?.toString() || "0");
-        const price = parseFloat(item.price?.toString() || "0");
-        if (!totals[item.fabricId]) totals[item.fabricId] = { value: 0, qty: 0 };
-        totals[item.fabricId].value += qty * price;
-        totals[item.fabricId].qty += qty;
-      }
-    }
-    const allFabrics = await storage.getFabrics(userId);
-    const result: Record<string, number> = {};
-    for (const fabric of allFabrics) {
-      const t = totals[fabric.id];
-      const avg = t && t.qty > 0 ? t.value / t.qty : 0;
-      if (avg > 0) {
-        result[fabric.id] = avg;
-      } else {
-        const manual = parseFloat(fabric.price?.toString() || "0");
-        result[fabric.id] = manual > 0 ? manual : 0;
-      }
-    }
-    return result;
-  }
-
-  // Helper function to validate stock for sash order
-  async function validateSashOrderStock(
-    userId: string,
-    sashes: any[]
-  ): Promise<{ valid: boolean; errors: string[] }> {
-    const errors: string[] = [];
-    const { fabricStock, componentStock } = await getStockLevels(userId);
-
-    const allFabrics = await storage.getFabrics(userId);
-    const allSystems = await storage.getSystems(userId);
-
-    // Calculate required materials
-    const requiredFabrics: Record<string, { qty: number; name: string }> = {};
-    const requiredComponents: Record<string, { qty: number; name: string }> =
-      {};
-
-    for (const sash of sashes) {
-      const width = parseFloat(sash.width || "0");
-      const height = parseFloat(sash.height || "0");
-      const widthM = width / 100;
-      const heightM = height / 100;
-      const areaM2 = widthM * heightM;
-      const quantity = parseInt(sash.quantity || "1");
-
-      // Check fabric
-      if (sash.fabricId) {
-        const fabric = allFabrics.find((f) => f.id === sash.fabricId);
-        if (fabric) {
-          const fabricMultiplier = fabric.fabricType === "zebra" ? 2 : 1;
-          const fabricQty = areaM2 * fabricMultiplier * quantity;
-
-          if (!requiredFabrics[sash.fabricId]) {
-            requiredFabrics[sash.fabricId] = { qty: 0, name: fabric.name };
-          }
-          requiredFabrics[sash.fabricId].qty += fabricQty;
-        }
-      }
-
-      // Check system components
-      if (sash.systemId) {
-        const system = allSystems.find((s) => s.id === sash.systemId);
-        if (system) {
-          const systemComps = await storage.getSystemComponents(system.id);
-          const allComponents = await storage.getComponents(userId);
-
-          for (const sc of systemComps) {
-            const component = allComponents.find(
-              (c) => c.id === sc.componentId
-            );
-            if (component) {
-              const compQuantity = parseFloat(sc.quantity?.toString() || "1");
-              const sizeSource = sc.sizeSource || null;
-              const sizeMultiplier = parseFloat(
-                sc.sizeMultiplier?.toString() || "1"
-              );
-              const unit = component.unit || "шт";
-
-              let componentQty = compQuantity;
-              const isMetric = ["м", "пм", "п.м.", "м.п."].includes(
-                unit.toLowerCase()
-              );
-
-              if (isMetric) {
-                if (sizeSource === "width") {
-                  componentQty = widthM * sizeMultiplier * compQuantity;
-                } else if (sizeSource === "height") {
-                  componentQty = heightM * sizeMultiplier * compQuantity;
-                } else {
-                  componentQty = widthM * sizeMultiplier * compQuantity;
-                }
-              }
-
-              componentQty *= quantity;
-
-              if (!requiredComponents[sc.componentId]) {
-                requiredComponents[sc.componentId] = {
-                  qty: 0,
-                  name: component.name,
-                };
-              }
-              requiredComponents[sc.componentId].qty += componentQty;
-            }
-          }
-        }
-      }
-
-      // Check direct component (для заказов товара)
-      if (sash.componentId && !sash.systemId) {
-        const allComponents = await storage.getComponents(userId);
-        const component = allComponents.find((c) => c.id === sash.componentId);
-        if (component) {
-          const componentQty = quantity;
-
-          if (!requiredComponents[sash.componentId]) {
-            requiredComponents[sash.componentId] = {
-              qty: 0,
-              name: component.name,
-            };
-          }
-          requiredComponents[sash.componentId].qty += componentQty;
-        }
-      }
-    }
-
-    // Validate fabric stock
-    for (const [fabricId, { qty, name }] of Object.entries(requiredFabrics)) {
-      const available = fabricStock[fabricId] || 0;
-      if (available < qty) {
-        errors.push(
-          `Недостаточно ткани "${name}": требуется ${qty.toFixed(
-            2
-          )} м², доступно ${available.toFixed(2)} м²`
-        );
-      }
-    }
-
-    // Validate component stock
-    for (const [componentId, { qty, name }] of Object.entries(
-      requiredComponents
-    )) {
-      const available = componentStock[componentId] || 0;
-      if (available < qty) {
-        errors.push(
-          `Недостаточно комплектующих "${name}": требуется ${qty.toFixed(
-            2
-          )}, доступно ${available.toFixed(2)}`
-        );
-      }
-    }
-
-    return { valid: errors.length === 0, errors };
-  }
-
-  // Helper function to validate stock for product order
-  async function validateProductOrderStock(
-    userId: string,
-    components: { componentId: string; quantity: string }[]
-  ): Promise<{ valid: boolean; errors: string[] }> {
-    const errors: string[] = [];
-    const { componentStock } = await getStockLevels(userId);
-    const allComponents = await storage.getComponents(userId);
-
-    for (const item of components) {
-      const component = allComponents.find((c) => c.id === item.componentId);
-      const requiredQty = parseFloat(item.quantity || "1");
-      const available = componentStock[item.componentId] || 0;
-
-      if (available < requiredQty) {
-        const name = component?.name || "Неизвестная комплектующая";
-        errors.push(
-          `Недостаточно "${name}": требуется ${requiredQty.toFixed(
-            2
-          )}, доступно ${available.toFixed(2)}`
-        );
-      }
-    }
-
-    return { valid: errors.length === 0, errors };
-  }
+  // Коэффициенты створок изменились — заказ пересчитан по действующей таблице
+  const coefficientsChanged = (
+    before: OrderSash[],
+    sashes: Array<{ coefficient?: string }>
+  ) => {
+    const key = (c?: string | null) => (c ? parseFloat(c).toFixed(2) : "");
+    const a = before.map((s) => key(s.coefficient)).sort();
+    const b = sashes.map((s) => key(s.coefficient)).sort();
+    return a.length !== b.length || a.some((v, i) => v !== b[i]);
+  };
+
+  // Состав створок изменился: размеры, система, ткань, управление или комната
+  const sashesChanged = (
+    before: OrderSash[],
+    sashes: Array<Parameters<typeof sanitizeSashData>[0]>
+  ) => {
+    const key = (s: Parameters<typeof sanitizeSashData>[0] | OrderSash) =>
+      [
+        parseFloat(s.width).toFixed(2),
+        parseFloat(s.height).toFixed(2),
+        s.systemId || "",
+        s.fabricId || "",
+        s.controlSide || "",
+        s.room || 1,
+      ].join("|");
+    const a = before.map(key).sort();
+    const b = sashes.map(key).sort();
+    return a.length !== b.length || a.some((v, i) => v !== b[i]);
+  };
 
   // ===== ORDERS =====
   router.get(
     "/orders",
     authMiddleware,
+    requirePermission("orders", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const limit = parseInt(req.query.limit as string) || 20;
@@ -337,7 +169,7 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
         const nonShippedMap = new Map<string, number>();
         const allOrders = await storage.getOrders(req.userId!, {});
         for (const o of allOrders) {
-          if (o.dealerId) {
+          if (o.dealerId && !isReversedOrderStatus(o.status)) {
             const price = parseFloat(o.salePrice?.toString() || "0");
             if (o.status === "Отгружен") {
               shippedDebtMap.set(o.dealerId, (shippedDebtMap.get(o.dealerId) || 0) + price);
@@ -367,6 +199,11 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
         };
 
         const enrichOrders = async (ordersToEnrich: any[]) => {
+          const orderIds = ordersToEnrich.map((o) => o.id);
+          const [shipped, stageEvents] = await Promise.all([
+            storage.getShippedSashes(orderIds),
+            storage.getSashStageEvents(orderIds),
+          ]);
           return Promise.all(
             ordersToEnrich.map(async (order) => {
               const sashes = await storage.getOrderSashes(order.id);
@@ -384,6 +221,11 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
                 dealerBalance: dealer?.balance,
                 dealerShippedDebt: order.dealerId ? (shippedDebtMap.get(order.dealerId) || 0) : 0,
                 sashesCount: sashes.length,
+                shippedSashesCount: shipped.filter((row) => row.orderId === order.id)
+                  .length,
+                stageProgress: getStageProgress(
+                  stageEvents.filter((e) => e.orderId === order.id)
+                ),
                 orderType: getOrderType(sashes),
                 fabricIds,
               };
@@ -458,6 +300,7 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/orders/:id",
     authMiddleware,
+    requirePermission("orders", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const order = await storage.getOrder(req.params.id);
@@ -506,24 +349,36 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/orders",
     authMiddleware,
+    requirePermission("orders", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
-        const { sashes, skipStockValidation, isPaid, cashboxId, ...orderData } =
-          req.body;
+        const {
+          sashes,
+          skipStockValidation,
+          skipCoefficientValidation,
+          isPaid,
+          cashboxId,
+          status,
+          ...orderData
+        } = req.body;
 
-        // Проверка остатков при создании заказа (только если статус НЕ "Новый" и НЕ "В производстве")
-        const createStatus = orderData.status || "Новый";
-        if (
-          createStatus !== "Новый" &&
-          createStatus !== "В производстве" &&
-          sashes && Array.isArray(sashes) && sashes.length > 0 && !skipStockValidation
-        ) {
-          const validation = await validateSashOrderStock(req.userId!, sashes);
-          if (!validation.valid) {
+        // Новый заказ всегда создаётся в статусе «Новый»
+        if (status && status !== "Новый") {
+          return res.status(400).json({ message: STATUS_VIA_TRANSITION });
+        }
+        if (orderData.dueDate === "") orderData.dueDate = null;
+
+        // Размер вне сетки коэффициентов или подмена категории — только
+        // с явным подтверждением; подтверждённые предупреждения пишем в аудит
+        let coefficientWarnings: string[] = [];
+        if (sashes && Array.isArray(sashes) && sashes.length > 0) {
+          coefficientWarnings = (await validateSashCoefficients(req.userId!, sashes))
+            .errors;
+          if (coefficientWarnings.length > 0 && !skipCoefficientValidation) {
             return res.status(400).json({
-              message: "Недостаточно материалов на складе",
-              errors: validation.errors,
-              stockError: true,
+              message: "Коэффициенты требуют подтверждения",
+              errors: coefficientWarnings,
+              coefficientWarning: true,
             });
           }
         }
@@ -533,6 +388,7 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
         const order = await storage.createOrder({
           ...orderData,
           orderNumber,
+          coefficientVersionId: (await getActiveCoefficientVersion(req.userId!))?.id ?? null,
           userId: req.userId,
         });
 
@@ -578,14 +434,20 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
 
         logAudit({
           userId: req.userId!,
+          actorId: req.actorId,
           action: "create",
           entityType: "order",
           entityId: order.id,
           after: order,
-          metadata: { orderNumber },
+          metadata: {
+            orderNumber,
+            ...(coefficientWarnings.length > 0 && { coefficientWarnings }),
+          },
         });
 
-        res.json(order);
+        // Срок, к которому цех по плану не успевает, — сохраняем, но предупреждаем
+        const scheduleWarnings = await getDueDateWarnings(order);
+        res.json({ ...order, ...(scheduleWarnings.length > 0 && { scheduleWarnings }) });
       } catch (error) {
         console.error("Create order error:", error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -597,6 +459,7 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/orders/product",
     authMiddleware,
+    requirePermission("orders", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const {
@@ -604,24 +467,12 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
           skipStockValidation,
           isPaid,
           cashboxId,
+          status,
           ...orderData
         } = req.body;
 
-        // Проверка остатков при создании заказа товара (только если статус НЕ "Новый" и НЕ "В производстве")
-        const productStatus = orderData.status || "Новый";
-        if (
-          productStatus !== "Новый" &&
-          productStatus !== "В производстве" &&
-          components && Array.isArray(components) && components.length > 0 && !skipStockValidation
-        ) {
-          const validation = await validateProductOrderStock(req.userId!, components);
-          if (!validation.valid) {
-            return res.status(400).json({
-              message: "Недостаточно товара на складе",
-              errors: validation.errors,
-              stockError: true,
-            });
-          }
+        if (status && status !== "Новый") {
+          return res.status(400).json({ message: STATUS_VIA_TRANSITION });
         }
 
         const orderNumber = await storage.getNextOrderNumber(req.userId!);
@@ -701,16 +552,71 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.patch(
     "/orders/:id",
     authMiddleware,
+    requirePermission("orders", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
-        const { sashes, skipStockValidation, isPaid, cashboxId, ...orderData } =
-          req.body;
+        const {
+          sashes: submittedSashes,
+          skipStockValidation,
+          skipCoefficientValidation,
+          isPaid,
+          cashboxId,
+          status,
+          ...orderData
+        } = req.body;
+        let sashes = submittedSashes;
 
         // Получаем существующий заказ
         const existingOrder = await storage.getOrder(req.params.id);
+        if (existingOrder && isReversedOrderStatus(existingOrder.status)) {
+          return res
+            .status(400)
+            .json({ message: "Отменённый или возвращённый заказ изменить нельзя" });
+        }
+        if (status && status !== (existingOrder?.status || "Новый")) {
+          return res.status(400).json({ message: STATUS_VIA_TRANSITION });
+        }
+        if (orderData.dueDate === "") orderData.dueDate = null;
+        // Створки пересоздаются при сохранении — у отгруженных пропали бы
+        // накладные, у начатых цехом — отметки этапов. Тот же состав
+        // пропускаем, изменённый запрещаем
+        if (sashes && Array.isArray(sashes)) {
+          const [shipped, staged] = await Promise.all([
+            storage.getShippedSashes([req.params.id]),
+            storage.getSashStageEvents([req.params.id]),
+          ]);
+          if (shipped.length > 0 || staged.length > 0) {
+            if (sashesChanged(await storage.getOrderSashes(req.params.id), sashes)) {
+              return res.status(400).json({
+                message:
+                  shipped.length > 0
+                    ? "По заказу есть накладные — створки изменить нельзя"
+                    : "Цех уже отметил этапы по створкам — створки изменить нельзя",
+              });
+            }
+            sashes = undefined;
+          }
+        }
+
+        // Коэффициенты проверяем, только если заказ пересчитан
+        const repriced =
+          sashes && Array.isArray(sashes) &&
+          coefficientsChanged(await storage.getOrderSashes(req.params.id), sashes);
+        let coefficientWarnings: string[] = [];
+        if (repriced) {
+          coefficientWarnings = (await validateSashCoefficients(req.userId!, sashes))
+            .errors;
+          if (coefficientWarnings.length > 0 && !skipCoefficientValidation) {
+            return res.status(400).json({
+              message: "Коэффициенты требуют подтверждения",
+              errors: coefficientWarnings,
+              coefficientWarning: true,
+            });
+          }
+        }
 
         // Проверка остатков при редактировании заказа (только если статус НЕ "Новый" и НЕ "В производстве")
-        const editStatus = orderData.status || existingOrder?.status || "Новый";
+        const editStatus = existingOrder?.status || "Новый";
         if (
           editStatus !== "Новый" &&
           editStatus !== "В производстве" &&
@@ -726,9 +632,62 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
           }
         }
 
+        if (repriced) {
+          orderData.coefficientVersionId =
+            (await getActiveCoefficientVersion(req.userId!))?.id ?? null;
+        }
+
+        // Заказ в производстве: створки и резерв под них меняются вместе,
+        // под блокировкой заказа и остатков. Не хватает свободного остатка —
+        // заказ не сохраняется
+        let sashesSaved = false;
+        if (sashes && Array.isArray(sashes) && existingOrder?.status === "В производстве") {
+          const requirements = await getSashMaterialRequirements(req.userId!, sashes);
+          const outcome = await db.transaction(async (tx) => {
+            const [locked] = await tx
+              .select({ status: orders.status })
+              .from(orders)
+              .where(eq(orders.id, req.params.id))
+              .for("update");
+            if (locked?.status !== "В производстве") return { conflict: true };
+
+            const validation = await refreshOrderReservation(
+              tx,
+              req.userId!,
+              req.params.id,
+              requirements
+            );
+            if (!validation.valid) return { errors: validation.errors };
+
+            await tx.delete(orderSashes).where(eq(orderSashes.orderId, req.params.id));
+            if (sashes.length > 0) {
+              await tx.insert(orderSashes).values(
+                sashes.map((sash: Parameters<typeof sanitizeSashData>[0]) => ({
+                  ...sanitizeSashData(sash),
+                  orderId: req.params.id,
+                }))
+              );
+            }
+            return {};
+          });
+          if (outcome.conflict) {
+            return res
+              .status(409)
+              .json({ message: "Статус заказа уже изменён. Обновите страницу" });
+          }
+          if (outcome.errors) {
+            return res.status(400).json({
+              message: "Недостаточно материалов на складе",
+              errors: outcome.errors,
+              stockError: true,
+            });
+          }
+          sashesSaved = true;
+        }
+
         const order = await storage.updateOrder(req.params.id, orderData);
 
-        if (sashes && Array.isArray(sashes)) {
+        if (sashes && Array.isArray(sashes) && !sashesSaved) {
           await storage.deleteOrderSashesByOrderId(req.params.id);
           for (const sash of sashes) {
             await storage.createOrderSash({
@@ -785,15 +744,20 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
 
         logAudit({
           userId: req.userId!,
+          actorId: req.actorId,
           action: "update",
           entityType: "order",
           entityId: req.params.id,
           before: existingOrder,
           after: order,
-          metadata: { orderNumber: existingOrder?.orderNumber || order?.orderNumber },
+          metadata: {
+            orderNumber: existingOrder?.orderNumber || order?.orderNumber,
+            ...(coefficientWarnings.length > 0 && { coefficientWarnings }),
+          },
         });
 
-        res.json(order);
+        const scheduleWarnings = order ? await getDueDateWarnings(order) : [];
+        res.json({ ...order, ...(scheduleWarnings.length > 0 && { scheduleWarnings }) });
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -804,587 +768,21 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.patch(
     "/orders/:id/status",
     authMiddleware,
+    requirePermission("production", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
-        const { status } = req.body;
-        const order = await storage.getOrder(req.params.id);
-        if (!order) {
-          return res.status(404).json({ message: "Заказ не найден" });
-        }
-
-        const oldStatus = order.status || "Новый";
-        let dealerDebt = parseFloat(order.dealerDebt?.toString() || "0");
-
-        // 1. Новый → просто черновик, ничего не делаем
-
-        // 2. В производстве → добавляем долг дилеру (если долг ещё не установлен)
-        if (status === "В производстве" && oldStatus === "Новый") {
-          dealerDebt = parseFloat(order.salePrice?.toString() || "0");
-        }
-
-        // 3. Готов → списываем материалы со склада
-        if (status === "Готов" && oldStatus !== "Готов") {
-          // Проверяем, не было ли уже списания для этого заказа
-          const existingWriteoffs =
-            await storage.getWarehouseWriteoffsByOrderId(req.params.id);
-
-          if (existingWriteoffs.length === 0) {
-            // Получаем створки заказа
-            const sashes = await storage.getOrderSashes(req.params.id);
-
-            // ПРОВЕРКА ОСТАТКОВ перед изменением статуса на "Готов"
-            const validation = await validateSashOrderStock(
-              req.userId!,
-              sashes
-            );
-            if (!validation.valid) {
-              return res.status(400).json({
-                message:
-                  "Невозможно изменить статус на 'Готов'. Недостаточно материалов на складе",
-                errors: validation.errors,
-                stockError: true,
-              });
-            }
-
-            const allFabrics = await storage.getFabrics(req.userId!);
-            const allSystems = await storage.getSystems(req.userId!);
-            const allComponents = await storage.getComponents(req.userId!);
-
-            // Получаем текущие остатки и средние цены
-            const receipts = await storage.getWarehouseReceipts(req.userId!);
-            const writeoffs = await storage.getWarehouseWriteoffs(req.userId!);
-
-            // Рассчитываем текущие остатки тканей
-            const fabricStock: Record<
-              string,
-              {
-                quantity: number;
-                totalReceived: number;
-                avgPrice: number;
-                totalValue: number;
-                lastPrice: number;
-              }
-            > = {};
-            for (const receipt of receipts) {
-              const items = await storage.getWarehouseReceiptItems(receipt.id);
-              for (const item of items.filter((i) => i.fabricId)) {
-                if (!fabricStock[item.fabricId!]) {
-                  fabricStock[item.fabricId!] = {
-                    quantity: 0,
-                    totalReceived: 0,
-                    avgPrice: 0,
-                    totalValue: 0,
-                    lastPrice: 0,
-                  };
-                }
-                const qty = parseFloat(item.quantity?.toString() || "0");
-                const price = parseFloat(item.price?.toString() || "0");
-                fabricStock[item.fabricId!].quantity += qty;
-                fabricStock[item.fabricId!].totalReceived += qty;
-                fabricStock[item.fabricId!].totalValue += qty * price;
-                fabricStock[item.fabricId!].lastPrice = price; // Последняя цена закупки
-              }
-            }
-            // Вычитаем предыдущие списания
-            for (const wo of writeoffs) {
-              if (wo.fabricId && fabricStock[wo.fabricId]) {
-                fabricStock[wo.fabricId].quantity -= parseFloat(
-                  wo.quantity?.toString() || "0"
-                );
-              }
-            }
-            // Считаем средние цены (от общего количества поступлений, а не от остатка)
-            for (const id of Object.keys(fabricStock)) {
-              if (fabricStock[id].totalReceived > 0) {
-                fabricStock[id].avgPrice =
-                  fabricStock[id].totalValue / fabricStock[id].totalReceived;
-              }
-            }
-
-            // Рассчитываем текущие остатки комплектующих
-            const componentStock: Record<
-              string,
-              {
-                quantity: number;
-                totalReceived: number;
-                avgPrice: number;
-                totalValue: number;
-                lastPrice: number;
-              }
-            > = {};
-            for (const receipt of receipts) {
-              const items = await storage.getWarehouseReceiptItems(receipt.id);
-              for (const item of items.filter((i) => i.componentId)) {
-                if (!componentStock[item.componentId!]) {
-                  componentStock[item.componentId!] = {
-                    quantity: 0,
-                    totalReceived: 0,
-                    avgPrice: 0,
-                    totalValue: 0,
-                    lastPrice: 0,
-                  };
-                }
-                const qty = parseFloat(item.quantity?.toString() || "0");
-                const price = parseFloat(item.price?.toString() || "0");
-                componentStock[item.componentId!].quantity += qty;
-                componentStock[item.componentId!].totalReceived += qty;
-                componentStock[item.componentId!].totalValue += qty * price;
-                componentStock[item.componentId!].lastPrice = price;
-              }
-            }
-            // Вычитаем предыдущие списания
-            for (const wo of writeoffs) {
-              if (wo.componentId && componentStock[wo.componentId]) {
-                componentStock[wo.componentId].quantity -= parseFloat(
-                  wo.quantity?.toString() || "0"
-                );
-              }
-            }
-            // Считаем средние цены (от общего количества поступлений, а не от остатка)
-            for (const id of Object.keys(componentStock)) {
-              if (componentStock[id].totalReceived > 0) {
-                componentStock[id].avgPrice =
-                  componentStock[id].totalValue /
-                  componentStock[id].totalReceived;
-              }
-            }
-
-            const today = new Date().toISOString().split("T")[0];
-            let writeoffsCreated = 0;
-
-            // Обрабатываем каждую створку
-            for (const sash of sashes) {
-              const width = parseFloat(sash.width?.toString() || "0");
-              const height = parseFloat(sash.height?.toString() || "0");
-              const widthM = width / 100;
-              const heightM = height / 100;
-              const areaM2 = widthM * heightM;
-              // Свойство quantity отсутствует у sash, использовать 1 по умолчанию
-              const quantity = 1;
-
-              // Списываем ткань
-              if (sash.fabricId) {
-                const fabric = allFabrics.find((f) => f.id === sash.fabricId);
-                const stock = fabricStock[sash.fabricId];
-
-                // Списываем даже если stock не найден, используем цену 0
-                if (fabric) {
-                  const fabricMultiplier =
-                    fabric.fabricType === "zebra" ? 2 : 1;
-                  const fabricQty = areaM2 * fabricMultiplier * quantity;
-                  const price = stock?.lastPrice || stock?.avgPrice || 0;
-
-                  await storage.createWarehouseWriteoff({
-                    orderId: req.params.id,
-                    itemType: "fabric",
-                    fabricId: sash.fabricId,
-                    quantity: fabricQty.toFixed(4),
-                    price: price.toFixed(2),
-                    total: (fabricQty * price).toFixed(2),
-                    date: today,
-                    userId: req.userId!,
-                  });
-                  writeoffsCreated++;
-                }
-              }
-
-              // Списываем комплектующие системы
-              if (sash.systemId) {
-                const system = allSystems.find((s) => s.id === sash.systemId);
-                if (system) {
-                  // Получаем компоненты системы
-                  const systemComps = await storage.getSystemComponents(
-                    system.id
-                  );
-
-                  for (const sc of systemComps) {
-                    const component = allComponents.find(
-                      (c) => c.id === sc.componentId
-                    );
-                    const stock = componentStock[sc.componentId];
-
-                    // Списываем даже если stock не найден
-                    if (component) {
-                      const compQuantity = parseFloat(
-                        sc.quantity?.toString() || "1"
-                      );
-                      const sizeSource = sc.sizeSource || null;
-                      const sizeMultiplier = parseFloat(
-                        sc.sizeMultiplier?.toString() || "1"
-                      );
-                      const unit = component.unit || "шт";
-
-                      let componentQty = compQuantity;
-                      const isMetric = ["м", "пм", "п.м.", "м.п."].includes(
-                        unit.toLowerCase()
-                      );
-
-                      if (isMetric) {
-                        if (sizeSource === "width") {
-                          componentQty = widthM * sizeMultiplier * compQuantity;
-                        } else if (sizeSource === "height") {
-                          componentQty =
-                            heightM * sizeMultiplier * compQuantity;
-                        } else {
-                          componentQty = widthM * sizeMultiplier * compQuantity;
-                        }
-                      }
-
-                      // Умножаем на количество створок
-                      componentQty *= quantity;
-
-                      const price = stock?.lastPrice || stock?.avgPrice || 0;
-
-                      await storage.createWarehouseWriteoff({
-                        orderId: req.params.id,
-                        itemType: "component",
-                        componentId: sc.componentId,
-                        quantity: componentQty.toFixed(4),
-                        price: price.toFixed(2),
-                        total: (componentQty * price).toFixed(2),
-                        date: today,
-                        userId: req.userId!,
-                      });
-                      writeoffsCreated++;
-                    }
-                  }
-                }
-              }
-
-              // Списываем компонент напрямую (для заказов товара)
-              if (sash.componentId && !sash.systemId) {
-                const component = allComponents.find(
-                  (c) => c.id === sash.componentId
-                );
-                const stock = componentStock[sash.componentId];
-
-                if (component) {
-                  const componentQty = quantity; // quantity уже парсится из sash.quantity
-                  const price = stock?.lastPrice || stock?.avgPrice || 0;
-
-                  await storage.createWarehouseWriteoff({
-                    orderId: req.params.id,
-                    itemType: "component",
-                    componentId: sash.componentId,
-                    quantity: componentQty.toFixed(4),
-                    price: price.toFixed(2),
-                    total: (componentQty * price).toFixed(2),
-                    date: today,
-                    userId: req.userId!,
-                  });
-                  writeoffsCreated++;
-                }
-              }
-            }
-          }
-        }
-
-        // 4. Отгружен → если материалы ещё не были списаны (пропустили "Готов"), списываем
-        if (status === "Отгружен" && oldStatus !== "Отгружен") {
-          // Блокируем отгрузку, если у любой ткани заказа нет средней цены
-          // (ткань была создана, но поступлений не было — себестоимость была
-          // бы занижена). Пользователь должен сначала оприходовать закупку.
-          const orderSashes = await storage.getOrderSashes(req.params.id);
-          const orderFabricIds = Array.from(
-            new Set(
-              orderSashes
-                .map((s) => s.fabricId)
-                .filter((id): id is string => !!id)
-            )
-          );
-          if (orderFabricIds.length > 0) {
-            const fabricAvgPrices = await getFabricAvgPrices(req.userId!);
-            const allFabrics = await storage.getFabrics(req.userId!);
-            const missing = orderFabricIds
-              .filter((id) => !fabricAvgPrices[id] || fabricAvgPrices[id] === 0)
-              .map(
-                (id) => allFabrics.find((f) => f.id === id)?.name || id
-              );
-            if (missing.length > 0) {
-              return res.status(400).json({
-                message: `Невозможно отгрузить заказ: не указана цена за ткань (${missing.join(
-                  ", "
-                )}). Оприходуйте закупку на складе.`,
-                missingFabricPrices: missing,
-                fabricPriceError: true,
-              });
-            }
-          }
-
-          const existingWriteoffs =
-            await storage.getWarehouseWriteoffsByOrderId(req.params.id);
-
-          if (existingWriteoffs.length === 0) {
-            // Материалы не списаны — выполняем списание как при "Готов"
-            const sashes = await storage.getOrderSashes(req.params.id);
-
-            const validation = await validateSashOrderStock(
-              req.userId!,
-              sashes
-            );
-            if (!validation.valid) {
-              return res.status(400).json({
-                message:
-                  "Невозможно изменить статус на 'Отгружен'. Недостаточно материалов на складе",
-                errors: validation.errors,
-                stockError: true,
-              });
-            }
-
-            const allFabrics = await storage.getFabrics(req.userId!);
-            const allSystems = await storage.getSystems(req.userId!);
-            const allComponents = await storage.getComponents(req.userId!);
-
-            const receipts = await storage.getWarehouseReceipts(req.userId!);
-            const writeoffs = await storage.getWarehouseWriteoffs(req.userId!);
-
-            // Рассчитываем текущие остатки тканей
-            const fabricStock: Record<
-              string,
-              {
-                quantity: number;
-                totalReceived: number;
-                avgPrice: number;
-                totalValue: number;
-                lastPrice: number;
-              }
-            > = {};
-            for (const receipt of receipts) {
-              const items = await storage.getWarehouseReceiptItems(receipt.id);
-              for (const item of items.filter((i) => i.fabricId)) {
-                if (!fabricStock[item.fabricId!]) {
-                  fabricStock[item.fabricId!] = {
-                    quantity: 0,
-                    totalReceived: 0,
-                    avgPrice: 0,
-                    totalValue: 0,
-                    lastPrice: 0,
-                  };
-                }
-                const qty = parseFloat(item.quantity?.toString() || "0");
-                const price = parseFloat(item.price?.toString() || "0");
-                fabricStock[item.fabricId!].quantity += qty;
-                fabricStock[item.fabricId!].totalReceived += qty;
-                fabricStock[item.fabricId!].totalValue += qty * price;
-                fabricStock[item.fabricId!].lastPrice = price;
-              }
-            }
-            for (const wo of writeoffs) {
-              if (wo.fabricId && fabricStock[wo.fabricId]) {
-                fabricStock[wo.fabricId].quantity -= parseFloat(
-                  wo.quantity?.toString() || "0"
-                );
-              }
-            }
-            for (const id of Object.keys(fabricStock)) {
-              if (fabricStock[id].totalReceived > 0) {
-                fabricStock[id].avgPrice =
-                  fabricStock[id].totalValue / fabricStock[id].totalReceived;
-              }
-            }
-
-            // Рассчитываем текущие остатки комплектующих
-            const componentStock: Record<
-              string,
-              {
-                quantity: number;
-                totalReceived: number;
-                avgPrice: number;
-                totalValue: number;
-                lastPrice: number;
-              }
-            > = {};
-            for (const receipt of receipts) {
-              const items = await storage.getWarehouseReceiptItems(receipt.id);
-              for (const item of items.filter((i) => i.componentId)) {
-                if (!componentStock[item.componentId!]) {
-                  componentStock[item.componentId!] = {
-                    quantity: 0,
-                    totalReceived: 0,
-                    avgPrice: 0,
-                    totalValue: 0,
-                    lastPrice: 0,
-                  };
-                }
-                const qty = parseFloat(item.quantity?.toString() || "0");
-                const price = parseFloat(item.price?.toString() || "0");
-                componentStock[item.componentId!].quantity += qty;
-                componentStock[item.componentId!].totalReceived += qty;
-                componentStock[item.componentId!].totalValue += qty * price;
-                componentStock[item.componentId!].lastPrice = price;
-              }
-            }
-            for (const wo of writeoffs) {
-              if (wo.componentId && componentStock[wo.componentId]) {
-                componentStock[wo.componentId].quantity -= parseFloat(
-                  wo.quantity?.toString() || "0"
-                );
-              }
-            }
-            for (const id of Object.keys(componentStock)) {
-              if (componentStock[id].totalReceived > 0) {
-                componentStock[id].avgPrice =
-                  componentStock[id].totalValue /
-                  componentStock[id].totalReceived;
-              }
-            }
-
-            const today = new Date().toISOString().split("T")[0];
-
-            for (const sash of sashes) {
-              const width = parseFloat(sash.width?.toString() || "0");
-              const height = parseFloat(sash.height?.toString() || "0");
-              const widthM = width / 100;
-              const heightM = height / 100;
-              const areaM2 = widthM * heightM;
-              const quantity = 1;
-
-              if (sash.fabricId) {
-                const fabric = allFabrics.find((f) => f.id === sash.fabricId);
-                const stock = fabricStock[sash.fabricId];
-
-                if (fabric) {
-                  const fabricMultiplier =
-                    fabric.fabricType === "zebra" ? 2 : 1;
-                  const fabricQty = areaM2 * fabricMultiplier * quantity;
-                  const price = stock?.lastPrice || stock?.avgPrice || 0;
-
-                  await storage.createWarehouseWriteoff({
-                    orderId: req.params.id,
-                    itemType: "fabric",
-                    fabricId: sash.fabricId,
-                    quantity: fabricQty.toFixed(4),
-                    price: price.toFixed(2),
-                    total: (fabricQty * price).toFixed(2),
-                    date: today,
-                    userId: req.userId!,
-                  });
-                }
-              }
-
-              if (sash.systemId) {
-                const system = allSystems.find((s) => s.id === sash.systemId);
-                if (system) {
-                  const systemComps = await storage.getSystemComponents(
-                    system.id
-                  );
-
-                  for (const sc of systemComps) {
-                    const component = allComponents.find(
-                      (c) => c.id === sc.componentId
-                    );
-                    const stock = componentStock[sc.componentId];
-
-                    if (component) {
-                      const compQuantity = parseFloat(
-                        sc.quantity?.toString() || "1"
-                      );
-                      const sizeSource = sc.sizeSource || null;
-                      const sizeMultiplier = parseFloat(
-                        sc.sizeMultiplier?.toString() || "1"
-                      );
-                      const unit = component.unit || "шт";
-
-                      let componentQty = compQuantity;
-                      const isMetric = ["м", "пм", "п.м.", "м.п."].includes(
-                        unit.toLowerCase()
-                      );
-
-                      if (isMetric) {
-                        if (sizeSource === "width") {
-                          componentQty = widthM * sizeMultiplier * compQuantity;
-                        } else if (sizeSource === "height") {
-                          componentQty =
-                            heightM * sizeMultiplier * compQuantity;
-                        } else {
-                          componentQty = widthM * sizeMultiplier * compQuantity;
-                        }
-                      }
-
-                      const price = stock?.lastPrice || stock?.avgPrice || 0;
-
-                      await storage.createWarehouseWriteoff({
-                        orderId: req.params.id,
-                        itemType: "component",
-                        componentId: sc.componentId,
-                        quantity: componentQty.toFixed(4),
-                        price: price.toFixed(2),
-                        total: (componentQty * price).toFixed(2),
-                        date: today,
-                        userId: req.userId!,
-                      });
-                    }
-                  }
-                }
-              }
-
-              if (sash.componentId && !sash.systemId) {
-                const component = allComponents.find(
-                  (c) => c.id === sash.componentId
-                );
-                const stock = componentStock[sash.componentId];
-
-                if (component) {
-                  const price = stock?.lastPrice || stock?.avgPrice || 0;
-
-                  await storage.createWarehouseWriteoff({
-                    orderId: req.params.id,
-                    itemType: "component",
-                    componentId: sash.componentId,
-                    quantity: quantity.toFixed(4),
-                    price: price.toFixed(2),
-                    total: (quantity * price).toFixed(2),
-                    date: today,
-                    userId: req.userId!,
-                  });
-                }
-              }
-            }
-          }
-        }
-
-        const updated = await storage.updateOrder(req.params.id, {
-          status,
-          dealerDebt: dealerDebt.toString(),
-        });
-
-        logAudit({
-          userId: req.userId!,
-          action: "status_change",
-          entityType: "order",
-          entityId: req.params.id,
-          before: { status: oldStatus },
-          after: { status },
-          metadata: { orderNumber: order.orderNumber },
-        });
-
-        notify({
+        const result = await transitionOrderStatus({
           userId: req.userId!,
-          type: "order_status",
-          title: "Статус заказа изменен",
-          message: `Заказ №${order.orderNumber}: ${oldStatus} -> ${status}`,
-          entityType: "order",
-          entityId: order.id,
+          actorId: req.actorId,
+          orderId: req.params.id,
+          to: req.body.status,
+          disposition: req.body.disposition,
+          reason: req.body.reason,
         });
-
-        if (order.dealerId) {
-          const statusLabels: Record<string, string> = {
-            "Новый": "Новый",
-            "В производстве": "В производстве",
-            "Готов": "Готов к выдаче",
-            "Отгружен": "Отгружен",
-          };
-          notifyDealer({
-            dealerId: order.dealerId,
-            userId: req.userId!,
-            title: "Статус заказа изменён",
-            message: `Заказ №${order.orderNumber}: ${statusLabels[status] || status}`,
-            entityType: "order",
-            entityId: order.id,
-          });
+        if (!result.ok) {
+          return res.status(result.status).json(result.body);
         }
-
-        res.json(updated);
+        res.json(result.order);
       } catch (error) {
         console.error("Update order status error:", error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -1395,16 +793,54 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/orders/:id",
     authMiddleware,
+    requirePermission("orders", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const orderToDelete = await storage.getOrder(req.params.id);
-        // Обнуляем ссылку в measurements перед удалением (FK без cascade)
-        await storage.unlinkMeasurementsFromOrder(req.params.id);
-        await storage.deleteOrder(req.params.id);
+        // Отгруженный заказ — уже история продаж: удаление её переписало бы
+        if (
+          orderToDelete?.status === "Отгружен" ||
+          orderToDelete?.status === "Возврат"
+        ) {
+          return res.status(400).json({
+            message: "Отгруженный заказ удалить нельзя — оформите возврат",
+          });
+        }
+        if (orderToDelete && (await storage.getShippedSashes([orderToDelete.id])).length > 0) {
+          return res.status(400).json({
+            message: "По заказу есть накладные — сначала удалите их",
+          });
+        }
+        const layoutCheck = await db.transaction(async (tx) => {
+          // Раскрои удалились бы каскадом — сторнируем их обрезь и обрезки.
+          // Первыми: если обрезки уже взяты другим раскроем, заказ не удаляется
+          const layouts = await storage.getCuttingLayoutsByOrder(req.params.id);
+          const deleted = await deleteCuttingLayouts(layouts.map((l) => l.id), tx);
+          if (!deleted.valid) return deleted;
+
+          // Обнуляем ссылку в measurements перед удалением (FK без cascade)
+          await tx
+            .update(measurements)
+            .set({ orderId: null })
+            .where(eq(measurements.orderId, req.params.id));
+          // Списания удаляются каскадом — возвращаем материалы в остатки
+          if (orderToDelete) {
+            await reverseOrderWriteoffMovements(tx, orderToDelete.userId, orderToDelete.id);
+          }
+          await tx.delete(orders).where(eq(orders.id, req.params.id));
+          return deleted;
+        });
+        if (!layoutCheck.valid) {
+          return res.status(400).json({
+            message: REMNANTS_IN_USE,
+            errors: layoutCheck.errors,
+          });
+        }
 
         if (orderToDelete) {
           logAudit({
             userId: req.userId!,
+            actorId: req.actorId,
             action: "delete",
             entityType: "order",
             entityId: req.params.id,
@@ -1425,6 +861,7 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/orders/:orderId/sashes",
     authMiddleware,
+    requirePermission("orders", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const sashes = await storage.getOrderSashes(req.params.orderId);
@@ -1439,13 +876,95 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/orders/:orderId/sashes",
     authMiddleware,
+    requirePermission("orders", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
-        const sash = await storage.createOrderSash({
-          ...sanitizeSashData(req.body),
-          orderId: req.params.orderId,
+        const orderId = req.params.orderId;
+        const order = await storage.getOrder(orderId);
+        if (!order || order.userId !== req.userId) {
+          return res.status(404).json({ message: "Заказ не найден" });
+        }
+        if (isReversedOrderStatus(order.status)) {
+          return res
+            .status(400)
+            .json({ message: "Отменённый или возвращённый заказ изменить нельзя" });
+        }
+        // Состав отгруженного или начатого цехом заказа не меняется — как
+        // при сохранении заказа
+        const [shipped, staged] = await Promise.all([
+          storage.getShippedSashes([orderId]),
+          storage.getSashStageEvents([orderId]),
+        ]);
+        if (shipped.length > 0 || staged.length > 0) {
+          return res.status(400).json({
+            message:
+              shipped.length > 0
+                ? "По заказу есть накладные — створки изменить нельзя"
+                : "Цех уже отметил этапы по створкам — створки изменить нельзя",
+          });
+        }
+
+        const { skipCoefficientValidation, ...sashData } = req.body;
+        const coefficientWarnings = (
+          await validateSashCoefficients(req.userId!, [sashData])
+        ).errors;
+        if (coefficientWarnings.length > 0 && !skipCoefficientValidation) {
+          return res.status(400).json({
+            message: "Коэффициенты требуют подтверждения",
+            errors: coefficientWarnings,
+            coefficientWarning: true,
+          });
+        }
+
+        // Под блокировкой заказа: в производстве резерв пересчитывается
+        // вместе с новой створкой, как при сохранении заказа
+        const values = { ...sanitizeSashData(sashData), orderId };
+        const outcome = await db.transaction(async (tx) => {
+          const [locked] = await tx
+            .select({ status: orders.status })
+            .from(orders)
+            .where(eq(orders.id, orderId))
+            .for("update");
+          if (!locked) return { notFound: true };
+          if (isReversedOrderStatus(locked.status)) return { reversed: true };
+
+          if (locked.status === "В производстве") {
+            const current = await tx
+              .select()
+              .from(orderSashes)
+              .where(eq(orderSashes.orderId, orderId));
+            const requirements = await getSashMaterialRequirements(req.userId!, [
+              ...current,
+              sashData,
+            ]);
+            const validation = await refreshOrderReservation(
+              tx,
+              req.userId!,
+              orderId,
+              requirements
+            );
+            if (!validation.valid) return { errors: validation.errors };
+          }
+
+          const [sash] = await tx.insert(orderSashes).values(values).returning();
+          return { sash };
         });
-        res.json(sash);
+        if (outcome.notFound) {
+          return res.status(404).json({ message: "Заказ не найден" });
+        }
+        if (outcome.reversed) {
+          return res
+            .status(400)
+            .json({ message: "Отменённый или возвращённый заказ изменить нельзя" });
+        }
+        if (outcome.errors) {
+          return res.status(400).json({
+            message: "Недостаточно материалов на складе",
+            errors: outcome.errors,
+            stockError: true,
+          });
+        }
+        res.json(outcome.sash);
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -1458,6 +977,7 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/orders/:id/installment",
     authMiddleware,
+    requirePermission("orders", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const plan = await storage.getInstallmentPlanByOrderId(req.params.id);
@@ -1472,12 +992,16 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/orders/:id/installment",
     authMiddleware,
+    requirePermission("orders", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const order = await storage.getOrder(req.params.id);
         if (!order || order.userId !== req.userId) {
           return res.status(404).json({ message: "Заказ не найден" });
         }
+        if (isReversedOrderStatus(order.status)) {
+          return res.status(400).json({ message: "Заказ отменён или возвращён" });
+        }
         const { downPayment = 0, months, paymentDay } = req.body;
         const totalAmount = parseFloat(order.salePrice?.toString() || "0");
         const dp = parseFloat(downPayment.toString());
@@ -1527,6 +1051,7 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/installment-payments/:id/pay",
     authMiddleware,
+    requirePermission("finance", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const payment = await storage.getInstallmentPayment(req.params.id);
@@ -1558,6 +1083,7 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/installment-payments/:id/unpay",
     authMiddleware,
+    requirePermission("finance", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const payment = await storage.getInstallmentPayment(req.params.id);
@@ -1576,6 +1102,7 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/orders/:id/installment",
     authMiddleware,
+    requirePermission("orders", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const plan = await storage.getInstallmentPlanByOrderId(req.params.id);
@@ -1591,92 +1118,18 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
 
   // ===== CUTTING LAYOUTS =====
 
-  function calculateOptimalCutting(
-    pieces: Array<{ index: number; width: number; height: number; quantity: number }>,
-    rollWidth: number,
-    fabricType: string = "roll"
-  ): {
-    rows: Array<{
-      rowIndex: number;
-      cutLength: number;
-      pieces: Array<{ sashIndex: number; width: number; height: number }>;
-      usedWidth: number;
-      wasteWidth: number;
-    }>;
-    totalLength: number;
-    wastePercent: number;
-  } {
-    // Развернуть все куски по количеству
-    const isZebra = fabricType === "zebra";
-    const allPieces: Array<{ sashIndex: number; width: number; height: number }> = [];
-    for (const piece of pieces) {
-      for (let i = 0; i < piece.quantity; i++) {
-        allPieces.push({
-          sashIndex: piece.index,
-          width: piece.width,
-          height: (isZebra ? piece.height * 2 : piece.height) + 20,
-        });
-      }
-    }
-
-    // Сортировка: сначала по высоте (убывание), потом по ширине (убывание)
-    allPieces.sort((a, b) => b.height - a.height || b.width - a.width);
-
-    const rows: Array<{
-      rowIndex: number;
-      cutLength: number;
-      pieces: Array<{ sashIndex: number; width: number; height: number }>;
-      usedWidth: number;
-      wasteWidth: number;
-    }> = [];
-
-    const placed = new Set<number>();
-
-    for (let i = 0; i < allPieces.length; i++) {
-      if (placed.has(i)) continue;
-
-      const piece = allPieces[i];
-      const row: typeof rows[0] = {
-        rowIndex: rows.length + 1,
-        cutLength: piece.height,
-        pieces: [{ sashIndex: piece.sashIndex, width: piece.width, height: piece.height }],
-        usedWidth: piece.width,
-        wasteWidth: rollWidth - piece.width,
-      };
-      placed.add(i);
-
-      // Пытаемся добавить ещё куски в этот ряд
-      for (let j = i + 1; j < allPieces.length; j++) {
-        if (placed.has(j)) continue;
-        const candidate = allPieces[j];
-
-        // Кусок помещается по ширине и его высота <= высоте ряда (отрез идёт по максимальной)
-        if (row.usedWidth + candidate.width <= rollWidth && candidate.height <= row.cutLength) {
-          row.pieces.push({ sashIndex: candidate.sashIndex, width: candidate.width, height: candidate.height });
-          row.usedWidth += candidate.width;
-          row.wasteWidth = rollWidth - row.usedWidth;
-          placed.add(j);
-        }
-      }
-
-      rows.push(row);
-    }
-
-    const totalLength = rows.reduce((sum, r) => sum + r.cutLength, 0);
-    const totalArea = rollWidth * totalLength;
-    const usedArea = rows.reduce(
-      (sum, r) => sum + r.pieces.reduce((s, p) => s + p.width * p.height, 0),
-      0
-    );
-    const wastePercent = totalArea > 0 ? ((totalArea - usedArea) / totalArea) * 100 : 0;
-
-    return { rows, totalLength, wastePercent };
-  }
+  const toCuttingPiece = (sash: OrderSash, index: number): CuttingPieceInput => ({
+    index,
+    width: parseFloat(sash.width?.toString() || "0"),
+    height: parseFloat(sash.height?.toString() || "0"),
+    quantity: parseFloat((sash as any).quantity?.toString() || "1"),
+  });
 
   // POST /api/orders/:orderId/cutting - рассчитать и сохранить раскрой
   router.post(
     "/orders/:orderId/cutting",
     authMiddleware,
+    requirePermission("production", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const orderId = req.params.orderId;
@@ -1690,69 +1143,46 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
           return res.status(400).json({ message: "В заказе нет створок" });
         }
 
-        // Группируем створки по ткани
-        const fabricGroups = new Map<string, Array<{
-          index: number;
-          width: number;
-          height: number;
-          quantity: number;
-        }>>();
+        // Створки, уже раскроенные в партии, второй раз ткань не расходуют
+        const batch = await loadCuttingLayouts(
+          await storage.getBatchCuttingLayouts(req.userId!),
+          req.userId!
+        );
+        const inBatch = batch.some((layout) =>
+          layout.rows.some((row) => row.pieces.some((p) => p.orderId === orderId))
+        );
+        if (inBatch) {
+          return res.status(400).json({
+            message: "Заказ уже в раскрое партии — пересчитайте раскрой партии",
+          });
+        }
 
+        // Группируем створки по ткани
+        const fabricGroups = new Map<string, CuttingPieceInput[]>();
         sashes.forEach((sash, i) => {
           if (!sash.fabricId) return;
           const group = fabricGroups.get(sash.fabricId) || [];
-          group.push({
-            index: i + 1,
-            width: parseFloat(sash.width?.toString() || "0"),
-            height: parseFloat(sash.height?.toString() || "0"),
-            quantity: parseFloat((sash as any).quantity?.toString() || "1"),
-          });
+          group.push(toCuttingPiece(sash, i + 1));
           fabricGroups.set(sash.fabricId, group);
         });
 
-        // Удаляем старый раскрой для этого заказа
-        await storage.deleteCuttingLayoutsByOrder(orderId);
+        // Удаляем старый раскрой для этого заказа (его обрезки освобождаются)
+        const previous = await storage.getCuttingLayoutsByOrder(orderId);
+        const replaced = await deleteCuttingLayouts(previous.map((l) => l.id));
+        if (!replaced.valid) {
+          return res
+            .status(400)
+            .json({ message: REMNANTS_IN_USE, errors: replaced.errors });
+        }
 
         const allFabrics = await storage.getFabrics(req.userId!);
-        const results: any[] = [];
+        const results: CuttingLayoutWithRows[] = [];
 
         for (const [fabricId, pieces] of fabricGroups) {
           const fabric = allFabrics.find((f) => f.id === fabricId);
-          const rollWidth = parseFloat(fabric?.width?.toString() || "0");
-          if (rollWidth <= 0) {
-            continue; // Пропускаем ткани без указанной ширины рулона
-          }
-
-          const { rows, totalLength, wastePercent } = calculateOptimalCutting(pieces, rollWidth, fabric?.fabricType || "roll");
-
-          const layout = await storage.createCuttingLayout({
-            orderId,
-            fabricId,
-            rollWidth: rollWidth.toFixed(2),
-            totalLength: totalLength.toFixed(2),
-            wastePercent: wastePercent.toFixed(2),
-            userId: req.userId!,
-          });
-
-          const layoutRows = await storage.createCuttingLayoutRows(
-            rows.map((r) => ({
-              layoutId: layout.id,
-              rowIndex: r.rowIndex,
-              cutLength: r.cutLength.toFixed(2),
-              pieces: JSON.stringify(r.pieces),
-              usedWidth: r.usedWidth.toFixed(2),
-              wasteWidth: r.wasteWidth.toFixed(2),
-            }))
-          );
-
-          results.push({
-            ...layout,
-            fabricName: fabric?.name,
-            rows: layoutRows.map((r) => ({
-              ...r,
-              pieces: JSON.parse(r.pieces),
-            })),
-          });
+          if (!fabric) continue;
+          const layout = await buildCuttingLayout(req.userId!, fabric, pieces, orderId);
+          if (layout) results.push(layout);
         }
 
         res.json(results);
@@ -1767,27 +1197,11 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/orders/:orderId/cutting",
     authMiddleware,
+    requirePermission("orders", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const layouts = await storage.getCuttingLayoutsByOrder(req.params.orderId);
-        const allFabrics = await storage.getFabrics(req.userId!);
-
-        const results = await Promise.all(
-          layouts.map(async (layout) => {
-            const rows = await storage.getCuttingLayoutRows(layout.id);
-            const fabric = allFabrics.find((f) => f.id === layout.fabricId);
-            return {
-              ...layout,
-              fabricName: fabric?.name,
-              rows: rows.map((r) => ({
-                ...r,
-                pieces: JSON.parse(r.pieces),
-              })),
-            };
-          })
-        );
-
-        res.json(results);
+        res.json(await loadCuttingLayouts(layouts, req.userId!));
       } catch (error) {
         console.error("Get cutting layout error:", error);
         res.status(500).json({ message: "Ошибка загрузки раскроя" });
@@ -1799,9 +1213,16 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/orders/:orderId/cutting",
     authMiddleware,
+    requirePermission("production", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
-        await storage.deleteCuttingLayoutsByOrder(req.params.orderId);
+        const layouts = await storage.getCuttingLayoutsByOrder(req.params.orderId);
+        const deleted = await deleteCuttingLayouts(layouts.map((l) => l.id));
+        if (!deleted.valid) {
+          return res
+            .status(400)
+            .json({ message: REMNANTS_IN_USE, errors: deleted.errors });
+        }
         res.json({ success: true });
       } catch (error) {
         res.status(500).json({ message: "Ошибка удаления раскроя" });
@@ -1809,5 +1230,88 @@ export function createOrdersRouter(authMiddleware: AuthMiddleware): Router {
     }
   );
 
+  // GET /api/cutting/batch - сохранённый раскрой партии
+  router.get(
+    "/cutting/batch",
+    authMiddleware,
+    requirePermission("production", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const layouts = await storage.getBatchCuttingLayouts(req.userId!);
+        res.json(await loadCuttingLayouts(layouts, req.userId!));
+      } catch (error) {
+        console.error("Get batch cutting error:", error);
+        res.status(500).json({ message: "Ошибка загрузки раскроя" });
+      }
+    }
+  );
+
+  // POST /api/cutting/batch - раскрой всех заказов «В производстве» вместе,
+  // по каждой ткани (или только по fabricId из тела запроса)
+  router.post(
+    "/cutting/batch",
+    authMiddleware,
+    requirePermission("production", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const onlyFabricId =
+          typeof req.body?.fabricId === "string" ? req.body.fabricId : undefined;
+
+        const inProduction = await storage.getOrders(req.userId!, {
+          status: "В производстве",
+        });
+
+        const fabricGroups = new Map<string, CuttingPieceInput[]>();
+        for (const order of inProduction) {
+          // У заказа свой раскрой — ткань под него уже рассчитана
+          if ((await storage.getCuttingLayoutsByOrder(order.id)).length > 0) continue;
+          const sashes = await storage.getOrderSashes(order.id);
+          sashes.forEach((sash, i) => {
+            if (!sash.fabricId) return;
+            if (onlyFabricId && sash.fabricId !== onlyFabricId) return;
+            const group = fabricGroups.get(sash.fabricId) || [];
+            group.push({
+              ...toCuttingPiece(sash, i + 1),
+              orderId: order.id,
+              orderNumber: order.orderNumber,
+            });
+            fabricGroups.set(sash.fabricId, group);
+          });
+        }
+
+        if (fabricGroups.size === 0) {
+          return res
+            .status(400)
+            .json({ message: "Нет створок в заказах «В производстве» без своего раскроя" });
+        }
+
+        // Предыдущий раскрой партии по этим тканям заменяется
+        const previous = await storage.getBatchCuttingLayouts(req.userId!);
+        const replaced = await deleteCuttingLayouts(
+          previous.filter((l) => fabricGroups.has(l.fabricId)).map((l) => l.id)
+        );
+        if (!replaced.valid) {
+          return res
+            .status(400)
+            .json({ message: REMNANTS_IN_USE, errors: replaced.errors });
+        }
+
+        const allFabrics = await storage.getFabrics(req.userId!);
+        const results: CuttingLayoutWithRows[] = [];
+        for (const [fabricId, pieces] of Array.from(fabricGroups)) {
+          const fabric = allFabrics.find((f) => f.id === fabricId);
+          if (!fabric) continue;
+          const layout = await buildCuttingLayout(req.userId!, fabric, pieces, null);
+          if (layout) results.push(layout);
+        }
+
+        res.json(results);
+      } catch (error) {
+        console.error("Batch cutting error:", error);
+        res.status(500).json({ message: "Ошибка расчёта раскроя" });
+      }
+    }
+  );
+
   return router;
 }
@@ -0,0 +1,177 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { requirePermission } from "../permissions";
+import { logAudit } from "../audit";
+import {
+  priceTierFormSchema,
+  type PriceTier,
+  type PriceTierForm,
+} from "@shared/schema";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  actorId?: string;
+}
+
+type AuthMiddleware = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => void;
+
+// Форма → строка таблицы: правила прайс-листа хранятся JSON-текстом
+function toRow(form: PriceTierForm) {
+  return {
+    name: form.name,
+    baseRateRulon: form.baseRateRulon.toString(),
+    baseRateZebra: form.baseRateZebra.toString(),
+    categorySurcharges: JSON.stringify(form.categorySurcharges),
+    volumeDiscounts: JSON.stringify(
+      [...form.volumeDiscounts].sort((a, b) => a.minQuantity - b.minQuantity)
+    ),
+    promotions: JSON.stringify(form.promotions),
+    comment: form.comment || null,
+  };
+}
+
+export function createPriceTiersRouter(authMiddleware: AuthMiddleware): Router {
+  const router = Router();
+
+  // Прайс-лист текущего рабочего пространства или 404
+  const loadTier = async (
+    req: AuthRequest,
+    res: Response
+  ): Promise<PriceTier | null> => {
+    const tier = await storage.getPriceTier(req.params.id);
+    if (!tier || tier.userId !== req.userId) {
+      res.status(404).json({ message: "Прайс-лист не найден" });
+      return null;
+    }
+    return tier;
+  };
+
+  router.get(
+    "/price-tiers",
+    authMiddleware,
+    requirePermission("dealers", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const [tiers, dealerCounts] = await Promise.all([
+          storage.getPriceTiers(req.userId!),
+          storage.getPriceTierDealerCounts(req.userId!),
+        ]);
+        res.json(
+          tiers.map((tier) => ({
+            ...tier,
+            dealersCount: dealerCounts[tier.id] || 0,
+          }))
+        );
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.post(
+    "/price-tiers",
+    authMiddleware,
+    requirePermission("dealers", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const parsed = priceTierFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const tier = await storage.createPriceTier({
+          ...toRow(parsed.data),
+          userId: req.userId!,
+        });
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "create",
+          entityType: "price_tier",
+          entityId: tier.id,
+          after: tier,
+        });
+
+        res.json(tier);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.patch(
+    "/price-tiers/:id",
+    authMiddleware,
+    requirePermission("dealers", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const before = await loadTier(req, res);
+        if (!before) return;
+
+        const parsed = priceTierFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const tier = await storage.updatePriceTier(before.id, toRow(parsed.data));
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "update",
+          entityType: "price_tier",
+          entityId: before.id,
+          before,
+          after: tier,
+        });
+
+        res.json(tier);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Дилеры удалённого прайс-листа возвращаются к своим тарифам
+  router.delete(
+    "/price-tiers/:id",
+    authMiddleware,
+    requirePermission("dealers", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const before = await loadTier(req, res);
+        if (!before) return;
+
+        await storage.deletePriceTier(before.id);
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "delete",
+          entityType: "price_tier",
+          entityId: before.id,
+          before,
+        });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  return router;
+}
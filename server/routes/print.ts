@@ -0,0 +1,235 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { requirePermission } from "../permissions";
+import { loadCuttingLayouts } from "../cutting";
+import { loadOrderShipments } from "../shipments";
+import {
+  renderCuttingCards,
+  renderDeliveryNote,
+  renderJobSheet,
+  renderSashLabels,
+} from "../pdf";
+import type { Order, OrderSash } from "@shared/schema";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  actorId?: string;
+}
+
+type AuthMiddleware = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => void;
+
+function sendPdf(res: Response, filename: string, pdf: Buffer) {
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+  res.send(pdf);
+}
+
+const roomLabel = (sash: OrderSash) => sash.roomName || `Комната ${sash.room ?? 1}`;
+
+// Печатные формы для цеха (PDF)
+export function createPrintRouter(authMiddleware: AuthMiddleware): Router {
+  const router = Router();
+
+  // Заказ текущего рабочего пространства или 404
+  const loadOrder = async (req: AuthRequest, res: Response): Promise<Order | null> => {
+    const order = await storage.getOrder(req.params.id);
+    if (!order || order.userId !== req.userId) {
+      res.status(404).json({ message: "Заказ не найден" });
+      return null;
+    }
+    return order;
+  };
+
+  // Названия системы, ткани и цветов створки; для заказов из мобильного
+  // приложения — строки, которые прислал дилер
+  const loadSashNames = async (userId: string) => {
+    const [systemList, fabricList, colorList] = await Promise.all([
+      storage.getSystems(userId),
+      storage.getFabrics(userId),
+      storage.getColors(userId),
+    ]);
+    const colorName = (id: string | null) =>
+      colorList.find((c) => c.id === id)?.name || "";
+    return (sash: OrderSash) => ({
+      system: systemList.find((s) => s.id === sash.systemId)?.name || sash.systemName || "",
+      systemColor: colorName(sash.systemColorId),
+      fabric: fabricList.find((f) => f.id === sash.fabricId)?.name || sash.fabricName || "",
+      fabricColor: colorName(sash.fabricColorId),
+    });
+  };
+
+  // GET /api/orders/:id/cutting/pdf - карты раскроя заказа
+  router.get(
+    "/orders/:id/cutting/pdf",
+    authMiddleware,
+    requirePermission("production", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const order = await loadOrder(req, res);
+        if (!order) return;
+
+        const layouts = await loadCuttingLayouts(
+          await storage.getCuttingLayoutsByOrder(order.id),
+          req.userId!
+        );
+        const pdf = await renderCuttingCards(layouts, `Раскрой заказа №${order.orderNumber}`);
+        sendPdf(res, `cutting-${order.orderNumber}.pdf`, pdf);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // GET /api/cutting/batch/pdf - карты раскроя партии
+  router.get(
+    "/cutting/batch/pdf",
+    authMiddleware,
+    requirePermission("production", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const layouts = await loadCuttingLayouts(
+          await storage.getBatchCuttingLayouts(req.userId!),
+          req.userId!
+        );
+        const pdf = await renderCuttingCards(layouts, "Раскрой партии");
+        sendPdf(res, "cutting-batch.pdf", pdf);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // GET /api/orders/:id/job-sheet/pdf - задание в цех
+  router.get(
+    "/orders/:id/job-sheet/pdf",
+    authMiddleware,
+    requirePermission("orders", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const order = await loadOrder(req, res);
+        if (!order) return;
+
+        const [sashes, dealer, sashNames] = await Promise.all([
+          storage.getOrderSashes(order.id),
+          order.dealerId ? storage.getDealer(order.dealerId) : undefined,
+          loadSashNames(req.userId!),
+        ]);
+
+        const pdf = await renderJobSheet({
+          orderNumber: order.orderNumber,
+          date: order.date,
+          dealerName: dealer?.fullName,
+          comment: order.comment,
+          sashes: sashes.map((sash) => ({
+            ...sashNames(sash),
+            room: roomLabel(sash),
+            width: sash.width,
+            height: sash.height,
+            controlSide: sash.controlSide || "",
+          })),
+        });
+        sendPdf(res, `job-sheet-${order.orderNumber}.pdf`, pdf);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // GET /api/orders/:id/labels/pdf - этикетки на створки с QR створки
+  router.get(
+    "/orders/:id/labels/pdf",
+    authMiddleware,
+    requirePermission("orders", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const order = await loadOrder(req, res);
+        if (!order) return;
+
+        const [sashes, sashNames] = await Promise.all([
+          storage.getOrderSashes(order.id),
+          loadSashNames(req.userId!),
+        ]);
+        // Скан этикетки открывает створку на экране цеха, с него — заказ
+        const baseUrl = `${req.protocol}://${req.get("host")}/workshop?sash=`;
+
+        const pdf = await renderSashLabels(
+          sashes.map((sash) => ({
+            orderNumber: order.orderNumber,
+            room: roomLabel(sash),
+            width: sash.width,
+            height: sash.height,
+            controlSide: sash.controlSide || "",
+            system: sashNames(sash).system,
+            url: baseUrl + sash.id,
+          }))
+        );
+        sendPdf(res, `labels-${order.orderNumber}.pdf`, pdf);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // GET /api/shipments/:id/pdf - накладная на отгрузку части створок
+  router.get(
+    "/shipments/:id/pdf",
+    authMiddleware,
+    requirePermission("orders", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const shipment = await storage.getShipment(req.params.id);
+        const order = shipment && (await storage.getOrder(shipment.orderId));
+        if (!shipment || !order || order.userId !== req.userId) {
+          return res.status(404).json({ message: "Накладная не найдена" });
+        }
+
+        const [shipments, dealer, sashNames] = await Promise.all([
+          loadOrderShipments(order),
+          order.dealerId ? storage.getDealer(order.dealerId) : undefined,
+          loadSashNames(req.userId!),
+        ]);
+        const sashes = shipments.sashes.filter((s) => s.shipmentId === shipment.id);
+        // Уехавшие этой и предыдущими накладными
+        const shippedCount = shipments.sashes.filter((s) => {
+          const by = shipments.shipments.find((sh) => sh.id === s.shipmentId);
+          return by && by.number <= shipment.number;
+        }).length;
+
+        const pdf = await renderDeliveryNote({
+          number: shipment.number,
+          date: shipment.date,
+          orderNumber: order.orderNumber,
+          dealerName: dealer?.fullName,
+          driverName: shipment.driverName,
+          recipientName: shipment.recipientName,
+          signature: shipment.signature,
+          comment: shipment.comment,
+          sashes: sashes.map((sash) => ({
+            room: roomLabel(sash),
+            width: sash.width,
+            height: sash.height,
+            system: sashNames(sash).system,
+            fabric: sashNames(sash).fabric,
+            controlSide: sash.controlSide || "",
+          })),
+          shippedCount,
+          totalCount: shipments.totalCount,
+        });
+        sendPdf(res, `delivery-note-${shipment.number}.pdf`, pdf);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,126 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { requirePermission } from "../permissions";
+import { loadProductionSchedule } from "../production-calendar";
+import {
+  productionCalendarDayFormSchema,
+  productionCapacitySchema,
+} from "@shared/schema";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  actorId?: string;
+}
+
+type AuthMiddleware = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => void;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_DAYS = 366;
+
+export function createProductionCalendarRouter(authMiddleware: AuthMiddleware): Router {
+  const router = Router();
+
+  // План цеха: мощность по дням, загрузка по срокам и оценки готовности
+  router.get(
+    "/production/calendar",
+    authMiddleware,
+    requirePermission("production", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const days = Math.min(
+          Math.max(parseInt(String(req.query.days || "28"), 10) || 28, 1),
+          MAX_DAYS
+        );
+        res.json(await loadProductionSchedule(req.userId!, days));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Мощность и рабочая неделя — общие для рабочего пространства, хранятся у владельца
+  router.put(
+    "/production/calendar/capacity",
+    authMiddleware,
+    requirePermission("production", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const parsed = productionCapacitySchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+        const { capacityUnit, dailyCapacity, workingDays } = parsed.data;
+        const updated = await storage.updateUser(req.userId!, {
+          capacityUnit,
+          dailyCapacity: dailyCapacity != null ? dailyCapacity.toFixed(2) : null,
+          workingDays: JSON.stringify(Array.from(new Set(workingDays)).sort((a, b) => a - b)),
+        });
+        if (!updated) {
+          return res.status(404).json({ message: "Пользователь не найден" });
+        }
+        res.json(await loadProductionSchedule(req.userId!));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Исключение на день: выходной, короткий день или рабочая суббота
+  router.put(
+    "/production/calendar/days/:date",
+    authMiddleware,
+    requirePermission("production", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        if (!DATE_RE.test(req.params.date)) {
+          return res.status(400).json({ message: "Некорректная дата" });
+        }
+        const parsed = productionCalendarDayFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+        const day = await storage.upsertProductionCalendarDay({
+          date: req.params.date,
+          capacity: parsed.data.capacity.toFixed(2),
+          comment: parsed.data.comment || null,
+          userId: req.userId!,
+        });
+        res.json(day);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Вернуть день к обычной неделе
+  router.delete(
+    "/production/calendar/days/:date",
+    authMiddleware,
+    requirePermission("production", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        if (!DATE_RE.test(req.params.date)) {
+          return res.status(400).json({ message: "Некорректная дата" });
+        }
+        await storage.deleteProductionCalendarDay(req.userId!, req.params.date);
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  return router;
+}
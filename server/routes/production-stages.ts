@@ -0,0 +1,172 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { requirePermission } from "../permissions";
+import { logAudit } from "../audit";
+import {
+  advanceSashStage,
+  loadSashStages,
+  revertSashStage,
+} from "../production-stages";
+import {
+  sashStageAdvanceSchema,
+  type Order,
+  type OrderSash,
+} from "@shared/schema";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  actorId?: string;
+}
+
+type AuthMiddleware = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => void;
+
+export function createProductionStagesRouter(authMiddleware: AuthMiddleware): Router {
+  const router = Router();
+
+  // Створка текущего рабочего пространства вместе с заказом или 404
+  const loadSash = async (
+    req: AuthRequest,
+    res: Response
+  ): Promise<{ sash: OrderSash; order: Order } | null> => {
+    const sash = await storage.getOrderSash(req.params.id);
+    const order = sash && (await storage.getOrder(sash.orderId));
+    if (!sash || !order || order.userId !== req.userId) {
+      res.status(404).json({ message: "Створка не найдена" });
+      return null;
+    }
+    return { sash, order };
+  };
+
+  // Названия системы и ткани для экрана цеха
+  const sashNames = async (userId: string, sash: OrderSash) => {
+    const [systemList, fabricList] = await Promise.all([
+      storage.getSystems(userId),
+      storage.getFabrics(userId),
+    ]);
+    return {
+      system: systemList.find((s) => s.id === sash.systemId)?.name || sash.systemName || "",
+      fabric: fabricList.find((f) => f.id === sash.fabricId)?.name || sash.fabricName || "",
+    };
+  };
+
+  // Створка по скану этикетки: пройденные этапы и прогресс заказа
+  router.get(
+    "/sashes/:id/stages",
+    authMiddleware,
+    requirePermission("production", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const loaded = await loadSash(req, res);
+        if (!loaded) return;
+        const [stages, names] = await Promise.all([
+          loadSashStages(loaded.order, loaded.sash),
+          sashNames(req.userId!, loaded.sash),
+        ]);
+        res.json({ ...stages, ...names });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.post(
+    "/sashes/:id/stages",
+    authMiddleware,
+    requirePermission("production", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const loaded = await loadSash(req, res);
+        if (!loaded) return;
+
+        const parsed = sashStageAdvanceSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const result = await advanceSashStage({
+          userId: req.userId!,
+          actorId: req.actorId,
+          order: loaded.order,
+          sash: loaded.sash,
+          stage: parsed.data.stage,
+        });
+        if (!result.ok) {
+          return res.status(result.status).json(result.body);
+        }
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "create",
+          entityType: "sash_stage",
+          entityId: loaded.sash.id,
+          after: {
+            stage: result.event.stage,
+            completedAt: result.event.completedAt,
+            workerId: result.event.workerId,
+          },
+          metadata: { orderNumber: loaded.order.orderNumber },
+        });
+
+        const [stages, names] = await Promise.all([
+          loadSashStages(result.order, loaded.sash),
+          sashNames(req.userId!, loaded.sash),
+        ]);
+        res.json({ ...stages, ...names, statusError: result.statusError });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Снять последнюю отметку — створку отсканировали по ошибке
+  router.delete(
+    "/sashes/:id/stages/last",
+    authMiddleware,
+    requirePermission("production", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const loaded = await loadSash(req, res);
+        if (!loaded) return;
+
+        const result = await revertSashStage(loaded);
+        if (!result.ok) {
+          return res.status(result.status).json(result.body);
+        }
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "delete",
+          entityType: "sash_stage",
+          entityId: loaded.sash.id,
+          before: {
+            stage: result.event.stage,
+            completedAt: result.event.completedAt,
+            workerId: result.event.workerId,
+          },
+          metadata: { orderNumber: loaded.order.orderNumber },
+        });
+
+        const [stages, names] = await Promise.all([
+          loadSashStages(loaded.order, loaded.sash),
+          sashNames(req.userId!, loaded.sash),
+        ]);
+        res.json({ ...stages, ...names });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,420 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { db } from "../db";
+import { recordReceiptMovements } from "../stock";
+import { getPurchaseOrderLines, refreshPurchaseOrderStatus } from "../purchasing";
+import { requirePermission } from "../permissions";
+import { logAudit } from "../audit";
+import {
+  purchaseOrderFormSchema,
+  purchaseOrderReceiveSchema,
+  type PurchaseOrder,
+  type WarehouseReceiptItem,
+} from "@shared/schema";
+import type { z } from "zod";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  actorId?: string;
+}
+
+type AuthMiddleware = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => void;
+
+type PurchaseOrderForm = z.infer<typeof purchaseOrderFormSchema>;
+
+function buildLines(items: PurchaseOrderForm["items"]) {
+  return items.map((item) => ({
+    itemType: item.itemType,
+    fabricId: item.itemType === "fabric" ? item.fabricId || null : null,
+    componentId: item.itemType === "component" ? item.componentId || null : null,
+    quantity: item.quantity.toFixed(2),
+    price: item.price.toFixed(2),
+    total: (item.quantity * item.price).toFixed(2),
+  }));
+}
+
+export function createPurchaseOrdersRouter(authMiddleware: AuthMiddleware): Router {
+  const router = Router();
+
+  // Заказ текущего рабочего пространства или 404
+  const loadOrder = async (
+    req: AuthRequest,
+    res: Response
+  ): Promise<PurchaseOrder | null> => {
+    const order = await storage.getPurchaseOrder(req.params.id);
+    if (!order || order.userId !== req.userId) {
+      res.status(404).json({ message: "Заказ поставщику не найден" });
+      return null;
+    }
+    return order;
+  };
+
+  // ===== PURCHASE ORDERS =====
+  router.get(
+    "/purchase-orders",
+    authMiddleware,
+    requirePermission("warehouse", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const [orders, supplierList] = await Promise.all([
+          storage.getPurchaseOrders(req.userId!),
+          storage.getSuppliers(req.userId!),
+        ]);
+
+        const result = await Promise.all(
+          orders.map(async (order) => {
+            const lines = await getPurchaseOrderLines(order.id);
+            const receivedTotal = lines.reduce(
+              (sum, l) => sum + l.receivedQuantity * parseFloat(l.price),
+              0
+            );
+            return {
+              ...order,
+              supplier: supplierList.find((s) => s.id === order.supplierId),
+              itemsCount: lines.length,
+              receivedTotal,
+            };
+          })
+        );
+
+        res.json(result);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.get(
+    "/purchase-orders/:id",
+    authMiddleware,
+    requirePermission("warehouse", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const order = await loadOrder(req, res);
+        if (!order) return;
+
+        const [lines, supplier, fabricList, componentList, receipts] =
+          await Promise.all([
+            getPurchaseOrderLines(order.id),
+            storage.getSupplier(order.supplierId),
+            storage.getFabrics(req.userId!),
+            storage.getComponents(req.userId!),
+            storage.getWarehouseReceipts(req.userId!),
+          ]);
+
+        res.json({
+          ...order,
+          supplier,
+          items: lines.map((line) => ({
+            ...line,
+            fabric: fabricList.find((f) => f.id === line.fabricId),
+            component: componentList.find((c) => c.id === line.componentId),
+          })),
+          receipts: receipts.filter((r) => r.purchaseOrderId === order.id),
+        });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.post(
+    "/purchase-orders",
+    authMiddleware,
+    requirePermission("warehouse", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const parsed = purchaseOrderFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const { items, ...data } = parsed.data;
+        const lines = buildLines(items);
+        const total = lines.reduce((sum, l) => sum + parseFloat(l.total), 0);
+
+        const order = await storage.createPurchaseOrder({
+          ...data,
+          expectedDate: data.expectedDate || null,
+          comment: data.comment || null,
+          number: await storage.getNextPurchaseOrderNumber(req.userId!),
+          status: "draft",
+          total: total.toFixed(2),
+          userId: req.userId!,
+        });
+        for (const line of lines) {
+          await storage.createPurchaseOrderItem({ ...line, purchaseOrderId: order.id });
+        }
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "create",
+          entityType: "purchase_order",
+          entityId: order.id,
+          after: order,
+        });
+
+        res.json(order);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Править можно только черновик — отправленный заказ уже у поставщика
+  router.put(
+    "/purchase-orders/:id",
+    authMiddleware,
+    requirePermission("warehouse", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const before = await loadOrder(req, res);
+        if (!before) return;
+        if (before.status !== "draft") {
+          return res
+            .status(400)
+            .json({ message: "Отправленный заказ нельзя изменить" });
+        }
+
+        const parsed = purchaseOrderFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const { items, ...data } = parsed.data;
+        const lines = buildLines(items);
+        const total = lines.reduce((sum, l) => sum + parseFloat(l.total), 0);
+
+        const order = await storage.updatePurchaseOrder(before.id, {
+          ...data,
+          expectedDate: data.expectedDate || null,
+          comment: data.comment || null,
+          total: total.toFixed(2),
+        });
+        await storage.deletePurchaseOrderItemsByOrderId(before.id);
+        for (const line of lines) {
+          await storage.createPurchaseOrderItem({ ...line, purchaseOrderId: before.id });
+        }
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "update",
+          entityType: "purchase_order",
+          entityId: before.id,
+          before,
+          after: order,
+        });
+
+        res.json(order);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.delete(
+    "/purchase-orders/:id",
+    authMiddleware,
+    requirePermission("warehouse", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const before = await loadOrder(req, res);
+        if (!before) return;
+
+        const receipts = await storage.getWarehouseReceipts(req.userId!);
+        if (receipts.some((r) => r.purchaseOrderId === before.id)) {
+          return res
+            .status(400)
+            .json({ message: "По заказу уже есть поступления" });
+        }
+
+        await storage.deletePurchaseOrder(before.id);
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "delete",
+          entityType: "purchase_order",
+          entityId: before.id,
+          before,
+        });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Черновик → отправлен поставщику
+  router.post(
+    "/purchase-orders/:id/send",
+    authMiddleware,
+    requirePermission("warehouse", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const before = await loadOrder(req, res);
+        if (!before) return;
+        if (before.status !== "draft") {
+          return res.status(400).json({ message: "Заказ уже отправлен" });
+        }
+
+        const order = await storage.updatePurchaseOrder(before.id, {
+          status: "sent",
+        });
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "status_change",
+          entityType: "purchase_order",
+          entityId: before.id,
+          before: { status: before.status },
+          after: { status: order?.status },
+        });
+
+        res.json(order);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Закрыть вручную — остаток недопоставки больше не ждём
+  router.post(
+    "/purchase-orders/:id/close",
+    authMiddleware,
+    requirePermission("warehouse", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const before = await loadOrder(req, res);
+        if (!before) return;
+        if (before.status === "draft" || before.status === "closed") {
+          return res
+            .status(400)
+            .json({ message: "Закрыть можно только отправленный заказ" });
+        }
+
+        const order = await storage.updatePurchaseOrder(before.id, {
+          status: "closed",
+        });
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "status_change",
+          entityType: "purchase_order",
+          entityId: before.id,
+          before: { status: before.status },
+          after: { status: order?.status },
+        });
+
+        res.json(order);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Приёмка по заказу: проведённое поступление со ссылками на строки заказа
+  router.post(
+    "/purchase-orders/:id/receive",
+    authMiddleware,
+    requirePermission("warehouse", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const order = await loadOrder(req, res);
+        if (!order) return;
+        if (order.status !== "sent" && order.status !== "partially_received") {
+          return res
+            .status(400)
+            .json({ message: "Принимать можно только отправленный заказ" });
+        }
+
+        const parsed = purchaseOrderReceiveSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const orderLines = await getPurchaseOrderLines(order.id);
+        const lines = [];
+        for (const item of parsed.data.items) {
+          if (item.quantity <= 0) continue;
+          const line = orderLines.find((l) => l.id === item.purchaseOrderItemId);
+          if (!line) {
+            return res
+              .status(400)
+              .json({ message: "Позиция не относится к заказу" });
+          }
+          const price = item.price ?? parseFloat(line.price);
+          lines.push({
+            itemType: line.itemType,
+            fabricId: line.fabricId,
+            componentId: line.componentId,
+            quantity: item.quantity.toFixed(2),
+            price: price.toFixed(2),
+            total: (item.quantity * price).toFixed(2),
+            purchaseOrderItemId: line.id,
+          });
+        }
+        if (lines.length === 0) {
+          return res.status(400).json({ message: "Нет позиций для приёмки" });
+        }
+
+        const total = lines.reduce((sum, l) => sum + parseFloat(l.total), 0);
+        const receipt = await storage.createWarehouseReceipt({
+          supplierId: order.supplierId,
+          purchaseOrderId: order.id,
+          date: parsed.data.date,
+          total: total.toFixed(2),
+          comment: parsed.data.comment || `Заказ поставщику №${order.number}`,
+          userId: req.userId!,
+        });
+        const createdItems: WarehouseReceiptItem[] = [];
+        for (const line of lines) {
+          createdItems.push(
+            await storage.createWarehouseReceiptItem({ ...line, receiptId: receipt.id })
+          );
+        }
+        await recordReceiptMovements(db, receipt, createdItems);
+        const updated = await refreshPurchaseOrderStatus(order.id);
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "create",
+          entityType: "warehouse_receipt",
+          entityId: receipt.id,
+          after: receipt,
+          metadata: { purchaseOrderId: order.id },
+        });
+
+        res.json({ receipt, purchaseOrder: updated });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  return router;
+}
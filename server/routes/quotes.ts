@@ -0,0 +1,365 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { requirePermission } from "../permissions";
+import { logAudit } from "../audit";
+import { notifyDealer } from "../notifications";
+import {
+  acceptQuote,
+  validateQuoteCoefficients,
+  loadQuoteDetails,
+  priceQuoteRevision,
+  type QuoteDetails,
+} from "../quotes";
+import { quoteFormSchema, quoteRevisionFormSchema } from "@shared/schema";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  actorId?: string;
+}
+
+type AuthMiddleware = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => void;
+
+export function createQuotesRouter(authMiddleware: AuthMiddleware): Router {
+  const router = Router();
+
+  // Расчёт текущего рабочего пространства с редакциями или 404
+  const loadQuote = async (
+    req: AuthRequest,
+    res: Response
+  ): Promise<QuoteDetails | null> => {
+    const quote = await storage.getQuote(req.params.id);
+    if (!quote || quote.userId !== req.userId) {
+      res.status(404).json({ message: "Расчёт не найден" });
+      return null;
+    }
+    const [details] = await loadQuoteDetails(req.userId!, [quote]);
+    return details;
+  };
+
+  // Новые редакции и решения — только по открытому расчёту
+  const requireOpen = (quote: QuoteDetails, res: Response) => {
+    if (quote.status !== "open") {
+      res.status(400).json({
+        message:
+          quote.status === "accepted"
+            ? "Расчёт уже принят — по нему создан заказ"
+            : "Расчёт отклонён",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  router.get(
+    "/quotes",
+    authMiddleware,
+    requirePermission("orders", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const quoteList = await storage.getQuotes(req.userId!);
+        res.json(await loadQuoteDetails(req.userId!, quoteList));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.get(
+    "/quotes/:id",
+    authMiddleware,
+    requirePermission("orders", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const quote = await loadQuote(req, res);
+        if (!quote) return;
+        res.json(quote);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Расчёт, из которого создан заказ (null — заказ оформлен напрямую)
+  router.get(
+    "/orders/:id/quote",
+    authMiddleware,
+    requirePermission("orders", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const quote = await storage.getQuoteByOrderId(req.params.id);
+        if (!quote || quote.userId !== req.userId) {
+          return res.json(null);
+        }
+        const [details] = await loadQuoteDetails(req.userId!, [quote]);
+        res.json(details);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.post(
+    "/quotes",
+    authMiddleware,
+    requirePermission("orders", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const parsed = quoteFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const dealer = await storage.getDealer(parsed.data.dealerId);
+        if (!dealer || dealer.userId !== req.userId) {
+          return res.status(404).json({ message: "Дилер не найден" });
+        }
+
+        const priced = await priceQuoteRevision(
+          req.userId!,
+          dealer,
+          parsed.data.revision
+        );
+        if (priced.errors.length > 0) {
+          return res
+            .status(400)
+            .json({ message: priced.errors[0], errors: priced.errors });
+        }
+
+        const quote = await storage.createQuote({
+          number: await storage.getNextQuoteNumber(req.userId!),
+          dealerId: dealer.id,
+          comment: parsed.data.comment || null,
+          userId: req.userId!,
+        });
+        const revision = await storage.createQuoteRevision(
+          { ...priced.revision, quoteId: quote.id, revision: 1 },
+          priced.sashes
+        );
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "create",
+          entityType: "quote",
+          entityId: quote.id,
+          after: quote,
+          metadata: { number: quote.number, total: revision.total },
+        });
+
+        notifyDealer({
+          dealerId: dealer.id,
+          userId: req.userId!,
+          title: "Новый расчёт",
+          message: `Расчёт №${quote.number} на ${revision.total} ₽ — действует до ${revision.validUntil}`,
+          entityType: "quote",
+          entityId: quote.id,
+        });
+
+        res.json(quote);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Новая редакция: прежние остаются для сравнения
+  router.post(
+    "/quotes/:id/revisions",
+    authMiddleware,
+    requirePermission("orders", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const quote = await loadQuote(req, res);
+        if (!quote || !requireOpen(quote, res)) return;
+
+        const parsed = quoteRevisionFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const dealer = await storage.getDealer(quote.dealerId);
+        if (!dealer) {
+          return res.status(404).json({ message: "Дилер не найден" });
+        }
+
+        const priced = await priceQuoteRevision(req.userId!, dealer, parsed.data);
+        if (priced.errors.length > 0) {
+          return res
+            .status(400)
+            .json({ message: priced.errors[0], errors: priced.errors });
+        }
+
+        const revision = await storage.createQuoteRevision(
+          {
+            ...priced.revision,
+            quoteId: quote.id,
+            revision: (quote.current?.revision ?? 0) + 1,
+          },
+          priced.sashes
+        );
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "update",
+          entityType: "quote",
+          entityId: quote.id,
+          before: quote.current && {
+            revision: quote.current.revision,
+            total: quote.current.total,
+            validUntil: quote.current.validUntil,
+          },
+          after: {
+            revision: revision.revision,
+            total: revision.total,
+            validUntil: revision.validUntil,
+          },
+        });
+
+        notifyDealer({
+          dealerId: quote.dealerId,
+          userId: req.userId!,
+          title: "Расчёт обновлён",
+          message: `Расчёт №${quote.number}, редакция ${revision.revision}: ${revision.total} ₽`,
+          entityType: "quote",
+          entityId: quote.id,
+        });
+
+        res.json(revision);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Принятие от имени дилера (например, согласовано по телефону)
+  router.post(
+    "/quotes/:id/accept",
+    authMiddleware,
+    requirePermission("orders", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const quote = await loadQuote(req, res);
+        if (!quote || !requireOpen(quote, res)) return;
+        if (quote.isExpired) {
+          return res.status(400).json({
+            message: "Срок действия расчёта истёк — выпустите новую редакцию",
+          });
+        }
+
+        const coefficientWarnings = await validateQuoteCoefficients(quote);
+        if (coefficientWarnings.length > 0 && !req.body?.skipCoefficientValidation) {
+          return res.status(400).json({
+            message: "Коэффициенты требуют подтверждения",
+            errors: coefficientWarnings,
+            coefficientWarning: true,
+          });
+        }
+
+        const order = await acceptQuote(
+          quote,
+          { actorId: req.actorId, source: "crm" },
+          coefficientWarnings
+        );
+        if (!order) {
+          return res.status(409).json({ message: "Расчёт уже закрыт" });
+        }
+
+        notifyDealer({
+          dealerId: quote.dealerId,
+          userId: req.userId!,
+          title: "Заказ принят",
+          message: `Расчёт №${quote.number} подтверждён, создан заказ №${order.orderNumber}`,
+          entityType: "order",
+          entityId: order.id,
+        });
+
+        res.json({ success: true, orderId: order.id, orderNumber: order.orderNumber });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.post(
+    "/quotes/:id/reject",
+    authMiddleware,
+    requirePermission("orders", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const quote = await loadQuote(req, res);
+        if (!quote || !requireOpen(quote, res)) return;
+
+        const updated = await storage.updateQuote(quote.id, {
+          status: "rejected",
+          decidedAt: new Date(),
+        });
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "status_change",
+          entityType: "quote",
+          entityId: quote.id,
+          before: { status: quote.status },
+          after: { status: updated?.status },
+          metadata: { source: "crm" },
+        });
+
+        res.json(updated);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.delete(
+    "/quotes/:id",
+    authMiddleware,
+    requirePermission("orders", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const quote = await loadQuote(req, res);
+        if (!quote) return;
+        if (quote.status === "accepted") {
+          return res
+            .status(400)
+            .json({ message: "По расчёту создан заказ — удалите заказ" });
+        }
+
+        await storage.deleteQuote(quote.id);
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "delete",
+          entityType: "quote",
+          entityId: quote.id,
+          before: { number: quote.number, status: quote.status },
+        });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  return router;
+}
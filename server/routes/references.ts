@@ -1,8 +1,10 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
+import { requirePermission } from "../permissions";
 
 interface AuthRequest extends Request {
   userId?: string;
+  actorId?: string;
 }
 
 type AuthMiddleware = (
@@ -18,6 +20,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/colors",
     authMiddleware,
+    requirePermission("references", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const data = await storage.getColors(req.userId!);
@@ -32,6 +35,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/colors",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const color = await storage.createColor({
@@ -49,6 +53,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.patch(
     "/colors/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const color = await storage.updateColor(req.params.id, req.body);
@@ -63,6 +68,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/colors/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.deleteColor(req.params.id);
@@ -78,6 +84,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/fabrics",
     authMiddleware,
+    requirePermission("references", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const data = await storage.getFabrics(req.userId!);
@@ -92,6 +99,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/fabrics",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const fabric = await storage.createFabric({
@@ -109,6 +117,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.patch(
     "/fabrics/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const fabric = await storage.updateFabric(req.params.id, req.body);
@@ -123,6 +132,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/fabrics/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.deleteFabric(req.params.id);
@@ -138,6 +148,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/cashboxes",
     authMiddleware,
+    requirePermission("references", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const data = await storage.getCashboxes(req.userId!);
@@ -152,6 +163,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/cashboxes",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const cashbox = await storage.createCashbox({
@@ -169,6 +181,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.patch(
     "/cashboxes/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const cashbox = await storage.updateCashbox(req.params.id, req.body);
@@ -183,6 +196,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/cashboxes/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.deleteCashbox(req.params.id);
@@ -198,6 +212,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/systems",
     authMiddleware,
+    requirePermission("references", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const systemsData = await storage.getSystems(req.userId!);
@@ -251,6 +266,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/systems",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const system = await storage.createSystem({
@@ -268,6 +284,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.patch(
     "/systems/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const system = await storage.updateSystem(req.params.id, req.body);
@@ -282,6 +299,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/systems/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.deleteSystem(req.params.id);
@@ -297,6 +315,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/systems/:id/components",
     authMiddleware,
+    requirePermission("references", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const components = await storage.getSystemComponents(req.params.id);
@@ -311,6 +330,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/systems/:id/components",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const { componentId, quantity, sizeSource, sizeMultiplier } = req.body;
@@ -332,6 +352,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/systems/:id/components",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.deleteSystemComponentsBySystemId(req.params.id);
@@ -344,12 +365,14 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   );
 
   // ===== COEFFICIENTS =====
+  // Считаем по действующей версии таблиц рабочего пространства
   router.get(
     "/coefficients/available-keys",
-    async (req: Request, res: Response) => {
+    authMiddleware,
+    async (req: AuthRequest, res: Response) => {
       try {
         const { getAvailableSystems } = await import("../coefficients.js");
-        const systemKeys = getAvailableSystems();
+        const systemKeys = await getAvailableSystems(req.userId!);
         res.json({ systemKeys });
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
@@ -360,7 +383,8 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
 
   router.get(
     "/coefficients/available-categories",
-    async (req: Request, res: Response) => {
+    authMiddleware,
+    async (req: AuthRequest, res: Response) => {
       try {
         const { systemKey } = req.query;
 
@@ -371,7 +395,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
         }
 
         const { getSystemCategories } = await import("../coefficients.js");
-        const categories = getSystemCategories(systemKey as string);
+        const categories = await getSystemCategories(systemKey as string, req.userId!);
 
         res.json({
           systemKey,
@@ -387,7 +411,8 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
 
   router.post(
     "/coefficients/calculate",
-    async (req: Request, res: Response) => {
+    authMiddleware,
+    async (req: AuthRequest, res: Response) => {
       try {
         const { systemKey, category, width, height } = req.body;
 
@@ -398,13 +423,25 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
         }
 
         const { getCoefficientDetailed } = await import("../coefficients.js");
-        const result = getCoefficientDetailed(
+        const result = await getCoefficientDetailed(
           systemKey,
           category,
           width,
-          height
+          height,
+          req.userId!
         );
 
+        // Размер вне сетки при правиле «не считать»
+        const outOfRange = result.warnings.find((w) => w.code === "out_of_range");
+        if (outOfRange) {
+          return res.status(422).json({
+            message: outOfRange.message,
+            systemKey,
+            category,
+            warnings: result.warnings,
+          });
+        }
+
         if (result.coefficient === null) {
           return res.status(404).json({
             message: result.usedSystemKey
@@ -424,11 +461,11 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
           usedSystemKey: result.usedSystemKey,
           usedCategory: result.usedCategory,
           isFallbackCategory: result.isFallbackCategory,
+          versionId: result.versionId,
           width,
           height,
-          warning: result.isFallbackCategory
-            ? `Категория "${category}" не найдена, использована "${result.usedCategory}"`
-            : null,
+          warnings: result.warnings,
+          warning: result.warnings.map((w) => w.message).join("; ") || null,
         });
       } catch (error) {
         console.error("Ошибка при расчете коэффициента:", error);
@@ -441,6 +478,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/expense-types",
     authMiddleware,
+    requirePermission("references", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const data = await storage.getExpenseTypes(req.userId!);
@@ -455,6 +493,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/expense-types",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const expenseType = await storage.createExpenseType({
@@ -472,6 +511,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.patch(
     "/expense-types/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const expenseType = await storage.updateExpenseType(
@@ -489,6 +529,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/expense-types/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.deleteExpenseType(req.params.id);
@@ -504,6 +545,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/components",
     authMiddleware,
+    requirePermission("references", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const data = await storage.getComponents(req.userId!);
@@ -518,6 +560,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/components",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const component = await storage.createComponent({
@@ -535,6 +578,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.patch(
     "/components/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const component = await storage.updateComponent(
@@ -552,6 +596,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/components/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.deleteComponent(req.params.id);
@@ -567,6 +612,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/multipliers",
     authMiddleware,
+    requirePermission("references", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const data = await storage.getMultipliers(req.userId!);
@@ -581,6 +627,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/multipliers",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const multiplier = await storage.createMultiplier({
@@ -598,6 +645,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.patch(
     "/multipliers/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const multiplier = await storage.updateMultiplier(
@@ -615,6 +663,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/multipliers/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.deleteMultiplier(req.params.id);
@@ -630,6 +679,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/suppliers",
     authMiddleware,
+    requirePermission("references", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const data = await storage.getSuppliers(req.userId!);
@@ -644,6 +694,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/suppliers",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const supplier = await storage.createSupplier({
@@ -661,6 +712,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.patch(
     "/suppliers/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const supplier = await storage.updateSupplier(req.params.id, req.body);
@@ -675,6 +727,7 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/suppliers/:id",
     authMiddleware,
+    requirePermission("references", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         await storage.deleteSupplier(req.params.id);
@@ -690,9 +743,14 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/suppliers/:id/stats",
     authMiddleware,
+    requirePermission("references", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
-        const financeOps = await storage.getFinanceOperations(req.userId!, false);
+        const [financeOps, receipts, purchaseOrders] = await Promise.all([
+          storage.getFinanceOperations(req.userId!, false),
+          storage.getWarehouseReceipts(req.userId!),
+          storage.getPurchaseOrders(req.userId!),
+        ]);
 
         // Get payments to this supplier
         const supplierPayments = financeOps.filter(
@@ -704,14 +762,26 @@ export function createReferencesRouter(authMiddleware: AuthMiddleware): Router {
           0
         );
 
+        // Заказано — отправленные заказы поставщику (черновики не считаются)
+        const totalOrdered = purchaseOrders
+          .filter((po) => po.supplierId === req.params.id && po.status !== "draft")
+          .reduce((sum, po) => sum + parseFloat(po.total?.toString() || "0"), 0);
+
+        // Получено — проведённые поступления от поставщика
+        const totalReceived = receipts
+          .filter((r) => r.supplierId === req.params.id && !r.isDraft)
+          .reduce((sum, r) => sum + parseFloat(r.total?.toString() || "0"), 0);
+
         // Get supplier opening balance
         const supplier = await storage.getSupplier(req.params.id);
         const openingBalance = parseFloat(supplier?.openingBalance?.toString() || "0");
 
-        // Balance = opening balance - payments (negative = we owe them)
-        const balance = openingBalance - totalPayments;
+        // Balance = payments - (opening balance + received) (negative = we owe them)
+        const balance = totalPayments - (openingBalance + totalReceived);
 
         res.json({
+          totalOrdered,
+          totalReceived,
           totalPayments,
           balance,
         });
@@ -0,0 +1,212 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { requirePermission } from "../permissions";
+import { logAudit } from "../audit";
+import { notifyDealer } from "../notifications";
+import {
+  createOrderShipment,
+  isShippableOrder,
+  loadOrderShipments,
+} from "../shipments";
+import {
+  shipmentFormSchema,
+  shipmentSignatureSchema,
+  type Order,
+  type Shipment,
+} from "@shared/schema";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  actorId?: string;
+}
+
+type AuthMiddleware = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => void;
+
+export function createShipmentsRouter(authMiddleware: AuthMiddleware): Router {
+  const router = Router();
+
+  // Заказ текущего рабочего пространства или 404
+  const loadOrder = async (req: AuthRequest, res: Response): Promise<Order | null> => {
+    const order = await storage.getOrder(req.params.id);
+    if (!order || order.userId !== req.userId) {
+      res.status(404).json({ message: "Заказ не найден" });
+      return null;
+    }
+    return order;
+  };
+
+  // Накладная текущего рабочего пространства вместе с заказом или 404
+  const loadShipment = async (
+    req: AuthRequest,
+    res: Response
+  ): Promise<{ shipment: Shipment; order: Order } | null> => {
+    const shipment = await storage.getShipment(req.params.id);
+    const order = shipment && (await storage.getOrder(shipment.orderId));
+    if (!shipment || !order || shipment.userId !== req.userId) {
+      res.status(404).json({ message: "Накладная не найдена" });
+      return null;
+    }
+    return { shipment, order };
+  };
+
+  // Накладные заказа и створки с отметкой, какой накладной они уехали
+  router.get(
+    "/orders/:id/shipments",
+    authMiddleware,
+    requirePermission("orders", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const order = await loadOrder(req, res);
+        if (!order) return;
+        res.json(await loadOrderShipments(order));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.post(
+    "/orders/:id/shipments",
+    authMiddleware,
+    requirePermission("production", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const order = await loadOrder(req, res);
+        if (!order) return;
+
+        const parsed = shipmentFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const result = await createOrderShipment({
+          userId: req.userId!,
+          actorId: req.actorId,
+          order,
+          form: parsed.data,
+        });
+        if (!result.ok) {
+          return res.status(result.status).json(result.body);
+        }
+        const { shipment } = result;
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "create",
+          entityType: "shipment",
+          entityId: shipment.id,
+          after: shipment,
+          metadata: {
+            orderNumber: order.orderNumber,
+            number: shipment.number,
+            sashIds: parsed.data.sashIds,
+          },
+        });
+
+        if (order.dealerId) {
+          notifyDealer({
+            dealerId: order.dealerId,
+            userId: req.userId!,
+            title: "Отгрузка по заказу",
+            message: `Заказ №${order.orderNumber}: отгружено створок — ${parsed.data.sashIds.length}, накладная №${shipment.number}`,
+            entityType: "order",
+            entityId: order.id,
+          });
+        }
+
+        res.json({ shipment, order: result.order });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Подпись получателя — после доставки, с планшета водителя
+  router.patch(
+    "/shipments/:id/signature",
+    authMiddleware,
+    requirePermission("production", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const loaded = await loadShipment(req, res);
+        if (!loaded) return;
+
+        const parsed = shipmentSignatureSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const updated = await storage.updateShipment(loaded.shipment.id, {
+          recipientName: parsed.data.recipientName,
+          signature: parsed.data.signature,
+          signedAt: new Date(),
+        });
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "update",
+          entityType: "shipment",
+          entityId: loaded.shipment.id,
+          before: { recipientName: loaded.shipment.recipientName, signedAt: loaded.shipment.signedAt },
+          after: { recipientName: updated?.recipientName, signedAt: updated?.signedAt },
+          metadata: { number: loaded.shipment.number },
+        });
+
+        res.json(updated);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Ошибочную накладную можно удалить, пока заказ не отгружен целиком
+  router.delete(
+    "/shipments/:id",
+    authMiddleware,
+    requirePermission("production", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const loaded = await loadShipment(req, res);
+        if (!loaded) return;
+        if (!isShippableOrder(loaded.order)) {
+          return res.status(400).json({
+            message: "Заказ уже отгружен целиком — накладную удалить нельзя",
+          });
+        }
+
+        await storage.deleteShipment(loaded.shipment.id);
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "delete",
+          entityType: "shipment",
+          entityId: loaded.shipment.id,
+          // Подпись — картинка, в журнал её не тащим
+          before: { ...loaded.shipment, signature: loaded.shipment.signature ? "есть" : null },
+          metadata: { orderNumber: loaded.order.orderNumber, number: loaded.shipment.number },
+        });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,138 @@
+import { Router, Request, Response, NextFunction } from "express";
+import bcrypt from "bcrypt";
+import { storage } from "../storage";
+import { requirePermission } from "../permissions";
+import { logAudit } from "../audit";
+import { staffMemberFormSchema, STAFF_ROLES, type StaffRole } from "@shared/schema";
+
+interface AuthRequest extends Request {
+  userId?: string;
+  actorId?: string;
+}
+
+type AuthMiddleware = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => void;
+
+const SALT_ROUNDS = 10;
+
+export function createStaffRouter(authMiddleware: AuthMiddleware): Router {
+  const router = Router();
+
+  // ===== STAFF =====
+  router.get(
+    "/staff",
+    authMiddleware,
+    requirePermission("staff", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const data = await storage.getStaffMembers(req.userId!);
+        res.json(data);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.post(
+    "/staff",
+    authMiddleware,
+    requirePermission("staff", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const parsed = staffMemberFormSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res
+            .status(400)
+            .json({ message: parsed.error.errors[0].message });
+        }
+
+        const { email, password, name, role } = parsed.data;
+        const existing = await storage.getUserByEmail(email);
+        if (existing) {
+          return res
+            .status(400)
+            .json({ message: "Пользователь с таким email уже существует" });
+        }
+
+        const owner = await storage.getUser(req.userId!);
+        const organization = await storage.getOrCreateOrganization(
+          req.userId!,
+          owner?.name || owner?.email || "Организация"
+        );
+
+        const user = await storage.createUser({
+          email,
+          password: await bcrypt.hash(password, SALT_ROUNDS),
+          name,
+        });
+        const member = await storage.createStaffMember({
+          organizationId: organization.id,
+          userId: user.id,
+          role,
+        });
+
+        await logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "create",
+          entityType: "staff",
+          entityId: member.id,
+          after: { email, name, role },
+        });
+
+        res.json({ ...member, email: user.email, name: user.name });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  router.patch(
+    "/staff/:id",
+    authMiddleware,
+    requirePermission("staff", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const member = await storage.getStaffMember(req.userId!, req.params.id);
+        if (!member) {
+          return res.status(404).json({ message: "Сотрудник не найден" });
+        }
+
+        const { role, isActive } = req.body;
+        const updateData: { role?: StaffRole; isActive?: boolean } = {};
+        if (role !== undefined) {
+          // Владелец у организации один — назначить эту роль сотруднику нельзя
+          if (!STAFF_ROLES.includes(role) || role === "owner") {
+            return res.status(400).json({ message: "Некорректная роль" });
+          }
+          updateData.role = role;
+        }
+        if (isActive !== undefined) updateData.isActive = !!isActive;
+
+        const updated = await storage.updateStaffMember(member.id, updateData);
+
+        await logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "update",
+          entityType: "staff",
+          entityId: member.id,
+          before: { role: member.role, isActive: member.isActive },
+          after: { role: updated?.role, isActive: updated?.isActive },
+        });
+
+        res.json(updated);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  return router;
+}
@@ -1,9 +1,27 @@
 import { Router, Request, Response, NextFunction } from "express";
+import { and, eq } from "drizzle-orm";
 import { storage } from "../storage";
+import { db } from "../db";
+import {
+  getStockSnapshot,
+  recordReceiptMovements,
+  recordWriteoffMovements,
+  reverseReceiptMovements,
+} from "../stock";
+import { getUnitCosts, itemKey } from "../costing";
+import { getPurchaseSuggestions, refreshPurchaseOrderStatus } from "../purchasing";
+import { requirePermission } from "../permissions";
 import { logAudit } from "../audit";
+import {
+  warehouseReceipts,
+  warehouseReceiptItems,
+  warehouseWriteoffs,
+  type InsertWarehouseReceiptItem,
+} from "@shared/schema";
 
 interface AuthRequest extends Request {
   userId?: string;
+  actorId?: string;
 }
 
 type AuthMiddleware = (
@@ -12,6 +30,23 @@ type AuthMiddleware = (
   next: NextFunction
 ) => void;
 
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Строки поступления из тела запроса. Документ и движения по складу
+// пишутся в одной транзакции — остатки не расходятся с документами
+async function insertReceiptItems(tx: Tx, receiptId: string, items: unknown) {
+  if (!Array.isArray(items) || items.length === 0) return [];
+  return tx
+    .insert(warehouseReceiptItems)
+    .values(
+      items.map((item: Omit<InsertWarehouseReceiptItem, "receiptId">) => ({
+        ...item,
+        receiptId,
+      }))
+    )
+    .returning();
+}
+
 export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
   const router = Router();
 
@@ -19,6 +54,7 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/warehouse",
     authMiddleware,
+    requirePermission("warehouse", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const limit = parseInt(req.query.limit as string) || 20;
@@ -90,17 +126,190 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/warehouse/previous-price",
     authMiddleware,
+    requirePermission("warehouse", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const { itemType, itemId } = req.query;
         if (!itemType || !itemId) {
           return res.json({ price: null });
         }
-        const price = await storage.getPreviousPrice(
-          itemType as string,
-          itemId as string
+        const prices = await storage.getPreviousPrices(req.userId!, [
+          { itemType: itemType as string, itemId: itemId as string },
+        ]);
+        res.json({ price: prices[`${itemType}:${itemId}`] ?? null });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Предложения закупки по точкам заказа, сгруппированные по поставщикам
+  router.get(
+    "/warehouse/purchase-suggestions",
+    authMiddleware,
+    requirePermission("warehouse", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        res.json(await getPurchaseSuggestions(req.userId!));
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Черновик поступления из предложения закупки одного поставщика
+  router.post(
+    "/warehouse/purchase-suggestions/receipt",
+    authMiddleware,
+    requirePermission("warehouse", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { supplierId, items } = req.body;
+        if (!supplierId) {
+          return res.status(400).json({ message: "Укажите поставщика" });
+        }
+        if (!Array.isArray(items) || items.length === 0) {
+          return res.status(400).json({ message: "Нет позиций для закупки" });
+        }
+
+        const lines = items.map((item: any) => {
+          const quantity = parseFloat(item.quantity || "0");
+          const price = parseFloat(item.price || "0");
+          return {
+            itemType: item.itemType,
+            fabricId: item.itemType === "fabric" ? item.itemId : null,
+            componentId: item.itemType === "component" ? item.itemId : null,
+            quantity: quantity.toFixed(2),
+            price: price.toFixed(2),
+            total: (quantity * price).toFixed(2),
+          };
+        });
+        const total = lines.reduce((sum: number, l: any) => sum + parseFloat(l.total), 0);
+
+        const receipt = await storage.createWarehouseReceipt({
+          supplierId,
+          date: new Date().toISOString().split("T")[0],
+          total: total.toFixed(2),
+          comment: "Закупка по точкам заказа",
+          isDraft: true,
+          userId: req.userId!,
+        });
+        for (const line of lines) {
+          await storage.createWarehouseReceiptItem({ ...line, receiptId: receipt.id });
+        }
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "create",
+          entityType: "warehouse_receipt",
+          entityId: receipt.id,
+          after: receipt,
+          metadata: { source: "purchase_suggestion" },
+        });
+
+        res.json(receipt);
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Деловые обрезки тканей, оставшиеся после раскроя
+  router.get(
+    "/warehouse/remnants",
+    authMiddleware,
+    requirePermission("warehouse", "view"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const [remnants, fabricList] = await Promise.all([
+          storage.getAvailableFabricRemnants(req.userId!),
+          storage.getFabrics(req.userId!),
+        ]);
+        res.json(
+          remnants.map((r) => ({
+            ...r,
+            fabricName: fabricList.find((f) => f.id === r.fabricId)?.name,
+          }))
         );
-        res.json({ price });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Списать обрезок (испорчен, выброшен)
+  router.delete(
+    "/warehouse/remnants/:id",
+    authMiddleware,
+    requirePermission("warehouse", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const remnant = await storage.getFabricRemnant(req.params.id);
+        if (!remnant || remnant.userId !== req.userId) {
+          return res.status(404).json({ message: "Обрезок не найден" });
+        }
+        await storage.deleteFabricRemnant(remnant.id);
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`[${req.method} ${req.path}]`, error);
+        res.status(500).json({ message: "Ошибка сервера" });
+      }
+    }
+  );
+
+  // Провести черновик: материалы приходуются на склад
+  router.post(
+    "/warehouse/:id/post",
+    authMiddleware,
+    requirePermission("warehouse", "edit"),
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const before = await storage.getWarehouseReceipt(req.params.id);
+        if (!before || before.userId !== req.userId) {
+          return res.status(404).json({ message: "Поступление не найдено" });
+        }
+        if (!before.isDraft) {
+          return res.status(400).json({ message: "Поступление уже проведено" });
+        }
+
+        // Условие isDraft — повторное проведение не оприходует дважды
+        const receipt = await db.transaction(async (tx) => {
+          const [posted] = await tx
+            .update(warehouseReceipts)
+            .set({ isDraft: false })
+            .where(and(eq(warehouseReceipts.id, before.id), eq(warehouseReceipts.isDraft, true)))
+            .returning();
+          if (!posted) return null;
+          const items = await tx
+            .select()
+            .from(warehouseReceiptItems)
+            .where(eq(warehouseReceiptItems.receiptId, posted.id));
+          await recordReceiptMovements(tx, posted, items);
+          return posted;
+        });
+        if (!receipt) {
+          return res.status(400).json({ message: "Поступление уже проведено" });
+        }
+        if (receipt.purchaseOrderId) {
+          await refreshPurchaseOrderStatus(receipt.purchaseOrderId);
+        }
+
+        logAudit({
+          userId: req.userId!,
+          actorId: req.actorId,
+          action: "update",
+          entityType: "warehouse_receipt",
+          entityId: receipt.id,
+          before,
+          after: receipt,
+        });
+
+        res.json(receipt);
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
         res.status(500).json({ message: "Ошибка сервера" });
@@ -111,6 +320,7 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/warehouse/:id",
     authMiddleware,
+    requirePermission("warehouse", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const receipt = await storage.getWarehouseReceipt(req.params.id);
@@ -143,6 +353,7 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/warehouse",
     authMiddleware,
+    requirePermission("warehouse", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const { items, ...receiptData } = req.body;
@@ -155,23 +366,28 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
           );
         }
 
-        const receipt = await storage.createWarehouseReceipt({
-          ...receiptData,
-          total: total.toString(),
-          userId: req.userId,
-        });
-
-        if (items && Array.isArray(items)) {
-          for (const item of items) {
-            await storage.createWarehouseReceiptItem({
-              ...item,
-              receiptId: receipt.id,
-            });
+        const receipt = await db.transaction(async (tx) => {
+          const [created] = await tx
+            .insert(warehouseReceipts)
+            .values({
+              ...receiptData,
+              total: total.toString(),
+              userId: req.userId,
+            })
+            .returning();
+          const createdItems = await insertReceiptItems(tx, created.id, items);
+          if (!created.isDraft) {
+            await recordReceiptMovements(tx, created, createdItems);
           }
+          return created;
+        });
+        if (receipt.purchaseOrderId) {
+          await refreshPurchaseOrderStatus(receipt.purchaseOrderId);
         }
 
         logAudit({
           userId: req.userId!,
+          actorId: req.actorId,
           action: "create",
           entityType: "warehouse_receipt",
           entityId: receipt.id,
@@ -189,6 +405,7 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
   router.put(
     "/warehouse/:id",
     authMiddleware,
+    requirePermission("warehouse", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const { items, ...receiptData } = req.body;
@@ -201,24 +418,32 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
           );
         }
 
-        const receipt = await storage.updateWarehouseReceipt(req.params.id, {
-          ...receiptData,
-          total: total.toString(),
+        const receipt = await db.transaction(async (tx) => {
+          const [updated] = await tx
+            .update(warehouseReceipts)
+            .set({ ...receiptData, total: total.toString() })
+            .where(eq(warehouseReceipts.id, req.params.id))
+            .returning();
+          if (!updated) return null;
+
+          // Delete old items and create new ones; the ledger gets a reversal
+          // of the previous items followed by the new ones
+          await tx
+            .delete(warehouseReceiptItems)
+            .where(eq(warehouseReceiptItems.receiptId, updated.id));
+          const createdItems = await insertReceiptItems(tx, updated.id, items);
+          await reverseReceiptMovements(tx, updated.userId, updated.id);
+          if (!updated.isDraft) {
+            await recordReceiptMovements(tx, updated, createdItems);
+          }
+          return updated;
         });
 
         if (!receipt) {
           return res.status(404).json({ message: "Поступление не найдено" });
         }
-
-        // Delete old items and create new ones
-        await storage.deleteWarehouseReceiptItemsByReceiptId(receipt.id);
-        if (items && Array.isArray(items)) {
-          for (const item of items) {
-            await storage.createWarehouseReceiptItem({
-              ...item,
-              receiptId: receipt.id,
-            });
-          }
+        if (receipt.purchaseOrderId) {
+          await refreshPurchaseOrderStatus(receipt.purchaseOrderId);
         }
 
         res.json(receipt);
@@ -232,14 +457,24 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
   router.delete(
     "/warehouse/:id",
     authMiddleware,
+    requirePermission("warehouse", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const before = await storage.getWarehouseReceipt(req.params.id);
-        await storage.deleteWarehouseReceipt(req.params.id);
+        await db.transaction(async (tx) => {
+          if (before) {
+            await reverseReceiptMovements(tx, before.userId, before.id);
+          }
+          await tx.delete(warehouseReceipts).where(eq(warehouseReceipts.id, req.params.id));
+        });
 
         if (before) {
+          if (before.purchaseOrderId) {
+            await refreshPurchaseOrderStatus(before.purchaseOrderId);
+          }
           logAudit({
             userId: req.userId!,
+            actorId: req.actorId,
             action: "delete",
             entityType: "warehouse_receipt",
             entityId: req.params.id,
@@ -259,139 +494,57 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/stock",
     authMiddleware,
+    requirePermission("warehouse", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
-        const [receipts, fabrics, components, writeoffs] = await Promise.all([
-          storage.getWarehouseReceipts(req.userId!),
+        const [
+          { fabricStock, componentStock },
+          { method, unitCosts },
+          fabrics,
+          components,
+        ] = await Promise.all([
+          getStockSnapshot(req.userId!),
+          getUnitCosts(req.userId!),
           storage.getFabrics(req.userId!),
           storage.getComponents(req.userId!),
-          storage.getWarehouseWriteoffs(req.userId!),
         ]);
 
-        // Get all receipt items in parallel
-        const itemsArrays = await Promise.all(
-          receipts.map((receipt) =>
-            storage.getWarehouseReceiptItems(receipt.id)
-          )
-        );
-        const allItems = itemsArrays.flat();
-
-        // Calculate fabric stock (receipts)
-        const fabricStock: Record<
-          string,
-          {
-            quantity: number;
-            totalReceived: number;
-            lastPrice: number;
-            avgPrice: number;
-            totalValue: number;
-          }
-        > = {};
-        for (const item of allItems.filter((i) => i.fabricId)) {
-          const fabricId = item.fabricId!;
-          if (!fabricStock[fabricId]) {
-            fabricStock[fabricId] = {
-              quantity: 0,
-              totalReceived: 0,
-              lastPrice: 0,
-              avgPrice: 0,
-              totalValue: 0,
-            };
-          }
-          const qty = parseFloat(item.quantity?.toString() || "0");
-          const price = parseFloat(item.price?.toString() || "0");
-          fabricStock[fabricId].quantity += qty;
-          fabricStock[fabricId].totalReceived += qty;
-          fabricStock[fabricId].lastPrice = price;
-          fabricStock[fabricId].totalValue += qty * price;
-        }
-
-        // Subtract fabric writeoffs
-        for (const wo of writeoffs.filter((w) => w.fabricId)) {
-          const fabricId = wo.fabricId!;
-          if (fabricStock[fabricId]) {
-            const qty = parseFloat(wo.quantity?.toString() || "0");
-            fabricStock[fabricId].quantity -= qty;
-          }
-        }
-
-        // Calculate component stock (receipts)
-        const componentStock: Record<
-          string,
-          {
-            quantity: number;
-            totalReceived: number;
-            lastPrice: number;
-            avgPrice: number;
-            totalValue: number;
-          }
-        > = {};
-        for (const item of allItems.filter((i) => i.componentId)) {
-          const componentId = item.componentId!;
-          if (!componentStock[componentId]) {
-            componentStock[componentId] = {
+        // Build response with fabric/component details. unitCost — цена
+        // единицы остатка по методу учёта (FIFO или скользящая средняя)
+        const fabricStockList = fabrics.map((f) => ({
+          ...f,
+          stock: {
+            ...(fabricStock[f.id] || {
               quantity: 0,
-              totalReceived: 0,
+              reserved: 0,
+              available: 0,
               lastPrice: 0,
               avgPrice: 0,
               totalValue: 0,
-            };
-          }
-          const qty = parseFloat(item.quantity?.toString() || "0");
-          const price = parseFloat(item.price?.toString() || "0");
-          componentStock[componentId].quantity += qty;
-          componentStock[componentId].totalReceived += qty;
-          componentStock[componentId].lastPrice = price;
-          componentStock[componentId].totalValue += qty * price;
-        }
-
-        // Subtract component writeoffs
-        for (const wo of writeoffs.filter((w) => w.componentId)) {
-          const componentId = wo.componentId!;
-          if (componentStock[componentId]) {
-            const qty = parseFloat(wo.quantity?.toString() || "0");
-            componentStock[componentId].quantity -= qty;
-          }
-        }
-
-        // Calculate average prices (based on total receipts value / total received quantity)
-        for (const id of Object.keys(fabricStock)) {
-          if (fabricStock[id].totalReceived > 0) {
-            fabricStock[id].avgPrice =
-              fabricStock[id].totalValue / fabricStock[id].totalReceived;
-          }
-        }
-        for (const id of Object.keys(componentStock)) {
-          if (componentStock[id].totalReceived > 0) {
-            componentStock[id].avgPrice =
-              componentStock[id].totalValue / componentStock[id].totalReceived;
-          }
-        }
-
-        // Build response with fabric/component details
-        const fabricStockList = fabrics.map((f) => ({
-          ...f,
-          stock: fabricStock[f.id] || {
-            quantity: 0,
-            lastPrice: 0,
-            avgPrice: 0,
-            totalValue: 0,
+            }),
+            unitCost: unitCosts.get(itemKey("fabric", f.id)) ?? 0,
           },
         }));
 
         const componentStockList = components.map((c) => ({
           ...c,
-          stock: componentStock[c.id] || {
-            quantity: 0,
-            lastPrice: 0,
-            avgPrice: 0,
-            totalValue: 0,
+          stock: {
+            ...(componentStock[c.id] || {
+              quantity: 0,
+              reserved: 0,
+              available: 0,
+              lastPrice: 0,
+              avgPrice: 0,
+              totalValue: 0,
+            }),
+            unitCost: unitCosts.get(itemKey("component", c.id)) ?? 0,
           },
         }));
 
         res.json({
           fabrics: fabricStockList,
           components: componentStockList,
+          costingMethod: method,
         });
       } catch (error) {
         console.error(`[${req.method} ${req.path}]`, error);
@@ -404,6 +557,7 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/warehouse/writeoffs",
     authMiddleware,
+    requirePermission("warehouse", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const [writeoffs, orders, fabrics, components] = await Promise.all([
@@ -438,6 +592,7 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
   router.get(
     "/stock/adjustments",
     authMiddleware,
+    requirePermission("warehouse", "view"),
     async (req: AuthRequest, res: Response) => {
       try {
         const [writeoffs, receipts, allFabrics, allComponents] =
@@ -512,6 +667,7 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
   router.post(
     "/stock/adjustment",
     authMiddleware,
+    requirePermission("warehouse", "edit"),
     async (req: AuthRequest, res: Response) => {
       try {
         const {
@@ -538,40 +694,55 @@ export function createWarehouseRouter(authMiddleware: AuthMiddleware): Router {
         if (difference > 0) {
           // Need to add stock - create a receipt without supplier (adjustment)
           // First get a default supplier or create adjustment receipt
-          const receipt = await storage.createWarehouseReceipt({
-            date: today,
-            supplierId: null,
-            total: total,
-            comment:
-              comment ||
-              `Инвентаризация: корректировка +${difference.toFixed(2)}`,
-            userId: req.userId!,
-          });
-
-          await storage.createWarehouseReceiptItem({
-            receiptId: receipt.id,
-            itemType,
-            fabricId: itemType === "fabric" ? itemId : null,
-            componentId: itemType === "component" ? itemId : null,
-            quantity: difference.toFixed(4),
-            price: itemPrice.toFixed(2),
-            total: total,
+          await db.transaction(async (tx) => {
+            const [receipt] = await tx
+              .insert(warehouseReceipts)
+              .values({
+                date: today,
+                supplierId: null,
+                total: total,
+                comment:
+                  comment ||
+                  `Инвентаризация: корректировка +${difference.toFixed(2)}`,
+                userId: req.userId!,
+              })
+              .returning();
+
+            const [item] = await tx
+              .insert(warehouseReceiptItems)
+              .values({
+                receiptId: receipt.id,
+                itemType,
+                fabricId: itemType === "fabric" ? itemId : null,
+                componentId: itemType === "component" ? itemId : null,
+                quantity: difference.toFixed(4),
+                price: itemPrice.toFixed(2),
+                total: total,
+              })
+              .returning();
+            await recordReceiptMovements(tx, receipt, [item]);
           });
         } else {
           // Need to reduce stock - create a writeoff
-          await storage.createWarehouseWriteoff({
-            orderId: null,
-            itemType,
-            fabricId: itemType === "fabric" ? itemId : null,
-            componentId: itemType === "component" ? itemId : null,
-            quantity: Math.abs(difference).toFixed(4),
-            price: itemPrice.toFixed(2),
-            total: total,
-            date: today,
-            userId: req.userId!,
-            comment:
-              comment ||
-              `Инвентаризация: корректировка ${difference.toFixed(2)}`,
+          await db.transaction(async (tx) => {
+            const [writeoff] = await tx
+              .insert(warehouseWriteoffs)
+              .values({
+                orderId: null,
+                itemType,
+                fabricId: itemType === "fabric" ? itemId : null,
+                componentId: itemType === "component" ? itemId : null,
+                quantity: Math.abs(difference).toFixed(4),
+                price: itemPrice.toFixed(2),
+                total: total,
+                date: today,
+                userId: req.userId!,
+                comment:
+                  comment ||
+                  `Инвентаризация: корректировка ${difference.toFixed(2)}`,
+              })
+              .returning();
+            await recordWriteoffMovements(tx, [writeoff]);
           });
         }
 
@@ -0,0 +1,242 @@
+import { eq, inArray, sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { transitionOrderStatus } from "./order-status";
+import {
+  orders,
+  shipments,
+  shipmentSashes,
+  type Order,
+  type OrderSash,
+  type Shipment,
+  type ShipmentForm,
+} from "@shared/schema";
+
+// Отгрузки по комнатам: каждая накладная забирает часть створок заказа.
+// Статус заказа следует за створками — когда уезжает последняя, заказ
+// переходит в "Отгружен" по обычной таблице переходов.
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface ShipmentDetails extends Shipment {
+  sashIds: string[];
+  // Доля суммы заказа, приходящаяся на створки накладной
+  amount: number;
+}
+
+export interface OrderShipments {
+  shipments: ShipmentDetails[];
+  sashes: (OrderSash & { shipmentId: string | null })[];
+  shippedCount: number;
+  totalCount: number;
+}
+
+export type ShipmentResult =
+  | { ok: true; shipment: Shipment; order: Order }
+  | { ok: false; status: number; body: { message: string } & Record<string, unknown> };
+
+// Частями заказ уезжает, пока он в производстве или готов
+const SHIPPABLE_STATUSES = ["В производстве", "Готов"];
+
+export function isShippableOrder(order: Order): boolean {
+  return SHIPPABLE_STATUSES.includes(order.status || "Новый");
+}
+
+/**
+ * Доля суммы заказа за часть створок. Цена заказа могла быть изменена
+ * вручную, поэтому делим её пропорционально ценам створок; если цен
+ * нет — поровну по количеству.
+ */
+export function shareOfOrderAmount(
+  order: Order,
+  sashes: OrderSash[],
+  sashIds: Set<string>
+): number {
+  const salePrice = parseFloat(order.salePrice?.toString() || "0");
+  if (sashes.length === 0) return 0;
+  const price = (s: OrderSash) => parseFloat(s.sashPrice?.toString() || "0");
+  const total = sashes.reduce((sum, s) => sum + price(s), 0);
+  const selected = sashes.filter((s) => sashIds.has(s.id));
+  if (total <= 0) return (salePrice * selected.length) / sashes.length;
+  return (salePrice * selected.reduce((sum, s) => sum + price(s), 0)) / total;
+}
+
+export async function loadOrderShipments(order: Order): Promise<OrderShipments> {
+  const [shipmentList, sashes, shipped] = await Promise.all([
+    storage.getShipmentsByOrderId(order.id),
+    storage.getOrderSashes(order.id),
+    storage.getShippedSashes([order.id]),
+  ]);
+  const shipmentBySash = new Map(shipped.map((row) => [row.sashId, row.shipmentId]));
+
+  return {
+    shipments: shipmentList.map((shipment) => {
+      const sashIds = shipped
+        .filter((row) => row.shipmentId === shipment.id)
+        .map((row) => row.sashId);
+      return {
+        ...shipment,
+        sashIds,
+        amount: shareOfOrderAmount(order, sashes, new Set(sashIds)),
+      };
+    }),
+    sashes: sashes.map((sash) => ({
+      ...sash,
+      shipmentId: shipmentBySash.get(sash.id) ?? null,
+    })),
+    shippedCount: shipmentBySash.size,
+    totalCount: sashes.length,
+  };
+}
+
+/**
+ * Накладная со створками в транзакции вызывающего, под блокировкой заказа.
+ * null — створку успели отгрузить другой накладной.
+ */
+async function insertShipment(
+  tx: Tx,
+  userId: string,
+  order: Order,
+  form: ShipmentForm,
+  sashIds: string[]
+): Promise<Shipment | null> {
+  if (sashIds.length > 0) {
+    const shipped = await tx
+      .select({ id: shipmentSashes.id })
+      .from(shipmentSashes)
+      .where(inArray(shipmentSashes.sashId, sashIds))
+      .limit(1);
+    if (shipped.length > 0) return null;
+  }
+
+  const [last] = await tx
+    .select({ maxNum: sql<number>`COALESCE(MAX(${shipments.number}), 0)` })
+    .from(shipments)
+    .where(eq(shipments.userId, userId));
+  const [created] = await tx
+    .insert(shipments)
+    .values({
+      orderId: order.id,
+      number: Number(last?.maxNum || 0) + 1,
+      date: form.date,
+      driverName: form.driverName || null,
+      comment: form.comment || null,
+      userId,
+    })
+    .returning();
+  if (sashIds.length > 0) {
+    await tx
+      .insert(shipmentSashes)
+      .values(sashIds.map((sashId) => ({ shipmentId: created.id, sashId })));
+  }
+  return created;
+}
+
+const ALREADY_SHIPPED = { message: "Створка уже отгружена" };
+
+/**
+ * Накладная на выбранные створки. Если после неё в заказе не останется
+ * неотгруженных створок, заказ переводится в "Отгружен" — с проверками и
+ * списанием материалов — в той же транзакции, что и накладная: при отказе
+ * не создаётся ни накладная, ни переход.
+ */
+export async function createOrderShipment(params: {
+  userId: string;
+  actorId?: string;
+  order: Order;
+  form: ShipmentForm;
+}): Promise<ShipmentResult> {
+  const { userId, actorId, order, form } = params;
+
+  if (!isShippableOrder(order)) {
+    return {
+      ok: false,
+      status: 400,
+      body: { message: "Отгрузить можно только заказ в производстве или готовый" },
+    };
+  }
+
+  const { sashes } = await loadOrderShipments(order);
+  const sashIds = Array.from(new Set(form.sashIds));
+  for (const sashId of sashIds) {
+    const sash = sashes.find((s) => s.id === sashId);
+    if (!sash) {
+      return { ok: false, status: 400, body: { message: "Створка не из этого заказа" } };
+    }
+    if (sash.shipmentId) {
+      return { ok: false, status: 400, body: ALREADY_SHIPPED };
+    }
+  }
+
+  const remaining = sashes.filter((s) => !s.shipmentId && !sashIds.includes(s.id));
+  if (remaining.length === 0) {
+    // Сначала накладная, затем переход — в транзакции перехода
+    const created: { shipment?: Shipment } = {};
+    const result = await transitionOrderStatus({
+      userId,
+      actorId,
+      orderId: order.id,
+      to: "Отгружен",
+      before: async (tx) => {
+        const shipment = await insertShipment(tx, userId, order, form, sashIds);
+        if (!shipment) return ALREADY_SHIPPED;
+        created.shipment = shipment;
+        return null;
+      },
+    });
+    if (!result.ok) return result;
+    return { ok: true, shipment: created.shipment!, order: result.order };
+  }
+
+  const shipment = await db.transaction(async (tx) => {
+    // Блокируем заказ, как при смене статуса: отгрузка не разойдётся с ней
+    const [locked] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, order.id))
+      .for("update");
+    if (!locked || !isShippableOrder(locked)) return undefined;
+    return insertShipment(tx, userId, locked, form, sashIds);
+  });
+  if (shipment === undefined) {
+    return {
+      ok: false,
+      status: 409,
+      body: { message: "Статус заказа уже изменён. Обновите страницу" },
+    };
+  }
+  if (!shipment) return { ok: false, status: 400, body: ALREADY_SHIPPED };
+
+  return { ok: true, shipment, order };
+}
+
+/**
+ * Отгруженная сумма по дилерам: отгруженный заказ — целиком, заказ,
+ * уехавший частично, — долей отгруженных створок.
+ */
+export async function getShippedSalesByDealer(
+  userId: string
+): Promise<Map<string, number>> {
+  const orderList = (await storage.getOrders(userId)).filter((o) => o.dealerId);
+  const partial = orderList.filter(isShippableOrder);
+  const shipped = await storage.getShippedSashes(partial.map((o) => o.id));
+
+  const result = new Map<string, number>();
+  const add = (dealerId: string, amount: number) =>
+    result.set(dealerId, (result.get(dealerId) || 0) + amount);
+
+  for (const order of orderList) {
+    if (order.status === "Отгружен") {
+      add(order.dealerId!, parseFloat(order.salePrice?.toString() || "0"));
+    }
+  }
+  for (const order of partial) {
+    const sashIds = new Set(
+      shipped.filter((row) => row.orderId === order.id).map((row) => row.sashId)
+    );
+    if (sashIds.size === 0) continue;
+    const sashes = await storage.getOrderSashes(order.id);
+    add(order.dealerId!, shareOfOrderAmount(order, sashes, sashIds));
+  }
+  return result;
+}
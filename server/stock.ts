@@ -0,0 +1,629 @@
+import { and, asc, eq, ne, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { applyCostMovement } from "./costing";
+import {
+  stockMovements,
+  stockBalances,
+  stockReservations,
+  type OrderSash,
+  type InsertStockMovement,
+  type StockMovementKind,
+  type WarehouseReceipt,
+  type WarehouseReceiptItem,
+  type WarehouseWriteoff,
+} from "@shared/schema";
+
+// Общий сервис склада: журнал движений (stock_movements), текущие остатки
+// (stock_balances) и резервы под заказы в производстве (stock_reservations).
+// Все, кто меняет или читает остатки, идут через него.
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type StockExecutor = typeof db | Tx;
+
+// Остатки и цены материалов по позиции
+export interface StockEntry {
+  // На складе физически
+  quantity: number;
+  // Зарезервировано под заказы в производстве
+  reserved: number;
+  // Свободно: quantity − reserved
+  available: number;
+  totalReceived: number;
+  avgPrice: number;
+  totalValue: number;
+  lastPrice: number;
+}
+
+export interface StockSnapshot {
+  fabricStock: Record<string, StockEntry>;
+  componentStock: Record<string, StockEntry>;
+}
+
+// Одна строка потребности в материале (на створку)
+export interface MaterialRequirement {
+  itemType: "fabric" | "component";
+  fabricId?: string;
+  componentId?: string;
+  name: string;
+  quantity: number;
+}
+
+const METRIC_UNITS = ["м", "пм", "п.м.", "м.п."];
+
+/**
+ * Записывает движения и обновляет остатки в переданном executor (db или tx).
+ * Движения, привязанные к поступлению (receiptId), участвуют в средней цене:
+ * меняют totalReceived/totalValue, а приход обновляет lastPrice. Состояние
+ * FIFO/средней (costing.ts) обновляется тем же движением.
+ */
+export async function recordStockMovements(
+  executor: StockExecutor,
+  movements: InsertStockMovement[]
+): Promise<void> {
+  for (const m of movements) {
+    const quantity = parseFloat(m.quantity?.toString() || "0");
+    if (quantity === 0) continue;
+
+    const [movement] = await executor.insert(stockMovements).values(m).returning();
+
+    const affectsCost = !!m.receiptId;
+    const price = parseFloat(m.price?.toString() || "0");
+    const total = parseFloat(m.total?.toString() || "0");
+    const received = affectsCost ? quantity : 0;
+    const value = affectsCost ? (quantity > 0 ? total : -Math.abs(total)) : 0;
+    const updatesLastPrice = affectsCost && quantity > 0;
+
+    await executor
+      .insert(stockBalances)
+      .values({
+        userId: m.userId,
+        itemType: m.itemType,
+        itemId: m.itemId,
+        quantity: quantity.toFixed(4),
+        totalReceived: received.toFixed(4),
+        totalValue: value.toFixed(2),
+        lastPrice: updatesLastPrice ? price.toFixed(2) : "0",
+      })
+      .onConflictDoUpdate({
+        target: [stockBalances.userId, stockBalances.itemType, stockBalances.itemId],
+        set: {
+          quantity: sql`${stockBalances.quantity} + ${quantity.toFixed(4)}`,
+          totalReceived: sql`${stockBalances.totalReceived} + ${received.toFixed(4)}`,
+          totalValue: sql`${stockBalances.totalValue} + ${value.toFixed(2)}`,
+          ...(updatesLastPrice ? { lastPrice: price.toFixed(2) } : {}),
+          updatedAt: new Date(),
+        },
+      });
+
+    await applyCostMovement(executor, movement);
+  }
+}
+
+// Приход по документу поступления. Поступление без поставщика — корректировка
+export async function recordReceiptMovements(
+  executor: StockExecutor,
+  receipt: WarehouseReceipt,
+  items: WarehouseReceiptItem[]
+): Promise<void> {
+  const kind: StockMovementKind = receipt.supplierId ? "receipt" : "adjustment";
+  await recordStockMovements(
+    executor,
+    items
+      .filter((item) => item.fabricId || item.componentId)
+      .map((item) => ({
+        userId: receipt.userId,
+        itemType: item.fabricId ? "fabric" : "component",
+        itemId: (item.fabricId || item.componentId)!,
+        kind,
+        quantity: item.quantity,
+        price: item.price,
+        total: item.total,
+        receiptId: receipt.id,
+        date: receipt.date,
+        comment: receipt.comment,
+      }))
+  );
+}
+
+// Расход по строкам списания. Списание без заказа — корректировка
+export async function recordWriteoffMovements(
+  executor: StockExecutor,
+  writeoffs: WarehouseWriteoff[]
+): Promise<void> {
+  await recordStockMovements(
+    executor,
+    writeoffs
+      .filter((wo) => wo.fabricId || wo.componentId)
+      .map((wo) => ({
+        userId: wo.userId,
+        itemType: wo.fabricId ? "fabric" : "component",
+        itemId: (wo.fabricId || wo.componentId)!,
+        kind: wo.orderId ? "writeoff" : "adjustment",
+        quantity: (-parseFloat(wo.quantity?.toString() || "0")).toFixed(4),
+        price: wo.price,
+        total: wo.total,
+        writeoffId: wo.id,
+        orderId: wo.orderId,
+        date: wo.date,
+        comment: wo.comment,
+      }))
+  );
+}
+
+// Сторно: обнуляет чистое движение по источнику (поступлению или заказу).
+// Повторный вызов ничего не делает — сумма по источнику уже равна нулю.
+async function reverseMovements(
+  executor: StockExecutor,
+  userId: string,
+  source: { receiptId: string } | { orderId: string } | { layoutId: string },
+  comment: string
+): Promise<void> {
+  const condition =
+    "receiptId" in source
+      ? eq(stockMovements.receiptId, source.receiptId)
+      : "orderId" in source
+        ? eq(stockMovements.orderId, source.orderId)
+        : eq(stockMovements.layoutId, source.layoutId);
+
+  const net = await executor
+    .select({
+      itemType: stockMovements.itemType,
+      itemId: stockMovements.itemId,
+      quantity: sql<string>`SUM(${stockMovements.quantity})`,
+      total: sql<string>`SUM(SIGN(${stockMovements.quantity}) * ${stockMovements.total})`,
+    })
+    .from(stockMovements)
+    .where(and(eq(stockMovements.userId, userId), condition))
+    .groupBy(stockMovements.itemType, stockMovements.itemId);
+
+  const today = new Date().toISOString().split("T")[0];
+  await recordStockMovements(
+    executor,
+    net.map((row) => {
+      const quantity = -parseFloat(row.quantity || "0");
+      const total = Math.abs(parseFloat(row.total || "0"));
+      return {
+        userId,
+        itemType: row.itemType,
+        itemId: row.itemId,
+        kind: "reversal" as const,
+        quantity: quantity.toFixed(4),
+        price: quantity !== 0 ? (total / Math.abs(quantity)).toFixed(2) : "0",
+        total: total.toFixed(2),
+        ...source,
+        date: today,
+        comment,
+      };
+    })
+  );
+}
+
+export async function reverseReceiptMovements(
+  executor: StockExecutor,
+  userId: string,
+  receiptId: string
+): Promise<void> {
+  await reverseMovements(executor, userId, { receiptId }, "Сторно поступления");
+}
+
+export async function reverseOrderWriteoffMovements(
+  executor: StockExecutor,
+  userId: string,
+  orderId: string
+): Promise<void> {
+  await reverseMovements(executor, userId, { orderId }, "Сторно списания по заказу");
+}
+
+export async function reverseCuttingLayoutMovements(
+  executor: StockExecutor,
+  userId: string,
+  layoutId: string
+): Promise<void> {
+  await reverseMovements(executor, userId, { layoutId }, "Сторно раскроя");
+}
+
+// Резервы по позициям (ключ itemType:itemId), без резервов заказа excludeOrderId
+async function getReservedQuantities(
+  userId: string,
+  excludeOrderId?: string,
+  executor: StockExecutor = db
+): Promise<Record<string, number>> {
+  const conditions = [eq(stockReservations.userId, userId)];
+  if (excludeOrderId) conditions.push(ne(stockReservations.orderId, excludeOrderId));
+
+  const rows = await executor
+    .select({
+      itemType: stockReservations.itemType,
+      itemId: stockReservations.itemId,
+      quantity: sql<string>`SUM(${stockReservations.quantity})`,
+    })
+    .from(stockReservations)
+    .where(and(...conditions))
+    .groupBy(stockReservations.itemType, stockReservations.itemId);
+
+  const result: Record<string, number> = {};
+  for (const row of rows) {
+    result[`${row.itemType}:${row.itemId}`] = parseFloat(row.quantity || "0");
+  }
+  return result;
+}
+
+/**
+ * Остатки по позициям. excludeOrderId — не учитывать резерв этого заказа
+ * (при проверке заказа его собственный резерв доступен ему самому).
+ * executor — транзакция, если остатки читаются под lockStockItems.
+ */
+export async function getStockSnapshot(
+  userId: string,
+  excludeOrderId?: string,
+  executor: StockExecutor = db
+): Promise<StockSnapshot> {
+  const balances = await executor
+    .select()
+    .from(stockBalances)
+    .where(eq(stockBalances.userId, userId));
+  const reserved = await getReservedQuantities(userId, excludeOrderId, executor);
+
+  const fabricStock: Record<string, StockEntry> = {};
+  const componentStock: Record<string, StockEntry> = {};
+  const emptyEntry = (): StockEntry => ({
+    quantity: 0,
+    reserved: 0,
+    available: 0,
+    totalReceived: 0,
+    totalValue: 0,
+    lastPrice: 0,
+    avgPrice: 0,
+  });
+
+  for (const b of balances) {
+    const totalReceived = parseFloat(b.totalReceived);
+    const totalValue = parseFloat(b.totalValue);
+    const entry: StockEntry = {
+      ...emptyEntry(),
+      quantity: parseFloat(b.quantity),
+      totalReceived,
+      totalValue,
+      lastPrice: parseFloat(b.lastPrice),
+      // Средняя цена — от общего количества поступлений, а не от остатка
+      avgPrice: totalReceived > 0 ? totalValue / totalReceived : 0,
+    };
+    if (b.itemType === "fabric") fabricStock[b.itemId] = entry;
+    else componentStock[b.itemId] = entry;
+  }
+
+  for (const [key, quantity] of Object.entries(reserved)) {
+    const [itemType, itemId] = key.split(":");
+    const target = itemType === "fabric" ? fabricStock : componentStock;
+    if (!target[itemId]) target[itemId] = emptyEntry();
+    target[itemId].reserved = quantity;
+  }
+
+  for (const entry of [...Object.values(fabricStock), ...Object.values(componentStock)]) {
+    entry.available = entry.quantity - entry.reserved;
+  }
+
+  return { fabricStock, componentStock };
+}
+
+/**
+ * Резервирует материалы под заказ: прежний резерв заказа заменяется новым
+ * (повторный вызов после правки створок пересчитывает резерв).
+ */
+export async function reserveOrderMaterials(
+  executor: StockExecutor,
+  userId: string,
+  orderId: string,
+  requirements: MaterialRequirement[]
+): Promise<void> {
+  await releaseOrderReservation(executor, orderId);
+
+  const totals: Record<string, { itemType: string; itemId: string; quantity: number }> = {};
+  for (const r of requirements) {
+    const itemId = (r.fabricId || r.componentId)!;
+    const key = `${r.itemType}:${itemId}`;
+    if (!totals[key]) totals[key] = { itemType: r.itemType, itemId, quantity: 0 };
+    totals[key].quantity += r.quantity;
+  }
+
+  const rows = Object.values(totals).filter((t) => t.quantity > 0);
+  if (rows.length === 0) return;
+  await executor.insert(stockReservations).values(
+    rows.map((t) => ({
+      userId,
+      orderId,
+      itemType: t.itemType,
+      itemId: t.itemId,
+      quantity: t.quantity.toFixed(4),
+    }))
+  );
+}
+
+/**
+ * Блокирует строки остатков позиций до конца транзакции: проверка
+ * свободного остатка и списание или резерв под ней не пересекаются с
+ * параллельным заказом на тот же материал. Строки берутся в одном порядке,
+ * чтобы два заказа не ждали друг друга.
+ */
+export async function lockStockItems(
+  tx: Tx,
+  userId: string,
+  requirements: MaterialRequirement[]
+): Promise<void> {
+  const items = Array.from(
+    new Map(
+      requirements.map((r) => {
+        const itemId = (r.fabricId || r.componentId)!;
+        return [`${r.itemType}:${itemId}`, { itemType: r.itemType, itemId }] as const;
+      })
+    ).values()
+  );
+  if (items.length === 0) return;
+  await tx
+    .select({ itemId: stockBalances.itemId })
+    .from(stockBalances)
+    .where(
+      and(
+        eq(stockBalances.userId, userId),
+        or(
+          ...items.map((item) =>
+            and(eq(stockBalances.itemType, item.itemType), eq(stockBalances.itemId, item.itemId))
+          )
+        )
+      )
+    )
+    .orderBy(asc(stockBalances.itemType), asc(stockBalances.itemId))
+    .for("update");
+}
+
+/**
+ * Пересчёт резерва заказа в производстве по новым створкам — в транзакции,
+ * которая их записывает. Если резерв по какой-то позиции растёт, свободный
+ * остаток проверяется под блокировкой строк остатков; не хватает — резерв
+ * не меняется, возвращаются ошибки.
+ */
+export async function refreshOrderReservation(
+  tx: Tx,
+  userId: string,
+  orderId: string,
+  requirements: MaterialRequirement[]
+): Promise<{ valid: boolean; errors: string[] }> {
+  await lockStockItems(tx, userId, requirements);
+
+  const current = await tx
+    .select()
+    .from(stockReservations)
+    .where(eq(stockReservations.orderId, orderId));
+  const reserved: Record<string, number> = {};
+  for (const row of current) {
+    const key = `${row.itemType}:${row.itemId}`;
+    reserved[key] = (reserved[key] || 0) + parseFloat(row.quantity);
+  }
+  const needed: Record<string, number> = {};
+  for (const r of requirements) {
+    const key = `${r.itemType}:${(r.fabricId || r.componentId)!}`;
+    needed[key] = (needed[key] || 0) + r.quantity;
+  }
+
+  const grows = Object.entries(needed).some(
+    ([key, quantity]) => quantity > (reserved[key] || 0) + 1e-9
+  );
+  if (grows) {
+    const validation = await validateSashOrderStock(userId, [], orderId, tx, requirements);
+    if (!validation.valid) return validation;
+  }
+
+  await reserveOrderMaterials(tx, userId, orderId, requirements);
+  return { valid: true, errors: [] };
+}
+
+export async function releaseOrderReservation(
+  executor: StockExecutor,
+  orderId: string
+): Promise<void> {
+  await executor
+    .delete(stockReservations)
+    .where(eq(stockReservations.orderId, orderId));
+}
+
+// Helper function to calculate current stock levels
+export async function getStockLevels(userId: string) {
+  const snapshot = await getStockSnapshot(userId);
+  const fabricStock: Record<string, number> = {};
+  const componentStock: Record<string, number> = {};
+  for (const [id, entry] of Object.entries(snapshot.fabricStock)) {
+    fabricStock[id] = entry.quantity;
+  }
+  for (const [id, entry] of Object.entries(snapshot.componentStock)) {
+    componentStock[id] = entry.quantity;
+  }
+  return { fabricStock, componentStock };
+}
+
+// Свободный остаток (на складе минус резервы других заказов)
+export async function getAvailableStock(
+  userId: string,
+  excludeOrderId?: string,
+  executor: StockExecutor = db
+) {
+  const snapshot = await getStockSnapshot(userId, excludeOrderId, executor);
+  const fabricStock: Record<string, number> = {};
+  const componentStock: Record<string, number> = {};
+  for (const [id, entry] of Object.entries(snapshot.fabricStock)) {
+    fabricStock[id] = entry.available;
+  }
+  for (const [id, entry] of Object.entries(snapshot.componentStock)) {
+    componentStock[id] = entry.available;
+  }
+  return { fabricStock, componentStock };
+}
+
+// Compute current weighted-avg price per fabric from warehouse receipts.
+// When no receipts exist, fall back to the manual `fabrics.price` column
+// (set via "Пересчитать себестоимость" before a buy-in is recorded).
+// Fabrics with neither receipts nor manual price get 0 — blocks shipping
+// so costPrice isn't understated.
+export async function getFabricAvgPrices(
+  userId: string,
+  executor: StockExecutor = db
+): Promise<Record<string, number>> {
+  const { fabricStock } = await getStockSnapshot(userId, undefined, executor);
+  const allFabrics = await storage.getFabrics(userId);
+  const result: Record<string, number> = {};
+  for (const fabric of allFabrics) {
+    const avg = fabricStock[fabric.id]?.avgPrice ?? 0;
+    if (avg > 0) {
+      result[fabric.id] = avg;
+    } else {
+      const manual = parseFloat(fabric.price?.toString() || "0");
+      result[fabric.id] = manual > 0 ? manual : 0;
+    }
+  }
+  return result;
+}
+
+/**
+ * Потребность в материалах по створкам: ткань (м², зебра ×2), комплектующие
+ * системы (метражные — по ширине/высоте × множитель) и прямой компонент для
+ * заказов товара. Возвращает строки в порядке створок, без агрегации.
+ */
+export async function getSashMaterialRequirements(
+  userId: string,
+  sashes: Array<
+    Pick<OrderSash, "width" | "height" | "fabricId" | "systemId" | "componentId"> & {
+      quantity?: string | number | null;
+    }
+  >
+): Promise<MaterialRequirement[]> {
+  const [allFabrics, allSystems, allComponents] = await Promise.all([
+    storage.getFabrics(userId),
+    storage.getSystems(userId),
+    storage.getComponents(userId),
+  ]);
+  const systemComponentsCache = new Map<
+    string,
+    Awaited<ReturnType<typeof storage.getSystemComponents>>
+  >();
+
+  const result: MaterialRequirement[] = [];
+
+  for (const sash of sashes) {
+    const widthM = parseFloat(sash.width?.toString() || "0") / 100;
+    const heightM = parseFloat(sash.height?.toString() || "0") / 100;
+    const areaM2 = widthM * heightM;
+    const quantity = parseInt(sash.quantity?.toString() || "1") || 1;
+
+    if (sash.fabricId) {
+      const fabric = allFabrics.find((f) => f.id === sash.fabricId);
+      if (fabric) {
+        const fabricMultiplier = fabric.fabricType === "zebra" ? 2 : 1;
+        result.push({
+          itemType: "fabric",
+          fabricId: fabric.id,
+          name: fabric.name,
+          quantity: areaM2 * fabricMultiplier * quantity,
+        });
+      }
+    }
+
+    if (sash.systemId) {
+      const system = allSystems.find((s) => s.id === sash.systemId);
+      if (system) {
+        let systemComps = systemComponentsCache.get(system.id);
+        if (!systemComps) {
+          systemComps = await storage.getSystemComponents(system.id);
+          systemComponentsCache.set(system.id, systemComps);
+        }
+
+        for (const sc of systemComps) {
+          const component = allComponents.find((c) => c.id === sc.componentId);
+          if (!component) continue;
+
+          const compQuantity = parseFloat(sc.quantity?.toString() || "1");
+          const sizeMultiplier = parseFloat(sc.sizeMultiplier?.toString() || "1");
+          const unit = component.unit || "шт";
+
+          let componentQty = compQuantity;
+          if (METRIC_UNITS.includes(unit.toLowerCase())) {
+            const size = sc.sizeSource === "height" ? heightM : widthM;
+            componentQty = size * sizeMultiplier * compQuantity;
+          }
+
+          result.push({
+            itemType: "component",
+            componentId: component.id,
+            name: component.name,
+            quantity: componentQty * quantity,
+          });
+        }
+      }
+    }
+
+    // Прямой компонент (для заказов товара)
+    if (sash.componentId && !sash.systemId) {
+      const component = allComponents.find((c) => c.id === sash.componentId);
+      if (component) {
+        result.push({
+          itemType: "component",
+          componentId: component.id,
+          name: component.name,
+          quantity,
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+// Helper function to validate stock for sash order
+export async function validateSashOrderStock(
+  userId: string,
+  sashes: any[],
+  excludeOrderId?: string,
+  executor: StockExecutor = db,
+  // Уже посчитанная потребность — чтобы не считать её второй раз
+  requirements?: MaterialRequirement[]
+): Promise<{ valid: boolean; errors: string[] }> {
+  const errors: string[] = [];
+  const { fabricStock, componentStock } = await getAvailableStock(
+    userId,
+    excludeOrderId,
+    executor
+  );
+  if (!requirements) {
+    requirements = await getSashMaterialRequirements(userId, sashes);
+  }
+
+  const required: Record<string, MaterialRequirement> = {};
+  for (const r of requirements) {
+    const key = r.fabricId ? `fabric:${r.fabricId}` : `component:${r.componentId}`;
+    if (!required[key]) required[key] = { ...r, quantity: 0 };
+    required[key].quantity += r.quantity;
+  }
+
+  for (const r of Object.values(required)) {
+    if (r.itemType === "fabric") {
+      const available = fabricStock[r.fabricId!] || 0;
+      if (available < r.quantity) {
+        errors.push(
+          `Недостаточно ткани "${r.name}": требуется ${r.quantity.toFixed(
+            2
+          )} м², доступно ${available.toFixed(2)} м²`
+        );
+      }
+    } else {
+      const available = componentStock[r.componentId!] || 0;
+      if (available < r.quantity) {
+        errors.push(
+          `Недостаточно комплектующих "${r.name}": требуется ${r.quantity.toFixed(
+            2
+          )}, доступно ${available.toFixed(2)}`
+        );
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
@@ -11,6 +11,8 @@ import {
   or,
   ilike,
   inArray,
+  notInArray,
+  gt,
 } from "drizzle-orm";
 import { db } from "./db";
 import {
@@ -31,10 +33,19 @@ import {
   warehouseReceipts,
   warehouseReceiptItems,
   warehouseWriteoffs,
+  purchaseOrders,
+  purchaseOrderItems,
+  coefficientVersions,
+  coefficientGrids,
+  priceTiers,
+  quotes,
+  quoteRevisions,
+  quoteSashes,
   auditLogs,
   notifications,
   cuttingLayouts,
   cuttingLayoutRows,
+  fabricRemnants,
   measurements,
   measurementSashes,
   measurementPhotos,
@@ -72,14 +83,51 @@ import {
   type InsertWarehouseReceiptItem,
   type WarehouseWriteoff,
   type InsertWarehouseWriteoff,
+  type PurchaseOrder,
+  type InsertPurchaseOrder,
+  type PurchaseOrderItem,
+  type InsertPurchaseOrderItem,
+  type CoefficientVersion,
+  type InsertCoefficientVersion,
+  type CoefficientGrid,
+  type InsertCoefficientGrid,
+  type PriceTier,
+  type InsertPriceTier,
+  type Quote,
+  type InsertQuote,
+  type QuoteRevision,
+  type InsertQuoteRevision,
+  type QuoteSash,
+  type InsertQuoteSash,
+  shipments,
+  shipmentSashes,
+  sashStageEvents,
+  type SashStageEvent,
+  productionCalendarDays,
+  type ProductionCalendarDay,
+  type InsertProductionCalendarDay,
+  uploadedFiles,
+  type UploadedFile,
+  type InsertUploadedFile,
+  installationJobs,
+  type InstallationJob,
+  type InsertInstallationJob,
+  type InsertSashStageEvent,
+  type Shipment,
+  type InsertShipment,
   type AuditLog,
   type InsertAuditLog,
   type Notification,
   type InsertNotification,
+  notificationPreferences,
+  notificationEmails,
+  type NotificationPreferencesRow,
+  type NotificationEmailStatus,
   type CuttingLayout,
   type InsertCuttingLayout,
   type CuttingLayoutRow,
   type InsertCuttingLayoutRow,
+  type FabricRemnant,
   type Measurement,
   type InsertMeasurement,
   type MeasurementSash,
@@ -99,8 +147,24 @@ import {
   type DeviceToken,
   type InsertDeviceToken,
   type DevicePlatform,
+  mobileIdempotencyKeys,
+  type MobileIdempotencyKey,
+  scheduledJobs,
+  type ScheduledJob,
+  jobRuns,
+  type JobRun,
+  type InsertJobRun,
+  organizations,
+  type Organization,
+  staffMembers,
+  type StaffMember,
+  REVERSED_ORDER_STATUSES,
 } from "@shared/schema";
 
+// Отменённые и возвращённые заказы в долг дилера не входят
+const orderCountsTowardDebt = () =>
+  or(isNull(orders.status), notInArray(orders.status, [...REVERSED_ORDER_STATUSES]));
+
 // Pagination types
 export interface PaginationParams {
   limit?: number;
@@ -142,8 +206,20 @@ export interface AuditLogFilters {
   action?: string;
   from?: string;
   to?: string;
+  actorId?: string;
+}
+
+export interface InstallationJobFilters {
+  date?: string;
+  installerId?: string;
 }
 
+export type InstallationJobDetails = InstallationJob & {
+  orderNumber: number;
+  dealerId: string | null;
+  installerName: string | null;
+};
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
@@ -265,6 +341,7 @@ export interface IStorage {
 
   // Order Sashes
   getOrderSashes(orderId: string): Promise<OrderSash[]>;
+  getOrderSash(id: string): Promise<OrderSash | undefined>;
   createOrderSash(sash: InsertOrderSash): Promise<OrderSash>;
   updateOrderSash(
     id: string,
@@ -320,7 +397,125 @@ export interface IStorage {
     item: InsertWarehouseReceiptItem
   ): Promise<WarehouseReceiptItem>;
   deleteWarehouseReceiptItemsByReceiptId(receiptId: string): Promise<void>;
-  getPreviousPrice(itemType: string, itemId: string): Promise<string | null>;
+  getDraftReceiptItems(userId: string): Promise<WarehouseReceiptItem[]>;
+  getPreviousPrices(
+    userId: string,
+    items: { itemType: string; itemId: string }[]
+  ): Promise<Record<string, string>>;
+
+  // Purchase Orders
+  getPurchaseOrders(userId: string): Promise<PurchaseOrder[]>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
+  getNextPurchaseOrderNumber(userId: string): Promise<number>;
+  createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder>;
+  updatePurchaseOrder(
+    id: string,
+    order: Partial<InsertPurchaseOrder>
+  ): Promise<PurchaseOrder | undefined>;
+  deletePurchaseOrder(id: string): Promise<void>;
+  getPurchaseOrderItems(purchaseOrderId: string): Promise<PurchaseOrderItem[]>;
+  createPurchaseOrderItem(
+    item: InsertPurchaseOrderItem
+  ): Promise<PurchaseOrderItem>;
+  deletePurchaseOrderItemsByOrderId(purchaseOrderId: string): Promise<void>;
+  getPurchaseOrderReceivedQuantities(
+    purchaseOrderId: string
+  ): Promise<Record<string, number>>;
+
+  // Coefficient tables
+  getCoefficientVersions(userId: string): Promise<CoefficientVersion[]>;
+  getCoefficientVersion(id: string): Promise<CoefficientVersion | undefined>;
+  createCoefficientVersion(
+    version: InsertCoefficientVersion
+  ): Promise<CoefficientVersion>;
+  updateCoefficientVersion(
+    id: string,
+    version: Partial<InsertCoefficientVersion>
+  ): Promise<CoefficientVersion | undefined>;
+  deleteCoefficientVersion(id: string): Promise<void>;
+  touchCoefficientVersion(id: string): Promise<void>;
+  getCoefficientVersionOrderCounts(userId: string): Promise<Record<string, number>>;
+  getCoefficientGrids(versionId: string): Promise<CoefficientGrid[]>;
+  getCoefficientGrid(id: string): Promise<CoefficientGrid | undefined>;
+  createCoefficientGrids(grids: InsertCoefficientGrid[]): Promise<CoefficientGrid[]>;
+  updateCoefficientGrid(
+    id: string,
+    grid: Partial<InsertCoefficientGrid>
+  ): Promise<CoefficientGrid | undefined>;
+
+  // Price tiers
+  getPriceTiers(userId: string): Promise<PriceTier[]>;
+  getPriceTier(id: string): Promise<PriceTier | undefined>;
+  createPriceTier(tier: InsertPriceTier): Promise<PriceTier>;
+  updatePriceTier(
+    id: string,
+    tier: Partial<InsertPriceTier>
+  ): Promise<PriceTier | undefined>;
+  deletePriceTier(id: string): Promise<void>;
+  getPriceTierDealerCounts(userId: string): Promise<Record<string, number>>;
+
+  // Quotes
+  getQuotes(userId: string): Promise<Quote[]>;
+  getDealerQuotes(dealerId: string): Promise<Quote[]>;
+  getQuote(id: string): Promise<Quote | undefined>;
+  getQuoteByOrderId(orderId: string): Promise<Quote | undefined>;
+  getNextQuoteNumber(userId: string): Promise<number>;
+  createQuote(quote: InsertQuote): Promise<Quote>;
+  updateQuote(id: string, quote: Partial<InsertQuote>): Promise<Quote | undefined>;
+  deleteQuote(id: string): Promise<void>;
+  getQuoteRevisions(quoteIds: string[]): Promise<QuoteRevision[]>;
+  createQuoteRevision(
+    revision: InsertQuoteRevision,
+    sashes: Omit<InsertQuoteSash, "revisionId">[]
+  ): Promise<QuoteRevision>;
+  getQuoteSashes(revisionIds: string[]): Promise<QuoteSash[]>;
+
+  // Shipments
+  getShipmentsByOrderId(orderId: string): Promise<Shipment[]>;
+  getShipment(id: string): Promise<Shipment | undefined>;
+  updateShipment(
+    id: string,
+    shipment: Partial<InsertShipment>
+  ): Promise<Shipment | undefined>;
+  deleteShipment(id: string): Promise<void>;
+  // Отгруженные створки заказов: какая створка какой отгрузкой уехала
+  getShippedSashes(
+    orderIds: string[]
+  ): Promise<{ orderId: string; shipmentId: string; sashId: string }[]>;
+
+  // Sash Stage Events
+  getSashStageEvents(
+    orderIds: string[]
+  ): Promise<(SashStageEvent & { orderId: string; workerName: string | null })[]>;
+  // undefined — этап у створки уже отмечен
+  createSashStageEvent(
+    event: InsertSashStageEvent
+  ): Promise<SashStageEvent | undefined>;
+  deleteSashStageEvent(id: string): Promise<void>;
+
+  // Production Calendar
+  getProductionCalendarDays(
+    userId: string,
+    from: string,
+    to: string
+  ): Promise<ProductionCalendarDay[]>;
+  upsertProductionCalendarDay(
+    day: InsertProductionCalendarDay
+  ): Promise<ProductionCalendarDay>;
+  deleteProductionCalendarDay(userId: string, date: string): Promise<void>;
+
+  // Installation Jobs
+  getInstallationJobs(
+    userId: string,
+    filters?: InstallationJobFilters
+  ): Promise<InstallationJobDetails[]>;
+  getInstallationJob(id: string): Promise<InstallationJob | undefined>;
+  createInstallationJob(job: InsertInstallationJob): Promise<InstallationJob>;
+  updateInstallationJob(
+    id: string,
+    job: Partial<InsertInstallationJob>
+  ): Promise<InstallationJob | undefined>;
+  deleteInstallationJob(id: string): Promise<void>;
 
   // Warehouse Writeoffs
   getWarehouseWriteoffs(userId: string): Promise<WarehouseWriteoff[]>;
@@ -348,9 +543,60 @@ export interface IStorage {
   markNotificationRead(id: string): Promise<Notification | undefined>;
   markAllNotificationsRead(userId: string): Promise<void>;
 
+  // Notification Preferences
+  getNotificationPreferences(userId: string): Promise<NotificationPreferencesRow | undefined>;
+  upsertNotificationPreferences(
+    userId: string,
+    data: Partial<Omit<NotificationPreferencesRow, "userId" | "updatedAt">>
+  ): Promise<NotificationPreferencesRow>;
+  queueNotificationEmails(
+    notificationId: string,
+    emails: { recipientId: string; status: NotificationEmailStatus }[]
+  ): Promise<void>;
+  getUsersWithQueuedEmails(userId?: string): Promise<string[]>;
+  claimNotificationEmails(
+    recipientId: string,
+    status: NotificationEmailStatus
+  ): Promise<Notification[]>;
+  setNotificationEmailStatus(
+    recipientId: string,
+    notificationIds: string[],
+    status: NotificationEmailStatus
+  ): Promise<void>;
+
+  // Scheduled Jobs
+  ensureScheduledJobs(names: string[]): Promise<void>;
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  lockScheduledJob(
+    name: string,
+    lockedBy: string,
+    lockedUntil: Date,
+    dueOnly: boolean
+  ): Promise<ScheduledJob | undefined>;
+  releaseScheduledJob(
+    lock: Pick<ScheduledJob, "name" | "lockedBy" | "lockedUntil">,
+    data: Partial<Omit<ScheduledJob, "name" | "lockedBy" | "lockedUntil">>
+  ): Promise<boolean>;
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  finishJobRun(
+    id: string,
+    data: Pick<JobRun, "status" | "finishedAt" | "durationMs" | "result" | "error">
+  ): Promise<void>;
+  getJobRuns(filters: {
+    jobName?: string;
+    userId: string;
+    limit?: number;
+  }): Promise<JobRun[]>;
+  deleteJobRunsBefore(date: Date): Promise<number>;
+
   // Measurements
   getMeasurements(dealerId: string): Promise<Measurement[]>;
   getMeasurement(id: string): Promise<Measurement | undefined>;
+  getMeasurementByOrderId(orderId: string): Promise<Measurement | undefined>;
+  getMeasurementByClientId(
+    dealerId: string,
+    clientId: string
+  ): Promise<Measurement | undefined>;
   createMeasurement(measurement: InsertMeasurement): Promise<Measurement>;
   updateMeasurement(
     id: string,
@@ -373,6 +619,12 @@ export interface IStorage {
     photo: InsertMeasurementPhoto
   ): Promise<MeasurementPhoto>;
   deleteMeasurementPhoto(id: string): Promise<void>;
+  deleteMeasurementPhotosByMeasurementId(measurementId: string): Promise<void>;
+
+  // Uploaded Files
+  getUploadedFile(id: string): Promise<UploadedFile | undefined>;
+  getUploadedFiles(ids: string[]): Promise<UploadedFile[]>;
+  createUploadedFile(file: InsertUploadedFile): Promise<UploadedFile>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -486,7 +738,11 @@ export class DatabaseStorage implements IStorage {
           .select({ total: sum(orders.salePrice) })
           .from(orders)
           .where(
-            and(eq(orders.dealerId, dealer.id), eq(orders.userId, userId))
+            and(
+              eq(orders.dealerId, dealer.id),
+              eq(orders.userId, userId),
+              orderCountsTowardDebt()
+            )
           );
 
         const payments = await db
@@ -812,7 +1068,12 @@ export class DatabaseStorage implements IStorage {
         const receipts = await db
           .select({ total: sum(warehouseReceipts.total) })
           .from(warehouseReceipts)
-          .where(eq(warehouseReceipts.supplierId, supplier.id));
+          .where(
+            and(
+              eq(warehouseReceipts.supplierId, supplier.id),
+              eq(warehouseReceipts.isDraft, false)
+            )
+          );
 
         const payments = await db
           .select({ total: sum(financeOperations.amount) })
@@ -991,6 +1252,11 @@ export class DatabaseStorage implements IStorage {
       .where(eq(orderSashes.orderId, orderId));
   }
 
+  async getOrderSash(id: string): Promise<OrderSash | undefined> {
+    const [sash] = await db.select().from(orderSashes).where(eq(orderSashes.id, id));
+    return sash || undefined;
+  }
+
   async createOrderSash(sash: InsertOrderSash): Promise<OrderSash> {
     const [created] = await db.insert(orderSashes).values(sash).returning();
     return created;
@@ -1325,23 +1591,618 @@ export class DatabaseStorage implements IStorage {
       .where(eq(warehouseReceiptItems.receiptId, receiptId));
   }
 
-  async getPreviousPrice(
-    itemType: string,
-    itemId: string
-  ): Promise<string | null> {
-    const condition =
-      itemType === "component"
-        ? eq(warehouseReceiptItems.componentId, itemId)
-        : eq(warehouseReceiptItems.fabricId, itemId);
+  // Строки черновиков поступлений — уже заказано, но ещё не на складе
+  async getDraftReceiptItems(userId: string): Promise<WarehouseReceiptItem[]> {
+    const rows = await db
+      .select({ item: warehouseReceiptItems })
+      .from(warehouseReceiptItems)
+      .innerJoin(
+        warehouseReceipts,
+        eq(warehouseReceiptItems.receiptId, warehouseReceipts.id)
+      )
+      .where(
+        and(eq(warehouseReceipts.userId, userId), eq(warehouseReceipts.isDraft, true))
+      );
+    return rows.map((r) => r.item);
+  }
 
-    const result = await db
-      .select({ price: warehouseReceiptItems.price })
+  /**
+   * Последняя цена закупки по позициям одним запросом (ключ — itemType:itemId):
+   * из проведённых поступлений рабочего пространства, по дате документа.
+   */
+  async getPreviousPrices(
+    userId: string,
+    items: { itemType: string; itemId: string }[]
+  ): Promise<Record<string, string>> {
+    const fabricIds = items.filter((i) => i.itemType === "fabric").map((i) => i.itemId);
+    const componentIds = items
+      .filter((i) => i.itemType === "component")
+      .map((i) => i.itemId);
+    const itemConditions = [
+      ...(fabricIds.length > 0 ? [inArray(warehouseReceiptItems.fabricId, fabricIds)] : []),
+      ...(componentIds.length > 0
+        ? [inArray(warehouseReceiptItems.componentId, componentIds)]
+        : []),
+    ];
+    if (itemConditions.length === 0) return {};
+
+    const rows = await db
+      .selectDistinctOn([warehouseReceiptItems.fabricId, warehouseReceiptItems.componentId], {
+        fabricId: warehouseReceiptItems.fabricId,
+        componentId: warehouseReceiptItems.componentId,
+        price: warehouseReceiptItems.price,
+      })
       .from(warehouseReceiptItems)
-      .where(condition)
-      .orderBy(desc(warehouseReceiptItems.id))
-      .limit(1);
+      .innerJoin(
+        warehouseReceipts,
+        eq(warehouseReceiptItems.receiptId, warehouseReceipts.id)
+      )
+      .where(
+        and(
+          eq(warehouseReceipts.userId, userId),
+          or(isNull(warehouseReceipts.isDraft), eq(warehouseReceipts.isDraft, false)),
+          or(...itemConditions)
+        )
+      )
+      .orderBy(
+        warehouseReceiptItems.fabricId,
+        warehouseReceiptItems.componentId,
+        desc(warehouseReceipts.date),
+        desc(warehouseReceipts.createdAt)
+      );
+
+    const result: Record<string, string> = {};
+    for (const row of rows) {
+      if (!row.price) continue;
+      const key = row.fabricId ? `fabric:${row.fabricId}` : `component:${row.componentId}`;
+      result[key] = row.price.toString();
+    }
+    return result;
+  }
+
+  // Purchase Orders
+  async getPurchaseOrders(userId: string): Promise<PurchaseOrder[]> {
+    return db
+      .select()
+      .from(purchaseOrders)
+      .where(eq(purchaseOrders.userId, userId))
+      .orderBy(desc(purchaseOrders.number));
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    const [order] = await db
+      .select()
+      .from(purchaseOrders)
+      .where(eq(purchaseOrders.id, id));
+    return order || undefined;
+  }
+
+  async getNextPurchaseOrderNumber(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ maxNum: sql<number>`COALESCE(MAX(${purchaseOrders.number}), 0)` })
+      .from(purchaseOrders)
+      .where(eq(purchaseOrders.userId, userId));
+    return Number(result?.maxNum || 0) + 1;
+  }
+
+  async createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder> {
+    const [created] = await db.insert(purchaseOrders).values(order).returning();
+    return created;
+  }
+
+  async updatePurchaseOrder(
+    id: string,
+    order: Partial<InsertPurchaseOrder>
+  ): Promise<PurchaseOrder | undefined> {
+    const [updated] = await db
+      .update(purchaseOrders)
+      .set(order)
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deletePurchaseOrder(id: string): Promise<void> {
+    await db.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+  }
+
+  async getPurchaseOrderItems(
+    purchaseOrderId: string
+  ): Promise<PurchaseOrderItem[]> {
+    return db
+      .select()
+      .from(purchaseOrderItems)
+      .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId));
+  }
+
+  async createPurchaseOrderItem(
+    item: InsertPurchaseOrderItem
+  ): Promise<PurchaseOrderItem> {
+    const [created] = await db
+      .insert(purchaseOrderItems)
+      .values(item)
+      .returning();
+    return created;
+  }
+
+  async deletePurchaseOrderItemsByOrderId(
+    purchaseOrderId: string
+  ): Promise<void> {
+    await db
+      .delete(purchaseOrderItems)
+      .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId));
+  }
+
+  // Получено по строкам заказа поставщику (только проведённые поступления)
+  async getPurchaseOrderReceivedQuantities(
+    purchaseOrderId: string
+  ): Promise<Record<string, number>> {
+    const rows = await db
+      .select({
+        purchaseOrderItemId: warehouseReceiptItems.purchaseOrderItemId,
+        quantity: sum(warehouseReceiptItems.quantity),
+      })
+      .from(warehouseReceiptItems)
+      .innerJoin(
+        warehouseReceipts,
+        eq(warehouseReceiptItems.receiptId, warehouseReceipts.id)
+      )
+      .innerJoin(
+        purchaseOrderItems,
+        eq(warehouseReceiptItems.purchaseOrderItemId, purchaseOrderItems.id)
+      )
+      .where(
+        and(
+          eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId),
+          eq(warehouseReceipts.isDraft, false)
+        )
+      )
+      .groupBy(warehouseReceiptItems.purchaseOrderItemId);
+
+    const result: Record<string, number> = {};
+    for (const row of rows) {
+      if (row.purchaseOrderItemId) {
+        result[row.purchaseOrderItemId] = parseFloat(row.quantity?.toString() || "0");
+      }
+    }
+    return result;
+  }
+
+  // Coefficient tables
+  async getCoefficientVersions(userId: string): Promise<CoefficientVersion[]> {
+    return db
+      .select()
+      .from(coefficientVersions)
+      .where(eq(coefficientVersions.userId, userId))
+      .orderBy(desc(coefficientVersions.effectiveFrom), desc(coefficientVersions.createdAt));
+  }
+
+  async getCoefficientVersion(id: string): Promise<CoefficientVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(coefficientVersions)
+      .where(eq(coefficientVersions.id, id));
+    return version || undefined;
+  }
+
+  async createCoefficientVersion(
+    version: InsertCoefficientVersion
+  ): Promise<CoefficientVersion> {
+    const [created] = await db.insert(coefficientVersions).values(version).returning();
+    return created;
+  }
+
+  async updateCoefficientVersion(
+    id: string,
+    version: Partial<InsertCoefficientVersion>
+  ): Promise<CoefficientVersion | undefined> {
+    const [updated] = await db
+      .update(coefficientVersions)
+      .set(version)
+      .where(eq(coefficientVersions.id, id))
+      .returning();
+    return updated;
+  }
 
-    return result[0]?.price?.toString() || null;
+  async deleteCoefficientVersion(id: string): Promise<void> {
+    await db.delete(coefficientVersions).where(eq(coefficientVersions.id, id));
+  }
+
+  // Сетки версии изменились: кэш коэффициентов на всех инстансах устаревает
+  async touchCoefficientVersion(id: string): Promise<void> {
+    await db
+      .update(coefficientVersions)
+      .set({ updatedAt: new Date() })
+      .where(eq(coefficientVersions.id, id));
+  }
+
+  // Сколько заказов посчитано по каждой версии
+  async getCoefficientVersionOrderCounts(
+    userId: string
+  ): Promise<Record<string, number>> {
+    const rows = await db
+      .select({
+        versionId: orders.coefficientVersionId,
+        count: sql<number>`count(*)`,
+      })
+      .from(orders)
+      .where(eq(orders.userId, userId))
+      .groupBy(orders.coefficientVersionId);
+
+    const result: Record<string, number> = {};
+    for (const row of rows) {
+      if (row.versionId) result[row.versionId] = Number(row.count);
+    }
+    return result;
+  }
+
+  async getCoefficientGrids(versionId: string): Promise<CoefficientGrid[]> {
+    return db
+      .select()
+      .from(coefficientGrids)
+      .where(eq(coefficientGrids.versionId, versionId))
+      .orderBy(coefficientGrids.systemKey, coefficientGrids.category);
+  }
+
+  async getCoefficientGrid(id: string): Promise<CoefficientGrid | undefined> {
+    const [grid] = await db
+      .select()
+      .from(coefficientGrids)
+      .where(eq(coefficientGrids.id, id));
+    return grid || undefined;
+  }
+
+  async createCoefficientGrids(
+    grids: InsertCoefficientGrid[]
+  ): Promise<CoefficientGrid[]> {
+    if (grids.length === 0) return [];
+    return db.insert(coefficientGrids).values(grids).returning();
+  }
+
+  async updateCoefficientGrid(
+    id: string,
+    grid: Partial<InsertCoefficientGrid>
+  ): Promise<CoefficientGrid | undefined> {
+    const [updated] = await db
+      .update(coefficientGrids)
+      .set(grid)
+      .where(eq(coefficientGrids.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Price tiers
+  async getPriceTiers(userId: string): Promise<PriceTier[]> {
+    return db
+      .select()
+      .from(priceTiers)
+      .where(eq(priceTiers.userId, userId))
+      .orderBy(priceTiers.name);
+  }
+
+  async getPriceTier(id: string): Promise<PriceTier | undefined> {
+    const [tier] = await db.select().from(priceTiers).where(eq(priceTiers.id, id));
+    return tier || undefined;
+  }
+
+  async createPriceTier(tier: InsertPriceTier): Promise<PriceTier> {
+    const [created] = await db.insert(priceTiers).values(tier).returning();
+    return created;
+  }
+
+  async updatePriceTier(
+    id: string,
+    tier: Partial<InsertPriceTier>
+  ): Promise<PriceTier | undefined> {
+    const [updated] = await db
+      .update(priceTiers)
+      .set(tier)
+      .where(eq(priceTiers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deletePriceTier(id: string): Promise<void> {
+    await db.delete(priceTiers).where(eq(priceTiers.id, id));
+  }
+
+  // Сколько дилеров на каждом прайс-листе
+  async getPriceTierDealerCounts(userId: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({
+        tierId: dealers.priceTierId,
+        count: sql<number>`count(*)`,
+      })
+      .from(dealers)
+      .where(eq(dealers.userId, userId))
+      .groupBy(dealers.priceTierId);
+
+    const result: Record<string, number> = {};
+    for (const row of rows) {
+      if (row.tierId) result[row.tierId] = Number(row.count);
+    }
+    return result;
+  }
+
+  // Quotes
+  async getQuotes(userId: string): Promise<Quote[]> {
+    return db
+      .select()
+      .from(quotes)
+      .where(eq(quotes.userId, userId))
+      .orderBy(desc(quotes.number));
+  }
+
+  async getDealerQuotes(dealerId: string): Promise<Quote[]> {
+    return db
+      .select()
+      .from(quotes)
+      .where(eq(quotes.dealerId, dealerId))
+      .orderBy(desc(quotes.createdAt));
+  }
+
+  async getQuote(id: string): Promise<Quote | undefined> {
+    const [quote] = await db.select().from(quotes).where(eq(quotes.id, id));
+    return quote || undefined;
+  }
+
+  async getQuoteByOrderId(orderId: string): Promise<Quote | undefined> {
+    const [quote] = await db
+      .select()
+      .from(quotes)
+      .where(eq(quotes.orderId, orderId));
+    return quote || undefined;
+  }
+
+  async getNextQuoteNumber(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ maxNum: sql<number>`COALESCE(MAX(${quotes.number}), 0)` })
+      .from(quotes)
+      .where(eq(quotes.userId, userId));
+    return Number(result?.maxNum || 0) + 1;
+  }
+
+  async createQuote(quote: InsertQuote): Promise<Quote> {
+    const [created] = await db.insert(quotes).values(quote).returning();
+    return created;
+  }
+
+  async updateQuote(
+    id: string,
+    quote: Partial<InsertQuote>
+  ): Promise<Quote | undefined> {
+    const [updated] = await db
+      .update(quotes)
+      .set(quote)
+      .where(eq(quotes.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteQuote(id: string): Promise<void> {
+    await db.delete(quotes).where(eq(quotes.id, id));
+  }
+
+  async getQuoteRevisions(quoteIds: string[]): Promise<QuoteRevision[]> {
+    if (quoteIds.length === 0) return [];
+    return db
+      .select()
+      .from(quoteRevisions)
+      .where(inArray(quoteRevisions.quoteId, quoteIds))
+      .orderBy(quoteRevisions.revision);
+  }
+
+  async createQuoteRevision(
+    revision: InsertQuoteRevision,
+    sashes: Omit<InsertQuoteSash, "revisionId">[]
+  ): Promise<QuoteRevision> {
+    const [created] = await db.insert(quoteRevisions).values(revision).returning();
+    if (sashes.length > 0) {
+      await db
+        .insert(quoteSashes)
+        .values(sashes.map((sash) => ({ ...sash, revisionId: created.id })));
+    }
+    return created;
+  }
+
+  // Shipments
+  async getShipmentsByOrderId(orderId: string): Promise<Shipment[]> {
+    return db
+      .select()
+      .from(shipments)
+      .where(eq(shipments.orderId, orderId))
+      .orderBy(shipments.number);
+  }
+
+  async getShipment(id: string): Promise<Shipment | undefined> {
+    const [shipment] = await db.select().from(shipments).where(eq(shipments.id, id));
+    return shipment || undefined;
+  }
+
+  async updateShipment(
+    id: string,
+    shipment: Partial<InsertShipment>
+  ): Promise<Shipment | undefined> {
+    const [updated] = await db
+      .update(shipments)
+      .set(shipment)
+      .where(eq(shipments.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteShipment(id: string): Promise<void> {
+    await db.delete(shipments).where(eq(shipments.id, id));
+  }
+
+  async getShippedSashes(
+    orderIds: string[]
+  ): Promise<{ orderId: string; shipmentId: string; sashId: string }[]> {
+    if (orderIds.length === 0) return [];
+    return db
+      .select({
+        orderId: shipments.orderId,
+        shipmentId: shipmentSashes.shipmentId,
+        sashId: shipmentSashes.sashId,
+      })
+      .from(shipmentSashes)
+      .innerJoin(shipments, eq(shipmentSashes.shipmentId, shipments.id))
+      .where(inArray(shipments.orderId, orderIds));
+  }
+
+  // Sash Stage Events
+  async getSashStageEvents(
+    orderIds: string[]
+  ): Promise<(SashStageEvent & { orderId: string; workerName: string | null })[]> {
+    if (orderIds.length === 0) return [];
+    const rows = await db
+      .select({
+        event: sashStageEvents,
+        orderId: orderSashes.orderId,
+        workerName: users.name,
+      })
+      .from(sashStageEvents)
+      .innerJoin(orderSashes, eq(sashStageEvents.sashId, orderSashes.id))
+      .leftJoin(users, eq(sashStageEvents.workerId, users.id))
+      .where(inArray(orderSashes.orderId, orderIds))
+      .orderBy(sashStageEvents.completedAt);
+    return rows.map((row) => ({
+      ...row.event,
+      orderId: row.orderId,
+      workerName: row.workerName ?? null,
+    }));
+  }
+
+  async createSashStageEvent(
+    event: InsertSashStageEvent
+  ): Promise<SashStageEvent | undefined> {
+    // Уникальность (sash_id, stage) — в миграции 0028: повторный скан
+    // той же створки не создаёт второй отметки
+    const [created] = await db
+      .insert(sashStageEvents)
+      .values(event)
+      .onConflictDoNothing()
+      .returning();
+    return created || undefined;
+  }
+
+  async deleteSashStageEvent(id: string): Promise<void> {
+    await db.delete(sashStageEvents).where(eq(sashStageEvents.id, id));
+  }
+
+  // Production Calendar
+  async getProductionCalendarDays(
+    userId: string,
+    from: string,
+    to: string
+  ): Promise<ProductionCalendarDay[]> {
+    return db
+      .select()
+      .from(productionCalendarDays)
+      .where(
+        and(
+          eq(productionCalendarDays.userId, userId),
+          gte(productionCalendarDays.date, from),
+          lte(productionCalendarDays.date, to)
+        )
+      )
+      .orderBy(productionCalendarDays.date);
+  }
+
+  async upsertProductionCalendarDay(
+    day: InsertProductionCalendarDay
+  ): Promise<ProductionCalendarDay> {
+    const [saved] = await db
+      .insert(productionCalendarDays)
+      .values(day)
+      .onConflictDoUpdate({
+        target: [productionCalendarDays.userId, productionCalendarDays.date],
+        set: { capacity: day.capacity, comment: day.comment ?? null },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteProductionCalendarDay(userId: string, date: string): Promise<void> {
+    await db
+      .delete(productionCalendarDays)
+      .where(
+        and(
+          eq(productionCalendarDays.userId, userId),
+          eq(productionCalendarDays.date, date)
+        )
+      );
+  }
+
+  async getInstallationJobs(
+    userId: string,
+    filters?: InstallationJobFilters
+  ): Promise<InstallationJobDetails[]> {
+    const conditions = [eq(installationJobs.userId, userId)];
+    if (filters?.date) {
+      conditions.push(eq(installationJobs.date, filters.date));
+    }
+    if (filters?.installerId) {
+      conditions.push(eq(installationJobs.installerId, filters.installerId));
+    }
+    const rows = await db
+      .select({
+        job: installationJobs,
+        orderNumber: orders.orderNumber,
+        dealerId: orders.dealerId,
+        installerName: sql<string | null>`coalesce(${users.name}, ${users.email})`,
+      })
+      .from(installationJobs)
+      .innerJoin(orders, eq(installationJobs.orderId, orders.id))
+      .leftJoin(users, eq(installationJobs.installerId, users.id))
+      .where(and(...conditions))
+      .orderBy(installationJobs.date, installationJobs.timeFrom);
+    return rows.map((row) => ({
+      ...row.job,
+      orderNumber: row.orderNumber,
+      dealerId: row.dealerId,
+      installerName: row.installerName ?? null,
+    }));
+  }
+
+  async getInstallationJob(id: string): Promise<InstallationJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(installationJobs)
+      .where(eq(installationJobs.id, id));
+    return job || undefined;
+  }
+
+  async createInstallationJob(
+    job: InsertInstallationJob
+  ): Promise<InstallationJob> {
+    const [created] = await db.insert(installationJobs).values(job).returning();
+    return created;
+  }
+
+  async updateInstallationJob(
+    id: string,
+    job: Partial<InsertInstallationJob>
+  ): Promise<InstallationJob | undefined> {
+    const [updated] = await db
+      .update(installationJobs)
+      .set(job)
+      .where(eq(installationJobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteInstallationJob(id: string): Promise<void> {
+    await db.delete(installationJobs).where(eq(installationJobs.id, id));
+  }
+
+  async getQuoteSashes(revisionIds: string[]): Promise<QuoteSash[]> {
+    if (revisionIds.length === 0) return [];
+    return db
+      .select()
+      .from(quoteSashes)
+      .where(inArray(quoteSashes.revisionId, revisionIds))
+      .orderBy(quoteSashes.room);
   }
 
   // Warehouse Writeoffs
@@ -1399,6 +2260,9 @@ export class DatabaseStorage implements IStorage {
     if (filters?.action && filters.action !== "all") {
       conditions.push(eq(auditLogs.action, filters.action));
     }
+    if (filters?.actorId) {
+      conditions.push(eq(auditLogs.actorId, filters.actorId));
+    }
     if (filters?.from) {
       conditions.push(gte(auditLogs.createdAt, new Date(filters.from)));
     }
@@ -1477,6 +2341,13 @@ export class DatabaseStorage implements IStorage {
       resolve("order", orders, orders.id, (r) => `Заказ #${r.orderNumber}`),
       resolve("dealer", dealers, dealers.id, (r) => r.fullName),
       resolve("supplier", suppliers, suppliers.id, (r) => r.name),
+      resolve("purchase_order", purchaseOrders, purchaseOrders.id, (r) => `Заказ поставщику №${r.number}`),
+      resolve("coefficient_version", coefficientVersions, coefficientVersions.id, (r) => r.name),
+      resolve("price_tier", priceTiers, priceTiers.id, (r) => r.name),
+      resolve("quote", quotes, quotes.id, (r) => `Расчёт №${r.number}`),
+      resolve("shipment", shipments, shipments.id, (r) => `Накладная №${r.number}`),
+      resolve("sash_stage", orderSashes, orderSashes.id, (r) => `Створка ${parseFloat(r.width)}×${parseFloat(r.height)}`),
+      resolve("installation", installationJobs, installationJobs.id, (r) => `Монтаж ${r.date} ${r.timeFrom}`),
       resolve("fabric", fabrics, fabrics.id, (r) => r.name),
       resolve("system", systems, systems.id, (r) => r.name),
       resolve("component", components, components.id, (r) => r.name),
@@ -1484,12 +2355,14 @@ export class DatabaseStorage implements IStorage {
       resolve("color", colors, colors.id, (r) => r.name),
       resolve("expense_type", expenseTypes, expenseTypes.id, (r) => r.name),
       resolve("multiplier", multipliers, multipliers.id, (r) => r.name),
+      resolve("report_access", users, users.id, (r) => `Отчёты: ${r.name || r.email}`),
     ]);
 
     // Резолвим ID-значения внутри changes JSON (dealerId → имя дилера, и т.д.)
     // Маппинг: суффикс поля → таблица + колонка имени
     const idFieldResolvers: Record<string, { table: any; idCol: any; nameExpr: (r: any) => string }> = {
       userId: { table: users, idCol: users.id, nameExpr: (r) => r.name || r.email },
+      installerId: { table: users, idCol: users.id, nameExpr: (r) => r.name || r.email },
       dealerId: { table: dealers, idCol: dealers.id, nameExpr: (r) => r.fullName },
       supplierId: { table: suppliers, idCol: suppliers.id, nameExpr: (r) => r.name },
       cashboxId: { table: cashboxes, idCol: cashboxes.id, nameExpr: (r) => r.name },
@@ -1617,6 +2490,207 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  // Notification Preferences
+  async getNotificationPreferences(
+    userId: string
+  ): Promise<NotificationPreferencesRow | undefined> {
+    const [row] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return row;
+  }
+
+  async upsertNotificationPreferences(
+    userId: string,
+    data: Partial<Omit<NotificationPreferencesRow, "userId" | "updatedAt">>
+  ): Promise<NotificationPreferencesRow> {
+    const [row] = await db
+      .insert(notificationPreferences)
+      .values({ ...data, userId })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  async queueNotificationEmails(
+    notificationId: string,
+    emails: { recipientId: string; status: NotificationEmailStatus }[]
+  ): Promise<void> {
+    if (emails.length === 0) return;
+    await db
+      .insert(notificationEmails)
+      .values(emails.map((email) => ({ notificationId, ...email })))
+      .onConflictDoNothing();
+  }
+
+  // Получатели, которым ждут отправки письма; userId — только в этом
+  // рабочем пространстве
+  async getUsersWithQueuedEmails(userId?: string): Promise<string[]> {
+    const conditions = [inArray(notificationEmails.status, ["pending", "digest"])];
+    if (userId) conditions.push(eq(notifications.userId, userId));
+    const rows = await db
+      .selectDistinct({ recipientId: notificationEmails.recipientId })
+      .from(notificationEmails)
+      .innerJoin(notifications, eq(notifications.id, notificationEmails.notificationId))
+      .where(and(...conditions));
+    return rows.map((r) => r.recipientId);
+  }
+
+  /**
+   * Захватывает ждущие письма получателя со статусом status: переводит
+   * их в sending, чтобы параллельная отправка их не взяла.
+   */
+  async claimNotificationEmails(
+    recipientId: string,
+    status: NotificationEmailStatus
+  ): Promise<Notification[]> {
+    const claimed = await db
+      .update(notificationEmails)
+      .set({ status: "sending" })
+      .where(
+        and(
+          eq(notificationEmails.recipientId, recipientId),
+          eq(notificationEmails.status, status)
+        )
+      )
+      .returning({ notificationId: notificationEmails.notificationId });
+    if (claimed.length === 0) return [];
+    const rows = await db
+      .select()
+      .from(notifications)
+      .where(
+        inArray(
+          notifications.id,
+          claimed.map((c) => c.notificationId)
+        )
+      );
+    return rows.sort(
+      (a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+    );
+  }
+
+  async setNotificationEmailStatus(
+    recipientId: string,
+    notificationIds: string[],
+    status: NotificationEmailStatus
+  ): Promise<void> {
+    if (notificationIds.length === 0) return;
+    await db
+      .update(notificationEmails)
+      .set({ status })
+      .where(
+        and(
+          eq(notificationEmails.recipientId, recipientId),
+          inArray(notificationEmails.notificationId, notificationIds)
+        )
+      );
+  }
+
+  // Scheduled Jobs
+  async ensureScheduledJobs(names: string[]): Promise<void> {
+    if (names.length === 0) return;
+    await db
+      .insert(scheduledJobs)
+      .values(names.map((name) => ({ name })))
+      .onConflictDoNothing();
+  }
+
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return db.select().from(scheduledJobs);
+  }
+
+  /**
+   * Захват задачи экземпляром сервера: удаётся, только если её никто не
+   * держит (или блокировка просрочена); dueOnly — ещё и наступил срок.
+   */
+  async lockScheduledJob(
+    name: string,
+    lockedBy: string,
+    lockedUntil: Date,
+    dueOnly: boolean
+  ): Promise<ScheduledJob | undefined> {
+    const now = new Date();
+    const conditions = [
+      eq(scheduledJobs.name, name),
+      or(isNull(scheduledJobs.lockedUntil), lte(scheduledJobs.lockedUntil, now)),
+    ];
+    if (dueOnly) {
+      conditions.push(eq(scheduledJobs.enabled, true), lte(scheduledJobs.nextRunAt, now));
+    }
+    const [locked] = await db
+      .update(scheduledJobs)
+      .set({ lockedBy, lockedUntil })
+      .where(and(...conditions))
+      .returning();
+    return locked;
+  }
+
+  /**
+   * Снимает блокировку, только если она всё ещё наша: после просрочки задачу
+   * мог захватить другой экземпляр, и его блокировку и расписание трогать
+   * нельзя. false — блокировка уже чужая, ничего не записано.
+   */
+  async releaseScheduledJob(
+    lock: Pick<ScheduledJob, "name" | "lockedBy" | "lockedUntil">,
+    data: Partial<Omit<ScheduledJob, "name" | "lockedBy" | "lockedUntil">>
+  ): Promise<boolean> {
+    if (!lock.lockedBy || !lock.lockedUntil) return false;
+    const released = await db
+      .update(scheduledJobs)
+      .set({ ...data, lockedBy: null, lockedUntil: null })
+      .where(
+        and(
+          eq(scheduledJobs.name, lock.name),
+          eq(scheduledJobs.lockedBy, lock.lockedBy),
+          eq(scheduledJobs.lockedUntil, lock.lockedUntil)
+        )
+      )
+      .returning({ name: scheduledJobs.name });
+    return released.length > 0;
+  }
+
+  async createJobRun(run: InsertJobRun): Promise<JobRun> {
+    const [created] = await db.insert(jobRuns).values(run).returning();
+    return created;
+  }
+
+  async finishJobRun(
+    id: string,
+    data: Pick<JobRun, "status" | "finishedAt" | "durationMs" | "result" | "error">
+  ): Promise<void> {
+    await db.update(jobRuns).set(data).where(eq(jobRuns.id, id));
+  }
+
+  // Запуски по расписанию (общие) и ручные запуски этого рабочего пространства
+  async getJobRuns(filters: {
+    jobName?: string;
+    userId: string;
+    limit?: number;
+  }): Promise<JobRun[]> {
+    const conditions = [
+      or(isNull(jobRuns.userId), eq(jobRuns.userId, filters.userId)),
+    ];
+    if (filters.jobName) conditions.push(eq(jobRuns.jobName, filters.jobName));
+    return db
+      .select()
+      .from(jobRuns)
+      .where(and(...conditions))
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(filters.limit ?? 50);
+  }
+
+  async deleteJobRunsBefore(date: Date): Promise<number> {
+    const rows = await db
+      .delete(jobRuns)
+      .where(lte(jobRuns.startedAt, date))
+      .returning({ id: jobRuns.id });
+    return rows.length;
+  }
+
   // Cutting layouts
   async getCuttingLayoutsByOrder(orderId: string): Promise<CuttingLayout[]> {
     return db
@@ -1660,6 +2734,36 @@ export class DatabaseStorage implements IStorage {
     await db.delete(cuttingLayouts).where(eq(cuttingLayouts.orderId, orderId));
   }
 
+  // Раскрой партии — без привязки к одному заказу
+  async getBatchCuttingLayouts(userId: string): Promise<CuttingLayout[]> {
+    return db
+      .select()
+      .from(cuttingLayouts)
+      .where(and(eq(cuttingLayouts.userId, userId), isNull(cuttingLayouts.orderId)))
+      .orderBy(desc(cuttingLayouts.createdAt));
+  }
+
+  // Свободные деловые обрезки
+  async getAvailableFabricRemnants(userId: string): Promise<FabricRemnant[]> {
+    return db
+      .select()
+      .from(fabricRemnants)
+      .where(and(eq(fabricRemnants.userId, userId), isNull(fabricRemnants.usedLayoutId)))
+      .orderBy(desc(fabricRemnants.createdAt));
+  }
+
+  async getFabricRemnant(id: string): Promise<FabricRemnant | undefined> {
+    const [remnant] = await db
+      .select()
+      .from(fabricRemnants)
+      .where(eq(fabricRemnants.id, id));
+    return remnant;
+  }
+
+  async deleteFabricRemnant(id: string): Promise<void> {
+    await db.delete(fabricRemnants).where(eq(fabricRemnants.id, id));
+  }
+
   // ===== MEASUREMENTS =====
   async getMeasurements(dealerId: string): Promise<Measurement[]> {
     return db
@@ -1677,6 +2781,32 @@ export class DatabaseStorage implements IStorage {
     return measurement || undefined;
   }
 
+  async getMeasurementByOrderId(
+    orderId: string
+  ): Promise<Measurement | undefined> {
+    const [measurement] = await db
+      .select()
+      .from(measurements)
+      .where(eq(measurements.orderId, orderId));
+    return measurement || undefined;
+  }
+
+  async getMeasurementByClientId(
+    dealerId: string,
+    clientId: string
+  ): Promise<Measurement | undefined> {
+    const [measurement] = await db
+      .select()
+      .from(measurements)
+      .where(
+        and(
+          eq(measurements.dealerId, dealerId),
+          eq(measurements.clientId, clientId)
+        )
+      );
+    return measurement || undefined;
+  }
+
   async createMeasurement(
     measurement: InsertMeasurement
   ): Promise<Measurement> {
@@ -1757,6 +2887,33 @@ export class DatabaseStorage implements IStorage {
       .where(eq(measurementPhotos.id, id));
   }
 
+  async deleteMeasurementPhotosByMeasurementId(
+    measurementId: string
+  ): Promise<void> {
+    await db
+      .delete(measurementPhotos)
+      .where(eq(measurementPhotos.measurementId, measurementId));
+  }
+
+  // ===== UPLOADED FILES =====
+  async getUploadedFile(id: string): Promise<UploadedFile | undefined> {
+    const [file] = await db
+      .select()
+      .from(uploadedFiles)
+      .where(eq(uploadedFiles.id, id));
+    return file || undefined;
+  }
+
+  async getUploadedFiles(ids: string[]): Promise<UploadedFile[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(uploadedFiles).where(inArray(uploadedFiles.id, ids));
+  }
+
+  async createUploadedFile(file: InsertUploadedFile): Promise<UploadedFile> {
+    const [created] = await db.insert(uploadedFiles).values(file).returning();
+    return created;
+  }
+
   // ─── Installment Plans ───
 
   async createInstallmentPlan(data: InsertInstallmentPlan): Promise<InstallmentPlan> {
@@ -1839,9 +2996,10 @@ export class DatabaseStorage implements IStorage {
     return dealer;
   }
 
-  async getDealerOrders(dealerId: string, filters?: { status?: string; from?: string; to?: string; search?: string }): Promise<Order[]> {
+  async getDealerOrders(dealerId: string, filters?: { status?: string; from?: string; to?: string; search?: string; updatedSince?: Date }): Promise<Order[]> {
     const conditions = [eq(orders.dealerId, dealerId)];
     if (filters?.status) conditions.push(eq(orders.status, filters.status));
+    if (filters?.updatedSince) conditions.push(gt(orders.updatedAt, filters.updatedSince));
     if (filters?.from) conditions.push(gte(orders.date, filters.from));
     if (filters?.to) conditions.push(lte(orders.date, filters.to));
     if (filters?.search) {
@@ -1856,6 +3014,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(orders.date));
   }
 
+  // id всех заказов дилера — по ним приложение удаляет из кеша исчезнувшие
+  async getDealerOrderIds(dealerId: string): Promise<string[]> {
+    const rows = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(eq(orders.dealerId, dealerId));
+    return rows.map((r) => r.id);
+  }
+
   async getDealerBalance(dealerId: string): Promise<{ balance: number; shippedBalance: number; openingBalance: number; totalOrders: number; totalShippedOrders: number; totalPayments: number }> {
     const [dealer] = await db.select().from(dealers).where(eq(dealers.id, dealerId));
     if (!dealer) return { balance: 0, shippedBalance: 0, openingBalance: 0, totalOrders: 0, totalShippedOrders: 0, totalPayments: 0 };
@@ -1863,7 +3030,7 @@ export class DatabaseStorage implements IStorage {
     const [orderTotals] = await db
       .select({ total: sum(orders.salePrice) })
       .from(orders)
-      .where(eq(orders.dealerId, dealerId));
+      .where(and(eq(orders.dealerId, dealerId), orderCountsTowardDebt()));
 
     const [shippedOrderTotals] = await db
       .select({ total: sum(orders.salePrice) })
@@ -1945,11 +3112,13 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async getDealerNotifications(dealerId: string, limit = 50): Promise<DealerNotification[]> {
+  async getDealerNotifications(dealerId: string, limit = 50, since?: Date): Promise<DealerNotification[]> {
+    const conditions = [eq(dealerNotifications.dealerId, dealerId)];
+    if (since) conditions.push(gt(dealerNotifications.createdAt, since));
     return db
       .select()
       .from(dealerNotifications)
-      .where(eq(dealerNotifications.dealerId, dealerId))
+      .where(and(...conditions))
       .orderBy(desc(dealerNotifications.createdAt))
       .limit(limit);
   }
@@ -2012,10 +3181,15 @@ export class DatabaseStorage implements IStorage {
     return row;
   }
 
-  async deleteDeviceToken(token: string, platform: DevicePlatform): Promise<void> {
-    await db
-      .delete(deviceTokens)
-      .where(and(eq(deviceTokens.token, token), eq(deviceTokens.platform, platform)));
+  // userId — удалить, только если токен привязан к этому аккаунту
+  async deleteDeviceToken(
+    token: string,
+    platform: DevicePlatform,
+    userId?: string
+  ): Promise<void> {
+    const conditions = [eq(deviceTokens.token, token), eq(deviceTokens.platform, platform)];
+    if (userId) conditions.push(eq(deviceTokens.userId, userId));
+    await db.delete(deviceTokens).where(and(...conditions));
   }
 
   async getDeviceTokensForDealer(dealerId: string): Promise<DeviceToken[]> {
@@ -2025,6 +3199,167 @@ export class DatabaseStorage implements IStorage {
   async getDeviceTokensForUser(userId: string): Promise<DeviceToken[]> {
     return db.select().from(deviceTokens).where(eq(deviceTokens.userId, userId));
   }
+
+  // ─── Mobile Idempotency Keys ───
+
+  /**
+   * Занимает ключ за запросом. claimed=false — ключ уже есть, row —
+   * сохранённая запись (ответ или незавершённый запрос).
+   */
+  async claimIdempotencyKey(data: {
+    dealerId: string;
+    key: string;
+    method: string;
+    path: string;
+  }): Promise<{ claimed: boolean; row: MobileIdempotencyKey }> {
+    const [created] = await db
+      .insert(mobileIdempotencyKeys)
+      .values(data)
+      .onConflictDoNothing({
+        target: [mobileIdempotencyKeys.dealerId, mobileIdempotencyKeys.key],
+      })
+      .returning();
+    if (created) return { claimed: true, row: created };
+    const [existing] = await db
+      .select()
+      .from(mobileIdempotencyKeys)
+      .where(
+        and(
+          eq(mobileIdempotencyKeys.dealerId, data.dealerId),
+          eq(mobileIdempotencyKeys.key, data.key)
+        )
+      );
+    return { claimed: false, row: existing };
+  }
+
+  /** Перехват зависшего ключа: только если он всё ещё не завершён и старше staleBefore */
+  async reclaimIdempotencyKey(id: string, staleBefore: Date): Promise<boolean> {
+    const rows = await db
+      .update(mobileIdempotencyKeys)
+      .set({ createdAt: new Date() })
+      .where(
+        and(
+          eq(mobileIdempotencyKeys.id, id),
+          isNull(mobileIdempotencyKeys.statusCode),
+          lte(mobileIdempotencyKeys.createdAt, staleBefore)
+        )
+      )
+      .returning({ id: mobileIdempotencyKeys.id });
+    return rows.length > 0;
+  }
+
+  async completeIdempotencyKey(id: string, statusCode: number, response: string): Promise<void> {
+    await db
+      .update(mobileIdempotencyKeys)
+      .set({ statusCode, response })
+      .where(eq(mobileIdempotencyKeys.id, id));
+  }
+
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    await db.delete(mobileIdempotencyKeys).where(eq(mobileIdempotencyKeys.id, id));
+  }
+
+  async deleteIdempotencyKeysBefore(date: Date): Promise<number> {
+    const rows = await db
+      .delete(mobileIdempotencyKeys)
+      .where(lte(mobileIdempotencyKeys.createdAt, date))
+      .returning({ id: mobileIdempotencyKeys.id });
+    return rows.length;
+  }
+
+  // ─── Organizations & Staff ───
+
+  async getOrganizationByOwner(ownerId: string): Promise<Organization | undefined> {
+    const [org] = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.ownerId, ownerId));
+    return org || undefined;
+  }
+
+  async getOrCreateOrganization(ownerId: string, name: string): Promise<Organization> {
+    const existing = await this.getOrganizationByOwner(ownerId);
+    if (existing) return existing;
+    const [created] = await db
+      .insert(organizations)
+      .values({ ownerId, name })
+      .returning();
+    return created;
+  }
+
+  /**
+   * Членство пользователя в чужой организации. undefined — пользователь
+   * работает в собственном рабочем пространстве как владелец.
+   */
+  async getStaffMembershipByUserId(
+    userId: string
+  ): Promise<{ member: StaffMember; organization: Organization } | undefined> {
+    const [row] = await db
+      .select({ member: staffMembers, organization: organizations })
+      .from(staffMembers)
+      .innerJoin(organizations, eq(staffMembers.organizationId, organizations.id))
+      .where(eq(staffMembers.userId, userId));
+    return row || undefined;
+  }
+
+  async getStaffMembers(
+    ownerId: string
+  ): Promise<(StaffMember & { email: string; name: string | null })[]> {
+    const org = await this.getOrganizationByOwner(ownerId);
+    if (!org) return [];
+    const rows = await db
+      .select({ member: staffMembers, email: users.email, name: users.name })
+      .from(staffMembers)
+      .innerJoin(users, eq(staffMembers.userId, users.id))
+      .where(eq(staffMembers.organizationId, org.id))
+      .orderBy(staffMembers.createdAt);
+    return rows.map((r) => ({ ...r.member, email: r.email, name: r.name }));
+  }
+
+  async getStaffMember(
+    ownerId: string,
+    id: string
+  ): Promise<StaffMember | undefined> {
+    const org = await this.getOrganizationByOwner(ownerId);
+    if (!org) return undefined;
+    const [member] = await db
+      .select()
+      .from(staffMembers)
+      .where(and(eq(staffMembers.id, id), eq(staffMembers.organizationId, org.id)));
+    return member || undefined;
+  }
+
+  async createStaffMember(data: {
+    organizationId: string;
+    userId: string;
+    role: string;
+  }): Promise<StaffMember> {
+    const [created] = await db.insert(staffMembers).values(data).returning();
+    return created;
+  }
+
+  async updateStaffMember(
+    id: string,
+    data: Partial<Pick<StaffMember, "role" | "isActive">>
+  ): Promise<StaffMember | undefined> {
+    const [updated] = await db
+      .update(staffMembers)
+      .set(data)
+      .where(eq(staffMembers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getUserNames(ids: string[]): Promise<Map<string, string>> {
+    const result = new Map<string, string>();
+    if (ids.length === 0) return result;
+    const rows = await db
+      .select({ id: users.id, email: users.email, name: users.name })
+      .from(users)
+      .where(inArray(users.id, ids));
+    for (const r of rows) result.set(r.id, r.name || r.email);
+    return result;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,195 @@
+import crypto from "node:crypto";
+import type { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import { storage } from "./storage";
+import { getFileStorage } from "./file-storage";
+import type {
+  Measurement,
+  MeasurementPhoto,
+  MeasurementSash,
+  UploadedFile,
+  UploadedFileKind,
+} from "@shared/schema";
+
+// Загрузка файлов из мобильного приложения и выдача по подписанным ссылкам.
+// В замере хранится постоянная ссылка "/api/files/<id>"; наружу она уходит
+// с подписью и сроком действия, поэтому <img src> работает и в CRM, и в
+// приложении без заголовка авторизации.
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const ALLOWED_MIME_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+const THUMBNAIL_SIZE = 320;
+// Ссылки живут сутки — приложение успевает закешировать картинки
+const SIGNED_URL_TTL_SECONDS = 24 * 60 * 60;
+
+const FILE_URL_RE = /^\/api\/files\/([0-9a-f-]{36})$/;
+
+export type FileVariant = "original" | "thumbnail";
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (!ALLOWED_MIME_TYPES[file.mimetype]) {
+      cb(new Error("UNSUPPORTED_TYPE"));
+      return;
+    }
+    cb(null, true);
+  },
+}).single("file");
+
+/** multipart/form-data с одним полем file; ошибки — 400/413 с сообщением */
+export function receiveUpload(req: Request, res: Response, next: NextFunction) {
+  upload(req, res, (err: unknown) => {
+    if (!err) return next();
+    if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({
+        message: `Файл больше ${MAX_UPLOAD_BYTES / 1024 / 1024} МБ`,
+      });
+    }
+    if (err instanceof Error && err.message === "UNSUPPORTED_TYPE") {
+      return res
+        .status(400)
+        .json({ message: "Допустимы только изображения JPEG, PNG или WebP" });
+    }
+    console.error("[uploads] multipart error:", err);
+    res.status(400).json({ message: "Некорректная загрузка файла" });
+  });
+}
+
+export const fileUrl = (id: string) => `/api/files/${id}`;
+
+/** id файла из постоянной ссылки или null для сторонних URL */
+export function fileIdFromUrl(url: string | null | undefined): string | null {
+  return url?.match(FILE_URL_RE)?.[1] ?? null;
+}
+
+function fileSignature(id: string, variant: FileVariant, expires: number): string {
+  return crypto
+    .createHmac("sha256", process.env.SESSION_SECRET!)
+    .update(`${id}:${variant}:${expires}`)
+    .digest("hex");
+}
+
+/**
+ * Подписанная ссылка на файл. Сторонние URL (старые замеры) возвращаются
+ * как есть.
+ */
+export function signFileUrl<T extends string | null | undefined>(
+  url: T,
+  variant: FileVariant = "original"
+): T | string {
+  const id = fileIdFromUrl(url);
+  if (!id) return url;
+  const expires = Math.floor(Date.now() / 1000) + SIGNED_URL_TTL_SECONDS;
+  const path = variant === "thumbnail" ? `${fileUrl(id)}/thumbnail` : fileUrl(id);
+  return `${path}?expires=${expires}&sig=${fileSignature(id, variant, expires)}`;
+}
+
+export function verifyFileSignature(
+  id: string,
+  variant: FileVariant,
+  expires: unknown,
+  sig: unknown
+): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) return false;
+  if (typeof sig !== "string") return false;
+  const expected = Buffer.from(fileSignature(id, variant, expiresAt), "hex");
+  const actual = Buffer.from(sig, "hex");
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Сохраняет картинку в хранилище вместе с миниатюрой. Формат проверяется
+ * по содержимому, а не только по заголовку запроса.
+ */
+export async function saveUploadedFile(params: {
+  userId: string;
+  dealerId: string | null;
+  kind: UploadedFileKind;
+  file: { buffer: Buffer; mimetype: string; originalname: string };
+}): Promise<UploadedFile | null> {
+  const { userId, dealerId, kind, file } = params;
+
+  const image = sharp(file.buffer);
+  const meta = await image.metadata().catch(() => null);
+  const format = meta?.format === "jpeg" ? "jpg" : meta?.format;
+  if (!format || format !== ALLOWED_MIME_TYPES[file.mimetype]) return null;
+
+  // Подпись — PNG с прозрачностью, её миниатюра тоже PNG
+  const resized = image
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true });
+  const thumbnail = await (
+    kind === "signature" ? resized.png() : resized.jpeg({ quality: 75 })
+  ).toBuffer();
+
+  const month = new Date().toISOString().slice(0, 7);
+  const base = `${userId}/${month}/${crypto.randomUUID()}`;
+  const storageKey = `${base}.${format}`;
+  const thumbnailKey = `${base}_thumb.${kind === "signature" ? "png" : "jpg"}`;
+
+  const backend = getFileStorage();
+  await backend.put(storageKey, file.buffer, file.mimetype);
+  await backend.put(
+    thumbnailKey,
+    thumbnail,
+    kind === "signature" ? "image/png" : "image/jpeg"
+  );
+
+  return storage.createUploadedFile({
+    kind,
+    storageKey,
+    thumbnailKey,
+    mimeType: file.mimetype,
+    size: file.buffer.length,
+    originalName: file.originalname || null,
+    dealerId,
+    userId,
+  });
+}
+
+/**
+ * Все ссылки на наши файлы должны вести на файлы этого дилера — чужой
+ * id в замер не подставить. Сторонние URL не проверяются.
+ */
+export async function ownsFileUrls(
+  dealerId: string,
+  urls: (string | null | undefined)[]
+): Promise<boolean> {
+  const ids = Array.from(
+    new Set(urls.map(fileIdFromUrl).filter((id): id is string => !!id))
+  );
+  if (ids.length === 0) return true;
+  const files = await storage.getUploadedFiles(ids);
+  return files.length === ids.length && files.every((f) => f.dealerId === dealerId);
+}
+
+/** Замер с подписанными ссылками на подпись, фото створок и галерею */
+export function withSignedFileUrls<
+  M extends Measurement,
+  S extends MeasurementSash,
+>(measurement: M, sashes: S[], photos?: MeasurementPhoto[]) {
+  return {
+    ...measurement,
+    signatureUrl: signFileUrl(measurement.signatureUrl),
+    sashes: sashes.map((s) => ({
+      ...s,
+      photoUrl: signFileUrl(s.photoUrl),
+      photoThumbnailUrl: signFileUrl(s.photoUrl, "thumbnail"),
+    })),
+    ...(photos && {
+      photos: photos.map((p) => ({
+        ...p,
+        url: signFileUrl(p.url),
+        thumbnailUrl: signFileUrl(p.url, "thumbnail"),
+      })),
+    }),
+  };
+}
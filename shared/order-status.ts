@@ -0,0 +1,263 @@
+import {
+  ORDER_STATUSES,
+  REVERSED_ORDER_STATUSES,
+  type Order,
+  type OrderStatus,
+} from "./schema";
+
+// Проверки перед переходом (выполняются до транзакции, только чтение)
+export type OrderStatusGuard =
+  // Хватает ли свободных материалов на складе — без резервов других заказов
+  // (пропускается, если заказ уже списан)
+  | "stockAvailable"
+  // У всех тканей заказа известна себестоимость
+  | "fabricPricesKnown"
+  // Для списанных материалов выбрано, вернуть их на склад или в брак
+  | "dispositionChosen"
+  // По заказу нет накладных на частичную отгрузку
+  | "nothingShipped";
+
+// Побочные эффекты перехода (выполняются в одной транзакции со сменой статуса)
+export type OrderStatusEffect =
+  // Долг дилера = сумма заказа
+  | "chargeDealerDebt"
+  // Долг дилера обнуляется — заказ снова черновик
+  | "releaseDealerDebt"
+  // Списание материалов со склада (идемпотентно — если списания уже есть, пропуск)
+  | "writeOffMaterials"
+  // Компенсация: списания заказа сторнируются, материалы возвращаются на склад
+  | "reverseWriteOffs"
+  // Резерв материалов под заказ (заменяет прежний резерв заказа)
+  | "reserveMaterials"
+  // Снятие резерва заказа
+  | "releaseReservation"
+  // Списанные материалы отменённого/возвращённого заказа: сторно на склад
+  // или пометка списаний как брака — по выбору пользователя
+  | "disposeMaterials"
+  // Рассрочки по заказу закрываются
+  | "deactivateInstallments"
+  // Дата и причина отмены/возврата
+  | "recordReversal";
+
+export interface OrderStatusTransition {
+  from: OrderStatus;
+  to: OrderStatus;
+  guards?: OrderStatusGuard[];
+  effects?: OrderStatusEffect[];
+  // Переход явно запрещён — сообщение для пользователя
+  rejectReason?: string;
+}
+
+const SHIPPED_IS_FINAL =
+  "Отгруженный заказ нельзя вернуть на предыдущий этап";
+const SHIPPED_IS_RETURNED =
+  "Отгруженный заказ не отменяется — оформите возврат";
+const RETURN_AFTER_SHIPMENT = "Возврат оформляется только по отгруженному заказу";
+const REVERSAL_IS_FINAL = "Отменённый или возвращённый заказ изменить нельзя";
+
+/**
+ * Таблица переходов статусов заказа. Любая пара статусов, которой нет в
+ * таблице, считается запрещённой. Обратные переходы перечислены явно:
+ * откат из "Готов" сторнирует списания, возврат в "Новый" снимает долг дилера.
+ * Пока заказ "В производстве", его материалы зарезервированы: резерв
+ * создаётся при входе в производство и снимается списанием или откатом.
+ */
+export const ORDER_STATUS_TRANSITIONS: OrderStatusTransition[] = [
+  // Вперёд
+  {
+    from: "Новый",
+    to: "В производстве",
+    guards: ["stockAvailable"],
+    effects: ["chargeDealerDebt", "reserveMaterials"],
+  },
+  {
+    from: "Новый",
+    to: "Готов",
+    guards: ["stockAvailable"],
+    effects: ["chargeDealerDebt", "writeOffMaterials"],
+  },
+  {
+    from: "Новый",
+    to: "Отгружен",
+    guards: ["fabricPricesKnown", "stockAvailable"],
+    effects: ["chargeDealerDebt", "writeOffMaterials"],
+  },
+  {
+    from: "В производстве",
+    to: "Готов",
+    guards: ["stockAvailable"],
+    effects: ["writeOffMaterials", "releaseReservation"],
+  },
+  {
+    from: "В производстве",
+    to: "Отгружен",
+    guards: ["fabricPricesKnown", "stockAvailable"],
+    effects: ["writeOffMaterials", "releaseReservation"],
+  },
+  {
+    from: "Готов",
+    to: "Отгружен",
+    guards: ["fabricPricesKnown", "stockAvailable"],
+    effects: ["writeOffMaterials"],
+  },
+
+  // Назад (частично отгруженный заказ назад не откатывается)
+  {
+    from: "В производстве",
+    to: "Новый",
+    guards: ["nothingShipped"],
+    effects: ["releaseDealerDebt", "releaseReservation"],
+  },
+  {
+    from: "Готов",
+    to: "В производстве",
+    guards: ["nothingShipped"],
+    effects: ["reverseWriteOffs", "reserveMaterials"],
+  },
+  {
+    from: "Готов",
+    to: "Новый",
+    guards: ["nothingShipped"],
+    effects: ["reverseWriteOffs", "releaseDealerDebt"],
+  },
+  { from: "Отгружен", to: "Готов", rejectReason: SHIPPED_IS_FINAL },
+  { from: "Отгружен", to: "В производстве", rejectReason: SHIPPED_IS_FINAL },
+  { from: "Отгружен", to: "Новый", rejectReason: SHIPPED_IS_FINAL },
+
+  // Отмена и возврат: долг дилера снимается, рассрочки закрываются.
+  // Списанные материалы возвращаются на склад или уходят в брак
+  {
+    from: "Новый",
+    to: "Отменён",
+    effects: ["releaseDealerDebt", "deactivateInstallments", "recordReversal"],
+  },
+  {
+    from: "В производстве",
+    to: "Отменён",
+    guards: ["nothingShipped"],
+    effects: [
+      "releaseDealerDebt",
+      "releaseReservation",
+      "deactivateInstallments",
+      "recordReversal",
+    ],
+  },
+  {
+    from: "Готов",
+    to: "Отменён",
+    guards: ["nothingShipped", "dispositionChosen"],
+    effects: [
+      "releaseDealerDebt",
+      "disposeMaterials",
+      "deactivateInstallments",
+      "recordReversal",
+    ],
+  },
+  {
+    from: "Отгружен",
+    to: "Возврат",
+    guards: ["dispositionChosen"],
+    effects: [
+      "releaseDealerDebt",
+      "disposeMaterials",
+      "deactivateInstallments",
+      "recordReversal",
+    ],
+  },
+  { from: "Отгружен", to: "Отменён", rejectReason: SHIPPED_IS_RETURNED },
+  { from: "Новый", to: "Возврат", rejectReason: RETURN_AFTER_SHIPMENT },
+  { from: "В производстве", to: "Возврат", rejectReason: RETURN_AFTER_SHIPMENT },
+  { from: "Готов", to: "Возврат", rejectReason: RETURN_AFTER_SHIPMENT },
+  ...REVERSED_ORDER_STATUSES.flatMap((from) =>
+    ORDER_STATUSES.filter((to) => to !== from).map((to) => ({
+      from,
+      to,
+      rejectReason: REVERSAL_IS_FINAL,
+    }))
+  ),
+];
+
+export function isReversedOrderStatus(status: string | null | undefined): boolean {
+  return REVERSED_ORDER_STATUSES.includes((status || "Новый") as OrderStatus);
+}
+
+export function findOrderStatusTransition(
+  from: OrderStatus,
+  to: OrderStatus
+): OrderStatusTransition | undefined {
+  return ORDER_STATUS_TRANSITIONS.find((t) => t.from === from && t.to === to);
+}
+
+// Причина запрета перехода или null, если переход разрешён
+export function getOrderStatusRejection(
+  from: OrderStatus,
+  to: OrderStatus
+): string | null {
+  if (from === to) return null;
+  const transition = findOrderStatusTransition(from, to);
+  if (!transition) return `Переход «${from}» → «${to}» не предусмотрен`;
+  return transition.rejectReason ?? null;
+}
+
+// Строка отчёта о продажах: суммы уже со знаком
+export interface OrderSalesLine<T> {
+  order: T;
+  // sale — продажа в дату заказа; return — сторно возврата в дату возврата;
+  // scrap — убыток от списанных в брак материалов отменённого заказа
+  kind: "sale" | "return" | "scrap";
+  date: string;
+  sale: number;
+  cost: number;
+}
+
+type SalesOrder = Pick<
+  Order,
+  "status" | "date" | "salePrice" | "costPrice" | "reversedAt" | "materialsDisposition"
+>;
+
+/**
+ * Заказы как строки отчётов о продажах. Возврат не переписывает историю:
+ * продажа остаётся в периоде заказа, а в периоде возврата появляется сторно.
+ * Себестоимость сторнируется, только если материалы вернули на склад.
+ * Отменённый заказ продажей не был — в отчёт попадает лишь брак.
+ */
+export function getOrderSalesLines<T extends SalesOrder>(
+  orderList: T[]
+): OrderSalesLine<T>[] {
+  const lines: OrderSalesLine<T>[] = [];
+  for (const order of orderList) {
+    const sale = parseFloat(order.salePrice?.toString() || "0");
+    const cost = parseFloat(order.costPrice?.toString() || "0");
+    const reversedAt = order.reversedAt || order.date;
+    const restocked = order.materialsDisposition !== "scrap";
+
+    if (order.status === "Отменён") {
+      if (order.materialsDisposition === "scrap") {
+        lines.push({ order, kind: "scrap", date: reversedAt, sale: 0, cost });
+      }
+      continue;
+    }
+
+    lines.push({ order, kind: "sale", date: order.date, sale, cost });
+    if (order.status === "Возврат") {
+      lines.push({
+        order,
+        kind: "return",
+        date: reversedAt,
+        sale: -sale,
+        cost: restocked ? -cost : 0,
+      });
+    }
+  }
+  return lines;
+}
+
+// Строка входит в выручку: продажа отгруженного (в том числе позже
+// возвращённого) заказа, сторно возврата или брак
+export function isRecognizedSalesLine(line: OrderSalesLine<SalesOrder>): boolean {
+  return (
+    line.kind !== "sale" ||
+    line.order.status === "Отгружен" ||
+    line.order.status === "Возврат"
+  );
+}
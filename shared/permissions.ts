@@ -0,0 +1,101 @@
+import type {
+  StaffRole,
+  PermissionResource,
+  PermissionAction,
+} from "./schema";
+
+// Матрица прав: роль → ресурс → разрешённые действия.
+// "edit" не подразумевает "view" — для каждой роли перечисляем оба явно.
+export const ROLE_PERMISSIONS: Record<
+  StaffRole,
+  Partial<Record<PermissionResource, readonly PermissionAction[]>>
+> = {
+  owner: {
+    dashboard: ["view", "edit"],
+    orders: ["view", "edit"],
+    production: ["view", "edit"],
+    finance: ["view", "edit"],
+    warehouse: ["view", "edit"],
+    references: ["view", "edit"],
+    dealers: ["view", "edit"],
+    measurements: ["view", "edit"],
+    installations: ["view", "edit"],
+    reports: ["view", "edit"],
+    audit: ["view", "edit"],
+    notifications: ["view", "edit"],
+    staff: ["view", "edit"],
+    settings: ["view", "edit"],
+  },
+  manager: {
+    dashboard: ["view"],
+    orders: ["view", "edit"],
+    production: ["view", "edit"],
+    finance: ["view"],
+    warehouse: ["view", "edit"],
+    references: ["view", "edit"],
+    dealers: ["view", "edit"],
+    measurements: ["view", "edit"],
+    installations: ["view", "edit"],
+    audit: ["view"],
+    notifications: ["view", "edit"],
+  },
+  accountant: {
+    dashboard: ["view"],
+    orders: ["view"],
+    production: ["view"],
+    finance: ["view", "edit"],
+    warehouse: ["view"],
+    references: ["view"],
+    dealers: ["view", "edit"],
+    measurements: ["view"],
+    installations: ["view"],
+    reports: ["view"],
+    audit: ["view"],
+    notifications: ["view", "edit"],
+  },
+  workshop: {
+    dashboard: ["view"],
+    orders: ["view"],
+    production: ["view", "edit"],
+    warehouse: ["view", "edit"],
+    references: ["view"],
+    notifications: ["view", "edit"],
+  },
+  // Монтажник видит свои выезды и закрывает их с объекта
+  installer: {
+    orders: ["view"],
+    installations: ["view", "edit"],
+    notifications: ["view", "edit"],
+  },
+  readonly: {
+    dashboard: ["view"],
+    orders: ["view"],
+    production: ["view"],
+    finance: ["view"],
+    warehouse: ["view"],
+    references: ["view"],
+    dealers: ["view"],
+    measurements: ["view"],
+    installations: ["view"],
+    audit: ["view"],
+    notifications: ["view"],
+  },
+};
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: "Владелец",
+  manager: "Менеджер",
+  accountant: "Бухгалтер",
+  workshop: "Цех",
+  installer: "Монтажник",
+  readonly: "Только просмотр",
+};
+
+export function hasPermission(
+  role: StaffRole | undefined,
+  resource: PermissionResource,
+  action: PermissionAction
+): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.[resource]?.includes(action) ?? false;
+}
@@ -0,0 +1,140 @@
+import type { Dealer, PriceTier } from "./schema";
+
+// Прайс-лист дилера в разобранном виде (JSON-поля price_tiers)
+export interface PriceTierRules {
+  baseRateRulon: number;
+  baseRateZebra: number;
+  // Надбавка в % к цене створки по категории ткани
+  categorySurcharges: Record<string, number>;
+  // Скидка в % при количестве створок в заказе не меньше minQuantity
+  volumeDiscounts: { minQuantity: number; percent: number }[];
+  // Скидка в % на даты заказа с dateFrom по dateTo включительно
+  promotions: { name: string; dateFrom: string; dateTo: string; percent: number }[];
+}
+
+export interface PricingSash {
+  coefficient: number;
+  isZebra: boolean;
+  category?: string | null;
+  quantity?: number;
+  // Тариф без прайс-листа — см. fallbackSashRate
+  fallbackRate: number;
+}
+
+export interface PricedSash {
+  rate: number;
+  surchargePercent: number;
+  // Цена одной створки с надбавкой и скидками заказа
+  price: number;
+}
+
+export interface PricingResult {
+  sashes: PricedSash[];
+  // Сумма до скидок
+  subtotal: number;
+  volumeDiscountPercent: number;
+  promotion: { name: string; percent: number } | null;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function parsePriceTier(tier: PriceTier): PriceTierRules {
+  return {
+    baseRateRulon: parseFloat(tier.baseRateRulon),
+    baseRateZebra: parseFloat(tier.baseRateZebra),
+    categorySurcharges: JSON.parse(tier.categorySurcharges),
+    volumeDiscounts: JSON.parse(tier.volumeDiscounts),
+    promotions: JSON.parse(tier.promotions),
+  };
+}
+
+// Тариф дилера, если он не задан в карточке (как default в схеме)
+export const DEFAULT_WORKSHOP_RATE = 28;
+
+/**
+ * Тариф створки без прайс-листа — один для формы заказа и сервера: у
+ * заказа дилера — его тариф по типу системы, без дилера — множитель
+ * системы (если он известен).
+ */
+export function fallbackSashRate(
+  dealer: Pick<Dealer, "workshopRateRulon" | "workshopRateZebra"> | null | undefined,
+  isZebra: boolean,
+  systemMultiplier?: number
+): number {
+  if (dealer) {
+    const rate = parseFloat(
+      (isZebra ? dealer.workshopRateZebra : dealer.workshopRateRulon)?.toString() || ""
+    );
+    return Number.isFinite(rate) ? rate : DEFAULT_WORKSHOP_RATE;
+  }
+  return systemMultiplier ?? DEFAULT_WORKSHOP_RATE;
+}
+
+// Зебра определяется по ключу системы или типу из мобильного приложения
+export function isZebraSystem(systemKeyOrType: string | null | undefined): boolean {
+  return (systemKeyOrType || "").toLowerCase().includes("zebra");
+}
+
+/**
+ * Цены створок заказа.
+ * Без прайс-листа: коэффициент × fallbackRate, без надбавок и скидок.
+ * С прайс-листом: коэффициент × базовый тариф по типу системы, плюс надбавка
+ * категории ткани; затем скидка за объём (по числу створок в заказе) и
+ * действующая на date акция — обе берутся наибольшими из подходящих и
+ * применяются последовательно.
+ */
+export function priceSashes(
+  tier: PriceTierRules | null,
+  sashes: PricingSash[],
+  date: string = new Date().toISOString().split("T")[0]
+): PricingResult {
+  const quantity = sashes.reduce((sum, s) => sum + (s.quantity ?? 1), 0);
+
+  const volumeDiscountPercent = tier
+    ? Math.max(
+        0,
+        ...tier.volumeDiscounts
+          .filter((d) => quantity >= d.minQuantity)
+          .map((d) => d.percent)
+      )
+    : 0;
+
+  const promotion = tier
+    ? tier.promotions
+        .filter((p) => p.dateFrom <= date && date <= p.dateTo)
+        .reduce<PriceTierRules["promotions"][number] | null>(
+          (best, p) => (!best || p.percent > best.percent ? p : best),
+          null
+        )
+    : null;
+
+  const discountFactor =
+    (1 - volumeDiscountPercent / 100) * (1 - (promotion?.percent ?? 0) / 100);
+
+  let subtotal = 0;
+  let total = 0;
+  const priced = sashes.map((sash) => {
+    const rate = tier
+      ? sash.isZebra
+        ? tier.baseRateZebra
+        : tier.baseRateRulon
+      : sash.fallbackRate;
+    const surchargePercent =
+      (tier && sash.category && tier.categorySurcharges[sash.category]) || 0;
+    const listPrice = sash.coefficient * rate * (1 + surchargePercent / 100);
+    const price = round2(listPrice * discountFactor);
+
+    subtotal += listPrice * (sash.quantity ?? 1);
+    total += price * (sash.quantity ?? 1);
+    return { rate, surchargePercent, price };
+  });
+
+  return {
+    sashes: priced,
+    subtotal: round2(subtotal),
+    volumeDiscountPercent,
+    promotion: promotion && { name: promotion.name, percent: promotion.percent },
+    total: round2(total),
+  };
+}
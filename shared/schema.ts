@@ -21,6 +21,15 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name"),
   reportPassword: text("report_password"),
+  // Метод оценки списаний для рабочего пространства (см. COSTING_METHODS)
+  costingMethod: text("costing_method").notNull().default("average"),
+  // Сколько минут действует разблокировка отчётов паролем (см. REPORT_ACCESS_MINUTES)
+  reportAccessMinutes: integer("report_access_minutes").notNull().default(30),
+  // Мощность цеха для календаря производства (см. CAPACITY_UNITS);
+  // пустая мощность — календарь не настроен
+  capacityUnit: text("capacity_unit").notNull().default("sashes"),
+  dailyCapacity: decimal("daily_capacity", { precision: 10, scale: 2 }),
+  workingDays: text("working_days").notNull().default("[1,2,3,4,5]"), // JSON: ISO-дни недели
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -33,6 +42,64 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Organizations (workspaces). Data stays scoped by the owner's user_id —
+// staff members log in with their own accounts but work inside the owner's data.
+export const organizations = pgTable("organizations", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  ownerId: varchar("owner_id")
+    .notNull()
+    .unique()
+    .references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const organizationsRelations = relations(organizations, ({ one, many }) => ({
+  owner: one(users, { fields: [organizations.ownerId], references: [users.id] }),
+  staff: many(staffMembers),
+}));
+
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type Organization = typeof organizations.$inferSelect;
+
+// Staff members — сотрудники организации с ролью
+export const staffMembers = pgTable("staff_members", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  userId: varchar("user_id")
+    .notNull()
+    .unique()
+    .references(() => users.id),
+  role: text("role").notNull(),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const staffMembersRelations = relations(staffMembers, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [staffMembers.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, { fields: [staffMembers.userId], references: [users.id] }),
+}));
+
+export const insertStaffMemberSchema = createInsertSchema(staffMembers).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertStaffMember = z.infer<typeof insertStaffMemberSchema>;
+export type StaffMember = typeof staffMembers.$inferSelect;
+
 // Colors reference table
 export const colors = pgTable("colors", {
   id: varchar("id")
@@ -63,6 +130,13 @@ export const fabrics = pgTable("fabrics", {
   price: decimal("price", { precision: 12, scale: 2 }),
   colorId: varchar("color_id").references(() => colors.id),
   category: text("category"), // 1,2,3,4,5,E
+  // Точка заказа: ниже этого свободного остатка позиция попадает в закупку
+  reorderPoint: decimal("reorder_point", { precision: 12, scale: 2 }),
+  reorderQuantity: decimal("reorder_quantity", { precision: 12, scale: 2 }),
+  preferredSupplierId: varchar("preferred_supplier_id").references(
+    () => suppliers.id,
+    { onDelete: "set null" }
+  ),
   userId: varchar("user_id")
     .notNull()
     .references(() => users.id),
@@ -95,6 +169,10 @@ export const dealers = pgTable("dealers", {
   password: text("password"),
   workshopRateRulon: decimal("workshop_rate_rulon", { precision: 12, scale: 2 }).default("28"),
   workshopRateZebra: decimal("workshop_rate_zebra", { precision: 12, scale: 2 }).default("28"),
+  // Прайс-лист дилера; без него цена = коэффициент × тариф дилера
+  priceTierId: varchar("price_tier_id").references(() => priceTiers.id, {
+    onDelete: "set null",
+  }),
   isActive: boolean("is_active").default(true),
   userId: varchar("user_id")
     .notNull()
@@ -103,6 +181,10 @@ export const dealers = pgTable("dealers", {
 
 export const dealersRelations = relations(dealers, ({ one, many }) => ({
   user: one(users, { fields: [dealers.userId], references: [users.id] }),
+  priceTier: one(priceTiers, {
+    fields: [dealers.priceTierId],
+    references: [priceTiers.id],
+  }),
   measurements: many(measurements),
 }));
 
@@ -149,6 +231,12 @@ export const systems = pgTable("systems", {
   multiplierId: varchar("multiplier_id").references(() => multipliers.id, {
     onDelete: "set null",
   }),
+  // Правила поиска по сетке коэффициентов (COEFFICIENT_LOOKUP_MODES,
+  // COEFFICIENT_OUT_OF_RANGE_MODES)
+  coefficientLookup: text("coefficient_lookup").notNull().default("nearest"),
+  coefficientOutOfRange: text("coefficient_out_of_range")
+    .notNull()
+    .default("reject"),
   userId: varchar("user_id")
     .notNull()
     .references(() => users.id),
@@ -235,6 +323,13 @@ export const components = pgTable("components", {
   name: text("name").notNull(),
   colorId: varchar("color_id").references(() => colors.id),
   unit: text("unit"), // шт/м/упак
+  // Точка заказа: ниже этого свободного остатка позиция попадает в закупку
+  reorderPoint: decimal("reorder_point", { precision: 12, scale: 2 }),
+  reorderQuantity: decimal("reorder_quantity", { precision: 12, scale: 2 }),
+  preferredSupplierId: varchar("preferred_supplier_id").references(
+    () => suppliers.id,
+    { onDelete: "set null" }
+  ),
   userId: varchar("user_id")
     .notNull()
     .references(() => users.id),
@@ -306,11 +401,27 @@ export const orders = pgTable("orders", {
   orderNumber: integer("order_number").notNull(),
   date: date("date").notNull(),
   dealerId: varchar("dealer_id").references(() => dealers.id),
-  status: text("status").default("Новый"), // Новый, В производстве, Готов, Отгружен
+  status: text("status").default("Новый"), // ORDER_STATUSES
   salePrice: decimal("sale_price", { precision: 12, scale: 2 }).default("0"),
   costPrice: decimal("cost_price", { precision: 12, scale: 2 }).default("0"),
   dealerDebt: decimal("dealer_debt", { precision: 12, scale: 2 }).default("0"),
   comment: text("comment"),
+  // Версия таблиц коэффициентов, по которой посчитаны створки;
+  // пусто — стандартная таблица из поставки
+  coefficientVersionId: varchar("coefficient_version_id").references(
+    () => coefficientVersions.id,
+    { onDelete: "set null" }
+  ),
+  // Отмена или возврат: дата, причина и судьба материалов (MATERIALS_DISPOSITIONS)
+  reversedAt: date("reversed_at"),
+  reversalReason: text("reversal_reason"),
+  materialsDisposition: text("materials_disposition"),
+  // Срок готовности, обещанный дилеру; по нему заказ встаёт в календарь цеха
+  dueDate: date("due_date"),
+  // Лента изменений мобильного приложения (sync) забирает заказы по этой отметке
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date()),
   userId: varchar("user_id")
     .notNull()
     .references(() => users.id),
@@ -321,6 +432,7 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
   dealer: one(dealers, { fields: [orders.dealerId], references: [dealers.id] }),
   sashes: many(orderSashes),
   installmentPlans: many(installmentPlans),
+  shipments: many(shipments),
 }));
 
 export const insertOrderSchema = createInsertSchema(orders).omit({ id: true });
@@ -397,6 +509,143 @@ export const insertOrderSashSchema = createInsertSchema(orderSashes).omit({
 export type InsertOrderSash = z.infer<typeof insertOrderSashSchema>;
 export type OrderSash = typeof orderSashes.$inferSelect;
 
+// Shipments table: заказ везут по комнатам — каждая отгрузка оформляется
+// накладной на часть створок
+export const shipments = pgTable("shipments", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  number: integer("number").notNull(), // номер накладной в рабочем пространстве
+  date: date("date").notNull(),
+  driverName: text("driver_name"),
+  recipientName: text("recipient_name"),
+  // Подпись получателя — PNG в data URL
+  signature: text("signature"),
+  signedAt: timestamp("signed_at"),
+  comment: text("comment"),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const shipmentsRelations = relations(shipments, ({ one, many }) => ({
+  order: one(orders, { fields: [shipments.orderId], references: [orders.id] }),
+  user: one(users, { fields: [shipments.userId], references: [users.id] }),
+  sashes: many(shipmentSashes),
+}));
+
+export const insertShipmentSchema = createInsertSchema(shipments).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertShipment = z.infer<typeof insertShipmentSchema>;
+export type Shipment = typeof shipments.$inferSelect;
+
+// Shipment Sashes table: створка уезжает одной отгрузкой
+export const shipmentSashes = pgTable("shipment_sashes", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  shipmentId: varchar("shipment_id")
+    .notNull()
+    .references(() => shipments.id, { onDelete: "cascade" }),
+  sashId: varchar("sash_id")
+    .notNull()
+    .unique()
+    .references(() => orderSashes.id, { onDelete: "cascade" }),
+});
+
+export const shipmentSashesRelations = relations(shipmentSashes, ({ one }) => ({
+  shipment: one(shipments, {
+    fields: [shipmentSashes.shipmentId],
+    references: [shipments.id],
+  }),
+  sash: one(orderSashes, {
+    fields: [shipmentSashes.sashId],
+    references: [orderSashes.id],
+  }),
+}));
+
+export type ShipmentSash = typeof shipmentSashes.$inferSelect;
+
+// Этапы изготовления створки — строго по порядку
+export const SASH_STAGES = ["cut", "assembled", "qc_passed", "packed"] as const;
+export type SashStage = (typeof SASH_STAGES)[number];
+
+export const SASH_STAGE_LABELS: Record<SashStage, string> = {
+  cut: "Раскроено",
+  assembled: "Собрано",
+  qc_passed: "ОТК пройден",
+  packed: "Упаковано",
+};
+
+// Sash Stage Events table: отметки цеха по створке — какой этап пройден,
+// когда и кем. Один этап на створку отмечается один раз
+export const sashStageEvents = pgTable("sash_stage_events", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  sashId: varchar("sash_id")
+    .notNull()
+    .references(() => orderSashes.id, { onDelete: "cascade" }),
+  stage: text("stage").notNull(), // see SASH_STAGES
+  completedAt: timestamp("completed_at").defaultNow().notNull(),
+  workerId: varchar("worker_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+});
+
+export const sashStageEventsRelations = relations(sashStageEvents, ({ one }) => ({
+  sash: one(orderSashes, {
+    fields: [sashStageEvents.sashId],
+    references: [orderSashes.id],
+  }),
+  worker: one(users, {
+    fields: [sashStageEvents.workerId],
+    references: [users.id],
+  }),
+}));
+
+export const insertSashStageEventSchema = createInsertSchema(sashStageEvents).omit({
+  id: true,
+  completedAt: true,
+});
+export type InsertSashStageEvent = z.infer<typeof insertSashStageEventSchema>;
+export type SashStageEvent = typeof sashStageEvents.$inferSelect;
+
+// Единица мощности цеха: створки штуками или единицы коэффициента
+export const CAPACITY_UNITS = ["sashes", "coefficient"] as const;
+export type CapacityUnit = (typeof CAPACITY_UNITS)[number];
+
+// Production Calendar Days table: исключения из обычной недели — выходной
+// (мощность 0), короткий день или рабочая суббота
+export const productionCalendarDays = pgTable("production_calendar_days", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  date: date("date").notNull(),
+  capacity: decimal("capacity", { precision: 10, scale: 2 }).notNull(),
+  comment: text("comment"),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+});
+
+export const insertProductionCalendarDaySchema = createInsertSchema(
+  productionCalendarDays
+).omit({ id: true });
+export type InsertProductionCalendarDay = z.infer<
+  typeof insertProductionCalendarDaySchema
+>;
+export type ProductionCalendarDay = typeof productionCalendarDays.$inferSelect;
+
 // Finance Operations table
 export const financeOperations = pgTable("finance_operations", {
   id: varchar("id")
@@ -470,6 +719,12 @@ export const warehouseReceipts = pgTable("warehouse_receipts", {
   date: date("date").notNull(),
   total: decimal("total", { precision: 12, scale: 2 }).default("0"),
   comment: text("comment"),
+  // Черновик не влияет на остатки и долг поставщику, пока его не проведут
+  isDraft: boolean("is_draft").default(false),
+  purchaseOrderId: varchar("purchase_order_id").references(
+    () => purchaseOrders.id,
+    { onDelete: "set null" }
+  ),
   userId: varchar("user_id")
     .notNull()
     .references(() => users.id),
@@ -517,6 +772,11 @@ export const warehouseReceiptItems = pgTable("warehouse_receipt_items", {
   quantity: decimal("quantity", { precision: 12, scale: 2 }).notNull(),
   price: decimal("price", { precision: 12, scale: 2 }).notNull(),
   total: decimal("total", { precision: 12, scale: 2 }).notNull(),
+  // Строка заказа поставщику, по которой пришла позиция (частичные поставки)
+  purchaseOrderItemId: varchar("purchase_order_item_id").references(
+    () => purchaseOrderItems.id,
+    { onDelete: "set null" }
+  ),
 });
 
 export const warehouseReceiptItemsRelations = relations(
@@ -545,6 +805,94 @@ export type InsertWarehouseReceiptItem = z.infer<
 >;
 export type WarehouseReceiptItem = typeof warehouseReceiptItems.$inferSelect;
 
+// Purchase Orders table (заказ поставщику)
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  number: integer("number").notNull(),
+  supplierId: varchar("supplier_id")
+    .notNull()
+    .references(() => suppliers.id),
+  date: date("date").notNull(),
+  expectedDate: date("expected_date"),
+  status: text("status").notNull().default("draft"), // PURCHASE_ORDER_STATUSES
+  total: decimal("total", { precision: 12, scale: 2 }).default("0"),
+  comment: text("comment"),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const purchaseOrdersRelations = relations(
+  purchaseOrders,
+  ({ one, many }) => ({
+    user: one(users, {
+      fields: [purchaseOrders.userId],
+      references: [users.id],
+    }),
+    supplier: one(suppliers, {
+      fields: [purchaseOrders.supplierId],
+      references: [suppliers.id],
+    }),
+    items: many(purchaseOrderItems),
+  })
+);
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+
+// Purchase Order Items table
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id")
+    .notNull()
+    .references(() => purchaseOrders.id, { onDelete: "cascade" }),
+  itemType: text("item_type").notNull(), // "component" or "fabric"
+  componentId: varchar("component_id").references(() => components.id, {
+    onDelete: "set null",
+  }),
+  fabricId: varchar("fabric_id").references(() => fabrics.id, {
+    onDelete: "set null",
+  }),
+  quantity: decimal("quantity", { precision: 12, scale: 2 }).notNull(),
+  price: decimal("price", { precision: 12, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 12, scale: 2 }).notNull(),
+});
+
+export const purchaseOrderItemsRelations = relations(
+  purchaseOrderItems,
+  ({ one }) => ({
+    purchaseOrder: one(purchaseOrders, {
+      fields: [purchaseOrderItems.purchaseOrderId],
+      references: [purchaseOrders.id],
+    }),
+    component: one(components, {
+      fields: [purchaseOrderItems.componentId],
+      references: [components.id],
+    }),
+    fabric: one(fabrics, {
+      fields: [purchaseOrderItems.fabricId],
+      references: [fabrics.id],
+    }),
+  })
+);
+
+export const insertPurchaseOrderItemSchema = createInsertSchema(
+  purchaseOrderItems
+).omit({ id: true });
+export type InsertPurchaseOrderItem = z.infer<
+  typeof insertPurchaseOrderItemSchema
+>;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+
 // Warehouse Writeoffs table (material consumption by orders)
 export const warehouseWriteoffs = pgTable("warehouse_writeoffs", {
   id: varchar("id")
@@ -595,6 +943,91 @@ export type InsertWarehouseWriteoff = z.infer<
 >;
 export type WarehouseWriteoff = typeof warehouseWriteoffs.$inferSelect;
 
+// Stock movements — журнал движения материалов. Каждое поступление, списание
+// и корректировка пишет сюда строку со знаковым количеством (+ приход, − расход).
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  itemType: text("item_type").notNull(), // "component" or "fabric"
+  itemId: varchar("item_id").notNull(), // fabrics.id или components.id
+  kind: text("kind").notNull(), // see STOCK_MOVEMENT_KINDS
+  quantity: decimal("quantity", { precision: 12, scale: 4 }).notNull(),
+  price: decimal("price", { precision: 12, scale: 2 }).default("0"),
+  total: decimal("total", { precision: 12, scale: 2 }).default("0"),
+  // Источник движения (без FK — документы могут удаляться, журнал остаётся)
+  receiptId: varchar("receipt_id"),
+  writeoffId: varchar("writeoff_id"),
+  orderId: varchar("order_id"),
+  layoutId: varchar("layout_id"), // раскрой: обрезь и деловые обрезки
+  date: date("date").notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+
+// Stock balances — текущий остаток по позиции. Обновляется в той же
+// транзакции, что и движение; уникальность по (user_id, item_type, item_id).
+export const stockBalances = pgTable("stock_balances", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  itemType: text("item_type").notNull(),
+  itemId: varchar("item_id").notNull(),
+  quantity: decimal("quantity", { precision: 12, scale: 4 }).notNull().default("0"),
+  // Сумма и количество всех поступлений — для средней цены
+  totalReceived: decimal("total_received", { precision: 12, scale: 4 }).notNull().default("0"),
+  totalValue: decimal("total_value", { precision: 14, scale: 2 }).notNull().default("0"),
+  lastPrice: decimal("last_price", { precision: 12, scale: 2 }).notNull().default("0"),
+  // Состояние оценки себестоимости (server/costing.ts): FIFO-партии в JSON
+  // и стоимость остатка по скользящей средней. null — ещё не посчитано,
+  // восстанавливается по журналу при первом обращении
+  costLayers: text("cost_layers"),
+  averageValue: decimal("average_value", { precision: 16, scale: 4 }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type StockBalance = typeof stockBalances.$inferSelect;
+
+// Stock reservations — материалы, закреплённые за заказом "В производстве".
+// Снимаются при списании, возврате заказа в "Новый" и удалении заказа.
+export const stockReservations = pgTable("stock_reservations", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  orderId: varchar("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  itemType: text("item_type").notNull(), // "component" or "fabric"
+  itemId: varchar("item_id").notNull(),
+  quantity: decimal("quantity", { precision: 12, scale: 4 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const stockReservationsRelations = relations(stockReservations, ({ one }) => ({
+  order: one(orders, {
+    fields: [stockReservations.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export type StockReservation = typeof stockReservations.$inferSelect;
+
 // Audit Logs table
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id")
@@ -603,6 +1036,8 @@ export const auditLogs = pgTable("audit_logs", {
   userId: varchar("user_id")
     .notNull()
     .references(() => users.id),
+  // Сотрудник, выполнивший действие (user_id — владелец рабочего пространства)
+  actorId: varchar("actor_id").references(() => users.id),
   action: text("action").notNull(),
   entityType: text("entity_type").notNull(),
   entityId: varchar("entity_id").notNull(),
@@ -613,6 +1048,7 @@ export const auditLogs = pgTable("audit_logs", {
 
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   user: one(users, { fields: [auditLogs.userId], references: [users.id] }),
+  actor: one(users, { fields: [auditLogs.actorId], references: [users.id] }),
 }));
 
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
@@ -651,14 +1087,99 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type Notification = typeof notifications.$inferSelect;
 
+// Письма по уведомлению: у каждого получателя своё, по каналу из его
+// настроек. Строка есть, пока письмо ждёт отправки или уже отправлено
+export const notificationEmails = pgTable("notification_emails", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  notificationId: varchar("notification_id")
+    .notNull()
+    .references(() => notifications.id, { onDelete: "cascade" }),
+  recipientId: varchar("recipient_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  status: text("status").notNull(), // NOTIFICATION_EMAIL_STATUSES
+});
+
+export type NotificationEmail = typeof notificationEmails.$inferSelect;
+
+// Настройки уведомлений аккаунта (владельца или сотрудника): правила по
+// типам, тихие часы и сводка. Пороги напоминаний общие для рабочего
+// пространства — из настроек владельца. Время — московское, как и
+// остальные даты CRM.
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  rules: text("rules").notNull().default("{}"), // JSON: тип → NotificationRule
+  // Адрес для писем; пусто — email аккаунта
+  email: text("email"),
+  // "HH:MM"; пусто — без тихих часов. Начало позже конца — через полночь
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
+  digestHour: integer("digest_hour").notNull().default(9),
+  lastDigestAt: timestamp("last_digest_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type NotificationPreferencesRow = typeof notificationPreferences.$inferSelect;
+
+// Фоновые задачи по расписанию (server/jobs.ts). Строка на задачу: когда
+// запускать в следующий раз и кто её сейчас выполняет — блокировка не даёт
+// двум экземплярам сервера выполнить задачу одновременно.
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  name: text("name").primaryKey(),
+  enabled: boolean("enabled").notNull().default(true),
+  nextRunAt: timestamp("next_run_at").notNull().defaultNow(),
+  lockedBy: text("locked_by"),
+  lockedUntil: timestamp("locked_until"),
+  // Неудачных запусков подряд — по нему считается повтор
+  failures: integer("failures").notNull().default(0),
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: text("last_status"),
+  lastError: text("last_error"),
+});
+
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+
+export const JOB_RUN_STATUSES = ["running", "succeeded", "failed"] as const;
+export type JobRunStatus = (typeof JOB_RUN_STATUSES)[number];
+
+export const JOB_RUN_TRIGGERS = ["schedule", "retry", "manual"] as const;
+export type JobRunTrigger = (typeof JOB_RUN_TRIGGERS)[number];
+
+// История запусков фоновых задач
+export const jobRuns = pgTable("job_runs", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  jobName: text("job_name").notNull(),
+  status: text("status").notNull().default("running"), // JOB_RUN_STATUSES
+  trigger: text("trigger").notNull(), // JOB_RUN_TRIGGERS
+  attempt: integer("attempt").notNull().default(1),
+  instanceId: text("instance_id").notNull(),
+  // Ручной запуск: рабочее пространство, для которого он выполнялся, и кто запустил
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  result: text("result"), // JSON: счётчики задачи
+  error: text("error"),
+});
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = typeof jobRuns.$inferInsert;
+
 
 // Cutting layouts (раскрой рулона)
 export const cuttingLayouts = pgTable("cutting_layouts", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
+  // Пусто у раскроя партии: куски нескольких заказов (orderId в pieces)
   orderId: varchar("order_id")
-    .notNull()
     .references(() => orders.id, { onDelete: "cascade" }),
   fabricId: varchar("fabric_id")
     .notNull()
@@ -693,9 +1214,13 @@ export const cuttingLayoutRows = pgTable("cutting_layout_rows", {
     .references(() => cuttingLayouts.id, { onDelete: "cascade" }),
   rowIndex: integer("row_index").notNull(), // порядок ряда
   cutLength: decimal("cut_length", { precision: 10, scale: 2 }).notNull(), // длина отреза (высота створки) в см
-  pieces: text("pieces").notNull(), // JSON: [{sashIndex, width, height}]
+  pieces: text("pieces").notNull(), // JSON: [{sashIndex, width, height, orderId?, orderNumber?, rotated?}]
   usedWidth: decimal("used_width", { precision: 10, scale: 2 }).notNull(), // занято по ширине в см
   wasteWidth: decimal("waste_width", { precision: 10, scale: 2 }).notNull(), // остаток по ширине в см
+  // Ряд кроится из сохранённого обрезка, а не из рулона
+  remnantId: varchar("remnant_id").references(() => fabricRemnants.id, {
+    onDelete: "set null",
+  }),
 });
 
 export const cuttingLayoutRowsRelations = relations(cuttingLayoutRows, ({ one }) => ({
@@ -709,6 +1234,249 @@ export const insertCuttingLayoutRowSchema = createInsertSchema(cuttingLayoutRows
 export type InsertCuttingLayoutRow = z.infer<typeof insertCuttingLayoutRowSchema>;
 export type CuttingLayoutRow = typeof cuttingLayoutRows.$inferSelect;
 
+// Fabric remnants (деловые обрезки рулона: ширина × длина)
+export const fabricRemnants = pgTable("fabric_remnants", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  fabricId: varchar("fabric_id")
+    .notNull()
+    .references(() => fabrics.id, { onDelete: "cascade" }),
+  width: decimal("width", { precision: 10, scale: 2 }).notNull(), // поперёк рулона, см
+  length: decimal("length", { precision: 10, scale: 2 }).notNull(), // вдоль рулона, см
+  // Раскрой, после которого остался обрезок
+  sourceLayoutId: varchar("source_layout_id").references(() => cuttingLayouts.id, {
+    onDelete: "set null",
+  }),
+  // Раскрой, который его использовал; пусто — обрезок свободен
+  usedLayoutId: varchar("used_layout_id").references(() => cuttingLayouts.id, {
+    onDelete: "set null",
+  }),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const fabricRemnantsRelations = relations(fabricRemnants, ({ one }) => ({
+  fabric: one(fabrics, { fields: [fabricRemnants.fabricId], references: [fabrics.id] }),
+  user: one(users, { fields: [fabricRemnants.userId], references: [users.id] }),
+}));
+
+export const insertFabricRemnantSchema = createInsertSchema(fabricRemnants).omit({ id: true });
+export type InsertFabricRemnant = z.infer<typeof insertFabricRemnantSchema>;
+export type FabricRemnant = typeof fabricRemnants.$inferSelect;
+
+// Coefficient tables (сетки коэффициентов по системам и категориям тканей).
+// Версия действует с effectiveFrom до начала следующей версии.
+export const coefficientVersions = pgTable("coefficient_versions", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  effectiveFrom: date("effective_from").notNull(),
+  comment: text("comment"),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  // Меняется при каждой записи сеток — часть ключа кэша коэффициентов
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const coefficientVersionsRelations = relations(
+  coefficientVersions,
+  ({ one, many }) => ({
+    user: one(users, { fields: [coefficientVersions.userId], references: [users.id] }),
+    grids: many(coefficientGrids),
+  })
+);
+
+export const insertCoefficientVersionSchema = createInsertSchema(coefficientVersions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertCoefficientVersion = z.infer<typeof insertCoefficientVersionSchema>;
+export type CoefficientVersion = typeof coefficientVersions.$inferSelect;
+
+export const coefficientGrids = pgTable("coefficient_grids", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  versionId: varchar("version_id")
+    .notNull()
+    .references(() => coefficientVersions.id, { onDelete: "cascade" }),
+  systemKey: text("system_key").notNull(),
+  sourceSheet: text("source_sheet"), // лист XLSX, из которого импортирована сетка
+  category: text("category").notNull(),
+  title: text("title"),
+  widths: text("widths").notNull(), // JSON: ширины, м
+  heights: text("heights").notNull(), // JSON: высоты, м
+  values: text("values").notNull(), // JSON: values[высота][ширина]
+});
+
+export const coefficientGridsRelations = relations(coefficientGrids, ({ one }) => ({
+  version: one(coefficientVersions, {
+    fields: [coefficientGrids.versionId],
+    references: [coefficientVersions.id],
+  }),
+}));
+
+export const insertCoefficientGridSchema = createInsertSchema(coefficientGrids).omit({
+  id: true,
+});
+export type InsertCoefficientGrid = z.infer<typeof insertCoefficientGridSchema>;
+export type CoefficientGrid = typeof coefficientGrids.$inferSelect;
+
+// Прайс-листы (уровни цен) дилеров
+export const priceTiers = pgTable("price_tiers", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // Базовый тариф: цена створки = коэффициент × тариф
+  baseRateRulon: decimal("base_rate_rulon", { precision: 12, scale: 2 }).notNull(),
+  baseRateZebra: decimal("base_rate_zebra", { precision: 12, scale: 2 }).notNull(),
+  categorySurcharges: text("category_surcharges").notNull().default("{}"), // JSON: { "E": 10 } — % к цене
+  volumeDiscounts: text("volume_discounts").notNull().default("[]"), // JSON: [{ minQuantity, percent }]
+  promotions: text("promotions").notNull().default("[]"), // JSON: [{ name, dateFrom, dateTo, percent }]
+  comment: text("comment"),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const priceTiersRelations = relations(priceTiers, ({ one, many }) => ({
+  user: one(users, { fields: [priceTiers.userId], references: [users.id] }),
+  dealers: many(dealers),
+}));
+
+export const insertPriceTierSchema = createInsertSchema(priceTiers).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertPriceTier = z.infer<typeof insertPriceTierSchema>;
+export type PriceTier = typeof priceTiers.$inferSelect;
+
+// Quotes table (расчёт для дилера до подтверждения заказа)
+export const quotes = pgTable("quotes", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  number: integer("number").notNull(),
+  dealerId: varchar("dealer_id")
+    .notNull()
+    .references(() => dealers.id),
+  status: text("status").notNull().default("open"), // QUOTE_STATUSES
+  // Заказ, созданный при принятии расчёта
+  orderId: varchar("order_id").references(() => orders.id, {
+    onDelete: "set null",
+  }),
+  comment: text("comment"),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  decidedAt: timestamp("decided_at"),
+});
+
+export const quotesRelations = relations(quotes, ({ one, many }) => ({
+  user: one(users, { fields: [quotes.userId], references: [users.id] }),
+  dealer: one(dealers, { fields: [quotes.dealerId], references: [dealers.id] }),
+  order: one(orders, { fields: [quotes.orderId], references: [orders.id] }),
+  revisions: many(quoteRevisions),
+}));
+
+export const insertQuoteSchema = createInsertSchema(quotes).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+export type Quote = typeof quotes.$inferSelect;
+
+// Quote Revisions table — редакции расчёта не меняются, каждая правка
+// размеров или цены создаёт новую
+export const quoteRevisions = pgTable("quote_revisions", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  quoteId: varchar("quote_id")
+    .notNull()
+    .references(() => quotes.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull(),
+  discountPercent: decimal("discount_percent", { precision: 5, scale: 2 }).default("0"),
+  total: decimal("total", { precision: 12, scale: 2 }).notNull(),
+  validUntil: date("valid_until").notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const quoteRevisionsRelations = relations(
+  quoteRevisions,
+  ({ one, many }) => ({
+    quote: one(quotes, {
+      fields: [quoteRevisions.quoteId],
+      references: [quotes.id],
+    }),
+    sashes: many(quoteSashes),
+  })
+);
+
+export const insertQuoteRevisionSchema = createInsertSchema(quoteRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertQuoteRevision = z.infer<typeof insertQuoteRevisionSchema>;
+export type QuoteRevision = typeof quoteRevisions.$inferSelect;
+
+// Quote Sashes table
+export const quoteSashes = pgTable("quote_sashes", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  revisionId: varchar("revision_id")
+    .notNull()
+    .references(() => quoteRevisions.id, { onDelete: "cascade" }),
+  width: decimal("width", { precision: 10, scale: 2 }).notNull(),
+  height: decimal("height", { precision: 10, scale: 2 }).notNull(),
+  systemId: varchar("system_id").references(() => systems.id, {
+    onDelete: "set null",
+  }),
+  fabricId: varchar("fabric_id").references(() => fabrics.id, {
+    onDelete: "set null",
+  }),
+  controlSide: text("control_side"),
+  coefficient: decimal("coefficient", { precision: 12, scale: 2 }),
+  // Цена по прайс-листу дилера, до скидки редакции
+  sashPrice: decimal("sash_price", { precision: 12, scale: 2 }).default("0"),
+  room: integer("room").default(1),
+  roomName: text("room_name"),
+});
+
+export const quoteSashesRelations = relations(quoteSashes, ({ one }) => ({
+  revision: one(quoteRevisions, {
+    fields: [quoteSashes.revisionId],
+    references: [quoteRevisions.id],
+  }),
+  system: one(systems, {
+    fields: [quoteSashes.systemId],
+    references: [systems.id],
+  }),
+  fabric: one(fabrics, {
+    fields: [quoteSashes.fabricId],
+    references: [fabrics.id],
+  }),
+}));
+
+export const insertQuoteSashSchema = createInsertSchema(quoteSashes).omit({
+  id: true,
+});
+export type InsertQuoteSash = z.infer<typeof insertQuoteSashSchema>;
+export type QuoteSash = typeof quoteSashes.$inferSelect;
+
 // ===== MOBILE APP TABLES =====
 
 // Measurement statuses
@@ -742,6 +1510,10 @@ export const measurements = pgTable("measurements", {
   sentAt: timestamp("sent_at"),
   orderId: varchar("order_id").references(() => orders.id),
   signatureUrl: text("signature_url"),
+  // Офлайн-синхронизация: id, выданный замеру на устройстве, и хеш
+  // последней принятой версии — повтор той же отправки не создаёт дубль
+  clientId: text("client_id"),
+  syncHash: text("sync_hash"),
 });
 
 export const measurementsRelations = relations(
@@ -836,6 +1608,104 @@ export type InsertMeasurementPhoto = z.infer<
 >;
 export type MeasurementPhoto = typeof measurementPhotos.$inferSelect;
 
+// Uploaded file kinds: фото замера/створки или подпись клиента
+export const UPLOADED_FILE_KINDS = ["photo", "signature"] as const;
+export type UploadedFileKind = (typeof UPLOADED_FILE_KINDS)[number];
+
+// Uploaded Files — файлы из мобильного приложения. Сами байты лежат в
+// хранилище (диск или S3), здесь — ключи и метаданные. На файл ссылаются
+// measurementPhotos.url, measurementSashes.photoUrl и measurements.signatureUrl
+// в виде "/api/files/<id>".
+export const uploadedFiles = pgTable("uploaded_files", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  kind: text("kind").notNull(),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  originalName: text("original_name"),
+  dealerId: varchar("dealer_id").references(() => dealers.id),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertUploadedFileSchema = createInsertSchema(uploadedFiles).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertUploadedFile = z.infer<typeof insertUploadedFileSchema>;
+export type UploadedFile = typeof uploadedFiles.$inferSelect;
+
+// Installation job statuses
+export const INSTALLATION_JOB_STATUSES = [
+  "scheduled", // назначен монтажнику
+  "completed", // смонтирован, есть фото и подпись клиента
+  "cancelled", // снят с графика
+] as const;
+export type InstallationJobStatus = (typeof INSTALLATION_JOB_STATUSES)[number];
+
+// Installation Jobs — выезды монтажников по отгруженным заказам
+export const installationJobs = pgTable("installation_jobs", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  // Замер, из которого вырос заказ: адрес, координаты и статус "installed"
+  measurementId: varchar("measurement_id").references(() => measurements.id, {
+    onDelete: "set null",
+  }),
+  installerId: varchar("installer_id")
+    .notNull()
+    .references(() => users.id),
+  date: date("date").notNull(),
+  timeFrom: text("time_from").notNull(), // "HH:MM"
+  timeTo: text("time_to").notNull(), // "HH:MM"
+  address: text("address"),
+  latitude: decimal("latitude", { precision: 12, scale: 8 }),
+  longitude: decimal("longitude", { precision: 12, scale: 8 }),
+  status: text("status").notNull().default("scheduled"),
+  comment: text("comment"),
+  // Фото готового монтажа и подпись клиента — картинки в data URL
+  photo: text("photo"),
+  clientName: text("client_name"),
+  clientSignature: text("client_signature"),
+  completedAt: timestamp("completed_at"),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const installationJobsRelations = relations(
+  installationJobs,
+  ({ one }) => ({
+    order: one(orders, {
+      fields: [installationJobs.orderId],
+      references: [orders.id],
+    }),
+    measurement: one(measurements, {
+      fields: [installationJobs.measurementId],
+      references: [measurements.id],
+    }),
+    installer: one(users, {
+      fields: [installationJobs.installerId],
+      references: [users.id],
+    }),
+  })
+);
+
+export const insertInstallationJobSchema = createInsertSchema(
+  installationJobs
+).omit({ id: true, createdAt: true });
+export type InsertInstallationJob = z.infer<typeof insertInstallationJobSchema>;
+export type InstallationJob = typeof installationJobs.$inferSelect;
+
 // Auth schemas for validation
 export const loginSchema = z.object({
   email: z.string().email("Некорректный email"),
@@ -848,6 +1718,184 @@ export const registerSchema = z.object({
   name: z.string().optional(),
 });
 
+export const staffMemberFormSchema = z.object({
+  email: z.string().email("Некорректный email"),
+  password: z.string().min(6, "Пароль должен быть не менее 6 символов"),
+  name: z.string().optional(),
+  role: z.enum(["manager", "accountant", "workshop", "installer", "readonly"], {
+    errorMap: () => ({ message: "Некорректная роль" }),
+  }),
+});
+
+const purchaseOrderLineSchema = z.object({
+  itemType: z.enum(["fabric", "component"]),
+  fabricId: z.string().nullish(),
+  componentId: z.string().nullish(),
+  quantity: z.coerce.number().positive("Количество должно быть больше нуля"),
+  price: z.coerce.number().min(0, "Цена не может быть отрицательной"),
+});
+
+export const purchaseOrderFormSchema = z.object({
+  supplierId: z.string().min(1, "Укажите поставщика"),
+  date: z.string().min(1, "Укажите дату"),
+  expectedDate: z.string().nullish(),
+  comment: z.string().nullish(),
+  items: z.array(purchaseOrderLineSchema).min(1, "Добавьте минимум одну позицию"),
+});
+
+export const purchaseOrderReceiveSchema = z.object({
+  date: z.string().min(1, "Укажите дату"),
+  comment: z.string().nullish(),
+  items: z
+    .array(
+      z.object({
+        purchaseOrderItemId: z.string(),
+        quantity: z.coerce.number().min(0),
+        price: z.coerce.number().min(0).optional(),
+      })
+    )
+    .min(1, "Нет позиций для приёмки"),
+});
+
+export const coefficientVersionFormSchema = z.object({
+  name: z.string().min(1, "Укажите название версии"),
+  effectiveFrom: z.string().min(1, "Укажите дату начала действия"),
+  comment: z.string().nullish(),
+});
+
+export const coefficientGridValuesSchema = z.object({
+  values: z.array(z.array(z.coerce.number().min(0))).min(1),
+});
+
+const percentSchema = z.coerce
+  .number()
+  .min(0, "Процент не может быть отрицательным")
+  .max(100, "Процент не больше 100");
+
+export const priceTierFormSchema = z.object({
+  name: z.string().min(1, "Укажите название прайс-листа"),
+  baseRateRulon: z.coerce.number().positive("Укажите тариф для рулонных"),
+  baseRateZebra: z.coerce.number().positive("Укажите тариф для зебры"),
+  categorySurcharges: z.record(z.string(), z.coerce.number().min(-100).max(1000)),
+  volumeDiscounts: z.array(
+    z.object({
+      minQuantity: z.coerce.number().int().min(1, "Минимум 1 створка"),
+      percent: percentSchema,
+    })
+  ),
+  promotions: z.array(
+    z
+      .object({
+        name: z.string().min(1, "Укажите название акции"),
+        dateFrom: z.string().min(1, "Укажите начало акции"),
+        dateTo: z.string().min(1, "Укажите окончание акции"),
+        percent: percentSchema,
+      })
+      .refine((p) => p.dateFrom <= p.dateTo, {
+        message: "Акция заканчивается раньше, чем начинается",
+        path: ["dateTo"],
+      })
+  ),
+  comment: z.string().nullish(),
+});
+export type PriceTierForm = z.infer<typeof priceTierFormSchema>;
+
+export const quoteRevisionFormSchema = z.object({
+  sashes: z
+    .array(
+      z.object({
+        width: z.coerce.number().positive("Укажите ширину створки"),
+        height: z.coerce.number().positive("Укажите высоту створки"),
+        systemId: z.string().min(1, "Выберите систему"),
+        fabricId: z.string().min(1, "Выберите ткань"),
+        controlSide: z.string().nullish(),
+        room: z.coerce.number().int().min(1).optional(),
+        roomName: z.string().nullish(),
+      })
+    )
+    .min(1, "Добавьте хотя бы одну створку"),
+  discountPercent: percentSchema.default(0),
+  validUntil: z.string().min(1, "Укажите срок действия расчёта"),
+  comment: z.string().nullish(),
+});
+export type QuoteRevisionForm = z.infer<typeof quoteRevisionFormSchema>;
+
+export const quoteFormSchema = z.object({
+  dealerId: z.string().min(1, "Выберите дилера"),
+  comment: z.string().nullish(),
+  revision: quoteRevisionFormSchema,
+});
+export type QuoteForm = z.infer<typeof quoteFormSchema>;
+
+export const shipmentFormSchema = z.object({
+  date: z.string().min(1, "Укажите дату отгрузки"),
+  driverName: z.string().nullish(),
+  comment: z.string().nullish(),
+  sashIds: z.array(z.string()).min(1, "Выберите створки для отгрузки"),
+});
+export type ShipmentForm = z.infer<typeof shipmentFormSchema>;
+
+export const shipmentSignatureSchema = z.object({
+  recipientName: z.string().trim().min(1, "Укажите получателя"),
+  signature: z
+    .string()
+    .regex(/^data:image\/png;base64,/, "Подпись должна быть изображением PNG"),
+});
+export type ShipmentSignature = z.infer<typeof shipmentSignatureSchema>;
+
+// Станция цеха может передать свой этап — тогда он сверяется со следующим
+export const sashStageAdvanceSchema = z.object({
+  stage: z.enum(SASH_STAGES).optional(),
+});
+export type SashStageAdvance = z.infer<typeof sashStageAdvanceSchema>;
+
+export const productionCapacitySchema = z.object({
+  capacityUnit: z.enum(CAPACITY_UNITS),
+  dailyCapacity: z.coerce
+    .number()
+    .positive("Мощность должна быть больше нуля")
+    .nullable(),
+  workingDays: z
+    .array(z.number().int().min(1).max(7))
+    .min(1, "Выберите рабочие дни"),
+});
+export type ProductionCapacity = z.infer<typeof productionCapacitySchema>;
+
+export const productionCalendarDayFormSchema = z.object({
+  capacity: z.coerce.number().min(0, "Мощность не может быть отрицательной"),
+  comment: z.string().nullish(),
+});
+export type ProductionCalendarDayForm = z.infer<typeof productionCalendarDayFormSchema>;
+
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const installationJobFormSchema = z
+  .object({
+    orderId: z.string().min(1, "Выберите заказ"),
+    installerId: z.string().min(1, "Выберите монтажника"),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Укажите дату монтажа"),
+    timeFrom: z.string().regex(TIME_RE, "Укажите время начала"),
+    timeTo: z.string().regex(TIME_RE, "Укажите время окончания"),
+    address: z.string().nullish(),
+    comment: z.string().nullish(),
+  })
+  .refine((job) => job.timeFrom < job.timeTo, {
+    message: "Время окончания должно быть позже начала",
+    path: ["timeTo"],
+  });
+export type InstallationJobForm = z.infer<typeof installationJobFormSchema>;
+
+export const installationCompleteSchema = z.object({
+  photo: z
+    .string()
+    .regex(/^data:image\/(jpeg|png|webp);base64,/, "Приложите фото монтажа"),
+  clientName: z.string().trim().min(1, "Укажите клиента"),
+  clientSignature: z
+    .string()
+    .regex(/^data:image\/png;base64,/, "Подпись должна быть изображением PNG"),
+});
+export type InstallationComplete = z.infer<typeof installationCompleteSchema>;
+
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 
@@ -965,15 +2013,48 @@ export type DeviceToken = typeof deviceTokens.$inferSelect;
 export const DEVICE_PLATFORMS = ["ios", "android"] as const;
 export type DevicePlatform = (typeof DEVICE_PLATFORMS)[number];
 
+// Idempotency keys for mobile requests: повтор запроса с тем же
+// Idempotency-Key получает сохранённый ответ, а не выполняется снова.
+// statusCode пуст, пока первый запрос ещё выполняется.
+export const mobileIdempotencyKeys = pgTable("mobile_idempotency_keys", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  dealerId: varchar("dealer_id")
+    .notNull()
+    .references(() => dealers.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code"),
+  response: text("response"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type MobileIdempotencyKey = typeof mobileIdempotencyKeys.$inferSelect;
+
 // Order statuses
 export const ORDER_STATUSES = [
   "Новый",
   "В производстве",
   "Готов",
   "Отгружен",
+  "Отменён",
+  "Возврат",
 ] as const;
 export type OrderStatus = (typeof ORDER_STATUSES)[number];
 
+// Конечные статусы: заказ снят до отгрузки или возвращён дилером.
+// Долг по таким заказам не начисляется, в отчётах они остаются со знаком
+export const REVERSED_ORDER_STATUSES: readonly OrderStatus[] = ["Отменён", "Возврат"];
+export const ACTIVE_ORDER_STATUSES = ORDER_STATUSES.filter(
+  (s) => !REVERSED_ORDER_STATUSES.includes(s)
+);
+
+// Материалы отменённого или возвращённого заказа: на склад или в брак
+export const MATERIALS_DISPOSITIONS = ["restock", "scrap"] as const;
+export type MaterialsDisposition = (typeof MATERIALS_DISPOSITIONS)[number];
+
 // Fabric categories
 export const FABRIC_CATEGORIES = ["1", "2", "3", "4", "5", "E"] as const;
 export type FabricCategory = (typeof FABRIC_CATEGORIES)[number];
@@ -995,12 +2076,78 @@ export type FinanceType = (typeof FINANCE_TYPES)[number];
 export const EXPENSE_DIRECTIONS = ["expense", "income"] as const;
 export type ExpenseDirection = (typeof EXPENSE_DIRECTIONS)[number];
 
+// Stock movement kinds
+export const STOCK_MOVEMENT_KINDS = [
+  "receipt", // поступление от поставщика
+  "writeoff", // списание по заказу
+  "adjustment", // инвентаризация (±)
+  "reversal", // сторно: удаление/правка поступления, откат списания
+  "cutting", // обрезь рулона по раскрою (куски уходят со списанием заказа)
+  "remnant", // деловой обрезок: + сохранён раскроем, − использован
+] as const;
+export type StockMovementKind = (typeof STOCK_MOVEMENT_KINDS)[number];
+
+export const COSTING_METHODS = [
+  "fifo", // списание по партиям: сначала самые ранние поступления
+  "average", // скользящая средняя по текущему остатку
+] as const;
+export type CostingMethod = (typeof COSTING_METHODS)[number];
+
+// Варианты срока разблокировки отчётов паролем, в минутах
+export const REPORT_ACCESS_MINUTES = [15, 30, 60, 240, 480] as const;
+
+// Coefficient grid lookup per system
+export const COEFFICIENT_LOOKUP_MODES = [
+  "nearest", // ближайший узел сетки
+  "round_up", // следующий узел сетки вверх
+  "interpolate", // билинейная интерполяция между узлами
+] as const;
+export type CoefficientLookupMode = (typeof COEFFICIENT_LOOKUP_MODES)[number];
+
+// Размер больше последнего узла сетки
+export const COEFFICIENT_OUT_OF_RANGE_MODES = [
+  "reject", // коэффициент не считается
+  "extrapolate", // продолжаем последний шаг сетки
+] as const;
+export type CoefficientOutOfRangeMode =
+  (typeof COEFFICIENT_OUT_OF_RANGE_MODES)[number];
+
+export const COEFFICIENT_WARNING_CODES = [
+  "out_of_range", // размер вне сетки, коэффициента нет
+  "extrapolated", // размер вне сетки, коэффициент экстраполирован
+  "fallback_category", // категории нет в таблице, взята другая
+] as const;
+export type CoefficientWarningCode = (typeof COEFFICIENT_WARNING_CODES)[number];
+
+export interface CoefficientWarning {
+  code: CoefficientWarningCode;
+  message: string;
+}
+
+// Purchase order statuses
+export const PURCHASE_ORDER_STATUSES = [
+  "draft", // черновик, можно править
+  "sent", // отправлен поставщику
+  "partially_received", // часть строк получена
+  "closed", // получен полностью или закрыт вручную
+] as const;
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number];
+
+// Quote statuses
+export const QUOTE_STATUSES = [
+  "open", // ждёт ответа дилера, можно выпускать новые редакции
+  "accepted", // принят — создан заказ
+  "rejected", // отклонён дилером или цехом
+] as const;
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
 // Audit log actions
 export const AUDIT_ACTIONS = [
   "create",
   "update",
   "delete",
   "status_change",
+  "unlock",
 ] as const;
 export type AuditAction = (typeof AUDIT_ACTIONS)[number];
 
@@ -1009,6 +2156,13 @@ export const AUDIT_ENTITY_TYPES = [
   "order",
   "finance",
   "warehouse_receipt",
+  "purchase_order",
+  "coefficient_version",
+  "price_tier",
+  "quote",
+  "shipment",
+  "sash_stage",
+  "installation",
   "dealer",
   "supplier",
   "color",
@@ -1020,6 +2174,8 @@ export const AUDIT_ENTITY_TYPES = [
   "multiplier",
   "installer",
   "measurement",
+  "staff",
+  "report_access",
 ] as const;
 export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
 
@@ -1030,5 +2186,112 @@ export const NOTIFICATION_TYPES = [
   "overdue_order",
   "overdue_payment",
   "measurement_sent",
+  "quote_decision",
+  "installation_completed",
 ] as const;
 export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// in_app — только в CRM; email — ещё и письмом сразу (в тихие часы — после
+// них); digest — ещё и в ежедневную сводку письмом
+export const NOTIFICATION_CHANNELS = ["in_app", "email", "digest"] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+// pending — письмо ждёт отправки (тихие часы или ошибка SMTP);
+// digest — ждёт ежедневной сводки; sending — захвачено отправкой
+export const NOTIFICATION_EMAIL_STATUSES = ["pending", "digest", "sending", "sent"] as const;
+export type NotificationEmailStatus = (typeof NOTIFICATION_EMAIL_STATUSES)[number];
+
+export interface NotificationRule {
+  enabled: boolean;
+  channel: NotificationChannel;
+  // Push на телефоны сотрудников (вне тихих часов)
+  push: boolean;
+  threshold?: number;
+}
+
+// Настраиваемые пороги. По умолчанию — прежнее поведение напоминаний
+export const NOTIFICATION_THRESHOLDS: Partial<
+  Record<NotificationType, { label: string; default: number; min: number; max: number }>
+> = {
+  overdue_order: { label: "Заказ без срока просрочен через, дней", default: 14, min: 1, max: 365 },
+  low_stock: { label: "Уведомлять, когда остаток ниже", default: 0, min: 0, max: 100000 },
+  overdue_payment: { label: "Напоминать дилеру о платеже за, дней", default: 3, min: 0, max: 30 },
+};
+
+export const notificationRuleSchema = z.object({
+  enabled: z.boolean(),
+  channel: z.enum(NOTIFICATION_CHANNELS),
+  push: z.boolean(),
+  threshold: z.coerce.number().optional(),
+});
+
+export const notificationPreferencesFormSchema = z
+  .object({
+    rules: z.record(z.enum(NOTIFICATION_TYPES), notificationRuleSchema),
+    email: z.string().trim().email("Некорректный email").nullable(),
+    quietHoursStart: z.string().regex(TIME_RE, "Укажите время в формате ЧЧ:ММ").nullable(),
+    quietHoursEnd: z.string().regex(TIME_RE, "Укажите время в формате ЧЧ:ММ").nullable(),
+    digestHour: z.coerce.number().int().min(0).max(23),
+  })
+  .superRefine((prefs, ctx) => {
+    if ((prefs.quietHoursStart === null) !== (prefs.quietHoursEnd === null)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Укажите начало и конец тихих часов",
+        path: ["quietHoursEnd"],
+      });
+    } else if (prefs.quietHoursStart !== null && prefs.quietHoursStart === prefs.quietHoursEnd) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Начало и конец тихих часов совпадают",
+        path: ["quietHoursEnd"],
+      });
+    }
+    for (const [type, rule] of Object.entries(prefs.rules)) {
+      const limits = NOTIFICATION_THRESHOLDS[type as NotificationType];
+      if (rule.threshold === undefined) continue;
+      if (!limits || !Number.isInteger(rule.threshold) || rule.threshold < limits.min || rule.threshold > limits.max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: limits
+            ? `Порог должен быть целым числом от ${limits.min} до ${limits.max}`
+            : "Для этого типа порог не настраивается",
+          path: ["rules", type, "threshold"],
+        });
+      }
+    }
+  });
+export type NotificationPreferencesForm = z.infer<typeof notificationPreferencesFormSchema>;
+
+// Staff roles
+export const STAFF_ROLES = [
+  "owner",
+  "manager",
+  "accountant",
+  "workshop",
+  "installer",
+  "readonly",
+] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+// Permission matrix resources and actions
+export const PERMISSION_RESOURCES = [
+  "dashboard",
+  "orders",
+  "production",
+  "finance",
+  "warehouse",
+  "references",
+  "dealers",
+  "measurements",
+  "installations",
+  "reports",
+  "audit",
+  "notifications",
+  "staff",
+  "settings",
+] as const;
+export type PermissionResource = (typeof PERMISSION_RESOURCES)[number];
+
+export const PERMISSION_ACTIONS = ["view", "edit"] as const;
+export type PermissionAction = (typeof PERMISSION_ACTIONS)[number];